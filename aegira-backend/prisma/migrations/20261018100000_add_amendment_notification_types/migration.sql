@@ -0,0 +1,8 @@
+-- Notification types for the check-in amendment (correction request) workflow
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'AMENDMENT_SUBMITTED';
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'AMENDMENT_APPROVED';
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'AMENDMENT_REJECTED';
+
+-- Pending-amendment lookup per check-in/field (duplicate guard + history badge)
+CREATE INDEX "amendments_check_in_id_field_name_status_idx"
+  ON "amendments"("check_in_id", "field_name", "status");
@@ -0,0 +1,26 @@
+-- Server-side sessions for refresh token rotation and revocation
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "person_id" TEXT NOT NULL,
+    "refresh_token_hash" TEXT NOT NULL,
+    "previous_token_hash" TEXT,
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+    "revoked_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "sessions_refresh_token_hash_key" ON "sessions"("refresh_token_hash");
+CREATE UNIQUE INDEX "sessions_previous_token_hash_key" ON "sessions"("previous_token_hash");
+CREATE INDEX "sessions_person_id_revoked_at_idx" ON "sessions"("person_id", "revoked_at");
+CREATE INDEX "sessions_company_id_idx" ON "sessions"("company_id");
+CREATE INDEX "sessions_expires_at_idx" ON "sessions"("expires_at");
+
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_person_id_fkey" FOREIGN KEY ("person_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
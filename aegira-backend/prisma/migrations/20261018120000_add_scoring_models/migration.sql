@@ -0,0 +1,20 @@
+-- Per-company, versioned readiness scoring models
+CREATE TABLE "scoring_models" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "config" JSONB NOT NULL,
+    "notes" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scoring_models_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "scoring_models_company_id_version_key" ON "scoring_models"("company_id", "version");
+
+ALTER TABLE "scoring_models" ADD CONSTRAINT "scoring_models_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "scoring_models" ADD CONSTRAINT "scoring_models_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "persons"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing check-ins were scored with the built-in default model (version 0)
+ALTER TABLE "check_ins" ADD COLUMN "scoring_model_version" INTEGER NOT NULL DEFAULT 0;
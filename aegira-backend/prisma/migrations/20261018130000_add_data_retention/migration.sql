@@ -0,0 +1,8 @@
+-- Per-company data retention policy (weekly cleanup job)
+ALTER TABLE "companies" ADD COLUMN "notification_archive_days" INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE "companies" ADD COLUMN "notification_purge_days" INTEGER NOT NULL DEFAULT 90;
+ALTER TABLE "companies" ADD COLUMN "event_payload_retention_days" INTEGER;
+ALTER TABLE "companies" ADD COLUMN "audit_log_retention_days" INTEGER;
+
+-- Marks events whose payload was stripped by the retention policy
+ALTER TABLE "events" ADD COLUMN "payload_trimmed_at" TIMESTAMP(3);
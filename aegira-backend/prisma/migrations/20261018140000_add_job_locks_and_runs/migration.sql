@@ -0,0 +1,27 @@
+-- Distributed job locking (lease table) and job run history
+CREATE TYPE "JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+CREATE TABLE "job_locks" (
+    "job_name" TEXT NOT NULL,
+    "locked_by" TEXT NOT NULL,
+    "locked_until" TIMESTAMP(3) NOT NULL,
+    "acquired_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_locks_pkey" PRIMARY KEY ("job_name")
+);
+
+CREATE TABLE "job_runs" (
+    "id" TEXT NOT NULL,
+    "job_name" TEXT NOT NULL,
+    "instance_id" TEXT NOT NULL,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "company_counts" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "job_runs_job_name_started_at_idx" ON "job_runs"("job_name", "started_at" DESC);
+CREATE INDEX "job_runs_started_at_idx" ON "job_runs"("started_at");
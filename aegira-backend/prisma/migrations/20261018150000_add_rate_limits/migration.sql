@@ -0,0 +1,10 @@
+-- Shared rate-limit counters for multi-replica deployments
+CREATE TABLE "rate_limits" (
+    "key" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "reset_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limits_pkey" PRIMARY KEY ("key")
+);
+
+CREATE INDEX "rate_limits_reset_at_idx" ON "rate_limits"("reset_at");
@@ -0,0 +1,2 @@
+-- Per-team check-in reminder lead time (null = reminders off)
+ALTER TABLE "teams" ADD COLUMN "reminder_lead_minutes" INTEGER DEFAULT 30;
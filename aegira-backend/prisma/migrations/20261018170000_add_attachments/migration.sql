@@ -0,0 +1,25 @@
+-- Evidence attachments on incidents and cases
+CREATE TABLE "attachments" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "incident_id" TEXT NOT NULL,
+    "case_id" TEXT,
+    "uploaded_by" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "size_bytes" INTEGER NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attachments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "attachments_storage_key_key" ON "attachments"("storage_key");
+CREATE INDEX "attachments_company_id_incident_id_created_at_idx" ON "attachments"("company_id", "incident_id", "created_at");
+CREATE INDEX "attachments_case_id_idx" ON "attachments"("case_id");
+CREATE INDEX "attachments_uploaded_by_idx" ON "attachments"("uploaded_by");
+
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_incident_id_fkey" FOREIGN KEY ("incident_id") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_uploaded_by_fkey" FOREIGN KEY ("uploaded_by") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- Case comment thread (replaces overwrite-only case notes for investigation history)
+ALTER TYPE "NotificationType" ADD VALUE 'CASE_COMMENT_MENTION';
+
+CREATE TYPE "CaseCommentVisibility" AS ENUM ('INTERNAL', 'REPORTER');
+
+CREATE TABLE "case_comments" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "case_id" TEXT NOT NULL,
+    "author_id" TEXT NOT NULL,
+    "parent_id" TEXT,
+    "body" TEXT NOT NULL,
+    "visibility" "CaseCommentVisibility" NOT NULL DEFAULT 'INTERNAL',
+    "mentioned_ids" TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "case_comments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "case_comments_company_id_case_id_created_at_idx" ON "case_comments"("company_id", "case_id", "created_at");
+CREATE INDEX "case_comments_author_id_idx" ON "case_comments"("author_id");
+CREATE INDEX "case_comments_parent_id_idx" ON "case_comments"("parent_id");
+
+ALTER TABLE "case_comments" ADD CONSTRAINT "case_comments_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "case_comments" ADD CONSTRAINT "case_comments_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "case_comments" ADD CONSTRAINT "case_comments_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "case_comments" ADD CONSTRAINT "case_comments_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "case_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- Case assignment workflow: assignment history + assignment notification/event types
+ALTER TYPE "NotificationType" ADD VALUE 'CASE_ASSIGNED';
+ALTER TYPE "EventType" ADD VALUE 'CASE_ASSIGNED';
+
+CREATE TABLE "case_assignments" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "case_id" TEXT NOT NULL,
+    "assignee_id" TEXT NOT NULL,
+    "previous_assignee_id" TEXT,
+    "assigned_by" TEXT NOT NULL,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "case_assignments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "case_assignments_company_id_case_id_created_at_idx" ON "case_assignments"("company_id", "case_id", "created_at");
+CREATE INDEX "case_assignments_assignee_id_idx" ON "case_assignments"("assignee_id");
+CREATE INDEX "case_assignments_assigned_by_idx" ON "case_assignments"("assigned_by");
+
+ALTER TABLE "case_assignments" ADD CONSTRAINT "case_assignments_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "case_assignments" ADD CONSTRAINT "case_assignments_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "case_assignments" ADD CONSTRAINT "case_assignments_assignee_id_fkey" FOREIGN KEY ("assignee_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "case_assignments" ADD CONSTRAINT "case_assignments_assigned_by_fkey" FOREIGN KEY ("assigned_by") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
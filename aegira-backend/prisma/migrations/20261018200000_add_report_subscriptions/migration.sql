@@ -0,0 +1,27 @@
+-- Scheduled report delivery: per-team weekly/monthly digest subscriptions
+CREATE TYPE "ReportFrequency" AS ENUM ('WEEKLY', 'MONTHLY');
+
+CREATE TABLE "report_subscriptions" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "team_id" TEXT NOT NULL,
+    "frequency" "ReportFrequency" NOT NULL,
+    "recipients" TEXT[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "last_period_end" DATE,
+    "last_sent_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "report_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "report_subscriptions_team_id_frequency_key" ON "report_subscriptions"("team_id", "frequency");
+CREATE INDEX "report_subscriptions_company_id_is_active_idx" ON "report_subscriptions"("company_id", "is_active");
+CREATE INDEX "report_subscriptions_created_by_idx" ON "report_subscriptions"("created_by");
+
+ALTER TABLE "report_subscriptions" ADD CONSTRAINT "report_subscriptions_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "report_subscriptions" ADD CONSTRAINT "report_subscriptions_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "report_subscriptions" ADD CONSTRAINT "report_subscriptions_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
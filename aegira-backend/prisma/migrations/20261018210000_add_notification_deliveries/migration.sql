@@ -0,0 +1,30 @@
+-- Outbound notification channels: per-channel delivery records with retry state
+CREATE TYPE "NotificationChannel" AS ENUM ('EMAIL');
+CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'SKIPPED');
+
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "notification_id" TEXT NOT NULL,
+    "person_id" TEXT NOT NULL,
+    "channel" "NotificationChannel" NOT NULL,
+    "status" "NotificationDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "recipient" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "notification_deliveries_status_next_attempt_at_idx" ON "notification_deliveries"("status", "next_attempt_at");
+CREATE INDEX "notification_deliveries_notification_id_idx" ON "notification_deliveries"("notification_id");
+CREATE INDEX "notification_deliveries_person_id_idx" ON "notification_deliveries"("person_id");
+CREATE INDEX "notification_deliveries_company_id_created_at_idx" ON "notification_deliveries"("company_id", "created_at");
+
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_notification_id_fkey" FOREIGN KEY ("notification_id") REFERENCES "notifications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_person_id_fkey" FOREIGN KEY ("person_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
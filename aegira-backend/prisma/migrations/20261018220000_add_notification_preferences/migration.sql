@@ -0,0 +1,24 @@
+-- Per-user notification preferences: channel choice per type, quiet hours, daily digest
+ALTER TABLE "persons" ADD COLUMN "quiet_hours_start" TEXT;
+ALTER TABLE "persons" ADD COLUMN "quiet_hours_end" TEXT;
+ALTER TABLE "persons" ADD COLUMN "notification_digest" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "person_id" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "in_app" BOOLEAN NOT NULL DEFAULT true,
+    "email" BOOLEAN NOT NULL DEFAULT false,
+    "push" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "notification_preferences_person_id_type_key" ON "notification_preferences"("person_id", "type");
+CREATE INDEX "notification_preferences_company_id_idx" ON "notification_preferences"("company_id");
+
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_person_id_fkey" FOREIGN KEY ("person_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
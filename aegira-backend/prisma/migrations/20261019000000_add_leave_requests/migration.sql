@@ -0,0 +1,33 @@
+-- Leave and schedule exceptions per worker, approved by team lead / supervisor
+CREATE TYPE "LeaveType" AS ENUM ('ANNUAL', 'SICK', 'TRAINING', 'OTHER');
+CREATE TYPE "LeaveStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'LEAVE_SUBMITTED';
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'LEAVE_APPROVED';
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'LEAVE_REJECTED';
+
+CREATE TABLE "leave_requests" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "person_id" TEXT NOT NULL,
+    "type" "LeaveType" NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "reason" TEXT,
+    "status" "LeaveStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "rejection_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "leave_requests_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "leave_requests_date_range_check" CHECK ("end_date" >= "start_date")
+);
+
+CREATE INDEX "leave_requests_person_id_status_start_date_end_date_idx" ON "leave_requests"("person_id", "status", "start_date", "end_date");
+CREATE INDEX "leave_requests_company_id_status_created_at_idx" ON "leave_requests"("company_id", "status", "created_at");
+CREATE INDEX "leave_requests_company_id_start_date_end_date_idx" ON "leave_requests"("company_id", "start_date", "end_date");
+
+ALTER TABLE "leave_requests" ADD CONSTRAINT "leave_requests_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "leave_requests" ADD CONSTRAINT "leave_requests_person_id_fkey" FOREIGN KEY ("person_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
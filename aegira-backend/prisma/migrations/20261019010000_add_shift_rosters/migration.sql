@@ -0,0 +1,29 @@
+-- Rotating shift rosters: repeating cycles assigned to teams or workers
+CREATE TABLE "shift_patterns" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "cycle" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shift_patterns_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "shift_patterns_company_id_name_key" ON "shift_patterns"("company_id", "name");
+
+ALTER TABLE "shift_patterns" ADD CONSTRAINT "shift_patterns_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Roster assignment (pattern + anchor date) on teams and workers
+ALTER TABLE "teams" ADD COLUMN "shift_pattern_id" TEXT,
+ADD COLUMN "roster_anchor_date" DATE;
+
+ALTER TABLE "persons" ADD COLUMN "shift_pattern_id" TEXT,
+ADD COLUMN "roster_anchor_date" DATE;
+
+CREATE INDEX "teams_shift_pattern_id_idx" ON "teams"("shift_pattern_id");
+CREATE INDEX "persons_shift_pattern_id_idx" ON "persons"("shift_pattern_id");
+
+ALTER TABLE "teams" ADD CONSTRAINT "teams_shift_pattern_id_fkey" FOREIGN KEY ("shift_pattern_id") REFERENCES "shift_patterns"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "persons" ADD CONSTRAINT "persons_shift_pattern_id_fkey" FOREIGN KEY ("shift_pattern_id") REFERENCES "shift_patterns"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- Single-use tokens for password reset and account invitation emails
+CREATE TYPE "AuthTokenType" AS ENUM ('PASSWORD_RESET', 'INVITATION');
+
+CREATE TABLE "auth_tokens" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "person_id" TEXT NOT NULL,
+    "type" "AuthTokenType" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auth_tokens_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "auth_tokens_token_hash_key" ON "auth_tokens"("token_hash");
+CREATE INDEX "auth_tokens_person_id_type_used_at_idx" ON "auth_tokens"("person_id", "type", "used_at");
+CREATE INDEX "auth_tokens_company_id_idx" ON "auth_tokens"("company_id");
+CREATE INDEX "auth_tokens_expires_at_idx" ON "auth_tokens"("expires_at");
+
+ALTER TABLE "auth_tokens" ADD CONSTRAINT "auth_tokens_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "auth_tokens" ADD CONSTRAINT "auth_tokens_person_id_fkey" FOREIGN KEY ("person_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
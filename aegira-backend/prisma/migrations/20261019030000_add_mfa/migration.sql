@@ -0,0 +1,20 @@
+-- TOTP multi-factor auth: per-person secret, recovery codes and a per-company role policy
+ALTER TABLE "companies" ADD COLUMN "mfa_required_roles" "Role"[] DEFAULT ARRAY[]::"Role"[];
+
+ALTER TABLE "persons" ADD COLUMN "mfa_secret" TEXT,
+ADD COLUMN "mfa_enabled_at" TIMESTAMP(3),
+ADD COLUMN "mfa_last_used_step" INTEGER;
+
+CREATE TABLE "mfa_recovery_codes" (
+    "id" TEXT NOT NULL,
+    "person_id" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mfa_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "mfa_recovery_codes_person_id_used_at_idx" ON "mfa_recovery_codes"("person_id", "used_at");
+
+ALTER TABLE "mfa_recovery_codes" ADD CONSTRAINT "mfa_recovery_codes_person_id_fkey" FOREIGN KEY ("person_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
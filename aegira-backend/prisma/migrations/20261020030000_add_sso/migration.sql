@@ -0,0 +1,10 @@
+-- OIDC single sign-on: per-company provider config, password-login switch and linked subjects
+ALTER TABLE "companies" ADD COLUMN "password_login_enabled" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "sso_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "sso_issuer" TEXT,
+ADD COLUMN "sso_client_id" TEXT,
+ADD COLUMN "sso_client_secret" TEXT;
+
+ALTER TABLE "persons" ADD COLUMN "sso_subject" TEXT;
+
+CREATE UNIQUE INDEX "persons_company_id_sso_subject_key" ON "persons"("company_id", "sso_subject");
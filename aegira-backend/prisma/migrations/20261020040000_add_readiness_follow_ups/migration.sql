@@ -0,0 +1,40 @@
+-- Team lead follow-up on RED / YELLOW check-ins, with escalation of unacknowledged RED ones
+CREATE TYPE "ReadinessFollowUpStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+CREATE TYPE "ReadinessFollowUpOutcome" AS ENUM ('CLEARED', 'MODIFIED_DUTY', 'STOOD_DOWN', 'SENT_HOME');
+
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'READINESS_FOLLOW_UP';
+ALTER TYPE "NotificationType" ADD VALUE IF NOT EXISTS 'READINESS_ESCALATED';
+
+ALTER TABLE "companies" ADD COLUMN "red_follow_up_ack_minutes" INTEGER NOT NULL DEFAULT 30;
+
+CREATE TABLE "readiness_follow_ups" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "check_in_id" TEXT NOT NULL,
+    "person_id" TEXT NOT NULL,
+    "team_id" TEXT NOT NULL,
+    "readiness_level" "ReadinessLevel" NOT NULL,
+    "status" "ReadinessFollowUpStatus" NOT NULL DEFAULT 'OPEN',
+    "acknowledge_by" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "acknowledged_at" TIMESTAMP(3),
+    "escalated_at" TIMESTAMP(3),
+    "outcome" "ReadinessFollowUpOutcome",
+    "notes" TEXT,
+    "resolved_by" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "readiness_follow_ups_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "readiness_follow_ups_check_in_id_key" ON "readiness_follow_ups"("check_in_id");
+CREATE INDEX "readiness_follow_ups_company_id_status_created_at_idx" ON "readiness_follow_ups"("company_id", "status", "created_at");
+CREATE INDEX "readiness_follow_ups_status_acknowledge_by_idx" ON "readiness_follow_ups"("status", "acknowledge_by");
+CREATE INDEX "readiness_follow_ups_team_id_idx" ON "readiness_follow_ups"("team_id");
+
+ALTER TABLE "readiness_follow_ups" ADD CONSTRAINT "readiness_follow_ups_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "readiness_follow_ups" ADD CONSTRAINT "readiness_follow_ups_check_in_id_fkey" FOREIGN KEY ("check_in_id") REFERENCES "check_ins"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "readiness_follow_ups" ADD CONSTRAINT "readiness_follow_ups_person_id_fkey" FOREIGN KEY ("person_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "readiness_follow_ups" ADD CONSTRAINT "readiness_follow_ups_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
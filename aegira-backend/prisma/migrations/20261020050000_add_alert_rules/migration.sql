@@ -0,0 +1,44 @@
+-- Company-defined alert rules over check-in and missed-check-in history, plus
+-- an optional deep link on notifications (alerts open the worker's profile)
+CREATE TYPE "AlertRuleMetric" AS ENUM ('CONSECUTIVE_YELLOW_OR_RED', 'RED_CHECK_INS', 'HIGH_STRESS', 'HIGH_PAIN', 'LOW_SLEEP', 'MISSED_CHECK_INS');
+
+ALTER TABLE "notifications" ADD COLUMN "link" TEXT;
+
+CREATE TABLE "alert_rules" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "metric" "AlertRuleMetric" NOT NULL,
+    "value" INTEGER,
+    "threshold" INTEGER NOT NULL,
+    "window_days" INTEGER NOT NULL,
+    "target_role" "Role" NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "alert_rule_triggers" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "rule_id" TEXT NOT NULL,
+    "person_id" TEXT NOT NULL,
+    "trigger_date" DATE NOT NULL,
+    "triggered_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alert_rule_triggers_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "alert_rules_company_id_name_key" ON "alert_rules"("company_id", "name");
+CREATE INDEX "alert_rules_company_id_is_active_idx" ON "alert_rules"("company_id", "is_active");
+CREATE UNIQUE INDEX "alert_rule_triggers_rule_id_person_id_trigger_date_key" ON "alert_rule_triggers"("rule_id", "person_id", "trigger_date");
+CREATE INDEX "alert_rule_triggers_person_id_idx" ON "alert_rule_triggers"("person_id");
+CREATE INDEX "alert_rule_triggers_company_id_idx" ON "alert_rule_triggers"("company_id");
+
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "alert_rule_triggers" ADD CONSTRAINT "alert_rule_triggers_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "alert_rule_triggers" ADD CONSTRAINT "alert_rule_triggers_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "alert_rule_triggers" ADD CONSTRAINT "alert_rule_triggers_person_id_fkey" FOREIGN KEY ("person_id") REFERENCES "persons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
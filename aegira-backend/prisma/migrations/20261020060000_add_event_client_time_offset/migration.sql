@@ -0,0 +1,3 @@
+-- Offline check-in replays: how far the device-reported event time was behind
+-- server receipt, so trusted client clocks can be reviewed later
+ALTER TABLE "events" ADD COLUMN "client_time_offset_seconds" INTEGER;
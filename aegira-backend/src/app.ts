@@ -17,6 +17,12 @@ import { notificationRoutes } from './modules/notification/notification.routes';
 import { adminRoutes } from './modules/admin/admin.routes';
 import { incidentRoutes } from './modules/incident/incident.routes';
 import { caseRoutes } from './modules/case/case.routes';
+import { amendmentRoutes } from './modules/amendment/amendment.routes';
+import { leaveRoutes } from './modules/leave/leave.routes';
+import { followUpRoutes } from './modules/follow-up/follow-up.routes';
+import { reportRoutes } from './modules/report/report.routes';
+import { rosterRoutes } from './modules/roster/roster.routes';
+import { alertRuleRoutes } from './modules/alert-rule/alert-rule.routes';
 
 const app = new Hono();
 
@@ -84,6 +90,12 @@ api.route('/notifications', notificationRoutes);
 api.route('/admin', adminRoutes);
 api.route('/incidents', incidentRoutes);
 api.route('/cases', caseRoutes);
+api.route('/amendments', amendmentRoutes);
+api.route('/leave', leaveRoutes);
+api.route('/follow-ups', followUpRoutes);
+api.route('/reports', reportRoutes);
+api.route('/rosters', rosterRoutes);
+api.route('/alert-rules', alertRuleRoutes);
 
 app.route('/api/v1', api);
 
@@ -6,23 +6,58 @@ const envSchema = z.object({
   PORT: z.coerce.number().default(3000),
   DATABASE_URL: z.string().url(),
   JWT_SECRET: z.string().min(32),
-  JWT_EXPIRES_IN: z.string().default('7d'),
+  JWT_EXPIRES_IN: z.string().default('15m'), // Access token lifetime
+  REFRESH_TOKEN_EXPIRES_IN: z.string().default('7d'), // Session (refresh token) lifetime
+  // Encrypts secrets stored in the database (TOTP seeds); derived from JWT_SECRET when unset
+  SECRET_ENCRYPTION_KEY: z.string().default(''),
+
+  // Public URL of the web app — used for links in outbound notifications
+  APP_URL: z.string().url().default('http://localhost:5173'),
+  // Public URL of this API — SSO redirect URIs point here (<API_URL>/api/v1/auth/sso/callback)
+  API_URL: z.string().url().default('http://localhost:3000'),
+  // Lets SSO reach an http or private-network issuer such as `npm run sso:mock-idp` (dev/tests only)
+  SSO_ALLOW_LOCAL_PROVIDER: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
 
   // CORS
   CORS_ORIGINS: z.string().default('http://localhost:5173,http://localhost:3000'),
 
+  // Rate limiting — 'postgres' shares counters across replicas and survives deploys
+  RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+
   // Scheduler
   ENABLE_SCHEDULER: z.coerce.boolean().default(true),
 
+  // File storage — 'local' writes under LOCAL_STORAGE_DIR (dev/tests only)
+  STORAGE_DRIVER: z.enum(['r2', 'local']).default('r2'),
+  LOCAL_STORAGE_DIR: z.string().default('./storage'),
+
   // Cloudflare R2 Storage (defaults for dev, validated for production below)
   R2_ACCOUNT_ID: z.string().default(''),
   R2_ACCESS_KEY_ID: z.string().default(''),
   R2_SECRET_ACCESS_KEY: z.string().default(''),
   R2_BUCKET_NAME: z.string().default('aegira-profiles'),
   R2_PUBLIC_URL: z.string().default('https://placeholder.r2.dev'),
+  // Private bucket for incident/case evidence — served only through authorized API downloads
+  R2_ATTACHMENTS_BUCKET_NAME: z.string().default('aegira-attachments'),
+
+  // Outbound mail — 'file' writes .eml files under MAIL_FILE_DIR, 'capture' keeps them in memory (dev/tests only)
+  // With 'smtp', mail is disabled while SMTP_HOST is unset
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'capture']).default('smtp'),
+  MAIL_FILE_DIR: z.string().default('./storage/mail'),
+  MAIL_FROM: z.string().default('AEGIRA <no-reply@aegira.health>'),
+  SMTP_HOST: z.string().default(''),
+  SMTP_PORT: z.coerce.number().default(587),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'), // implicit TLS (465)
+  SMTP_USER: z.string().default(''),
+  SMTP_PASSWORD: z.string().default(''),
+
+  // Web Push (VAPID) — generate once with `npm run push:keys`; push is disabled while unset
+  VAPID_PUBLIC_KEY: z.string().default(''),
+  VAPID_PRIVATE_KEY: z.string().default(''),
+  VAPID_SUBJECT: z.string().default('mailto:no-reply@aegira.health'),
 }).refine(
   (data) => {
-    if (data.NODE_ENV === 'production') {
+    if (data.NODE_ENV === 'production' && data.STORAGE_DRIVER === 'r2') {
       return data.R2_ACCOUNT_ID.length > 0
         && data.R2_ACCESS_KEY_ID.length > 0
         && data.R2_SECRET_ACCESS_KEY.length > 0;
@@ -30,6 +65,12 @@ const envSchema = z.object({
     return true;
   },
   { message: 'R2_ACCOUNT_ID, R2_ACCESS_KEY_ID, and R2_SECRET_ACCESS_KEY are required in production' }
+).refine(
+  (data) => !(data.NODE_ENV === 'production' && data.SSO_ALLOW_LOCAL_PROVIDER),
+  { message: 'SSO_ALLOW_LOCAL_PROVIDER must not be set in production' }
+).refine(
+  (data) => (data.VAPID_PUBLIC_KEY.length > 0) === (data.VAPID_PRIVATE_KEY.length > 0),
+  { message: 'VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set together' }
 );
 
 const parsed = envSchema.safeParse(process.env);
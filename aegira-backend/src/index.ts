@@ -7,6 +7,7 @@ import { app } from './app';
 import { env } from './config/env';
 import { logger } from './config/logger';
 import { initializeScheduler } from './jobs/scheduler';
+import { isMailConfigured } from './shared/mail';
 
 const port = env.PORT;
 
@@ -20,4 +21,8 @@ serve({
 // Start scheduled jobs (cron)
 initializeScheduler();
 
+if (!isMailConfigured()) {
+  logger.warn('SMTP_HOST is not set: invitations, password resets, email notifications and digests will not be sent');
+}
+
 logger.info(`Server running at http://localhost:${port}`);
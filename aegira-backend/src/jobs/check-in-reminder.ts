@@ -0,0 +1,219 @@
+// Check-In Reminder Job
+// Runs every 5 minutes. Reminds workers who haven't checked in yet that their
+// check-in window is about to close. Lead time is configured per team
+// (team.reminder_lead_minutes; null = reminders off for that team).
+import { DateTime } from 'luxon';
+import { prisma } from '../config/database';
+import { sendNotifications } from '../modules/notification/notification.service';
+import { logger } from '../config/logger';
+import {
+  getTodayInTimezone,
+  getCurrentTimeInTimezone,
+  formatDateInTimezone,
+  parseDateInTimezone,
+  formatTime12h,
+} from '../shared/utils';
+import { checkHolidayForDate } from '../shared/holiday.utils';
+import { resolveDaySchedule, getScheduleCloseMinutes, timeToMinutes } from '../shared/schedule.utils';
+import { approvedLeaveOn } from '../modules/leave/leave.repository';
+import { rosterSelect, toRoster } from '../modules/roster/roster.repository';
+import type { JobCompanyCounts } from './job-lock';
+
+/**
+ * In-memory guard against overlapping runs within this process.
+ * Cross-instance exclusion is handled by the scheduler's job lock (job-lock.ts).
+ */
+let isRunning = false;
+
+/**
+ * Core reminder logic:
+ *
+ * For each active company:
+ *   1. Get current date/time in company timezone
+ *   2. Check if today is a company holiday → skip if yes
+ *   3. Find active workers on active teams with reminders enabled,
+ *      assigned before today
+ *   4. Filter workers whose schedule (roster → override → team fallback)
+ *      has today as a work day AND current time is inside the reminder window
+ *      of the last window: max(end - lead, start) <= now < end
+ *   5. Drop workers who already checked in or were already reminded today
+ *   6. Send CHECK_IN_REMINDER notifications
+ */
+export async function sendCheckInReminders(): Promise<JobCompanyCounts> {
+  // Prevent overlapping runs
+  if (isRunning) {
+    logger.info('Skipping check-in reminders: previous run still in progress');
+    return {};
+  }
+
+  isRunning = true;
+  logger.info('Running check-in reminders');
+
+  try {
+    const companies = await prisma.company.findMany({
+      where: { is_active: true },
+      select: { id: true, timezone: true },
+    });
+
+    let totalReminded = 0;
+    const companyCounts: JobCompanyCounts = {};
+
+    // Process companies sequentially to control connection pool usage
+    for (const company of companies) {
+      try {
+        const reminded = await processCompany(company.id, company.timezone);
+        totalReminded += reminded;
+        companyCounts[company.id] = reminded;
+      } catch (companyError) {
+        // Log error but continue processing other companies
+        logger.error(
+          { error: companyError, companyId: company.id },
+          'Failed to process company for check-in reminders'
+        );
+        companyCounts[company.id] = { error: companyError instanceof Error ? companyError.message : 'Unknown error' };
+      }
+    }
+
+    logger.info({ totalReminded }, 'Check-in reminders completed');
+    return companyCounts;
+  } catch (error) {
+    logger.error({ error }, 'Failed to run check-in reminders');
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+async function processCompany(companyId: string, timezone: string): Promise<number> {
+  const nowMinutes = timeToMinutes(getCurrentTimeInTimezone(timezone));
+  const todayStr = getTodayInTimezone(timezone);
+  const todayDate = parseDateInTimezone(todayStr, timezone);
+
+  const holiday = await checkHolidayForDate(prisma, companyId, todayStr);
+  if (holiday.isHoliday) {
+    logger.info({ companyId, date: todayStr }, 'Skipping check-in reminders: today is a holiday');
+    return 0;
+  }
+
+  // Find active workers on active teams with reminders enabled, assigned before today
+  const workers = await prisma.person.findMany({
+    where: {
+      company_id: companyId,
+      role: 'WORKER',
+      is_active: true,
+      team_assigned_at: { not: null },
+      team: {
+        is_active: true,
+        reminder_lead_minutes: { not: null },
+      },
+    },
+    select: {
+      id: true,
+      team_assigned_at: true,
+      // Worker schedule override fields
+      work_days: true,
+      check_in_start: true,
+      check_in_end: true,
+      ...rosterSelect,
+      // Approved leave covering today — no reminder while on leave
+      leave_requests: approvedLeaveOn(todayDate),
+      // Team schedule for fallback + reminder lead time
+      team: {
+        select: {
+          work_days: true,
+          check_in_start: true,
+          check_in_end: true,
+          reminder_lead_minutes: true,
+          ...rosterSelect,
+        },
+      },
+    },
+  });
+
+  // Filter workers by: assigned before today, today is their work day,
+  // AND the current time falls inside their reminder window.
+  const dueWorkers: { id: string; checkInEnd: string }[] = [];
+  for (const w of workers) {
+    if (!w.team_assigned_at || !w.team || w.team.reminder_lead_minutes === null) continue;
+
+    // Same day = just assigned, check-in not required yet
+    const assignedDateStr = formatDateInTimezone(new Date(w.team_assigned_at), timezone);
+    if (assignedDateStr >= todayStr) continue;
+
+    const personSchedule = {
+      work_days: w.work_days,
+      check_in_start: w.check_in_start,
+      check_in_end: w.check_in_end,
+      exceptions: w.leave_requests,
+      roster: toRoster(w),
+    };
+    const teamSchedule = {
+      work_days: w.team.work_days,
+      check_in_start: w.team.check_in_start,
+      check_in_end: w.team.check_in_end,
+      roster: toRoster(w.team),
+    };
+
+    const today = resolveDaySchedule(personSchedule, teamSchedule, todayStr);
+    const last = today.windows[today.windows.length - 1];
+    const closeMinutes = getScheduleCloseMinutes(today);
+    if (!today.isWorkDay || !last || closeMinutes === null) continue;
+
+    // Remind ahead of the last window closing, but not before it opens — the worker
+    // couldn't check in yet. Runs on today's clock only: when the lead time puts the
+    // reminder of an overnight window past midnight, no reminder is sent.
+    const remindFrom = Math.max(closeMinutes - w.team.reminder_lead_minutes, timeToMinutes(last.start));
+
+    if (nowMinutes >= remindFrom && nowMinutes < closeMinutes) {
+      dueWorkers.push({ id: w.id, checkInEnd: last.end });
+    }
+  }
+
+  if (dueWorkers.length === 0) return 0;
+
+  const workerIds = dueWorkers.map((w) => w.id);
+  const startOfToday = DateTime.fromISO(todayStr, { zone: timezone }).startOf('day').toJSDate();
+
+  // Already checked in / already reminded today — independent, run in parallel
+  const [checkIns, sentReminders] = await Promise.all([
+    prisma.checkIn.findMany({
+      where: {
+        company_id: companyId,
+        person_id: { in: workerIds },
+        check_in_date: todayDate,
+      },
+      select: { person_id: true },
+    }),
+    prisma.notification.findMany({
+      where: {
+        company_id: companyId,
+        person_id: { in: workerIds },
+        type: 'CHECK_IN_REMINDER',
+        created_at: { gte: startOfToday },
+      },
+      select: { person_id: true },
+    }),
+  ]);
+
+  const skipSet = new Set([
+    ...checkIns.map((ci) => ci.person_id),
+    ...sentReminders.map((n) => n.person_id),
+  ]);
+
+  const notifications = dueWorkers
+    .filter((w) => !skipSet.has(w.id))
+    .map((w) => ({
+      personId: w.id,
+      type: 'CHECK_IN_REMINDER' as const,
+      title: 'Check-in Reminder',
+      message: `You haven't checked in yet today. The check-in window closes at ${formatTime12h(w.checkInEnd)}.`,
+    }));
+
+  if (notifications.length === 0) return 0;
+
+  sendNotifications(prisma, companyId, notifications);
+
+  logger.info({ companyId, reminded: notifications.length }, 'Sent check-in reminders for company');
+
+  return notifications.length;
+}
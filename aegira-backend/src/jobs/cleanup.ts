@@ -1,14 +1,227 @@
 // Weekly Cleanup Job
+// Runs every Sunday. Applies each company's data retention policy:
+//   1. Archive read notifications older than notification_archive_days
+//   2. Delete archived notifications older than notification_purge_days
+//   3. Trim event payloads older than event_payload_retention_days (if set)
+//   4. Delete audit logs older than audit_log_retention_days (if set)
+//   5. Delete sessions that expired or were revoked more than 30 days ago
+//   6. Delete expired password reset / invitation tokens
+// Writes one summary audit entry per company, then trims job run history.
+import { prisma } from '../config/database';
 import { logger } from '../config/logger';
+import { logAudit } from '../shared/audit';
+import type { JobCompanyCounts } from './job-lock';
+
+/** Expired/revoked sessions are kept briefly for incident investigation */
+const SESSION_RETENTION_DAYS = 30;
+
+/** Scheduled job run history (job_runs) is operational data, not company data */
+const JOB_RUN_RETENTION_DAYS = 90;
+
+/**
+ * Rows are deleted/updated in batches so a large backlog (first run after
+ * enabling a policy) doesn't hold long locks on hot tables.
+ */
+const BATCH_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory guard against overlapping runs within this process.
+ * Cross-instance exclusion is handled by the scheduler's job lock (job-lock.ts).
+ */
+let isRunning = false;
+
+interface RetentionPolicy {
+  id: string;
+  notification_archive_days: number;
+  notification_purge_days: number;
+  event_payload_retention_days: number | null;
+  audit_log_retention_days: number | null;
+}
+
+export interface CleanupSummary {
+  notificationsArchived: number;
+  notificationsPurged: number;
+  eventPayloadsTrimmed: number;
+  auditLogsPurged: number;
+  sessionsPurged: number;
+  authTokensPurged: number;
+}
+
+export async function runCleanup(): Promise<JobCompanyCounts> {
+  if (isRunning) {
+    logger.info('Skipping cleanup: previous run still in progress');
+    return {};
+  }
+
+  isRunning = true;
+
+  try {
+    const companies = await prisma.company.findMany({
+      where: { is_active: true },
+      select: {
+        id: true,
+        notification_archive_days: true,
+        notification_purge_days: true,
+        event_payload_retention_days: true,
+        audit_log_retention_days: true,
+      },
+    });
+
+    const companyCounts: JobCompanyCounts = {};
+
+    for (const company of companies) {
+      try {
+        const summary = await cleanupCompany(company);
+        logger.info({ companyId: company.id, ...summary }, 'Retention cleanup completed for company');
+        companyCounts[company.id] = summary;
+      } catch (error) {
+        logger.error({ error, companyId: company.id }, 'Failed to run cleanup for company');
+        companyCounts[company.id] = { error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+
+    const jobRuns = await prisma.jobRun.deleteMany({
+      where: { started_at: { lt: new Date(Date.now() - JOB_RUN_RETENTION_DAYS * DAY_MS) } },
+    });
+    if (jobRuns.count > 0) {
+      logger.info({ count: jobRuns.count }, 'Purged old job run history');
+    }
+
+    return companyCounts;
+  } catch (error) {
+    logger.error({ error }, 'Failed to run weekly cleanup');
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+export async function cleanupCompany(
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): Promise<CleanupSummary> {
+  const companyId = policy.id;
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+  // 1. Archive read notifications
+  const archived = await prisma.notification.updateMany({
+    where: {
+      company_id: companyId,
+      archived_at: null,
+      read_at: { lt: daysAgo(policy.notification_archive_days) },
+    },
+    data: { archived_at: now },
+  });
+
+  // 2. Purge archived notifications
+  const notificationsPurged = await processInBatches((take) =>
+    prisma.notification.findMany({
+      where: {
+        company_id: companyId,
+        archived_at: { lt: daysAgo(policy.notification_purge_days) },
+      },
+      select: { id: true },
+      take,
+    }),
+    (ids) => prisma.notification.deleteMany({ where: { id: { in: ids } } })
+  );
+
+  // 3. Trim event payloads — the row is kept (check-ins reference it) but the data is dropped
+  let eventPayloadsTrimmed = 0;
+  if (policy.event_payload_retention_days !== null) {
+    const cutoff = daysAgo(policy.event_payload_retention_days);
+    eventPayloadsTrimmed = await processInBatches((take) =>
+      prisma.event.findMany({
+        where: { company_id: companyId, created_at: { lt: cutoff }, payload_trimmed_at: null },
+        select: { id: true },
+        take,
+      }),
+      (ids) => prisma.event.updateMany({
+        where: { id: { in: ids } },
+        data: { payload: {}, payload_trimmed_at: now },
+      })
+    );
+  }
+
+  // 4. Purge audit logs (the summary entry below is written after, so it survives)
+  let auditLogsPurged = 0;
+  if (policy.audit_log_retention_days !== null) {
+    const cutoff = daysAgo(policy.audit_log_retention_days);
+    auditLogsPurged = await processInBatches((take) =>
+      prisma.auditLog.findMany({
+        where: { company_id: companyId, created_at: { lt: cutoff } },
+        select: { id: true },
+        take,
+      }),
+      (ids) => prisma.auditLog.deleteMany({ where: { id: { in: ids } } })
+    );
+  }
+
+  // 5. Purge dead sessions
+  const sessionCutoff = daysAgo(SESSION_RETENTION_DAYS);
+  const sessions = await prisma.session.deleteMany({
+    where: {
+      company_id: companyId,
+      OR: [{ expires_at: { lt: sessionCutoff } }, { revoked_at: { lt: sessionCutoff } }],
+    },
+  });
+
+  // 6. Purge expired email tokens (used ones are kept until expiry, then go too)
+  const authTokens = await prisma.authToken.deleteMany({
+    where: { company_id: companyId, expires_at: { lt: now } },
+  });
+
+  const summary: CleanupSummary = {
+    notificationsArchived: archived.count,
+    notificationsPurged,
+    eventPayloadsTrimmed,
+    auditLogsPurged,
+    sessionsPurged: sessions.count,
+    authTokensPurged: authTokens.count,
+  };
+
+  logAudit({
+    companyId,
+    personId: null,
+    action: 'DATA_RETENTION_CLEANUP',
+    entityType: 'COMPANY',
+    entityId: companyId,
+    details: {
+      ...summary,
+      policy: {
+        notificationArchiveDays: policy.notification_archive_days,
+        notificationPurgeDays: policy.notification_purge_days,
+        eventPayloadRetentionDays: policy.event_payload_retention_days,
+        auditLogRetentionDays: policy.audit_log_retention_days,
+      },
+    },
+  });
+
+  return summary;
+}
 
 /**
- * Cleans up old data and performs maintenance tasks.
- * Currently a stub — will be implemented when retention policies are defined.
+ * Repeatedly select up to BATCH_SIZE ids and apply the operation until none remain.
+ * Returns the total number of affected rows.
  */
-export async function runCleanup(): Promise<void> {
-  // TODO: Implement cleanup tasks
-  // 1. Archive old notifications (> 30 days)
-  // 2. Clean up expired sessions
-  // 3. Generate weekly reports
-  logger.warn('Weekly cleanup job is a stub — no cleanup performed');
+async function processInBatches(
+  findBatch: (take: number) => Promise<{ id: string }[]>,
+  apply: (ids: string[]) => Promise<{ count: number }>
+): Promise<number> {
+  let total = 0;
+
+  for (;;) {
+    const batch = await findBatch(BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    const result = await apply(batch.map((row) => row.id));
+    total += result.count;
+
+    // A short batch is the last one; zero affected rows means another run got there first
+    if (batch.length < BATCH_SIZE || result.count === 0) break;
+  }
+
+  return total;
 }
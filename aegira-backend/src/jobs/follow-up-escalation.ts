@@ -0,0 +1,110 @@
+// Readiness Follow-Up Escalation Job
+// Runs every 5 minutes. A RED check-in whose follow-up is still OPEN after its
+// acknowledge_by deadline is escalated once: the team's supervisor is notified,
+// or the company admins when the team has no supervisor (or the supervisor was
+// already the one who should have acknowledged it — a team lead's own check-in).
+
+import { DateTime } from 'luxon';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { sendNotifications } from '../modules/notification/notification.service';
+import { getFollowUpOwnerId } from '../modules/follow-up/follow-up.service';
+import type { JobCompanyCounts } from './job-lock';
+
+// In-process overlap guard; cross-instance exclusion is the scheduler's job lock
+let isRunning = false;
+
+export async function escalateFollowUps(): Promise<JobCompanyCounts> {
+  if (isRunning) {
+    logger.info('Skipping follow-up escalation: previous run still in progress');
+    return {};
+  }
+
+  isRunning = true;
+
+  try {
+    const overdue = await prisma.readinessFollowUp.findMany({
+      where: {
+        status: 'OPEN',
+        escalated_at: null,
+        acknowledge_by: { lt: new Date() },
+        company: { is_active: true },
+      },
+      select: {
+        id: true,
+        company_id: true,
+        person_id: true,
+        acknowledge_by: true,
+        person: { select: { first_name: true, last_name: true } },
+        team: { select: { name: true, leader_id: true, supervisor_id: true } },
+        company: { select: { timezone: true } },
+      },
+      orderBy: { acknowledge_by: 'asc' },
+    });
+
+    const companyCounts: JobCompanyCounts = {};
+    let totalEscalated = 0;
+
+    for (const followUp of overdue) {
+      try {
+        // Claim it — acknowledged in the meantime or escalated by an earlier run means no-op
+        const claimed = await prisma.readinessFollowUp.updateMany({
+          where: { id: followUp.id, status: 'OPEN', escalated_at: null },
+          data: { escalated_at: new Date() },
+        });
+        if (claimed.count === 0) continue;
+
+        const recipientIds = await getEscalationRecipients(followUp.company_id, followUp.team, followUp.person_id);
+        if (recipientIds.length === 0) {
+          logger.warn({ followUpId: followUp.id }, 'No one to escalate RED follow-up to');
+          continue;
+        }
+
+        const workerName = `${followUp.person.first_name} ${followUp.person.last_name}`;
+        const due = DateTime.fromJSDate(followUp.acknowledge_by!).setZone(followUp.company.timezone).toFormat('h:mm a');
+        sendNotifications(
+          prisma,
+          followUp.company_id,
+          recipientIds.map((personId) => ({
+            personId,
+            type: 'READINESS_ESCALATED' as const,
+            title: 'RED Check-In Not Acknowledged',
+            message: `${workerName} (${followUp.team.name}) checked in RED and it was not acknowledged by ${due}. Please follow up.`,
+          }))
+        );
+
+        totalEscalated++;
+        companyCounts[followUp.company_id] = ((companyCounts[followUp.company_id] as number | undefined) ?? 0) + 1;
+      } catch (error) {
+        logger.error({ error, followUpId: followUp.id }, 'Failed to escalate readiness follow-up');
+      }
+    }
+
+    if (totalEscalated > 0) {
+      logger.info({ totalEscalated }, 'Follow-up escalation completed');
+    }
+    return companyCounts;
+  } catch (error) {
+    logger.error({ error }, 'Failed to run follow-up escalation');
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+async function getEscalationRecipients(
+  companyId: string,
+  team: { leader_id: string; supervisor_id: string | null },
+  personId: string
+): Promise<string[]> {
+  const ownerId = getFollowUpOwnerId(team, personId);
+  if (team.supervisor_id && team.supervisor_id !== ownerId && team.supervisor_id !== personId) {
+    return [team.supervisor_id];
+  }
+
+  const admins = await prisma.person.findMany({
+    where: { company_id: companyId, role: 'ADMIN', is_active: true, id: { not: personId } },
+    select: { id: true },
+  });
+  return admins.map((admin) => admin.id);
+}
@@ -0,0 +1,134 @@
+// Distributed Job Lock + Run History
+// Every API replica runs the same cron schedule. Before a job runs, the instance
+// must acquire a lease row in job_locks; other replicas skip that tick.
+// Lease expiry uses the database clock so replica clock skew doesn't matter.
+// While the job runs the lease is renewed periodically, so a long run keeps it
+// and a crashed instance's lease simply expires. A finished run keeps the lease
+// for the rest of its tick, so a replica whose cron fires a moment later can't
+// take a free lease and run the same tick again.
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+
+/** Per-company results reported by a job, stored on the JobRun row */
+export type JobCompanyCounts = Record<string, unknown>;
+
+export interface JobLockTiming {
+  /** Lease while running — should exceed the job's typical duration; renewed every leaseMs / 3 */
+  leaseMs: number;
+  /** Cron interval of the job. After the run the lease is held until halfway to the next tick. */
+  tickIntervalMs: number;
+}
+
+/** Identifies this process in job_locks.locked_by and job_runs.instance_id */
+export const INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/**
+ * Try to take the lease for a job.
+ * Succeeds if no lease exists or the existing lease has expired.
+ */
+export async function acquireJobLock(jobName: string, leaseMs: number): Promise<boolean> {
+  const rows = await prisma.$queryRaw<{ job_name: string }[]>`
+    INSERT INTO job_locks (job_name, locked_by, locked_until, acquired_at)
+    VALUES (${jobName}, ${INSTANCE_ID}, NOW() + (${leaseMs} * INTERVAL '1 millisecond'), NOW())
+    ON CONFLICT (job_name) DO UPDATE
+      SET locked_by = EXCLUDED.locked_by,
+          locked_until = EXCLUDED.locked_until,
+          acquired_at = EXCLUDED.acquired_at
+      WHERE job_locks.locked_until < NOW()
+    RETURNING job_name
+  `;
+  return rows.length > 0;
+}
+
+/** Extend our lease. Returns false if another instance has taken it over. */
+export async function renewJobLock(jobName: string, leaseMs: number): Promise<boolean> {
+  const count = await prisma.$executeRaw`
+    UPDATE job_locks
+    SET locked_until = NOW() + (${leaseMs} * INTERVAL '1 millisecond')
+    WHERE job_name = ${jobName} AND locked_by = ${INSTANCE_ID}
+  `;
+  return count > 0;
+}
+
+/**
+ * End our lease holdMs after it was acquired instead of now (no-op if it was
+ * taken over). Replicas firing the same tick late still find it held; if the
+ * run outlasted holdMs the lease is already free.
+ */
+export async function settleJobLock(jobName: string, holdMs: number): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE job_locks
+    SET locked_until = acquired_at + (${holdMs} * INTERVAL '1 millisecond')
+    WHERE job_name = ${jobName} AND locked_by = ${INSTANCE_ID}
+  `;
+}
+
+/**
+ * Run a job only if this instance wins the lease, recording a JobRun row.
+ * Skipped ticks (lease held elsewhere) are logged but not recorded.
+ * Errors are recorded on the run and re-thrown to the caller.
+ *
+ * Half the tick interval is the hold: far longer than replicas' cron skew,
+ * and short enough that the next tick always finds the lease free.
+ */
+export async function runWithJobLock(
+  jobName: string,
+  { leaseMs, tickIntervalMs }: JobLockTiming,
+  job: () => Promise<JobCompanyCounts | void>
+): Promise<void> {
+  const acquired = await acquireJobLock(jobName, leaseMs);
+  if (!acquired) {
+    logger.info({ jobName }, 'Skipping job: lock held by another instance');
+    return;
+  }
+
+  const run = await prisma.jobRun.create({
+    data: { job_name: jobName, instance_id: INSTANCE_ID },
+    select: { id: true },
+  });
+
+  const heartbeat = setInterval(() => {
+    renewJobLock(jobName, leaseMs)
+      .then((renewed) => {
+        if (!renewed) logger.warn({ jobName }, 'Job lock lost to another instance during run');
+      })
+      .catch((error: unknown) => {
+        logger.error({ error, jobName }, 'Failed to renew job lock');
+      });
+  }, Math.max(Math.floor(leaseMs / 3), 1000));
+  heartbeat.unref();
+
+  try {
+    const counts = await job();
+    await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'SUCCEEDED',
+        finished_at: new Date(),
+        company_counts: (counts ?? {}) as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    await prisma.jobRun
+      .update({
+        where: { id: run.id },
+        data: {
+          status: 'FAILED',
+          finished_at: new Date(),
+          error: error instanceof Error ? error.message.slice(0, 2000) : String(error),
+        },
+      })
+      .catch((updateError: unknown) => {
+        logger.error({ error: updateError, jobName }, 'Failed to record job failure');
+      });
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+    await settleJobLock(jobName, Math.floor(tickIntervalMs / 2)).catch((error: unknown) => {
+      logger.error({ error, jobName }, 'Failed to settle job lock');
+    });
+  }
+}
@@ -1,36 +1,33 @@
 // Missed Check-In Detector Job
 // Runs every 15 minutes. Detects workers who missed their check-in
-// after the team's check-in window has closed for the day.
+// after their last check-in window has closed for the day.
+import type { Role } from '@prisma/client';
 import { prisma } from '../config/database';
 import { MissedCheckInRepository } from '../modules/missed-check-in/missed-check-in.repository';
 import { MissedCheckInSnapshotService } from '../modules/missed-check-in/missed-check-in-snapshot.service';
 import { sendNotifications } from '../modules/notification/notification.service';
 import { buildEventData } from '../modules/event/event.service';
+import { evaluateAlertRules } from '../modules/alert-rule/alert-rule.service';
 import { logger } from '../config/logger';
+import { DateTime } from 'luxon';
 import {
   getTodayInTimezone,
   getCurrentTimeInTimezone,
-  getDayOfWeekInTimezone,
   formatDateInTimezone,
   parseDateInTimezone,
   formatTime12h,
 } from '../shared/utils';
 import { isHoliday, buildHolidayDateSet } from '../shared/holiday.utils';
-import { isWorkDay, getEffectiveSchedule } from '../shared/schedule.utils';
-
-/**
- * Add minutes to a time string (HH:mm).
- * Handles hour overflow (e.g., 10:59 + 2 = 11:01).
- */
-function addMinutesToTime(time: string, minutes: number): string {
-  const parts = time.split(':').map(Number);
-  const hours = parts[0] ?? 0;
-  const mins = parts[1] ?? 0;
-  const totalMinutes = hours * 60 + mins + minutes;
-  const newHours = Math.floor(totalMinutes / 60) % 24;
-  const newMins = totalMinutes % 60;
-  return `${String(newHours).padStart(2, '0')}:${String(newMins).padStart(2, '0')}`;
-}
+import {
+  resolveDaySchedule,
+  getScheduleCloseMinutes,
+  formatScheduleWindows,
+  timeToMinutes,
+  type DaySchedule,
+} from '../shared/schedule.utils';
+import { approvedLeaveOn } from '../modules/leave/leave.repository';
+import { rosterSelect, toRoster, type RosterRow } from '../modules/roster/roster.repository';
+import type { JobCompanyCounts } from './job-lock';
 
 /**
  * Buffer time (in minutes) after check-in window closes before detecting misses.
@@ -38,9 +35,33 @@ function addMinutesToTime(time: string, minutes: number): string {
  */
 const WINDOW_BUFFER_MINUTES = 2;
 
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Worker row as selected by processCompany() */
+interface ScheduledWorker extends RosterRow {
+  id: string;
+  team_id: string | null;
+  team_assigned_at: Date | null;
+  role: Role;
+  work_days: string | null;
+  check_in_start: string | null;
+  check_in_end: string | null;
+  team: (RosterRow & { work_days: string; check_in_start: string; check_in_end: string }) | null;
+}
+
+/** A worker whose last window closed on `day.date` — checked for a check-in next */
+interface MissCandidate {
+  worker: ScheduledWorker;
+  day: DaySchedule;
+}
+
+interface TeamSnapshot {
+  leader: { id: string; first_name: string; last_name: string } | null;
+}
+
 /**
- * In-memory lock to prevent overlapping job runs.
- * For multi-instance deployments, use Redis or database-based locking.
+ * In-memory guard against overlapping runs within this process.
+ * Cross-instance exclusion is handled by the scheduler's job lock (job-lock.ts).
  */
 let isRunning = false;
 
@@ -49,19 +70,19 @@ let isRunning = false;
  *
  * For each active company:
  *   1. Get current time in company timezone
- *   2. Check if today is a company holiday → skip if yes
- *   3. Get today's day-of-week in company timezone
- *   4. Find active workers on active teams who were assigned before today
- *   5. Filter workers whose effective schedule (override → team fallback)
- *      has today as a work day AND check_in_end + buffer <= current time
- *   6. Insert MissedCheckIn records (skipDuplicates for idempotency)
- *   7. Send notifications for newly detected records
+ *   2. Check if today and yesterday are company holidays → skip if both are
+ *   3. Find active workers on active teams who were assigned before the schedule date
+ *   4. Resolve each worker's schedule (roster → override → team fallback) and keep
+ *      work days (not on approved leave) whose last window closed + buffer <= current time:
+ *      today's, or yesterday's when its last window ran overnight into this morning
+ *   5. Per missed date: insert MissedCheckIn records (skipDuplicates for idempotency)
+ *   6. Send notifications for newly detected records
  */
-export async function detectMissedCheckIns(): Promise<void> {
+export async function detectMissedCheckIns(): Promise<JobCompanyCounts> {
   // Prevent overlapping runs
   if (isRunning) {
     logger.info('Skipping missed check-in detection: previous run still in progress');
-    return;
+    return {};
   }
 
   isRunning = true;
@@ -75,22 +96,26 @@ export async function detectMissedCheckIns(): Promise<void> {
     });
 
     let totalDetected = 0;
+    const companyCounts: JobCompanyCounts = {};
 
     // Process companies sequentially to control connection pool usage
     for (const company of companies) {
       try {
         const detected = await processCompany(company.id, company.timezone);
         totalDetected += detected;
+        companyCounts[company.id] = detected;
       } catch (companyError) {
         // Log error but continue processing other companies
         logger.error(
           { error: companyError, companyId: company.id },
           'Failed to process company for missed check-ins'
         );
+        companyCounts[company.id] = { error: companyError instanceof Error ? companyError.message : 'Unknown error' };
       }
     }
 
     logger.info({ totalDetected }, 'Missed check-in detection completed');
+    return companyCounts;
   } catch (error) {
     logger.error({ error }, 'Failed to run missed check-in detection');
     throw error;
@@ -101,13 +126,17 @@ export async function detectMissedCheckIns(): Promise<void> {
 
 async function processCompany(companyId: string, timezone: string): Promise<number> {
   const currentTime = getCurrentTimeInTimezone(timezone);
+  const nowMinutes = timeToMinutes(currentTime);
   const todayStr = getTodayInTimezone(timezone);
-  const todayDow = getDayOfWeekInTimezone(timezone).toString();
+  const yesterdayStr = DateTime.fromISO(todayStr).minus({ days: 1 }).toISODate()!;
   const todayDate = parseDateInTimezone(todayStr, timezone);
+  const yesterdayDate = parseDateInTimezone(yesterdayStr, timezone);
 
-  // Holiday check and team fetch are independent — run in parallel
-  const [holiday, teams] = await Promise.all([
+  // Holiday checks and team fetch are independent — run in parallel.
+  // Yesterday only matters for overnight shifts that closed this morning.
+  const [holidayToday, holidayYesterday, teams] = await Promise.all([
     isHoliday(prisma, companyId, todayStr),
+    isHoliday(prisma, companyId, yesterdayStr),
     prisma.team.findMany({
       where: {
         company_id: companyId,
@@ -126,13 +155,13 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
     }),
   ]);
 
-  if (holiday) {
+  if (holidayToday && holidayYesterday) {
     logger.info({ companyId, date: todayStr }, 'Skipping missed check-in detection: today is a holiday');
     return 0;
   }
 
   // Build team lookup map (used for leader snapshots in records + notifications).
-  // Per-worker window check happens below using getEffectiveSchedule().
+  // Per-worker window check happens below using resolveDaySchedule().
   const teamMap = new Map(teams.map((t) => [t.id, t]));
   const activeTeamIds = teams.map((t) => t.id);
 
@@ -156,43 +185,117 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
       work_days: true,
       check_in_start: true,
       check_in_end: true,
+      ...rosterSelect,
+      // Approved leave covering today
+      leave_requests: approvedLeaveOn(todayDate),
       // Team schedule for fallback
       team: {
         select: {
           work_days: true,
           check_in_start: true,
           check_in_end: true,
+          ...rosterSelect,
         },
       },
     },
   });
 
-  // Filter workers by: assigned before today, today is their work day,
-  // AND their effective check-in window has closed (with buffer).
-  // This uses the worker's override schedule if set, otherwise team defaults.
-  const eligibleWorkers = workers.filter((w) => {
-    if (!w.team_assigned_at || !w.team) return false;
-
-    // Check if assigned before today (same day = just assigned, not required)
+  // Keep workers whose schedule date is a work day (roster, override or team default;
+  // approved leave takes the day out of the schedule) and whose last window closed
+  // + buffer before now. Same-day assignments are not required to check in.
+  const candidates: MissCandidate[] = [];
+  for (const w of workers) {
+    if (!w.team_assigned_at || !w.team) continue;
     const assignedDateStr = formatDateInTimezone(new Date(w.team_assigned_at), timezone);
-    if (assignedDateStr >= todayStr) return false;
 
-    const personSchedule = { work_days: w.work_days, check_in_start: w.check_in_start, check_in_end: w.check_in_end };
-    const teamSchedule = { work_days: w.team.work_days, check_in_start: w.team.check_in_start, check_in_end: w.team.check_in_end };
+    const personSchedule = {
+      work_days: w.work_days,
+      check_in_start: w.check_in_start,
+      check_in_end: w.check_in_end,
+      exceptions: w.leave_requests,
+      roster: toRoster(w),
+    };
+    const teamSchedule = {
+      work_days: w.team.work_days,
+      check_in_start: w.team.check_in_start,
+      check_in_end: w.team.check_in_end,
+      roster: toRoster(w.team),
+    };
+
+    if (!holidayToday && assignedDateStr < todayStr) {
+      const today = resolveDaySchedule(personSchedule, teamSchedule, todayStr);
+      const closeMinutes = getScheduleCloseMinutes(today);
+      if (today.isWorkDay && closeMinutes !== null && closeMinutes + WINDOW_BUFFER_MINUTES <= nowMinutes) {
+        candidates.push({ worker: w, day: today });
+      }
+    }
 
-    // Check if today is a work day for this worker (uses override OR team default)
-    if (!isWorkDay(todayDow, personSchedule, teamSchedule)) return false;
+    // Yesterday's leave is checked below, only for the workers that need it
+    if (!holidayYesterday && assignedDateStr < yesterdayStr) {
+      const yesterday = resolveDaySchedule({ ...personSchedule, exceptions: null }, teamSchedule, yesterdayStr);
+      const closeMinutes = getScheduleCloseMinutes(yesterday);
+      const closedThisMorning =
+        closeMinutes !== null &&
+        closeMinutes + WINDOW_BUFFER_MINUTES >= MINUTES_PER_DAY &&
+        closeMinutes + WINDOW_BUFFER_MINUTES - MINUTES_PER_DAY <= nowMinutes;
+      if (yesterday.isWorkDay && closedThisMorning) {
+        candidates.push({ worker: w, day: yesterday });
+      }
+    }
+  }
 
-    // Check if the worker's effective check-in window has closed + buffer
-    const effective = getEffectiveSchedule(personSchedule, teamSchedule);
-    const endWithBuffer = addMinutesToTime(effective.checkInEnd, WINDOW_BUFFER_MINUTES);
-    return currentTime >= endWithBuffer;
-  });
+  // Overnight candidates on approved leave yesterday are not required to check in
+  const overnightIds = candidates.filter((c) => c.day.date === yesterdayStr).map((c) => c.worker.id);
+  let onLeaveYesterday = new Set<string>();
+  if (overnightIds.length > 0) {
+    const leave = await prisma.leaveRequest.findMany({
+      where: {
+        company_id: companyId,
+        person_id: { in: overnightIds },
+        ...approvedLeaveOn(yesterdayDate).where,
+      },
+      select: { person_id: true },
+    });
+    onLeaveYesterday = new Set(leave.map((l) => l.person_id));
+  }
 
-  if (eligibleWorkers.length === 0) return 0;
+  const todayCandidates = candidates.filter((c) => c.day.date === todayStr);
+  const yesterdayCandidates = candidates.filter(
+    (c) => c.day.date === yesterdayStr && !onLeaveYesterday.has(c.worker.id)
+  );
 
-  const workerIds = eligibleWorkers.map((w) => w.id);
-  const ninetyDaysAgo = new Date(todayDate.getTime() - 90 * 24 * 60 * 60 * 1000);
+  let detected = 0;
+  if (yesterdayCandidates.length > 0) {
+    detected += await recordMisses(companyId, timezone, yesterdayStr, yesterdayCandidates, teamMap);
+  }
+  if (todayCandidates.length > 0) {
+    detected += await recordMisses(companyId, timezone, todayStr, todayCandidates, teamMap);
+  }
+
+  if (detected > 0) {
+    logger.info(
+      { companyId, detected, teams: teams.length },
+      'Detected missed check-ins for company'
+    );
+  }
+
+  return detected;
+}
+
+/**
+ * Record misses for one schedule date: skip workers who checked in or already
+ * have a record, then insert with state snapshots, notify and emit events.
+ */
+async function recordMisses(
+  companyId: string,
+  timezone: string,
+  missedDateStr: string,
+  candidates: MissCandidate[],
+  teamMap: Map<string, TeamSnapshot>
+): Promise<number> {
+  const missedDate = parseDateInTimezone(missedDateStr, timezone);
+  const workerIds = candidates.map((c) => c.worker.id);
+  const ninetyDaysAgo = new Date(missedDate.getTime() - 90 * 24 * 60 * 60 * 1000);
 
   // Check-ins and holiday date set are independent — run in parallel
   const [checkIns, holidayDateSet] = await Promise.all([
@@ -200,37 +303,37 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
       where: {
         company_id: companyId,
         person_id: { in: workerIds },
-        check_in_date: todayDate,
+        check_in_date: missedDate,
       },
       select: { person_id: true },
     }),
-    buildHolidayDateSet(prisma, companyId, ninetyDaysAgo, todayDate, timezone),
+    buildHolidayDateSet(prisma, companyId, ninetyDaysAgo, missedDate, timezone),
   ]);
 
   const checkedInSet = new Set(checkIns.map((ci) => ci.person_id));
 
   // Workers who missed their check-in
-  const missingWorkers = eligibleWorkers.filter((w) => !checkedInSet.has(w.id));
+  const missing = candidates.filter((c) => !checkedInSet.has(c.worker.id));
 
-  if (missingWorkers.length === 0) return 0;
+  if (missing.length === 0) return 0;
 
-  // Check which workers already have a MissedCheckIn record for today
+  // Check which workers already have a MissedCheckIn record for the date
   // (to know which ones are truly new for notifications)
   const missedRepo = new MissedCheckInRepository(prisma, companyId);
   const existingPersonIds = await missedRepo.findExistingForDate(
-    todayDate,
-    missingWorkers.map((w) => w.id)
+    missedDate,
+    missing.map((c) => c.worker.id)
   );
 
   // Only insert and notify for truly new records
-  const newMissing = missingWorkers.filter((w) => !existingPersonIds.has(w.id));
+  const newMissing = missing.filter((c) => !existingPersonIds.has(c.worker.id));
 
   if (newMissing.length === 0) return 0;
 
   // Calculate state snapshots for all workers in batch
   const snapshotService = new MissedCheckInSnapshotService(prisma, companyId, timezone);
 
-  const workerContexts = newMissing.map((w) => {
+  const workerContexts = newMissing.map(({ worker: w }) => {
     return {
       personId: w.id,
       teamId: w.team_id!,
@@ -240,25 +343,22 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
       workDays: w.work_days,
       checkInStart: w.check_in_start,
       checkInEnd: w.check_in_end,
+      roster: toRoster(w),
       // Team schedule for fallback
       team: {
         work_days: w.team!.work_days,
         check_in_start: w.team!.check_in_start,
         check_in_end: w.team!.check_in_end,
+        roster: toRoster(w.team),
       },
     };
   });
 
-  const snapshots = await snapshotService.calculateBatch(workerContexts, todayDate, holidayDateSet);
+  const snapshots = await snapshotService.calculateBatch(workerContexts, missedDate, holidayDateSet);
 
   // Build records for insertion with state snapshots
-  const records = newMissing.map((w) => {
+  const records = newMissing.map(({ worker: w, day }) => {
     const team = teamMap.get(w.team_id!);
-    // Use worker's effective schedule (override → team fallback) for accurate window
-    const effective = getEffectiveSchedule(
-      { work_days: w.work_days, check_in_start: w.check_in_start, check_in_end: w.check_in_end },
-      { work_days: w.team!.work_days, check_in_start: w.team!.check_in_start, check_in_end: w.team!.check_in_end }
-    );
     const snapshot = snapshots.get(w.id);
 
     // Capture team leader snapshot at time of miss
@@ -270,8 +370,9 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
     return {
       personId: w.id,
       teamId: w.team_id!,
-      missedDate: todayDate,
-      scheduleWindow: `${formatTime12h(effective.checkInStart)} - ${formatTime12h(effective.checkInEnd)}`,
+      missedDate,
+      // Worker's resolved windows for the date (roster → override → team fallback)
+      scheduleWindow: formatScheduleWindows(day.windows, formatTime12h),
       // Team leader snapshot
       teamLeaderIdAtMiss,
       teamLeaderNameAtMiss,
@@ -303,17 +404,17 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
   // Notifies both the worker AND their team lead for same-day awareness.
   if (inserted > 0) {
     // Worker notifications
-    const workerNotifications = newMissing.map((w) => ({
+    const workerNotifications = newMissing.map(({ worker: w }) => ({
       personId: w.id,
       type: 'MISSED_CHECK_IN' as const,
       title: 'Missed Check-in',
-      message: `You missed your check-in for ${todayStr}. Please contact your team lead if needed.`,
+      message: `You missed your check-in for ${missedDateStr}. Please contact your team lead if needed.`,
     }));
 
     // Team lead notifications — group misses by team leader to avoid duplicate alerts.
     // Uses the team leader snapshot from teamMap (already fetched).
     const missCountByLeader = new Map<string, { leaderName: string; count: number }>();
-    for (const w of newMissing) {
+    for (const { worker: w } of newMissing) {
       const team = teamMap.get(w.team_id!);
       if (!team?.leader?.id) continue;
       const leaderId = team.leader.id;
@@ -329,7 +430,7 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
       personId: leaderId,
       type: 'MISSED_CHECK_IN' as const,
       title: 'Team Missed Check-ins',
-      message: `${info.count} worker${info.count > 1 ? 's' : ''} missed their check-in for ${todayStr}.`,
+      message: `${info.count} worker${info.count > 1 ? 's' : ''} missed their check-in for ${missedDateStr}.`,
     }));
 
     sendNotifications(prisma, companyId, [...workerNotifications, ...leaderNotifications]);
@@ -338,19 +439,15 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
   // Batch emit MISSED_CHECK_IN_DETECTED events (Pattern 6 — N inserts → 1 createMany)
   // Fire-and-forget: event emission should never block detection results
   prisma.event.createMany({
-    data: newMissing.map((w) => {
-      const effective = getEffectiveSchedule(
-        { work_days: w.work_days, check_in_start: w.check_in_start, check_in_end: w.check_in_end },
-        { work_days: w.team!.work_days, check_in_start: w.team!.check_in_start, check_in_end: w.team!.check_in_end }
-      );
+    data: newMissing.map(({ worker: w, day }) => {
       return buildEventData({
         companyId,
         personId: w.id,
         eventType: 'MISSED_CHECK_IN_DETECTED',
         entityType: 'missed_check_in',
         payload: {
-          missedDate: todayStr,
-          scheduleWindow: `${effective.checkInStart} - ${effective.checkInEnd}`,
+          missedDate: missedDateStr,
+          scheduleWindow: formatScheduleWindows(day.windows),
           teamId: w.team_id,
         },
         timezone,
@@ -360,10 +457,10 @@ async function processCompany(companyId: string, timezone: string): Promise<numb
     logger.error({ error, companyId }, 'Failed to batch create missed check-in events');
   });
 
-  logger.info(
-    { companyId, detected: inserted, teams: teams.length },
-    'Detected missed check-ins for company'
-  );
+  // Fire-and-forget: company alert rules over recent misses
+  if (inserted > 0) {
+    evaluateAlertRules(prisma, companyId, 'MISSED_CHECK_IN_DETECTED', newMissing.map(({ worker: w }) => w.id), missedDateStr);
+  }
 
   return inserted;
 }
@@ -0,0 +1,185 @@
+// Notification Delivery Job
+// Runs every minute. Sends due PENDING NotificationDelivery rows through their
+// channel (email, push). Failures are retried with backoff; after the last retry
+// the delivery is marked FAILED. Recipients deactivated since the notification
+// was queued are SKIPPED, as are push deliveries with no live subscription.
+// Email for recipients on the daily digest is queued for the digest hour
+// (see notification.preferences.ts) and sent as one message.
+import type { NotificationChannel, NotificationType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { DeliverySkippedError, getChannelSender } from '../modules/notification/notification.channels';
+import type { JobCompanyCounts } from './job-lock';
+
+/** Due deliveries handled per run — the rest wait for the next tick */
+const BATCH_SIZE = 200;
+
+/** Delay before each retry; one more attempt than entries here, then FAILED */
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+interface DueDelivery {
+  id: string;
+  company_id: string;
+  person_id: string;
+  channel: NotificationChannel;
+  attempts: number;
+  notification: { id: string; type: NotificationType; title: string; message: string; link: string | null };
+  person: { email: string; first_name: string; is_active: boolean; notification_digest: boolean };
+  company: { is_active: boolean };
+}
+
+interface CompanyDeliveryCounts {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * In-memory guard against overlapping runs within this process.
+ * Cross-instance exclusion is handled by the scheduler's job lock (job-lock.ts).
+ */
+let isRunning = false;
+
+export async function deliverNotifications(): Promise<JobCompanyCounts> {
+  if (isRunning) {
+    logger.info('Skipping notification delivery: previous run still in progress');
+    return {};
+  }
+
+  isRunning = true;
+
+  try {
+    const due: DueDelivery[] = await prisma.notificationDelivery.findMany({
+      where: { status: 'PENDING', next_attempt_at: { lte: new Date() } },
+      orderBy: { next_attempt_at: 'asc' },
+      take: BATCH_SIZE,
+      select: {
+        id: true,
+        company_id: true,
+        person_id: true,
+        channel: true,
+        attempts: true,
+        notification: { select: { id: true, type: true, title: true, message: true, link: true } },
+        person: { select: { email: true, first_name: true, is_active: true, notification_digest: true } },
+        company: { select: { is_active: true } },
+      },
+    });
+
+    if (due.length === 0) return {};
+
+    const byCompany = new Map<string, DueDelivery[]>();
+    for (const delivery of due) {
+      const list = byCompany.get(delivery.company_id) ?? [];
+      list.push(delivery);
+      byCompany.set(delivery.company_id, list);
+    }
+
+    let totalSent = 0;
+    const companyCounts: JobCompanyCounts = {};
+
+    for (const [companyId, deliveries] of byCompany) {
+      try {
+        const counts = await processCompany(deliveries);
+        totalSent += counts.sent;
+        companyCounts[companyId] = counts;
+      } catch (companyError) {
+        logger.error(
+          { error: companyError, companyId },
+          'Failed to process company for notification delivery'
+        );
+        companyCounts[companyId] = { error: companyError instanceof Error ? companyError.message : 'Unknown error' };
+      }
+    }
+
+    logger.info({ due: due.length, totalSent }, 'Notification delivery completed');
+    return companyCounts;
+  } catch (error) {
+    logger.error({ error }, 'Failed to run notification delivery');
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Due email for a digest recipient is sent together; everything else alone.
+ * Rows are ordered by next_attempt_at, so a digest group keeps that order.
+ */
+function groupForSending(deliveries: DueDelivery[]): DueDelivery[][] {
+  const groups = new Map<string, DueDelivery[]>();
+  for (const delivery of deliveries) {
+    const key = delivery.channel === 'EMAIL' && delivery.person.notification_digest
+      ? `${delivery.person_id}:${delivery.channel}`
+      : delivery.id;
+    const group = groups.get(key) ?? [];
+    group.push(delivery);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+async function processCompany(deliveries: DueDelivery[]): Promise<CompanyDeliveryCounts> {
+  const counts: CompanyDeliveryCounts = { sent: 0, failed: 0, skipped: 0 };
+
+  for (const group of groupForSending(deliveries)) {
+    const [first] = group as [DueDelivery, ...DueDelivery[]];
+    const where = { id: { in: group.map((d) => d.id) } };
+
+    if (!first.company.is_active || !first.person.is_active) {
+      await prisma.notificationDelivery.updateMany({
+        where,
+        data: {
+          status: 'SKIPPED',
+          last_error: first.company.is_active ? 'Recipient inactive' : 'Company inactive',
+        },
+      });
+      counts.skipped += group.length;
+      continue;
+    }
+
+    const attempts = Math.max(...group.map((d) => d.attempts)) + 1;
+
+    try {
+      const recipient = await getChannelSender(first.channel).send(
+        group.map((d) => d.notification),
+        { personId: first.person_id, email: first.person.email, firstName: first.person.first_name }
+      );
+
+      await prisma.notificationDelivery.updateMany({
+        where,
+        data: { status: 'SENT', recipient, attempts, sent_at: new Date(), last_error: null },
+      });
+      counts.sent += group.length;
+    } catch (error) {
+      if (error instanceof DeliverySkippedError) {
+        await prisma.notificationDelivery.updateMany({
+          where,
+          data: { status: 'SKIPPED', attempts, last_error: error.message },
+        });
+        counts.skipped += group.length;
+        continue;
+      }
+
+      const giveUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+      logger.warn(
+        { error, companyId: first.company_id, deliveryIds: where.id.in, channel: first.channel, attempts },
+        giveUp ? 'Notification delivery failed permanently' : 'Notification delivery failed, will retry'
+      );
+
+      await prisma.notificationDelivery.updateMany({
+        where,
+        data: {
+          attempts,
+          last_error: error instanceof Error ? error.message.slice(0, 500) : 'Unknown error',
+          ...(giveUp
+            ? { status: 'FAILED' as const }
+            : { next_attempt_at: new Date(Date.now() + RETRY_DELAYS_MINUTES[attempts - 1]! * 60_000) }),
+        },
+      });
+      if (giveUp) counts.failed += group.length;
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,139 @@
+// Report Digest Job
+// Runs hourly. Emails each active report subscription its team's readiness and
+// compliance digest once the period has ended: weekly digests cover the previous
+// Monday–Sunday, monthly digests the previous calendar month, both in the
+// company's timezone. Nothing goes out before DIGEST_SEND_HOUR local time.
+import { DateTime } from 'luxon';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { getMailTransport, isMailConfigured } from '../shared/mail';
+import { parseDateInTimezone } from '../shared/utils';
+import { ReportService, getLastCompletedPeriod } from '../modules/report/report.service';
+import { renderDigestEmail } from '../modules/report/report.renderers';
+import type { ReportType } from '../modules/report/report.validator';
+import type { JobCompanyCounts } from './job-lock';
+
+/** Local hour (0-23) from which digests for a finished period may be sent */
+const DIGEST_SEND_HOUR = 7;
+
+const DIGEST_REPORTS: Record<'WEEKLY' | 'MONTHLY', ReportType[]> = {
+  WEEKLY: ['weekly-summary', 'compliance'],
+  MONTHLY: ['monthly', 'compliance'],
+};
+
+/**
+ * In-memory guard against overlapping runs within this process.
+ * Cross-instance exclusion is handled by the scheduler's job lock (job-lock.ts).
+ */
+let isRunning = false;
+
+export async function sendReportDigests(): Promise<JobCompanyCounts> {
+  if (isRunning) {
+    logger.info('Skipping report digests: previous run still in progress');
+    return {};
+  }
+  if (!isMailConfigured()) {
+    logger.warn('Skipping report digests: outbound mail is not configured (SMTP_HOST unset)');
+    return {};
+  }
+
+  isRunning = true;
+  logger.info('Running report digests');
+
+  try {
+    const companies = await prisma.company.findMany({
+      where: { is_active: true, report_subscriptions: { some: { is_active: true } } },
+      select: { id: true, timezone: true },
+    });
+
+    let totalSent = 0;
+    const companyCounts: JobCompanyCounts = {};
+
+    // Process companies sequentially to control connection pool usage
+    for (const company of companies) {
+      try {
+        const sent = await processCompany(company.id, company.timezone);
+        totalSent += sent;
+        companyCounts[company.id] = sent;
+      } catch (companyError) {
+        logger.error(
+          { error: companyError, companyId: company.id },
+          'Failed to process company for report digests'
+        );
+        companyCounts[company.id] = { error: companyError instanceof Error ? companyError.message : 'Unknown error' };
+      }
+    }
+
+    logger.info({ totalSent }, 'Report digests completed');
+    return companyCounts;
+  } catch (error) {
+    logger.error({ error }, 'Failed to run report digests');
+    throw error;
+  } finally {
+    isRunning = false;
+  }
+}
+
+async function processCompany(companyId: string, timezone: string): Promise<number> {
+  const now = DateTime.now().setZone(timezone);
+  if (now.hour < DIGEST_SEND_HOUR) return 0;
+
+  const subscriptions = await prisma.reportSubscription.findMany({
+    where: { company_id: companyId, is_active: true, team: { is_active: true } },
+    select: {
+      id: true,
+      team_id: true,
+      frequency: true,
+      recipients: true,
+      last_period_end: true,
+      team: { select: { name: true } },
+    },
+  });
+
+  const service = new ReportService(companyId, timezone);
+  let sent = 0;
+
+  for (const subscription of subscriptions) {
+    const period = getLastCompletedPeriod(subscription.frequency, timezone, now);
+    const periodEnd = parseDateInTimezone(period.end, timezone);
+
+    // Already delivered this period (or subscribed after it ended)
+    if (subscription.last_period_end && subscription.last_period_end >= periodEnd) continue;
+    if (subscription.recipients.length === 0) continue;
+
+    try {
+      const reports = await Promise.all(
+        DIGEST_REPORTS[subscription.frequency].map((type) =>
+          service.generate(type, { from: period.start, to: period.end, teamIds: [subscription.team_id] })
+        )
+      );
+
+      await getMailTransport().send({
+        to: subscription.recipients,
+        ...renderDigestEmail(subscription.team.name, subscription.frequency, reports),
+      });
+
+      await prisma.reportSubscription.update({
+        where: { id: subscription.id },
+        data: { last_period_end: periodEnd, last_sent_at: new Date(), last_error: null },
+      });
+      sent++;
+    } catch (error) {
+      // Leave last_period_end alone so the next hourly run retries
+      logger.error(
+        { error, companyId, subscriptionId: subscription.id },
+        'Failed to send report digest'
+      );
+      await prisma.reportSubscription.update({
+        where: { id: subscription.id },
+        data: { last_error: error instanceof Error ? error.message.slice(0, 500) : 'Unknown error' },
+      });
+    }
+  }
+
+  if (sent > 0) {
+    logger.info({ companyId, sent }, 'Sent report digests for company');
+  }
+
+  return sent;
+}
@@ -5,6 +5,11 @@ import { env } from '../config/env';
 import { detectMissedCheckIns } from './missed-check-in-detector';
 import { processTransfers } from './transfer-processor';
 import { runCleanup } from './cleanup';
+import { sendCheckInReminders } from './check-in-reminder';
+import { sendReportDigests } from './report-digest';
+import { deliverNotifications } from './notification-delivery';
+import { escalateFollowUps } from './follow-up-escalation';
+import { runWithJobLock } from './job-lock';
 
 /**
  * Cron trigger timezone (server time).
@@ -13,8 +18,20 @@ import { runCleanup } from './cleanup';
  */
 const CRON_TIMEZONE = 'Asia/Manila';
 
+/**
+ * Lease durations — comfortably longer than a normal run so the lease isn't
+ * lost mid-run; renewed while the job is running (see job-lock.ts).
+ */
+const FREQUENT_JOB_LEASE_MS = 10 * 60 * 1000; // 10 minutes (1/5/15-minute jobs)
+const HOURLY_JOB_LEASE_MS = 30 * 60 * 1000; // 30 minutes
+const WEEKLY_JOB_LEASE_MS = 60 * 60 * 1000; // 1 hour
+
+const MINUTE_MS = 60 * 1000;
+
 /**
  * Initialize all scheduled jobs.
+ * Every job runs through runWithJobLock so only one replica executes each tick;
+ * tickIntervalMs must match the cron expression.
  * Call once from index.ts after server starts.
  * Respects ENABLE_SCHEDULER env variable — disabled in dev/staging by default.
  */
@@ -29,7 +46,11 @@ export function initializeScheduler(): void {
   // Missed check-in detection — fires every 15 min, processes each company in its own timezone
   cron.schedule('*/15 * * * *', async () => {
     try {
-      await detectMissedCheckIns();
+      await runWithJobLock(
+        'missed-check-in-detector',
+        { leaseMs: FREQUENT_JOB_LEASE_MS, tickIntervalMs: 15 * MINUTE_MS },
+        detectMissedCheckIns
+      );
     } catch (error) {
       logger.error({ error }, 'Missed check-in detector failed');
     }
@@ -38,16 +59,76 @@ export function initializeScheduler(): void {
   // Transfer processor — fires every 15 min, processes pending next-day transfers
   cron.schedule('*/15 * * * *', async () => {
     try {
-      await processTransfers();
+      await runWithJobLock(
+        'transfer-processor',
+        { leaseMs: FREQUENT_JOB_LEASE_MS, tickIntervalMs: 15 * MINUTE_MS },
+        processTransfers
+      );
     } catch (error) {
       logger.error({ error }, 'Transfer processor failed');
     }
   }, tzOptions);
 
+  // Check-in reminders — fires every 5 min, reminds workers before their window closes
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      await runWithJobLock(
+        'check-in-reminder',
+        { leaseMs: FREQUENT_JOB_LEASE_MS, tickIntervalMs: 5 * MINUTE_MS },
+        sendCheckInReminders
+      );
+    } catch (error) {
+      logger.error({ error }, 'Check-in reminder job failed');
+    }
+  }, tzOptions);
+
+  // Follow-up escalation — fires every 5 min, escalates RED check-ins not acknowledged in time
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      await runWithJobLock(
+        'follow-up-escalation',
+        { leaseMs: FREQUENT_JOB_LEASE_MS, tickIntervalMs: 5 * MINUTE_MS },
+        escalateFollowUps
+      );
+    } catch (error) {
+      logger.error({ error }, 'Follow-up escalation job failed');
+    }
+  }, tzOptions);
+
+  // Notification delivery — fires every minute, sends queued emails and retries failures
+  cron.schedule('* * * * *', async () => {
+    try {
+      await runWithJobLock(
+        'notification-delivery',
+        { leaseMs: FREQUENT_JOB_LEASE_MS, tickIntervalMs: MINUTE_MS },
+        deliverNotifications
+      );
+    } catch (error) {
+      logger.error({ error }, 'Notification delivery job failed');
+    }
+  }, tzOptions);
+
+  // Report digests — fires hourly, emails weekly/monthly team digests once each period ends
+  cron.schedule('5 * * * *', async () => {
+    try {
+      await runWithJobLock(
+        'report-digest',
+        { leaseMs: HOURLY_JOB_LEASE_MS, tickIntervalMs: 60 * MINUTE_MS },
+        sendReportDigests
+      );
+    } catch (error) {
+      logger.error({ error }, 'Report digest job failed');
+    }
+  }, tzOptions);
+
   // Weekly cleanup — Sunday 2:00 AM server time
   cron.schedule('0 2 * * 0', async () => {
     try {
-      await runCleanup();
+      await runWithJobLock(
+        'weekly-cleanup',
+        { leaseMs: WEEKLY_JOB_LEASE_MS, tickIntervalMs: 7 * 24 * 60 * MINUTE_MS },
+        runCleanup
+      );
     } catch (error) {
       logger.error({ error }, 'Weekly cleanup failed');
     }
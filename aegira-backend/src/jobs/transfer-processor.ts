@@ -8,13 +8,15 @@ import { sendNotification } from '../modules/notification/notification.service';
 import { emitEvent } from '../modules/event/event.service';
 import { logger } from '../config/logger';
 import { getTodayInTimezone, parseDateInTimezone } from '../shared/utils';
+import type { JobCompanyCounts } from './job-lock';
 
+// In-process overlap guard; cross-instance exclusion is the scheduler's job lock
 let isRunning = false;
 
-export async function processTransfers(): Promise<void> {
+export async function processTransfers(): Promise<JobCompanyCounts> {
   if (isRunning) {
     logger.info('Skipping transfer processing: previous run still in progress');
-    return;
+    return {};
   }
 
   isRunning = true;
@@ -26,19 +28,23 @@ export async function processTransfers(): Promise<void> {
     });
 
     let totalProcessed = 0;
+    const companyCounts: JobCompanyCounts = {};
 
     for (const company of companies) {
       try {
         const processed = await processCompanyTransfers(company.id, company.timezone);
         totalProcessed += processed;
+        if (processed > 0) companyCounts[company.id] = processed;
       } catch (error) {
         logger.error({ error, companyId: company.id }, 'Failed to process transfers for company');
+        companyCounts[company.id] = { error: error instanceof Error ? error.message : 'Unknown error' };
       }
     }
 
     if (totalProcessed > 0) {
       logger.info({ totalProcessed }, 'Transfer processing completed');
     }
+    return companyCounts;
   } catch (error) {
     logger.error({ error }, 'Failed to run transfer processing');
     throw error;
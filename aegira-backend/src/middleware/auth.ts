@@ -1,18 +1,62 @@
 // JWT Authentication Middleware
+// Access tokens are short-lived JWTs bound to a server-side session (sid claim).
+// Session state is cached in memory (30s TTL) so revocation takes effect quickly
+// without a DB hit on every request.
 import { Context, Next } from 'hono';
 import { getCookie } from 'hono/cookie';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env';
+import { prisma } from '../config/database';
 import { AppError } from '../shared/errors';
 import type { AuthenticatedUser } from '../types/api.types';
 
 interface JwtPayload {
   sub: string;
+  sid?: string;
   email: string;
   companyId: string;
   role: string;
 }
 
+const SESSION_CACHE_TTL_MS = 30 * 1000; // 30 seconds — upper bound on revocation delay across instances
+const SESSION_CACHE_PRUNE_INTERVAL_MS = 60 * 1000; // 1 minute
+
+interface CachedSession {
+  active: boolean;
+  expiresAt: number;
+}
+
+const sessionCache = new Map<string, CachedSession>();
+
+// Expired entries are only overwritten on the next lookup of the same session —
+// drop them so the cache doesn't grow with every session the process has seen
+setInterval(() => {
+  const now = Date.now();
+  for (const [sessionId, entry] of sessionCache) {
+    if (entry.expiresAt <= now) sessionCache.delete(sessionId);
+  }
+}, SESSION_CACHE_PRUNE_INTERVAL_MS).unref();
+
+async function isSessionActive(sessionId: string, personId: string): Promise<boolean> {
+  const cached = sessionCache.get(sessionId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.active;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { person_id: true, revoked_at: true, expires_at: true },
+  });
+
+  const active = !!session
+    && session.person_id === personId
+    && session.revoked_at === null
+    && session.expires_at > new Date();
+
+  sessionCache.set(sessionId, { active, expiresAt: Date.now() + SESSION_CACHE_TTL_MS });
+  return active;
+}
+
 export async function authMiddleware(c: Context, next: Next): Promise<void> {
   // Support both cookie and Authorization header (mobile apps use Bearer token)
   let token = getCookie(c, 'auth_token');
@@ -28,23 +72,37 @@ export async function authMiddleware(c: Context, next: Next): Promise<void> {
     throw new AppError('UNAUTHORIZED', 'Not authenticated', 401);
   }
 
+  let payload: JwtPayload;
   try {
-    const payload = jwt.verify(token, env.JWT_SECRET, { algorithms: ['HS256'] }) as JwtPayload;
+    payload = jwt.verify(token, env.JWT_SECRET, { algorithms: ['HS256'] }) as JwtPayload;
+  } catch {
+    throw new AppError('UNAUTHORIZED', 'Invalid or expired token', 401);
+  }
+
+  // Tokens issued before sessions existed carry no sid — force a fresh login
+  if (!payload.sid || !(await isSessionActive(payload.sid, payload.sub))) {
+    throw new AppError('SESSION_REVOKED', 'Session has ended. Please log in again.', 401);
+  }
 
-    const user: AuthenticatedUser = {
-      id: payload.sub,
-      email: payload.email,
-      companyId: payload.companyId,
-      role: payload.role,
-    };
+  const user: AuthenticatedUser = {
+    id: payload.sub,
+    email: payload.email,
+    companyId: payload.companyId,
+    role: payload.role,
+  };
 
-    c.set('user', user);
-    c.set('userId', payload.sub);
-    c.set('companyId', payload.companyId);
-    c.set('userRole', payload.role);
+  c.set('user', user);
+  c.set('userId', payload.sub);
+  c.set('companyId', payload.companyId);
+  c.set('userRole', payload.role);
+  c.set('sessionId', payload.sid);
 
-    await next();
-  } catch {
-    throw new AppError('UNAUTHORIZED', 'Invalid or expired token', 401);
+  await next();
+}
+
+/** Invalidate cached session state (call after revoking sessions) */
+export function invalidateSessionCache(sessionIds: string[]): void {
+  for (const id of sessionIds) {
+    sessionCache.delete(id);
   }
 }
@@ -1,23 +1,10 @@
 import type { Context, Next } from 'hono';
 import { AppError } from '../shared/errors';
-
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
-
-const store = new Map<string, RateLimitEntry>();
-
-// Cleanup expired entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of store) {
-    if (now > entry.resetAt) store.delete(key);
-  }
-}, 5 * 60 * 1000).unref();
+import { getRateLimitStore } from '../shared/rate-limit-store';
 
 /**
- * In-memory rate limiter middleware.
+ * Per-IP rate limiter middleware.
+ * Counters live in the configured store (RATE_LIMIT_STORE: memory or postgres).
  * @param maxAttempts Max requests per window
  * @param windowMs Window duration in milliseconds
  */
@@ -30,22 +17,16 @@ export function rateLimitMiddleware(maxAttempts: number = 10, windowMs: number =
     const ip = c.req.header('cf-connecting-ip')
       || c.req.header('x-real-ip')
       || 'unknown';
-    const key = `${ip}:${c.req.path}`;
+    const key = `ip:${ip}:${c.req.path}`;
 
-    const now = Date.now();
-    const entry = store.get(key);
+    const entry = await getRateLimitStore().increment(key, windowMs);
 
-    if (entry && now < entry.resetAt) {
-      if (entry.count >= maxAttempts) {
-        throw new AppError(
-          'RATE_LIMITED',
-          'Too many attempts. Please try again later.',
-          429
-        );
-      }
-      entry.count++;
-    } else {
-      store.set(key, { count: 1, resetAt: now + windowMs });
+    if (entry.count > maxAttempts) {
+      throw new AppError(
+        'RATE_LIMITED',
+        'Too many attempts. Please try again later.',
+        429
+      );
     }
 
     await next();
@@ -2,14 +2,25 @@
 import type { Context } from 'hono';
 import { prisma } from '../../config/database';
 import { AppError } from '../../shared/errors';
-import { parsePagination } from '../../shared/utils';
+import { parsePagination, getTodayInTimezone } from '../../shared/utils';
+import { formatExportDateTime, streamExport } from '../../shared/export';
 import { logAudit } from '../../shared/audit';
-import type { CreateHolidayData, UpdateSettingsData, UpdateHolidayData, UpdateUserRoleData } from './admin.validator';
+import type { CreateHolidayData, UpdateSettingsData, UpdateScoringModelData, UpdateHolidayData, UpdateUserRoleData, ExportAuditLogsQuery } from './admin.validator';
+import { Prisma } from '@prisma/client';
 import type { Role, Company } from '@prisma/client';
 import { AdminRepository } from './admin.repository';
 import { TeamRepository } from '../team/team.repository';
 import { invalidateCompanyCache } from '../../middleware/tenant';
 import { invalidateHolidayCache } from '../../shared/holiday.utils';
+import {
+  DEFAULT_SCORING_MODEL,
+  DEFAULT_SCORING_MODEL_VERSION,
+  invalidateScoringModelCache,
+} from '../../shared/scoring.utils';
+import { SessionService } from '../auth/session.service';
+import { MfaService } from '../auth/mfa.service';
+import { SsoService, getSsoRedirectUri } from '../auth/sso.service';
+import { sealSecret } from '../../shared/secret-box';
 import { DateTime } from 'luxon';
 
 /** Map Company entity to frontend-expected camelCase format */
@@ -28,9 +39,46 @@ function toCompanySettingsResponse(company: Company) {
     addressPostalCode: company.address_postal_code || '',
     addressState: company.address_state || '',
     addressCountry: company.address_country || '',
+    notificationArchiveDays: company.notification_archive_days,
+    notificationPurgeDays: company.notification_purge_days,
+    eventPayloadRetentionDays: company.event_payload_retention_days,
+    auditLogRetentionDays: company.audit_log_retention_days,
+    mfaRequiredRoles: company.mfa_required_roles,
+    redFollowUpAckMinutes: company.red_follow_up_ack_minutes,
+    passwordLoginEnabled: company.password_login_enabled,
+    ssoEnabled: company.sso_enabled,
+    ssoIssuer: company.sso_issuer,
+    ssoClientId: company.sso_client_id,
+    ssoClientSecretSet: company.sso_client_secret !== null, // the secret itself is never returned
+    ssoRedirectUri: getSsoRedirectUri(),
   };
 }
 
+/**
+ * Reject SSO settings that would leave people unable to sign in: SSO needs a
+ * complete, reachable provider, and password login can only go off while SSO is on.
+ */
+async function assertValidSsoSettings(current: Company, data: UpdateSettingsData): Promise<void> {
+  const ssoEnabled = data.ssoEnabled ?? current.sso_enabled;
+  const issuer = data.ssoIssuer !== undefined ? data.ssoIssuer : current.sso_issuer;
+  const clientId = data.ssoClientId !== undefined ? data.ssoClientId : current.sso_client_id;
+  const hasSecret = data.ssoClientSecret !== undefined ? data.ssoClientSecret !== null : current.sso_client_secret !== null;
+  const passwordLoginEnabled = data.passwordLoginEnabled ?? current.password_login_enabled;
+
+  if (!passwordLoginEnabled && !ssoEnabled) {
+    throw new AppError('SSO_REQUIRED', 'Turn on single sign-on before disabling password login', 400);
+  }
+  if (!ssoEnabled) return;
+
+  if (!issuer || !clientId || !hasSecret) {
+    throw new AppError('SSO_CONFIG_INCOMPLETE', 'Single sign-on needs an issuer URL, client ID and client secret', 400);
+  }
+  // Only hit the provider when enabling or pointing at a new issuer
+  if (!current.sso_enabled || issuer !== current.sso_issuer) {
+    await new SsoService(prisma).checkProvider(issuer);
+  }
+}
+
 // Company Settings
 export async function getCompanySettings(c: Context): Promise<Response> {
   const companyId = c.get('companyId') as string;
@@ -51,6 +99,15 @@ export async function updateCompanySettings(c: Context): Promise<Response> {
   const data = c.req.valid('json' as never) as UpdateSettingsData;
   const repository = new AdminRepository(prisma, companyId);
 
+  const ssoFields = ['passwordLoginEnabled', 'ssoEnabled', 'ssoIssuer', 'ssoClientId', 'ssoClientSecret'] as const;
+  if (ssoFields.some((field) => data[field] !== undefined)) {
+    const current = await repository.findCompanyById();
+    if (!current) {
+      throw new AppError('NOT_FOUND', 'Company not found', 404);
+    }
+    await assertValidSsoSettings(current, data);
+  }
+
   const company = await repository.updateCompany({
     name: data.companyName,
     timezone: data.timezone,
@@ -63,24 +120,116 @@ export async function updateCompanySettings(c: Context): Promise<Response> {
     addressPostalCode: data.addressPostalCode,
     addressState: data.addressState,
     addressCountry: data.addressCountry,
+    notificationArchiveDays: data.notificationArchiveDays,
+    notificationPurgeDays: data.notificationPurgeDays,
+    eventPayloadRetentionDays: data.eventPayloadRetentionDays,
+    auditLogRetentionDays: data.auditLogRetentionDays,
+    mfaRequiredRoles: data.mfaRequiredRoles,
+    redFollowUpAckMinutes: data.redFollowUpAckMinutes,
+    passwordLoginEnabled: data.passwordLoginEnabled,
+    ssoEnabled: data.ssoEnabled,
+    ssoIssuer: data.ssoIssuer,
+    ssoClientId: data.ssoClientId,
+    ssoClientSecret: data.ssoClientSecret ? sealSecret(data.ssoClientSecret) : data.ssoClientSecret,
   });
 
   // Bust cached company data (timezone, is_active may have changed)
   invalidateCompanyCache(companyId);
 
-  // Audit settings update (non-blocking)
+  // Audit settings update (non-blocking) — record that the secret changed, never its value
+  const { ssoClientSecret, ...auditedData } = data;
   logAudit({
     companyId,
     personId: userId,
     action: 'UPDATE_SETTINGS',
     entityType: 'COMPANY',
     entityId: companyId,
-    details: data as Record<string, unknown>,
+    details: {
+      ...auditedData,
+      ...(ssoClientSecret !== undefined && { ssoClientSecret: ssoClientSecret === null ? 'CLEARED' : 'CHANGED' }),
+    },
   });
 
   return c.json({ success: true, data: toCompanySettingsResponse(company) });
 }
 
+// Scoring Model
+function toScoringModelResponse(model: Awaited<ReturnType<AdminRepository['listScoringModels']>>[number]) {
+  return {
+    version: model.version,
+    config: model.config,
+    notes: model.notes,
+    createdAt: model.created_at.toISOString(),
+    createdBy: {
+      id: model.creator.id,
+      name: `${model.creator.first_name} ${model.creator.last_name}`,
+    },
+  };
+}
+
+/**
+ * GET /api/v1/admin/company/scoring-model
+ * Active readiness scoring model plus version history.
+ * Version 0 (built-in default) is active until the first version is published.
+ */
+export async function getScoringModel(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const repository = new AdminRepository(prisma, companyId);
+
+  const versions = (await repository.listScoringModels()).map(toScoringModelResponse);
+  const active = versions[0] ?? {
+    version: DEFAULT_SCORING_MODEL_VERSION,
+    config: DEFAULT_SCORING_MODEL,
+    notes: null,
+    createdAt: null,
+    createdBy: null,
+  };
+
+  return c.json({
+    success: true,
+    data: {
+      active,
+      defaultConfig: DEFAULT_SCORING_MODEL,
+      versions,
+    },
+  });
+}
+
+/**
+ * POST /api/v1/admin/company/scoring-model
+ * Publish a new scoring model version. Existing check-ins keep the version
+ * they were scored with; new check-ins use this one.
+ */
+export async function updateScoringModel(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const { notes, ...config } = c.req.valid('json' as never) as UpdateScoringModelData;
+  const repository = new AdminRepository(prisma, companyId);
+
+  let model;
+  try {
+    model = await repository.createScoringModel({ config, notes, createdBy: userId });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new AppError('CONFLICT', 'Scoring model was updated by someone else. Please reload and try again.', 409);
+    }
+    throw error;
+  }
+
+  invalidateScoringModelCache(companyId);
+
+  logAudit({
+    companyId,
+    personId: userId,
+    action: 'UPDATE_SCORING_MODEL',
+    entityType: 'COMPANY',
+    entityId: companyId,
+    details: { version: model.version, notes: notes ?? null, config },
+  });
+
+  return c.json({ success: true, data: toScoringModelResponse(model) });
+}
+
 // Holidays
 export async function listHolidays(c: Context): Promise<Response> {
   const companyId = c.get('companyId') as string;
@@ -245,6 +394,43 @@ export async function listAuditLogs(c: Context): Promise<Response> {
   });
 }
 
+/**
+ * GET /api/v1/admin/audit-logs/export
+ * Streams audit logs as CSV or XLSX with the same filters as the list endpoint.
+ */
+export async function exportAuditLogs(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const query = c.req.valid('query' as never) as ExportAuditLogsQuery;
+  const repository = new AdminRepository(prisma, companyId);
+
+  const rows = repository.streamAuditLogs({
+    type: query.type,
+    search: query.search || undefined,
+    dateFilter: query.date,
+  });
+
+  return streamExport(c, {
+    format: query.format,
+    fileName: `audit-logs_${getTodayInTimezone(timezone)}`,
+    title: 'Audit Logs',
+    rows,
+    columns: [
+      { label: 'Timestamp', value: (log) => formatExportDateTime(log.created_at, timezone) },
+      { label: 'Action', value: (log) => log.action },
+      { label: 'Entity Type', value: (log) => log.entity_type },
+      { label: 'Entity ID', value: (log) => log.entity_id },
+      { label: 'User', value: (log) => log.person?.email ?? 'system' },
+      { label: 'Role', value: (log) => log.person?.role ?? null },
+      { label: 'IP Address', value: (log) => log.ip_address },
+      {
+        label: 'Details',
+        value: (log) => (typeof log.details === 'object' ? JSON.stringify(log.details) : String(log.details || '')),
+      },
+    ],
+  });
+}
+
 // User Roles
 export async function listUserRoles(c: Context): Promise<Response> {
   const companyId = c.get('companyId') as string;
@@ -315,6 +501,9 @@ export async function updateUserRole(c: Context): Promise<Response> {
     throw new AppError('NOT_FOUND', 'Person not found', 404);
   }
 
+  // Role is baked into the access token — end existing sessions so it takes effect now
+  await new SessionService(prisma).revokeAllForPerson(companyId, id, 'ROLE_CHANGED');
+
   // Audit role update (non-blocking)
   logAudit({
     companyId,
@@ -337,3 +526,68 @@ export async function updateUserRole(c: Context): Promise<Response> {
     },
   });
 }
+
+/**
+ * POST /api/v1/admin/users/:id/force-logout
+ * Revoke every active session for a person (e.g. lost device, suspected compromise).
+ */
+export async function forceLogout(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const repository = new AdminRepository(prisma, companyId);
+  const id = c.req.param('id');
+
+  const person = await repository.findPersonById(id);
+  if (!person) {
+    throw new AppError('NOT_FOUND', 'Person not found', 404);
+  }
+
+  const revokedCount = await new SessionService(prisma).revokeAllForPerson(companyId, id, 'FORCE_LOGOUT');
+
+  logAudit({
+    companyId,
+    personId: userId,
+    action: 'FORCE_LOGOUT',
+    entityType: 'PERSON',
+    entityId: id,
+    details: { revokedSessions: revokedCount },
+  });
+
+  return c.json({ success: true, data: { revokedCount } });
+}
+
+/**
+ * POST /api/v1/admin/users/:id/mfa/reset
+ * Remove a person's two-factor enrolment (lost device). Their sessions end; if
+ * policy requires MFA for their role they enrol again at next login.
+ */
+export async function resetUserMfa(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const repository = new AdminRepository(prisma, companyId);
+  const id = c.req.param('id');
+
+  // An admin resetting their own factor would defeat it — another admin must do it
+  if (id === userId) {
+    throw new AppError('FORBIDDEN', 'Ask another admin to reset your two-factor authentication', 403);
+  }
+
+  const person = await repository.findPersonById(id);
+  if (!person) {
+    throw new AppError('NOT_FOUND', 'Person not found', 404);
+  }
+
+  await new MfaService(prisma).disable(id);
+  const revokedCount = await new SessionService(prisma).revokeAllForPerson(companyId, id, 'MFA_RESET');
+
+  logAudit({
+    companyId,
+    personId: userId,
+    action: 'RESET_MFA',
+    entityType: 'PERSON',
+    entityId: id,
+    details: { email: person.email, revokedSessions: revokedCount },
+  });
+
+  return c.json({ success: true, data: { revokedCount } });
+}
@@ -2,6 +2,7 @@
 import type { PrismaClient, Company, Holiday, Person, Prisma, Role } from '@prisma/client';
 import { BaseRepository } from '../../shared/base.repository';
 import { calculateSkip, paginate } from '../../shared/utils';
+import { iterateInBatches } from '../../shared/export';
 import type { PaginationParams, PaginatedResponse } from '../../types/api.types';
 import { SAFE_PERSON_SELECT } from '../person/person.repository';
 import type { SafePerson } from '../person/person.repository';
@@ -18,6 +19,18 @@ interface UpdateCompanyData {
   addressPostalCode?: string;
   addressState?: string;
   addressCountry?: string;
+  notificationArchiveDays?: number;
+  notificationPurgeDays?: number;
+  eventPayloadRetentionDays?: number | null;
+  auditLogRetentionDays?: number | null;
+  mfaRequiredRoles?: Role[];
+  redFollowUpAckMinutes?: number;
+  passwordLoginEnabled?: boolean;
+  ssoEnabled?: boolean;
+  ssoIssuer?: string | null;
+  ssoClientId?: string | null;
+  /** Already sealed with shared/secret-box */
+  ssoClientSecret?: string | null;
 }
 
 interface CreateHolidayData {
@@ -32,6 +45,26 @@ interface UpdateHolidayData {
   isRecurring?: boolean;
 }
 
+interface CreateScoringModelData {
+  config: Prisma.InputJsonValue;
+  notes?: string;
+  createdBy: string;
+}
+
+/** Scoring model version with the admin who published it */
+interface ScoringModelWithCreator {
+  id: string;
+  version: number;
+  config: Prisma.JsonValue;
+  notes: string | null;
+  created_at: Date;
+  creator: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+}
+
 interface AuditLogFilters {
   type?: string;
   search?: string;
@@ -52,10 +85,11 @@ interface AdminPersonSummary {
   is_active: boolean;
   company_id: string;
   created_at: Date;
+  mfa_enabled_at: Date | null;
 }
 
 /** Audit log with partial person info (safe subset for API responses) */
-interface AuditLogWithPerson {
+export interface AuditLogWithPerson {
   id: string;
   company_id: string;
   person_id: string | null;
@@ -101,6 +135,17 @@ export class AdminRepository extends BaseRepository {
     if (data.addressPostalCode !== undefined) updateData.address_postal_code = data.addressPostalCode;
     if (data.addressState !== undefined) updateData.address_state = data.addressState;
     if (data.addressCountry !== undefined) updateData.address_country = data.addressCountry;
+    if (data.notificationArchiveDays !== undefined) updateData.notification_archive_days = data.notificationArchiveDays;
+    if (data.notificationPurgeDays !== undefined) updateData.notification_purge_days = data.notificationPurgeDays;
+    if (data.eventPayloadRetentionDays !== undefined) updateData.event_payload_retention_days = data.eventPayloadRetentionDays;
+    if (data.auditLogRetentionDays !== undefined) updateData.audit_log_retention_days = data.auditLogRetentionDays;
+    if (data.mfaRequiredRoles !== undefined) updateData.mfa_required_roles = { set: [...new Set(data.mfaRequiredRoles)] };
+    if (data.redFollowUpAckMinutes !== undefined) updateData.red_follow_up_ack_minutes = data.redFollowUpAckMinutes;
+    if (data.passwordLoginEnabled !== undefined) updateData.password_login_enabled = data.passwordLoginEnabled;
+    if (data.ssoEnabled !== undefined) updateData.sso_enabled = data.ssoEnabled;
+    if (data.ssoIssuer !== undefined) updateData.sso_issuer = data.ssoIssuer;
+    if (data.ssoClientId !== undefined) updateData.sso_client_id = data.ssoClientId;
+    if (data.ssoClientSecret !== undefined) updateData.sso_client_secret = data.ssoClientSecret;
 
     return this.prisma.company.update({
       where: { id: this.companyId },
@@ -108,6 +153,59 @@ export class AdminRepository extends BaseRepository {
     });
   }
 
+  // ==================== Scoring Model Operations ====================
+
+  /** All published versions, newest first (index 0 is the active model) */
+  async listScoringModels(): Promise<ScoringModelWithCreator[]> {
+    return this.prisma.scoringModel.findMany({
+      where: this.where({}),
+      select: {
+        id: true,
+        version: true,
+        config: true,
+        notes: true,
+        created_at: true,
+        creator: {
+          select: { id: true, first_name: true, last_name: true },
+        },
+      },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Publish a new scoring model version (versions are never updated in place).
+   * Concurrent publishes collide on @@unique([company_id, version]) → P2002.
+   */
+  async createScoringModel(data: CreateScoringModelData): Promise<ScoringModelWithCreator> {
+    return this.prisma.$transaction(async (tx) => {
+      const latest = await tx.scoringModel.findFirst({
+        where: this.where({}),
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      return tx.scoringModel.create({
+        data: this.withCompany({
+          version: (latest?.version ?? 0) + 1,
+          config: data.config,
+          notes: data.notes ?? null,
+          created_by: data.createdBy,
+        }),
+        select: {
+          id: true,
+          version: true,
+          config: true,
+          notes: true,
+          created_at: true,
+          creator: {
+            select: { id: true, first_name: true, last_name: true },
+          },
+        },
+      });
+    });
+  }
+
   // ==================== Holiday Operations ====================
 
   async listHolidays(year: string): Promise<Holiday[]> {
@@ -174,10 +272,29 @@ export class AdminRepository extends BaseRepository {
 
   // ==================== Audit Log Operations ====================
 
-  async listAuditLogs(
-    pagination: PaginationParams,
-    filters: AuditLogFilters
-  ): Promise<PaginatedResponse<AuditLogWithPerson>> {
+  private readonly selectAuditLog = {
+    id: true,
+    company_id: true,
+    person_id: true,
+    action: true,
+    entity_type: true,
+    entity_id: true,
+    details: true,
+    ip_address: true,
+    created_at: true,
+    person: {
+      select: {
+        id: true,
+        email: true,
+        first_name: true,
+        last_name: true,
+        role: true,
+        is_active: true,
+      },
+    },
+  } as const;
+
+  private buildAuditLogWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
     const where: Prisma.AuditLogWhereInput = this.where({});
 
     if (filters.type) {
@@ -201,33 +318,22 @@ export class AdminRepository extends BaseRepository {
       };
     }
 
+    return where;
+  }
+
+  async listAuditLogs(
+    pagination: PaginationParams,
+    filters: AuditLogFilters
+  ): Promise<PaginatedResponse<AuditLogWithPerson>> {
+    const where = this.buildAuditLogWhere(filters);
+
     const [items, total] = await Promise.all([
       this.prisma.auditLog.findMany({
         where,
         skip: calculateSkip(pagination),
         take: pagination.limit,
         orderBy: { created_at: 'desc' },
-        select: {
-          id: true,
-          company_id: true,
-          person_id: true,
-          action: true,
-          entity_type: true,
-          entity_id: true,
-          details: true,
-          ip_address: true,
-          created_at: true,
-          person: {
-            select: {
-              id: true,
-              email: true,
-              first_name: true,
-              last_name: true,
-              role: true,
-              is_active: true,
-            },
-          },
-        },
+        select: this.selectAuditLog,
       }),
       this.prisma.auditLog.count({ where }),
     ]);
@@ -235,6 +341,23 @@ export class AdminRepository extends BaseRepository {
     return paginate(items, total, pagination);
   }
 
+  /**
+   * Same rows as listAuditLogs, read in batches for streaming exports
+   */
+  streamAuditLogs(filters: AuditLogFilters): AsyncGenerator<AuditLogWithPerson> {
+    const where = this.buildAuditLogWhere(filters);
+
+    return iterateInBatches((cursor, take) =>
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+        select: this.selectAuditLog,
+        take,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      })
+    );
+  }
+
   // ==================== Person/User Role Operations ====================
 
   async listPersons(
@@ -266,6 +389,7 @@ export class AdminRepository extends BaseRepository {
           is_active: true,
           company_id: true,
           created_at: true,
+          mfa_enabled_at: true,
         },
       }),
       this.prisma.person.count({ where }),
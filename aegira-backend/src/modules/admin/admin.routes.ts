@@ -5,7 +5,14 @@ import { authMiddleware } from '../../middleware/auth';
 import { tenantMiddleware } from '../../middleware/tenant';
 import { roleMiddleware } from '../../middleware/role';
 import * as controller from './admin.controller';
-import { createHolidaySchema, updateHolidaySchema, updateSettingsSchema, updateUserRoleSchema } from './admin.validator';
+import {
+  createHolidaySchema,
+  updateHolidaySchema,
+  updateSettingsSchema,
+  updateScoringModelSchema,
+  updateUserRoleSchema,
+  exportAuditLogsQuerySchema,
+} from './admin.validator';
 
 const router = new Hono();
 
@@ -17,6 +24,10 @@ router.use('*', roleMiddleware(['ADMIN']));
 router.get('/company/settings', controller.getCompanySettings);
 router.patch('/company/settings', zValidator('json', updateSettingsSchema), controller.updateCompanySettings);
 
+// Readiness Scoring Model
+router.get('/company/scoring-model', controller.getScoringModel);
+router.post('/company/scoring-model', zValidator('json', updateScoringModelSchema), controller.updateScoringModel);
+
 // Holidays
 router.get('/holidays', controller.listHolidays);
 router.post('/holidays', zValidator('json', createHolidaySchema), controller.createHoliday);
@@ -25,9 +36,12 @@ router.delete('/holidays/:id', controller.deleteHoliday);
 
 // Audit Logs
 router.get('/audit-logs', controller.listAuditLogs);
+router.get('/audit-logs/export', zValidator('query', exportAuditLogsQuerySchema), controller.exportAuditLogs);
 
 // User Roles
 router.get('/users/roles', controller.listUserRoles);
 router.patch('/users/:id/role', zValidator('json', updateUserRoleSchema), controller.updateUserRole);
+router.post('/users/:id/force-logout', controller.forceLogout);
+router.post('/users/:id/mfa/reset', controller.resetUserMfa);
 
 export { router as adminRoutes };
@@ -1,5 +1,7 @@
 // Admin Module Validators
 import { z } from 'zod';
+import { exportFormatSchema } from '../../shared/export';
+import { env } from '../../config/env';
 
 export const createHolidaySchema = z.object({
   name: z.string().min(1).max(100),
@@ -27,6 +29,84 @@ export const updateSettingsSchema = z.object({
   addressPostalCode: z.string().max(20).optional(),
   addressState: z.string().max(100).optional(),
   addressCountry: z.string().max(10).optional(),
+  // Data retention (days). null disables trimming/purging for events and audit logs.
+  notificationArchiveDays: z.number().int().min(1).max(365).optional(),
+  notificationPurgeDays: z.number().int().min(1).max(3650).optional(),
+  eventPayloadRetentionDays: z.number().int().min(30).max(3650).nullable().optional(),
+  auditLogRetentionDays: z.number().int().min(365).max(3650).nullable().optional(),
+  // Roles that must sign in with TOTP MFA
+  mfaRequiredRoles: z.array(z.enum(['WORKER', 'TEAM_LEAD', 'SUPERVISOR', 'WHS', 'ADMIN'])).max(5).optional(),
+  // Minutes a team lead has to acknowledge a RED check-in before it escalates
+  redFollowUpAckMinutes: z.number().int().min(5).max(1440).optional(),
+  // Single sign-on (OIDC). The client secret is write-only — null clears it.
+  passwordLoginEnabled: z.boolean().optional(),
+  ssoEnabled: z.boolean().optional(),
+  ssoIssuer: z
+    .string()
+    .trim()
+    .url('Issuer must be a URL')
+    .max(500)
+    .refine((value) => env.SSO_ALLOW_LOCAL_PROVIDER || value.startsWith('https://'), 'Issuer must use https')
+    .nullable()
+    .optional(),
+  ssoClientId: z.string().trim().min(1).max(255).nullable().optional(),
+  ssoClientSecret: z.string().min(1).max(1000).nullable().optional(),
+});
+
+const weightSchema = z.number().min(0).max(1);
+const scoreSchema = z.number().int().min(0).max(100);
+const hoursSchema = z.number().min(0).max(24);
+
+/** Weights are fractions that must add up to 1 (small tolerance for float input) */
+function sumsToOne(weights: Record<string, number>): boolean {
+  const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+  return Math.abs(total - 1) < 0.001;
+}
+
+export const updateScoringModelSchema = z.object({
+  weights: z.object({
+    withPain: z.object({
+      sleep: weightSchema,
+      stress: weightSchema,
+      physical: weightSchema,
+      pain: weightSchema,
+    }).refine(sumsToOne, { message: 'Weights with pain must add up to 100%' }),
+    withoutPain: z.object({
+      sleep: weightSchema,
+      stress: weightSchema,
+      physical: weightSchema,
+    }).refine(sumsToOne, { message: 'Weights without pain must add up to 100%' }),
+  }),
+  thresholds: z.object({
+    green: scoreSchema,
+    yellow: scoreSchema,
+  }).refine((t) => t.yellow < t.green, {
+    message: 'Yellow threshold must be lower than green threshold',
+    path: ['yellow'],
+  }),
+  sleep: z.object({
+    optimalMinHours: hoursSchema,
+    optimalMaxHours: hoursSchema,
+    optimalScore: scoreSchema,
+    oversleepScore: scoreSchema,
+    bands: z.array(z.object({ minHours: hoursSchema, score: scoreSchema })).max(10),
+    minimumScore: scoreSchema,
+  })
+    .refine((s) => s.optimalMinHours <= s.optimalMaxHours, {
+      message: 'Optimal sleep minimum must not exceed the maximum',
+      path: ['optimalMaxHours'],
+    })
+    .refine((s) => s.bands.every((b) => b.minHours < s.optimalMinHours), {
+      message: 'Sleep bands must start below the optimal range',
+      path: ['bands'],
+    })
+    .refine((s) => new Set(s.bands.map((b) => b.minHours)).size === s.bands.length, {
+      message: 'Sleep bands must have distinct starting hours',
+      path: ['bands'],
+    })
+    // Scoring walks bands from the highest minHours down
+    .transform((s) => ({ ...s, bands: [...s.bands].sort((a, b) => b.minHours - a.minHours) })),
+  notes: z.string().max(500).trim().optional(),
 });
 
 export const updateUserRoleSchema = z.object({
@@ -35,7 +115,17 @@ export const updateUserRoleSchema = z.object({
   }),
 });
 
+// Same filters as GET /admin/audit-logs
+export const exportAuditLogsQuerySchema = z.object({
+  type: z.string().optional(),
+  search: z.string().trim().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  format: exportFormatSchema,
+});
+
 export type CreateHolidayData = z.infer<typeof createHolidaySchema>;
 export type UpdateHolidayData = z.infer<typeof updateHolidaySchema>;
 export type UpdateSettingsData = z.infer<typeof updateSettingsSchema>;
+export type UpdateScoringModelData = z.infer<typeof updateScoringModelSchema>;
 export type UpdateUserRoleData = z.infer<typeof updateUserRoleSchema>;
+export type ExportAuditLogsQuery = z.infer<typeof exportAuditLogsQuerySchema>;
@@ -0,0 +1,114 @@
+import type { Context } from 'hono';
+import type { AlertRule } from '@prisma/client';
+import { AlertRuleRepository } from './alert-rule.repository';
+import { AlertRuleService } from './alert-rule.service';
+import { describeAlertRule } from './alert-rule.evaluator';
+import type { CreateAlertRuleInput, PreviewAlertRuleInput, UpdateAlertRuleInput } from './alert-rule.validator';
+import { prisma } from '../../config/database';
+
+function getService(companyId: string, timezone: string): AlertRuleService {
+  return new AlertRuleService(new AlertRuleRepository(prisma, companyId), timezone);
+}
+
+interface AlertRuleResponse {
+  id: string;
+  name: string;
+  metric: AlertRule['metric'];
+  value: number | null;
+  threshold: number;
+  windowDays: number;
+  targetRole: AlertRule['target_role'];
+  isActive: boolean;
+  /** Plain-language condition, e.g. "3 YELLOW or RED check-ins in a row" */
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function mapRuleToResponse(rule: AlertRule): AlertRuleResponse {
+  return {
+    id: rule.id,
+    name: rule.name,
+    metric: rule.metric,
+    value: rule.value,
+    threshold: rule.threshold,
+    windowDays: rule.window_days,
+    targetRole: rule.target_role,
+    isActive: rule.is_active,
+    description: describeAlertRule(rule),
+    createdAt: rule.created_at.toISOString(),
+    updatedAt: rule.updated_at.toISOString(),
+  };
+}
+
+/**
+ * GET /api/v1/alert-rules
+ * List the company's alert rules.
+ */
+export async function listAlertRules(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+
+  const rules = await new AlertRuleRepository(prisma, companyId).findAll();
+
+  return c.json({ success: true, data: rules.map(mapRuleToResponse) });
+}
+
+/**
+ * POST /api/v1/alert-rules
+ * Create an alert rule. Active rules apply from the next check-in / miss.
+ */
+export async function createAlertRule(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const data = c.req.valid('json' as never) as CreateAlertRuleInput;
+
+  const rule = await getService(companyId, timezone).create(data, userId);
+
+  return c.json({ success: true, data: mapRuleToResponse(rule) }, 201);
+}
+
+/**
+ * PATCH /api/v1/alert-rules/:id
+ * Update an alert rule (including pausing it with isActive: false).
+ */
+export async function updateAlertRule(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as UpdateAlertRuleInput;
+
+  const rule = await getService(companyId, timezone).update(id, data, userId);
+
+  return c.json({ success: true, data: mapRuleToResponse(rule) });
+}
+
+/**
+ * DELETE /api/v1/alert-rules/:id
+ * Delete an alert rule.
+ */
+export async function deleteAlertRule(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+
+  await getService(companyId, timezone).delete(id, userId);
+
+  return c.json({ success: true, data: { message: 'Alert rule deleted' } });
+}
+
+/**
+ * POST /api/v1/alert-rules/preview
+ * Dry run a rule definition against recent history. Sends nothing.
+ */
+export async function previewAlertRule(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const data = c.req.valid('json' as never) as PreviewAlertRuleInput;
+
+  const preview = await getService(companyId, timezone).preview(data);
+
+  return c.json({ success: true, data: preview });
+}
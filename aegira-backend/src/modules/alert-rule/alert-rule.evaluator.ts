@@ -0,0 +1,129 @@
+// Alert Rule Evaluation - pure matching over one worker's recent history.
+// Shared by live evaluation (on CHECK_IN_SUBMITTED / MISSED_CHECK_IN_DETECTED)
+// and the dry-run preview, so a preview shows exactly what would have fired.
+import type { AlertRuleMetric, EventType, ReadinessLevel } from '@prisma/client';
+import { DateTime } from 'luxon';
+
+export interface AlertRuleCriteria {
+  metric: AlertRuleMetric;
+  value: number | null;
+  threshold: number;
+  window_days: number;
+}
+
+/** One check-in (readiness fields set) or one miss (date only) */
+export interface AlertHistoryEntry {
+  date: string; // YYYY-MM-DD
+  level?: ReadinessLevel;
+  stressLevel?: number;
+  painLevel?: number | null;
+  hoursSlept?: number;
+}
+
+/** Event each metric is evaluated on */
+export const ALERT_RULE_EVENTS: Record<AlertRuleMetric, EventType> = {
+  CONSECUTIVE_YELLOW_OR_RED: 'CHECK_IN_SUBMITTED',
+  RED_CHECK_INS: 'CHECK_IN_SUBMITTED',
+  HIGH_STRESS: 'CHECK_IN_SUBMITTED',
+  HIGH_PAIN: 'CHECK_IN_SUBMITTED',
+  LOW_SLEEP: 'CHECK_IN_SUBMITTED',
+  MISSED_CHECK_INS: 'MISSED_CHECK_IN_DETECTED',
+};
+
+export type AlertRuleEvent = 'CHECK_IN_SUBMITTED' | 'MISSED_CHECK_IN_DETECTED';
+
+export function getMetricsForEvent(event: AlertRuleEvent): AlertRuleMetric[] {
+  return (Object.keys(ALERT_RULE_EVENTS) as AlertRuleMetric[]).filter(
+    (metric) => ALERT_RULE_EVENTS[metric] === event
+  );
+}
+
+/** Does a single check-in / miss count towards the rule? */
+function isHit(rule: AlertRuleCriteria, entry: AlertHistoryEntry): boolean {
+  switch (rule.metric) {
+    case 'CONSECUTIVE_YELLOW_OR_RED':
+      return entry.level !== undefined && entry.level !== 'GREEN';
+    case 'RED_CHECK_INS':
+      return entry.level === 'RED';
+    case 'HIGH_STRESS':
+      return rule.value !== null && entry.stressLevel !== undefined && entry.stressLevel >= rule.value;
+    case 'HIGH_PAIN':
+      return rule.value !== null && entry.painLevel != null && entry.painLevel >= rule.value;
+    case 'LOW_SLEEP':
+      return rule.value !== null && entry.hoursSlept !== undefined && entry.hoursSlept < rule.value;
+    case 'MISSED_CHECK_INS':
+      return true;
+  }
+}
+
+/** First day (YYYY-MM-DD) of the window that ends on `date`, inclusive */
+export function getWindowStart(date: string, windowDays: number): string {
+  return DateTime.fromISO(date, { zone: 'utc' }).minus({ days: windowDays - 1 }).toISODate()!;
+}
+
+/**
+ * Does the entry on `date` complete a match? It has to be a hit itself, so a
+ * rule fires on the check-in / miss that crosses the threshold — not on a
+ * later, unrelated one while the older hits are still in the window.
+ * CONSECUTIVE_YELLOW_OR_RED counts the check-ins in a row ending on `date`;
+ * days without a check-in (off days, misses) don't break the streak.
+ *
+ * @param history the worker's entries in any order; entries after `date` are ignored
+ */
+export function matchesAlertRule(
+  rule: AlertRuleCriteria,
+  history: AlertHistoryEntry[],
+  date: string
+): boolean {
+  const start = getWindowStart(date, rule.window_days);
+  const inWindow = history
+    .filter((entry) => entry.date >= start && entry.date <= date)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const current = inWindow[0];
+  if (!current || current.date !== date || !isHit(rule, current)) return false;
+
+  if (rule.metric === 'CONSECUTIVE_YELLOW_OR_RED') {
+    let streak = 0;
+    for (const entry of inWindow) {
+      if (!isHit(rule, entry)) break;
+      streak++;
+    }
+    return streak >= rule.threshold;
+  }
+
+  return inWindow.filter((entry) => isHit(rule, entry)).length >= rule.threshold;
+}
+
+/**
+ * A rule stays quiet for a worker until a full window has passed since its
+ * last alert — a 7-day rule alerts at most once a week per worker.
+ */
+export function isAlertRuleCoolingDown(
+  rule: AlertRuleCriteria,
+  lastTriggerDate: string | null,
+  date: string
+): boolean {
+  return lastTriggerDate !== null && lastTriggerDate >= getWindowStart(date, rule.window_days);
+}
+
+/** Plain-language condition, e.g. "stress 8+ on 2 check-ins in 7 days" */
+export function describeAlertRule(rule: AlertRuleCriteria): string {
+  const within = `in ${rule.window_days} day${rule.window_days === 1 ? '' : 's'}`;
+  const times = (noun: string) => `${rule.threshold} ${noun}${rule.threshold === 1 ? '' : 's'}`;
+
+  switch (rule.metric) {
+    case 'CONSECUTIVE_YELLOW_OR_RED':
+      return `${times('YELLOW or RED check-in')} in a row`;
+    case 'RED_CHECK_INS':
+      return `${times('RED check-in')} ${within}`;
+    case 'HIGH_STRESS':
+      return `stress ${rule.value}+ on ${times('check-in')} ${within}`;
+    case 'HIGH_PAIN':
+      return `pain ${rule.value}+ on ${times('check-in')} ${within}`;
+    case 'LOW_SLEEP':
+      return `under ${rule.value}h sleep on ${times('check-in')} ${within}`;
+    case 'MISSED_CHECK_INS':
+      return `${times('missed check-in')} ${within}`;
+  }
+}
@@ -0,0 +1,218 @@
+import type { PrismaClient, AlertRule, AlertRuleMetric, Prisma, Role } from '@prisma/client';
+import { BaseRepository } from '../../shared/base.repository';
+import type { AlertHistoryEntry } from './alert-rule.evaluator';
+
+export interface AlertRuleData {
+  name: string;
+  metric: AlertRuleMetric;
+  value: number | null;
+  threshold: number;
+  windowDays: number;
+  targetRole: Role;
+  isActive: boolean;
+}
+
+export interface AlertSubject {
+  id: string;
+  first_name: string;
+  last_name: string;
+  team: { id: string; name: string; leader_id: string; supervisor_id: string | null } | null;
+}
+
+/** @db.Date column value for a YYYY-MM-DD string */
+function toDbDate(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export class AlertRuleRepository extends BaseRepository {
+  constructor(prisma: PrismaClient, companyId: string) {
+    super(prisma, companyId);
+  }
+
+  async findAll(): Promise<AlertRule[]> {
+    return this.prisma.alertRule.findMany({
+      where: this.where({}),
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findById(id: string): Promise<AlertRule | null> {
+    return this.prisma.alertRule.findFirst({ where: this.where({ id }) });
+  }
+
+  async findActive(metrics: AlertRuleMetric[]): Promise<AlertRule[]> {
+    return this.prisma.alertRule.findMany({
+      where: this.where({ is_active: true, metric: { in: metrics } }),
+    });
+  }
+
+  async create(data: AlertRuleData, createdBy: string): Promise<AlertRule> {
+    return this.prisma.alertRule.create({
+      data: {
+        company_id: this.companyId,
+        name: data.name,
+        metric: data.metric,
+        value: data.value,
+        threshold: data.threshold,
+        window_days: data.windowDays,
+        target_role: data.targetRole,
+        is_active: data.isActive,
+        created_by: createdBy,
+      },
+    });
+  }
+
+  async update(id: string, data: AlertRuleData): Promise<AlertRule> {
+    return this.prisma.alertRule.update({
+      where: { id },
+      data: {
+        name: data.name,
+        metric: data.metric,
+        value: data.value,
+        threshold: data.threshold,
+        window_days: data.windowDays,
+        target_role: data.targetRole,
+        is_active: data.isActive,
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.alertRule.delete({ where: { id } });
+  }
+
+  /**
+   * Check-ins between two dates (inclusive), grouped by worker.
+   * @param personIds null = every worker in the company
+   */
+  async findCheckInHistory(
+    personIds: string[] | null,
+    from: string,
+    to: string
+  ): Promise<Map<string, AlertHistoryEntry[]>> {
+    const rows = await this.prisma.checkIn.findMany({
+      where: this.where({
+        check_in_date: { gte: toDbDate(from), lte: toDbDate(to) },
+        ...(personIds && { person_id: { in: personIds } }),
+      }),
+      select: {
+        person_id: true,
+        check_in_date: true,
+        readiness_level: true,
+        stress_level: true,
+        pain_level: true,
+        hours_slept: true,
+      },
+    });
+
+    return groupByPerson(rows, (row) => ({
+      date: toDateString(row.check_in_date),
+      level: row.readiness_level,
+      stressLevel: row.stress_level,
+      painLevel: row.pain_level,
+      hoursSlept: row.hours_slept,
+    }));
+  }
+
+  /** Missed check-ins between two dates (inclusive), grouped by worker */
+  async findMissHistory(
+    personIds: string[] | null,
+    from: string,
+    to: string
+  ): Promise<Map<string, AlertHistoryEntry[]>> {
+    const rows = await this.prisma.missedCheckIn.findMany({
+      where: this.where({
+        missed_date: { gte: toDbDate(from), lte: toDbDate(to) },
+        ...(personIds && { person_id: { in: personIds } }),
+      }),
+      select: { person_id: true, missed_date: true },
+    });
+
+    return groupByPerson(rows, (row) => ({ date: toDateString(row.missed_date) }));
+  }
+
+  /** Active workers the alerts are about, with who to notify on their team */
+  async findSubjects(personIds: string[]): Promise<AlertSubject[]> {
+    return this.prisma.person.findMany({
+      where: this.where({ id: { in: personIds }, is_active: true }),
+      select: {
+        id: true,
+        first_name: true,
+        last_name: true,
+        team: { select: { id: true, name: true, leader_id: true, supervisor_id: true } },
+      },
+    });
+  }
+
+  async findActiveAdminIds(): Promise<string[]> {
+    const admins = await this.prisma.person.findMany({
+      where: this.where({ role: 'ADMIN' as const, is_active: true }),
+      select: { id: true },
+    });
+    return admins.map((admin) => admin.id);
+  }
+
+  /**
+   * Latest alert per rule and worker since `since` — key `${ruleId}:${personId}`.
+   */
+  async findLastTriggerDates(
+    ruleIds: string[],
+    personIds: string[],
+    since: string
+  ): Promise<Map<string, string>> {
+    const triggers = await this.prisma.alertRuleTrigger.groupBy({
+      by: ['rule_id', 'person_id'],
+      where: this.where({
+        rule_id: { in: ruleIds },
+        person_id: { in: personIds },
+        trigger_date: { gte: toDbDate(since) },
+      }),
+      _max: { trigger_date: true },
+    });
+
+    const result = new Map<string, string>();
+    for (const trigger of triggers) {
+      if (trigger._max.trigger_date) {
+        result.set(`${trigger.rule_id}:${trigger.person_id}`, toDateString(trigger._max.trigger_date));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Record matches, skipping any already recorded for that rule, worker and
+   * date (an overlapping evaluation). Returns the keys `${ruleId}:${personId}`
+   * actually inserted.
+   */
+  async createTriggers(triggers: { ruleId: string; personId: string; date: string }[]): Promise<Set<string>> {
+    const data: Prisma.AlertRuleTriggerCreateManyInput[] = triggers.map((trigger) => ({
+      company_id: this.companyId,
+      rule_id: trigger.ruleId,
+      person_id: trigger.personId,
+      trigger_date: toDbDate(trigger.date),
+    }));
+    const created = await this.prisma.alertRuleTrigger.createManyAndReturn({
+      data,
+      skipDuplicates: true,
+      select: { rule_id: true, person_id: true },
+    });
+    return new Set(created.map((trigger) => `${trigger.rule_id}:${trigger.person_id}`));
+  }
+}
+
+function groupByPerson<T extends { person_id: string }>(
+  rows: T[],
+  toEntry: (row: T) => AlertHistoryEntry
+): Map<string, AlertHistoryEntry[]> {
+  const result = new Map<string, AlertHistoryEntry[]>();
+  for (const row of rows) {
+    const entries = result.get(row.person_id) ?? [];
+    entries.push(toEntry(row));
+    result.set(row.person_id, entries);
+  }
+  return result;
+}
@@ -0,0 +1,30 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { authMiddleware } from '../../middleware/auth';
+import { tenantMiddleware } from '../../middleware/tenant';
+import { roleMiddleware } from '../../middleware/role';
+import * as controller from './alert-rule.controller';
+import { createAlertRuleSchema, previewAlertRuleSchema, updateAlertRuleSchema } from './alert-rule.validator';
+
+const router = new Hono();
+
+router.use('*', authMiddleware);
+router.use('*', tenantMiddleware);
+router.use('*', roleMiddleware(['ADMIN']));
+
+// GET /api/v1/alert-rules — list alert rules
+router.get('/', controller.listAlertRules);
+
+// POST /api/v1/alert-rules — create alert rule
+router.post('/', zValidator('json', createAlertRuleSchema), controller.createAlertRule);
+
+// POST /api/v1/alert-rules/preview — dry run against recent history
+router.post('/preview', zValidator('json', previewAlertRuleSchema), controller.previewAlertRule);
+
+// PATCH /api/v1/alert-rules/:id — update alert rule
+router.patch('/:id', zValidator('json', updateAlertRuleSchema), controller.updateAlertRule);
+
+// DELETE /api/v1/alert-rules/:id — delete alert rule
+router.delete('/:id', controller.deleteAlertRule);
+
+export { router as alertRuleRoutes };
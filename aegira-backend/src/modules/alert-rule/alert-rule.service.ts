@@ -0,0 +1,318 @@
+import { Prisma } from '@prisma/client';
+import type { PrismaClient, AlertRule, Role } from '@prisma/client';
+import { AlertRuleRepository, type AlertRuleData, type AlertSubject } from './alert-rule.repository';
+import {
+  ALERT_RULE_EVENTS,
+  describeAlertRule,
+  getMetricsForEvent,
+  getWindowStart,
+  isAlertRuleCoolingDown,
+  matchesAlertRule,
+  type AlertRuleCriteria,
+  type AlertRuleEvent,
+} from './alert-rule.evaluator';
+import {
+  getAlertRuleIssue,
+  metricTakesValue,
+  type CreateAlertRuleInput,
+  type PreviewAlertRuleInput,
+  type UpdateAlertRuleInput,
+} from './alert-rule.validator';
+import { AppError } from '../../shared/errors';
+import { logAudit } from '../../shared/audit';
+import { getTodayInTimezone } from '../../shared/utils';
+import { logger } from '../../config/logger';
+import { sendNotifications, type CreateNotificationData } from '../notification/notification.service';
+import { getFollowUpOwnerId } from '../follow-up/follow-up.service';
+
+export interface AlertRulePreviewMatch {
+  personId: string;
+  workerName: string;
+  teamName: string | null;
+  date: string;
+}
+
+export interface AlertRulePreview {
+  from: string;
+  to: string;
+  matches: AlertRulePreviewMatch[];
+  workersMatched: number;
+}
+
+function getWorkerName(subject: Pick<AlertSubject, 'first_name' | 'last_name'>): string {
+  return `${subject.first_name} ${subject.last_name}`;
+}
+
+/** Worker profile route the recipient's role can open */
+function getWorkerLink(targetRole: Role, personId: string): string {
+  return targetRole === 'ADMIN' ? `/person/${personId}` : `/team/workers/${personId}`;
+}
+
+/**
+ * Who an alert about `subject` goes to. Like follow-ups, a team lead's own
+ * check-ins go to their supervisor; nobody is alerted about themselves.
+ */
+function getAlertRecipients(targetRole: Role, subject: AlertSubject, adminIds: string[]): string[] {
+  let recipientIds: string[];
+  if (targetRole === 'ADMIN') {
+    recipientIds = adminIds;
+  } else if (!subject.team) {
+    recipientIds = [];
+  } else if (targetRole === 'TEAM_LEAD') {
+    const ownerId = getFollowUpOwnerId(subject.team, subject.id);
+    recipientIds = ownerId ? [ownerId] : [];
+  } else {
+    recipientIds = subject.team.supervisor_id ? [subject.team.supervisor_id] : [];
+  }
+  return recipientIds.filter((id) => id !== subject.id);
+}
+
+/**
+ * Evaluate the company's active rules for workers with a new check-in / miss
+ * on `date`, record the matches and send TEAM_ALERT notifications. Matches
+ * another evaluation already recorded for the same date are not alerted again.
+ * Returns the number of new rule matches.
+ */
+export async function runAlertRules(
+  prisma: PrismaClient,
+  companyId: string,
+  event: AlertRuleEvent,
+  personIds: string[],
+  date: string
+): Promise<number> {
+  const repository = new AlertRuleRepository(prisma, companyId);
+  const rules = await repository.findActive(getMetricsForEvent(event));
+  if (rules.length === 0) return 0;
+
+  const from = getWindowStart(date, Math.max(...rules.map((rule) => rule.window_days)));
+  const [history, subjects, lastTriggers] = await Promise.all([
+    event === 'MISSED_CHECK_IN_DETECTED'
+      ? repository.findMissHistory(personIds, from, date)
+      : repository.findCheckInHistory(personIds, from, date),
+    repository.findSubjects(personIds),
+    repository.findLastTriggerDates(rules.map((rule) => rule.id), personIds, from),
+  ]);
+
+  const candidates: { rule: AlertRule; subject: AlertSubject }[] = [];
+  for (const subject of subjects) {
+    const entries = history.get(subject.id) ?? [];
+    for (const rule of rules) {
+      if (!matchesAlertRule(rule, entries, date)) continue;
+      if (isAlertRuleCoolingDown(rule, lastTriggers.get(`${rule.id}:${subject.id}`) ?? null, date)) continue;
+      candidates.push({ rule, subject });
+    }
+  }
+  if (candidates.length === 0) return 0;
+
+  const created = await repository.createTriggers(
+    candidates.map(({ rule, subject }) => ({ ruleId: rule.id, personId: subject.id, date }))
+  );
+  const matches = candidates.filter(({ rule, subject }) => created.has(`${rule.id}:${subject.id}`));
+  if (matches.length === 0) return 0;
+
+  const adminIds = matches.some(({ rule }) => rule.target_role === 'ADMIN')
+    ? await repository.findActiveAdminIds()
+    : [];
+
+  const notifications: CreateNotificationData[] = [];
+  for (const { rule, subject } of matches) {
+    const team = subject.team ? ` (${subject.team.name})` : '';
+    for (const recipientId of getAlertRecipients(rule.target_role, subject, adminIds)) {
+      notifications.push({
+        personId: recipientId,
+        type: 'TEAM_ALERT',
+        title: `Alert: ${rule.name}`,
+        message: `${getWorkerName(subject)}${team}: ${describeAlertRule(rule)}.`,
+        link: getWorkerLink(rule.target_role, subject.id),
+      });
+    }
+  }
+
+  sendNotifications(prisma, companyId, notifications);
+  return matches.length;
+}
+
+/**
+ * Fire-and-forget wrapper for runAlertRules. Call after the check-in / miss
+ * is committed; alert evaluation never blocks or fails the caller.
+ */
+export function evaluateAlertRules(
+  prisma: PrismaClient,
+  companyId: string,
+  event: AlertRuleEvent,
+  personIds: string[],
+  date: string
+): void {
+  if (personIds.length === 0) return;
+
+  runAlertRules(prisma, companyId, event, personIds, date).catch((error) => {
+    logger.error({ error, companyId, event }, 'Failed to evaluate alert rules');
+  });
+}
+
+export class AlertRuleService {
+  constructor(
+    private readonly repository: AlertRuleRepository,
+    private readonly timezone: string
+  ) {}
+
+  async create(data: CreateAlertRuleInput, actorId: string): Promise<AlertRule> {
+    let rule: AlertRule;
+    try {
+      rule = await this.repository.create(
+        {
+          name: data.name,
+          metric: data.metric,
+          value: metricTakesValue(data.metric) ? data.value ?? null : null,
+          threshold: data.threshold,
+          windowDays: data.windowDays,
+          targetRole: data.targetRole,
+          isActive: data.isActive ?? true,
+        },
+        actorId
+      );
+    } catch (error) {
+      throw this.mapDuplicateName(error);
+    }
+
+    logAudit({
+      companyId: this.repository.getCompanyId(),
+      personId: actorId,
+      action: 'CREATE_ALERT_RULE',
+      entityType: 'alert_rule',
+      entityId: rule.id,
+      details: { name: rule.name, metric: rule.metric, targetRole: rule.target_role },
+    });
+
+    return rule;
+  }
+
+  async update(id: string, data: UpdateAlertRuleInput, actorId: string): Promise<AlertRule> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      throw new AppError('NOT_FOUND', 'Alert rule not found', 404);
+    }
+
+    // Validate the rule as it will be saved, not just the changed fields
+    const metric = data.metric ?? existing.metric;
+    const merged: AlertRuleData = {
+      name: data.name ?? existing.name,
+      metric,
+      value: metricTakesValue(metric) ? (data.value !== undefined ? data.value : existing.value) : null,
+      threshold: data.threshold ?? existing.threshold,
+      windowDays: data.windowDays ?? existing.window_days,
+      targetRole: data.targetRole ?? existing.target_role,
+      isActive: data.isActive ?? existing.is_active,
+    };
+    const issue = getAlertRuleIssue(merged);
+    if (issue) {
+      throw new AppError('VALIDATION_ERROR', issue.message, 400);
+    }
+
+    let rule: AlertRule;
+    try {
+      rule = await this.repository.update(id, merged);
+    } catch (error) {
+      throw this.mapDuplicateName(error);
+    }
+
+    logAudit({
+      companyId: this.repository.getCompanyId(),
+      personId: actorId,
+      action: 'UPDATE_ALERT_RULE',
+      entityType: 'alert_rule',
+      entityId: id,
+      details: { changes: Object.keys(data) },
+    });
+
+    return rule;
+  }
+
+  async delete(id: string, actorId: string): Promise<void> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      throw new AppError('NOT_FOUND', 'Alert rule not found', 404);
+    }
+
+    // Past triggers cascade; notifications already sent stay
+    await this.repository.delete(id);
+
+    logAudit({
+      companyId: this.repository.getCompanyId(),
+      personId: actorId,
+      action: 'DELETE_ALERT_RULE',
+      entityType: 'alert_rule',
+      entityId: id,
+      details: { name: existing.name },
+    });
+  }
+
+  /**
+   * Dry run: which workers the rule would have alerted about over the last
+   * `days` days (today included), replaying each check-in / miss in order with
+   * the same matching and cooldown as live evaluation. Alerts already sent by
+   * saved rules are not taken into account, and nothing is recorded or sent.
+   */
+  async preview(data: PreviewAlertRuleInput): Promise<AlertRulePreview> {
+    const rule: AlertRuleCriteria = {
+      metric: data.metric,
+      value: metricTakesValue(data.metric) ? data.value ?? null : null,
+      threshold: data.threshold,
+      window_days: data.windowDays,
+    };
+
+    const to = getTodayInTimezone(this.timezone);
+    const from = getWindowStart(to, data.days);
+    // Reach back one more window so matches on the first days see their history
+    const historyFrom = getWindowStart(from, rule.window_days);
+    const history =
+      ALERT_RULE_EVENTS[rule.metric] === 'MISSED_CHECK_IN_DETECTED'
+        ? await this.repository.findMissHistory(null, historyFrom, to)
+        : await this.repository.findCheckInHistory(null, historyFrom, to);
+
+    const hits: { personId: string; date: string }[] = [];
+    for (const [personId, entries] of history) {
+      let lastTrigger: string | null = null;
+      const dates = entries.map((entry) => entry.date).filter((date) => date >= from).sort();
+      for (const date of dates) {
+        if (!matchesAlertRule(rule, entries, date)) continue;
+        if (isAlertRuleCoolingDown(rule, lastTrigger, date)) continue;
+        hits.push({ personId, date });
+        lastTrigger = date;
+      }
+    }
+
+    const subjects = hits.length > 0
+      ? await this.repository.findSubjects([...new Set(hits.map((hit) => hit.personId))])
+      : [];
+    const subjectById = new Map(subjects.map((subject) => [subject.id, subject]));
+
+    const matches: AlertRulePreviewMatch[] = [];
+    for (const hit of hits) {
+      // Deactivated workers are no longer alerted about
+      const subject = subjectById.get(hit.personId);
+      if (!subject) continue;
+      matches.push({
+        personId: hit.personId,
+        workerName: getWorkerName(subject),
+        teamName: subject.team?.name ?? null,
+        date: hit.date,
+      });
+    }
+    matches.sort((a, b) => b.date.localeCompare(a.date) || a.workerName.localeCompare(b.workerName));
+
+    return {
+      from,
+      to,
+      matches,
+      workersMatched: new Set(matches.map((match) => match.personId)).size,
+    };
+  }
+
+  private mapDuplicateName(error: unknown): unknown {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return new AppError('DUPLICATE_ALERT_RULE', 'An alert rule with this name already exists', 409);
+    }
+    return error;
+  }
+}
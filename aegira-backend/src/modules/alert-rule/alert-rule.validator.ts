@@ -0,0 +1,107 @@
+// Alert Rule Validation Schemas
+import { z } from 'zod';
+
+export const ALERT_RULE_METRICS = [
+  'CONSECUTIVE_YELLOW_OR_RED',
+  'RED_CHECK_INS',
+  'HIGH_STRESS',
+  'HIGH_PAIN',
+  'LOW_SLEEP',
+  'MISSED_CHECK_INS',
+] as const;
+
+/** Roles an alert can be sent to — resolved per worker from their team */
+export const ALERT_TARGET_ROLES = ['TEAM_LEAD', 'SUPERVISOR', 'ADMIN'] as const;
+
+/** Longest look-back window */
+export const MAX_WINDOW_DAYS = 90;
+
+/** Longest dry-run range */
+export const MAX_PREVIEW_DAYS = 90;
+
+/** Allowed per-check-in cutoff for metrics that take one */
+const VALUE_RANGES: Partial<Record<(typeof ALERT_RULE_METRICS)[number], { min: number; max: number; label: string }>> = {
+  HIGH_STRESS: { min: 1, max: 10, label: 'Stress level' },
+  HIGH_PAIN: { min: 1, max: 10, label: 'Pain level' },
+  LOW_SLEEP: { min: 1, max: 24, label: 'Hours slept' },
+};
+
+/** Whether the metric compares each check-in against `value` */
+export function metricTakesValue(metric: AlertRuleDefinition['metric']): boolean {
+  return VALUE_RANGES[metric] !== undefined;
+}
+
+export interface AlertRuleDefinition {
+  metric: (typeof ALERT_RULE_METRICS)[number];
+  value?: number | null;
+  threshold: number;
+  windowDays: number;
+}
+
+/**
+ * Cross-field check shared by the schemas and by updates (which validate the
+ * merged rule). Returns the first problem, or null.
+ */
+export function getAlertRuleIssue(rule: AlertRuleDefinition): { path: string; message: string } | null {
+  const range = VALUE_RANGES[rule.metric];
+  if (range) {
+    if (rule.value === undefined || rule.value === null) {
+      return { path: 'value', message: `${range.label} is required for this metric` };
+    }
+    if (rule.value < range.min || rule.value > range.max) {
+      return { path: 'value', message: `${range.label} must be between ${range.min} and ${range.max}` };
+    }
+  }
+
+  // One check-in or miss per day — more occurrences than days can never match
+  if (rule.threshold > rule.windowDays) {
+    return { path: 'threshold', message: 'Threshold cannot be larger than the window' };
+  }
+
+  return null;
+}
+
+function refineRule(rule: AlertRuleDefinition, ctx: z.RefinementCtx): void {
+  const issue = getAlertRuleIssue(rule);
+  if (issue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message, path: [issue.path] });
+  }
+}
+
+const ruleFields = {
+  metric: z.enum(ALERT_RULE_METRICS),
+  value: z.number().int().min(0).max(24).nullable().optional(),
+  threshold: z.number().int().min(1).max(MAX_WINDOW_DAYS),
+  windowDays: z.number().int().min(1).max(MAX_WINDOW_DAYS),
+};
+
+export const createAlertRuleSchema = z
+  .object({
+    name: z.string().min(1).max(100).trim(),
+    ...ruleFields,
+    targetRole: z.enum(ALERT_TARGET_ROLES),
+    isActive: z.boolean().optional(),
+  })
+  .superRefine(refineRule);
+
+export const updateAlertRuleSchema = z.object({
+  name: z.string().min(1).max(100).trim().optional(),
+  metric: ruleFields.metric.optional(),
+  value: ruleFields.value,
+  threshold: ruleFields.threshold.optional(),
+  windowDays: ruleFields.windowDays.optional(),
+  targetRole: z.enum(ALERT_TARGET_ROLES).optional(),
+  isActive: z.boolean().optional(),
+});
+
+/** Dry run of an unsaved (or edited) rule against the last `days` days */
+export const previewAlertRuleSchema = z
+  .object({
+    ...ruleFields,
+    days: z.number().int().min(1).max(MAX_PREVIEW_DAYS).default(30),
+  })
+  .superRefine(refineRule);
+
+export type CreateAlertRuleInput = z.infer<typeof createAlertRuleSchema>;
+export type UpdateAlertRuleInput = z.infer<typeof updateAlertRuleSchema>;
+export type PreviewAlertRuleInput = z.infer<typeof previewAlertRuleSchema>;
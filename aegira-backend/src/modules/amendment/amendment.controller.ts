@@ -0,0 +1,190 @@
+import type { Context } from 'hono';
+import { AmendmentRepository, type AmendmentWithRelations } from './amendment.repository';
+import { AmendmentService } from './amendment.service';
+import type {
+  CreateAmendmentInput,
+  GetAmendmentsQuery,
+  RejectAmendmentInput,
+} from './amendment.validator';
+import { CheckInRepository } from '../check-in/check-in.repository';
+import { CheckInService } from '../check-in/check-in.service';
+import { prisma } from '../../config/database';
+import { parsePagination } from '../../shared/utils';
+import { getTeamContext } from '../../shared/team-context';
+
+function getRepository(companyId: string): AmendmentRepository {
+  return new AmendmentRepository(prisma, companyId);
+}
+
+function getService(companyId: string, timezone: string): AmendmentService {
+  const checkInService = new CheckInService(new CheckInRepository(prisma, companyId), timezone);
+  return new AmendmentService(prisma, checkInService, timezone);
+}
+
+interface AmendmentResponse {
+  id: string;
+  checkInId: string;
+  checkInDate: string;
+  personId: string;
+  workerName: string;
+  teamName: string;
+  fieldName: string;
+  oldValue: string;
+  newValue: string;
+  reason: string;
+  status: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+  readinessScore: number;
+  readinessLevel: string;
+  createdAt: string;
+}
+
+function mapAmendmentToResponse(amendment: AmendmentWithRelations): AmendmentResponse {
+  return {
+    id: amendment.id,
+    checkInId: amendment.check_in_id,
+    checkInDate: amendment.check_in.check_in_date.toISOString().slice(0, 10),
+    personId: amendment.person_id,
+    workerName: `${amendment.person.first_name} ${amendment.person.last_name}`,
+    teamName: amendment.person.team?.name ?? 'Unassigned',
+    fieldName: amendment.field_name,
+    oldValue: amendment.old_value,
+    newValue: amendment.new_value,
+    reason: amendment.reason,
+    status: amendment.status,
+    reviewedBy: amendment.reviewed_by,
+    reviewedAt: amendment.reviewed_at?.toISOString() ?? null,
+    rejectionReason: amendment.rejection_reason,
+    readinessScore: amendment.check_in.readiness_score,
+    readinessLevel: amendment.check_in.readiness_level,
+    createdAt: amendment.created_at.toISOString(),
+  };
+}
+
+/**
+ * POST /api/v1/amendments
+ * Request a correction to one of the current user's check-ins.
+ */
+export async function createAmendment(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const data = c.req.valid('json' as never) as CreateAmendmentInput;
+
+  const amendment = await getService(companyId, timezone).createAmendment(data, companyId, userId);
+
+  return c.json({ success: true, data: mapAmendmentToResponse(amendment) }, 201);
+}
+
+/**
+ * GET /api/v1/amendments/my
+ * List the current user's own correction requests.
+ */
+export async function getMyAmendments(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const { page, limit } = parsePagination(c.req.query('page'), c.req.query('limit'));
+  const { status } = c.req.valid('query' as never) as GetAmendmentsQuery;
+
+  const repository = getRepository(companyId);
+
+  const [result, statusCounts] = await Promise.all([
+    repository.findForList({ page, limit, status, personId: userId }),
+    repository.countByStatus({ personId: userId }),
+  ]);
+
+  return c.json({
+    success: true,
+    data: {
+      items: result.items.map(mapAmendmentToResponse),
+      pagination: result.pagination,
+      statusCounts,
+    },
+  });
+}
+
+/**
+ * GET /api/v1/amendments
+ * Review queue — TEAM_LEAD sees their team, SUPERVISOR their supervised teams, ADMIN all.
+ */
+export async function getAmendments(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const { page, limit } = parsePagination(c.req.query('page'), c.req.query('limit'));
+  const { status } = c.req.valid('query' as never) as GetAmendmentsQuery;
+
+  const { teamIds } = await getTeamContext(companyId, userId, userRole, c.get('companyTimezone') as string);
+
+  // No teams assigned — nothing to review
+  if (teamIds !== null && teamIds.length === 0) {
+    return c.json({
+      success: true,
+      data: {
+        items: [],
+        pagination: { page, limit, total: 0, totalPages: 0 },
+        statusCounts: { PENDING: 0, APPROVED: 0, REJECTED: 0 },
+      },
+    });
+  }
+
+  const repository = getRepository(companyId);
+  const scope = { teamIds, excludePersonId: userId };
+
+  const [result, statusCounts] = await Promise.all([
+    repository.findForList({ page, limit, status, ...scope }),
+    repository.countByStatus(scope),
+  ]);
+
+  return c.json({
+    success: true,
+    data: {
+      items: result.items.map(mapAmendmentToResponse),
+      pagination: result.pagination,
+      statusCounts,
+    },
+  });
+}
+
+/**
+ * PATCH /api/v1/amendments/:id/approve
+ * Approve a correction and recompute the check-in's readiness.
+ */
+export async function approveAmendment(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+
+  const amendment = await getService(companyId, timezone).approveAmendment(id, companyId, {
+    id: userId,
+    role: userRole,
+  });
+
+  return c.json({ success: true, data: mapAmendmentToResponse(amendment) });
+}
+
+/**
+ * PATCH /api/v1/amendments/:id/reject
+ * Reject a correction with a reason.
+ */
+export async function rejectAmendment(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as RejectAmendmentInput;
+
+  const amendment = await getService(companyId, timezone).rejectAmendment(
+    id,
+    companyId,
+    { id: userId, role: userRole },
+    data
+  );
+
+  return c.json({ success: true, data: mapAmendmentToResponse(amendment) });
+}
@@ -0,0 +1,113 @@
+import type { PrismaClient, Amendment, AmendmentStatus, Prisma } from '@prisma/client';
+import { BaseRepository } from '../../shared/base.repository';
+import { calculateSkip, paginate } from '../../shared/utils';
+import type { PaginationParams, PaginatedResponse } from '../../types/api.types';
+
+export interface AmendmentFilters extends PaginationParams {
+  status?: AmendmentStatus;
+  personId?: string;
+  teamIds?: string[] | null; // null = no team filter (ADMIN)
+  excludePersonId?: string; // Reviewers never see their own requests in the review queue
+}
+
+export type AmendmentWithRelations = Amendment & {
+  person: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    team: { id: string; name: string } | null;
+  };
+  check_in: { id: string; check_in_date: Date; readiness_score: number; readiness_level: string };
+};
+
+export class AmendmentRepository extends BaseRepository {
+  constructor(prisma: PrismaClient, companyId: string) {
+    super(prisma, companyId);
+  }
+
+  private readonly selectWithRelations = {
+    id: true,
+    company_id: true,
+    person_id: true,
+    check_in_id: true,
+    field_name: true,
+    old_value: true,
+    new_value: true,
+    reason: true,
+    status: true,
+    reviewed_by: true,
+    reviewed_at: true,
+    rejection_reason: true,
+    created_at: true,
+    updated_at: true,
+    person: {
+      select: {
+        id: true,
+        first_name: true,
+        last_name: true,
+        team: { select: { id: true, name: true } },
+      },
+    },
+    check_in: {
+      select: { id: true, check_in_date: true, readiness_score: true, readiness_level: true },
+    },
+  } as const;
+
+  async findById(id: string): Promise<AmendmentWithRelations | null> {
+    return this.prisma.amendment.findFirst({
+      where: this.where({ id }),
+      select: this.selectWithRelations,
+    }) as Promise<AmendmentWithRelations | null>;
+  }
+
+  private buildFiltersWhere(filters: Omit<AmendmentFilters, 'page' | 'limit'>): Prisma.AmendmentWhereInput {
+    return {
+      company_id: this.companyId,
+      ...(filters.status && { status: filters.status }),
+      ...(filters.personId && { person_id: filters.personId }),
+      ...(filters.teamIds && { person: { team_id: { in: filters.teamIds } } }),
+      ...(filters.excludePersonId && { person_id: { not: filters.excludePersonId } }),
+    };
+  }
+
+  async findForList(filters: AmendmentFilters): Promise<PaginatedResponse<AmendmentWithRelations>> {
+    const where = this.buildFiltersWhere(filters);
+
+    const [items, total] = await Promise.all([
+      this.prisma.amendment.findMany({
+        where,
+        select: this.selectWithRelations,
+        orderBy: { created_at: 'desc' },
+        skip: calculateSkip(filters),
+        take: filters.limit,
+      }),
+      this.prisma.amendment.count({ where }),
+    ]);
+
+    return paginate(items as AmendmentWithRelations[], total, filters);
+  }
+
+  async countByStatus(
+    filters?: Omit<AmendmentFilters, 'page' | 'limit' | 'status'>
+  ): Promise<Record<string, number>> {
+    const where = this.buildFiltersWhere(filters ?? {});
+
+    const counts = await this.prisma.amendment.groupBy({
+      by: ['status'],
+      where,
+      _count: true,
+    });
+
+    const result: Record<string, number> = {
+      PENDING: 0,
+      APPROVED: 0,
+      REJECTED: 0,
+    };
+
+    for (const c of counts) {
+      result[c.status] = c._count;
+    }
+
+    return result;
+  }
+}
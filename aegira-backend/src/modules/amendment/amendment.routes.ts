@@ -0,0 +1,59 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { authMiddleware } from '../../middleware/auth';
+import { tenantMiddleware } from '../../middleware/tenant';
+import { roleMiddleware } from '../../middleware/role';
+import * as controller from './amendment.controller';
+import {
+  createAmendmentSchema,
+  getAmendmentsQuerySchema,
+  rejectAmendmentSchema,
+} from './amendment.validator';
+
+const router = new Hono();
+
+router.use('*', authMiddleware);
+router.use('*', tenantMiddleware);
+
+// Only roles that submit check-ins can request corrections
+const checkInSubmitters = roleMiddleware(['WORKER', 'TEAM_LEAD']);
+const reviewers = roleMiddleware(['TEAM_LEAD', 'SUPERVISOR', 'ADMIN']);
+
+// IMPORTANT: Specific routes BEFORE parameterized routes
+
+// GET /api/v1/amendments/my — own correction requests
+router.get(
+  '/my',
+  checkInSubmitters,
+  zValidator('query', getAmendmentsQuerySchema),
+  controller.getMyAmendments
+);
+
+// POST /api/v1/amendments — request a check-in correction
+router.post(
+  '/',
+  checkInSubmitters,
+  zValidator('json', createAmendmentSchema),
+  controller.createAmendment
+);
+
+// GET /api/v1/amendments — review queue (team-scoped)
+router.get(
+  '/',
+  reviewers,
+  zValidator('query', getAmendmentsQuerySchema),
+  controller.getAmendments
+);
+
+// PATCH /api/v1/amendments/:id/approve — approve and recompute readiness
+router.patch('/:id/approve', reviewers, controller.approveAmendment);
+
+// PATCH /api/v1/amendments/:id/reject — reject with reason
+router.patch(
+  '/:id/reject',
+  reviewers,
+  zValidator('json', rejectAmendmentSchema),
+  controller.rejectAmendment
+);
+
+export { router as amendmentRoutes };
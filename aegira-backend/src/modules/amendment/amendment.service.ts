@@ -0,0 +1,429 @@
+import type { PrismaClient, Prisma, AmendmentStatus, CheckIn } from '@prisma/client';
+import type { AmendmentWithRelations } from './amendment.repository';
+import type { CreateAmendmentInput, RejectAmendmentInput, AmendableField } from './amendment.validator';
+import { AMENDABLE_FIELDS } from './amendment.validator';
+import type { CheckInService } from '../check-in/check-in.service';
+import type { CheckInInput } from '../../types/domain.types';
+import { DateTime } from 'luxon';
+import { AppError } from '../../shared/errors';
+import { logAudit } from '../../shared/audit';
+import { sendNotification } from '../notification/notification.service';
+import { buildEventData } from '../event/event.service';
+import { getScoringModelVersion } from '../../shared/scoring.utils';
+import { logger } from '../../config/logger';
+
+const VALID_TRANSITIONS: Record<AmendmentStatus, AmendmentStatus[]> = {
+  PENDING: ['APPROVED', 'REJECTED'],
+  APPROVED: [],
+  REJECTED: [],
+};
+
+/** Same relation shape as AmendmentRepository.selectWithRelations */
+const AMENDMENT_INCLUDE = {
+  person: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+      team: { select: { id: true, name: true } },
+    },
+  },
+  check_in: {
+    select: { id: true, check_in_date: true, readiness_score: true, readiness_level: true },
+  },
+} as const;
+
+interface Reviewer {
+  id: string;
+  role: string;
+}
+
+export class AmendmentService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly checkInService: CheckInService,
+    private readonly timezone: string = 'Asia/Manila'
+  ) {}
+
+  /**
+   * File a correction request against one of the worker's own check-ins.
+   * The current value is snapshotted into old_value so reviewers see what changes.
+   */
+  async createAmendment(
+    data: CreateAmendmentInput,
+    companyId: string,
+    personId: string
+  ): Promise<AmendmentWithRelations> {
+    const amendment = await this.prisma.$transaction(async (tx) => {
+      const checkIn = await tx.checkIn.findFirst({
+        where: { id: data.checkInId, company_id: companyId },
+      });
+
+      if (!checkIn) {
+        throw new AppError('NOT_FOUND', 'Check-in not found', 404);
+      }
+
+      if (checkIn.person_id !== personId) {
+        throw new AppError('FORBIDDEN', 'You can only request corrections to your own check-ins', 403);
+      }
+
+      const oldValue = this.readFieldValue(checkIn, data.fieldName);
+      if (oldValue === data.newValue) {
+        throw new AppError('VALIDATION_ERROR', 'New value must be different from the current value', 400);
+      }
+
+      // Raising pain above 0 needs a location — the original check-in may not have one
+      if (data.fieldName === 'pain_level' && data.newValue > 0 && !checkIn.pain_location) {
+        throw new AppError(
+          'VALIDATION_ERROR',
+          'Cannot add pain to a check-in that has no pain location recorded',
+          400
+        );
+      }
+
+      // One open request per field — avoids conflicting approvals on the same value
+      const pending = await tx.amendment.findFirst({
+        where: {
+          company_id: companyId,
+          check_in_id: data.checkInId,
+          field_name: data.fieldName,
+          status: 'PENDING',
+        },
+        select: { id: true },
+      });
+
+      if (pending) {
+        throw new AppError(
+          'CONFLICT',
+          'A correction for this field is already pending review',
+          409
+        );
+      }
+
+      return tx.amendment.create({
+        data: {
+          company_id: companyId,
+          person_id: personId,
+          check_in_id: data.checkInId,
+          field_name: data.fieldName,
+          old_value: String(oldValue),
+          new_value: String(data.newValue),
+          reason: data.reason,
+        },
+        include: AMENDMENT_INCLUDE,
+      });
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId,
+      action: 'AMENDMENT_SUBMITTED',
+      entityType: 'amendment',
+      entityId: amendment.id,
+      details: {
+        checkInId: data.checkInId,
+        fieldName: data.fieldName,
+        oldValue: amendment.old_value,
+        newValue: amendment.new_value,
+      },
+    });
+
+    // Fire-and-forget: notify the worker's team lead
+    this.notifyAmendmentSubmitted(companyId, amendment as AmendmentWithRelations);
+
+    return amendment as AmendmentWithRelations;
+  }
+
+  /**
+   * Approve an amendment: apply the new value to the check-in, recompute readiness
+   * with the same scoring used at submission, and record CHECK_IN_UPDATED.
+   */
+  async approveAmendment(
+    amendmentId: string,
+    companyId: string,
+    reviewer: Reviewer
+  ): Promise<AmendmentWithRelations> {
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Fetch and validate INSIDE transaction to prevent TOCTOU race
+      const existing = await this.findForReview(tx, amendmentId, companyId, reviewer);
+      this.validateTransition(existing.status, 'APPROVED');
+
+      const checkIn = await tx.checkIn.findFirst({
+        where: { id: existing.check_in_id, company_id: companyId },
+      });
+
+      if (!checkIn) {
+        throw new AppError('NOT_FOUND', 'Check-in not found', 404);
+      }
+
+      const fieldName = existing.field_name as AmendableField;
+      const newValue = Number(existing.new_value);
+      const input = this.toCheckInInput(checkIn, fieldName, newValue);
+      // Rescore with the model version the check-in was originally scored with,
+      // so a correction changes only the input, not the scoring rules
+      const scoringModel = await getScoringModelVersion(tx, companyId, checkIn.scoring_model_version);
+      const readiness = this.checkInService.calculateReadiness(input, scoringModel.config);
+
+      await tx.checkIn.update({
+        where: { id: checkIn.id },
+        data: {
+          [fieldName]: newValue,
+          readiness_score: readiness.overall,
+          readiness_level: readiness.level,
+          sleep_score: readiness.factors.sleep,
+          stress_score: readiness.factors.stress,
+          physical_score: readiness.factors.physical,
+          pain_score: readiness.factors.pain ?? null,
+        },
+      });
+
+      await tx.event.create({
+        data: buildEventData({
+          companyId,
+          personId: reviewer.id,
+          eventType: 'CHECK_IN_UPDATED',
+          entityType: 'check_in',
+          entityId: checkIn.id,
+          payload: {
+            amendmentId,
+            workerId: existing.person_id,
+            fieldName,
+            oldValue: existing.old_value,
+            newValue: existing.new_value,
+            previousReadiness: {
+              overall: checkIn.readiness_score,
+              level: checkIn.readiness_level,
+            },
+            readiness: {
+              overall: readiness.overall,
+              level: readiness.level,
+              factors: readiness.factors,
+            },
+          },
+          timezone: this.timezone,
+        }),
+      });
+
+      const amendment = await tx.amendment.update({
+        where: { id: amendmentId },
+        data: {
+          status: 'APPROVED',
+          reviewed_by: reviewer.id,
+          reviewed_at: new Date(),
+        },
+        include: AMENDMENT_INCLUDE,
+      });
+
+      return {
+        amendment,
+        previousScore: checkIn.readiness_score,
+        newScore: readiness.overall,
+        newLevel: readiness.level,
+      };
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId: reviewer.id,
+      action: 'AMENDMENT_APPROVED',
+      entityType: 'amendment',
+      entityId: amendmentId,
+      details: {
+        checkInId: result.amendment.check_in_id,
+        fieldName: result.amendment.field_name,
+        oldValue: result.amendment.old_value,
+        newValue: result.amendment.new_value,
+        previousReadinessScore: result.previousScore,
+        readinessScore: result.newScore,
+      },
+    });
+
+    // Fire-and-forget: notification to worker
+    const amendment = result.amendment as AmendmentWithRelations;
+    sendNotification(this.prisma, companyId, {
+      personId: amendment.person_id,
+      type: 'AMENDMENT_APPROVED',
+      title: 'Check-In Correction Approved',
+      message: `Your correction to ${this.formatFieldLabel(amendment.field_name)} on ${this.formatCheckInDate(amendment.check_in.check_in_date)} was approved. Readiness is now ${result.newScore} (${result.newLevel}).`,
+    });
+
+    return amendment;
+  }
+
+  /**
+   * Reject an amendment. The check-in is left untouched.
+   */
+  async rejectAmendment(
+    amendmentId: string,
+    companyId: string,
+    reviewer: Reviewer,
+    data: RejectAmendmentInput
+  ): Promise<AmendmentWithRelations> {
+    const amendment = await this.prisma.$transaction(async (tx) => {
+      // Fetch and validate INSIDE transaction to prevent TOCTOU race
+      const existing = await this.findForReview(tx, amendmentId, companyId, reviewer);
+      this.validateTransition(existing.status, 'REJECTED');
+
+      return tx.amendment.update({
+        where: { id: amendmentId },
+        data: {
+          status: 'REJECTED',
+          reviewed_by: reviewer.id,
+          reviewed_at: new Date(),
+          rejection_reason: data.rejectionReason,
+        },
+        include: AMENDMENT_INCLUDE,
+      });
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId: reviewer.id,
+      action: 'AMENDMENT_REJECTED',
+      entityType: 'amendment',
+      entityId: amendmentId,
+      details: {
+        checkInId: amendment.check_in_id,
+        fieldName: amendment.field_name,
+        rejectionReason: data.rejectionReason,
+      },
+    });
+
+    // Fire-and-forget: notification to worker
+    sendNotification(this.prisma, companyId, {
+      personId: amendment.person_id,
+      type: 'AMENDMENT_REJECTED',
+      title: 'Check-In Correction Not Approved',
+      message: `Your correction to ${this.formatFieldLabel(amendment.field_name)} on ${this.formatCheckInDate(amendment.check_in.check_in_date)} was not approved. Reason: ${data.rejectionReason}`,
+    });
+
+    return amendment as AmendmentWithRelations;
+  }
+
+  /**
+   * Load an amendment for review and verify the reviewer may act on it:
+   * ADMIN can review any; TEAM_LEAD/SUPERVISOR only for teams they lead/supervise.
+   */
+  private async findForReview(
+    tx: Prisma.TransactionClient,
+    amendmentId: string,
+    companyId: string,
+    reviewer: Reviewer
+  ): Promise<{ id: string; status: AmendmentStatus; person_id: string; check_in_id: string; field_name: string; old_value: string; new_value: string }> {
+    const existing = await tx.amendment.findFirst({
+      where: { id: amendmentId, company_id: companyId },
+      select: {
+        id: true,
+        status: true,
+        person_id: true,
+        check_in_id: true,
+        field_name: true,
+        old_value: true,
+        new_value: true,
+        person: {
+          select: { team: { select: { leader_id: true, supervisor_id: true } } },
+        },
+      },
+    });
+
+    if (!existing) {
+      throw new AppError('NOT_FOUND', 'Amendment not found', 404);
+    }
+
+    // Prevent self-review — reviewer cannot be the requester
+    if (existing.person_id === reviewer.id) {
+      throw new AppError('CONFLICT', 'Cannot review your own correction request', 409);
+    }
+
+    if (reviewer.role !== 'ADMIN') {
+      const team = existing.person.team;
+      const inScope =
+        (reviewer.role === 'TEAM_LEAD' && team?.leader_id === reviewer.id) ||
+        (reviewer.role === 'SUPERVISOR' && team?.supervisor_id === reviewer.id);
+      if (!inScope) {
+        throw new AppError('FORBIDDEN', 'You do not have permission to review this correction', 403);
+      }
+    }
+
+    return existing;
+  }
+
+  private readFieldValue(checkIn: CheckIn, field: AmendableField): number {
+    // pain_level null means "no pain reported" — equivalent to 0
+    return checkIn[field] ?? 0;
+  }
+
+  private toCheckInInput(checkIn: CheckIn, field: AmendableField, value: number): CheckInInput {
+    const input: CheckInInput = {
+      hoursSlept: checkIn.hours_slept,
+      sleepQuality: checkIn.sleep_quality,
+      stressLevel: checkIn.stress_level,
+      physicalCondition: checkIn.physical_condition,
+      painLevel: checkIn.pain_level ?? undefined,
+      painLocation: checkIn.pain_location ?? undefined,
+    };
+
+    switch (field) {
+      case 'hours_slept': input.hoursSlept = value; break;
+      case 'sleep_quality': input.sleepQuality = value; break;
+      case 'stress_level': input.stressLevel = value; break;
+      case 'physical_condition': input.physicalCondition = value; break;
+      case 'pain_level': input.painLevel = value; break;
+    }
+
+    return input;
+  }
+
+  private validateTransition(currentStatus: AmendmentStatus, newStatus: AmendmentStatus): void {
+    const allowed = VALID_TRANSITIONS[currentStatus] || [];
+    if (!allowed.includes(newStatus)) {
+      throw new AppError(
+        'INVALID_TRANSITION',
+        `Cannot transition from ${currentStatus} to ${newStatus}`,
+        400
+      );
+    }
+  }
+
+  private formatFieldLabel(field: string): string {
+    return AMENDABLE_FIELDS[field as AmendableField]?.label ?? field;
+  }
+
+  private formatCheckInDate(date: Date): string {
+    // check_in_date is a @db.Date — format in UTC to avoid shifting the calendar day
+    return DateTime.fromJSDate(date, { zone: 'utc' }).toFormat('MMM d, yyyy');
+  }
+
+  private async notifyAmendmentSubmitted(
+    companyId: string,
+    amendment: AmendmentWithRelations
+  ): Promise<void> {
+    const teamId = amendment.person.team?.id;
+    if (!teamId) return;
+
+    try {
+      const team = await this.prisma.team.findFirst({
+        where: { id: teamId, company_id: companyId },
+        select: { leader_id: true },
+      });
+
+      if (!team || team.leader_id === amendment.person_id) return;
+
+      const workerName = `${amendment.person.first_name} ${amendment.person.last_name}`;
+      sendNotification(this.prisma, companyId, {
+        personId: team.leader_id,
+        type: 'AMENDMENT_SUBMITTED',
+        title: 'Check-In Correction Requested',
+        message: `${workerName} requested a correction to ${this.formatFieldLabel(amendment.field_name)} on ${this.formatCheckInDate(amendment.check_in.check_in_date)}: ${amendment.old_value} → ${amendment.new_value}.`,
+      });
+    } catch (error) {
+      logger.error(
+        { error, companyId, amendmentId: amendment.id },
+        'Failed to send amendment submission notification to team lead'
+      );
+    }
+  }
+}
@@ -0,0 +1,64 @@
+// Amendment Validation Schemas
+import { z } from 'zod';
+
+/**
+ * Check-in fields a worker may request a correction for, with the same
+ * bounds enforced by submitCheckInSchema. Free-text fields are not amendable —
+ * only values that feed the readiness score.
+ */
+export const AMENDABLE_FIELDS = {
+  hours_slept: { min: 0, max: 15, integer: false, label: 'Hours Slept' },
+  sleep_quality: { min: 1, max: 10, integer: true, label: 'Sleep Quality' },
+  stress_level: { min: 1, max: 10, integer: true, label: 'Stress Level' },
+  physical_condition: { min: 1, max: 10, integer: true, label: 'Physical Condition' },
+  pain_level: { min: 0, max: 10, integer: true, label: 'Pain Level' },
+} as const;
+
+export type AmendableField = keyof typeof AMENDABLE_FIELDS;
+
+const amendableFieldEnum = z.enum([
+  'hours_slept',
+  'sleep_quality',
+  'stress_level',
+  'physical_condition',
+  'pain_level',
+]);
+
+export const createAmendmentSchema = z
+  .object({
+    checkInId: z.string().uuid(),
+    fieldName: amendableFieldEnum,
+    newValue: z.number(),
+    reason: z.string().min(1, 'Reason is required').max(500).trim(),
+  })
+  .superRefine((data, ctx) => {
+    const rule = AMENDABLE_FIELDS[data.fieldName];
+    if (data.newValue < rule.min || data.newValue > rule.max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${rule.label} must be between ${rule.min} and ${rule.max}`,
+        path: ['newValue'],
+      });
+    }
+    if (rule.integer && !Number.isInteger(data.newValue)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${rule.label} must be a whole number`,
+        path: ['newValue'],
+      });
+    }
+  });
+
+export type CreateAmendmentInput = z.infer<typeof createAmendmentSchema>;
+
+export const getAmendmentsQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+});
+
+export type GetAmendmentsQuery = z.infer<typeof getAmendmentsQuerySchema>;
+
+export const rejectAmendmentSchema = z.object({
+  rejectionReason: z.string().min(1, 'Rejection reason is required').max(500).trim(),
+});
+
+export type RejectAmendmentInput = z.infer<typeof rejectAmendmentSchema>;
@@ -0,0 +1,146 @@
+import type { Context } from 'hono';
+import { AttachmentService, type AttachmentActor } from './attachment.service';
+import type { AttachmentWithUploader } from './attachment.repository';
+import { prisma } from '../../config/database';
+import { AppError } from '../../shared/errors';
+
+function getService(companyId: string): AttachmentService {
+  return new AttachmentService(prisma, companyId);
+}
+
+function getActor(c: Context): AttachmentActor {
+  return {
+    userId: c.get('userId') as string,
+    role: c.get('userRole') as string,
+  };
+}
+
+interface AttachmentResponse {
+  id: string;
+  incidentId: string;
+  caseId: string | null;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedBy: string;
+  uploaderName: string;
+  createdAt: string;
+}
+
+/** storage_key is deliberately omitted — files are only served via the download endpoint */
+function mapAttachmentToResponse(attachment: AttachmentWithUploader): AttachmentResponse {
+  return {
+    id: attachment.id,
+    incidentId: attachment.incident_id,
+    caseId: attachment.case_id,
+    fileName: attachment.file_name,
+    contentType: attachment.content_type,
+    sizeBytes: attachment.size_bytes,
+    uploadedBy: attachment.uploaded_by,
+    uploaderName: `${attachment.uploader.first_name} ${attachment.uploader.last_name}`,
+    createdAt: attachment.created_at.toISOString(),
+  };
+}
+
+async function getUploadedFile(c: Context): Promise<File> {
+  const body = await c.req.parseBody();
+  const file = body['file'];
+
+  if (!file || !(file instanceof File)) {
+    throw new AppError('VALIDATION_ERROR', 'File is required', 400);
+  }
+
+  return file;
+}
+
+/**
+ * GET /api/v1/incidents/:id/attachments
+ * List attachments on an incident (including its case). Reporter, WHS or ADMIN.
+ */
+export async function getIncidentAttachments(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const incidentId = c.req.param('id');
+
+  const attachments = await getService(companyId).listForIncident(incidentId, getActor(c));
+
+  return c.json({ success: true, data: attachments.map(mapAttachmentToResponse) });
+}
+
+/**
+ * POST /api/v1/incidents/:id/attachments
+ * Upload an attachment (multipart field "file"). Reporter, WHS or ADMIN.
+ */
+export async function uploadIncidentAttachment(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const incidentId = c.req.param('id');
+  const file = await getUploadedFile(c);
+
+  const attachment = await getService(companyId).uploadToIncident(incidentId, file, getActor(c));
+
+  return c.json({ success: true, data: mapAttachmentToResponse(attachment) }, 201);
+}
+
+/**
+ * GET /api/v1/incidents/:id/attachments/:attachmentId/download
+ * Stream the file after an access check.
+ */
+export async function downloadAttachment(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const incidentId = c.req.param('id');
+  const attachmentId = c.req.param('attachmentId');
+
+  const { attachment, body } = await getService(companyId).getContent(
+    incidentId,
+    attachmentId,
+    getActor(c)
+  );
+
+  return c.body(body, 200, {
+    'Content-Type': attachment.content_type,
+    'Content-Length': String(body.byteLength),
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+    'Cache-Control': 'private, no-store',
+    'X-Content-Type-Options': 'nosniff',
+  });
+}
+
+/**
+ * DELETE /api/v1/incidents/:id/attachments/:attachmentId
+ * WHS/ADMIN: any attachment. Reporter: own uploads while the incident is pending.
+ */
+export async function deleteAttachment(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const incidentId = c.req.param('id');
+  const attachmentId = c.req.param('attachmentId');
+
+  await getService(companyId).delete(incidentId, attachmentId, getActor(c));
+
+  return c.json({ success: true, data: { message: 'Attachment deleted' } });
+}
+
+/**
+ * GET /api/v1/cases/:id/attachments
+ * List attachments uploaded against a case. Incident reporter, WHS or ADMIN.
+ */
+export async function getCaseAttachments(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const caseId = c.req.param('id');
+
+  const attachments = await getService(companyId).listForCase(caseId, getActor(c));
+
+  return c.json({ success: true, data: attachments.map(mapAttachmentToResponse) });
+}
+
+/**
+ * POST /api/v1/cases/:id/attachments
+ * Upload a case document (multipart field "file"). WHS or ADMIN.
+ */
+export async function uploadCaseAttachment(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const caseId = c.req.param('id');
+  const file = await getUploadedFile(c);
+
+  const attachment = await getService(companyId).uploadToCase(caseId, file, getActor(c));
+
+  return c.json({ success: true, data: mapAttachmentToResponse(attachment) }, 201);
+}
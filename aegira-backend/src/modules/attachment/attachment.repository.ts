@@ -0,0 +1,76 @@
+import type { PrismaClient, Attachment } from '@prisma/client';
+import { BaseRepository } from '../../shared/base.repository';
+
+export type AttachmentWithUploader = Attachment & {
+  uploader: { id: string; first_name: string; last_name: string };
+};
+
+export interface CreateAttachmentData {
+  incidentId: string;
+  caseId?: string | null;
+  uploadedBy: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  storageKey: string;
+}
+
+export class AttachmentRepository extends BaseRepository {
+  constructor(prisma: PrismaClient, companyId: string) {
+    super(prisma, companyId);
+  }
+
+  private readonly includeUploader = {
+    uploader: { select: { id: true, first_name: true, last_name: true } },
+  } as const;
+
+  /** All attachments on an incident, including those uploaded against its case */
+  async findByIncident(incidentId: string): Promise<AttachmentWithUploader[]> {
+    return this.prisma.attachment.findMany({
+      where: this.where({ incident_id: incidentId }),
+      include: this.includeUploader,
+      orderBy: { created_at: 'asc' },
+    });
+  }
+
+  async findByCase(caseId: string): Promise<AttachmentWithUploader[]> {
+    return this.prisma.attachment.findMany({
+      where: this.where({ case_id: caseId }),
+      include: this.includeUploader,
+      orderBy: { created_at: 'asc' },
+    });
+  }
+
+  async findById(id: string, incidentId: string): Promise<Attachment | null> {
+    return this.prisma.attachment.findFirst({
+      where: this.where({ id, incident_id: incidentId }),
+    });
+  }
+
+  async countByIncident(incidentId: string): Promise<number> {
+    return this.prisma.attachment.count({
+      where: this.where({ incident_id: incidentId }),
+    });
+  }
+
+  async create(data: CreateAttachmentData): Promise<AttachmentWithUploader> {
+    return this.prisma.attachment.create({
+      data: this.withCompany({
+        incident_id: data.incidentId,
+        case_id: data.caseId ?? null,
+        uploaded_by: data.uploadedBy,
+        file_name: data.fileName,
+        content_type: data.contentType,
+        size_bytes: data.sizeBytes,
+        storage_key: data.storageKey,
+      }),
+      include: this.includeUploader,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.attachment.deleteMany({
+      where: this.where({ id }),
+    });
+  }
+}
@@ -0,0 +1,257 @@
+import type { PrismaClient, Attachment } from '@prisma/client';
+import { AttachmentRepository, type AttachmentWithUploader } from './attachment.repository';
+import { AppError } from '../../shared/errors';
+import { logAudit } from '../../shared/audit';
+import {
+  getAttachmentStorage,
+  validateAttachmentFile,
+  buildAttachmentKey,
+} from '../../shared/storage';
+import { logger } from '../../config/logger';
+
+/** Upper bound across an incident and its case — keeps evidence reviewable */
+export const MAX_ATTACHMENTS_PER_INCIDENT = 20;
+
+/** Roles that can see and manage every incident's evidence */
+const STAFF_ROLES = ['WHS', 'ADMIN'];
+
+export interface AttachmentActor {
+  userId: string;
+  role: string;
+}
+
+interface IncidentAccess {
+  id: string;
+  reporter_id: string;
+  status: string;
+}
+
+function isStaff(actor: AttachmentActor): boolean {
+  return STAFF_ROLES.includes(actor.role.toUpperCase());
+}
+
+/** Keep only the base name, strip control characters, cap length */
+function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  return cleaned.slice(0, 255) || 'attachment';
+}
+
+/**
+ * Evidence attachments on incidents and cases.
+ * Access: the incident reporter, WHS and ADMIN. Case attachments follow the
+ * linked incident's access rules. Files live in the private attachments bucket
+ * and are only ever returned through getContent() after an access check.
+ */
+export class AttachmentService {
+  private readonly repository: AttachmentRepository;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly companyId: string
+  ) {
+    this.repository = new AttachmentRepository(prisma, companyId);
+  }
+
+  async listForIncident(incidentId: string, actor: AttachmentActor): Promise<AttachmentWithUploader[]> {
+    await this.getIncidentWithAccess(incidentId, actor);
+    return this.repository.findByIncident(incidentId);
+  }
+
+  async listForCase(caseId: string, actor: AttachmentActor): Promise<AttachmentWithUploader[]> {
+    await this.getCaseWithAccess(caseId, actor);
+    return this.repository.findByCase(caseId);
+  }
+
+  /** Reporter can add evidence until the incident is rejected; staff any time */
+  async uploadToIncident(
+    incidentId: string,
+    file: File,
+    actor: AttachmentActor
+  ): Promise<AttachmentWithUploader> {
+    const incident = await this.getIncidentWithAccess(incidentId, actor);
+
+    if (!isStaff(actor) && incident.status === 'REJECTED') {
+      throw new AppError('INCIDENT_CLOSED', 'Cannot add attachments to a rejected incident', 400);
+    }
+
+    return this.store(incident.id, null, file, actor, 'incident', incident.id);
+  }
+
+  /** Staff only (enforced by route) — medical certificates, investigation documents */
+  async uploadToCase(
+    caseId: string,
+    file: File,
+    actor: AttachmentActor
+  ): Promise<AttachmentWithUploader> {
+    const caseRecord = await this.getCaseWithAccess(caseId, actor);
+
+    if (caseRecord.status === 'CLOSED') {
+      throw new AppError('CASE_CLOSED', 'Cannot add attachments to a closed case', 400);
+    }
+
+    return this.store(caseRecord.incident_id, caseRecord.id, file, actor, 'case', caseRecord.id);
+  }
+
+  async getContent(
+    incidentId: string,
+    attachmentId: string,
+    actor: AttachmentActor
+  ): Promise<{ attachment: Attachment; body: Uint8Array<ArrayBuffer> }> {
+    await this.getIncidentWithAccess(incidentId, actor);
+
+    const attachment = await this.repository.findById(attachmentId, incidentId);
+    if (!attachment) {
+      throw new AppError('NOT_FOUND', 'Attachment not found', 404);
+    }
+
+    const body = await getAttachmentStorage().get(attachment.storage_key);
+    return { attachment, body };
+  }
+
+  /** Staff can delete any attachment; the reporter only their own, while the incident is pending */
+  async delete(incidentId: string, attachmentId: string, actor: AttachmentActor): Promise<void> {
+    const incident = await this.getIncidentWithAccess(incidentId, actor);
+
+    const attachment = await this.repository.findById(attachmentId, incidentId);
+    if (!attachment) {
+      throw new AppError('NOT_FOUND', 'Attachment not found', 404);
+    }
+
+    if (!isStaff(actor)) {
+      if (attachment.uploaded_by !== actor.userId) {
+        throw new AppError('FORBIDDEN', 'You can only delete attachments you uploaded', 403);
+      }
+      if (incident.status !== 'PENDING') {
+        throw new AppError(
+          'INCIDENT_REVIEWED',
+          'Attachments cannot be removed after the incident has been reviewed',
+          400
+        );
+      }
+    }
+
+    await this.repository.delete(attachment.id);
+
+    // Row is the source of truth — an orphaned object is harmless, a dangling row is not
+    try {
+      await getAttachmentStorage().delete(attachment.storage_key);
+    } catch (error) {
+      logger.error({ error, key: attachment.storage_key }, 'Failed to delete attachment from storage');
+    }
+
+    logAudit({
+      companyId: this.companyId,
+      personId: actor.userId,
+      action: 'ATTACHMENT_DELETED',
+      entityType: attachment.case_id ? 'case' : 'incident',
+      entityId: attachment.case_id ?? attachment.incident_id,
+      details: {
+        attachmentId: attachment.id,
+        fileName: attachment.file_name,
+        contentType: attachment.content_type,
+        sizeBytes: attachment.size_bytes,
+      },
+    });
+  }
+
+  private async store(
+    incidentId: string,
+    caseId: string | null,
+    file: File,
+    actor: AttachmentActor,
+    entityType: 'incident' | 'case',
+    entityId: string
+  ): Promise<AttachmentWithUploader> {
+    validateAttachmentFile(file);
+
+    const existingCount = await this.repository.countByIncident(incidentId);
+    if (existingCount >= MAX_ATTACHMENTS_PER_INCIDENT) {
+      throw new AppError(
+        'ATTACHMENT_LIMIT_REACHED',
+        `An incident can have at most ${MAX_ATTACHMENTS_PER_INCIDENT} attachments`,
+        400
+      );
+    }
+
+    const storageKey = buildAttachmentKey(this.companyId, incidentId, file.type);
+    await getAttachmentStorage().put(storageKey, await file.arrayBuffer(), file.type);
+
+    let attachment: AttachmentWithUploader;
+    try {
+      attachment = await this.repository.create({
+        incidentId,
+        caseId,
+        uploadedBy: actor.userId,
+        fileName: sanitizeFileName(file.name),
+        contentType: file.type,
+        sizeBytes: file.size,
+        storageKey,
+      });
+    } catch (error) {
+      // Don't leave an unreferenced object behind
+      getAttachmentStorage().delete(storageKey).catch((deleteError: unknown) => {
+        logger.error({ error: deleteError, key: storageKey }, 'Failed to clean up attachment after DB error');
+      });
+      throw error;
+    }
+
+    logAudit({
+      companyId: this.companyId,
+      personId: actor.userId,
+      action: 'ATTACHMENT_UPLOADED',
+      entityType,
+      entityId,
+      details: {
+        attachmentId: attachment.id,
+        fileName: attachment.file_name,
+        contentType: attachment.content_type,
+        sizeBytes: attachment.size_bytes,
+      },
+    });
+
+    return attachment;
+  }
+
+  private async getIncidentWithAccess(incidentId: string, actor: AttachmentActor): Promise<IncidentAccess> {
+    const incident = await this.prisma.incident.findFirst({
+      where: { id: incidentId, company_id: this.companyId },
+      select: { id: true, reporter_id: true, status: true },
+    });
+
+    if (!incident) {
+      throw new AppError('NOT_FOUND', 'Incident not found', 404);
+    }
+
+    if (!isStaff(actor) && incident.reporter_id !== actor.userId) {
+      throw new AppError('FORBIDDEN', 'You do not have permission to access these attachments', 403);
+    }
+
+    return incident;
+  }
+
+  private async getCaseWithAccess(
+    caseId: string,
+    actor: AttachmentActor
+  ): Promise<{ id: string; incident_id: string; status: string }> {
+    const caseRecord = await this.prisma.case.findFirst({
+      where: { id: caseId, company_id: this.companyId },
+      select: {
+        id: true,
+        incident_id: true,
+        status: true,
+        incident: { select: { reporter_id: true } },
+      },
+    });
+
+    if (!caseRecord) {
+      throw new AppError('NOT_FOUND', 'Case not found', 404);
+    }
+
+    if (!isStaff(actor) && caseRecord.incident.reporter_id !== actor.userId) {
+      throw new AppError('FORBIDDEN', 'You do not have permission to access these attachments', 403);
+    }
+
+    return caseRecord;
+  }
+}
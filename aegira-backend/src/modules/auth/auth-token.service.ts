@@ -0,0 +1,154 @@
+// Auth Token Service - Single-use emailed links (password reset, account invitation)
+import { createHash, randomBytes } from 'crypto';
+import type { AuthTokenType, PrismaClient } from '@prisma/client';
+import { AppError } from '../../shared/errors';
+
+/** How long an emailed link stays valid */
+export const AUTH_TOKEN_TTL_MS: Record<AuthTokenType, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000, // 1 hour
+  INVITATION: 7 * 24 * 60 * 60 * 1000, // 7 days
+};
+
+export interface AuthTokenPerson {
+  id: string;
+  company_id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  company: { name: string };
+}
+
+const personSelect = {
+  id: true,
+  company_id: true,
+  email: true,
+  first_name: true,
+  last_name: true,
+  company: { select: { name: true } },
+} as const;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Same message for unknown, used and expired tokens — nothing to probe
+function invalidToken(): AppError {
+  return new AppError('INVALID_TOKEN', 'This link is invalid or has expired', 400);
+}
+
+interface TokenState {
+  type: AuthTokenType;
+  expires_at: Date;
+  used_at: Date | null;
+  person: { is_active: boolean; company: { is_active: boolean } };
+}
+
+function isRedeemable(row: TokenState, type: AuthTokenType, now: Date): boolean {
+  return (
+    row.type === type &&
+    row.used_at === null &&
+    row.expires_at > now &&
+    row.person.is_active &&
+    row.person.company.is_active
+  );
+}
+
+export class AuthTokenService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Issue a token for a person, superseding any outstanding token of the same type
+   * (only the most recent email works). Returns the raw token — only its hash is stored.
+   */
+  async issue(
+    companyId: string,
+    personId: string,
+    type: AuthTokenType
+  ): Promise<{ token: string; expiresAt: Date }> {
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + AUTH_TOKEN_TTL_MS[type]);
+
+    await this.prisma.$transaction([
+      this.prisma.authToken.updateMany({
+        where: { person_id: personId, type, used_at: null },
+        data: { used_at: now },
+      }),
+      this.prisma.authToken.create({
+        data: {
+          company_id: companyId,
+          person_id: personId,
+          type,
+          token_hash: hashToken(token),
+          expires_at: expiresAt,
+        },
+      }),
+    ]);
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Look up the person a token belongs to without redeeming it
+   * (lets the invitation page greet the user before they choose a password).
+   */
+  async inspect(token: string, type: AuthTokenType): Promise<AuthTokenPerson> {
+    const row = await this.prisma.authToken.findUnique({
+      where: { token_hash: hashToken(token) },
+      select: {
+        type: true,
+        expires_at: true,
+        used_at: true,
+        person: { select: { ...personSelect, is_active: true, company: { select: { name: true, is_active: true } } } },
+      },
+    });
+
+    if (!row || !isRedeemable(row, type, new Date())) throw invalidToken();
+
+    const { person } = row;
+    return {
+      id: person.id,
+      company_id: person.company_id,
+      email: person.email,
+      first_name: person.first_name,
+      last_name: person.last_name,
+      company: { name: person.company.name },
+    };
+  }
+
+  /**
+   * Redeem a token and set the person's password in one transaction.
+   * The conditional update on used_at makes redemption single-use even
+   * when the same link is submitted twice concurrently.
+   */
+  async redeem(token: string, type: AuthTokenType, passwordHash: string): Promise<AuthTokenPerson> {
+    const now = new Date();
+
+    return this.prisma.$transaction(async (tx) => {
+      const row = await tx.authToken.findUnique({
+        where: { token_hash: hashToken(token) },
+        select: {
+          id: true,
+          type: true,
+          expires_at: true,
+          used_at: true,
+          person: { select: { id: true, is_active: true, company: { select: { is_active: true } } } },
+        },
+      });
+
+      if (!row || !isRedeemable(row, type, now)) throw invalidToken();
+
+      const claimed = await tx.authToken.updateMany({
+        where: { id: row.id, used_at: null },
+        data: { used_at: now },
+      });
+      if (claimed.count !== 1) throw invalidToken();
+
+      return tx.person.update({
+        where: { id: row.person.id },
+        data: { password_hash: passwordHash },
+        select: personSelect,
+      });
+    });
+  }
+}
@@ -1,17 +1,64 @@
 // Auth Controller - Request Handling
 import type { Context } from 'hono';
-import { setCookie, deleteCookie } from 'hono/cookie';
+import { setCookie, deleteCookie, getCookie } from 'hono/cookie';
 import { prisma } from '../../config/database';
 import { AuthService } from './auth.service';
+import { SessionService } from './session.service';
+import { AuthTokenService } from './auth-token.service';
+import { renderPasswordResetEmail } from './auth.emails';
 import { AppError } from '../../shared/errors';
 import { hashPassword, verifyPassword } from '../../shared/password';
 import { logAudit } from '../../shared/audit';
-import type { LoginInput, SignupInput, ChangePasswordInput, VerifyPasswordInput } from './auth.validator';
+import { getMailTransport, isMailConfigured } from '../../shared/mail';
+import { getRateLimitStore } from '../../shared/rate-limit-store';
+import { logger } from '../../config/logger';
+import { env } from '../../config/env';
+import { MfaService, isMfaRequiredForRole } from './mfa.service';
+import { SsoService, isPasswordLoginAllowed } from './sso.service';
+import type { MfaMethod } from './mfa.service';
+import {
+  assertNotLockedOut,
+  recordFailedLogin,
+  clearFailedLogins,
+  assertMfaNotLockedOut,
+  recordFailedMfa,
+  clearFailedMfa,
+} from './login-lockout';
+import type {
+  LoginInput,
+  SignupInput,
+  ChangePasswordInput,
+  VerifyPasswordInput,
+  RefreshTokenInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  InvitationQuery,
+  AcceptInvitationInput,
+  MfaChallengeInput,
+  MfaChallengeSetupInput,
+  MfaChallengeActivateInput,
+  MfaActivateInput,
+  MfaRecoveryCodesInput,
+  MfaDisableInput,
+  SsoStartQuery,
+} from './auth.validator';
 
 const authService = new AuthService();
+const sessionService = new SessionService(prisma);
+const authTokenService = new AuthTokenService(prisma);
+const mfaService = new MfaService(prisma);
+const ssoService = new SsoService(prisma);
+
+// Reset emails per address per hour — on top of the per-IP limit, so one
+// inbox can't be flooded from many addresses
+const RESET_EMAILS_PER_HOUR = 3;
+const RESET_EMAIL_WINDOW_MS = 60 * 60 * 1000;
 
 // Cookie configuration constants
 const AUTH_COOKIE_NAME = 'auth_token';
+const REFRESH_COOKIE_NAME = 'refresh_token';
+// Refresh cookie is only sent to auth endpoints — never on regular API calls
+const REFRESH_COOKIE_PATH = '/api/v1/auth';
 
 // Helper: Set auth cookie (maxAge derived from JWT_EXPIRES_IN via AuthService)
 function setAuthCookie(c: Context, token: string): void {
@@ -24,6 +71,74 @@ function setAuthCookie(c: Context, token: string): void {
   });
 }
 
+// Helper: Set refresh cookie (maxAge derived from REFRESH_TOKEN_EXPIRES_IN)
+function setRefreshCookie(c: Context, token: string): void {
+  setCookie(c, REFRESH_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'Strict',
+    maxAge: sessionService.refreshMaxAge,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+// SSO state lives only between /sso/start and /sso/callback. Lax, not Strict:
+// the provider's redirect back is a cross-site navigation and must carry it.
+const SSO_STATE_COOKIE_NAME = 'sso_state';
+const SSO_COOKIE_PATH = '/api/v1/auth/sso';
+const SSO_STATE_COOKIE_MAX_AGE = 10 * 60;
+
+function setSsoStateCookie(c: Context, token: string): void {
+  setCookie(c, SSO_STATE_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'Lax',
+    maxAge: SSO_STATE_COOKIE_MAX_AGE,
+    path: SSO_COOKIE_PATH,
+  });
+}
+
+function clearAuthCookies(c: Context): void {
+  deleteCookie(c, AUTH_COOKIE_NAME, { path: '/' });
+  deleteCookie(c, REFRESH_COOKIE_NAME, { path: REFRESH_COOKIE_PATH });
+}
+
+// Helper: Client info recorded on the session (same IP headers as rateLimitMiddleware)
+function getClientInfo(c: Context): { userAgent: string | null; ipAddress: string | null } {
+  return {
+    userAgent: c.req.header('user-agent') ?? null,
+    ipAddress: c.req.header('cf-connecting-ip') || c.req.header('x-real-ip') || null,
+  };
+}
+
+/**
+ * Start a server-side session and issue an access token bound to it.
+ * Sets both cookies; returns tokens for Bearer (mobile) clients.
+ */
+async function startSession(
+  c: Context,
+  person: { id: string; email: string; company_id: string; role: string }
+): Promise<{ token: string; refreshToken: string }> {
+  const { session, refreshToken } = await sessionService.create(
+    person.company_id,
+    person.id,
+    getClientInfo(c)
+  );
+
+  const token = authService.generateToken({
+    sub: person.id,
+    sid: session.id,
+    email: person.email,
+    companyId: person.company_id,
+    role: person.role,
+  });
+
+  setAuthCookie(c, token);
+  setRefreshCookie(c, refreshToken);
+
+  return { token, refreshToken };
+}
+
 // Helper: Format user response
 interface UserWithCompany {
   id: string;
@@ -65,9 +180,53 @@ function formatUserResponse(person: UserWithCompany) {
 // Roles that should be audited on login (all privileged roles)
 const AUDITED_LOGIN_ROLES = ['ADMIN', 'WHS', 'SUPERVISOR', 'TEAM_LEAD'];
 
+// Fields needed to start a session and build the user response
+const LOGIN_PERSON_SELECT = {
+  id: true,
+  email: true,
+  first_name: true,
+  last_name: true,
+  gender: true,
+  date_of_birth: true,
+  profile_picture_url: true,
+  contact_number: true,
+  emergency_contact_name: true,
+  emergency_contact_phone: true,
+  emergency_contact_relationship: true,
+  role: true,
+  company_id: true,
+  company: { select: { name: true, timezone: true } },
+} as const;
+
+/** Start the session once every factor has passed and return the login payload */
+async function completeLogin(
+  c: Context,
+  person: UserWithCompany,
+  details?: { mfa: MfaMethod } | { sso: true }
+): Promise<{ token: string; refreshToken: string; user: ReturnType<typeof formatUserResponse> }> {
+  const { token, refreshToken } = await startSession(c, person);
+
+  // Audit login for privileged roles (non-blocking)
+  if (AUDITED_LOGIN_ROLES.includes(person.role.toUpperCase())) {
+    logAudit({
+      companyId: person.company_id,
+      personId: person.id,
+      action: 'LOGIN',
+      entityType: 'PERSON',
+      entityId: person.id,
+      ...(details && { details }),
+    });
+  }
+
+  return { token, refreshToken, user: formatUserResponse(person) };
+}
+
 export async function login(c: Context): Promise<Response> {
   const { email, password } = c.req.valid('json' as never) as LoginInput;
 
+  // Per-account lockout (in addition to the per-IP rate limit on this route)
+  await assertNotLockedOut(email);
+
   // Find active person by email in an active company
   // NOTE: Email is scoped @@unique([company_id, email]) so the same email can
   // theoretically exist in multiple companies. We filter by is_active to ensure
@@ -81,59 +240,270 @@ export async function login(c: Context): Promise<Response> {
     },
     orderBy: { created_at: 'desc' },
     select: {
-      id: true,
-      email: true,
-      first_name: true,
-      last_name: true,
-      gender: true,
-      date_of_birth: true,
-      profile_picture_url: true,
-      contact_number: true,
-      emergency_contact_name: true,
-      emergency_contact_phone: true,
-      emergency_contact_relationship: true,
-      role: true,
-      company_id: true,
+      ...LOGIN_PERSON_SELECT,
       password_hash: true,
-      company: { select: { name: true, timezone: true } },
+      mfa_enabled_at: true,
+      company: {
+        select: { name: true, timezone: true, mfa_required_roles: true, password_login_enabled: true },
+      },
     },
   });
 
   if (!person || !person.password_hash) {
+    await recordFailedLogin(email);
     throw new AppError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
   }
 
   // Verify password
   const isValid = await verifyPassword(password, person.password_hash);
   if (!isValid) {
+    const locked = await recordFailedLogin(email);
+    if (locked) {
+      logAudit({
+        companyId: person.company_id,
+        personId: person.id,
+        action: 'ACCOUNT_LOCKED',
+        entityType: 'PERSON',
+        entityId: person.id,
+        details: { reason: 'FAILED_LOGINS', ...getClientInfo(c) },
+      });
+    }
     throw new AppError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
   }
 
-  // Generate token and set cookie
-  const token = authService.generateToken({
-    sub: person.id,
-    email: person.email,
-    companyId: person.company_id,
-    role: person.role,
+  // SSO-only company — point the client at /auth/sso/start instead. Only after
+  // the password checks out, so the error can't be used to probe which emails
+  // belong to SSO companies or to dodge the lockout counter.
+  if (!isPasswordLoginAllowed(person.company, person.role)) {
+    throw new AppError('PASSWORD_LOGIN_DISABLED', 'Your company signs in with single sign-on', 403);
+  }
+
+  await clearFailedLogins(email);
+
+  // Second factor: anyone enrolled, plus roles the company requires it for.
+  // No session yet — the client trades the challenge token for one.
+  const mfaRequired = isMfaRequiredForRole(person.company.mfa_required_roles, person.role);
+  if (person.mfa_enabled_at || mfaRequired) {
+    return c.json({
+      success: true,
+      data: {
+        mfaRequired: true,
+        // Policy applies but nothing is enrolled yet — set it up before signing in
+        mfaEnrollmentRequired: !person.mfa_enabled_at,
+        mfaToken: authService.generateMfaChallenge({ sub: person.id, companyId: person.company_id }),
+      },
+    });
+  }
+
+  return c.json({ success: true, data: await completeLogin(c, person) });
+}
+
+/** Resolve the person behind an MFA challenge (still active, company still active) */
+async function findChallengePerson(mfaToken: string): Promise<UserWithCompany> {
+  const { sub, companyId } = authService.verifyMfaChallenge(mfaToken);
+
+  const person = await prisma.person.findFirst({
+    where: { id: sub, company_id: companyId, is_active: true, company: { is_active: true } },
+    select: LOGIN_PERSON_SELECT,
   });
+  if (!person) {
+    throw new AppError('MFA_CHALLENGE_EXPIRED', 'Your sign-in attempt has expired. Please log in again.', 401);
+  }
+  return person;
+}
 
-  setAuthCookie(c, token);
+/** Count a wrong code toward the per-person MFA lockout, auditing the lock */
+async function rejectMfaCode(person: { id: string; company_id: string }, status: 400 | 401): Promise<never> {
+  if (await recordFailedMfa(person.id)) {
+    logAudit({
+      companyId: person.company_id,
+      personId: person.id,
+      action: 'ACCOUNT_LOCKED',
+      entityType: 'PERSON',
+      entityId: person.id,
+      details: { reason: 'FAILED_MFA' },
+    });
+  }
+  throw new AppError('INVALID_MFA_CODE', 'Invalid authentication code', status);
+}
 
-  // Audit login for privileged roles (non-blocking)
-  if (AUDITED_LOGIN_ROLES.includes(person.role.toUpperCase())) {
+/**
+ * POST /api/v1/auth/login/mfa
+ * Second login step: exchange the challenge token and a TOTP or recovery code for a session.
+ */
+export async function verifyMfaLogin(c: Context): Promise<Response> {
+  const { mfaToken, code } = c.req.valid('json' as never) as MfaChallengeInput;
+  const person = await findChallengePerson(mfaToken);
+
+  await assertMfaNotLockedOut(person.id);
+
+  const method = await mfaService.verify(person.id, code);
+  if (!method) {
+    return rejectMfaCode(person, 401);
+  }
+  await clearFailedMfa(person.id);
+
+  if (method === 'RECOVERY_CODE') {
     logAudit({
       companyId: person.company_id,
       personId: person.id,
-      action: 'LOGIN',
+      action: 'USE_MFA_RECOVERY_CODE',
       entityType: 'PERSON',
       entityId: person.id,
     });
   }
 
-  return c.json({
-    success: true,
-    data: { token, user: formatUserResponse(person) },
+  return c.json({ success: true, data: await completeLogin(c, person, { mfa: method }) });
+}
+
+/**
+ * POST /api/v1/auth/login/mfa/setup
+ * Enrolment during login, for roles the company requires MFA for.
+ */
+export async function startMfaLoginSetup(c: Context): Promise<Response> {
+  const { mfaToken } = c.req.valid('json' as never) as MfaChallengeSetupInput;
+  const person = await findChallengePerson(mfaToken);
+
+  const enrollment = await mfaService.beginEnrollment(person.id);
+
+  return c.json({ success: true, data: enrollment });
+}
+
+/**
+ * POST /api/v1/auth/login/mfa/activate
+ * Confirm enrolment with a first code; signs the user in and returns their recovery codes.
+ */
+export async function activateMfaLogin(c: Context): Promise<Response> {
+  const { mfaToken, code } = c.req.valid('json' as never) as MfaChallengeActivateInput;
+  const person = await findChallengePerson(mfaToken);
+
+  await assertMfaNotLockedOut(person.id);
+
+  const recoveryCodes = await confirmMfaEnrollment(person, code);
+  const session = await completeLogin(c, person, { mfa: 'TOTP' });
+
+  return c.json({ success: true, data: { ...session, recoveryCodes } });
+}
+
+/** Activate a pending enrolment, counting wrong codes and auditing success */
+async function confirmMfaEnrollment(person: { id: string; company_id: string }, code: string): Promise<string[]> {
+  let recoveryCodes: string[];
+  try {
+    recoveryCodes = await mfaService.confirmEnrollment(person.id, code);
+  } catch (error) {
+    if (error instanceof AppError && error.code === 'INVALID_MFA_CODE') {
+      return rejectMfaCode(person, 400);
+    }
+    throw error;
+  }
+  await clearFailedMfa(person.id);
+
+  logAudit({
+    companyId: person.company_id,
+    personId: person.id,
+    action: 'ENABLE_MFA',
+    entityType: 'PERSON',
+    entityId: person.id,
   });
+
+  return recoveryCodes;
+}
+
+/** Browser-facing SSO failures go back to the login page with a code it can explain */
+function redirectToLogin(c: Context, errorCode: string): Response {
+  const url = new URL('/login', env.APP_URL);
+  url.searchParams.set('sso_error', errorCode);
+  return c.redirect(url.toString());
+}
+
+/**
+ * GET /api/v1/auth/sso/start?email=
+ * Browser navigation: redirect to the company's identity provider.
+ */
+export async function startSsoLogin(c: Context): Promise<Response> {
+  const { email } = c.req.valid('query' as never) as SsoStartQuery;
+
+  try {
+    const { authorizationUrl, state } = await ssoService.begin(email);
+    setSsoStateCookie(c, authService.generateSsoState(state));
+    return c.redirect(authorizationUrl);
+  } catch (error) {
+    if (error instanceof AppError) {
+      logger.warn({ code: error.code, message: error.message }, 'SSO login could not start');
+      return redirectToLogin(c, error.code);
+    }
+    throw error;
+  }
+}
+
+/**
+ * GET /api/v1/auth/sso/callback?code&state
+ * The provider redirects here. Matches the person, starts a session (cookies)
+ * and lands on the dashboard. Roles the company requires MFA for still pass
+ * AEGIRA's TOTP step: the login page gets the challenge token in the URL
+ * fragment (kept out of server logs and Referer headers) and finishes there.
+ */
+export async function completeSsoLogin(c: Context): Promise<Response> {
+  const stateToken = getCookie(c, SSO_STATE_COOKIE_NAME);
+  deleteCookie(c, SSO_STATE_COOKIE_NAME, { path: SSO_COOKIE_PATH });
+  const { code, state, error: providerError } = c.req.query();
+
+  // The user cancelled or the provider refused (RFC 6749 §4.1.2.1)
+  if (providerError) {
+    return redirectToLogin(c, 'SSO_CANCELLED');
+  }
+
+  try {
+    if (!stateToken || !code || !state) {
+      throw new AppError('SSO_STATE_EXPIRED', 'Your sign-in attempt has expired. Please try again.', 401);
+    }
+    const ssoState = authService.verifySsoState(stateToken);
+    if (ssoState.state !== state) {
+      throw new AppError('SSO_STATE_MISMATCH', 'Sign-in response does not match this browser', 401);
+    }
+
+    const { personId, linked } = await ssoService.complete(ssoState, code);
+    const person = await prisma.person.findUniqueOrThrow({
+      where: { id: personId },
+      select: {
+        ...LOGIN_PERSON_SELECT,
+        mfa_enabled_at: true,
+        company: { select: { name: true, timezone: true, mfa_required_roles: true } },
+      },
+    });
+
+    if (linked) {
+      logAudit({
+        companyId: person.company_id,
+        personId: person.id,
+        action: 'LINK_SSO_ACCOUNT',
+        entityType: 'PERSON',
+        entityId: person.id,
+      });
+    }
+
+    // The provider's own second factor is not verifiable here, so it does not
+    // satisfy the company's MFA policy
+    if (isMfaRequiredForRole(person.company.mfa_required_roles, person.role)) {
+      const challenge = new URLSearchParams({
+        mfa_token: authService.generateMfaChallenge({ sub: person.id, companyId: person.company_id }),
+        ...(!person.mfa_enabled_at && { mfa_enroll: '1' }),
+      });
+      const url = new URL('/login', env.APP_URL);
+      url.hash = challenge.toString();
+      return c.redirect(url.toString());
+    }
+
+    await completeLogin(c, person, { sso: true });
+
+    return c.redirect(new URL('/dashboard', env.APP_URL).toString());
+  } catch (error) {
+    if (error instanceof AppError) {
+      logger.warn({ code: error.code, message: error.message }, 'SSO login failed');
+      return redirectToLogin(c, error.code);
+    }
+    throw error;
+  }
 }
 
 export async function getMe(c: Context): Promise<Response> {
@@ -176,13 +546,55 @@ export async function getMe(c: Context): Promise<Response> {
   });
 }
 
+/**
+ * POST /api/v1/auth/refresh
+ * Rotate the refresh token and issue a new access token.
+ * Not behind authMiddleware — the access token is expected to be expired.
+ */
 export async function refreshToken(c: Context): Promise<Response> {
-  // Token refresh not yet implemented - return proper error instead of stub
-  throw new AppError('NOT_IMPLEMENTED', 'Token refresh is not yet available. Please re-login.', 501);
+  const body = c.req.valid('json' as never) as RefreshTokenInput;
+  const presented = getCookie(c, REFRESH_COOKIE_NAME) ?? body.refreshToken;
+
+  if (!presented) {
+    throw new AppError('INVALID_REFRESH_TOKEN', 'Not authenticated', 401);
+  }
+
+  let rotated: Awaited<ReturnType<SessionService['rotate']>>;
+  try {
+    rotated = await sessionService.rotate(presented);
+  } catch (error) {
+    // Superseded = another tab already rotated; its cookies are valid, keep them
+    if (!(error instanceof AppError && error.code === 'REFRESH_TOKEN_SUPERSEDED')) {
+      clearAuthCookies(c);
+    }
+    throw error;
+  }
+
+  const { session, refreshToken: nextRefreshToken, person } = rotated;
+
+  const token = authService.generateToken({
+    sub: person.id,
+    sid: session.id,
+    email: person.email,
+    companyId: person.company_id,
+    role: person.role,
+  });
+
+  setAuthCookie(c, token);
+  setRefreshCookie(c, nextRefreshToken);
+
+  return c.json({
+    success: true,
+    data: { token, refreshToken: nextRefreshToken },
+  });
 }
 
 export async function logout(c: Context): Promise<Response> {
-  deleteCookie(c, AUTH_COOKIE_NAME, { path: '/' });
+  const sessionId = c.get('sessionId') as string;
+
+  await sessionService.revoke(sessionId, 'LOGOUT');
+  clearAuthCookies(c);
+
   return c.json({ success: true, data: { message: 'Logged out successfully' } });
 }
 
@@ -216,9 +628,14 @@ export async function changePassword(c: Context): Promise<Response> {
     data: { password_hash: newHash },
   });
 
+  // End every other session — a leaked password must not leave other devices signed in
+  const sessionId = c.get('sessionId') as string;
+  await sessionService.revokeAllForPerson(companyId, userId, 'PASSWORD_CHANGED', sessionId);
+
   // Rotate JWT — issue new token so old token is replaced on this session
   const newToken = authService.generateToken({
     sub: userId,
+    sid: sessionId,
     email: userEmail,
     companyId,
     role: userRole,
@@ -266,6 +683,118 @@ export async function verifyUserPassword(c: Context): Promise<Response> {
   });
 }
 
+/**
+ * GET /api/v1/auth/mfa
+ * Two-factor status for the settings page.
+ */
+export async function getMfaStatus(c: Context): Promise<Response> {
+  const userId = c.get('userId') as string;
+
+  const status = await mfaService.getStatus(userId);
+
+  return c.json({ success: true, data: status });
+}
+
+/**
+ * POST /api/v1/auth/mfa/setup
+ * Start enrolment — returns the secret and QR code for the authenticator app.
+ */
+export async function startMfaSetup(c: Context): Promise<Response> {
+  const userId = c.get('userId') as string;
+
+  const enrollment = await mfaService.beginEnrollment(userId);
+
+  return c.json({ success: true, data: enrollment });
+}
+
+/**
+ * POST /api/v1/auth/mfa/activate
+ * Confirm enrolment with a first code. Recovery codes are only ever shown here.
+ */
+export async function activateMfa(c: Context): Promise<Response> {
+  const userId = c.get('userId') as string;
+  const companyId = c.get('companyId') as string;
+  const { code } = c.req.valid('json' as never) as MfaActivateInput;
+
+  await assertMfaNotLockedOut(userId);
+  const recoveryCodes = await confirmMfaEnrollment({ id: userId, company_id: companyId }, code);
+
+  return c.json({ success: true, data: { recoveryCodes } });
+}
+
+/**
+ * POST /api/v1/auth/mfa/recovery-codes
+ * Replace all recovery codes. Requires a current code so a hijacked session can't take them.
+ */
+export async function regenerateMfaRecoveryCodes(c: Context): Promise<Response> {
+  const userId = c.get('userId') as string;
+  const companyId = c.get('companyId') as string;
+  const { code } = c.req.valid('json' as never) as MfaRecoveryCodesInput;
+
+  await assertMfaNotLockedOut(userId);
+  if (!(await mfaService.verify(userId, code))) {
+    return rejectMfaCode({ id: userId, company_id: companyId }, 400);
+  }
+  await clearFailedMfa(userId);
+
+  const recoveryCodes = await mfaService.regenerateRecoveryCodes(userId);
+
+  logAudit({
+    companyId,
+    personId: userId,
+    action: 'REGENERATE_MFA_RECOVERY_CODES',
+    entityType: 'PERSON',
+    entityId: userId,
+  });
+
+  return c.json({ success: true, data: { recoveryCodes } });
+}
+
+/**
+ * POST /api/v1/auth/mfa/disable
+ * Turn MFA off (password + current code). Not allowed while company policy requires it.
+ */
+export async function disableMfa(c: Context): Promise<Response> {
+  const userId = c.get('userId') as string;
+  const companyId = c.get('companyId') as string;
+  const { password, code } = c.req.valid('json' as never) as MfaDisableInput;
+
+  const person = await prisma.person.findFirst({
+    where: { id: userId, company_id: companyId, is_active: true },
+    select: { id: true, role: true, password_hash: true, company: { select: { mfa_required_roles: true } } },
+  });
+
+  if (!person || !person.password_hash) {
+    throw new AppError('NOT_FOUND', 'User not found', 404);
+  }
+  if (isMfaRequiredForRole(person.company.mfa_required_roles, person.role)) {
+    throw new AppError('MFA_REQUIRED', 'Your organization requires two-factor authentication for your role', 403);
+  }
+
+  const isValid = await verifyPassword(password, person.password_hash);
+  if (!isValid) {
+    throw new AppError('INVALID_PASSWORD', 'Password is incorrect', 400);
+  }
+
+  await assertMfaNotLockedOut(userId);
+  if (!(await mfaService.verify(userId, code))) {
+    return rejectMfaCode({ id: userId, company_id: companyId }, 400);
+  }
+  await clearFailedMfa(userId);
+
+  await mfaService.disable(userId);
+
+  logAudit({
+    companyId,
+    personId: userId,
+    action: 'DISABLE_MFA',
+    entityType: 'PERSON',
+    entityId: userId,
+  });
+
+  return c.json({ success: true, data: { message: 'Two-factor authentication disabled' } });
+}
+
 export async function signup(c: Context): Promise<Response> {
   const {
     firstName,
@@ -336,21 +865,15 @@ export async function signup(c: Context): Promise<Response> {
     return { company, admin };
   });
 
-  // Generate token and set cookie
-  const token = authService.generateToken({
-    sub: result.admin.id,
-    email: result.admin.email,
-    companyId: result.company.id,
-    role: result.admin.role,
-  });
-
-  setAuthCookie(c, token);
+  // Start session and set access + refresh cookies
+  const { token, refreshToken } = await startSession(c, result.admin);
 
   return c.json(
     {
       success: true,
       data: {
         token,
+        refreshToken,
         user: {
           id: result.admin.id,
           email: result.admin.email,
@@ -373,3 +896,132 @@ export async function signup(c: Context): Promise<Response> {
     201
   );
 }
+
+/**
+ * POST /api/v1/auth/forgot-password
+ * Email a single-use reset link. Always responds the same way so the
+ * endpoint can't be used to discover which emails have accounts.
+ */
+export async function forgotPassword(c: Context): Promise<Response> {
+  const { email } = c.req.valid('json' as never) as ForgotPasswordInput;
+
+  const response = c.json({
+    success: true,
+    data: { message: 'If an account exists for that email, a reset link has been sent.' },
+  });
+
+  const throttle = await getRateLimitStore().increment(`password-reset:${email}`, RESET_EMAIL_WINDOW_MS);
+  if (throttle.count > RESET_EMAILS_PER_HOUR) return response;
+
+  // Same account resolution as login
+  const person = await prisma.person.findFirst({
+    where: { email, is_active: true, company: { is_active: true } },
+    orderBy: { created_at: 'desc' },
+    select: {
+      id: true,
+      company_id: true,
+      email: true,
+      first_name: true,
+      role: true,
+      company: { select: { password_login_enabled: true } },
+    },
+  });
+  // SSO-only accounts have no password to reset
+  if (!person || !isPasswordLoginAllowed(person.company, person.role)) return response;
+
+  if (!isMailConfigured()) {
+    logger.warn({ personId: person.id }, 'Password reset requested but outbound mail is not configured');
+    return response;
+  }
+
+  try {
+    const { token } = await authTokenService.issue(person.company_id, person.id, 'PASSWORD_RESET');
+    await getMailTransport().send(renderPasswordResetEmail(person, token));
+  } catch (error) {
+    logger.error({ error, personId: person.id }, 'Failed to send password reset email');
+    return response;
+  }
+
+  logAudit({
+    companyId: person.company_id,
+    personId: person.id,
+    action: 'REQUEST_PASSWORD_RESET',
+    entityType: 'PERSON',
+    entityId: person.id,
+    details: getClientInfo(c),
+  });
+
+  return response;
+}
+
+/**
+ * POST /api/v1/auth/reset-password
+ * Redeem a reset link: set the new password and sign out every session.
+ */
+export async function resetPassword(c: Context): Promise<Response> {
+  const { token, newPassword } = c.req.valid('json' as never) as ResetPasswordInput;
+
+  const person = await authTokenService.redeem(token, 'PASSWORD_RESET', await hashPassword(newPassword));
+
+  await sessionService.revokeAllForPerson(person.company_id, person.id, 'PASSWORD_RESET');
+  // The account owner proved control of the inbox — lift any login lockout
+  await clearFailedLogins(person.email);
+
+  logAudit({
+    companyId: person.company_id,
+    personId: person.id,
+    action: 'RESET_PASSWORD',
+    entityType: 'PERSON',
+    entityId: person.id,
+    details: getClientInfo(c),
+  });
+
+  return c.json({
+    success: true,
+    data: { message: 'Password has been reset. You can now sign in.' },
+  });
+}
+
+/**
+ * GET /api/v1/auth/invitation?token=
+ * Who an invitation is for, so the accept page can greet them.
+ */
+export async function getInvitation(c: Context): Promise<Response> {
+  const { token } = c.req.valid('query' as never) as InvitationQuery;
+
+  const person = await authTokenService.inspect(token, 'INVITATION');
+
+  return c.json({
+    success: true,
+    data: {
+      email: person.email,
+      firstName: person.first_name,
+      lastName: person.last_name,
+      companyName: person.company.name,
+    },
+  });
+}
+
+/**
+ * POST /api/v1/auth/accept-invitation
+ * Redeem an invitation: the invitee chooses their password, then signs in.
+ */
+export async function acceptInvitation(c: Context): Promise<Response> {
+  const { token, password } = c.req.valid('json' as never) as AcceptInvitationInput;
+
+  const person = await authTokenService.redeem(token, 'INVITATION', await hashPassword(password));
+
+  logAudit({
+    companyId: person.company_id,
+    personId: person.id,
+    action: 'ACCEPT_INVITATION',
+    entityType: 'PERSON',
+    entityId: person.id,
+    details: getClientInfo(c),
+  });
+
+  return c.json({
+    success: true,
+    data: { message: 'Your account is ready. You can now sign in.', email: person.email },
+  });
+}
@@ -0,0 +1,70 @@
+// Auth Emails - Password reset and account invitation messages
+import type { MailMessage } from '../../shared/mail';
+import { env } from '../../config/env';
+
+function appUrl(path: string): string {
+  return `${env.APP_URL.replace(/\/+$/, '')}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function render(
+  recipientName: string,
+  paragraphs: string[],
+  action: { label: string; url: string },
+  footer: string
+): Pick<MailMessage, 'text' | 'html'> {
+  return {
+    text: [`Hi ${recipientName},`, '', ...paragraphs, '', `${action.label}: ${action.url}`, '', footer].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(recipientName)},</p>`,
+      ...paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`),
+      `<p><a href="${escapeHtml(action.url)}">${escapeHtml(action.label)}</a></p>`,
+      `<p style="color:#6b7280;font-size:12px">${escapeHtml(footer)}</p>`,
+    ].join('\n'),
+  };
+}
+
+export function renderPasswordResetEmail(
+  person: { email: string; first_name: string },
+  token: string
+): MailMessage {
+  return {
+    to: [person.email],
+    subject: 'Reset your AEGIRA password',
+    ...render(
+      person.first_name,
+      [
+        'We received a request to reset the password for your AEGIRA account.',
+        'The link below works once and expires in 1 hour.',
+      ],
+      { label: 'Reset password', url: appUrl(`/reset-password?token=${encodeURIComponent(token)}`) },
+      'If you did not ask for this, you can ignore this email — your password has not changed.'
+    ),
+  };
+}
+
+export function renderInvitationEmail(
+  person: { email: string; first_name: string; company: { name: string } },
+  token: string
+): MailMessage {
+  return {
+    to: [person.email],
+    subject: `You're invited to ${person.company.name} on AEGIRA`,
+    ...render(
+      person.first_name,
+      [
+        `${person.company.name} has created an AEGIRA account for you (${person.email}).`,
+        'Choose a password to activate it. The link works once and expires in 7 days.',
+      ],
+      { label: 'Accept invitation', url: appUrl(`/accept-invite?token=${encodeURIComponent(token)}`) },
+      'If you were not expecting this invitation, you can ignore this email.'
+    ),
+  };
+}
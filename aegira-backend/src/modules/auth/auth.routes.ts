@@ -6,7 +6,24 @@ import { zValidator } from '@hono/zod-validator';
 import { authMiddleware } from '../../middleware/auth';
 import { rateLimitMiddleware } from '../../middleware/rate-limit';
 import * as controller from './auth.controller';
-import { loginSchema, signupSchema, changePasswordSchema, verifyPasswordSchema } from './auth.validator';
+import {
+  loginSchema,
+  signupSchema,
+  changePasswordSchema,
+  verifyPasswordSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  invitationQuerySchema,
+  acceptInvitationSchema,
+  mfaChallengeSchema,
+  mfaChallengeSetupSchema,
+  mfaChallengeActivateSchema,
+  mfaActivateSchema,
+  mfaRecoveryCodesSchema,
+  mfaDisableSchema,
+  ssoStartQuerySchema,
+} from './auth.validator';
 
 const router = new Hono();
 
@@ -50,13 +67,85 @@ router.post(
   controller.login
 );
 
-// POST /api/v1/auth/refresh (authenticated)
-router.post('/refresh', authMiddleware, controller.refreshToken);
+// POST /api/v1/auth/login/mfa - Second factor (TOTP or recovery code) for a login challenge
+router.post(
+  '/login/mfa',
+  rateLimitMiddleware(10, 15 * 60 * 1000),
+  zValidator('json', mfaChallengeSchema, validationHook),
+  controller.verifyMfaLogin
+);
+
+// POST /api/v1/auth/login/mfa/setup - Enrol during login when company policy requires MFA
+router.post(
+  '/login/mfa/setup',
+  rateLimitMiddleware(10, 15 * 60 * 1000),
+  zValidator('json', mfaChallengeSetupSchema, validationHook),
+  controller.startMfaLoginSetup
+);
+
+// POST /api/v1/auth/login/mfa/activate - Confirm that enrolment and sign in
+router.post(
+  '/login/mfa/activate',
+  rateLimitMiddleware(10, 15 * 60 * 1000),
+  zValidator('json', mfaChallengeActivateSchema, validationHook),
+  controller.activateMfaLogin
+);
+
+// GET /api/v1/auth/sso/start?email= - Redirect to the company's identity provider (browser navigation)
+router.get(
+  '/sso/start',
+  rateLimitMiddleware(20, 15 * 60 * 1000),
+  zValidator('query', ssoStartQuerySchema, validationHook),
+  controller.startSsoLogin
+);
+
+// GET /api/v1/auth/sso/callback - Provider redirect back; errors redirect to the login page
+router.get('/sso/callback', rateLimitMiddleware(20, 15 * 60 * 1000), controller.completeSsoLogin);
+
+// POST /api/v1/auth/refresh (refresh token cookie/body — access token may be expired)
+router.post(
+  '/refresh',
+  rateLimitMiddleware(60, 15 * 60 * 1000),
+  zValidator('json', refreshTokenSchema, validationHook),
+  controller.refreshToken
+);
+
+// POST /api/v1/auth/forgot-password - Email a single-use reset link
+router.post(
+  '/forgot-password',
+  rateLimitMiddleware(5, 15 * 60 * 1000),
+  zValidator('json', forgotPasswordSchema, validationHook),
+  controller.forgotPassword
+);
+
+// POST /api/v1/auth/reset-password - Redeem a reset link
+router.post(
+  '/reset-password',
+  rateLimitMiddleware(10, 15 * 60 * 1000),
+  zValidator('json', resetPasswordSchema, validationHook),
+  controller.resetPassword
+);
+
+// GET /api/v1/auth/invitation?token= - Look up an invitation before accepting
+router.get(
+  '/invitation',
+  rateLimitMiddleware(20, 15 * 60 * 1000),
+  zValidator('query', invitationQuerySchema, validationHook),
+  controller.getInvitation
+);
+
+// POST /api/v1/auth/accept-invitation - Redeem an invitation and set the password
+router.post(
+  '/accept-invitation',
+  rateLimitMiddleware(10, 15 * 60 * 1000),
+  zValidator('json', acceptInvitationSchema, validationHook),
+  controller.acceptInvitation
+);
 
 // GET /api/v1/auth/me (authenticated - validate session & get current user)
 router.get('/me', authMiddleware, controller.getMe);
 
-// POST /api/v1/auth/logout (authenticated - ensures only session owners can logout)
+// POST /api/v1/auth/logout (authenticated - revokes the caller's session)
 router.post('/logout', authMiddleware, controller.logout);
 
 // PATCH /api/v1/auth/change-password (authenticated)
@@ -75,4 +164,26 @@ router.post(
   controller.verifyUserPassword
 );
 
+// Two-factor authentication (authenticated - settings page)
+router.get('/mfa', authMiddleware, controller.getMfaStatus);
+router.post('/mfa/setup', authMiddleware, controller.startMfaSetup);
+router.post(
+  '/mfa/activate',
+  authMiddleware,
+  zValidator('json', mfaActivateSchema, validationHook),
+  controller.activateMfa
+);
+router.post(
+  '/mfa/recovery-codes',
+  authMiddleware,
+  zValidator('json', mfaRecoveryCodesSchema, validationHook),
+  controller.regenerateMfaRecoveryCodes
+);
+router.post(
+  '/mfa/disable',
+  authMiddleware,
+  zValidator('json', mfaDisableSchema, validationHook),
+  controller.disableMfa
+);
+
 export { router as authRoutes };
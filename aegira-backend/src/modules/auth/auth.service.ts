@@ -3,8 +3,27 @@ import jwt from 'jsonwebtoken';
 import { env } from '../../config/env';
 import { AppError } from '../../shared/errors';
 
+/** How long the user has to complete the MFA step after a correct password */
+const MFA_CHALLENGE_TTL = '10m';
+/** How long the user has to finish signing in at the SSO provider */
+const SSO_STATE_TTL = '10m';
+
+interface MfaChallengePayload {
+  sub: string;
+  companyId: string;
+}
+
+/** Browser-bound SSO login state, kept in an httpOnly cookie until the callback */
+export interface SsoStatePayload {
+  companyId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
 interface TokenPayload {
   sub: string;
+  sid: string; // Session ID — authMiddleware rejects tokens whose session is revoked
   email: string;
   companyId: string;
   role: string;
@@ -12,9 +31,9 @@ interface TokenPayload {
 
 /**
  * Parse a JWT duration string (e.g. '7d', '24h', '30m') to seconds.
- * Used to sync cookie maxAge with JWT_EXPIRES_IN.
+ * Used to sync cookie maxAge with JWT_EXPIRES_IN / REFRESH_TOKEN_EXPIRES_IN.
  */
-function parseDurationToSeconds(duration: string): number {
+export function parseDurationToSeconds(duration: string): number {
   const match = duration.match(/^(\d+)(s|m|h|d)$/);
   if (!match) {
     // Default to 7 days if format is unrecognized
@@ -33,6 +52,14 @@ function parseDurationToSeconds(duration: string): number {
   }
 }
 
+function mfaChallengeKey(): string {
+  return `${env.JWT_SECRET}:mfa-challenge`;
+}
+
+function ssoStateKey(): string {
+  return `${env.JWT_SECRET}:sso-state`;
+}
+
 export class AuthService {
   /** Cookie maxAge in seconds, derived from JWT_EXPIRES_IN */
   readonly cookieMaxAge: number;
@@ -55,4 +82,40 @@ export class AuthService {
       throw new AppError('INVALID_TOKEN', 'Invalid or expired token', 401);
     }
   }
+
+  /**
+   * Short-lived proof that the password step passed, exchanged for a session
+   * once the second factor checks out. Signed with a key derived from
+   * JWT_SECRET so it can never be used as an access token.
+   */
+  generateMfaChallenge(payload: MfaChallengePayload): string {
+    return jwt.sign(payload, mfaChallengeKey(), {
+      algorithm: 'HS256',
+      expiresIn: MFA_CHALLENGE_TTL,
+    } as jwt.SignOptions);
+  }
+
+  verifyMfaChallenge(token: string): MfaChallengePayload {
+    try {
+      return jwt.verify(token, mfaChallengeKey(), { algorithms: ['HS256'] }) as MfaChallengePayload;
+    } catch {
+      throw new AppError('MFA_CHALLENGE_EXPIRED', 'Your sign-in attempt has expired. Please log in again.', 401);
+    }
+  }
+
+  /** Signed SSO state — same derived-key approach as the MFA challenge */
+  generateSsoState(payload: SsoStatePayload): string {
+    return jwt.sign(payload, ssoStateKey(), {
+      algorithm: 'HS256',
+      expiresIn: SSO_STATE_TTL,
+    } as jwt.SignOptions);
+  }
+
+  verifySsoState(token: string): SsoStatePayload {
+    try {
+      return jwt.verify(token, ssoStateKey(), { algorithms: ['HS256'] }) as SsoStatePayload;
+    } catch {
+      throw new AppError('SSO_STATE_EXPIRED', 'Your sign-in attempt has expired. Please try again.', 401);
+    }
+  }
 }
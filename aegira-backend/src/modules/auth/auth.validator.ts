@@ -47,7 +47,91 @@ export const verifyPasswordSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+// Same rules as changePasswordSchema.newPassword
+const newPasswordSchema = z.string()
+  .min(12, 'Password must be at least 12 characters')
+  .max(128)
+  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+  .regex(/[0-9]/, 'Password must contain at least one number');
+
+// Emailed link tokens are 32 random bytes, base64url
+const emailTokenSchema = z.string().min(1, 'Token is required').max(128);
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address').max(255).toLowerCase().trim(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: emailTokenSchema,
+  newPassword: newPasswordSchema,
+});
+
+export const invitationQuerySchema = z.object({
+  token: emailTokenSchema,
+});
+
+export const acceptInvitationSchema = z.object({
+  token: emailTokenSchema,
+  password: newPasswordSchema,
+});
+
+// Authenticator app code
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app');
+// Authenticator app code or a recovery code (XXXXX-XXXXX)
+const mfaCodeSchema = z.string().trim().min(6, 'Enter your authentication code').max(20);
+// Challenge issued by login when a second factor is needed
+const mfaTokenSchema = z.string().min(1, 'MFA token is required').max(2048);
+
+export const mfaChallengeSchema = z.object({
+  mfaToken: mfaTokenSchema,
+  code: mfaCodeSchema,
+});
+
+export const mfaChallengeSetupSchema = z.object({
+  mfaToken: mfaTokenSchema,
+});
+
+export const mfaChallengeActivateSchema = z.object({
+  mfaToken: mfaTokenSchema,
+  code: totpCodeSchema,
+});
+
+export const mfaActivateSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const mfaRecoveryCodesSchema = z.object({
+  code: mfaCodeSchema,
+});
+
+export const mfaDisableSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: mfaCodeSchema,
+});
+
+export const ssoStartQuerySchema = z.object({
+  email: z.string().email('Invalid email address').max(255).toLowerCase().trim(),
+});
+
+export const refreshTokenSchema = z.object({
+  // Bearer (mobile) clients send the token in the body; browsers use the httpOnly cookie
+  refreshToken: z.string().min(1).optional(),
+});
+
 export type LoginInput = z.infer<typeof loginSchema>;
 export type SignupInput = z.infer<typeof signupSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type VerifyPasswordInput = z.infer<typeof verifyPasswordSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type InvitationQuery = z.infer<typeof invitationQuerySchema>;
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationSchema>;
+export type MfaChallengeInput = z.infer<typeof mfaChallengeSchema>;
+export type MfaChallengeSetupInput = z.infer<typeof mfaChallengeSetupSchema>;
+export type MfaChallengeActivateInput = z.infer<typeof mfaChallengeActivateSchema>;
+export type MfaActivateInput = z.infer<typeof mfaActivateSchema>;
+export type MfaRecoveryCodesInput = z.infer<typeof mfaRecoveryCodesSchema>;
+export type MfaDisableInput = z.infer<typeof mfaDisableSchema>;
+export type SsoStartQuery = z.infer<typeof ssoStartQuerySchema>;
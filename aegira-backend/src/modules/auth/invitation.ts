@@ -0,0 +1,33 @@
+// Account Invitations - email a new account holder a link to choose their password
+import { prisma } from '../../config/database';
+import { getMailTransport, isMailConfigured } from '../../shared/mail';
+import { AuthTokenService } from './auth-token.service';
+import { renderInvitationEmail } from './auth.emails';
+
+const authTokenService = new AuthTokenService(prisma);
+
+/**
+ * Issue an INVITATION token (superseding any earlier one) and email the link.
+ * Throws if mail is not configured or the transport fails — the token is then
+ * simply never used.
+ */
+export async function sendInvitation(person: {
+  id: string;
+  company_id: string;
+  email: string;
+  first_name: string;
+}): Promise<{ expiresAt: Date }> {
+  if (!isMailConfigured()) {
+    throw new Error('Outbound mail is not configured (SMTP_HOST unset)');
+  }
+
+  const company = await prisma.company.findUniqueOrThrow({
+    where: { id: person.company_id },
+    select: { name: true },
+  });
+
+  const { token, expiresAt } = await authTokenService.issue(person.company_id, person.id, 'INVITATION');
+  await getMailTransport().send(renderInvitationEmail({ ...person, company }, token));
+
+  return { expiresAt };
+}
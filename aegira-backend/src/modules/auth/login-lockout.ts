@@ -0,0 +1,71 @@
+// Login Lockout - Per-account brute-force protection
+// Complements the per-IP rateLimitMiddleware: an attacker rotating IPs against
+// one account is stopped here. Keyed by email (not person id) so unknown
+// emails lock the same way and the response doesn't reveal which accounts exist.
+import { AppError } from '../../shared/errors';
+import { getRateLimitStore } from '../../shared/rate-limit-store';
+
+/** Failed attempts allowed per window before the account is locked */
+export const MAX_FAILED_LOGINS = 5;
+/** Lockout window — counting starts at the first failure */
+export const LOCKOUT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+function lockoutKey(email: string): string {
+  return `login:${email.toLowerCase()}`;
+}
+
+/** Throw ACCOUNT_LOCKED if this email has too many recent failures */
+export async function assertNotLockedOut(email: string): Promise<void> {
+  const entry = await getRateLimitStore().get(lockoutKey(email));
+  if (entry && entry.count >= MAX_FAILED_LOGINS) {
+    const minutes = Math.max(1, Math.ceil((entry.resetAt - Date.now()) / 60000));
+    throw new AppError(
+      'ACCOUNT_LOCKED',
+      `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      429
+    );
+  }
+}
+
+/**
+ * Count a failed attempt.
+ * Returns true when this failure locked the account (for auditing).
+ */
+export async function recordFailedLogin(email: string): Promise<boolean> {
+  const entry = await getRateLimitStore().increment(lockoutKey(email), LOCKOUT_WINDOW_MS);
+  return entry.count === MAX_FAILED_LOGINS;
+}
+
+/** Clear failures after a successful login */
+export async function clearFailedLogins(email: string): Promise<void> {
+  await getRateLimitStore().reset(lockoutKey(email));
+}
+
+// Second-factor attempts are counted per person: the password step already
+// passed, so the remaining secret is a 6-digit code — far easier to guess.
+function mfaLockoutKey(personId: string): string {
+  return `mfa:${personId}`;
+}
+
+/** Throw ACCOUNT_LOCKED if this person has too many recent wrong MFA codes */
+export async function assertMfaNotLockedOut(personId: string): Promise<void> {
+  const entry = await getRateLimitStore().get(mfaLockoutKey(personId));
+  if (entry && entry.count >= MAX_FAILED_LOGINS) {
+    const minutes = Math.max(1, Math.ceil((entry.resetAt - Date.now()) / 60000));
+    throw new AppError(
+      'ACCOUNT_LOCKED',
+      `Too many invalid authentication codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      429
+    );
+  }
+}
+
+/** Count a wrong MFA code. Returns true when this failure locked the account. */
+export async function recordFailedMfa(personId: string): Promise<boolean> {
+  const entry = await getRateLimitStore().increment(mfaLockoutKey(personId), LOCKOUT_WINDOW_MS);
+  return entry.count === MAX_FAILED_LOGINS;
+}
+
+export async function clearFailedMfa(personId: string): Promise<void> {
+  await getRateLimitStore().reset(mfaLockoutKey(personId));
+}
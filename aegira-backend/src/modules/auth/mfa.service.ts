@@ -0,0 +1,191 @@
+// MFA Service - TOTP enrolment, recovery codes and second-factor checks
+import { createHash, randomInt } from 'crypto';
+import type { PrismaClient, Role } from '@prisma/client';
+import { AppError } from '../../shared/errors';
+import { sealSecret, openSecret } from '../../shared/secret-box';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../../shared/totp';
+import { encodeQr, qrToSvg } from '../../shared/qr';
+
+/** Codes issued per batch — each works once */
+export const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I
+const RECOVERY_CODE_HALF = 5;
+
+const TOTP_ISSUER = 'AEGIRA';
+
+export type MfaMethod = 'TOTP' | 'RECOVERY_CODE';
+
+export interface MfaEnrollment {
+  /** Base32 secret for manual entry */
+  secret: string;
+  otpauthUri: string;
+  /** otpauthUri as a standalone SVG QR code */
+  qrSvg: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  /** Company policy requires MFA for this person's role */
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/** Case, spaces and dashes don't matter when typing a recovery code */
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function generateRecoveryCode(): string {
+  let raw = '';
+  for (let i = 0; i < RECOVERY_CODE_HALF * 2; i++) {
+    raw += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+  }
+  return `${raw.slice(0, RECOVERY_CODE_HALF)}-${raw.slice(RECOVERY_CODE_HALF)}`;
+}
+
+/** Does the company policy force MFA for this role? */
+export function isMfaRequiredForRole(requiredRoles: Role[], role: Role): boolean {
+  return requiredRoles.includes(role);
+}
+
+export class MfaService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async getStatus(personId: string): Promise<MfaStatus> {
+    const person = await this.prisma.person.findUniqueOrThrow({
+      where: { id: personId },
+      select: {
+        role: true,
+        mfa_enabled_at: true,
+        company: { select: { mfa_required_roles: true } },
+        _count: { select: { mfa_recovery_codes: { where: { used_at: null } } } },
+      },
+    });
+
+    return {
+      enabled: person.mfa_enabled_at !== null,
+      enabledAt: person.mfa_enabled_at?.toISOString() ?? null,
+      required: isMfaRequiredForRole(person.company.mfa_required_roles, person.role),
+      recoveryCodesRemaining: person.mfa_enabled_at ? person._count.mfa_recovery_codes : 0,
+    };
+  }
+
+  /**
+   * Start (or restart) enrolment: store a fresh secret as pending and return the
+   * provisioning details. MFA stays off until confirmEnrollment sees a valid code.
+   */
+  async beginEnrollment(personId: string): Promise<MfaEnrollment> {
+    const person = await this.prisma.person.findUniqueOrThrow({
+      where: { id: personId },
+      select: { email: true, mfa_enabled_at: true, company: { select: { name: true } } },
+    });
+    if (person.mfa_enabled_at) {
+      throw new AppError('MFA_ALREADY_ENABLED', 'Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.person.update({
+      where: { id: personId },
+      data: { mfa_secret: sealSecret(secret), mfa_last_used_step: null },
+    });
+
+    // Issuer prefix keeps accounts from different companies apart in the app
+    const otpauthUri = buildOtpauthUri(secret, person.email, `${TOTP_ISSUER} (${person.company.name})`);
+    return { secret, otpauthUri, qrSvg: qrToSvg(encodeQr(otpauthUri)) };
+  }
+
+  /** Turn MFA on once the app proves it has the secret. Returns the first batch of recovery codes. */
+  async confirmEnrollment(personId: string, code: string): Promise<string[]> {
+    const person = await this.prisma.person.findUniqueOrThrow({
+      where: { id: personId },
+      select: { mfa_secret: true, mfa_enabled_at: true },
+    });
+    if (person.mfa_enabled_at) {
+      throw new AppError('MFA_ALREADY_ENABLED', 'Two-factor authentication is already enabled', 409);
+    }
+    if (!person.mfa_secret) {
+      throw new AppError('MFA_NOT_STARTED', 'Start two-factor setup first', 400);
+    }
+
+    const step = verifyTotp(openSecret(person.mfa_secret), code);
+    if (step === null) {
+      throw new AppError('INVALID_MFA_CODE', 'Invalid authentication code', 400);
+    }
+
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await this.prisma.$transaction([
+      this.prisma.person.update({
+        where: { id: personId },
+        data: { mfa_enabled_at: new Date(), mfa_last_used_step: step },
+      }),
+      ...this.replaceRecoveryCodes(personId, codes),
+    ]);
+    return codes;
+  }
+
+  /**
+   * Check a second factor: a 6-digit TOTP code or an unused recovery code.
+   * Both are single-use — a TOTP step is consumed with a conditional update so
+   * the same code can't be accepted twice, even concurrently.
+   */
+  async verify(personId: string, code: string): Promise<MfaMethod | null> {
+    const person = await this.prisma.person.findUniqueOrThrow({
+      where: { id: personId },
+      select: { mfa_secret: true, mfa_enabled_at: true, mfa_last_used_step: true },
+    });
+    if (!person.mfa_enabled_at || !person.mfa_secret) return null;
+
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = verifyTotp(openSecret(person.mfa_secret), trimmed, new Date(), person.mfa_last_used_step);
+      if (step === null) return null;
+
+      const claimed = await this.prisma.person.updateMany({
+        where: {
+          id: personId,
+          OR: [{ mfa_last_used_step: null }, { mfa_last_used_step: { lt: step } }],
+        },
+        data: { mfa_last_used_step: step },
+      });
+      return claimed.count === 1 ? 'TOTP' : null;
+    }
+
+    const claimed = await this.prisma.mfaRecoveryCode.updateMany({
+      where: { person_id: personId, code_hash: hashRecoveryCode(trimmed), used_at: null },
+      data: { used_at: new Date() },
+    });
+    return claimed.count === 1 ? 'RECOVERY_CODE' : null;
+  }
+
+  /** Issue a new batch of recovery codes, invalidating the old ones */
+  async regenerateRecoveryCodes(personId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await this.prisma.$transaction(this.replaceRecoveryCodes(personId, codes));
+    return codes;
+  }
+
+  /** Remove the secret and all recovery codes (self-service disable or admin reset) */
+  async disable(personId: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.person.update({
+        where: { id: personId },
+        data: { mfa_secret: null, mfa_enabled_at: null, mfa_last_used_step: null },
+      }),
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { person_id: personId } }),
+    ]);
+  }
+
+  private replaceRecoveryCodes(personId: string, codes: string[]) {
+    return [
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { person_id: personId } }),
+      this.prisma.mfaRecoveryCode.createMany({
+        data: codes.map((code) => ({ person_id: personId, code_hash: hashRecoveryCode(code) })),
+      }),
+    ];
+  }
+}
@@ -0,0 +1,221 @@
+// Session Service - Refresh token rotation and server-side revocation
+import { createHash, randomBytes } from 'crypto';
+import type { PrismaClient, Session } from '@prisma/client';
+import { env } from '../../config/env';
+import { AppError } from '../../shared/errors';
+import { logAudit } from '../../shared/audit';
+import { logger } from '../../config/logger';
+import { invalidateSessionCache } from '../../middleware/auth';
+import { parseDurationToSeconds } from './auth.service';
+
+/**
+ * A rotated-out token presented again within this window is treated as a benign
+ * race (two tabs refreshing at once), not theft. The session is left intact.
+ */
+const REUSE_GRACE_MS = 30 * 1000;
+
+export type SessionRevokeReason =
+  | 'LOGOUT'
+  | 'FORCE_LOGOUT'
+  | 'DEACTIVATED'
+  | 'ROLE_CHANGED'
+  | 'PASSWORD_CHANGED'
+  | 'PASSWORD_RESET'
+  | 'MFA_RESET'
+  | 'TOKEN_REUSE';
+
+interface SessionClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionPerson {
+  id: string;
+  email: string;
+  role: string;
+  company_id: string;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return randomBytes(48).toString('base64url');
+}
+
+export class SessionService {
+  /** Refresh cookie maxAge in seconds, derived from REFRESH_TOKEN_EXPIRES_IN */
+  readonly refreshMaxAge: number;
+
+  constructor(private readonly prisma: PrismaClient) {
+    this.refreshMaxAge = parseDurationToSeconds(env.REFRESH_TOKEN_EXPIRES_IN);
+  }
+
+  /**
+   * Start a new session at login/signup.
+   * Returns the raw refresh token — only its hash is persisted.
+   */
+  async create(
+    companyId: string,
+    personId: string,
+    client: SessionClientInfo = {}
+  ): Promise<{ session: Session; refreshToken: string }> {
+    const refreshToken = generateRefreshToken();
+
+    const session = await this.prisma.session.create({
+      data: {
+        company_id: companyId,
+        person_id: personId,
+        refresh_token_hash: hashToken(refreshToken),
+        user_agent: client.userAgent?.slice(0, 500) ?? null,
+        ip_address: client.ipAddress ?? null,
+        expires_at: this.nextExpiry(),
+      },
+    });
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one (rotation).
+   * - Unknown token → INVALID_REFRESH_TOKEN
+   * - Previously rotated token outside the grace window → session revoked (theft)
+   * - Revoked/expired session or inactive person/company → rejected
+   */
+  async rotate(
+    refreshToken: string
+  ): Promise<{ session: Session; refreshToken: string; person: SessionPerson }> {
+    const tokenHash = hashToken(refreshToken);
+
+    const session = await this.prisma.session.findUnique({
+      where: { refresh_token_hash: tokenHash },
+    });
+
+    if (!session) {
+      await this.handlePossibleReuse(tokenHash);
+      throw new AppError('INVALID_REFRESH_TOKEN', 'Session has ended. Please log in again.', 401);
+    }
+
+    if (session.revoked_at || session.expires_at <= new Date()) {
+      throw new AppError('INVALID_REFRESH_TOKEN', 'Session has ended. Please log in again.', 401);
+    }
+
+    const person = await this.prisma.person.findFirst({
+      where: {
+        id: session.person_id,
+        company_id: session.company_id,
+        is_active: true,
+        company: { is_active: true },
+      },
+      select: { id: true, email: true, role: true, company_id: true },
+    });
+
+    if (!person) {
+      await this.revoke(session.id, 'DEACTIVATED');
+      throw new AppError('INVALID_REFRESH_TOKEN', 'Account not found or disabled', 401);
+    }
+
+    const nextToken = generateRefreshToken();
+
+    // Conditional update — if a concurrent request already rotated this token,
+    // count is 0 and the caller retries with the newer cookie.
+    const result = await this.prisma.session.updateMany({
+      where: { id: session.id, refresh_token_hash: tokenHash, revoked_at: null },
+      data: {
+        refresh_token_hash: hashToken(nextToken),
+        previous_token_hash: tokenHash,
+        last_used_at: new Date(),
+        expires_at: this.nextExpiry(),
+      },
+    });
+
+    if (result.count === 0) {
+      throw new AppError('REFRESH_TOKEN_SUPERSEDED', 'Session was refreshed by another request', 401);
+    }
+
+    return {
+      session: { ...session, refresh_token_hash: hashToken(nextToken) },
+      refreshToken: nextToken,
+      person,
+    };
+  }
+
+  /** Revoke a single session (logout). No-op if already revoked. */
+  async revoke(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, revoked_at: null },
+      data: { revoked_at: new Date(), revoked_reason: reason },
+    });
+    invalidateSessionCache([sessionId]);
+  }
+
+  /**
+   * Revoke every active session for a person (force logout, deactivation, role change).
+   * Optionally keeps the caller's current session alive (password change).
+   */
+  async revokeAllForPerson(
+    companyId: string,
+    personId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const active = await this.prisma.session.findMany({
+      where: {
+        company_id: companyId,
+        person_id: personId,
+        revoked_at: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      select: { id: true },
+    });
+
+    if (active.length === 0) return 0;
+
+    const ids = active.map((s) => s.id);
+    const result = await this.prisma.session.updateMany({
+      where: { id: { in: ids }, revoked_at: null },
+      data: { revoked_at: new Date(), revoked_reason: reason },
+    });
+
+    invalidateSessionCache(ids);
+    return result.count;
+  }
+
+  /**
+   * A token that matches a session's previous_token_hash was already rotated.
+   * Outside the grace window this means an old token leaked — revoke the session.
+   */
+  private async handlePossibleReuse(tokenHash: string): Promise<void> {
+    const session = await this.prisma.session.findUnique({
+      where: { previous_token_hash: tokenHash },
+      select: { id: true, company_id: true, person_id: true, revoked_at: true, last_used_at: true },
+    });
+
+    if (!session || session.revoked_at) return;
+
+    if (Date.now() - session.last_used_at.getTime() < REUSE_GRACE_MS) {
+      throw new AppError('REFRESH_TOKEN_SUPERSEDED', 'Session was refreshed by another request', 401);
+    }
+
+    await this.revoke(session.id, 'TOKEN_REUSE');
+
+    logger.warn(
+      { sessionId: session.id, personId: session.person_id },
+      'Refresh token reuse detected — session revoked'
+    );
+
+    logAudit({
+      companyId: session.company_id,
+      personId: session.person_id,
+      action: 'SESSION_REVOKED',
+      entityType: 'SESSION',
+      entityId: session.id,
+      details: { reason: 'TOKEN_REUSE' },
+    });
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + this.refreshMaxAge * 1000);
+  }
+}
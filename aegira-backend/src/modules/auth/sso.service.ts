@@ -0,0 +1,186 @@
+// SSO Service - company single sign-on through an OpenID Connect provider
+import type { PrismaClient, Role } from '@prisma/client';
+import { env } from '../../config/env';
+import { AppError } from '../../shared/errors';
+import { openSecret } from '../../shared/secret-box';
+import {
+  OidcError,
+  buildAuthorizationUrl,
+  createPkcePair,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  randomOidcToken,
+  verifyIdToken,
+  type OidcClientConfig,
+  type OidcProviderMetadata,
+} from '../../shared/oidc';
+import type { SsoStatePayload } from './auth.service';
+
+export const SSO_CALLBACK_PATH = '/api/v1/auth/sso/callback';
+
+/** Redirect URI registered at the provider — the same for every company */
+export function getSsoRedirectUri(): string {
+  return `${env.API_URL.replace(/\/+$/, '')}${SSO_CALLBACK_PATH}`;
+}
+
+/**
+ * Can this person sign in with a password? SSO-only companies still let
+ * admins in with a password so a broken provider can't lock the tenant out.
+ */
+export function isPasswordLoginAllowed(company: { password_login_enabled: boolean }, role: Role): boolean {
+  return company.password_login_enabled || role === 'ADMIN';
+}
+
+const SSO_COMPANY_SELECT = {
+  is_active: true,
+  sso_enabled: true,
+  sso_issuer: true,
+  sso_client_id: true,
+  sso_client_secret: true,
+} as const;
+
+interface SsoCompany {
+  is_active: boolean;
+  sso_enabled: boolean;
+  sso_issuer: string | null;
+  sso_client_id: string | null;
+  sso_client_secret: string | null;
+}
+
+function ssoNotAvailable(): AppError {
+  return new AppError('SSO_NOT_AVAILABLE', 'Single sign-on is not set up for this account', 404);
+}
+
+function toClientConfig(company: SsoCompany | null): OidcClientConfig {
+  if (
+    !company?.is_active ||
+    !company.sso_enabled ||
+    !company.sso_issuer ||
+    !company.sso_client_id ||
+    !company.sso_client_secret
+  ) {
+    throw ssoNotAvailable();
+  }
+  return {
+    issuer: company.sso_issuer,
+    clientId: company.sso_client_id,
+    clientSecret: openSecret(company.sso_client_secret),
+    redirectUri: getSsoRedirectUri(),
+  };
+}
+
+/** Provider problems are the company's configuration, not the user's fault */
+async function withProvider<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof OidcError) {
+      throw new AppError('SSO_PROVIDER_ERROR', `Single sign-on failed: ${error.message}`, 502);
+    }
+    throw error;
+  }
+}
+
+export class SsoService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Start an SSO login for an email address: resolve the company the same
+   * way password login does and build the provider redirect. The returned
+   * state must come back with the callback (the controller keeps it in a cookie).
+   */
+  async begin(email: string): Promise<{ authorizationUrl: string; state: SsoStatePayload }> {
+    const person = await this.prisma.person.findFirst({
+      where: { email, is_active: true, company: { is_active: true } },
+      orderBy: { created_at: 'desc' },
+      select: { company_id: true, company: { select: SSO_COMPANY_SELECT } },
+    });
+    if (!person) throw ssoNotAvailable();
+    const client = toClientConfig(person.company);
+    const metadata = await withProvider(() => discoverOidcProvider(client.issuer));
+
+    const pkce = createPkcePair();
+    const state: SsoStatePayload = {
+      companyId: person.company_id,
+      state: randomOidcToken(),
+      nonce: randomOidcToken(),
+      codeVerifier: pkce.verifier,
+    };
+
+    const authorizationUrl = buildAuthorizationUrl(metadata, {
+      clientId: client.clientId,
+      redirectUri: client.redirectUri,
+      state: state.state,
+      nonce: state.nonce,
+      codeChallenge: pkce.challenge,
+      loginHint: email,
+    });
+    return { authorizationUrl, state };
+  }
+
+  /**
+   * Finish the login: redeem the code, verify the ID token and find the
+   * matching person in the company. Accounts are never created here — the
+   * provider only vouches for people the company already added.
+   *
+   * Matching is by linked subject first, then by verified email (which links
+   * the subject). A person already linked to a different subject is refused,
+   * so a reassigned email address at the provider can't take over an account.
+   */
+  async complete(state: SsoStatePayload, code: string): Promise<{ personId: string; linked: boolean }> {
+    const company = await this.prisma.company.findUnique({
+      where: { id: state.companyId },
+      select: SSO_COMPANY_SELECT,
+    });
+    const client = toClientConfig(company);
+
+    const identity = await withProvider(async () => {
+      const metadata: OidcProviderMetadata = await discoverOidcProvider(client.issuer);
+      const idToken = await exchangeAuthorizationCode(metadata, client, code, state.codeVerifier);
+      return verifyIdToken(metadata, idToken, { clientId: client.clientId, nonce: state.nonce });
+    });
+
+    const bySubject = await this.prisma.person.findFirst({
+      where: { company_id: state.companyId, sso_subject: identity.sub, is_active: true },
+      select: { id: true },
+    });
+    if (bySubject) return { personId: bySubject.id, linked: false };
+
+    if (!identity.email || identity.emailVerified === false) {
+      throw new AppError('SSO_EMAIL_UNVERIFIED', 'Your identity provider did not share a verified email address', 403);
+    }
+
+    const byEmail = await this.prisma.person.findFirst({
+      where: { company_id: state.companyId, email: identity.email, is_active: true },
+      select: { id: true, sso_subject: true },
+    });
+    if (!byEmail) {
+      throw new AppError('SSO_NO_ACCOUNT', 'No active AEGIRA account matches your company sign-in', 403);
+    }
+    if (byEmail.sso_subject !== null) {
+      throw new AppError('SSO_ACCOUNT_MISMATCH', 'This AEGIRA account is linked to a different company sign-in', 403);
+    }
+
+    // Conditional update — a concurrent first login for the same person links only once
+    const claimed = await this.prisma.person.updateMany({
+      where: { id: byEmail.id, sso_subject: null },
+      data: { sso_subject: identity.sub },
+    });
+    if (claimed.count !== 1) {
+      throw new AppError('SSO_ACCOUNT_MISMATCH', 'This AEGIRA account is linked to a different company sign-in', 403);
+    }
+    return { personId: byEmail.id, linked: true };
+  }
+
+  /** Admin settings check: the issuer must publish a usable discovery document */
+  async checkProvider(issuer: string): Promise<void> {
+    try {
+      await discoverOidcProvider(issuer);
+    } catch (error) {
+      if (error instanceof OidcError) {
+        throw new AppError('SSO_DISCOVERY_FAILED', `Could not load the provider configuration: ${error.message}`, 400);
+      }
+      throw error;
+    }
+  }
+}
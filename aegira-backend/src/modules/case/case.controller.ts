@@ -1,10 +1,24 @@
 import type { Context } from 'hono';
-import { CaseRepository, type CaseWithRelations, type CaseListItem } from './case.repository';
-import { CaseService } from './case.service';
-import type { GetCasesQuery, UpdateCaseInput } from './case.validator';
+import {
+  CaseRepository,
+  type CaseWithRelations,
+  type CaseListItem,
+  type CaseCommentWithAuthor,
+  type CaseAssignmentWithPeople,
+} from './case.repository';
+import { CaseService, type WorkloadEntry } from './case.service';
+import type {
+  GetCasesQuery,
+  ExportCasesQuery,
+  UpdateCaseInput,
+  CreateCaseCommentInput,
+  AssignCaseInput,
+  ReassignCaseInput,
+} from './case.validator';
 import { prisma } from '../../config/database';
 import { AppError } from '../../shared/errors';
-import { parsePagination, calculateAge } from '../../shared/utils';
+import { parsePagination, calculateAge, getTodayInTimezone, toCompanyTimezone } from '../../shared/utils';
+import { formatExportDateTime, streamExport } from '../../shared/export';
 
 function getRepository(companyId: string): CaseRepository {
   return new CaseRepository(prisma, companyId);
@@ -53,6 +67,46 @@ interface CaseDetailResponse {
   createdAt: string;
 }
 
+interface CaseCommentResponse {
+  id: string;
+  caseId: string;
+  parentId: string | null;
+  authorId: string;
+  authorName: string;
+  authorRole: string;
+  body: string;
+  visibility: string;
+  mentionedIds: string[];
+  createdAt: string;
+}
+
+interface CaseAssignmentResponse {
+  id: string;
+  assigneeId: string;
+  assigneeName: string;
+  previousAssigneeId: string | null;
+  assignedById: string;
+  assignedByName: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface WorkloadEntryResponse {
+  assigneeId: string | null;
+  assigneeName: string | null;
+  openCount: number;
+  investigatingCount: number;
+  cases: {
+    id: string;
+    caseNumber: number;
+    status: string;
+    title: string;
+    severity: string;
+    ageDays: number;
+    createdAt: string;
+  }[];
+}
+
 /** Lean mapper for list views — only fields the table renders */
 function mapCaseToListItem(caseRecord: CaseListItem): CaseListItemResponse {
   return {
@@ -132,6 +186,37 @@ export async function getCases(c: Context): Promise<Response> {
   });
 }
 
+/**
+ * GET /api/v1/cases/export
+ * Streams the case list as CSV or XLSX with the same filters as GET /cases.
+ */
+export async function exportCases(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const { status, severity, search, format } = c.req.valid('query' as never) as ExportCasesQuery;
+
+  const rows = getRepository(companyId).streamForList({ status, severity, search });
+
+  return streamExport(c, {
+    format,
+    fileName: `cases_${getTodayInTimezone(timezone)}`,
+    title: 'Cases',
+    rows,
+    columns: [
+      {
+        label: 'Case',
+        value: (r) => `CASE-${toCompanyTimezone(r.created_at, timezone).year}-${String(r.case_number).padStart(4, '0')}`,
+      },
+      { label: 'Opened At', value: (r) => formatExportDateTime(r.created_at, timezone) },
+      { label: 'Incident', value: (r) => r.incident.title },
+      { label: 'Severity', value: (r) => r.incident.severity },
+      { label: 'Status', value: (r) => r.status },
+      { label: 'Reporter', value: (r) => `${r.incident.reporter.first_name} ${r.incident.reporter.last_name}` },
+      { label: 'Assignee', value: (r) => (r.assignee ? `${r.assignee.first_name} ${r.assignee.last_name}` : null) },
+    ],
+  });
+}
+
 /**
  * GET /api/v1/cases/:id
  * Get a single case by ID.
@@ -182,3 +267,162 @@ export async function updateCase(c: Context): Promise<Response> {
     data: mapCaseToResponse(updated, timezone),
   });
 }
+
+function mapCommentToResponse(comment: CaseCommentWithAuthor): CaseCommentResponse {
+  return {
+    id: comment.id,
+    caseId: comment.case_id,
+    parentId: comment.parent_id,
+    authorId: comment.author.id,
+    authorName: `${comment.author.first_name} ${comment.author.last_name}`,
+    authorRole: comment.author.role,
+    body: comment.body,
+    visibility: comment.visibility,
+    mentionedIds: comment.mentioned_ids,
+    createdAt: comment.created_at.toISOString(),
+  };
+}
+
+/**
+ * GET /api/v1/cases/:id/comments
+ * Comment thread, oldest first. The reporter only sees comments visible to them.
+ */
+export async function getCaseComments(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+
+  const service = getService(companyId, timezone);
+  const comments = await service.listComments(id, { userId, role: userRole });
+
+  return c.json({
+    success: true,
+    data: comments.map(mapCommentToResponse),
+  });
+}
+
+/**
+ * POST /api/v1/cases/:id/comments
+ * Add a comment or reply. WHS can post internal notes; the reporter only visible ones.
+ */
+export async function createCaseComment(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as CreateCaseCommentInput;
+
+  const service = getService(companyId, timezone);
+  const comment = await service.addComment(id, { userId, role: userRole }, data);
+
+  return c.json({ success: true, data: mapCommentToResponse(comment) }, 201);
+}
+
+function mapAssignmentToResponse(assignment: CaseAssignmentWithPeople): CaseAssignmentResponse {
+  return {
+    id: assignment.id,
+    assigneeId: assignment.assignee.id,
+    assigneeName: `${assignment.assignee.first_name} ${assignment.assignee.last_name}`,
+    previousAssigneeId: assignment.previous_assignee_id,
+    assignedById: assignment.assigner.id,
+    assignedByName: `${assignment.assigner.first_name} ${assignment.assigner.last_name}`,
+    reason: assignment.reason,
+    createdAt: assignment.created_at.toISOString(),
+  };
+}
+
+function mapWorkloadEntry(entry: WorkloadEntry): WorkloadEntryResponse {
+  return {
+    assigneeId: entry.assigneeId,
+    assigneeName: entry.assigneeName,
+    openCount: entry.openCount,
+    investigatingCount: entry.investigatingCount,
+    cases: entry.cases.map((caseRecord) => ({
+      id: caseRecord.id,
+      caseNumber: caseRecord.case_number,
+      status: caseRecord.status,
+      title: caseRecord.incident.title,
+      severity: caseRecord.incident.severity,
+      ageDays: caseRecord.age_days,
+      createdAt: caseRecord.created_at.toISOString(),
+    })),
+  };
+}
+
+/**
+ * GET /api/v1/cases/workload
+ * Open and investigating cases per WHS officer, with case age. WHS only.
+ */
+export async function getCaseWorkload(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const timezone = c.get('companyTimezone') as string;
+
+  const service = getService(companyId, timezone);
+  const workload = await service.getWorkload();
+
+  return c.json({
+    success: true,
+    data: workload.map(mapWorkloadEntry),
+  });
+}
+
+/**
+ * POST /api/v1/cases/:id/assign
+ * Assign an unassigned case to a WHS officer. WHS only.
+ */
+export async function assignCase(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as AssignCaseInput;
+
+  const service = getService(companyId, timezone);
+  const updated = await service.assignCase(id, userId, data);
+
+  return c.json({
+    success: true,
+    data: mapCaseToResponse(updated, timezone),
+  });
+}
+
+/**
+ * POST /api/v1/cases/:id/reassign
+ * Hand an assigned case to another WHS officer. WHS only, reason required.
+ */
+export async function reassignCase(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as ReassignCaseInput;
+
+  const service = getService(companyId, timezone);
+  const updated = await service.reassignCase(id, userId, data);
+
+  return c.json({
+    success: true,
+    data: mapCaseToResponse(updated, timezone),
+  });
+}
+
+/**
+ * GET /api/v1/cases/:id/assignments
+ * Assignment history, newest first. WHS only.
+ */
+export async function getCaseAssignments(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+
+  const service = getService(companyId, timezone);
+  const assignments = await service.listAssignments(id);
+
+  return c.json({
+    success: true,
+    data: assignments.map(mapAssignmentToResponse),
+  });
+}
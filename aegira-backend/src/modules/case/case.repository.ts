@@ -1,6 +1,16 @@
-import type { PrismaClient, Case, CaseStatus, IncidentSeverity, Prisma } from '@prisma/client';
+import type {
+  PrismaClient,
+  Case,
+  CaseAssignment,
+  CaseComment,
+  CaseCommentVisibility,
+  CaseStatus,
+  IncidentSeverity,
+  Prisma,
+} from '@prisma/client';
 import { BaseRepository } from '../../shared/base.repository';
 import { calculateSkip, paginate } from '../../shared/utils';
+import { iterateInBatches } from '../../shared/export';
 import type { PaginationParams, PaginatedResponse } from '../../types/api.types';
 
 export interface CaseFilters extends PaginationParams {
@@ -47,6 +57,34 @@ export interface CaseListItem {
   assignee: { first_name: string; last_name: string } | null;
 }
 
+export type CaseCommentWithAuthor = CaseComment & {
+  author: { id: string; first_name: string; last_name: string; role: string };
+};
+
+export interface CreateCaseCommentData {
+  caseId: string;
+  authorId: string;
+  parentId: string | null;
+  body: string;
+  visibility: CaseCommentVisibility;
+  mentionedIds: string[];
+}
+
+export type CaseAssignmentWithPeople = CaseAssignment & {
+  assignee: { id: string; first_name: string; last_name: string };
+  assigner: { id: string; first_name: string; last_name: string };
+};
+
+/** Active case as shown on the WHS workload view */
+export interface WorkloadCase {
+  id: string;
+  case_number: number;
+  status: CaseStatus;
+  assigned_to: string | null;
+  created_at: Date;
+  incident: { title: string; severity: string };
+}
+
 export class CaseRepository extends BaseRepository {
   constructor(prisma: PrismaClient, companyId: string) {
     super(prisma, companyId);
@@ -120,7 +158,7 @@ export class CaseRepository extends BaseRepository {
     }) as Promise<CaseWithRelations | null>;
   }
 
-  private buildFiltersWhere(filters: CaseFilters): Prisma.CaseWhereInput {
+  private buildFiltersWhere(filters: Omit<CaseFilters, 'page' | 'limit'>): Prisma.CaseWhereInput {
     return {
       company_id: this.companyId,
       ...(filters.status && { status: filters.status }),
@@ -168,6 +206,25 @@ export class CaseRepository extends BaseRepository {
     return paginate(items as CaseListItem[], total, filters);
   }
 
+  /**
+   * Same rows as findForList, read in batches for streaming exports
+   */
+  streamForList(
+    filters: Omit<CaseFilters, 'page' | 'limit'>
+  ): AsyncGenerator<CaseListItem> {
+    const where = this.buildFiltersWhere(filters);
+
+    return iterateInBatches((cursor, take) =>
+      this.prisma.case.findMany({
+        where,
+        select: this.selectForList,
+        orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+        take,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      }) as Promise<CaseListItem[]>
+    );
+  }
+
   async countByStatus(): Promise<Record<string, number>> {
     const where: Prisma.CaseWhereInput = {
       company_id: this.companyId,
@@ -192,4 +249,83 @@ export class CaseRepository extends BaseRepository {
 
     return result;
   }
+
+  /**
+   * Comment thread for a case, oldest first.
+   * Pass visibility to restrict (reporters only see REPORTER comments).
+   */
+  async findComments(caseId: string, visibility?: CaseCommentVisibility): Promise<CaseCommentWithAuthor[]> {
+    return this.prisma.caseComment.findMany({
+      where: this.where({
+        case_id: caseId,
+        ...(visibility && { visibility }),
+      }),
+      include: {
+        author: { select: { id: true, first_name: true, last_name: true, role: true } },
+      },
+      orderBy: { created_at: 'asc' },
+      take: 500,
+    });
+  }
+
+  async findCommentById(id: string, caseId: string): Promise<CaseComment | null> {
+    return this.prisma.caseComment.findFirst({
+      where: this.where({ id, case_id: caseId }),
+    });
+  }
+
+  async createComment(data: CreateCaseCommentData): Promise<CaseCommentWithAuthor> {
+    return this.prisma.caseComment.create({
+      data: this.withCompany({
+        case_id: data.caseId,
+        author_id: data.authorId,
+        parent_id: data.parentId,
+        body: data.body,
+        visibility: data.visibility,
+        mentioned_ids: data.mentionedIds,
+      }),
+      include: {
+        author: { select: { id: true, first_name: true, last_name: true, role: true } },
+      },
+    });
+  }
+
+  /** Assignment history for a case, newest first */
+  async findAssignments(caseId: string): Promise<CaseAssignmentWithPeople[]> {
+    return this.prisma.caseAssignment.findMany({
+      where: this.where({ case_id: caseId }),
+      include: {
+        assignee: { select: { id: true, first_name: true, last_name: true } },
+        assigner: { select: { id: true, first_name: true, last_name: true } },
+      },
+      orderBy: { created_at: 'desc' },
+      take: 100,
+    });
+  }
+
+  /** OPEN and INVESTIGATING cases, oldest first, for the workload view */
+  async findActiveForWorkload(): Promise<WorkloadCase[]> {
+    return this.prisma.case.findMany({
+      where: this.where({ status: { in: ['OPEN', 'INVESTIGATING'] as CaseStatus[] } }),
+      select: {
+        id: true,
+        case_number: true,
+        status: true,
+        assigned_to: true,
+        created_at: true,
+        incident: { select: { title: true, severity: true } },
+      },
+      orderBy: { created_at: 'asc' },
+      take: 1000,
+    });
+  }
+
+  /** Active WHS officers — the only valid case assignees */
+  async findWhsOfficers(): Promise<{ id: string; first_name: string; last_name: string }[]> {
+    return this.prisma.person.findMany({
+      where: this.where({ role: 'WHS' as const, is_active: true }),
+      select: { id: true, first_name: true, last_name: true },
+      orderBy: [{ first_name: 'asc' }, { last_name: 'asc' }],
+    });
+  }
 }
@@ -1,10 +1,20 @@
 import { Hono } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
 import { zValidator } from '@hono/zod-validator';
 import { authMiddleware } from '../../middleware/auth';
 import { tenantMiddleware } from '../../middleware/tenant';
 import { roleMiddleware } from '../../middleware/role';
 import * as controller from './case.controller';
-import { getCasesQuerySchema, updateCaseSchema } from './case.validator';
+import * as attachmentController from '../attachment/attachment.controller';
+import { MAX_ATTACHMENT_SIZE } from '../../shared/storage';
+import {
+  getCasesQuerySchema,
+  exportCasesQuerySchema,
+  updateCaseSchema,
+  createCaseCommentSchema,
+  assignCaseSchema,
+  reassignCaseSchema,
+} from './case.validator';
 
 const router = new Hono();
 
@@ -12,6 +22,7 @@ router.use('*', authMiddleware);
 router.use('*', tenantMiddleware);
 
 const whsOnly = roleMiddleware(['WHS']);
+const whsOrAdmin = roleMiddleware(['WHS', 'ADMIN']);
 const allAuthenticated = roleMiddleware(['WORKER', 'TEAM_LEAD', 'SUPERVISOR', 'ADMIN', 'WHS']);
 
 // GET /api/v1/cases — list all cases (WHS only)
@@ -22,9 +33,52 @@ router.get(
   controller.getCases
 );
 
+// GET /api/v1/cases/workload — active cases per WHS officer (WHS only)
+// Registered before /:id so "workload" isn't captured as an ID
+router.get('/workload', whsOnly, controller.getCaseWorkload);
+
+// GET /api/v1/cases/export — stream the filtered list as CSV/XLSX (WHS only)
+router.get(
+  '/export',
+  whsOnly,
+  zValidator('query', exportCasesQuerySchema),
+  controller.exportCases
+);
+
 // GET /api/v1/cases/:id — single case detail (owner of linked incident or WHS)
 router.get('/:id', allAuthenticated, controller.getCaseById);
 
+// GET /api/v1/cases/:id/attachments — case documents (owner of linked incident, WHS or ADMIN)
+router.get('/:id/attachments', allAuthenticated, attachmentController.getCaseAttachments);
+
+// POST /api/v1/cases/:id/attachments — upload case document (WHS or ADMIN), multipart field "file"
+router.post(
+  '/:id/attachments',
+  whsOrAdmin,
+  bodyLimit({ maxSize: MAX_ATTACHMENT_SIZE + 64 * 1024 }),
+  attachmentController.uploadCaseAttachment
+);
+
+// GET /api/v1/cases/:id/comments — comment thread (owner of linked incident or WHS)
+router.get('/:id/comments', allAuthenticated, controller.getCaseComments);
+
+// POST /api/v1/cases/:id/comments — add comment (owner: reporter-visible only; WHS: any)
+router.post(
+  '/:id/comments',
+  allAuthenticated,
+  zValidator('json', createCaseCommentSchema),
+  controller.createCaseComment
+);
+
+// GET /api/v1/cases/:id/assignments — assignment history (WHS only)
+router.get('/:id/assignments', whsOnly, controller.getCaseAssignments);
+
+// POST /api/v1/cases/:id/assign — assign an unassigned case (WHS only)
+router.post('/:id/assign', whsOnly, zValidator('json', assignCaseSchema), controller.assignCase);
+
+// POST /api/v1/cases/:id/reassign — hand over to another WHS officer (WHS only)
+router.post('/:id/reassign', whsOnly, zValidator('json', reassignCaseSchema), controller.reassignCase);
+
 // PATCH /api/v1/cases/:id — update case (WHS only)
 router.patch(
   '/:id',
@@ -1,8 +1,17 @@
 import type { PrismaClient, CaseStatus, Prisma } from '@prisma/client';
-import { CaseRepository, type CaseWithRelations } from './case.repository';
+import { DateTime } from 'luxon';
+import {
+  CaseRepository,
+  type CaseWithRelations,
+  type CaseCommentWithAuthor,
+  type CaseAssignmentWithPeople,
+  type WorkloadCase,
+} from './case.repository';
+import type { CreateCaseCommentInput } from './case.validator';
 import { AppError } from '../../shared/errors';
 import { logAudit } from '../../shared/audit';
 import { buildEventData } from '../event/event.service';
+import { sendNotifications, type CreateNotificationData } from '../notification/notification.service';
 
 const VALID_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
   OPEN: ['INVESTIGATING', 'RESOLVED', 'CLOSED'],
@@ -16,6 +25,32 @@ interface UpdateCaseInput {
   notes?: string;
 }
 
+/** Assignment only makes sense while the case is still being worked */
+const ASSIGNABLE_STATUSES: CaseStatus[] = ['OPEN', 'INVESTIGATING'];
+
+interface AssignmentChange {
+  assigneeId: string;
+  reason?: string;
+}
+
+export interface WorkloadEntry {
+  assigneeId: string | null; // null = unassigned bucket
+  assigneeName: string | null;
+  openCount: number;
+  investigatingCount: number;
+  cases: (WorkloadCase & { age_days: number })[];
+}
+
+interface CommentActor {
+  userId: string;
+  role: string;
+}
+
+/** Same rule as case detail: WHS sees everything, the reporter only their own case */
+function isWhs(actor: CommentActor): boolean {
+  return actor.role.toUpperCase() === 'WHS';
+}
+
 export class CaseService {
   constructor(
     private readonly prisma: PrismaClient,
@@ -149,4 +184,309 @@ export class CaseService {
 
     return updated;
   }
+
+  /**
+   * Comment thread for a case.
+   * The reporter only sees comments marked visible to them; WHS sees all.
+   */
+  async listComments(caseId: string, actor: CommentActor): Promise<CaseCommentWithAuthor[]> {
+    await this.getCaseForComments(caseId, actor);
+    return this.repository.findComments(caseId, isWhs(actor) ? undefined : 'REPORTER');
+  }
+
+  /**
+   * Add a comment (or a reply to a top-level comment).
+   * Mentioned people are notified — they must be able to read the comment:
+   * active WHS officers, or the reporter when the comment is visible to them.
+   */
+  async addComment(
+    caseId: string,
+    actor: CommentActor,
+    data: CreateCaseCommentInput
+  ): Promise<CaseCommentWithAuthor> {
+    const caseRecord = await this.getCaseForComments(caseId, actor);
+    const reporterId = caseRecord.incident.reporter_id;
+
+    if (!isWhs(actor) && data.visibility !== 'REPORTER') {
+      throw new AppError('FORBIDDEN', 'Reporters can only post comments visible to them', 403);
+    }
+
+    if (data.parentId) {
+      const parent = await this.repository.findCommentById(data.parentId, caseId);
+      // Comments the reporter can't see are "not found" before any other check,
+      // so the error never confirms that an internal comment exists
+      if (!parent || (!isWhs(actor) && parent.visibility !== 'REPORTER')) {
+        throw new AppError('NOT_FOUND', 'Parent comment not found', 404);
+      }
+      if (parent.parent_id) {
+        throw new AppError('INVALID_PARENT', 'Replies can only be added to top-level comments', 400);
+      }
+      if (parent.visibility === 'INTERNAL' && data.visibility !== 'INTERNAL') {
+        throw new AppError('INVALID_VISIBILITY', 'Replies to internal comments must stay internal', 400);
+      }
+    }
+
+    const mentionedIds = [...new Set(data.mentionedPersonIds)].filter((id) => id !== actor.userId);
+    if (mentionedIds.length > 0) {
+      const mentionable = await this.prisma.person.findMany({
+        where: { id: { in: mentionedIds }, company_id: this.repository.getCompanyId(), is_active: true },
+        select: { id: true, role: true },
+      });
+      const canRead = (person: { id: string; role: string }): boolean =>
+        person.role === 'WHS' || (data.visibility === 'REPORTER' && person.id === reporterId);
+
+      if (mentionable.length !== mentionedIds.length || !mentionable.every(canRead)) {
+        throw new AppError(
+          'INVALID_MENTION',
+          'Mentioned people must be WHS officers, or the reporter on comments visible to them',
+          400
+        );
+      }
+    }
+
+    const comment = await this.repository.createComment({
+      caseId,
+      authorId: actor.userId,
+      parentId: data.parentId ?? null,
+      body: data.body,
+      visibility: data.visibility,
+      mentionedIds,
+    });
+
+    const authorName = `${comment.author.first_name} ${comment.author.last_name}`;
+    sendNotifications(
+      this.prisma,
+      this.repository.getCompanyId(),
+      mentionedIds.map((personId) => ({
+        personId,
+        type: 'CASE_COMMENT_MENTION' as const,
+        title: `Mentioned on Case #${caseRecord.case_number}`,
+        message: `${authorName} mentioned you in a comment on case #${caseRecord.case_number}.`,
+      }))
+    );
+
+    logAudit({
+      companyId: this.repository.getCompanyId(),
+      personId: actor.userId,
+      action: 'CASE_COMMENT_ADDED',
+      entityType: 'case',
+      entityId: caseId,
+      details: {
+        commentId: comment.id,
+        visibility: comment.visibility,
+        ...(comment.parent_id && { parentId: comment.parent_id }),
+        ...(mentionedIds.length > 0 && { mentionedIds }),
+      },
+    });
+
+    return comment;
+  }
+
+  /** Assign an unassigned case (WHS only, enforced by route) */
+  async assignCase(caseId: string, actorId: string, data: AssignmentChange): Promise<CaseWithRelations> {
+    return this.changeAssignee(caseId, actorId, data, 'assign');
+  }
+
+  /** Hand an assigned case over to another WHS officer, with a reason for the history */
+  async reassignCase(caseId: string, actorId: string, data: AssignmentChange): Promise<CaseWithRelations> {
+    return this.changeAssignee(caseId, actorId, data, 'reassign');
+  }
+
+  async listAssignments(caseId: string): Promise<CaseAssignmentWithPeople[]> {
+    const caseRecord = await this.repository.findById(caseId);
+    if (!caseRecord) {
+      throw new AppError('NOT_FOUND', 'Case not found', 404);
+    }
+    return this.repository.findAssignments(caseId);
+  }
+
+  /**
+   * Active (OPEN/INVESTIGATING) cases grouped by assignee.
+   * Every active WHS officer gets an entry, even with no cases, so idle
+   * capacity is visible. Cases owned by deactivated officers or nobody
+   * land in the unassigned bucket.
+   */
+  async getWorkload(): Promise<WorkloadEntry[]> {
+    const [officers, cases] = await Promise.all([
+      this.repository.findWhsOfficers(),
+      this.repository.findActiveForWorkload(),
+    ]);
+
+    const now = DateTime.now().setZone(this.timezone);
+    const entries = new Map<string | null, WorkloadEntry>();
+    for (const officer of officers) {
+      entries.set(officer.id, {
+        assigneeId: officer.id,
+        assigneeName: `${officer.first_name} ${officer.last_name}`,
+        openCount: 0,
+        investigatingCount: 0,
+        cases: [],
+      });
+    }
+    const unassigned: WorkloadEntry = {
+      assigneeId: null,
+      assigneeName: null,
+      openCount: 0,
+      investigatingCount: 0,
+      cases: [],
+    };
+
+    for (const caseRecord of cases) {
+      const entry = (caseRecord.assigned_to && entries.get(caseRecord.assigned_to)) || unassigned;
+      const created = DateTime.fromJSDate(caseRecord.created_at).setZone(this.timezone);
+      const ageDays = Math.max(0, Math.floor(now.diff(created, 'days').days));
+
+      entry.cases.push({ ...caseRecord, age_days: ageDays });
+      if (caseRecord.status === 'OPEN') entry.openCount++;
+      else entry.investigatingCount++;
+    }
+
+    // Busiest officers first so overload stands out
+    const result = [...entries.values()].sort(
+      (a, b) => b.cases.length - a.cases.length || (a.assigneeName ?? '').localeCompare(b.assigneeName ?? '')
+    );
+    if (unassigned.cases.length > 0) result.unshift(unassigned);
+    return result;
+  }
+
+  private async changeAssignee(
+    caseId: string,
+    actorId: string,
+    data: AssignmentChange,
+    mode: 'assign' | 'reassign'
+  ): Promise<CaseWithRelations> {
+    const companyId = this.repository.getCompanyId();
+
+    const assignee = await this.prisma.person.findFirst({
+      where: { id: data.assigneeId, company_id: companyId, role: 'WHS', is_active: true },
+      select: { id: true, first_name: true, last_name: true },
+    });
+    if (!assignee) {
+      throw new AppError('INVALID_ASSIGNEE', 'Cases can only be assigned to active WHS officers', 400);
+    }
+
+    const caseRecord = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.case.findFirst({
+        where: { id: caseId, company_id: companyId },
+        select: { id: true, case_number: true, status: true, incident_id: true, assigned_to: true },
+      });
+
+      if (!existing) {
+        throw new AppError('NOT_FOUND', 'Case not found', 404);
+      }
+      if (!ASSIGNABLE_STATUSES.includes(existing.status)) {
+        throw new AppError('CASE_CLOSED', `Cannot assign a ${existing.status.toLowerCase()} case`, 400);
+      }
+      if (mode === 'assign' && existing.assigned_to) {
+        throw new AppError('CASE_ALREADY_ASSIGNED', 'Case is already assigned — reassign it instead', 409);
+      }
+      if (mode === 'reassign' && !existing.assigned_to) {
+        throw new AppError('CASE_NOT_ASSIGNED', 'Case is not assigned yet — assign it instead', 400);
+      }
+      if (existing.assigned_to === assignee.id) {
+        throw new AppError('SAME_ASSIGNEE', 'Case is already assigned to this officer', 400);
+      }
+
+      // Conditional update guards against a concurrent assignment slipping in
+      const { count } = await tx.case.updateMany({
+        where: { id: caseId, company_id: companyId, assigned_to: existing.assigned_to },
+        data: { assigned_to: assignee.id },
+      });
+      if (count === 0) {
+        throw new AppError('CONFLICT', 'Case assignment changed, please refresh and try again', 409);
+      }
+
+      await Promise.all([
+        tx.caseAssignment.create({
+          data: {
+            company_id: companyId,
+            case_id: caseId,
+            assignee_id: assignee.id,
+            previous_assignee_id: existing.assigned_to,
+            assigned_by: actorId,
+            reason: data.reason ?? null,
+          },
+        }),
+        // Event sourcing — entity_type='incident' for unified timeline
+        tx.event.create({
+          data: buildEventData({
+            companyId,
+            personId: actorId,
+            eventType: 'CASE_ASSIGNED',
+            entityType: 'incident',
+            entityId: existing.incident_id,
+            payload: {
+              caseId,
+              caseNumber: existing.case_number,
+              assigneeId: assignee.id,
+              assigneeName: `${assignee.first_name} ${assignee.last_name}`,
+              ...(existing.assigned_to && { previousAssigneeId: existing.assigned_to }),
+            },
+            timezone: this.timezone,
+          }),
+        }),
+      ]);
+
+      return existing;
+    });
+
+    const notifications: CreateNotificationData[] = [];
+    if (assignee.id !== actorId) {
+      notifications.push({
+        personId: assignee.id,
+        type: 'CASE_ASSIGNED',
+        title: `Case #${caseRecord.case_number} Assigned`,
+        message: `Case #${caseRecord.case_number} has been assigned to you.`,
+      });
+    }
+    if (caseRecord.assigned_to && caseRecord.assigned_to !== actorId) {
+      notifications.push({
+        personId: caseRecord.assigned_to,
+        type: 'CASE_ASSIGNED',
+        title: `Case #${caseRecord.case_number} Reassigned`,
+        message: `Case #${caseRecord.case_number} has been reassigned to ${assignee.first_name} ${assignee.last_name}.`,
+      });
+    }
+    sendNotifications(this.prisma, companyId, notifications);
+
+    logAudit({
+      companyId,
+      personId: actorId,
+      action: mode === 'assign' ? 'CASE_ASSIGNED' : 'CASE_REASSIGNED',
+      entityType: 'case',
+      entityId: caseId,
+      details: {
+        caseNumber: caseRecord.case_number,
+        assigneeId: assignee.id,
+        ...(caseRecord.assigned_to && { previousAssigneeId: caseRecord.assigned_to }),
+        ...(data.reason && { reason: data.reason }),
+      },
+    });
+
+    const updated = await this.repository.findById(caseId);
+    if (!updated) {
+      throw new AppError('NOT_FOUND', 'Case not found', 404);
+    }
+    return updated;
+  }
+
+  private async getCaseForComments(
+    caseId: string,
+    actor: CommentActor
+  ): Promise<{ id: string; case_number: number; incident: { reporter_id: string } }> {
+    const caseRecord = await this.prisma.case.findFirst({
+      where: { id: caseId, company_id: this.repository.getCompanyId() },
+      select: { id: true, case_number: true, incident: { select: { reporter_id: true } } },
+    });
+
+    if (!caseRecord) {
+      throw new AppError('NOT_FOUND', 'Case not found', 404);
+    }
+
+    if (!isWhs(actor) && caseRecord.incident.reporter_id !== actor.userId) {
+      throw new AppError('FORBIDDEN', 'You do not have permission to view this case', 403);
+    }
+
+    return caseRecord;
+  }
 }
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { exportFormatSchema } from '../../shared/export';
 
 export const getCasesQuerySchema = z.object({
   status: z.enum(['OPEN', 'INVESTIGATING', 'RESOLVED', 'CLOSED']).optional(),
@@ -8,9 +9,37 @@ export const getCasesQuerySchema = z.object({
 
 export type GetCasesQuery = z.infer<typeof getCasesQuerySchema>;
 
+export const exportCasesQuerySchema = getCasesQuerySchema.extend({
+  format: exportFormatSchema,
+});
+
+export type ExportCasesQuery = z.infer<typeof exportCasesQuerySchema>;
+
 export const updateCaseSchema = z.object({
   status: z.enum(['INVESTIGATING', 'RESOLVED', 'CLOSED']).optional(),
   notes: z.string().max(2000).trim().optional(),
 });
 
 export type UpdateCaseInput = z.infer<typeof updateCaseSchema>;
+
+export const createCaseCommentSchema = z.object({
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(5000),
+  visibility: z.enum(['INTERNAL', 'REPORTER']).default('INTERNAL'),
+  parentId: z.string().uuid().optional(),
+  mentionedPersonIds: z.array(z.string().uuid()).max(10).default([]),
+});
+
+export type CreateCaseCommentInput = z.infer<typeof createCaseCommentSchema>;
+
+export const assignCaseSchema = z.object({
+  assigneeId: z.string().uuid(),
+});
+
+export type AssignCaseInput = z.infer<typeof assignCaseSchema>;
+
+export const reassignCaseSchema = z.object({
+  assigneeId: z.string().uuid(),
+  reason: z.string().trim().min(1, 'Reason is required').max(500),
+});
+
+export type ReassignCaseInput = z.infer<typeof reassignCaseSchema>;
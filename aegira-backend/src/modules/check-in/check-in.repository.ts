@@ -1,8 +1,21 @@
 // Check-In Repository - Database Access
-import type { PrismaClient, CheckIn } from '@prisma/client';
+import type { PrismaClient, CheckIn, Prisma } from '@prisma/client';
 import { BaseRepository } from '../../shared/base.repository';
 import { calculateSkip, paginate } from '../../shared/utils';
+import { iterateInBatches } from '../../shared/export';
 import type { PaginationParams, PaginatedResponse } from '../../types/api.types';
+import type { ScheduleException } from '../../shared/schedule.utils';
+import { approvedLeaveOn } from '../leave/leave.repository';
+import { rosterSelect } from '../roster/roster.repository';
+
+export interface CheckInHistoryFilters {
+  teamIds?: string[] | null;
+  personId?: string;
+  search?: string;
+  /** Inclusive check_in_date bounds (UTC midnight) */
+  dateFrom?: Date;
+  dateTo?: Date;
+}
 
 export class CheckInRepository extends BaseRepository {
   constructor(prisma: PrismaClient, companyId: string) {
@@ -62,6 +75,15 @@ export class CheckInRepository extends BaseRepository {
     return !!result;
   }
 
+  /** Approved leave covering a date range — PersonSchedule.exceptions for schedule checks */
+  async findApprovedLeave(personId: string, from: Date, to: Date = from): Promise<ScheduleException[]> {
+    const { where, select } = approvedLeaveOn(from, to);
+    return this.prisma.leaveRequest.findMany({
+      where: this.where({ person_id: personId, ...where }),
+      select,
+    });
+  }
+
   async findByPerson(
     personId: string,
     params: PaginationParams
@@ -93,6 +115,7 @@ export class CheckInRepository extends BaseRepository {
           stress_score: true,
           physical_score: true,
           pain_score: true,
+          scoring_model_version: true,
           created_at: true,
           event: {
             select: {
@@ -101,6 +124,11 @@ export class CheckInRepository extends BaseRepository {
               event_time: true,
             },
           },
+          // Open correction requests — history shows a "correction pending" badge per field
+          amendments: {
+            where: { status: 'PENDING' },
+            select: { id: true, field_name: true, new_value: true },
+          },
         },
       }),
       this.prisma.checkIn.count({ where }),
@@ -122,34 +150,67 @@ export class CheckInRepository extends BaseRepository {
         is_active: true,
       },
       include: {
+        shift_pattern: rosterSelect.shift_pattern,
         team: {
           select: {
             id: true,
             name: true,
+            leader_id: true,
+            supervisor_id: true,
             check_in_start: true,
             check_in_end: true,
             work_days: true,
             is_active: true,
+            ...rosterSelect,
           },
         },
+        company: { select: { red_follow_up_ack_minutes: true } },
       },
     });
   }
 
-  /**
-   * Find check-ins with person information and team filtering
-   * Used by team management endpoints to get check-in history
-   */
-  async findCheckInsWithPerson(
-    params: PaginationParams,
-    filters: {
-      teamIds?: string[] | null;
-      personId?: string;
-      search?: string;
-    }
-  ) {
+  /** Fields returned for team check-in history (list + export) */
+  private readonly selectWithPerson = {
+    id: true,
+    person_id: true,
+    event_id: true,
+    check_in_date: true,
+    hours_slept: true,
+    sleep_quality: true,
+    stress_level: true,
+    physical_condition: true,
+    pain_level: true,
+    pain_location: true,
+    physical_condition_notes: true,
+    notes: true,
+    readiness_score: true,
+    readiness_level: true,
+    sleep_score: true,
+    stress_score: true,
+    physical_score: true,
+    pain_score: true,
+    scoring_model_version: true,
+    created_at: true,
+    event: {
+      select: {
+        is_late: true,
+        late_by_minutes: true,
+        event_time: true,
+      },
+    },
+    person: {
+      select: {
+        id: true,
+        first_name: true,
+        last_name: true,
+        email: true,
+      },
+    },
+  } as const;
+
+  private buildHistoryWhere(filters: CheckInHistoryFilters): Prisma.CheckInWhereInput {
     // Build person filter (team + search)
-    const personConditions: Record<string, unknown>[] = [];
+    const personConditions: Prisma.PersonWhereInput[] = [];
     if (filters.teamIds) {
       personConditions.push({ team_id: { in: filters.teamIds } });
     }
@@ -165,51 +226,31 @@ export class CheckInRepository extends BaseRepository {
 
     const workerFilter = filters.personId ? { person_id: filters.personId } : {};
     const hasPersonFilter = personConditions.length > 0;
+    const hasDateFilter = filters.dateFrom || filters.dateTo;
 
-    const where = this.where({
+    return this.where({
       ...(hasPersonFilter ? { person: { AND: personConditions } } : {}),
       ...workerFilter,
+      ...(hasDateFilter && {
+        check_in_date: {
+          ...(filters.dateFrom && { gte: filters.dateFrom }),
+          ...(filters.dateTo && { lte: filters.dateTo }),
+        },
+      }),
     });
+  }
+
+  /**
+   * Find check-ins with person information and team filtering
+   * Used by team management endpoints to get check-in history
+   */
+  async findCheckInsWithPerson(params: PaginationParams, filters: CheckInHistoryFilters) {
+    const where = this.buildHistoryWhere(filters);
 
     const [items, total] = await Promise.all([
       this.prisma.checkIn.findMany({
         where,
-        select: {
-          id: true,
-          person_id: true,
-          event_id: true,
-          check_in_date: true,
-          hours_slept: true,
-          sleep_quality: true,
-          stress_level: true,
-          physical_condition: true,
-          pain_level: true,
-          pain_location: true,
-          physical_condition_notes: true,
-          notes: true,
-          readiness_score: true,
-          readiness_level: true,
-          sleep_score: true,
-          stress_score: true,
-          physical_score: true,
-          pain_score: true,
-          created_at: true,
-          event: {
-            select: {
-              is_late: true,
-              late_by_minutes: true,
-              event_time: true,
-            },
-          },
-          person: {
-            select: {
-              id: true,
-              first_name: true,
-              last_name: true,
-              email: true,
-            },
-          },
-        },
+        select: this.selectWithPerson,
         orderBy: { check_in_date: 'desc' },
         skip: calculateSkip(params),
         take: params.limit,
@@ -219,4 +260,21 @@ export class CheckInRepository extends BaseRepository {
 
     return paginate(items, total, params);
   }
+
+  /**
+   * Same rows as findCheckInsWithPerson, read in batches for streaming exports
+   */
+  streamCheckInsWithPerson(filters: CheckInHistoryFilters) {
+    const where = this.buildHistoryWhere(filters);
+
+    return iterateInBatches((cursor, take) =>
+      this.prisma.checkIn.findMany({
+        where,
+        select: this.selectWithPerson,
+        orderBy: [{ check_in_date: 'desc' }, { id: 'desc' }],
+        take,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      })
+    );
+  }
 }
@@ -12,15 +12,57 @@ import {
   formatTime12h,
 } from '../../shared/utils';
 import { checkHolidayForDate } from '../../shared/holiday.utils';
-import { getEffectiveSchedule } from '../../shared/schedule.utils';
+import {
+  getEffectiveSchedule,
+  findScheduleException,
+  resolveDaySchedule,
+  resolveShiftDate,
+  getWindowPhase,
+  getScheduleSpan,
+  formatScheduleWindows,
+  timeToMinutes,
+  type CheckInWindow,
+  type DaySchedule,
+  type PersonSchedule,
+  type ScheduleException,
+  type TeamSchedule,
+} from '../../shared/schedule.utils';
+import { toRoster } from '../roster/roster.repository';
+import { getActiveScoringModel, DEFAULT_SCORING_MODEL } from '../../shared/scoring.utils';
+import type { ScoringModelConfig } from '../../shared/scoring.utils';
 import { buildEventData, emitEvent } from '../event/event.service';
+import { getFollowUpOwnerId, notifyRedCheckIn, openReadinessFollowUp } from '../follow-up/follow-up.service';
+import { evaluateAlertRules } from '../alert-rule/alert-rule.service';
+import { logAudit } from '../../shared/audit';
 import { logger } from '../../config/logger';
 
+/**
+ * How far a client-reported event time (check-in queued offline) may differ
+ * from the server clock. Ahead covers device clock drift; behind bounds how
+ * long a submission can sit in the offline queue and still count. Replays
+ * received more than flagAfterMinutes after their reported time are audited.
+ */
+const CLIENT_EVENT_TIME_TOLERANCE = {
+  aheadMinutes: 5,
+  behindHours: 12,
+  flagAfterMinutes: 30,
+};
+
+type PersonWithTeam = NonNullable<Awaited<ReturnType<CheckInRepository['getPersonWithTeam']>>>;
+
+/** The schedule date a check-in belongs to, with the time measured from its midnight */
+interface Shift {
+  day: DaySchedule;
+  minutesIntoDay: number;
+}
+
 // Check-in status for worker
 interface CheckInStatus {
   isWorkDay: boolean;
   isHoliday: boolean;
   holidayName: string | null;
+  isOnLeave: boolean;
+  leaveType: string | null;
   isWithinWindow: boolean;
   canCheckIn: boolean;
   hasCheckedInToday: boolean;
@@ -28,6 +70,9 @@ interface CheckInStatus {
     checkInStart: string;
     checkInEnd: string;
     workDays: string[];
+    /** Windows for the current shift date — several on split shifts, or an overnight one */
+    windows: CheckInWindow[];
+    source: 'roster' | 'weekly';
   } | null;
   team: {
     id: string;
@@ -52,9 +97,15 @@ export class CheckInService {
     // each called DateTime.now() separately. If the async gap (holiday + person fetch) between
     // the first and subsequent calls crossed midnight, the date, day-of-week, and current time
     // could be inconsistent — e.g., todayStr="Monday" but dayOfWeek=Tuesday.
-    const now = DateTime.now().setZone(this.timezone);
+    //
+    // Offline-queued submissions carry their device time; the snapshot is taken
+    // from it so date, work day, window and lateness reflect when the worker
+    // actually checked in, not when the request arrived. Only replays from the
+    // offline queue may do this — a live submission always uses the server clock.
+    const receivedAt = DateTime.now().setZone(this.timezone);
+    const clientEventTime = input.offlineReplay ? input.eventTime : undefined;
+    const now = this.resolveEventTime(clientEventTime, receivedAt);
     const todayStr = now.toFormat('yyyy-MM-dd');
-    const dayOfWeek = (now.weekday === 7 ? 0 : now.weekday).toString();
     const currentTime = now.toFormat('HH:mm');
     const today = parseDateInTimezone(todayStr, this.timezone);
 
@@ -63,13 +114,22 @@ export class CheckInService {
     // is the single source of truth. A pre-check would create a TOCTOU
     // race window between the SELECT and INSERT.
 
-    // Holiday check and person+team fetch are independent — run in parallel
-    const [holidayCheck, person] = await Promise.all([
+    // Holiday check, person+team fetch, leave and scoring model lookup are independent — run in parallel
+    const [holidayCheck, person, leave, scoringModel] = await Promise.all([
       checkHolidayForDate(prisma, companyId, todayStr),
       this.repository.getPersonWithTeam(personId),
+      this.repository.findApprovedLeave(personId, today),
+      getActiveScoringModel(prisma, companyId),
     ]);
 
-    if (holidayCheck.isHoliday) {
+    // After midnight an overnight roster shift from yesterday may still own the check-in.
+    // Its date is used for the check-in record and the holiday/leave checks.
+    const shift = person?.team ? await this.resolveShift(person, person.team, leave, now) : null;
+    const shiftDateStr = shift?.day.date ?? todayStr;
+    const shiftDate = shiftDateStr === todayStr ? today : parseDateInTimezone(shiftDateStr, this.timezone);
+
+    // resolveShift only hands the check-in to yesterday when it was not a holiday
+    if (holidayCheck.isHoliday && shiftDateStr === todayStr) {
       throw new AppError(
         'HOLIDAY',
         `Today is a company holiday: ${holidayCheck.holidayName}. Check-in is not required.`,
@@ -109,28 +169,29 @@ export class CheckInService {
     // the worker remains on their current team until the processor executes the transfer.
     // The transfer-processor runs every 15 minutes, so this race window is brief.
     let scheduleWindow: { start: string; end: string } | undefined;
+    let scheduleLabel = 'Unknown';
     {
-      const team = person.team;
-
-      // Get effective schedule (worker override OR team default)
-      const schedule = getEffectiveSchedule(
-        {
-          work_days: person.work_days,
-          check_in_start: person.check_in_start,
-          check_in_end: person.check_in_end,
-        },
-        {
-          work_days: team.work_days,
-          check_in_start: team.check_in_start,
-          check_in_end: team.check_in_end,
-        }
-      );
-
-      // Capture schedule window for late detection in EventService
-      scheduleWindow = { start: schedule.checkInStart, end: schedule.checkInEnd };
+      const { day, minutesIntoDay } = shift!;
+
+      // Capture schedule window for late detection in EventService. Late means
+      // after the last window closes; the morning after an overnight shift only
+      // the overnight window is relevant, so it alone is passed.
+      scheduleWindow = day.date === todayStr
+        ? getScheduleSpan(day) ?? undefined
+        : day.windows[day.windows.length - 1];
+      scheduleLabel = formatScheduleWindows(day.windows, formatTime12h);
+
+      // Approved leave takes the day out of the schedule — same as a holiday
+      if (day.exception) {
+        throw new AppError(
+          'ON_LEAVE',
+          'You are on approved leave today. Check-in is not required.',
+          400
+        );
+      }
 
-      // Check if today is a work day (using snapshot dayOfWeek)
-      if (!schedule.workDays.includes(dayOfWeek)) {
+      // Rest day on the roster, or not one of the weekly work days
+      if (!day.isWorkDay) {
         throw new AppError(
           'NOT_WORK_DAY',
           'Today is not a scheduled work day for you',
@@ -139,28 +200,32 @@ export class CheckInService {
       }
 
       // Check if before check-in window opens (using snapshot currentTime).
-      // DESIGN: Late submissions (after window closes) are intentionally allowed at any time
-      // of day. They are flagged as late via EventService with late_by_minutes, and can
+      // DESIGN: Late submissions (after the last window closes) are intentionally allowed at
+      // any time of day. They are flagged as late via EventService with late_by_minutes, and can
       // auto-resolve missed check-in records. No upper-bound cutoff is enforced — if a
       // business requirement for maximum lateness arises, add a configurable deadline here.
-      if (currentTime < schedule.checkInStart) {
+      // Split shifts: between two windows the worker waits for the next one.
+      const { phase, next } = getWindowPhase(day, minutesIntoDay);
+      if (phase === 'before' || phase === 'between') {
         throw new AppError(
           'OUTSIDE_CHECK_IN_WINDOW',
-          `Check-in window opens at ${schedule.checkInStart}`,
+          phase === 'before'
+            ? `Check-in window opens at ${next?.start}`
+            : `Next check-in window opens at ${next?.start}`,
           400
         );
       }
     }
 
-    // Calculate readiness score
-    const readiness = this.calculateReadiness(input);
+    // Calculate readiness score with the company's active scoring model
+    const readiness = this.calculateReadiness(input, scoringModel.config);
 
     // Create event + check-in atomically in a transaction.
     // The transaction returns both the check-in and any resolved miss metadata
     // so we can emit events AFTER the transaction commits (preventing orphan events).
     // Catch P2002 (unique constraint) to return friendly error on race condition.
     try {
-      const { checkIn, resolvedMiss } = await prisma.$transaction(async (tx) => {
+      const { checkIn, resolvedMiss, followUp } = await prisma.$transaction(async (tx) => {
         // Create event first (event sourcing) with time tracking
         // BUG-B FIX: Pass capturedTimeHHmm so buildEventData uses the same
         // time as our window check, preventing late-detection disagreement.
@@ -182,11 +247,13 @@ export class CheckInService {
               overall: readiness.overall,
               level: readiness.level,
               factors: readiness.factors,
+              scoringModelVersion: scoringModel.version,
             },
           },
           timezone: this.timezone,
           scheduleWindow,
           capturedTimeHHmm: currentTime,
+          eventTime: clientEventTime ? now.toJSDate() : undefined,
         });
         const event = await tx.event.create({ data: eventData });
 
@@ -196,7 +263,7 @@ export class CheckInService {
             company_id: companyId,
             person_id: personId,
             event_id: event.id,
-            check_in_date: today,
+            check_in_date: shiftDate,
             hours_slept: input.hoursSlept,
             sleep_quality: input.sleepQuality,
             stress_level: input.stressLevel,
@@ -211,6 +278,7 @@ export class CheckInService {
             stress_score: readiness.factors.stress,
             physical_score: readiness.factors.physical,
             pain_score: readiness.factors.pain ?? null,
+            scoring_model_version: scoringModel.version,
           },
           include: {
             person: {
@@ -224,17 +292,34 @@ export class CheckInService {
           },
         });
 
+        // RED/YELLOW: open the team lead follow-up with the check-in
+        const newFollowUp = await openReadinessFollowUp(tx, {
+          companyId,
+          checkInId: newCheckIn.id,
+          personId,
+          teamId: person.team!.id,
+          level: readiness.level,
+          ackMinutes: person.company.red_follow_up_ack_minutes,
+        });
+
         // Phase 2: If late submission, resolve existing missed check-in record
         // Resolution is part of the transaction to ensure atomicity.
         // Event emission happens AFTER commit to prevent orphan events on rollback.
-        let resolvedMissData: { missedCheckInId: string; lateByMinutes: number | null } | null = null;
-
-        if (event.is_late) {
+        // An offline replay can be on time by its device clock yet arrive after the
+        // cron recorded the miss. The device clock alone doesn't undo a miss the
+        // server saw: it resolves as late, measured from when the check-in arrived.
+        let resolvedMissData: {
+          missedCheckInId: string;
+          lateByMinutes: number | null;
+          disputedByClientTime: boolean;
+        } | null = null;
+
+        if (event.is_late || clientEventTime) {
           const existingMiss = await tx.missedCheckIn.findFirst({
             where: {
               company_id: companyId,
               person_id: personId,
-              missed_date: today,
+              missed_date: shiftDate,
               resolved_at: null,
             },
           });
@@ -249,39 +334,39 @@ export class CheckInService {
               },
             });
 
+            const disputedByClientTime = !event.is_late;
             resolvedMissData = {
               missedCheckInId: existingMiss.id,
-              lateByMinutes: event.late_by_minutes,
+              lateByMinutes: disputedByClientTime
+                ? this.minutesLateAtReceipt(shiftDateStr, scheduleWindow, receivedAt)
+                : event.late_by_minutes,
+              disputedByClientTime,
             };
 
             logger.info(
               { personId, missedCheckInId: existingMiss.id, checkInId: newCheckIn.id },
               'Resolved missed check-in via late submission'
             );
-          } else {
+          } else if (event.is_late) {
             // Scenario 3: Late check-in submitted BEFORE cron ran.
             // Create a MissedCheckIn record already resolved so the miss is tracked
             // in stats/dashboard. Without this, the cron would later see the check-in
             // exists and skip the worker — leaving no record of the miss.
             // Uses upsert to handle the rare race where cron inserts between our
             // findFirst and this write (unique constraint: [person_id, missed_date]).
-            const windowLabel = scheduleWindow
-              ? `${formatTime12h(scheduleWindow.start)} - ${formatTime12h(scheduleWindow.end)}`
-              : 'Unknown';
-
             const createdMiss = await tx.missedCheckIn.upsert({
               where: {
                 person_id_missed_date: {
                   person_id: personId,
-                  missed_date: today,
+                  missed_date: shiftDate,
                 },
               },
               create: {
                 company_id: companyId,
                 person_id: personId,
                 team_id: person.team!.id,
-                missed_date: today,
-                schedule_window: windowLabel,
+                missed_date: shiftDate,
+                schedule_window: scheduleLabel,
                 resolved_by_check_in_id: newCheckIn.id,
                 resolved_at: new Date(),
                 reminder_sent: false,
@@ -297,6 +382,7 @@ export class CheckInService {
             resolvedMissData = {
               missedCheckInId: createdMiss.id,
               lateByMinutes: event.late_by_minutes,
+              disputedByClientTime: false,
             };
 
             logger.info(
@@ -306,9 +392,44 @@ export class CheckInService {
           }
         }
 
-        return { checkIn: newCheckIn, resolvedMiss: resolvedMissData };
+        return { checkIn: newCheckIn, resolvedMiss: resolvedMissData, followUp: newFollowUp };
       });
 
+      // Post-commit: RED check-ins need the team lead's acknowledgement (fire-and-forget)
+      if (followUp?.readiness_level === 'RED') {
+        notifyRedCheckIn(prisma, companyId, this.timezone, {
+          ownerId: getFollowUpOwnerId(person.team, personId),
+          workerName: `${person.first_name} ${person.last_name}`,
+          acknowledgeBy: followUp.acknowledge_by,
+        });
+      }
+
+      // Post-commit: audit offline replays whose device time can't be taken on trust
+      if (clientEventTime) {
+        const offsetMinutes = Math.round(receivedAt.diff(now, 'minutes').minutes);
+        if (offsetMinutes >= CLIENT_EVENT_TIME_TOLERANCE.flagAfterMinutes || resolvedMiss?.disputedByClientTime) {
+          logAudit({
+            companyId,
+            personId,
+            action: 'CHECK_IN_CLIENT_TIME_FLAGGED',
+            entityType: 'check_in',
+            entityId: checkIn.id,
+            details: {
+              reportedAt: now.toISO(),
+              receivedAt: receivedAt.toISO(),
+              offsetMinutes,
+              ...(resolvedMiss?.disputedByClientTime && {
+                missedCheckInId: resolvedMiss.missedCheckInId,
+                lateByMinutes: resolvedMiss.lateByMinutes,
+              }),
+            },
+          });
+        }
+      }
+
+      // Post-commit: company alert rules over recent check-ins (fire-and-forget)
+      evaluateAlertRules(prisma, companyId, 'CHECK_IN_SUBMITTED', [personId], shiftDateStr);
+
       // Post-commit: emit MISSED_CHECK_IN_RESOLVED event (fire-and-forget).
       // Placed outside the transaction so orphan events are never created on rollback.
       if (resolvedMiss) {
@@ -322,7 +443,7 @@ export class CheckInService {
             missedCheckInId: resolvedMiss.missedCheckInId,
             checkInId: checkIn.id,
             lateByMinutes: resolvedMiss.lateByMinutes,
-            missedDate: todayStr,
+            missedDate: shiftDateStr,
           },
           timezone: this.timezone,
         });
@@ -372,19 +493,24 @@ export class CheckInService {
     const todayStr = now.toFormat('yyyy-MM-dd');
     const today = parseDateInTimezone(todayStr, this.timezone);
 
-    // All three queries are independent — run in parallel
-    const [hasCheckedInToday, person, holidayCheck] = await Promise.all([
+    // All four queries are independent — run in parallel
+    const [hasCheckedInToday, person, holidayCheck, leave] = await Promise.all([
       this.repository.existsForDate(personId, today),
       this.repository.getPersonWithTeam(personId),
       checkHolidayForDate(prisma, this.repository.getCompanyId(), todayStr),
+      this.repository.findApprovedLeave(personId, today),
     ]);
 
+    const leaveToday = findScheduleException(todayStr, leave);
+
     // Inactive account — cannot check in (getPersonWithTeam filters by is_active)
     if (!person) {
       return {
         isWorkDay: false,
         isHoliday: holidayCheck.isHoliday,
         holidayName: holidayCheck.holidayName,
+        isOnLeave: leaveToday !== null,
+        leaveType: leaveToday?.type ?? null,
         isWithinWindow: false,
         canCheckIn: false,
         hasCheckedInToday,
@@ -400,6 +526,8 @@ export class CheckInService {
         isWorkDay: false,
         isHoliday: holidayCheck.isHoliday,
         holidayName: holidayCheck.holidayName,
+        isOnLeave: leaveToday !== null,
+        leaveType: leaveToday?.type ?? null,
         isWithinWindow: false,
         canCheckIn: false,
         hasCheckedInToday,
@@ -415,6 +543,8 @@ export class CheckInService {
         isWorkDay: false,
         isHoliday: holidayCheck.isHoliday,
         holidayName: holidayCheck.holidayName,
+        isOnLeave: leaveToday !== null,
+        leaveType: leaveToday?.type ?? null,
         isWithinWindow: false,
         canCheckIn: false,
         hasCheckedInToday,
@@ -426,7 +556,7 @@ export class CheckInService {
 
     const team = person.team;
 
-    // Get effective schedule (worker override OR team default)
+    // Weekly work days for display; the shift decides today's windows
     const schedule = getEffectiveSchedule(
       {
         work_days: person.work_days,
@@ -440,49 +570,65 @@ export class CheckInService {
       }
     );
 
-    // Use snapshot values (not separate DateTime.now() calls)
-    const dayOfWeek = (now.weekday === 7 ? 0 : now.weekday).toString();
-    const currentTime = now.toFormat('HH:mm');
+    const { day, minutesIntoDay } = await this.resolveShift(person, team, leave, now);
+    const isOvernightShift = day.date !== todayStr;
+
+    // Last night's shift was already confirmed not to be a holiday, but its check-in is on that date
+    const isHoliday = !isOvernightShift && holidayCheck.isHoliday;
+    const hasCheckedIn = isOvernightShift
+      ? await this.repository.existsForDate(personId, parseDateInTimezone(day.date, this.timezone))
+      : hasCheckedInToday;
 
-    // Check if today is a work day
-    const isWorkDay = schedule.workDays.includes(dayOfWeek);
+    // Scheduled to work (leave is reported separately)
+    const isWorkDay = day.windows.length > 0;
+    const span = getScheduleSpan(day);
 
     // Check time window
-    const isWithinWindow = currentTime >= schedule.checkInStart && currentTime <= schedule.checkInEnd;
-    const isAfterWindow = currentTime > schedule.checkInEnd;
-    const isBeforeWindow = currentTime < schedule.checkInStart;
+    const { phase, next } = getWindowPhase(day, minutesIntoDay);
+    const isWithinWindow = isWorkDay && phase === 'open';
+    const isAfterWindow = isWorkDay && phase === 'closed';
+    const isBeforeWindow = isWorkDay && (phase === 'before' || phase === 'between');
 
     // Workers can check in if within window OR after window (late submission allowed)
-    // Only reject if before window opens
-    const canCheckIn = isWorkDay && !holidayCheck.isHoliday && !isBeforeWindow && !hasCheckedInToday;
+    // Only reject if before window opens (or between split-shift windows)
+    const canCheckIn =
+      isWorkDay && !isHoliday && !day.exception && !isBeforeWindow && !hasCheckedIn;
 
-    // Build message (holiday takes priority)
+    // Build message (holiday takes priority, then approved leave)
     let message: string;
-    if (hasCheckedInToday) {
+    if (hasCheckedIn) {
       message = 'You have already checked in today';
-    } else if (holidayCheck.isHoliday) {
+    } else if (isHoliday) {
       message = `Today is a holiday: ${holidayCheck.holidayName}`;
+    } else if (day.exception) {
+      message = 'You are on approved leave today. Check-in is not required.';
     } else if (!isWorkDay) {
       message = 'Today is not a scheduled work day for you';
-    } else if (isBeforeWindow) {
-      message = `Check-in window opens at ${schedule.checkInStart}`;
+    } else if (phase === 'before') {
+      message = `Check-in window opens at ${next?.start}`;
+    } else if (phase === 'between') {
+      message = `Next check-in window opens at ${next?.start}`;
     } else if (isAfterWindow) {
-      message = `Check-in window closed at ${schedule.checkInEnd}. You can still submit a late check-in.`;
+      message = `Check-in window closed at ${span?.end}. You can still submit a late check-in.`;
     } else {
       message = 'You can check in now';
     }
 
     return {
       isWorkDay,
-      isHoliday: holidayCheck.isHoliday,
-      holidayName: holidayCheck.holidayName,
+      isHoliday,
+      holidayName: isHoliday ? holidayCheck.holidayName : null,
+      isOnLeave: day.exception !== null,
+      leaveType: day.exception?.type ?? null,
       isWithinWindow,
       canCheckIn,
-      hasCheckedInToday,
+      hasCheckedInToday: hasCheckedIn,
       schedule: {
-        checkInStart: schedule.checkInStart,
-        checkInEnd: schedule.checkInEnd,
+        checkInStart: span?.start ?? schedule.checkInStart,
+        checkInEnd: span?.end ?? schedule.checkInEnd,
         workDays: schedule.workDays,
+        windows: day.windows,
+        source: day.source,
       },
       team: {
         id: team.id,
@@ -492,9 +638,68 @@ export class CheckInService {
     };
   }
 
-  private calculateReadiness(input: CheckInInput): ReadinessScore {
+  /**
+   * Which schedule date a check-in at `now` belongs to, and that date's schedule.
+   * Only an overnight roster window can hand the time to yesterday (see
+   * resolveShiftDate). Yesterday's holiday and leave are loaded only then, and a
+   * night off falls back to today.
+   *
+   * @param leave - Approved leave covering today
+   */
+  private async resolveShift(
+    person: PersonWithTeam,
+    team: NonNullable<PersonWithTeam['team']>,
+    leave: ScheduleException[],
+    now: DateTime
+  ): Promise<Shift> {
+    const todayStr = now.toFormat('yyyy-MM-dd');
+    const yesterdayStr = now.minus({ days: 1 }).toFormat('yyyy-MM-dd');
+    const currentTime = now.toFormat('HH:mm');
+
+    const personSchedule: PersonSchedule = {
+      work_days: person.work_days,
+      check_in_start: person.check_in_start,
+      check_in_end: person.check_in_end,
+      exceptions: leave,
+      roster: toRoster(person),
+    };
+    const teamSchedule: TeamSchedule = {
+      work_days: team.work_days,
+      check_in_start: team.check_in_start,
+      check_in_end: team.check_in_end,
+      roster: toRoster(team),
+    };
+
+    const today = resolveDaySchedule(personSchedule, teamSchedule, todayStr);
+    // Yesterday's leave is not loaded yet — confirmed below if the shift is claimed
+    const yesterday = resolveDaySchedule({ ...personSchedule, exceptions: null }, teamSchedule, yesterdayStr);
+
+    if (resolveShiftDate(currentTime, yesterday, today) === todayStr) {
+      return { day: today, minutesIntoDay: timeToMinutes(currentTime) };
+    }
+
+    const [holidayCheck, yesterdayLeave] = await Promise.all([
+      checkHolidayForDate(prisma, this.repository.getCompanyId(), yesterdayStr),
+      this.repository.findApprovedLeave(person.id, parseDateInTimezone(yesterdayStr, this.timezone)),
+    ]);
+    if (holidayCheck.isHoliday || findScheduleException(yesterdayStr, yesterdayLeave)) {
+      return { day: today, minutesIntoDay: timeToMinutes(currentTime) };
+    }
+
+    return { day: yesterday, minutesIntoDay: timeToMinutes(currentTime) + 24 * 60 };
+  }
+
+  /**
+   * Pure scoring function — also used by AmendmentService to recompute
+   * readiness when an approved amendment changes a check-in value.
+   * Weights, level thresholds, and sleep bands come from the company's scoring model.
+   */
+  calculateReadiness(
+    input: CheckInInput,
+    model: ScoringModelConfig = DEFAULT_SCORING_MODEL
+  ): ReadinessScore {
     // Sleep score (0-100)
-    const sleepScore = this.calculateSleepScore(input.hoursSlept, input.sleepQuality);
+    const sleepScore = this.calculateSleepScore(input.hoursSlept, input.sleepQuality, model);
 
     // Stress score (inverse - lower stress = higher score, 0-100 range)
     const stressScore = (10 - input.stressLevel) * 10;
@@ -508,20 +713,22 @@ export class CheckInService {
     const painScore = hasPain ? Math.round((10 - input.painLevel!) * 10) : null;
 
     // Overall weighted score
-    // With pain: Sleep 35%, Stress 25%, Physical 20%, Pain 20%
-    // Without pain: Sleep 40%, Stress 30%, Physical 30% (original weights)
+    // Default with pain: Sleep 35%, Stress 25%, Physical 20%, Pain 20%
+    // Default without pain: Sleep 40%, Stress 30%, Physical 30%
     let overall: number;
     if (painScore !== null) {
+      const w = model.weights.withPain;
       overall = Math.round(
-        sleepScore * 0.35 + stressScore * 0.25 + physicalScore * 0.20 + painScore * 0.20
+        sleepScore * w.sleep + stressScore * w.stress + physicalScore * w.physical + painScore * w.pain
       );
     } else {
+      const w = model.weights.withoutPain;
       overall = Math.round(
-        sleepScore * 0.4 + stressScore * 0.3 + physicalScore * 0.3
+        sleepScore * w.sleep + stressScore * w.stress + physicalScore * w.physical
       );
     }
 
-    const level = this.getReadinessLevel(overall);
+    const level = this.getReadinessLevel(overall, model);
 
     return {
       overall,
@@ -535,19 +742,62 @@ export class CheckInService {
     };
   }
 
-  private calculateSleepScore(hours: number, quality: number): number {
-    // Optimal sleep: 7-9 hours
+  /**
+   * Minutes between the close of the shift's check-in window and `receivedAt`.
+   * An overnight window (end before start) closes the day after the shift date.
+   */
+  private minutesLateAtReceipt(
+    shiftDateStr: string,
+    scheduleWindow: { start: string; end: string } | undefined,
+    receivedAt: DateTime
+  ): number | null {
+    if (!scheduleWindow) return null;
+    let closesAt = DateTime.fromISO(`${shiftDateStr}T${scheduleWindow.end}`, { zone: this.timezone });
+    if (scheduleWindow.end < scheduleWindow.start) closesAt = closesAt.plus({ days: 1 });
+    return Math.max(0, Math.round(receivedAt.diff(closesAt, 'minutes').minutes));
+  }
+
+  /**
+   * Snapshot to validate and record a submission against: server time, or the
+   * client-reported time of an offline-queued check-in within tolerance.
+   */
+  private resolveEventTime(eventTime: string | undefined, serverNow: DateTime): DateTime {
+    if (!eventTime) return serverNow;
+
+    const reported = DateTime.fromISO(eventTime);
+    if (!reported.isValid) {
+      throw new AppError('INVALID_EVENT_TIME', 'Invalid check-in time', 400);
+    }
+    if (reported > serverNow.plus({ minutes: CLIENT_EVENT_TIME_TOLERANCE.aheadMinutes })) {
+      throw new AppError(
+        'INVALID_EVENT_TIME',
+        'Check-in time is in the future. Check the date and time on your device.',
+        400
+      );
+    }
+    if (reported < serverNow.minus({ hours: CLIENT_EVENT_TIME_TOLERANCE.behindHours })) {
+      throw new AppError(
+        'EVENT_TIME_EXPIRED',
+        `Offline check-ins must be synced within ${CLIENT_EVENT_TIME_TOLERANCE.behindHours} hours. Please check in again.`,
+        400
+      );
+    }
+
+    return reported.setZone(this.timezone);
+  }
+
+  private calculateSleepScore(hours: number, quality: number, model: ScoringModelConfig): number {
+    // Default optimal sleep: 7-9 hours
+    const { sleep } = model;
     let hoursScore: number;
-    if (hours >= 7 && hours <= 9) {
-      hoursScore = 100;
-    } else if (hours >= 6 && hours < 7) {
-      hoursScore = 80;
-    } else if (hours >= 5 && hours < 6) {
-      hoursScore = 60;
-    } else if (hours < 5) {
-      hoursScore = 40;
+    if (hours >= sleep.optimalMinHours && hours <= sleep.optimalMaxHours) {
+      hoursScore = sleep.optimalScore;
+    } else if (hours > sleep.optimalMaxHours) {
+      hoursScore = sleep.oversleepScore;
     } else {
-      hoursScore = 90; // > 9 hours
+      // Bands are ordered highest minHours first
+      const band = sleep.bands.find((b) => hours >= b.minHours);
+      hoursScore = band ? band.score : sleep.minimumScore;
     }
 
     // Combine with quality (1-10 scale)
@@ -555,9 +805,9 @@ export class CheckInService {
     return Math.round((hoursScore + qualityScore) / 2);
   }
 
-  private getReadinessLevel(score: number): ReadinessLevel {
-    if (score >= 70) return 'GREEN';
-    if (score >= 50) return 'YELLOW';
+  private getReadinessLevel(score: number, model: ScoringModelConfig): ReadinessLevel {
+    if (score >= model.thresholds.green) return 'GREEN';
+    if (score >= model.thresholds.yellow) return 'YELLOW';
     return 'RED';
   }
 }
@@ -10,7 +10,18 @@ export const submitCheckInSchema = z.object({
   painLocation: z.string().max(100).optional(),
   physicalConditionNotes: z.string().max(500).optional(),
   notes: z.string().max(500).optional(),
+  // Device time of a check-in queued offline (ISO 8601 with offset). Omitted for live
+  // submissions — the server clock is used. See CLIENT_EVENT_TIME_TOLERANCE.
+  eventTime: z.string().datetime({ offset: true }).optional(),
+  // Set by the offline queue when it replays a submission — eventTime is only accepted with it
+  offlineReplay: z.literal(true).optional(),
 }).refine(
+  (data) => !data.eventTime || data.offlineReplay === true,
+  {
+    message: 'Event time is only accepted for check-ins queued offline',
+    path: ['eventTime'],
+  }
+).refine(
   (data) => {
     if (data.painLevel && data.painLevel > 0 && !data.painLocation?.trim()) {
       return false;
@@ -13,7 +13,25 @@ import {
   buildDateLookup,
 } from '../../shared/utils';
 import { checkHolidayForDate, buildHolidayDateSet } from '../../shared/holiday.utils';
-import { getEffectiveSchedule } from '../../shared/schedule.utils';
+import {
+  getEffectiveSchedule,
+  findScheduleException,
+  resolveDaySchedule,
+  getScheduleSpan,
+  getWindowPhase,
+  timeToMinutes,
+} from '../../shared/schedule.utils';
+import { approvedLeaveOn } from '../leave/leave.repository';
+import { rosterSelect, toRoster } from '../roster/roster.repository';
+
+/** Leave as shown on the worker dashboard (dates are @db.Date → YYYY-MM-DD) */
+function toLeaveSummary(leave: { type: string; start_date: Date; end_date: Date }) {
+  return {
+    type: leave.type,
+    startDate: leave.start_date.toISOString().slice(0, 10),
+    endDate: leave.end_date.toISOString().slice(0, 10),
+  };
+}
 
 // Helper to convert readiness level to category
 function levelToCategory(level: string): 'ready' | 'modified_duty' | 'needs_attention' | 'not_ready' {
@@ -43,6 +61,7 @@ export class DashboardService {
 
     // All 3 query groups are independent — run in parallel
     const thirtyDaysAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const thirtyDaysAhead = new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000);
 
     const [person, recentCheckIns, holidayCheck, holidayDateSet] = await Promise.all([
       // Get worker's assignment date, personal overrides, and team schedule
@@ -53,7 +72,14 @@ export class DashboardService {
           work_days: true,
           check_in_start: true,
           check_in_end: true,
-          team: { select: { work_days: true, check_in_start: true, check_in_end: true } },
+          ...rosterSelect,
+          team: { select: { work_days: true, check_in_start: true, check_in_end: true, ...rosterSelect } },
+          // Approved leave from 30 days back (streak & completion rate) to 30 days ahead (upcoming)
+          leave_requests: {
+            where: { status: 'APPROVED', start_date: { lte: thirtyDaysAhead }, end_date: { gte: thirtyDaysAgo } },
+            select: { type: true, start_date: true, end_date: true },
+            orderBy: { start_date: 'asc' },
+          },
           effective_team_id: true,
           effective_transfer_date: true,
           effective_team: { select: { id: true, name: true, check_in_start: true, check_in_end: true, work_days: true } },
@@ -105,6 +131,7 @@ export class DashboardService {
           isWorkDay: false,
           isHoliday: holidayCheck.isHoliday,
           holidayName: holidayCheck.holidayName,
+          leave: null,
           isAssignedToday: false,
           windowOpen: false,
           windowClosed: false,
@@ -112,46 +139,70 @@ export class DashboardService {
           checkInEnd: '00:00',
         },
         pendingTransfer: null,
+        upcomingLeave: null,
       };
     }
 
     const teamAssignedAt = person?.team_assigned_at
       ? parseDateInTimezone(formatDateInTimezone(new Date(person.team_assigned_at), timezone), timezone)
       : null;
-    // Resolve effective schedule: person override → team default
-    const effectiveSchedule = getEffectiveSchedule(
-      { work_days: person?.work_days, check_in_start: person?.check_in_start, check_in_end: person?.check_in_end },
-      { work_days: person?.team?.work_days ?? '1,2,3,4,5', check_in_start: person?.team?.check_in_start ?? '06:00', check_in_end: person?.team?.check_in_end ?? '10:00' }
-    );
-    const workDays = effectiveSchedule.workDays.map(Number);
-    const checkInStart = effectiveSchedule.checkInStart;
-    const checkInEnd = effectiveSchedule.checkInEnd;
+    // Resolve schedule per date: roster → person override → team default
+    const personSchedule = {
+      work_days: person.work_days,
+      check_in_start: person.check_in_start,
+      check_in_end: person.check_in_end,
+      roster: toRoster(person),
+    };
+    const teamSchedule = {
+      work_days: person.team.work_days ?? '1,2,3,4,5',
+      check_in_start: person.team.check_in_start ?? '06:00',
+      check_in_end: person.team.check_in_end ?? '10:00',
+      roster: toRoster(person.team),
+    };
+    const isScheduledOn = (dateStr: string): boolean =>
+      resolveDaySchedule(personSchedule, teamSchedule, dateStr).windows.length > 0;
 
-    // Determine today's schedule context
+    // Determine today's schedule context (first window start → last window end)
     const currentTime = getCurrentTimeInTimezone(timezone);
-    const dayOfWeek = getDayOfWeekInTimezone(timezone);
-    const isWorkDay = workDays.includes(dayOfWeek);
+    const todaySchedule = resolveDaySchedule(personSchedule, teamSchedule, todayStr);
+    const isWorkDay = todaySchedule.windows.length > 0;
+    const span = getScheduleSpan(todaySchedule);
+    const effectiveSchedule = getEffectiveSchedule(personSchedule, teamSchedule);
+    const checkInStart = span?.start ?? effectiveSchedule.checkInStart;
+    const checkInEnd = span?.end ?? effectiveSchedule.checkInEnd;
+    const { phase } = getWindowPhase(todaySchedule, timeToMinutes(currentTime));
     const isAssignedToday = teamAssignedAt
       ? formatDateInTimezone(teamAssignedAt, timezone) === todayStr
       : false;
     // Window open/closed are independent of assignment date
     // If assigned today and window is still open, worker CAN check in
     // If assigned today and window already closed, worker is NOT penalized (not counted as missed)
-    const windowOpen = isWorkDay && currentTime >= checkInStart && currentTime <= checkInEnd;
-    const windowClosed = isWorkDay && currentTime > checkInEnd;
+    const windowOpen = isWorkDay && phase === 'open';
+    const windowClosed = isWorkDay && phase === 'closed';
+
+    // Approved leave takes days out of the schedule, like holidays
+    const leave = person.leave_requests;
+    const isLeaveDay = (dateStr: string): boolean => findScheduleException(dateStr, leave) !== null;
+    const leaveToday = findScheduleException(todayStr, leave);
+    const isDayOff = holidayCheck.isHoliday || leaveToday !== null;
 
     // Schedule context for frontend
     const schedule = {
-      isWorkDay: isWorkDay && !holidayCheck.isHoliday,
+      isWorkDay: isWorkDay && !isDayOff,
       isHoliday: holidayCheck.isHoliday,
       holidayName: holidayCheck.holidayName,
+      leave: leaveToday ? toLeaveSummary(leaveToday) : null,
       isAssignedToday,
-      windowOpen: windowOpen && !holidayCheck.isHoliday,
-      windowClosed: windowClosed && !holidayCheck.isHoliday,
+      windowOpen: windowOpen && !isDayOff,
+      windowClosed: windowClosed && !isDayOff,
       checkInStart,
       checkInEnd,
     };
 
+    // Next approved leave starting after today
+    const nextLeave = leave.find((l) => l.start_date.toISOString().slice(0, 10) > todayStr);
+    const upcomingLeave = nextLeave ? toLeaveSummary(nextLeave) : null;
+
     // Build pending transfer info
     const pendingTransfer = person?.effective_team_id ? {
       teamId: person.effective_team_id,
@@ -177,6 +228,7 @@ export class DashboardService {
         memberSince: teamAssignedAt?.toISOString() || null,
         schedule,
         pendingTransfer,
+        upcomingLeave,
       };
     }
 
@@ -205,18 +257,17 @@ export class DashboardService {
 
     // Calculate streak - count consecutive work days with check-ins backwards
     // Start from yesterday (i=1), then optionally add today if checked in.
-    // Holidays and non-work days don't break the streak (they are skipped).
+    // Holidays, leave and non-work days don't break the streak (they are skipped).
     let streak = 0;
     for (let i = dateRange30d.length - 1; i >= 0; i--) {
       const day = dateRange30d[i]!;
       if (day.dateStr >= todayStr) continue; // Skip today
 
-      const dow = parseInt(day.dow, 10);
       const isHolidayDay = holidayDateSet.has(day.dateStr);
-      const isScheduledWorkDay = workDays.includes(dow);
+      const isScheduledWorkDay = isScheduledOn(day.dateStr);
 
-      // Skip holidays and non-work days (they don't break or contribute to streak)
-      if (isHolidayDay || !isScheduledWorkDay) continue;
+      // Skip holidays, leave and non-work days (they don't break or contribute to streak)
+      if (isHolidayDay || !isScheduledWorkDay || isLeaveDay(day.dateStr)) continue;
 
       if (checkInDates.has(day.dateStr)) {
         streak++;
@@ -277,12 +328,11 @@ export class DashboardService {
     // today would deflate the completion rate prematurely.
     const weekDays = Math.ceil((today.getTime() - effectiveStart.getTime()) / (24 * 60 * 60 * 1000)) + 1;
     const weekRange = precomputeDateRange(effectiveStart, Math.min(weekDays, 8), timezone);
-    const todayWindowOpened = currentTime >= checkInStart;
+    const todayWindowOpened = phase !== 'before';
     let requiredDays = 0;
     for (const day of weekRange) {
       if (day.dateStr > todayStr) break;
-      const dow = parseInt(day.dow, 10);
-      if (workDays.includes(dow) && !holidayDateSet.has(day.dateStr)) {
+      if (isScheduledOn(day.dateStr) && !holidayDateSet.has(day.dateStr) && !isLeaveDay(day.dateStr)) {
         // Skip today if the check-in window hasn't opened yet
         if (day.dateStr === todayStr && !todayWindowOpened) continue;
         requiredDays++;
@@ -322,6 +372,7 @@ export class DashboardService {
       memberSince: teamAssignedAt?.toISOString() || null,
       schedule,
       pendingTransfer,
+      upcomingLeave,
     };
   }
 
@@ -344,7 +395,7 @@ export class DashboardService {
         leader_id: personId,
         is_active: true,
       },
-      select: { id: true, name: true, check_in_start: true, check_in_end: true, work_days: true },
+      select: { id: true, name: true, check_in_start: true, check_in_end: true, work_days: true, ...rosterSelect },
     });
 
     // Base response for leaders without teams
@@ -377,7 +428,8 @@ export class DashboardService {
         },
         select: {
           id: true, first_name: true, last_name: true, email: true, team_assigned_at: true,
-          work_days: true, check_in_start: true, check_in_end: true,
+          work_days: true, check_in_start: true, check_in_end: true, ...rosterSelect,
+          leave_requests: approvedLeaveOn(today),
           effective_team_id: true,
           effective_team: { select: { name: true } },
         },
@@ -412,8 +464,7 @@ export class DashboardService {
     };
 
     // Current time context (shared across all workers)
-    const currentTime = getCurrentTimeInTimezone(timezone);
-    const dayOfWeekStr = getDayOfWeekInTimezone(timezone).toString();
+    const currentMinutes = timeToMinutes(getCurrentTimeInTimezone(timezone));
 
     // Build member statuses with per-worker schedule overrides
     let newlyAssignedCount = 0;
@@ -425,15 +476,16 @@ export class DashboardService {
       const checkIn = checkInMap.get(member.id);
       const assignedToday = isAssignedToday(member.team_assigned_at);
 
-      // Per-worker effective schedule (person override → team default)
-      const memberSchedule = getEffectiveSchedule(
-        { work_days: member.work_days, check_in_start: member.check_in_start, check_in_end: member.check_in_end },
-        { work_days: ledTeam.work_days ?? '1,2,3,4,5', check_in_start: ledTeam.check_in_start ?? '06:00', check_in_end: ledTeam.check_in_end ?? '10:00' }
+      // Per-worker effective schedule (person override → team default) and today's leave
+      const memberDay = resolveDaySchedule(
+        { work_days: member.work_days, check_in_start: member.check_in_start, check_in_end: member.check_in_end, roster: toRoster(member), exceptions: member.leave_requests },
+        { work_days: ledTeam.work_days ?? '1,2,3,4,5', check_in_start: ledTeam.check_in_start ?? '06:00', check_in_end: ledTeam.check_in_end ?? '10:00', roster: toRoster(ledTeam) },
+        todayStr
       );
-      const memberIsWorkDay = memberSchedule.workDays.includes(dayOfWeekStr) && !holidayCheck.isHoliday;
-      const memberWindowClosed = currentTime > memberSchedule.checkInEnd;
+      const memberIsWorkDay = memberDay.isWorkDay && !holidayCheck.isHoliday;
+      const memberWindowClosed = getWindowPhase(memberDay, currentMinutes).phase === 'closed';
 
-      // Determine status: submitted > not_required (holiday/new/day off) > missed (window closed) > pending.
+      // Determine status: submitted > not_required (holiday/new/leave/day off) > missed (window closed) > pending.
       // Newly assigned workers are always not_required regardless of window state — they shouldn't
       // be expected to check in on their first day (matches missed-check-in detector logic).
       let status: 'submitted' | 'pending' | 'not_required' | 'missed';
@@ -470,6 +522,7 @@ export class DashboardService {
         readinessScore: checkIn?.readiness_score,
         transferringOut: !!member.effective_team_id,
         transferringToTeam: member.effective_team?.name ?? null,
+        leaveType: memberDay.exception?.type ?? null,
       };
     });
 
@@ -477,7 +530,7 @@ export class DashboardService {
       ? Math.round(teamCheckIns.reduce((sum, c) => sum + c.readiness_score, 0) / teamCheckIns.length)
       : 0;
 
-    // Expected check-ins = team size minus workers not required today (day off, holiday, newly assigned)
+    // Expected check-ins = team size minus workers not required today (day off, leave, holiday, newly assigned)
     const expectedCheckIns = teamMembers.length - notRequiredCount;
 
     // Compliance rate: submitted / expected (avoid division by zero)
@@ -531,6 +584,7 @@ export class DashboardService {
         work_days: true,
         check_in_start: true,
         check_in_end: true,
+        ...rosterSelect,
         leader: { select: { id: true, first_name: true, last_name: true } },
       },
     });
@@ -567,6 +621,8 @@ export class DashboardService {
           work_days: true,
           check_in_start: true,
           check_in_end: true,
+          ...rosterSelect,
+          leave_requests: approvedLeaveOn(today),
         },
       }),
       // Get today's check-ins (team_id resolved via allWorkers map, no join needed)
@@ -616,7 +672,6 @@ export class DashboardService {
 
     // Current time context (shared across all workers)
     const currentTime = getCurrentTimeInTimezone(timezone);
-    const dayOfWeekStr = getDayOfWeekInTimezone(timezone).toString();
     // Helper to check if worker was assigned today
     // Uses company timezone for proper date comparison
     const isAssignedToday = (assignedAt: Date | null): boolean => {
@@ -650,14 +705,15 @@ export class DashboardService {
           continue;
         }
 
-        // Per-worker effective schedule (person override → team default)
-        const memberSchedule = getEffectiveSchedule(
-          { work_days: worker.work_days, check_in_start: worker.check_in_start, check_in_end: worker.check_in_end },
-          { work_days: team.work_days ?? '1,2,3,4,5', check_in_start: team.check_in_start ?? '06:00', check_in_end: team.check_in_end ?? '10:00' }
+        // Per-worker effective schedule (person override → team default) and today's leave
+        const memberDay = resolveDaySchedule(
+          { work_days: worker.work_days, check_in_start: worker.check_in_start, check_in_end: worker.check_in_end, roster: toRoster(worker), exceptions: worker.leave_requests },
+          { work_days: team.work_days ?? '1,2,3,4,5', check_in_start: team.check_in_start ?? '06:00', check_in_end: team.check_in_end ?? '10:00', roster: toRoster(team) },
+          todayStr
         );
 
-        // Day off → not required
-        if (!memberSchedule.workDays.includes(dayOfWeekStr)) {
+        // Day off or on approved leave → not required
+        if (!memberDay.isWorkDay) {
           notRequiredCount++;
         }
       }
@@ -741,7 +797,7 @@ export class DashboardService {
 
   /**
    * Get team summary stats for a specific team.
-   * Schedule-aware: accounts for holidays, non-work days, and newly assigned
+   * Schedule-aware: accounts for holidays, non-work days, approved leave and newly assigned
    * workers when calculating expectedCheckIns (matches team lead dashboard pattern).
    */
   async getTeamSummary(teamId: string): Promise<TeamSummary> {
@@ -753,7 +809,7 @@ export class DashboardService {
 
     const team = await prisma.team.findFirst({
       where: { id: teamId, company_id: this.companyId },
-      select: { id: true, name: true, work_days: true, check_in_start: true, check_in_end: true },
+      select: { id: true, name: true, work_days: true, check_in_start: true, check_in_end: true, ...rosterSelect },
     });
 
     if (!team) {
@@ -770,6 +826,8 @@ export class DashboardService {
           work_days: true,
           check_in_start: true,
           check_in_end: true,
+          ...rosterSelect,
+          leave_requests: approvedLeaveOn(today),
         },
       }),
       prisma.checkIn.groupBy({
@@ -805,9 +863,8 @@ export class DashboardService {
       : 0;
 
     // Schedule-aware expected check-ins calculation.
-    // Excludes workers who are not required today (holiday, day off, newly assigned after window).
+    // Excludes workers who are not required today (holiday, day off, leave, newly assigned after window).
     const currentTime = getCurrentTimeInTimezone(timezone);
-    const dayOfWeekStr = getDayOfWeekInTimezone(timezone).toString();
     let notRequiredCount = 0;
 
     for (const worker of workers) {
@@ -816,13 +873,14 @@ export class DashboardService {
         continue;
       }
 
-      const memberSchedule = getEffectiveSchedule(
-        { work_days: worker.work_days, check_in_start: worker.check_in_start, check_in_end: worker.check_in_end },
-        { work_days: team.work_days ?? '1,2,3,4,5', check_in_start: team.check_in_start ?? '06:00', check_in_end: team.check_in_end ?? '10:00' }
+      const memberDay = resolveDaySchedule(
+        { work_days: worker.work_days, check_in_start: worker.check_in_start, check_in_end: worker.check_in_end, roster: toRoster(worker), exceptions: worker.leave_requests },
+        { work_days: team.work_days ?? '1,2,3,4,5', check_in_start: team.check_in_start ?? '06:00', check_in_end: team.check_in_end ?? '10:00', roster: toRoster(team) },
+        todayStr
       );
 
-      // Day off
-      if (!memberSchedule.workDays.includes(dayOfWeekStr)) {
+      // Day off or on approved leave
+      if (!memberDay.isWorkDay) {
         notRequiredCount++;
         continue;
       }
@@ -44,6 +44,11 @@ function formatEventMessage(
       const caseNum = payload.caseNumber || payload.case_number || '';
       return `Case #${caseNum} resolved by ${actor}`;
     }
+    case 'CASE_ASSIGNED': {
+      const caseNum = payload.caseNumber || payload.case_number || '';
+      const assignee = payload.assigneeName || '';
+      return `Case #${caseNum} assigned to ${assignee} by ${actor}`;
+    }
     default:
       return `${eventType} by ${actor}`;
   }
@@ -68,7 +73,8 @@ function buildActionUrl(
   if (caseId && (
     eventType === 'CASE_CREATED' ||
     eventType === 'CASE_UPDATED' ||
-    eventType === 'CASE_RESOLVED'
+    eventType === 'CASE_RESOLVED' ||
+    eventType === 'CASE_ASSIGNED'
   )) {
     return `/admin/cases/${String(caseId)}`;
   }
@@ -177,6 +183,7 @@ export class WhsDashboardService {
               'CASE_CREATED',
               'CASE_UPDATED',
               'CASE_RESOLVED',
+              'CASE_ASSIGNED',
             ],
           },
         },
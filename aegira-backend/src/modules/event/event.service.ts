@@ -19,6 +19,10 @@ export interface CreateEventInput {
    *  When provided, avoids re-reading DateTime.now() for late detection,
    *  ensuring consistency with the caller's time checks. */
   capturedTimeHHmm?: string;
+  /** When the event happened, if not now — e.g. the device time of a check-in
+   *  queued offline. Becomes event_time, and lateness is judged from it;
+   *  ingested_at stays the server arrival time. */
+  eventTime?: Date;
 }
 
 interface LateDetectionResult {
@@ -27,8 +31,12 @@ interface LateDetectionResult {
 }
 
 /**
- * Detect if current time is past the schedule window end.
+ * Detect if the event time is past the schedule window end.
  * Only applies when a scheduleWindow is provided.
+ *
+ * Overnight windows (end before start, e.g. 22:00-02:00) are on time from the
+ * start through midnight to the end; late submissions land after the end the
+ * next morning, so lateness is still measured from the end.
  */
 function detectLateSubmission(
   currentTimeHHmm: string,
@@ -38,7 +46,12 @@ function detectLateSubmission(
     return { isLate: false, lateByMinutes: null };
   }
 
-  if (currentTimeHHmm <= scheduleWindow.end) {
+  const isOvernight = scheduleWindow.end < scheduleWindow.start;
+  const onTime = isOvernight
+    ? currentTimeHHmm >= scheduleWindow.start || currentTimeHHmm <= scheduleWindow.end
+    : currentTimeHHmm <= scheduleWindow.end;
+
+  if (onTime) {
     return { isLate: false, lateByMinutes: null };
   }
 
@@ -57,7 +70,7 @@ function detectLateSubmission(
  * Separated from DB call to support both standalone and transaction usage.
  */
 export function buildEventData(input: CreateEventInput): Prisma.EventUncheckedCreateInput {
-  const now = DateTime.now().setZone(input.timezone);
+  const now = (input.eventTime ? DateTime.fromJSDate(input.eventTime) : DateTime.now()).setZone(input.timezone);
   const eventTime = now.toJSDate();
   const ingestedAt = new Date(); // UTC server time
   // Use caller's captured time if provided, otherwise read from clock.
@@ -65,6 +78,11 @@ export function buildEventData(input: CreateEventInput): Prisma.EventUncheckedCr
   // when the two DateTime.now() reads straddle the window boundary.
   const currentTimeHHmm = input.capturedTimeHHmm ?? now.toFormat('HH:mm');
 
+  // Kept with the event so a device clock that was trusted can be checked later
+  const clientTimeOffsetSeconds = input.eventTime
+    ? Math.round((ingestedAt.getTime() - eventTime.getTime()) / 1000)
+    : null;
+
   const { isLate, lateByMinutes } = detectLateSubmission(
     currentTimeHHmm,
     input.scheduleWindow
@@ -82,6 +100,7 @@ export function buildEventData(input: CreateEventInput): Prisma.EventUncheckedCr
     event_timezone: input.timezone,
     is_late: isLate,
     late_by_minutes: lateByMinutes,
+    client_time_offset_seconds: clientTimeOffsetSeconds,
   };
 }
 
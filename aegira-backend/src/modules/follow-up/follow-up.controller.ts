@@ -0,0 +1,112 @@
+import type { Context } from 'hono';
+import { FollowUpRepository, type FollowUpWithRelations } from './follow-up.repository';
+import { FollowUpService } from './follow-up.service';
+import type { ResolveFollowUpInput } from './follow-up.validator';
+import { prisma } from '../../config/database';
+import { getTeamContext } from '../../shared/team-context';
+
+interface FollowUpResponse {
+  id: string;
+  checkInId: string;
+  personId: string;
+  workerName: string;
+  teamName: string;
+  checkInDate: string;
+  checkInTime: string;
+  readinessScore: number;
+  readinessLevel: string;
+  status: string;
+  acknowledgeBy: string | null;
+  isOverdue: boolean;
+  acknowledgedAt: string | null;
+  escalatedAt: string | null;
+  outcome: string | null;
+  notes: string | null;
+  resolvedAt: string | null;
+}
+
+function mapFollowUpToResponse(followUp: FollowUpWithRelations, now = new Date()): FollowUpResponse {
+  return {
+    id: followUp.id,
+    checkInId: followUp.check_in_id,
+    personId: followUp.person_id,
+    workerName: `${followUp.person.first_name} ${followUp.person.last_name}`,
+    teamName: followUp.team.name,
+    checkInDate: followUp.check_in.check_in_date.toISOString().slice(0, 10),
+    checkInTime: followUp.check_in.created_at.toISOString(),
+    readinessScore: followUp.check_in.readiness_score,
+    readinessLevel: followUp.readiness_level,
+    status: followUp.status,
+    acknowledgeBy: followUp.acknowledge_by?.toISOString() ?? null,
+    isOverdue: followUp.status === 'OPEN' && !!followUp.acknowledge_by && followUp.acknowledge_by < now,
+    acknowledgedAt: followUp.acknowledged_at?.toISOString() ?? null,
+    escalatedAt: followUp.escalated_at?.toISOString() ?? null,
+    outcome: followUp.outcome,
+    notes: followUp.notes,
+    resolvedAt: followUp.resolved_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * GET /api/v1/follow-ups/open
+ * Unresolved follow-ups — TEAM_LEAD sees their team, SUPERVISOR their supervised teams, ADMIN all.
+ */
+export async function getOpenFollowUps(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+
+  const { teamIds } = await getTeamContext(companyId, userId, userRole, c.get('companyTimezone') as string);
+
+  // No teams assigned — nothing to follow up
+  if (teamIds !== null && teamIds.length === 0) {
+    return c.json({ success: true, data: { items: [] } });
+  }
+
+  const items = await new FollowUpRepository(prisma, companyId).findUnresolved(teamIds, userId);
+  const now = new Date();
+
+  return c.json({
+    success: true,
+    data: { items: items.map((item) => mapFollowUpToResponse(item, now)) },
+  });
+}
+
+/**
+ * PATCH /api/v1/follow-ups/:id/acknowledge
+ * Acknowledge — stops a RED follow-up from escalating.
+ */
+export async function acknowledgeFollowUp(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const id = c.req.param('id');
+
+  const followUp = await new FollowUpService(prisma).acknowledge(id, companyId, {
+    id: userId,
+    role: userRole,
+  });
+
+  return c.json({ success: true, data: mapFollowUpToResponse(followUp) });
+}
+
+/**
+ * PATCH /api/v1/follow-ups/:id/resolve
+ * Record the outcome (cleared, modified duty, stood down, sent home).
+ */
+export async function resolveFollowUp(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as ResolveFollowUpInput;
+
+  const followUp = await new FollowUpService(prisma).resolve(
+    id,
+    companyId,
+    { id: userId, role: userRole },
+    data
+  );
+
+  return c.json({ success: true, data: mapFollowUpToResponse(followUp) });
+}
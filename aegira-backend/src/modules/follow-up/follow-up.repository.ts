@@ -0,0 +1,41 @@
+import type { PrismaClient, Prisma, ReadinessFollowUp } from '@prisma/client';
+import { BaseRepository } from '../../shared/base.repository';
+
+export type FollowUpWithRelations = ReadinessFollowUp & {
+  person: { id: string; first_name: string; last_name: string };
+  team: { id: string; name: string };
+  check_in: { check_in_date: Date; readiness_score: number; created_at: Date };
+};
+
+export class FollowUpRepository extends BaseRepository {
+  constructor(prisma: PrismaClient, companyId: string) {
+    super(prisma, companyId);
+  }
+
+  private readonly include = {
+    person: { select: { id: true, first_name: true, last_name: true } },
+    team: { select: { id: true, name: true } },
+    check_in: { select: { check_in_date: true, readiness_score: true, created_at: true } },
+  } as const;
+
+  /**
+   * Open and acknowledged follow-ups — RED before YELLOW, oldest first.
+   * @param teamIds null = all teams (ADMIN)
+   * @param excludePersonId reviewers never see follow-ups on their own check-ins
+   */
+  async findUnresolved(teamIds: string[] | null, excludePersonId: string): Promise<FollowUpWithRelations[]> {
+    const where: Prisma.ReadinessFollowUpWhereInput = {
+      company_id: this.companyId,
+      status: { in: ['OPEN', 'ACKNOWLEDGED'] },
+      person_id: { not: excludePersonId },
+      ...(teamIds && { team_id: { in: teamIds } }),
+    };
+
+    return this.prisma.readinessFollowUp.findMany({
+      where,
+      include: this.include,
+      // Enum order is GREEN, YELLOW, RED — descending puts RED first
+      orderBy: [{ readiness_level: 'desc' }, { created_at: 'asc' }],
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { authMiddleware } from '../../middleware/auth';
+import { tenantMiddleware } from '../../middleware/tenant';
+import { roleMiddleware } from '../../middleware/role';
+import * as controller from './follow-up.controller';
+import { resolveFollowUpSchema } from './follow-up.validator';
+
+const router = new Hono();
+
+router.use('*', authMiddleware);
+router.use('*', tenantMiddleware);
+
+const reviewers = roleMiddleware(['TEAM_LEAD', 'SUPERVISOR', 'ADMIN']);
+
+// IMPORTANT: Specific routes BEFORE parameterized routes
+
+// GET /api/v1/follow-ups/open — unresolved follow-ups (team-scoped)
+router.get('/open', reviewers, controller.getOpenFollowUps);
+
+// PATCH /api/v1/follow-ups/:id/acknowledge — acknowledge (stops RED escalation)
+router.patch('/:id/acknowledge', reviewers, controller.acknowledgeFollowUp);
+
+// PATCH /api/v1/follow-ups/:id/resolve — record the outcome
+router.patch(
+  '/:id/resolve',
+  reviewers,
+  zValidator('json', resolveFollowUpSchema),
+  controller.resolveFollowUp
+);
+
+export { router as followUpRoutes };
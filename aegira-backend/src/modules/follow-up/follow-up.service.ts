@@ -0,0 +1,253 @@
+import type {
+  PrismaClient,
+  Prisma,
+  ReadinessFollowUp,
+  ReadinessFollowUpOutcome,
+  ReadinessFollowUpStatus,
+  ReadinessLevel,
+} from '@prisma/client';
+import type { FollowUpWithRelations } from './follow-up.repository';
+import type { ResolveFollowUpInput } from './follow-up.validator';
+import { DateTime } from 'luxon';
+import { AppError } from '../../shared/errors';
+import { logAudit } from '../../shared/audit';
+import { sendNotification } from '../notification/notification.service';
+
+const VALID_TRANSITIONS: Record<ReadinessFollowUpStatus, ReadinessFollowUpStatus[]> = {
+  OPEN: ['ACKNOWLEDGED', 'RESOLVED'],
+  ACKNOWLEDGED: ['RESOLVED'],
+  RESOLVED: [],
+};
+
+export const FOLLOW_UP_OUTCOME_LABELS: Record<ReadinessFollowUpOutcome, string> = {
+  CLEARED: 'Cleared for normal duties',
+  MODIFIED_DUTY: 'Modified duties',
+  STOOD_DOWN: 'Stood down for the shift',
+  SENT_HOME: 'Sent home',
+};
+
+/** Same relation shape as FollowUpRepository.include */
+const FOLLOW_UP_INCLUDE = {
+  person: { select: { id: true, first_name: true, last_name: true } },
+  team: { select: { id: true, name: true } },
+  check_in: { select: { check_in_date: true, readiness_score: true, created_at: true } },
+} as const;
+
+interface Reviewer {
+  id: string;
+  role: string;
+}
+
+/**
+ * Who has to act on a follow-up: the team lead, or the supervisor when the
+ * check-in is the team lead's own. Null if that role is not filled.
+ */
+export function getFollowUpOwnerId(
+  team: { leader_id: string; supervisor_id: string | null },
+  personId: string
+): string | null {
+  return team.leader_id === personId ? team.supervisor_id : team.leader_id;
+}
+
+export interface OpenFollowUpData {
+  companyId: string;
+  checkInId: string;
+  personId: string;
+  teamId: string;
+  level: ReadinessLevel;
+  ackMinutes: number;
+}
+
+/**
+ * Open the follow-up for a RED or YELLOW check-in (GREEN needs none).
+ * Call inside the check-in transaction so an unfit check-in is never stored
+ * without one. The RED acknowledgement deadline runs from when the server
+ * received the check-in — an offline-queued one is just as urgent on arrival.
+ */
+export async function openReadinessFollowUp(
+  tx: Prisma.TransactionClient,
+  data: OpenFollowUpData
+): Promise<ReadinessFollowUp | null> {
+  if (data.level === 'GREEN') return null;
+
+  return tx.readinessFollowUp.create({
+    data: {
+      company_id: data.companyId,
+      check_in_id: data.checkInId,
+      person_id: data.personId,
+      team_id: data.teamId,
+      readiness_level: data.level,
+      acknowledge_by:
+        data.level === 'RED' ? new Date(Date.now() + data.ackMinutes * 60_000) : null,
+    },
+  });
+}
+
+/**
+ * Fire-and-forget: ask the team lead to acknowledge a RED check-in.
+ * YELLOW follow-ups only show on the dashboard.
+ */
+export function notifyRedCheckIn(
+  prisma: PrismaClient,
+  companyId: string,
+  timezone: string,
+  data: { ownerId: string | null; workerName: string; acknowledgeBy: Date | null }
+): void {
+  if (!data.ownerId || !data.acknowledgeBy) return;
+
+  const due = DateTime.fromJSDate(data.acknowledgeBy).setZone(timezone).toFormat('h:mm a');
+  sendNotification(prisma, companyId, {
+    personId: data.ownerId,
+    type: 'READINESS_FOLLOW_UP',
+    title: 'RED Check-In',
+    message: `${data.workerName} checked in RED. Acknowledge by ${due} or it escalates to the supervisor.`,
+  });
+}
+
+export class FollowUpService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Acknowledge — the reviewer has seen the check-in and is dealing with it.
+   * Stops a RED follow-up from escalating.
+   */
+  async acknowledge(
+    followUpId: string,
+    companyId: string,
+    reviewer: Reviewer
+  ): Promise<FollowUpWithRelations> {
+    const followUp = await this.prisma.$transaction(async (tx) => {
+      // Fetch and validate INSIDE transaction to prevent TOCTOU race
+      const existing = await this.findForReview(tx, followUpId, companyId, reviewer);
+      this.validateTransition(existing.status, 'ACKNOWLEDGED');
+
+      return tx.readinessFollowUp.update({
+        where: { id: followUpId },
+        data: {
+          status: 'ACKNOWLEDGED',
+          acknowledged_by: reviewer.id,
+          acknowledged_at: new Date(),
+        },
+        include: FOLLOW_UP_INCLUDE,
+      });
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId: reviewer.id,
+      action: 'READINESS_FOLLOW_UP_ACKNOWLEDGED',
+      entityType: 'readiness_follow_up',
+      entityId: followUpId,
+      details: { workerId: followUp.person_id, level: followUp.readiness_level },
+    });
+
+    return followUp;
+  }
+
+  /**
+   * Record what was done about the worker. Resolving an open follow-up
+   * acknowledges it at the same time.
+   */
+  async resolve(
+    followUpId: string,
+    companyId: string,
+    reviewer: Reviewer,
+    data: ResolveFollowUpInput
+  ): Promise<FollowUpWithRelations> {
+    const followUp = await this.prisma.$transaction(async (tx) => {
+      // Fetch and validate INSIDE transaction to prevent TOCTOU race
+      const existing = await this.findForReview(tx, followUpId, companyId, reviewer);
+      this.validateTransition(existing.status, 'RESOLVED');
+
+      const now = new Date();
+      return tx.readinessFollowUp.update({
+        where: { id: followUpId },
+        data: {
+          status: 'RESOLVED',
+          outcome: data.outcome,
+          notes: data.notes || null,
+          resolved_by: reviewer.id,
+          resolved_at: now,
+          ...(existing.status === 'OPEN' && { acknowledged_by: reviewer.id, acknowledged_at: now }),
+        },
+        include: FOLLOW_UP_INCLUDE,
+      });
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId: reviewer.id,
+      action: 'READINESS_FOLLOW_UP_RESOLVED',
+      entityType: 'readiness_follow_up',
+      entityId: followUpId,
+      details: { workerId: followUp.person_id, level: followUp.readiness_level, outcome: data.outcome },
+    });
+
+    // Fire-and-forget: tell the worker the outcome
+    const checkInDate = DateTime.fromJSDate(followUp.check_in.check_in_date, { zone: 'utc' }).toFormat('MMM d');
+    sendNotification(this.prisma, companyId, {
+      personId: followUp.person_id,
+      type: 'READINESS_FOLLOW_UP',
+      title: 'Readiness Follow-Up',
+      message: `Outcome for your ${checkInDate} check-in: ${FOLLOW_UP_OUTCOME_LABELS[data.outcome]}.${
+        data.notes ? ` Notes: ${data.notes}` : ''
+      }`,
+    });
+
+    return followUp;
+  }
+
+  /**
+   * Load a follow-up and verify the reviewer may act on it:
+   * ADMIN any; TEAM_LEAD/SUPERVISOR only for teams they lead/supervise.
+   */
+  private async findForReview(
+    tx: Prisma.TransactionClient,
+    followUpId: string,
+    companyId: string,
+    reviewer: Reviewer
+  ): Promise<{ id: string; status: ReadinessFollowUpStatus; person_id: string }> {
+    const existing = await tx.readinessFollowUp.findFirst({
+      where: { id: followUpId, company_id: companyId },
+      select: {
+        id: true,
+        status: true,
+        person_id: true,
+        team: { select: { leader_id: true, supervisor_id: true } },
+      },
+    });
+
+    if (!existing) {
+      throw new AppError('NOT_FOUND', 'Follow-up not found', 404);
+    }
+
+    // A team lead's own check-in is followed up by their supervisor
+    if (existing.person_id === reviewer.id) {
+      throw new AppError('CONFLICT', 'Cannot follow up your own check-in', 409);
+    }
+
+    if (reviewer.role !== 'ADMIN') {
+      const inScope =
+        (reviewer.role === 'TEAM_LEAD' && existing.team.leader_id === reviewer.id) ||
+        (reviewer.role === 'SUPERVISOR' && existing.team.supervisor_id === reviewer.id);
+      if (!inScope) {
+        throw new AppError('FORBIDDEN', 'You do not have permission to act on this follow-up', 403);
+      }
+    }
+
+    return existing;
+  }
+
+  private validateTransition(currentStatus: ReadinessFollowUpStatus, newStatus: ReadinessFollowUpStatus): void {
+    const allowed = VALID_TRANSITIONS[currentStatus] || [];
+    if (!allowed.includes(newStatus)) {
+      throw new AppError(
+        'INVALID_TRANSITION',
+        `Cannot transition from ${currentStatus} to ${newStatus}`,
+        400
+      );
+    }
+  }
+}
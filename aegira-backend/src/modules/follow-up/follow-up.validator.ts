@@ -0,0 +1,9 @@
+// Readiness Follow-Up Validation Schemas
+import { z } from 'zod';
+
+export const resolveFollowUpSchema = z.object({
+  outcome: z.enum(['CLEARED', 'MODIFIED_DUTY', 'STOOD_DOWN', 'SENT_HOME']),
+  notes: z.string().max(500).trim().optional(),
+});
+
+export type ResolveFollowUpInput = z.infer<typeof resolveFollowUpSchema>;
@@ -5,11 +5,13 @@ import type {
   CreateIncidentInput,
   GetIncidentsQuery,
   GetMyIncidentsQuery,
+  ExportIncidentsQuery,
   RejectIncidentInput,
 } from './incident.validator';
 import { prisma } from '../../config/database';
 import { AppError } from '../../shared/errors';
-import { parsePagination, calculateAge } from '../../shared/utils';
+import { parsePagination, calculateAge, getTodayInTimezone, toCompanyTimezone } from '../../shared/utils';
+import { formatExportDateTime, streamExport } from '../../shared/export';
 
 function getRepository(companyId: string): IncidentRepository {
   return new IncidentRepository(prisma, companyId);
@@ -185,6 +187,39 @@ export async function getIncidents(c: Context): Promise<Response> {
   });
 }
 
+/**
+ * GET /api/v1/incidents/export
+ * Streams the incident list as CSV or XLSX with the same filters as GET /incidents.
+ */
+export async function exportIncidents(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const { status, severity, type, search, format } = c.req.valid('query' as never) as ExportIncidentsQuery;
+
+  const rows = getRepository(companyId).streamForList({ status, severity, type, search });
+
+  return streamExport(c, {
+    format,
+    fileName: `incidents_${getTodayInTimezone(timezone)}`,
+    title: 'Incidents',
+    rows,
+    columns: [
+      {
+        label: 'Incident',
+        value: (i) => `INC-${toCompanyTimezone(i.created_at, timezone).year}-${String(i.incident_number).padStart(4, '0')}`,
+      },
+      { label: 'Reported At', value: (i) => formatExportDateTime(i.created_at, timezone) },
+      { label: 'Title', value: (i) => i.title },
+      { label: 'Type', value: (i) => i.incident_type },
+      { label: 'Severity', value: (i) => i.severity },
+      { label: 'Status', value: (i) => i.status },
+      { label: 'Reporter', value: (i) => `${i.reporter.first_name} ${i.reporter.last_name}` },
+      { label: 'Team', value: (i) => i.reporter.team?.name ?? 'Unassigned' },
+      { label: 'Reviewer', value: (i) => (i.reviewer ? `${i.reviewer.first_name} ${i.reviewer.last_name}` : null) },
+    ],
+  });
+}
+
 /**
  * GET /api/v1/incidents/:id
  * Get a single incident by ID.
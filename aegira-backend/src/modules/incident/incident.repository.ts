@@ -8,6 +8,7 @@ import type {
 } from '@prisma/client';
 import { BaseRepository } from '../../shared/base.repository';
 import { calculateSkip, paginate } from '../../shared/utils';
+import { iterateInBatches } from '../../shared/export';
 import type { PaginationParams, PaginatedResponse } from '../../types/api.types';
 
 export interface IncidentFilters extends PaginationParams {
@@ -178,6 +179,25 @@ export class IncidentRepository extends BaseRepository {
     return paginate(items as IncidentListItem[], total, filters);
   }
 
+  /**
+   * Same rows as findForList, read in batches for streaming exports
+   */
+  streamForList(
+    filters: Omit<IncidentFilters, 'page' | 'limit'>
+  ): AsyncGenerator<IncidentListItem> {
+    const where = this.buildFiltersWhere(filters);
+
+    return iterateInBatches((cursor, take) =>
+      this.prisma.incident.findMany({
+        where,
+        select: this.selectForList,
+        orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+        take,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      }) as Promise<IncidentListItem[]>
+    );
+  }
+
   async countByStatus(
     filters?: Omit<IncidentFilters, 'page' | 'limit' | 'status'>
   ): Promise<Record<string, number>> {
@@ -1,12 +1,16 @@
 import { Hono } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
 import { zValidator } from '@hono/zod-validator';
 import { authMiddleware } from '../../middleware/auth';
 import { tenantMiddleware } from '../../middleware/tenant';
 import { roleMiddleware } from '../../middleware/role';
 import * as controller from './incident.controller';
+import * as attachmentController from '../attachment/attachment.controller';
+import { MAX_ATTACHMENT_SIZE } from '../../shared/storage';
 import {
   createIncidentSchema,
   getIncidentsQuerySchema,
+  exportIncidentsQuerySchema,
   getMyIncidentsQuerySchema,
   rejectIncidentSchema,
 } from './incident.validator';
@@ -45,12 +49,47 @@ router.get(
   controller.getIncidents
 );
 
+// GET /api/v1/incidents/export — stream the filtered list as CSV/XLSX (WHS only)
+router.get(
+  '/export',
+  whsOnly,
+  zValidator('query', exportIncidentsQuerySchema),
+  controller.exportIncidents
+);
+
 // GET /api/v1/incidents/:id — single incident detail
 router.get('/:id', allAuthenticated, controller.getIncidentById);
 
 // GET /api/v1/incidents/:id/timeline — incident event timeline
 router.get('/:id/timeline', allAuthenticated, controller.getIncidentTimeline);
 
+// Attachments — reporter, WHS or ADMIN (ownership checked in AttachmentService)
+// GET /api/v1/incidents/:id/attachments
+router.get('/:id/attachments', allAuthenticated, attachmentController.getIncidentAttachments);
+
+// POST /api/v1/incidents/:id/attachments — multipart field "file"
+router.post(
+  '/:id/attachments',
+  allAuthenticated,
+  // Small allowance over the file limit for multipart framing
+  bodyLimit({ maxSize: MAX_ATTACHMENT_SIZE + 64 * 1024 }),
+  attachmentController.uploadIncidentAttachment
+);
+
+// GET /api/v1/incidents/:id/attachments/:attachmentId/download
+router.get(
+  '/:id/attachments/:attachmentId/download',
+  allAuthenticated,
+  attachmentController.downloadAttachment
+);
+
+// DELETE /api/v1/incidents/:id/attachments/:attachmentId
+router.delete(
+  '/:id/attachments/:attachmentId',
+  allAuthenticated,
+  attachmentController.deleteAttachment
+);
+
 // PATCH /api/v1/incidents/:id/approve — approve incident (WHS only)
 router.patch('/:id/approve', whsOnly, controller.approveIncident);
 
@@ -2,6 +2,7 @@ import type {
   PrismaClient,
   IncidentSeverity,
   IncidentStatus,
+  NotificationChannel,
 } from '@prisma/client';
 import type { IncidentWithRelations } from './incident.repository';
 import type { CreateIncidentInput, RejectIncidentInput } from './incident.validator';
@@ -209,6 +210,15 @@ export class IncidentService {
 
           // Parallel event creates — independent INSERTs within same transaction (Pattern 9)
           await Promise.all([
+            // Seed assignment history with the auto-assignment
+            tx.caseAssignment.create({
+              data: {
+                company_id: companyId,
+                case_id: caseRecord.id,
+                assignee_id: reviewerId,
+                assigned_by: reviewerId,
+              },
+            }),
             tx.event.create({
               data: buildEventData({
                 companyId,
@@ -439,6 +449,8 @@ export class IncidentService {
       if (whsAndAdmins.length === 0) return;
 
       const ref = this.formatIncidentRef(incidentNumber, createdAt);
+      // CRITICAL incidents also go out by email and push so off-shift WHS/Admin see them
+      const channels: NotificationChannel[] | undefined = severity === 'CRITICAL' ? ['EMAIL', 'PUSH'] : undefined;
       sendNotifications(
         this.prisma,
         companyId,
@@ -447,6 +459,7 @@ export class IncidentService {
           type: 'INCIDENT_SUBMITTED' as const,
           title: 'New Incident Report Submitted',
           message: `${reporterName} submitted incident ${ref} (${severity}): ${title}`,
+          channels,
         }))
       );
     } catch (error) {
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { exportFormatSchema } from '../../shared/export';
 
 export const createIncidentSchema = z.object({
   incidentType: z.enum([
@@ -35,6 +36,12 @@ export const getIncidentsQuerySchema = z.object({
 
 export type GetIncidentsQuery = z.infer<typeof getIncidentsQuerySchema>;
 
+export const exportIncidentsQuerySchema = getIncidentsQuerySchema.extend({
+  format: exportFormatSchema,
+});
+
+export type ExportIncidentsQuery = z.infer<typeof exportIncidentsQuerySchema>;
+
 export const getMyIncidentsQuerySchema = z.object({
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
 });
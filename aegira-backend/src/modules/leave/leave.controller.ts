@@ -0,0 +1,225 @@
+import type { Context } from 'hono';
+import { LeaveRepository, type LeaveWithRelations } from './leave.repository';
+import { LeaveService } from './leave.service';
+import type {
+  CreateLeaveInput,
+  GetLeaveCalendarQuery,
+  GetLeaveQuery,
+  RejectLeaveInput,
+} from './leave.validator';
+import { prisma } from '../../config/database';
+import { parsePagination } from '../../shared/utils';
+import { getTeamContext } from '../../shared/team-context';
+
+function getRepository(companyId: string): LeaveRepository {
+  return new LeaveRepository(prisma, companyId);
+}
+
+function getService(timezone: string): LeaveService {
+  return new LeaveService(prisma, timezone);
+}
+
+const EMPTY_STATUS_COUNTS = { PENDING: 0, APPROVED: 0, REJECTED: 0, CANCELLED: 0 };
+
+interface LeaveResponse {
+  id: string;
+  personId: string;
+  workerName: string;
+  teamName: string;
+  type: string;
+  startDate: string;
+  endDate: string;
+  reason: string | null;
+  status: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+function mapLeaveToResponse(leave: LeaveWithRelations): LeaveResponse {
+  return {
+    id: leave.id,
+    personId: leave.person_id,
+    workerName: `${leave.person.first_name} ${leave.person.last_name}`,
+    teamName: leave.person.team?.name ?? 'Unassigned',
+    type: leave.type,
+    startDate: leave.start_date.toISOString().slice(0, 10),
+    endDate: leave.end_date.toISOString().slice(0, 10),
+    reason: leave.reason,
+    status: leave.status,
+    reviewedBy: leave.reviewed_by,
+    reviewedAt: leave.reviewed_at?.toISOString() ?? null,
+    rejectionReason: leave.rejection_reason,
+    createdAt: leave.created_at.toISOString(),
+  };
+}
+
+/**
+ * POST /api/v1/leave
+ * Request leave for the current user.
+ */
+export async function createLeave(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const data = c.req.valid('json' as never) as CreateLeaveInput;
+
+  const leave = await getService(timezone).createLeave(data, companyId, userId);
+
+  return c.json({ success: true, data: mapLeaveToResponse(leave) }, 201);
+}
+
+/**
+ * GET /api/v1/leave/my
+ * List the current user's own leave requests.
+ */
+export async function getMyLeave(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const { page, limit } = parsePagination(c.req.query('page'), c.req.query('limit'));
+  const { status } = c.req.valid('query' as never) as GetLeaveQuery;
+
+  const repository = getRepository(companyId);
+
+  const [result, statusCounts] = await Promise.all([
+    repository.findForList({ page, limit, status, personId: userId }),
+    repository.countByStatus({ personId: userId }),
+  ]);
+
+  return c.json({
+    success: true,
+    data: {
+      items: result.items.map(mapLeaveToResponse),
+      pagination: result.pagination,
+      statusCounts,
+    },
+  });
+}
+
+/**
+ * PATCH /api/v1/leave/:id/cancel
+ * Withdraw one of the current user's own leave requests.
+ */
+export async function cancelLeave(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+
+  const leave = await getService(timezone).cancelLeave(id, companyId, userId);
+
+  return c.json({ success: true, data: mapLeaveToResponse(leave) });
+}
+
+/**
+ * GET /api/v1/leave
+ * Review queue — TEAM_LEAD sees their team, SUPERVISOR their supervised teams, ADMIN all.
+ */
+export async function getLeave(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const { page, limit } = parsePagination(c.req.query('page'), c.req.query('limit'));
+  const { status } = c.req.valid('query' as never) as GetLeaveQuery;
+
+  const { teamIds } = await getTeamContext(companyId, userId, userRole, c.get('companyTimezone') as string);
+
+  // No teams assigned — nothing to review
+  if (teamIds !== null && teamIds.length === 0) {
+    return c.json({
+      success: true,
+      data: {
+        items: [],
+        pagination: { page, limit, total: 0, totalPages: 0 },
+        statusCounts: EMPTY_STATUS_COUNTS,
+      },
+    });
+  }
+
+  const repository = getRepository(companyId);
+  const scope = { teamIds, excludePersonId: userId };
+
+  const [result, statusCounts] = await Promise.all([
+    repository.findForList({ page, limit, status, ...scope }),
+    repository.countByStatus(scope),
+  ]);
+
+  return c.json({
+    success: true,
+    data: {
+      items: result.items.map(mapLeaveToResponse),
+      pagination: result.pagination,
+      statusCounts,
+    },
+  });
+}
+
+/**
+ * GET /api/v1/leave/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Pending and approved leave overlapping the range, team-scoped like the review queue.
+ */
+export async function getLeaveCalendar(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const { from, to } = c.req.valid('query' as never) as GetLeaveCalendarQuery;
+
+  const { teamIds } = await getTeamContext(companyId, userId, userRole, c.get('companyTimezone') as string);
+
+  if (teamIds !== null && teamIds.length === 0) {
+    return c.json({ success: true, data: { from, to, items: [] } });
+  }
+
+  const items = await getRepository(companyId).findForCalendar(
+    new Date(`${from}T00:00:00Z`),
+    new Date(`${to}T00:00:00Z`),
+    { teamIds }
+  );
+
+  return c.json({
+    success: true,
+    data: { from, to, items: items.map(mapLeaveToResponse) },
+  });
+}
+
+/**
+ * PATCH /api/v1/leave/:id/approve
+ * Approve leave — the covered days stop counting as work days.
+ */
+export async function approveLeave(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+
+  const leave = await getService(timezone).approveLeave(id, companyId, {
+    id: userId,
+    role: userRole,
+  });
+
+  return c.json({ success: true, data: mapLeaveToResponse(leave) });
+}
+
+/**
+ * PATCH /api/v1/leave/:id/reject
+ * Reject leave with a reason.
+ */
+export async function rejectLeave(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as RejectLeaveInput;
+
+  const leave = await getService(timezone).rejectLeave(
+    id,
+    companyId,
+    { id: userId, role: userRole },
+    data
+  );
+
+  return c.json({ success: true, data: mapLeaveToResponse(leave) });
+}
@@ -0,0 +1,133 @@
+import type { PrismaClient, LeaveRequest, LeaveStatus, Prisma } from '@prisma/client';
+import { BaseRepository } from '../../shared/base.repository';
+import { calculateSkip, paginate } from '../../shared/utils';
+import type { PaginationParams, PaginatedResponse } from '../../types/api.types';
+
+export interface LeaveFilters extends PaginationParams {
+  status?: LeaveStatus;
+  personId?: string;
+  teamIds?: string[] | null; // null = no team filter (ADMIN)
+  excludePersonId?: string; // Reviewers never see their own requests in the review queue
+}
+
+export type LeaveWithRelations = LeaveRequest & {
+  person: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    team: { id: string; name: string } | null;
+  };
+};
+
+/**
+ * Relation filter for approved leave covering `date` (or any day up to `until`)
+ * — select it on a person as `leave_requests` and pass it to the schedule utils
+ * as PersonSchedule.exceptions.
+ */
+export function approvedLeaveOn(date: Date, until: Date = date) {
+  return {
+    where: {
+      status: 'APPROVED' as const,
+      start_date: { lte: until },
+      end_date: { gte: date },
+    },
+    select: { type: true, start_date: true, end_date: true },
+  };
+}
+
+export class LeaveRepository extends BaseRepository {
+  constructor(prisma: PrismaClient, companyId: string) {
+    super(prisma, companyId);
+  }
+
+  private readonly include = {
+    person: {
+      select: {
+        id: true,
+        first_name: true,
+        last_name: true,
+        team: { select: { id: true, name: true } },
+      },
+    },
+  } as const;
+
+  async findById(id: string): Promise<LeaveWithRelations | null> {
+    return this.prisma.leaveRequest.findFirst({
+      where: this.where({ id }),
+      include: this.include,
+    });
+  }
+
+  private buildFiltersWhere(filters: Omit<LeaveFilters, 'page' | 'limit'>): Prisma.LeaveRequestWhereInput {
+    return {
+      company_id: this.companyId,
+      ...(filters.status && { status: filters.status }),
+      ...(filters.personId && { person_id: filters.personId }),
+      ...(filters.teamIds && { person: { team_id: { in: filters.teamIds } } }),
+      ...(filters.excludePersonId && { person_id: { not: filters.excludePersonId } }),
+    };
+  }
+
+  async findForList(filters: LeaveFilters): Promise<PaginatedResponse<LeaveWithRelations>> {
+    const where = this.buildFiltersWhere(filters);
+
+    const [items, total] = await Promise.all([
+      this.prisma.leaveRequest.findMany({
+        where,
+        include: this.include,
+        orderBy: [{ start_date: 'desc' }, { created_at: 'desc' }],
+        skip: calculateSkip(filters),
+        take: filters.limit,
+      }),
+      this.prisma.leaveRequest.count({ where }),
+    ]);
+
+    return paginate(items, total, filters);
+  }
+
+  async countByStatus(
+    filters?: Omit<LeaveFilters, 'page' | 'limit' | 'status'>
+  ): Promise<Record<string, number>> {
+    const where = this.buildFiltersWhere(filters ?? {});
+
+    const counts = await this.prisma.leaveRequest.groupBy({
+      by: ['status'],
+      where,
+      _count: true,
+    });
+
+    const result: Record<string, number> = {
+      PENDING: 0,
+      APPROVED: 0,
+      REJECTED: 0,
+      CANCELLED: 0,
+    };
+
+    for (const c of counts) {
+      result[c.status] = c._count;
+    }
+
+    return result;
+  }
+
+  /**
+   * Pending and approved leave overlapping [from, to] — the team calendar.
+   * Rejected and cancelled requests never affect the schedule, so they are left out.
+   */
+  async findForCalendar(
+    from: Date,
+    to: Date,
+    filters: Pick<LeaveFilters, 'teamIds' | 'personId'>
+  ): Promise<LeaveWithRelations[]> {
+    return this.prisma.leaveRequest.findMany({
+      where: {
+        ...this.buildFiltersWhere(filters),
+        status: { in: ['PENDING', 'APPROVED'] },
+        start_date: { lte: to },
+        end_date: { gte: from },
+      },
+      include: this.include,
+      orderBy: [{ start_date: 'asc' }, { person: { last_name: 'asc' } }],
+    });
+  }
+}
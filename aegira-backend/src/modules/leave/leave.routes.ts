@@ -0,0 +1,71 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { authMiddleware } from '../../middleware/auth';
+import { tenantMiddleware } from '../../middleware/tenant';
+import { roleMiddleware } from '../../middleware/role';
+import * as controller from './leave.controller';
+import {
+  createLeaveSchema,
+  getLeaveCalendarQuerySchema,
+  getLeaveQuerySchema,
+  rejectLeaveSchema,
+} from './leave.validator';
+
+const router = new Hono();
+
+router.use('*', authMiddleware);
+router.use('*', tenantMiddleware);
+
+// Leave only matters for roles with a check-in schedule
+const checkInSubmitters = roleMiddleware(['WORKER', 'TEAM_LEAD']);
+const reviewers = roleMiddleware(['TEAM_LEAD', 'SUPERVISOR', 'ADMIN']);
+
+// IMPORTANT: Specific routes BEFORE parameterized routes
+
+// GET /api/v1/leave/my — own leave requests
+router.get(
+  '/my',
+  checkInSubmitters,
+  zValidator('query', getLeaveQuerySchema),
+  controller.getMyLeave
+);
+
+// GET /api/v1/leave/calendar — team calendar (team-scoped)
+router.get(
+  '/calendar',
+  reviewers,
+  zValidator('query', getLeaveCalendarQuerySchema),
+  controller.getLeaveCalendar
+);
+
+// POST /api/v1/leave — request leave
+router.post(
+  '/',
+  checkInSubmitters,
+  zValidator('json', createLeaveSchema),
+  controller.createLeave
+);
+
+// GET /api/v1/leave — review queue (team-scoped)
+router.get(
+  '/',
+  reviewers,
+  zValidator('query', getLeaveQuerySchema),
+  controller.getLeave
+);
+
+// PATCH /api/v1/leave/:id/cancel — withdraw own leave
+router.patch('/:id/cancel', checkInSubmitters, controller.cancelLeave);
+
+// PATCH /api/v1/leave/:id/approve — approve leave
+router.patch('/:id/approve', reviewers, controller.approveLeave);
+
+// PATCH /api/v1/leave/:id/reject — reject with reason
+router.patch(
+  '/:id/reject',
+  reviewers,
+  zValidator('json', rejectLeaveSchema),
+  controller.rejectLeave
+);
+
+export { router as leaveRoutes };
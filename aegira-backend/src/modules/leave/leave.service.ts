@@ -0,0 +1,367 @@
+import type { PrismaClient, Prisma, LeaveStatus, LeaveType } from '@prisma/client';
+import type { LeaveWithRelations } from './leave.repository';
+import type { CreateLeaveInput, RejectLeaveInput } from './leave.validator';
+import { DateTime } from 'luxon';
+import { AppError } from '../../shared/errors';
+import { logAudit } from '../../shared/audit';
+import { getTodayInTimezone } from '../../shared/utils';
+import { sendNotification } from '../notification/notification.service';
+import { logger } from '../../config/logger';
+
+const VALID_TRANSITIONS: Record<LeaveStatus, LeaveStatus[]> = {
+  PENDING: ['APPROVED', 'REJECTED', 'CANCELLED'],
+  APPROVED: ['CANCELLED'],
+  REJECTED: [],
+  CANCELLED: [],
+};
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  ANNUAL: 'Annual leave',
+  SICK: 'Sick leave',
+  TRAINING: 'Training',
+  OTHER: 'Leave',
+};
+
+/** Same relation shape as LeaveRepository.include */
+const LEAVE_INCLUDE = {
+  person: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+      team: { select: { id: true, name: true } },
+    },
+  },
+} as const;
+
+interface Reviewer {
+  id: string;
+  role: string;
+}
+
+/** @db.Date value for a YYYY-MM-DD string (UTC midnight, same as check_in_date) */
+function toDbDate(dateStr: string): Date {
+  return new Date(`${dateStr}T00:00:00Z`);
+}
+
+export class LeaveService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly timezone: string = 'Asia/Manila'
+  ) {}
+
+  /**
+   * Request leave for the current user. Starts today at the earliest — days
+   * already past are handled through missed check-in review, not retroactive leave.
+   */
+  async createLeave(
+    data: CreateLeaveInput,
+    companyId: string,
+    personId: string
+  ): Promise<LeaveWithRelations> {
+    const todayStr = getTodayInTimezone(this.timezone);
+    if (data.startDate < todayStr) {
+      throw new AppError('LEAVE_IN_PAST', 'Leave cannot start before today', 400);
+    }
+
+    const startDate = toDbDate(data.startDate);
+    const endDate = toDbDate(data.endDate);
+
+    const leave = await this.prisma.$transaction(async (tx) => {
+      // One open request per day — overlapping leave would make approvals ambiguous
+      const overlapping = await tx.leaveRequest.findFirst({
+        where: {
+          company_id: companyId,
+          person_id: personId,
+          status: { in: ['PENDING', 'APPROVED'] },
+          start_date: { lte: endDate },
+          end_date: { gte: startDate },
+        },
+        select: { id: true },
+      });
+
+      if (overlapping) {
+        throw new AppError('CONFLICT', 'You already have leave requested for some of these dates', 409);
+      }
+
+      return tx.leaveRequest.create({
+        data: {
+          company_id: companyId,
+          person_id: personId,
+          type: data.type,
+          start_date: startDate,
+          end_date: endDate,
+          reason: data.reason || null,
+        },
+        include: LEAVE_INCLUDE,
+      });
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId,
+      action: 'LEAVE_REQUESTED',
+      entityType: 'leave_request',
+      entityId: leave.id,
+      details: { type: data.type, startDate: data.startDate, endDate: data.endDate },
+    });
+
+    // Fire-and-forget: notify whoever reviews this worker's leave
+    this.notifyLeaveSubmitted(companyId, leave);
+
+    return leave;
+  }
+
+  /**
+   * Approve leave — from now on the covered days are not work days for the worker.
+   */
+  async approveLeave(
+    leaveId: string,
+    companyId: string,
+    reviewer: Reviewer
+  ): Promise<LeaveWithRelations> {
+    const leave = await this.prisma.$transaction(async (tx) => {
+      // Fetch and validate INSIDE transaction to prevent TOCTOU race
+      const existing = await this.findForReview(tx, leaveId, companyId, reviewer);
+      this.validateTransition(existing.status, 'APPROVED');
+
+      return tx.leaveRequest.update({
+        where: { id: leaveId },
+        data: {
+          status: 'APPROVED',
+          reviewed_by: reviewer.id,
+          reviewed_at: new Date(),
+        },
+        include: LEAVE_INCLUDE,
+      });
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId: reviewer.id,
+      action: 'LEAVE_APPROVED',
+      entityType: 'leave_request',
+      entityId: leaveId,
+      details: { workerId: leave.person_id, type: leave.type },
+    });
+
+    // Fire-and-forget: notification to worker
+    sendNotification(this.prisma, companyId, {
+      personId: leave.person_id,
+      type: 'LEAVE_APPROVED',
+      title: 'Leave Approved',
+      message: `Your ${LEAVE_TYPE_LABELS[leave.type].toLowerCase()} for ${this.formatRange(leave)} was approved. Check-in is not required on those days.`,
+    });
+
+    return leave;
+  }
+
+  /**
+   * Reject leave with a reason. The worker's schedule is unchanged.
+   */
+  async rejectLeave(
+    leaveId: string,
+    companyId: string,
+    reviewer: Reviewer,
+    data: RejectLeaveInput
+  ): Promise<LeaveWithRelations> {
+    const leave = await this.prisma.$transaction(async (tx) => {
+      // Fetch and validate INSIDE transaction to prevent TOCTOU race
+      const existing = await this.findForReview(tx, leaveId, companyId, reviewer);
+      this.validateTransition(existing.status, 'REJECTED');
+
+      return tx.leaveRequest.update({
+        where: { id: leaveId },
+        data: {
+          status: 'REJECTED',
+          reviewed_by: reviewer.id,
+          reviewed_at: new Date(),
+          rejection_reason: data.rejectionReason,
+        },
+        include: LEAVE_INCLUDE,
+      });
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId: reviewer.id,
+      action: 'LEAVE_REJECTED',
+      entityType: 'leave_request',
+      entityId: leaveId,
+      details: { workerId: leave.person_id, rejectionReason: data.rejectionReason },
+    });
+
+    // Fire-and-forget: notification to worker
+    sendNotification(this.prisma, companyId, {
+      personId: leave.person_id,
+      type: 'LEAVE_REJECTED',
+      title: 'Leave Not Approved',
+      message: `Your ${LEAVE_TYPE_LABELS[leave.type].toLowerCase()} for ${this.formatRange(leave)} was not approved. Reason: ${data.rejectionReason}`,
+    });
+
+    return leave;
+  }
+
+  /**
+   * Withdraw own leave — pending, or approved leave that has not ended yet
+   * (e.g. the worker is back early). Days from today on become work days again:
+   * leave that is already underway keeps its past days — it stays APPROVED and
+   * ends yesterday — while anything else becomes CANCELLED.
+   */
+  async cancelLeave(
+    leaveId: string,
+    companyId: string,
+    personId: string
+  ): Promise<LeaveWithRelations> {
+    const todayStr = getTodayInTimezone(this.timezone);
+
+    const leave = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.leaveRequest.findFirst({
+        where: { id: leaveId, company_id: companyId },
+        select: { id: true, person_id: true, status: true, start_date: true, end_date: true },
+      });
+
+      if (!existing) {
+        throw new AppError('NOT_FOUND', 'Leave request not found', 404);
+      }
+
+      if (existing.person_id !== personId) {
+        throw new AppError('FORBIDDEN', 'You can only cancel your own leave', 403);
+      }
+
+      this.validateTransition(existing.status, 'CANCELLED');
+
+      if (existing.end_date.toISOString().slice(0, 10) < todayStr) {
+        throw new AppError('LEAVE_ENDED', 'Leave that has already ended cannot be cancelled', 400);
+      }
+
+      if (existing.status === 'APPROVED' && existing.start_date.toISOString().slice(0, 10) < todayStr) {
+        const yesterday = DateTime.fromISO(todayStr, { zone: 'utc' }).minus({ days: 1 }).toISODate()!;
+        return tx.leaveRequest.update({
+          where: { id: leaveId },
+          data: { end_date: toDbDate(yesterday) },
+          include: LEAVE_INCLUDE,
+        });
+      }
+
+      return tx.leaveRequest.update({
+        where: { id: leaveId },
+        data: { status: 'CANCELLED' },
+        include: LEAVE_INCLUDE,
+      });
+    });
+
+    // Fire-and-forget: audit log
+    logAudit({
+      companyId,
+      personId,
+      action: 'LEAVE_CANCELLED',
+      entityType: 'leave_request',
+      entityId: leaveId,
+      details: leave.status === 'APPROVED'
+        ? { type: leave.type, cancelledFrom: todayStr }
+        : { type: leave.type },
+    });
+
+    return leave;
+  }
+
+  /**
+   * Load a leave request for review and verify the reviewer may act on it:
+   * ADMIN can review any; TEAM_LEAD/SUPERVISOR only for teams they lead/supervise.
+   */
+  private async findForReview(
+    tx: Prisma.TransactionClient,
+    leaveId: string,
+    companyId: string,
+    reviewer: Reviewer
+  ): Promise<{ id: string; status: LeaveStatus; person_id: string }> {
+    const existing = await tx.leaveRequest.findFirst({
+      where: { id: leaveId, company_id: companyId },
+      select: {
+        id: true,
+        status: true,
+        person_id: true,
+        person: {
+          select: { team: { select: { leader_id: true, supervisor_id: true } } },
+        },
+      },
+    });
+
+    if (!existing) {
+      throw new AppError('NOT_FOUND', 'Leave request not found', 404);
+    }
+
+    // Prevent self-review — reviewer cannot be the requester
+    if (existing.person_id === reviewer.id) {
+      throw new AppError('CONFLICT', 'Cannot review your own leave request', 409);
+    }
+
+    if (reviewer.role !== 'ADMIN') {
+      const team = existing.person.team;
+      const inScope =
+        (reviewer.role === 'TEAM_LEAD' && team?.leader_id === reviewer.id) ||
+        (reviewer.role === 'SUPERVISOR' && team?.supervisor_id === reviewer.id);
+      if (!inScope) {
+        throw new AppError('FORBIDDEN', 'You do not have permission to review this leave request', 403);
+      }
+    }
+
+    return existing;
+  }
+
+  private validateTransition(currentStatus: LeaveStatus, newStatus: LeaveStatus): void {
+    const allowed = VALID_TRANSITIONS[currentStatus] || [];
+    if (!allowed.includes(newStatus)) {
+      throw new AppError(
+        'INVALID_TRANSITION',
+        `Cannot transition from ${currentStatus} to ${newStatus}`,
+        400
+      );
+    }
+  }
+
+  private formatRange(leave: { start_date: Date; end_date: Date }): string {
+    // start/end are @db.Date — format in UTC to avoid shifting the calendar day
+    const start = DateTime.fromJSDate(leave.start_date, { zone: 'utc' }).toFormat('MMM d, yyyy');
+    const end = DateTime.fromJSDate(leave.end_date, { zone: 'utc' }).toFormat('MMM d, yyyy');
+    return start === end ? start : `${start} – ${end}`;
+  }
+
+  private async notifyLeaveSubmitted(
+    companyId: string,
+    leave: LeaveWithRelations
+  ): Promise<void> {
+    const teamId = leave.person.team?.id;
+    if (!teamId) return;
+
+    try {
+      const team = await this.prisma.team.findFirst({
+        where: { id: teamId, company_id: companyId },
+        select: { leader_id: true, supervisor_id: true },
+      });
+
+      if (!team) return;
+
+      // A team lead's own leave goes to their supervisor
+      const reviewerId = team.leader_id === leave.person_id ? team.supervisor_id : team.leader_id;
+      if (!reviewerId) return;
+
+      const workerName = `${leave.person.first_name} ${leave.person.last_name}`;
+      sendNotification(this.prisma, companyId, {
+        personId: reviewerId,
+        type: 'LEAVE_SUBMITTED',
+        title: 'Leave Requested',
+        message: `${workerName} requested ${LEAVE_TYPE_LABELS[leave.type].toLowerCase()} for ${this.formatRange(leave)}.`,
+      });
+    } catch (error) {
+      logger.error(
+        { error, companyId, leaveId: leave.id },
+        'Failed to send leave request notification to reviewer'
+      );
+    }
+  }
+}
@@ -0,0 +1,72 @@
+// Leave Validation Schemas
+import { z } from 'zod';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Longest single request — longer absences are split into several requests */
+export const MAX_LEAVE_DAYS = 90;
+
+/** Team calendar shows at most two months at a time */
+export const MAX_CALENDAR_RANGE_DAYS = 62;
+
+const leaveTypeEnum = z.enum(['ANNUAL', 'SICK', 'TRAINING', 'OTHER']);
+
+const dateSchema = z.string().regex(DATE_REGEX, 'Invalid date format (YYYY-MM-DD)');
+
+export const createLeaveSchema = z
+  .object({
+    type: leaveTypeEnum,
+    startDate: dateSchema,
+    endDate: dateSchema,
+    reason: z.string().max(500).trim().optional(),
+  })
+  .superRefine((data, ctx) => {
+    // YYYY-MM-DD strings compare chronologically
+    if (data.endDate < data.startDate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'End date must be on or after start date',
+        path: ['endDate'],
+      });
+      return;
+    }
+
+    const days = (Date.parse(data.endDate) - Date.parse(data.startDate)) / 86_400_000 + 1;
+    if (days > MAX_LEAVE_DAYS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Leave cannot be longer than ${MAX_LEAVE_DAYS} days`,
+        path: ['endDate'],
+      });
+    }
+  });
+
+export type CreateLeaveInput = z.infer<typeof createLeaveSchema>;
+
+export const getLeaveQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']).optional(),
+});
+
+export type GetLeaveQuery = z.infer<typeof getLeaveQuerySchema>;
+
+export const getLeaveCalendarQuerySchema = z
+  .object({
+    from: dateSchema,
+    to: dateSchema,
+  })
+  .refine((data) => data.from <= data.to, {
+    message: 'Start date must be on or before end date',
+    path: ['from'],
+  })
+  .refine((data) => (Date.parse(data.to) - Date.parse(data.from)) / 86_400_000 < MAX_CALENDAR_RANGE_DAYS, {
+    message: `Calendar range cannot exceed ${MAX_CALENDAR_RANGE_DAYS} days`,
+    path: ['to'],
+  });
+
+export type GetLeaveCalendarQuery = z.infer<typeof getLeaveCalendarQuerySchema>;
+
+export const rejectLeaveSchema = z.object({
+  rejectionReason: z.string().min(1, 'Rejection reason is required').max(500).trim(),
+});
+
+export type RejectLeaveInput = z.infer<typeof rejectLeaveSchema>;
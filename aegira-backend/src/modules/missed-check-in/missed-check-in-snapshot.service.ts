@@ -8,7 +8,7 @@ import {
   buildDateLookup,
   daysBetweenDateStrings,
 } from '../../shared/utils';
-import { getEffectiveSchedule } from '../../shared/schedule.utils';
+import { getEffectiveSchedule, resolveDaySchedule, type RosterSchedule } from '../../shared/schedule.utils';
 import type { PrecomputedDate } from '../../shared/utils';
 
 /**
@@ -43,10 +43,12 @@ interface WorkerContext {
   workDays?: string | null;
   checkInStart?: string | null;
   checkInEnd?: string | null;
+  roster?: RosterSchedule | null;
   team: {
     work_days: string;
     check_in_start: string;
     check_in_end: string;
+    roster?: RosterSchedule | null;
   };
 }
 
@@ -125,14 +127,18 @@ export class MissedCheckInSnapshotService {
     const todayDt = DateTime.fromISO(today, { zone: this.timezone });
 
     // Get effective schedule (worker override OR team default)
-    const schedule = getEffectiveSchedule(
-      {
-        work_days: worker.workDays,
-        check_in_start: worker.checkInStart,
-        check_in_end: worker.checkInEnd,
-      },
-      worker.team
-    );
+    const personSchedule = {
+      work_days: worker.workDays,
+      check_in_start: worker.checkInStart,
+      check_in_end: worker.checkInEnd,
+      roster: worker.roster,
+    };
+    const schedule = getEffectiveSchedule(personSchedule, worker.team);
+
+    // Rostered workers are scheduled by cycle day, everyone else by weekday
+    const isScheduled = personSchedule.roster || worker.team.roster
+      ? (day: PrecomputedDate) => resolveDaySchedule(personSchedule, worker.team, day.dateStr).windows.length > 0
+      : (day: PrecomputedDate) => schedule.workDays.includes(day.dow);
 
     // Day of week (0=Sun, 6=Sat)
     const dayOfWeek = todayDt.weekday === 7 ? 0 : todayDt.weekday;
@@ -151,7 +157,7 @@ export class MissedCheckInSnapshotService {
     // Calculate streak using pre-computed date range
     const checkInStreakBefore = this.calculateStreak(
       checkIns,
-      schedule.workDays,
+      isScheduled,
       holidayDates,
       dateRange90d,
       today
@@ -183,7 +189,7 @@ export class MissedCheckInSnapshotService {
     // Baseline completion rate since assignment (uses pre-computed date range)
     const baselineCompletionRate = this.calculateCompletionRate(
       worker,
-      schedule.workDays,
+      isScheduled,
       checkIns,
       holidayDates,
       dateRange90d,
@@ -229,7 +235,7 @@ export class MissedCheckInSnapshotService {
    */
   private calculateStreak(
     checkIns: CheckInRecord[],
-    workDays: string[],
+    isScheduled: (day: PrecomputedDate) => boolean,
     holidayDates: Set<string>,
     dateRange90d: PrecomputedDate[],
     todayStr: string
@@ -247,7 +253,7 @@ export class MissedCheckInSnapshotService {
       if (day.dateStr >= todayStr) continue;
 
       const isHolidayDay = holidayDates.has(day.dateStr);
-      const isScheduledWorkDay = workDays.includes(day.dow);
+      const isScheduledWorkDay = isScheduled(day);
 
       // Skip holidays and non-work days (they don't break or contribute to streak)
       if (isHolidayDay || !isScheduledWorkDay) {
@@ -272,7 +278,7 @@ export class MissedCheckInSnapshotService {
    */
   private calculateCompletionRate(
     worker: WorkerContext,
-    workDays: string[],
+    isScheduled: (day: PrecomputedDate) => boolean,
     checkIns: CheckInRecord[],
     holidayDates: Set<string>,
     dateRange90d: PrecomputedDate[],
@@ -290,7 +296,7 @@ export class MissedCheckInSnapshotService {
       // Skip days before assignment or today onwards
       if (day.dateStr < assignedDateStr || day.dateStr >= todayStr) continue;
 
-      if (workDays.includes(day.dow) && !holidayDates.has(day.dateStr)) {
+      if (isScheduled(day) && !holidayDates.has(day.dateStr)) {
         requiredDays++;
       }
     }
@@ -1,10 +1,11 @@
 // MissedCheckIn Controller - Request Handling
 import type { Context } from 'hono';
 import { MissedCheckInRepository } from './missed-check-in.repository';
-import type { GetMissedCheckInsQuery } from './missed-check-in.validator';
+import type { GetMissedCheckInsQuery, ExportMissedCheckInsQuery } from './missed-check-in.validator';
 import { prisma } from '../../config/database';
 import { getTeamContext } from '../../shared/team-context';
-import { parsePagination } from '../../shared/utils';
+import { getTodayInTimezone, parseDateInTimezone, parsePagination } from '../../shared/utils';
+import { formatExportDate, formatExportDateTime, streamExport } from '../../shared/export';
 
 function getRepository(companyId: string): MissedCheckInRepository {
   return new MissedCheckInRepository(prisma, companyId);
@@ -88,3 +89,56 @@ export async function getMissedCheckIns(c: Context): Promise<Response> {
     },
   });
 }
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * GET /api/v1/teams/missed-check-ins/export
+ * Streams missed check-ins as CSV or XLSX. Same scoping and filters as the
+ * list endpoint (no row cap), plus an optional from/to date range.
+ */
+export async function exportMissedCheckIns(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const query = c.req.valid('query' as never) as ExportMissedCheckInsQuery;
+
+  const { teamIds } = await getTeamContext(companyId, userId, userRole, timezone);
+
+  // No teams assigned — header-only file
+  const rows = teamIds !== null && teamIds.length === 0
+    ? []
+    : getRepository(companyId).streamByFilters({
+      teamIds: teamIds || undefined,
+      personId: query.workerId || undefined,
+      resolved: query.resolved === undefined ? undefined : query.resolved === 'true',
+      dateFrom: query.from ? parseDateInTimezone(query.from, timezone) : undefined,
+      dateTo: query.to ? parseDateInTimezone(query.to, timezone) : undefined,
+    });
+
+  return streamExport(c, {
+    format: query.format,
+    fileName: `missed-check-ins_${getTodayInTimezone(timezone)}`,
+    title: 'Missed Check-ins',
+    rows,
+    columns: [
+      { label: 'Date', value: (r) => formatExportDate(r.missed_date) },
+      { label: 'Day', value: (r) => (r.day_of_week != null ? DAY_NAMES[r.day_of_week] ?? null : null) },
+      { label: 'Worker', value: (r) => `${r.person.first_name} ${r.person.last_name}` },
+      { label: 'Email', value: (r) => r.person.email },
+      { label: 'Team', value: (r) => r.team.name },
+      { label: 'Team Leader', value: (r) => r.team_leader_name_at_miss },
+      { label: 'Schedule', value: (r) => r.schedule_window },
+      { label: 'Status', value: (r) => (r.resolved_at ? 'Resolved' : 'Unresolved') },
+      { label: 'Resolved At', value: (r) => (r.resolved_at ? formatExportDateTime(r.resolved_at, timezone) : null) },
+      { label: 'Streak Before', value: (r) => r.check_in_streak_before },
+      { label: 'Avg Readiness', value: (r) => r.recent_readiness_avg },
+      { label: 'Days Since Check-In', value: (r) => r.days_since_last_check_in },
+      { label: 'Days Since Miss', value: (r) => r.days_since_last_miss },
+      { label: 'Misses (30d)', value: (r) => r.misses_in_last_30d },
+      { label: 'Misses (60d)', value: (r) => r.misses_in_last_60d },
+      { label: 'Misses (90d)', value: (r) => r.misses_in_last_90d },
+    ],
+  });
+}
@@ -2,6 +2,7 @@
 import type { PrismaClient, MissedCheckIn, Prisma, Role } from '@prisma/client';
 import { BaseRepository } from '../../shared/base.repository';
 import { calculateSkip, paginate } from '../../shared/utils';
+import { iterateInBatches } from '../../shared/export';
 import type { PaginatedResponse } from '../../types/api.types';
 
 interface MissedCheckInFilters {
@@ -10,6 +11,9 @@ interface MissedCheckInFilters {
   teamIds?: string[];
   personId?: string;
   resolved?: boolean; // true = resolved only, false = unresolved only, undefined = all
+  /** Inclusive missed_date bounds (UTC midnight) */
+  dateFrom?: Date;
+  dateTo?: Date;
 }
 
 interface CreateMissedCheckInData {
@@ -36,7 +40,7 @@ interface CreateMissedCheckInData {
   reminderFailed?: boolean;
 }
 
-type MissedCheckInWithRelations = MissedCheckIn & {
+export type MissedCheckInWithRelations = MissedCheckIn & {
   person: { id: string; first_name: string; last_name: string; email: string };
   team: { id: string; name: string };
 };
@@ -88,50 +92,64 @@ export class MissedCheckInRepository extends BaseRepository {
   /**
    * Find missed check-ins with pagination and optional filters.
    */
-  async findByFilters(
-    filters: MissedCheckInFilters
-  ): Promise<PaginatedResponse<MissedCheckInWithRelations>> {
-    const where: Prisma.MissedCheckInWhereInput = {
+  /** Fields returned for the missed check-in list (list + export) */
+  private readonly selectWithRelations = {
+    id: true,
+    person_id: true,
+    team_id: true,
+    missed_date: true,
+    schedule_window: true,
+    created_at: true,
+    // Snapshot fields used by controller transform
+    team_leader_id_at_miss: true,
+    team_leader_name_at_miss: true,
+    day_of_week: true,
+    check_in_streak_before: true,
+    recent_readiness_avg: true,
+    days_since_last_check_in: true,
+    days_since_last_miss: true,
+    misses_in_last_30d: true,
+    misses_in_last_60d: true,
+    misses_in_last_90d: true,
+    is_first_miss_in_30d: true,
+    // Resolution tracking
+    resolved_by_check_in_id: true,
+    resolved_at: true,
+    // Relations (selective)
+    person: {
+      select: { id: true, first_name: true, last_name: true, email: true },
+    },
+    team: {
+      select: { id: true, name: true },
+    },
+  } as const;
+
+  private buildFiltersWhere(filters: Omit<MissedCheckInFilters, 'page' | 'limit'>): Prisma.MissedCheckInWhereInput {
+    const hasDateFilter = filters.dateFrom || filters.dateTo;
+    return {
       company_id: this.companyId,
       ...(filters.teamIds && filters.teamIds.length > 0 && { team_id: { in: filters.teamIds } }),
       ...(filters.personId && { person_id: filters.personId }),
       ...(filters.resolved === true && { resolved_at: { not: null } }),
       ...(filters.resolved === false && { resolved_at: null }),
+      ...(hasDateFilter && {
+        missed_date: {
+          ...(filters.dateFrom && { gte: filters.dateFrom }),
+          ...(filters.dateTo && { lte: filters.dateTo }),
+        },
+      }),
     };
+  }
+
+  async findByFilters(
+    filters: MissedCheckInFilters
+  ): Promise<PaginatedResponse<MissedCheckInWithRelations>> {
+    const where = this.buildFiltersWhere(filters);
 
     const [items, total] = await Promise.all([
       this.prisma.missedCheckIn.findMany({
         where,
-        select: {
-          id: true,
-          person_id: true,
-          team_id: true,
-          missed_date: true,
-          schedule_window: true,
-          created_at: true,
-          // Snapshot fields used by controller transform
-          team_leader_id_at_miss: true,
-          team_leader_name_at_miss: true,
-          day_of_week: true,
-          check_in_streak_before: true,
-          recent_readiness_avg: true,
-          days_since_last_check_in: true,
-          days_since_last_miss: true,
-          misses_in_last_30d: true,
-          misses_in_last_60d: true,
-          misses_in_last_90d: true,
-          is_first_miss_in_30d: true,
-          // Resolution tracking
-          resolved_by_check_in_id: true,
-          resolved_at: true,
-          // Relations (selective)
-          person: {
-            select: { id: true, first_name: true, last_name: true, email: true },
-          },
-          team: {
-            select: { id: true, name: true },
-          },
-        },
+        select: this.selectWithRelations,
         orderBy: { missed_date: 'desc' },
         skip: calculateSkip(filters),
         take: filters.limit,
@@ -142,6 +160,25 @@ export class MissedCheckInRepository extends BaseRepository {
     return paginate(items as MissedCheckInWithRelations[], total, filters);
   }
 
+  /**
+   * Same rows as findByFilters, read in batches for streaming exports
+   */
+  streamByFilters(
+    filters: Omit<MissedCheckInFilters, 'page' | 'limit'>
+  ): AsyncGenerator<MissedCheckInWithRelations> {
+    const where = this.buildFiltersWhere(filters);
+
+    return iterateInBatches((cursor, take) =>
+      this.prisma.missedCheckIn.findMany({
+        where,
+        select: this.selectWithRelations,
+        orderBy: [{ missed_date: 'desc' }, { id: 'desc' }],
+        take,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      }) as Promise<MissedCheckInWithRelations[]>
+    );
+  }
+
   /**
    * Find which person_ids already have a MissedCheckIn for a given date.
    * Used by the cron to avoid creating duplicate notifications.
@@ -1,8 +1,18 @@
 // MissedCheckIn Validation Schemas
 import { z } from 'zod';
+import { exportDateRangeShape, exportFormatSchema } from '../../shared/export';
 
 export const getMissedCheckInsQuerySchema = z.object({
   workerId: z.string().optional(),
 });
 
 export type GetMissedCheckInsQuery = z.infer<typeof getMissedCheckInsQuerySchema>;
+
+// Same filters as GET /teams/missed-check-ins, plus an optional date range
+export const exportMissedCheckInsQuerySchema = getMissedCheckInsQuerySchema.extend({
+  resolved: z.enum(['true', 'false']).optional(),
+  ...exportDateRangeShape,
+  format: exportFormatSchema,
+});
+
+export type ExportMissedCheckInsQuery = z.infer<typeof exportMissedCheckInsQuerySchema>;
@@ -0,0 +1,159 @@
+// Notification Channels - outbound copies of in-app notifications
+// Each person's preferences pick the channels per type. Types listed here can also
+// be queued as NotificationDelivery rows per channel and sent by the
+// notification-delivery job. With in-app off the notification is still stored,
+// already read and archived, so deliveries have a row to point at; with every
+// channel off nothing is stored.
+import type { NotificationChannel, NotificationType } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { env } from '../../config/env';
+import { logger } from '../../config/logger';
+import { getMailTransport, isMailConfigured } from '../../shared/mail';
+import { isPushServiceEndpoint, sendWebPush, WebPushError, type VapidConfig } from '../../shared/web-push';
+import {
+  renderNotificationDigestEmail,
+  renderNotificationEmail,
+  renderNotificationPush,
+  type NotificationContent,
+} from './notification.templates';
+
+/**
+ * Outbound channels per type, for events that must reach people who are
+ * off-shift and not looking at the app. Callers can override per notification
+ * (e.g. only CRITICAL incident submissions go out by email).
+ */
+export const DEFAULT_OUTBOUND_CHANNELS: Record<NotificationType, NotificationChannel[]> = {
+  CHECK_IN_REMINDER: ['PUSH'],
+  MISSED_CHECK_IN: ['EMAIL', 'PUSH'],
+  TEAM_ALERT: [],
+  SYSTEM: [],
+  INCIDENT_SUBMITTED: [],
+  INCIDENT_APPROVED: [],
+  INCIDENT_REJECTED: [],
+  AMENDMENT_SUBMITTED: [],
+  AMENDMENT_APPROVED: [],
+  AMENDMENT_REJECTED: [],
+  LEAVE_SUBMITTED: [],
+  LEAVE_APPROVED: [],
+  LEAVE_REJECTED: [],
+  READINESS_FOLLOW_UP: ['PUSH'],
+  READINESS_ESCALATED: ['EMAIL', 'PUSH'],
+  CASE_COMMENT_MENTION: [],
+  CASE_ASSIGNED: ['EMAIL', 'PUSH'],
+};
+
+export interface OutboundNotification extends NotificationContent {
+  id: string;
+}
+
+export interface OutboundRecipient {
+  personId: string;
+  email: string;
+  firstName: string;
+}
+
+/** Thrown when there is nothing to deliver to — the delivery is SKIPPED, not retried */
+export class DeliverySkippedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliverySkippedError';
+  }
+}
+
+export interface ChannelSender {
+  /**
+   * Deliver one notification, or several as a single digest message.
+   * Returns the address it was sent to.
+   * Throws on failure — the delivery job schedules a retry.
+   */
+  send(notifications: OutboundNotification[], recipient: OutboundRecipient): Promise<string>;
+}
+
+export class EmailChannelSender implements ChannelSender {
+  async send(notifications: OutboundNotification[], recipient: OutboundRecipient): Promise<string> {
+    if (!isMailConfigured()) throw new DeliverySkippedError('Email not configured');
+
+    await getMailTransport().send({
+      to: [recipient.email],
+      ...(notifications.length === 1
+        ? renderNotificationEmail(notifications[0]!, recipient.firstName)
+        : renderNotificationDigestEmail(notifications, recipient.firstName)),
+    });
+    return recipient.email;
+  }
+}
+
+function getVapidConfig(): VapidConfig | null {
+  if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) return null;
+  return { publicKey: env.VAPID_PUBLIC_KEY, privateKey: env.VAPID_PRIVATE_KEY, subject: env.VAPID_SUBJECT };
+}
+
+/**
+ * Sends to every device the recipient subscribed. Subscriptions past their
+ * expiration time, reported gone by the push service or not on a known push
+ * service (stored before endpoints were checked) are deleted. Succeeds
+ * when at least one device accepted the message; returns the push service hosts.
+ */
+export class PushChannelSender implements ChannelSender {
+  async send(notifications: OutboundNotification[], recipient: OutboundRecipient): Promise<string> {
+    const vapid = getVapidConfig();
+    if (!vapid) throw new DeliverySkippedError('Web Push not configured');
+
+    await prisma.pushSubscription.deleteMany({
+      where: { person_id: recipient.personId, expires_at: { lte: new Date() } },
+    });
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { person_id: recipient.personId },
+      select: { id: true, endpoint: true, p256dh: true, auth: true },
+    });
+    if (subscriptions.length === 0) throw new DeliverySkippedError('No push subscriptions');
+
+    const delivered: typeof subscriptions = [];
+    const gone: string[] = [];
+    let lastError: unknown;
+
+    for (const subscription of subscriptions) {
+      if (!isPushServiceEndpoint(subscription.endpoint)) {
+        gone.push(subscription.id);
+        continue;
+      }
+      try {
+        for (const notification of notifications) {
+          await sendWebPush(subscription, JSON.stringify(renderNotificationPush(notification)), vapid);
+        }
+        delivered.push(subscription);
+      } catch (error) {
+        if (error instanceof WebPushError && error.isGone) {
+          gone.push(subscription.id);
+        } else {
+          lastError = error;
+        }
+      }
+    }
+
+    if (gone.length > 0) {
+      await prisma.pushSubscription.deleteMany({ where: { id: { in: gone } } });
+      logger.info({ personId: recipient.personId, count: gone.length }, 'Pruned expired push subscriptions');
+    }
+
+    if (delivered.length === 0) {
+      if (lastError) throw lastError;
+      throw new DeliverySkippedError('Push subscriptions expired');
+    }
+
+    await prisma.pushSubscription.updateMany({
+      where: { id: { in: delivered.map((s) => s.id) } },
+      data: { last_used_at: new Date() },
+    });
+    return [...new Set(delivered.map((s) => new URL(s.endpoint).host))].join(', ');
+  }
+}
+
+const CHANNEL_SENDERS: Record<NotificationChannel, ChannelSender> = {
+  EMAIL: new EmailChannelSender(),
+  PUSH: new PushChannelSender(),
+};
+
+export function getChannelSender(channel: NotificationChannel): ChannelSender {
+  return CHANNEL_SENDERS[channel];
+}
@@ -1,10 +1,27 @@
 // Notification Controller - Request Handling
 import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { NotificationService } from './notification.service';
 import { NotificationRepository } from './notification.repository';
+import { notificationStream, type NotificationStreamEvent } from './notification.stream';
 import { prisma } from '../../config/database';
+import { logger } from '../../config/logger';
 import type { AuthenticatedUser } from '../../types/api.types';
-import type { ListNotificationsQuery } from './notification.validator';
+import type {
+  ListNotificationsQuery,
+  PushSubscriptionInput,
+  UpdateNotificationPreferencesInput,
+} from './notification.validator';
+
+/** A ping every 25s keeps proxies from closing an idle stream */
+const STREAM_KEEPALIVE_MS = 25 * 1000;
+/**
+ * Streams are closed after this long so the browser reconnects through auth
+ * again — a revoked session or expired access token stops receiving events.
+ */
+const STREAM_MAX_DURATION_MS = 5 * 60 * 1000;
+/** Reconnect delay the browser's EventSource uses after the stream closes */
+const STREAM_RETRY_MS = 3 * 1000;
 
 function getService(companyId: string): NotificationService {
   const repository = new NotificationRepository(prisma, companyId);
@@ -73,3 +90,100 @@ export async function archiveAllRead(c: Context): Promise<Response> {
 
   return c.json({ success: true, data: { archivedCount: count } });
 }
+
+export async function getPreferences(c: Context): Promise<Response> {
+  const user = c.get('user') as AuthenticatedUser;
+  const companyId = c.get('companyId') as string;
+
+  const service = getService(companyId);
+  const result = await service.getPreferences(user.id);
+
+  return c.json({ success: true, data: result });
+}
+
+export async function updatePreferences(c: Context): Promise<Response> {
+  const user = c.get('user') as AuthenticatedUser;
+  const companyId = c.get('companyId') as string;
+  const data = c.req.valid('json' as never) as UpdateNotificationPreferencesInput;
+
+  const service = getService(companyId);
+  const result = await service.updatePreferences(user.id, {
+    types: data.types?.map((row) => ({ type: row.type, in_app: row.inApp, email: row.email, push: row.push })),
+    quietHoursStart: data.quietHoursStart,
+    quietHoursEnd: data.quietHoursEnd,
+    dailyDigest: data.dailyDigest,
+  });
+
+  return c.json({ success: true, data: result });
+}
+
+export async function getPushPublicKey(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+
+  const service = getService(companyId);
+  return c.json({ success: true, data: { publicKey: service.getPushPublicKey() } });
+}
+
+export async function subscribePush(c: Context): Promise<Response> {
+  const user = c.get('user') as AuthenticatedUser;
+  const companyId = c.get('companyId') as string;
+  const data = c.req.valid('json' as never) as PushSubscriptionInput;
+
+  const service = getService(companyId);
+  await service.subscribePush(user.id, {
+    endpoint: data.endpoint,
+    p256dh: data.keys.p256dh,
+    auth: data.keys.auth,
+    userAgent: c.req.header('user-agent')?.slice(0, 500) ?? null,
+    expiresAt: data.expirationTime ? new Date(data.expirationTime) : null,
+  });
+
+  return c.json({ success: true, data: { message: 'Push notifications enabled on this device' } }, 201);
+}
+
+export async function unsubscribePush(c: Context): Promise<Response> {
+  const user = c.get('user') as AuthenticatedUser;
+  const companyId = c.get('companyId') as string;
+  const { endpoint } = c.req.valid('query' as never) as { endpoint: string };
+
+  const service = getService(companyId);
+  await service.unsubscribePush(user.id, endpoint);
+
+  return c.json({ success: true, data: { message: 'Push notifications disabled on this device' } });
+}
+
+/**
+ * Server-Sent Events: `notification` for each new notification and
+ * `unread-count` whenever the count changes (sent once on connect).
+ */
+export async function streamNotifications(c: Context): Promise<Response> {
+  const user = c.get('user') as AuthenticatedUser;
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      // Listener callbacks are synchronous — chain writes so events keep their order
+      let writes = stream.writeSSE({ event: 'ready', data: '', retry: STREAM_RETRY_MS });
+      const write = (event: NotificationStreamEvent | { event: 'ping'; data: '' }) => {
+        writes = writes
+          .then(() => stream.writeSSE({ event: event.event, data: JSON.stringify(event.data) }))
+          .catch(() => undefined); // Client went away — onAbort cleans up
+      };
+
+      const unsubscribe = notificationStream.subscribe(user.id, write);
+      stream.onAbort(unsubscribe);
+
+      const closeAt = Date.now() + STREAM_MAX_DURATION_MS;
+      while (!stream.aborted && Date.now() < closeAt) {
+        await stream.sleep(Math.min(STREAM_KEEPALIVE_MS, closeAt - Date.now()));
+        if (!stream.aborted) write({ event: 'ping', data: '' });
+      }
+
+      unsubscribe();
+      await writes;
+    },
+    async (error) => {
+      logger.error({ error, personId: user.id }, 'Notification stream failed');
+    }
+  );
+}
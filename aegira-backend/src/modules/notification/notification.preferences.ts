@@ -0,0 +1,99 @@
+// Notification Preferences - per-user channel choice, quiet hours and daily digest
+// Applied when a notification is created: decides whether it shows in-app,
+// which outbound channels it is queued on, and when those deliveries are due.
+import { DateTime } from 'luxon';
+import type { NotificationChannel, NotificationType } from '@prisma/client';
+import { DEFAULT_OUTBOUND_CHANNELS } from './notification.channels';
+
+/** Local hour (0-23) the daily email digest goes out */
+export const DIGEST_HOUR = 7;
+
+export interface ChannelPreference {
+  in_app: boolean;
+  email: boolean;
+  push: boolean;
+}
+
+export interface DeliverySettings {
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  notification_digest: boolean;
+}
+
+/** Preference flag behind each outbound channel */
+const PREFERENCE_FLAGS: Record<NotificationChannel, keyof ChannelPreference> = {
+  EMAIL: 'email',
+  PUSH: 'push',
+};
+
+/** What a user gets for a type they haven't saved a preference for */
+export function getDefaultPreference(type: NotificationType): ChannelPreference {
+  return {
+    in_app: true,
+    email: DEFAULT_OUTBOUND_CHANNELS[type].includes('EMAIL'),
+    push: DEFAULT_OUTBOUND_CHANNELS[type].includes('PUSH'),
+  };
+}
+
+/**
+ * Outbound channels for one notification. A saved preference wins; otherwise
+ * the sender's per-notification channels, falling back to the type default.
+ */
+export function resolveOutboundChannels(
+  type: NotificationType,
+  preference: ChannelPreference | undefined,
+  requested: NotificationChannel[] | undefined
+): NotificationChannel[] {
+  if (!preference) return requested ?? DEFAULT_OUTBOUND_CHANNELS[type];
+  return (Object.keys(PREFERENCE_FLAGS) as NotificationChannel[]).filter(
+    (channel) => preference[PREFERENCE_FLAGS[channel]]
+  );
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours! * 60 + minutes!;
+}
+
+/**
+ * End of the quiet period `at` falls in, or null when it's outside quiet hours.
+ * Windows may cross midnight (22:00→06:00).
+ */
+function getQuietHoursEnd(at: DateTime, settings: DeliverySettings): DateTime | null {
+  const { quiet_hours_start: start, quiet_hours_end: end } = settings;
+  if (!start || !end || start === end) return null;
+
+  const now = at.hour * 60 + at.minute;
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  const isQuiet = startMinutes < endMinutes
+    ? now >= startMinutes && now < endMinutes
+    : now >= startMinutes || now < endMinutes;
+  if (!isQuiet) return null;
+
+  let until = at.set({ hour: Math.floor(endMinutes / 60), minute: endMinutes % 60, second: 0, millisecond: 0 });
+  if (until <= at) until = until.plus({ days: 1 });
+  return until;
+}
+
+/**
+ * When an outbound delivery created at `now` becomes due: digest users get
+ * email at the next DIGEST_HOUR, and anything landing in quiet hours is held
+ * until they end. Times are evaluated in the company timezone.
+ */
+export function getDeliveryTime(
+  now: Date,
+  timezone: string,
+  channel: NotificationChannel,
+  settings: DeliverySettings
+): Date {
+  let at = DateTime.fromJSDate(now).setZone(timezone);
+
+  if (channel === 'EMAIL' && settings.notification_digest) {
+    let digestAt = at.set({ hour: DIGEST_HOUR, minute: 0, second: 0, millisecond: 0 });
+    if (digestAt <= at) digestAt = digestAt.plus({ days: 1 });
+    at = digestAt;
+  }
+
+  return (getQuietHoursEnd(at, settings) ?? at).toJSDate();
+}
@@ -1,44 +1,211 @@
 // Notification Repository - Database Access
-import type { PrismaClient, Notification, Prisma, NotificationType } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import type { PrismaClient, Notification, Prisma, NotificationType, NotificationChannel } from '@prisma/client';
 import { BaseRepository } from '../../shared/base.repository';
 import { calculateSkip, paginate } from '../../shared/utils';
 import type { PaginationParams, PaginatedResponse } from '../../types/api.types';
+import {
+  getDeliveryTime,
+  resolveOutboundChannels,
+  type ChannelPreference,
+  type DeliverySettings,
+} from './notification.preferences';
 
 export interface CreateNotificationData {
   personId: string;
   type: NotificationType;
   title: string;
   message: string;
+  /** Web app path to open instead of the type's default — e.g. the worker an alert is about */
+  link?: string;
+  /**
+   * Outbound channels for this notification — defaults to DEFAULT_OUTBOUND_CHANNELS[type].
+   * Recipients who saved a preference for the type get their own choice instead.
+   */
+  channels?: NotificationChannel[];
 }
 
 export type NotificationFilter = 'unread' | 'read' | 'archived';
 
+export interface NotificationPreferenceRow extends ChannelPreference {
+  type: NotificationType;
+}
+
+export interface UpdateNotificationPreferencesData {
+  types?: NotificationPreferenceRow[];
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  dailyDigest?: boolean;
+}
+
+export interface SavePushSubscriptionData {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent: string | null;
+  expiresAt: Date | null;
+}
+
+const DEFAULT_DELIVERY_SETTINGS: DeliverySettings = {
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  notification_digest: false,
+};
+
 export class NotificationRepository extends BaseRepository {
   constructor(prisma: PrismaClient, companyId: string) {
     super(prisma, companyId);
   }
 
-  async create(data: CreateNotificationData): Promise<Notification> {
-    return this.prisma.notification.create({
-      data: {
-        company_id: this.companyId,
-        person_id: data.personId,
-        type: data.type,
-        title: data.title,
-        message: data.message,
-      },
-    });
-  }
-
+  /**
+   * Creates notifications and queues their outbound deliveries, applying each
+   * recipient's preferences:
+   *   - in-app off: stored already read + archived (keeps history and dedup checks working)
+   *   - no in-app and no outbound channel: not stored at all
+   *   - push is only queued for recipients with a push subscription
+   *   - outbound deliveries are held for quiet hours / the daily digest
+   * Ids are generated up front so delivery rows can be inserted in the same
+   * transaction (createMany doesn't return rows).
+   */
   async createMany(notifications: CreateNotificationData[]): Promise<number> {
-    const result = await this.prisma.notification.createMany({
-      data: notifications.map((n) => ({
+    const personIds = [...new Set(notifications.map((n) => n.personId))];
+    const types = [...new Set(notifications.map((n) => n.type))];
+
+    const [company, persons, preferences] = await Promise.all([
+      this.prisma.company.findUnique({ where: { id: this.companyId }, select: { timezone: true } }),
+      this.prisma.person.findMany({
+        where: this.where({ id: { in: personIds } }),
+        select: {
+          id: true,
+          quiet_hours_start: true,
+          quiet_hours_end: true,
+          notification_digest: true,
+          push_subscriptions: { select: { id: true }, take: 1 },
+        },
+      }),
+      this.prisma.notificationPreference.findMany({
+        where: this.where({ person_id: { in: personIds }, type: { in: types } }),
+        select: { person_id: true, type: true, in_app: true, email: true, push: true },
+      }),
+    ]);
+
+    const timezone = company?.timezone ?? 'Asia/Manila';
+    const settingsByPerson = new Map(persons.map((p) => [p.id, p]));
+    const preferenceByKey = new Map(preferences.map((p) => [`${p.person_id}:${p.type}`, p]));
+
+    const now = new Date();
+    const rows: Prisma.NotificationCreateManyInput[] = [];
+    const deliveries: Prisma.NotificationDeliveryCreateManyInput[] = [];
+
+    for (const n of notifications) {
+      const preference = preferenceByKey.get(`${n.personId}:${n.type}`);
+      const inApp = preference?.in_app ?? true;
+      const settings = settingsByPerson.get(n.personId);
+      const channels = resolveOutboundChannels(n.type, preference, n.channels).filter(
+        (channel) => channel !== 'PUSH' || (settings?.push_subscriptions.length ?? 0) > 0
+      );
+      if (!inApp && channels.length === 0) continue;
+
+      const id = randomUUID();
+      rows.push({
+        id,
         company_id: this.companyId,
         person_id: n.personId,
         type: n.type,
         title: n.title,
         message: n.message,
-      })),
+        link: n.link ?? null,
+        ...(!inApp && { read_at: now, archived_at: now }),
+      });
+
+      for (const channel of channels) {
+        deliveries.push({
+          company_id: this.companyId,
+          notification_id: id,
+          person_id: n.personId,
+          channel,
+          next_attempt_at: getDeliveryTime(now, timezone, channel, settings ?? DEFAULT_DELIVERY_SETTINGS),
+        });
+      }
+    }
+
+    if (rows.length === 0) return 0;
+
+    return this.prisma.$transaction(async (tx) => {
+      const result = await tx.notification.createMany({ data: rows });
+      if (deliveries.length > 0) {
+        await tx.notificationDelivery.createMany({ data: deliveries });
+      }
+      return result.count;
+    });
+  }
+
+  /** Saved per-type preferences plus the person's quiet hours and digest setting */
+  async findPreferences(personId: string): Promise<{
+    types: NotificationPreferenceRow[];
+    settings: DeliverySettings | null;
+  }> {
+    const [types, settings] = await Promise.all([
+      this.prisma.notificationPreference.findMany({
+        where: this.where({ person_id: personId }),
+        select: { type: true, in_app: true, email: true, push: true },
+      }),
+      this.prisma.person.findFirst({
+        where: this.where({ id: personId }),
+        select: { quiet_hours_start: true, quiet_hours_end: true, notification_digest: true },
+      }),
+    ]);
+    return { types, settings };
+  }
+
+  async savePreferences(personId: string, data: UpdateNotificationPreferencesData): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      for (const row of data.types ?? []) {
+        const values = { in_app: row.in_app, email: row.email, push: row.push };
+        await tx.notificationPreference.upsert({
+          where: { person_id_type: { person_id: personId, type: row.type } },
+          create: { company_id: this.companyId, person_id: personId, type: row.type, ...values },
+          update: values,
+        });
+      }
+
+      const personData: Prisma.PersonUpdateManyMutationInput = {};
+      if (data.quietHoursStart !== undefined) personData.quiet_hours_start = data.quietHoursStart;
+      if (data.quietHoursEnd !== undefined) personData.quiet_hours_end = data.quietHoursEnd;
+      if (data.dailyDigest !== undefined) personData.notification_digest = data.dailyDigest;
+
+      if (Object.keys(personData).length > 0) {
+        await tx.person.updateMany({
+          where: { id: personId, company_id: this.companyId },
+          data: personData,
+        });
+      }
+    });
+  }
+
+  /**
+   * Upsert by endpoint — a browser keeps its endpoint across logins, so a
+   * device that changes hands moves to the person who subscribed last.
+   */
+  async savePushSubscription(personId: string, data: SavePushSubscriptionData): Promise<void> {
+    const values = {
+      company_id: this.companyId,
+      person_id: personId,
+      p256dh: data.p256dh,
+      auth: data.auth,
+      user_agent: data.userAgent,
+      expires_at: data.expiresAt,
+    };
+    await this.prisma.pushSubscription.upsert({
+      where: { endpoint: data.endpoint },
+      create: { endpoint: data.endpoint, ...values },
+      update: values,
+    });
+  }
+
+  async deletePushSubscription(personId: string, endpoint: string): Promise<number> {
+    const result = await this.prisma.pushSubscription.deleteMany({
+      where: this.where({ person_id: personId, endpoint }),
     });
     return result.count;
   }
@@ -79,6 +246,7 @@ export class NotificationRepository extends BaseRepository {
           type: true,
           title: true,
           message: true,
+          link: true,
           read_at: true,
           archived_at: true,
           created_at: true,
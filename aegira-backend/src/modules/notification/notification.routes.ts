@@ -4,7 +4,13 @@ import { zValidator } from '@hono/zod-validator';
 import { authMiddleware } from '../../middleware/auth';
 import { tenantMiddleware } from '../../middleware/tenant';
 import * as controller from './notification.controller';
-import { listNotificationsQuerySchema, notificationIdParamSchema } from './notification.validator';
+import {
+  listNotificationsQuerySchema,
+  notificationIdParamSchema,
+  pushEndpointQuerySchema,
+  pushSubscriptionSchema,
+  updateNotificationPreferencesSchema,
+} from './notification.validator';
 
 const router = new Hono();
 
@@ -17,6 +23,24 @@ router.get('/', zValidator('query', listNotificationsQuerySchema), controller.li
 // GET /api/v1/notifications/unread - Get unread count
 router.get('/unread', controller.getUnreadCount);
 
+// GET /api/v1/notifications/stream - Server-Sent Events: new notifications + unread count
+router.get('/stream', controller.streamNotifications);
+
+// GET /api/v1/notifications/preferences - Own channel preferences, quiet hours, digest
+router.get('/preferences', controller.getPreferences);
+
+// PATCH /api/v1/notifications/preferences - Update own preferences (partial; types upserted individually)
+router.patch('/preferences', zValidator('json', updateNotificationPreferencesSchema), controller.updatePreferences);
+
+// GET /api/v1/notifications/push/public-key - VAPID key for PushManager.subscribe (null = push disabled)
+router.get('/push/public-key', controller.getPushPublicKey);
+
+// POST /api/v1/notifications/push/subscriptions - Register this device's push subscription
+router.post('/push/subscriptions', zValidator('json', pushSubscriptionSchema), controller.subscribePush);
+
+// DELETE /api/v1/notifications/push/subscriptions?endpoint= - Remove this device's push subscription
+router.delete('/push/subscriptions', zValidator('query', pushEndpointQuerySchema), controller.unsubscribePush);
+
 // PATCH /api/v1/notifications/mark-all-read - Mark all as read (MUST be before /:id)
 router.patch('/mark-all-read', controller.markAllAsRead);
 
@@ -1,13 +1,31 @@
 // Notification Service - Business Logic + Fire-and-Forget Utilities
-import type { PrismaClient, Notification } from '@prisma/client';
-import { NotificationRepository, type CreateNotificationData, type NotificationFilter } from './notification.repository';
+import type { PrismaClient, Notification, NotificationType } from '@prisma/client';
+import {
+  NotificationRepository,
+  type CreateNotificationData,
+  type NotificationFilter,
+  type SavePushSubscriptionData,
+  type UpdateNotificationPreferencesData,
+} from './notification.repository';
+import { DEFAULT_OUTBOUND_CHANNELS } from './notification.channels';
+import { getDefaultPreference } from './notification.preferences';
+import { notificationStream } from './notification.stream';
 import { AppError } from '../../shared/errors';
+import { env } from '../../config/env';
 import { logger } from '../../config/logger';
 import type { PaginationParams, PaginatedResponse } from '../../types/api.types';
 
 // Re-export for convenience — external callers import from here, not the repository
 export type { CreateNotificationData } from './notification.repository';
 
+export interface NotificationPreferences {
+  /** One entry per notification type — saved choice or the default */
+  types: Array<{ type: NotificationType; inApp: boolean; email: boolean; push: boolean }>;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  dailyDigest: boolean;
+}
+
 // ─── Service (used by notification controller for read-side operations) ────
 
 export class NotificationService {
@@ -33,7 +51,10 @@ export class NotificationService {
   async markAsRead(id: string, personId: string): Promise<Notification> {
     const updated = await this.repository.markAsRead(id, personId);
 
-    if (updated) return updated;
+    if (updated) {
+      notificationStream.notify([personId]);
+      return updated;
+    }
 
     // updateMany returned 0 rows — either not found, wrong owner, or already read.
     const existing = await this.repository.findById(id);
@@ -45,7 +66,9 @@ export class NotificationService {
   }
 
   async markAllAsRead(personId: string): Promise<number> {
-    return this.repository.markAllAsRead(personId);
+    const count = await this.repository.markAllAsRead(personId);
+    if (count > 0) notificationStream.notify([personId]);
+    return count;
   }
 
   /**
@@ -57,7 +80,11 @@ export class NotificationService {
   async archive(id: string, personId: string): Promise<Notification> {
     const updated = await this.repository.archive(id, personId);
 
-    if (updated) return updated;
+    if (updated) {
+      // Archiving an unread notification changes the unread count
+      notificationStream.notify([personId]);
+      return updated;
+    }
 
     // updateMany returned 0 rows — either not found, wrong owner, or already archived.
     const existing = await this.repository.findById(id);
@@ -71,6 +98,45 @@ export class NotificationService {
   async archiveAllRead(personId: string): Promise<number> {
     return this.repository.archiveAllRead(personId);
   }
+
+  async getPreferences(personId: string): Promise<NotificationPreferences> {
+    const { types, settings } = await this.repository.findPreferences(personId);
+    const saved = new Map(types.map((row) => [row.type, row]));
+
+    return {
+      types: (Object.keys(DEFAULT_OUTBOUND_CHANNELS) as NotificationType[]).map((type) => {
+        const preference = saved.get(type) ?? getDefaultPreference(type);
+        return { type, inApp: preference.in_app, email: preference.email, push: preference.push };
+      }),
+      quietHoursStart: settings?.quiet_hours_start ?? null,
+      quietHoursEnd: settings?.quiet_hours_end ?? null,
+      dailyDigest: settings?.notification_digest ?? false,
+    };
+  }
+
+  async updatePreferences(
+    personId: string,
+    data: UpdateNotificationPreferencesData
+  ): Promise<NotificationPreferences> {
+    await this.repository.savePreferences(personId, data);
+    return this.getPreferences(personId);
+  }
+
+  /** VAPID public key browsers subscribe with, or null while push is disabled */
+  getPushPublicKey(): string | null {
+    return env.VAPID_PUBLIC_KEY || null;
+  }
+
+  async subscribePush(personId: string, data: SavePushSubscriptionData): Promise<void> {
+    if (!this.getPushPublicKey()) {
+      throw new AppError('PUSH_NOT_CONFIGURED', 'Push notifications are not enabled', 503);
+    }
+    await this.repository.savePushSubscription(personId, data);
+  }
+
+  async unsubscribePush(personId: string, endpoint: string): Promise<void> {
+    await this.repository.deletePushSubscription(personId, endpoint);
+  }
 }
 
 // ─── Fire-and-Forget Utilities (used by external modules) ──────────────
@@ -80,6 +146,7 @@ export class NotificationService {
 
 /**
  * Fire-and-forget: create a single notification.
+ * The recipient's notification preferences decide where it is delivered.
  * Errors are logged but never thrown — safe to call without await.
  */
 export function sendNotification(
@@ -88,16 +155,20 @@ export function sendNotification(
   data: CreateNotificationData
 ): void {
   const repo = new NotificationRepository(prisma, companyId);
-  repo.create(data).catch((error) => {
-    logger.error(
-      { error, companyId, personId: data.personId, type: data.type },
-      'Failed to send notification'
-    );
-  });
+  repo
+    .createMany([data])
+    .then(() => notificationStream.notify([data.personId])) // Push to connected clients
+    .catch((error) => {
+      logger.error(
+        { error, companyId, personId: data.personId, type: data.type },
+        'Failed to send notification'
+      );
+    });
 }
 
 /**
  * Fire-and-forget: create multiple notifications in batch.
+ * Each recipient's notification preferences decide where theirs is delivered.
  * Errors are logged but never thrown — safe to call without await.
  */
 export function sendNotifications(
@@ -107,10 +178,13 @@ export function sendNotifications(
 ): void {
   if (notifications.length === 0) return;
   const repo = new NotificationRepository(prisma, companyId);
-  repo.createMany(notifications).catch((error) => {
-    logger.error(
-      { error, companyId, count: notifications.length },
-      'Failed to send notifications'
-    );
-  });
+  repo
+    .createMany(notifications)
+    .then(() => notificationStream.notify(notifications.map((n) => n.personId))) // Push to connected clients
+    .catch((error) => {
+      logger.error(
+        { error, companyId, count: notifications.length },
+        'Failed to send notifications'
+      );
+    });
 }
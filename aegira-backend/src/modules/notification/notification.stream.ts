@@ -0,0 +1,176 @@
+// Notification Stream - live notification + unread-count events for SSE clients
+//
+// Each process keeps a per-person cursor for its connected users and "syncs"
+// them against the notifications table: new rows since the cursor go out as
+// `notification` events, and the unread count as `unread-count` whenever it
+// changes. A sync runs immediately when this process writes or reads a
+// notification (notify), and on a short interval while anyone is connected, so
+// writes made by other replicas arrive too. That is two queries per interval
+// per replica, regardless of how many clients are connected.
+import type { PrismaClient, Notification } from '@prisma/client';
+import { prisma } from '../../config/database';
+import { logger } from '../../config/logger';
+
+export type NotificationStreamEvent =
+  | { event: 'notification'; data: Notification }
+  | { event: 'unread-count'; data: { count: number } };
+
+export type NotificationStreamListener = (event: NotificationStreamEvent) => void;
+
+interface PersonStream {
+  listeners: Set<NotificationStreamListener>;
+  /** created_at of the newest notification already sent */
+  since: Date;
+  /** Ids already sent whose created_at equals `since` (guards the >= boundary) */
+  sentAtSince: Set<string>;
+  /** Last unread count sent; null forces the next sync to send it */
+  unreadCount: number | null;
+}
+
+const SYNC_INTERVAL_MS = 5 * 1000;
+/** Persons per sync query — keeps the IN list bounded with many connections */
+const SYNC_CHUNK_SIZE = 500;
+/** New notifications per sync; anything beyond is picked up by the next one */
+const SYNC_BATCH_SIZE = 200;
+
+export class NotificationStreamHub {
+  private readonly persons = new Map<string, PersonStream>();
+  private readonly pending = new Set<string>();
+  private syncing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly intervalMs = SYNC_INTERVAL_MS
+  ) {}
+
+  /**
+   * Register a listener for a person's events. The current unread count is
+   * sent right away. Returns an idempotent unsubscribe function.
+   */
+  subscribe(personId: string, listener: NotificationStreamListener): () => void {
+    let person = this.persons.get(personId);
+    if (!person) {
+      person = { listeners: new Set(), since: new Date(), sentAtSince: new Set(), unreadCount: null };
+      this.persons.set(personId, person);
+    }
+    person.listeners.add(listener);
+    person.unreadCount = null;
+    this.startTimer();
+    this.notify([personId]);
+
+    return () => {
+      const current = this.persons.get(personId);
+      if (!current?.listeners.delete(listener)) return;
+      if (current.listeners.size === 0) this.persons.delete(personId);
+      if (this.persons.size === 0) this.stopTimer();
+    };
+  }
+
+  /** Sync these persons now if any of them is connected to this process */
+  notify(personIds: string[]): void {
+    for (const personId of personIds) {
+      if (this.persons.has(personId)) this.pending.add(personId);
+    }
+    if (this.pending.size > 0) void this.flush();
+  }
+
+  /** Resolves once pending syncs have run */
+  async idle(): Promise<void> {
+    while (this.syncing) await this.syncing;
+  }
+
+  private startTimer(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.notify([...this.persons.keys()]), this.intervalMs);
+    this.timer.unref();
+  }
+
+  private stopTimer(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Single sync loop — notify() calls made while it runs are picked up by the next pass */
+  private flush(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = (async () => {
+        while (this.pending.size > 0) {
+          const personIds = [...this.pending];
+          this.pending.clear();
+          for (let i = 0; i < personIds.length; i += SYNC_CHUNK_SIZE) {
+            try {
+              await this.sync(personIds.slice(i, i + SYNC_CHUNK_SIZE));
+            } catch (error) {
+              logger.error({ error, count: personIds.length }, 'Failed to sync notification stream');
+            }
+          }
+        }
+      })().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async sync(personIds: string[]): Promise<void> {
+    const connected = personIds.filter((id) => this.persons.has(id));
+    if (connected.length === 0) return;
+
+    const [created, unread] = await Promise.all([
+      this.prisma.notification.findMany({
+        where: {
+          archived_at: null,
+          OR: connected.map((id) => ({ person_id: id, created_at: { gte: this.persons.get(id)!.since } })),
+        },
+        orderBy: { created_at: 'asc' },
+        take: SYNC_BATCH_SIZE,
+      }),
+      this.prisma.notification.groupBy({
+        by: ['person_id'],
+        where: { person_id: { in: connected }, read_at: null, archived_at: null },
+        _count: { _all: true },
+      }),
+    ]);
+
+    for (const notification of created) {
+      const person = this.persons.get(notification.person_id);
+      if (!person) continue;
+
+      const createdAt = notification.created_at.getTime();
+      const cursor = person.since.getTime();
+      if (createdAt < cursor || (createdAt === cursor && person.sentAtSince.has(notification.id))) continue;
+
+      if (createdAt > cursor) {
+        person.since = notification.created_at;
+        person.sentAtSince = new Set();
+      }
+      person.sentAtSince.add(notification.id);
+      this.emit(person, { event: 'notification', data: notification });
+    }
+
+    const counts = new Map(unread.map((row) => [row.person_id, row._count._all]));
+    for (const personId of connected) {
+      const person = this.persons.get(personId);
+      if (!person) continue;
+
+      const count = counts.get(personId) ?? 0;
+      if (count === person.unreadCount) continue;
+      person.unreadCount = count;
+      this.emit(person, { event: 'unread-count', data: { count } });
+    }
+  }
+
+  private emit(person: PersonStream, event: NotificationStreamEvent): void {
+    for (const listener of person.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error({ error, event: event.event }, 'Notification stream listener failed');
+      }
+    }
+  }
+}
+
+export const notificationStream = new NotificationStreamHub(prisma);
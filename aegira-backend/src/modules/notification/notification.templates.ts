@@ -0,0 +1,147 @@
+// Notification Templates - outbound rendering of in-app notifications
+import type { NotificationType } from '@prisma/client';
+import type { MailMessage } from '../../shared/mail';
+import { env } from '../../config/env';
+
+export interface NotificationContent {
+  type: NotificationType;
+  title: string;
+  message: string;
+  /** Overrides the template path when the notification is about one record */
+  link?: string | null;
+}
+
+interface NotificationTemplate {
+  /** Subject prefix — the notification title follows it */
+  subject: string;
+  actionLabel: string;
+  /** Web app path the call-to-action links to */
+  path: string;
+}
+
+/**
+ * One template per notification type. Most notifications carry no entity
+ * link, so the call-to-action opens the list the recipient acts from.
+ */
+const TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  CHECK_IN_REMINDER: { subject: 'Reminder', actionLabel: 'Check in now', path: '/check-in' },
+  MISSED_CHECK_IN: { subject: 'Missed check-in', actionLabel: 'View notifications', path: '/notifications' },
+  TEAM_ALERT: { subject: 'Team update', actionLabel: 'View notifications', path: '/notifications' },
+  SYSTEM: { subject: 'AEGIRA', actionLabel: 'View notifications', path: '/notifications' },
+  INCIDENT_SUBMITTED: { subject: 'Incident submitted', actionLabel: 'Review incidents', path: '/whs/incidents' },
+  INCIDENT_APPROVED: { subject: 'Incident approved', actionLabel: 'View my incidents', path: '/my-incidents' },
+  INCIDENT_REJECTED: { subject: 'Incident rejected', actionLabel: 'View my incidents', path: '/my-incidents' },
+  AMENDMENT_SUBMITTED: { subject: 'Correction requested', actionLabel: 'Review corrections', path: '/team/corrections' },
+  AMENDMENT_APPROVED: { subject: 'Correction approved', actionLabel: 'View check-in history', path: '/check-in/history' },
+  AMENDMENT_REJECTED: { subject: 'Correction rejected', actionLabel: 'View check-in history', path: '/check-in/history' },
+  LEAVE_SUBMITTED: { subject: 'Leave requested', actionLabel: 'Review leave', path: '/team/leave' },
+  LEAVE_APPROVED: { subject: 'Leave approved', actionLabel: 'View dashboard', path: '/dashboard' },
+  LEAVE_REJECTED: { subject: 'Leave not approved', actionLabel: 'View dashboard', path: '/dashboard' },
+  READINESS_FOLLOW_UP: { subject: 'Readiness follow-up', actionLabel: 'View dashboard', path: '/dashboard' },
+  READINESS_ESCALATED: { subject: 'RED check-in not acknowledged', actionLabel: 'View dashboard', path: '/dashboard' },
+  CASE_COMMENT_MENTION: { subject: 'Mentioned on a case', actionLabel: 'Open cases', path: '/whs/cases' },
+  CASE_ASSIGNED: { subject: 'Case assigned', actionLabel: 'Open cases', path: '/whs/cases' },
+};
+
+const FOOTER_TEXT = 'You are receiving this because of your role in AEGIRA. Change what you receive under Settings.';
+
+function appUrl(path: string): string {
+  return `${env.APP_URL.replace(/\/+$/, '')}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Email copy of a notification: plain text plus a minimal HTML alternative
+ * with a link back into the web app.
+ */
+export function renderNotificationEmail(
+  notification: NotificationContent,
+  recipientName: string
+): Omit<MailMessage, 'to'> {
+  const template = TEMPLATES[notification.type];
+  const url = appUrl(notification.link ?? template.path);
+
+  return {
+    subject: `${template.subject}: ${notification.title}`,
+    text: [
+      `Hi ${recipientName},`,
+      '',
+      notification.title,
+      notification.message,
+      '',
+      `${template.actionLabel}: ${url}`,
+      '',
+      FOOTER_TEXT,
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(recipientName)},</p>`,
+      `<p><strong>${escapeHtml(notification.title)}</strong><br>${escapeHtml(notification.message)}</p>`,
+      `<p><a href="${escapeHtml(url)}">${escapeHtml(template.actionLabel)}</a></p>`,
+      `<p style="color:#6b7280;font-size:12px">${FOOTER_TEXT}</p>`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Daily digest: every notification queued for the recipient since the last
+ * digest, oldest first, in one message.
+ */
+export function renderNotificationDigestEmail(
+  notifications: NotificationContent[],
+  recipientName: string
+): Omit<MailMessage, 'to'> {
+  const url = appUrl('/notifications');
+  const count = `${notifications.length} notification${notifications.length === 1 ? '' : 's'}`;
+
+  return {
+    subject: `Your AEGIRA daily digest: ${count}`,
+    text: [
+      `Hi ${recipientName},`,
+      '',
+      `You have ${count} since your last digest:`,
+      '',
+      ...notifications.flatMap((n) => [`- ${TEMPLATES[n.type].subject}: ${n.title}`, `  ${n.message}`]),
+      '',
+      `View notifications: ${url}`,
+      '',
+      FOOTER_TEXT,
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(recipientName)},</p>`,
+      `<p>You have ${count} since your last digest:</p>`,
+      '<ul>',
+      ...notifications.map((n) =>
+        `<li><strong>${escapeHtml(TEMPLATES[n.type].subject)}: ${escapeHtml(n.title)}</strong><br>${escapeHtml(n.message)}</li>`
+      ),
+      '</ul>',
+      `<p><a href="${escapeHtml(url)}">View notifications</a></p>`,
+      `<p style="color:#6b7280;font-size:12px">${FOOTER_TEXT}</p>`,
+    ].join('\n'),
+  };
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** Absolute web app URL the notification opens */
+  url: string;
+  /** Same-tag notifications replace each other on the device */
+  tag: string;
+}
+
+/** Push copy of a notification — the service worker shows it as-is */
+export function renderNotificationPush(notification: NotificationContent & { id: string }): PushMessage {
+  return {
+    title: notification.title,
+    body: notification.message,
+    url: appUrl(notification.link ?? TEMPLATES[notification.type].path),
+    tag: notification.id,
+  };
+}
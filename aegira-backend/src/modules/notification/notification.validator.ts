@@ -1,5 +1,7 @@
 // Notification Validation Schemas
 import { z } from 'zod';
+import { TIME_REGEX } from '../../shared/schedule.utils';
+import { isPushServiceEndpoint } from '../../shared/web-push';
 
 export const listNotificationsQuerySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -11,4 +13,70 @@ export const notificationIdParamSchema = z.object({
   id: z.string().uuid('Invalid notification ID'),
 });
 
+const notificationTypeSchema = z.enum([
+  'CHECK_IN_REMINDER',
+  'MISSED_CHECK_IN',
+  'TEAM_ALERT',
+  'SYSTEM',
+  'INCIDENT_SUBMITTED',
+  'INCIDENT_APPROVED',
+  'INCIDENT_REJECTED',
+  'AMENDMENT_SUBMITTED',
+  'AMENDMENT_APPROVED',
+  'AMENDMENT_REJECTED',
+  'LEAVE_SUBMITTED',
+  'LEAVE_APPROVED',
+  'LEAVE_REJECTED',
+  'READINESS_FOLLOW_UP',
+  'READINESS_ESCALATED',
+  'CASE_COMMENT_MENTION',
+  'CASE_ASSIGNED',
+]);
+
+const quietHourSchema = z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)').nullable().optional();
+
+export const updateNotificationPreferencesSchema = z
+  .object({
+    types: z
+      .array(
+        z.object({
+          type: notificationTypeSchema,
+          inApp: z.boolean(),
+          email: z.boolean(),
+          push: z.boolean(),
+        })
+      )
+      .max(notificationTypeSchema.options.length)
+      .optional(),
+    // Company timezone; the window may cross midnight (e.g., 22:00 → 06:00)
+    quietHoursStart: quietHourSchema,
+    quietHoursEnd: quietHourSchema,
+    dailyDigest: z.boolean().optional(),
+  })
+  .refine(
+    (data) => (data.quietHoursStart === undefined) === (data.quietHoursEnd === undefined)
+      && (data.quietHoursStart === null) === (data.quietHoursEnd === null),
+    { message: 'Quiet hours need both a start and an end time', path: ['quietHoursEnd'] }
+  )
+  .refine(
+    (data) => !data.quietHoursStart || data.quietHoursStart !== data.quietHoursEnd,
+    { message: 'Quiet hours start and end must differ', path: ['quietHoursEnd'] }
+  );
+
+// PushSubscription.toJSON() from the browser
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(2048).refine(isPushServiceEndpoint, 'Push endpoint is not a supported push service'),
+  expirationTime: z.number().int().positive().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100),
+  }),
+});
+
+export const pushEndpointQuerySchema = z.object({
+  endpoint: z.string().url().max(2048),
+});
+
 export type ListNotificationsQuery = z.infer<typeof listNotificationsQuerySchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
+export type PushSubscriptionInput = z.infer<typeof pushSubscriptionSchema>;
@@ -8,12 +8,17 @@ import { AppError } from '../../shared/errors';
 import { hashPassword } from '../../shared/password';
 import { DateTime } from 'luxon';
 import { parsePagination, getTodayInTimezone, parseDateInTimezone, getCurrentTimeInTimezone, getDayOfWeekInTimezone, formatTime12h } from '../../shared/utils';
-import { getEffectiveSchedule } from '../../shared/schedule.utils';
+import { getEffectiveSchedule, resolveDaySchedule, getScheduleCloseMinutes, timeToMinutes, formatScheduleWindows } from '../../shared/schedule.utils';
 import { isHoliday, buildHolidayDateSet } from '../../shared/holiday.utils';
 import { validateImageFile, uploadFile, deleteFile, buildAvatarKey, extractKeyFromUrl } from '../../shared/storage';
 import { emitEvent } from '../event/event.service';
+import { evaluateAlertRules } from '../alert-rule/alert-rule.service';
+import { SessionService } from '../auth/session.service';
+import { sendInvitation } from '../auth/invitation';
 import { MissedCheckInSnapshotService } from '../missed-check-in/missed-check-in-snapshot.service';
 import { MissedCheckInRepository } from '../missed-check-in/missed-check-in.repository';
+import { approvedLeaveOn } from '../leave/leave.repository';
+import { rosterSelect, toRoster } from '../roster/roster.repository';
 import { logger } from '../../config/logger';
 import { logAudit } from '../../shared/audit';
 import type { AuthenticatedUser } from '../../types/api.types';
@@ -159,14 +164,14 @@ export async function createPerson(c: Context): Promise<Response> {
     }
   }
 
-  // Hash the password before storing
+  // Hash the password before storing (invited people have none until they accept)
   const personData = {
     email: data.email,
     firstName: data.firstName,
     lastName: data.lastName,
     role: data.role,
     teamId: data.teamId,
-    passwordHash: await hashPassword(data.password),
+    passwordHash: data.password ? await hashPassword(data.password) : undefined,
     gender: data.gender,
     dateOfBirth: data.dateOfBirth,
     workDays: data.workDays,
@@ -195,7 +200,67 @@ export async function createPerson(c: Context): Promise<Response> {
     details: { email: data.email, role: data.role },
   });
 
-  return c.json({ success: true, data: result }, 201);
+  if (!data.sendInvitation) {
+    return c.json({ success: true, data: result }, 201);
+  }
+
+  // The account exists either way — if the email fails the admin can resend it
+  const invitationSent = await inviteNewPerson(companyId, userId, result);
+  return c.json({ success: true, data: { ...result, invitationSent } }, 201);
+}
+
+async function inviteNewPerson(
+  companyId: string,
+  userId: string,
+  person: { id: string; company_id: string; email: string; first_name: string }
+): Promise<boolean> {
+  try {
+    const { expiresAt } = await sendInvitation(person);
+    logAudit({
+      companyId,
+      personId: userId,
+      action: 'INVITE_PERSON',
+      entityType: 'PERSON',
+      entityId: person.id,
+      details: { email: person.email, expiresAt: expiresAt.toISOString() },
+    });
+    return true;
+  } catch (error) {
+    logger.error({ error, personId: person.id }, 'Failed to send invitation email');
+    return false;
+  }
+}
+
+/**
+ * POST /api/v1/persons/:id/invitation
+ * Resend the invitation email to someone who has not chosen a password yet.
+ * The new link supersedes any earlier one.
+ */
+export async function resendInvitation(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const id = c.req.param('id');
+
+  if (!id) {
+    throw new AppError('VALIDATION_ERROR', 'Person ID is required', 400);
+  }
+
+  const person = await getRepository(companyId).findInvitee(id);
+  if (!person) {
+    throw new AppError('NOT_FOUND', 'Person not found', 404);
+  }
+  if (!person.is_active) {
+    throw new AppError('PERSON_INACTIVE', 'Cannot invite a deactivated account', 400);
+  }
+  if (person.has_password) {
+    throw new AppError('ALREADY_ACTIVATED', 'This person has already set a password', 409);
+  }
+
+  if (!(await inviteNewPerson(companyId, userId, person))) {
+    throw new AppError('MAIL_FAILED', 'Could not send the invitation email. Please try again.', 502);
+  }
+
+  return c.json({ success: true, data: { message: `Invitation sent to ${person.email}` } });
 }
 
 export async function getPersonById(c: Context): Promise<Response> {
@@ -207,13 +272,21 @@ export async function getPersonById(c: Context): Promise<Response> {
   }
 
   const repository = getRepository(companyId);
-  const result = await repository.findById(id);
+  const [result, invitee] = await Promise.all([repository.findById(id), repository.findInvitee(id)]);
 
   if (!result) {
     throw new AppError('NOT_FOUND', 'Person not found', 404);
   }
 
-  return c.json({ success: true, data: result });
+  // No password yet = invited but not accepted (the admin can resend)
+  return c.json({
+    success: true,
+    data: {
+      ...result,
+      invitationPending: invitee ? !invitee.has_password : false,
+      mfaEnabled: invitee?.has_mfa ?? false,
+    },
+  });
 }
 
 /** Info collected when a pending transfer is cancelled during updatePerson. */
@@ -447,6 +520,22 @@ export async function updatePerson(c: Context): Promise<Response> {
 
   const result = await repository.update(id, updateData);
 
+  // Deactivation or role change must end live sessions — the access token carries the old role
+  if (data.isActive === false && existing.is_active) {
+    const revokedSessions = await new SessionService(prisma).revokeAllForPerson(companyId, id, 'DEACTIVATED');
+    emitEvent(prisma, {
+      companyId,
+      personId: userId,
+      eventType: 'PERSON_DEACTIVATED',
+      entityType: 'person',
+      entityId: id,
+      payload: { revokedSessions },
+      timezone,
+    });
+  } else if (data.role !== undefined && data.role !== existing.role) {
+    await new SessionService(prisma).revokeAllForPerson(companyId, id, 'ROLE_CHANGED');
+  }
+
   // Fire transfer cancellation side effects AFTER DB write succeeded
   if (transferCancellation) {
     emitTransferCancellation(companyId, id, transferCancellation, timezone);
@@ -596,24 +685,43 @@ async function createImmediateMissedCheckIn(
     if (!person.team_id || !person.team) return;
 
     const currentTime = getCurrentTimeInTimezone(timezone);
-    const todayDow = getDayOfWeekInTimezone(timezone).toString();
     const todayDate = parseDateInTimezone(todayStr, timezone);
 
-    // Get effective schedule
-    const personSchedule = { work_days: person.work_days, check_in_start: person.check_in_start, check_in_end: person.check_in_end };
-    const teamSchedule = { work_days: person.team.work_days, check_in_start: person.team.check_in_start, check_in_end: person.team.check_in_end };
-    const schedule = getEffectiveSchedule(personSchedule, teamSchedule);
-
-    // Only create if: today is work day AND window already closed AND no check-in today
-    if (!schedule.workDays.includes(todayDow)) return;
-    if (currentTime <= schedule.checkInEnd) return;
+    // Resolve today's schedule (roster OR worker override OR team default)
+    const rosters = await prisma.person.findFirst({
+      where: { id: personId, company_id: companyId },
+      select: { ...rosterSelect, team: { select: rosterSelect } },
+    });
+    const personSchedule = {
+      work_days: person.work_days,
+      check_in_start: person.check_in_start,
+      check_in_end: person.check_in_end,
+      roster: toRoster(rosters),
+    };
+    const teamSchedule = {
+      work_days: person.team.work_days,
+      check_in_start: person.team.check_in_start,
+      check_in_end: person.team.check_in_end,
+      roster: toRoster(rosters?.team),
+    };
+    const day = resolveDaySchedule(personSchedule, teamSchedule, todayStr);
+
+    // Only create if: today is work day AND last window already closed AND no check-in today.
+    // An overnight window closes tomorrow — the cron detector handles it then.
+    const closeMinutes = getScheduleCloseMinutes(day);
+    if (closeMinutes === null) return;
+    if (timeToMinutes(currentTime) <= closeMinutes) return;
 
     // Run independent checks in parallel
     const missedRepo = new MissedCheckInRepository(prisma, companyId);
     const ninetyDaysAgo = new Date(todayDate.getTime() - 90 * 24 * 60 * 60 * 1000);
 
-    const [holidayToday, existingCheckIn, existingMissed, holidayDateSet, teamLeader] = await Promise.all([
+    const [holidayToday, leaveToday, existingCheckIn, existingMissed, holidayDateSet, teamLeader] = await Promise.all([
       isHoliday(prisma, companyId, todayStr),
+      prisma.leaveRequest.findFirst({
+        where: { company_id: companyId, person_id: personId, ...approvedLeaveOn(todayDate).where },
+        select: { id: true },
+      }),
       prisma.checkIn.findFirst({
         where: { company_id: companyId, person_id: personId, check_in_date: todayDate },
         select: { id: true },
@@ -627,7 +735,7 @@ async function createImmediateMissedCheckIn(
           })
         : null,
     ]);
-    if (holidayToday || existingCheckIn || existingMissed.has(personId)) return;
+    if (holidayToday || leaveToday || existingCheckIn || existingMissed.has(personId)) return;
 
     // Use MissedCheckInSnapshotService for consistent snapshots (matches cron detector)
     const snapshotService = new MissedCheckInSnapshotService(prisma, companyId, timezone);
@@ -640,6 +748,7 @@ async function createImmediateMissedCheckIn(
         workDays: person.work_days,
         checkInStart: person.check_in_start,
         checkInEnd: person.check_in_end,
+        roster: personSchedule.roster,
         team: teamSchedule,
       }],
       todayDate,
@@ -657,7 +766,7 @@ async function createImmediateMissedCheckIn(
       personId,
       teamId: person.team_id,
       missedDate: todayDate,
-      scheduleWindow: `${formatTime12h(schedule.checkInStart)} - ${formatTime12h(schedule.checkInEnd)}`,
+      scheduleWindow: formatScheduleWindows(day.windows, formatTime12h),
       teamLeaderIdAtMiss,
       teamLeaderNameAtMiss,
       ...(snapshot && {
@@ -710,13 +819,17 @@ async function createImmediateMissedCheckIn(
       entityType: 'missed_check_in',
       payload: {
         missedDate: todayStr,
-        scheduleWindow: `${schedule.checkInStart} - ${schedule.checkInEnd}`,
+        scheduleWindow: formatScheduleWindows(day.windows),
         teamId: person.team_id,
         source: 'transfer',
       },
       timezone,
     });
 
+    if (inserted > 0) {
+      evaluateAlertRules(prisma, companyId, 'MISSED_CHECK_IN_DETECTED', [personId], todayStr);
+    }
+
     logger.info({ personId, companyId, date: todayStr }, 'Created immediate missed check-in on transfer');
   } catch (error) {
     logger.error({ error, personId }, 'Failed to create immediate missed check-in on transfer');
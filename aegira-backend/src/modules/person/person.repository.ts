@@ -7,7 +7,7 @@ import type { PaginationParams, PaginatedResponse } from '../../types/api.types'
 
 /**
  * Fields returned by all Person read/write queries.
- * Excludes password_hash — it must never leave the repository layer.
+ * Excludes password_hash, MFA state and the SSO subject — credentials must never leave the repository layer.
  */
 export const SAFE_PERSON_SELECT = {
   id: true,
@@ -28,6 +28,8 @@ export const SAFE_PERSON_SELECT = {
   work_days: true,
   check_in_start: true,
   check_in_end: true,
+  shift_pattern_id: true,
+  roster_anchor_date: true,
   effective_team_id: true,
   effective_transfer_date: true,
   transfer_initiated_by: true,
@@ -36,8 +38,18 @@ export const SAFE_PERSON_SELECT = {
   updated_at: true,
 } as const;
 
-/** Person without password_hash */
-export type SafePerson = Omit<Person, 'password_hash'>;
+/** Person without credentials (or own notification settings — see notification module) */
+export type SafePerson = Omit<
+  Person,
+  | 'password_hash'
+  | 'mfa_secret'
+  | 'mfa_enabled_at'
+  | 'mfa_last_used_step'
+  | 'sso_subject'
+  | 'quiet_hours_start'
+  | 'quiet_hours_end'
+  | 'notification_digest'
+>;
 
 /** Person without password_hash, with team relation */
 export type SafePersonWithTeam = SafePerson & {
@@ -150,6 +162,34 @@ export class PersonRepository extends BaseRepository {
     });
   }
 
+  /** Invitation and MFA state — whether a password / second factor is set, never the secrets themselves */
+  async findInvitee(id: string): Promise<{
+    id: string;
+    company_id: string;
+    email: string;
+    first_name: string;
+    is_active: boolean;
+    has_password: boolean;
+    has_mfa: boolean;
+  } | null> {
+    const row = await this.prisma.person.findFirst({
+      where: this.where({ id }),
+      select: {
+        id: true,
+        company_id: true,
+        email: true,
+        first_name: true,
+        is_active: true,
+        password_hash: true,
+        mfa_enabled_at: true,
+      },
+    });
+    if (!row) return null;
+
+    const { password_hash, mfa_enabled_at, ...person } = row;
+    return { ...person, has_password: password_hash !== null, has_mfa: mfa_enabled_at !== null };
+  }
+
   async findByEmail(email: string): Promise<{ id: string } | null> {
     return this.prisma.person.findFirst({
       where: this.where({ email: email.toLowerCase() }),
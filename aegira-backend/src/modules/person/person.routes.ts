@@ -5,6 +5,7 @@ import { zValidator } from '@hono/zod-validator';
 import { authMiddleware } from '../../middleware/auth';
 import { tenantMiddleware } from '../../middleware/tenant';
 import { roleMiddleware } from '../../middleware/role';
+import { rateLimitMiddleware } from '../../middleware/rate-limit';
 import * as controller from './person.controller';
 import { createPersonSchema, updatePersonSchema, updateProfileSchema } from './person.validator';
 
@@ -35,6 +36,9 @@ router.post('/', adminOnly, zValidator('json', createPersonSchema), controller.c
 // GET /api/v1/persons/:id - Get person by ID (ADMIN/SUPERVISOR/WHS)
 router.get('/:id', adminSupervisorOrWhs, controller.getPersonById);
 
+// POST /api/v1/persons/:id/invitation - Resend invitation email (ADMIN only)
+router.post('/:id/invitation', adminOnly, rateLimitMiddleware(10, 15 * 60 * 1000), controller.resendInvitation);
+
 // DELETE /api/v1/persons/:id/pending-transfer - Cancel pending transfer (ADMIN only)
 router.delete('/:id/pending-transfer', adminOnly, controller.cancelPendingTransfer);
 
@@ -5,7 +5,9 @@ import { TIME_REGEX, WORK_DAYS_REGEX, isEndTimeAfterStart } from '../../shared/s
 export const createPersonSchema = z
   .object({
     email: z.string().email().toLowerCase().trim(),
-    password: z.string().min(8, 'Password must be at least 8 characters'),
+    // Either set an initial password, or email an invitation so the person chooses their own
+    password: z.string().min(8, 'Password must be at least 8 characters').optional(),
+    sendInvitation: z.boolean().default(false),
     firstName: z.string().min(1).max(100).trim(),
     lastName: z.string().min(1).max(100).trim(),
     gender: z.enum(['MALE', 'FEMALE']).optional(),
@@ -46,7 +48,11 @@ export const createPersonSchema = z
       message: 'Check-in end time must be after start time',
       path: ['checkInEnd'],
     }
-  );
+  )
+  .refine((data) => data.sendInvitation !== (data.password !== undefined), {
+    message: 'Set a password or send an invitation (not both)',
+    path: ['password'],
+  });
 
 export const updatePersonSchema = z
   .object({
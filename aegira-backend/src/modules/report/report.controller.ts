@@ -0,0 +1,261 @@
+// Report Controller - Request handling
+import type { Context } from 'hono';
+import { prisma } from '../../config/database';
+import { ReportService, getLastCompletedPeriod } from './report.service';
+import { ReportSubscriptionRepository, type ReportSubscriptionWithTeam } from './report.repository';
+import { renderReportCsv, renderReportPdf, reportFileName } from './report.renderers';
+import {
+  reportTypeSchema,
+  type GenerateReportQuery,
+  type CreateReportSubscriptionInput,
+  type UpdateReportSubscriptionInput,
+} from './report.validator';
+import { getTeamContext } from '../../shared/team-context';
+import { AppError } from '../../shared/errors';
+import { logAudit } from '../../shared/audit';
+import { parseDateInTimezone } from '../../shared/utils';
+
+/**
+ * GET /api/v1/reports/:type
+ * Generate a report for the caller's team scope (TEAM_LEAD: own team,
+ * SUPERVISOR: assigned teams, ADMIN: all). format=json returns a preview;
+ * csv/pdf return a file download.
+ */
+export async function generateReport(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const query = c.req.valid('query' as never) as GenerateReportQuery;
+
+  const parsedType = reportTypeSchema.safeParse(c.req.param('type'));
+  if (!parsedType.success) {
+    throw new AppError('NOT_FOUND', 'Report type not found', 404);
+  }
+
+  const { teamIds: allowedTeamIds } = await getTeamContext(companyId, userId, userRole, timezone);
+
+  let teamIds = allowedTeamIds;
+  if (query.teamId) {
+    if (allowedTeamIds && !allowedTeamIds.includes(query.teamId)) {
+      throw new AppError('FORBIDDEN', 'You can only generate reports for your assigned teams', 403);
+    }
+    teamIds = [query.teamId];
+  }
+
+  const service = new ReportService(companyId, timezone);
+  const report = await service.generate(parsedType.data, {
+    from: query.from,
+    to: query.to,
+    teamIds,
+  });
+
+  if (query.format === 'csv') {
+    return c.body(renderReportCsv(report), 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${reportFileName(report, 'csv')}"`,
+      'Cache-Control': 'private, no-store',
+    });
+  }
+
+  if (query.format === 'pdf') {
+    const body = renderReportPdf(report);
+    return c.body(body, 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Length': String(body.byteLength),
+      'Content-Disposition': `attachment; filename="${reportFileName(report, 'pdf')}"`,
+      'Cache-Control': 'private, no-store',
+    });
+  }
+
+  return c.json({ success: true, data: report });
+}
+
+// ─── Scheduled delivery (subscriptions) ────────────────────────────
+
+function getRepository(companyId: string): ReportSubscriptionRepository {
+  return new ReportSubscriptionRepository(prisma, companyId);
+}
+
+/** null = all teams (ADMIN); SUPERVISOR = supervised teams */
+async function getAllowedTeamIds(c: Context): Promise<string[] | null> {
+  const { teamIds } = await getTeamContext(
+    c.get('companyId') as string,
+    c.get('userId') as string,
+    c.get('userRole') as string,
+    c.get('companyTimezone') as string
+  );
+  return teamIds;
+}
+
+function assertTeamAllowed(allowedTeamIds: string[] | null, teamId: string): void {
+  if (allowedTeamIds && !allowedTeamIds.includes(teamId)) {
+    throw new AppError('FORBIDDEN', 'You can only manage reports for your assigned teams', 403);
+  }
+}
+
+/** The first digest after subscribing (or switching frequency) covers the next full period */
+function currentPeriodMarker(frequency: 'WEEKLY' | 'MONTHLY', timezone: string): Date {
+  return parseDateInTimezone(getLastCompletedPeriod(frequency, timezone).end, timezone);
+}
+
+function mapSubscriptionToResponse(subscription: ReportSubscriptionWithTeam) {
+  return {
+    id: subscription.id,
+    teamId: subscription.team_id,
+    teamName: subscription.team.name,
+    frequency: subscription.frequency,
+    recipients: subscription.recipients,
+    isActive: subscription.is_active,
+    lastSentAt: subscription.last_sent_at?.toISOString() ?? null,
+    lastError: subscription.last_error,
+    createdByName: `${subscription.creator.first_name} ${subscription.creator.last_name}`,
+    createdAt: subscription.created_at.toISOString(),
+  };
+}
+
+/**
+ * GET /api/v1/reports/subscriptions
+ */
+export async function listReportSubscriptions(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const allowedTeamIds = await getAllowedTeamIds(c);
+
+  const subscriptions = await getRepository(companyId).findAll(allowedTeamIds);
+
+  return c.json({ success: true, data: subscriptions.map(mapSubscriptionToResponse) });
+}
+
+/**
+ * POST /api/v1/reports/subscriptions
+ */
+export async function createReportSubscription(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const data = c.req.valid('json' as never) as CreateReportSubscriptionInput;
+  const repository = getRepository(companyId);
+
+  const [allowedTeamIds, team, existing] = await Promise.all([
+    getAllowedTeamIds(c),
+    repository.findTeam(data.teamId),
+    repository.findByTeamAndFrequency(data.teamId, data.frequency),
+  ]);
+
+  if (!team || !team.is_active) {
+    throw new AppError('TEAM_NOT_FOUND', 'Team not found', 404);
+  }
+  assertTeamAllowed(allowedTeamIds, team.id);
+  if (existing) {
+    throw new AppError(
+      'DUPLICATE_SUBSCRIPTION',
+      `${team.name} already has a ${data.frequency.toLowerCase()} digest — edit its recipients instead`,
+      409
+    );
+  }
+
+  const subscription = await repository.create({
+    teamId: team.id,
+    frequency: data.frequency,
+    recipients: data.recipients,
+    createdBy: userId,
+    lastPeriodEnd: currentPeriodMarker(data.frequency, timezone),
+  });
+
+  logAudit({
+    companyId,
+    personId: userId,
+    action: 'CREATE_REPORT_SUBSCRIPTION',
+    entityType: 'REPORT_SUBSCRIPTION',
+    entityId: subscription.id,
+    details: { teamId: team.id, frequency: data.frequency, recipients: data.recipients.length },
+  });
+
+  return c.json({ success: true, data: mapSubscriptionToResponse(subscription) }, 201);
+}
+
+/**
+ * PATCH /api/v1/reports/subscriptions/:id
+ */
+export async function updateReportSubscription(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as UpdateReportSubscriptionInput;
+  const repository = getRepository(companyId);
+
+  const [allowedTeamIds, existing] = await Promise.all([
+    getAllowedTeamIds(c),
+    repository.findById(id),
+  ]);
+
+  if (!existing) {
+    throw new AppError('NOT_FOUND', 'Report subscription not found', 404);
+  }
+  assertTeamAllowed(allowedTeamIds, existing.team_id);
+
+  const frequencyChanged = data.frequency !== undefined && data.frequency !== existing.frequency;
+  if (frequencyChanged && await repository.findByTeamAndFrequency(existing.team_id, data.frequency!)) {
+    throw new AppError(
+      'DUPLICATE_SUBSCRIPTION',
+      `${existing.team.name} already has a ${data.frequency!.toLowerCase()} digest`,
+      409
+    );
+  }
+
+  const subscription = await repository.update(id, {
+    frequency: data.frequency,
+    recipients: data.recipients,
+    isActive: data.isActive,
+    ...(frequencyChanged && { lastPeriodEnd: currentPeriodMarker(data.frequency!, timezone) }),
+  });
+
+  logAudit({
+    companyId,
+    personId: userId,
+    action: 'UPDATE_REPORT_SUBSCRIPTION',
+    entityType: 'REPORT_SUBSCRIPTION',
+    entityId: id,
+    details: {
+      ...(data.frequency !== undefined && { frequency: data.frequency }),
+      ...(data.recipients !== undefined && { recipients: data.recipients.length }),
+      ...(data.isActive !== undefined && { isActive: data.isActive }),
+    },
+  });
+
+  return c.json({ success: true, data: mapSubscriptionToResponse(subscription) });
+}
+
+/**
+ * DELETE /api/v1/reports/subscriptions/:id
+ */
+export async function deleteReportSubscription(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const id = c.req.param('id');
+  const repository = getRepository(companyId);
+
+  const [allowedTeamIds, existing] = await Promise.all([
+    getAllowedTeamIds(c),
+    repository.findById(id),
+  ]);
+
+  if (!existing) {
+    throw new AppError('NOT_FOUND', 'Report subscription not found', 404);
+  }
+  assertTeamAllowed(allowedTeamIds, existing.team_id);
+
+  await repository.delete(id);
+
+  logAudit({
+    companyId,
+    personId: userId,
+    action: 'DELETE_REPORT_SUBSCRIPTION',
+    entityType: 'REPORT_SUBSCRIPTION',
+    entityId: id,
+    details: { teamId: existing.team_id, frequency: existing.frequency },
+  });
+
+  return c.json({ success: true, data: { message: 'Report subscription deleted' } });
+}
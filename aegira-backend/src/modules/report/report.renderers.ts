@@ -0,0 +1,67 @@
+// Report Renderers - CSV and PDF output for generated reports
+import { renderTablePdf } from '../../shared/pdf';
+import { escapeCsvCell } from '../../shared/export';
+import type { MailMessage } from '../../shared/mail';
+import type { ReportResult } from './report.service';
+
+function periodLabel(report: ReportResult): string {
+  return `${report.periodStart} to ${report.periodEnd} · ${report.scope}`;
+}
+
+export function renderReportCsv(report: ReportResult): string {
+  const lines = [
+    report.columns.map((col) => escapeCsvCell(col.label)).join(','),
+    ...report.rows.map((row) => report.columns.map((col) => escapeCsvCell(row[col.key] ?? null)).join(',')),
+  ];
+  // BOM so Excel opens UTF-8 names correctly
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export function renderReportPdf(report: ReportResult): Uint8Array<ArrayBuffer> {
+  return renderTablePdf({
+    title: report.title,
+    subtitle: periodLabel(report),
+    summary: report.summary,
+    columns: report.columns,
+    rows: report.rows.map((row) => report.columns.map((col) => row[col.key] ?? null)),
+    footer: `Generated ${report.generatedAt.slice(0, 16).replace('T', ' ')} UTC`,
+  });
+}
+
+export function reportFileName(report: ReportResult, extension: 'csv' | 'pdf'): string {
+  return `${report.type}_${report.periodStart}_${report.periodEnd}.${extension}`;
+}
+
+/**
+ * Scheduled digest email: report summaries in the body, full reports as PDF attachments.
+ */
+export function renderDigestEmail(
+  teamName: string,
+  frequency: 'WEEKLY' | 'MONTHLY',
+  reports: ReportResult[]
+): Omit<MailMessage, 'to'> {
+  const label = frequency === 'WEEKLY' ? 'Weekly' : 'Monthly';
+  const first = reports[0]!;
+  const period = `${first.periodStart} to ${first.periodEnd}`;
+
+  const sections = reports.map((report) =>
+    [report.title, ...report.summary.map((item) => `  ${item.label}: ${item.value}`)].join('\n')
+  );
+
+  return {
+    subject: `${label} readiness & compliance digest: ${teamName} (${period})`,
+    text: [
+      `${label} readiness & compliance digest`,
+      `Team: ${teamName}`,
+      `Period: ${period}`,
+      '',
+      ...sections.flatMap((section) => [section, '']),
+      'The full reports are attached as PDF.',
+    ].join('\n'),
+    attachments: reports.map((report) => ({
+      filename: reportFileName(report, 'pdf'),
+      contentType: 'application/pdf',
+      content: renderReportPdf(report),
+    })),
+  };
+}
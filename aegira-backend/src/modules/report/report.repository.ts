@@ -0,0 +1,97 @@
+import type { PrismaClient, ReportFrequency, ReportSubscription } from '@prisma/client';
+import { BaseRepository } from '../../shared/base.repository';
+
+export type ReportSubscriptionWithTeam = ReportSubscription & {
+  team: { id: string; name: string };
+  creator: { first_name: string; last_name: string };
+};
+
+export interface CreateReportSubscriptionData {
+  teamId: string;
+  frequency: ReportFrequency;
+  recipients: string[];
+  createdBy: string;
+  /** Latest period already complete at creation — the first digest covers the next one */
+  lastPeriodEnd: Date;
+}
+
+export interface UpdateReportSubscriptionData {
+  frequency?: ReportFrequency;
+  recipients?: string[];
+  isActive?: boolean;
+  lastPeriodEnd?: Date;
+}
+
+const SUBSCRIPTION_INCLUDE = {
+  team: { select: { id: true, name: true } },
+  creator: { select: { first_name: true, last_name: true } },
+} as const;
+
+export class ReportSubscriptionRepository extends BaseRepository {
+  constructor(prisma: PrismaClient, companyId: string) {
+    super(prisma, companyId);
+  }
+
+  /** teamIds null = all teams (ADMIN) */
+  async findAll(teamIds: string[] | null): Promise<ReportSubscriptionWithTeam[]> {
+    return this.prisma.reportSubscription.findMany({
+      where: this.where(teamIds ? { team_id: { in: teamIds } } : {}),
+      include: SUBSCRIPTION_INCLUDE,
+      orderBy: [{ team: { name: 'asc' } }, { frequency: 'asc' }],
+    });
+  }
+
+  async findById(id: string): Promise<ReportSubscriptionWithTeam | null> {
+    return this.prisma.reportSubscription.findFirst({
+      where: this.where({ id }),
+      include: SUBSCRIPTION_INCLUDE,
+    });
+  }
+
+  async findByTeamAndFrequency(teamId: string, frequency: ReportFrequency): Promise<{ id: string } | null> {
+    return this.prisma.reportSubscription.findFirst({
+      where: this.where({ team_id: teamId, frequency }),
+      select: { id: true },
+    });
+  }
+
+  async findTeam(teamId: string): Promise<{ id: string; name: string; is_active: boolean } | null> {
+    return this.prisma.team.findFirst({
+      where: this.where({ id: teamId }),
+      select: { id: true, name: true, is_active: true },
+    });
+  }
+
+  async create(data: CreateReportSubscriptionData): Promise<ReportSubscriptionWithTeam> {
+    return this.prisma.reportSubscription.create({
+      data: this.withCompany({
+        team_id: data.teamId,
+        frequency: data.frequency,
+        recipients: data.recipients,
+        created_by: data.createdBy,
+        last_period_end: data.lastPeriodEnd,
+      }),
+      include: SUBSCRIPTION_INCLUDE,
+    });
+  }
+
+  async update(id: string, data: UpdateReportSubscriptionData): Promise<ReportSubscriptionWithTeam> {
+    return this.prisma.reportSubscription.update({
+      where: { id, company_id: this.companyId },
+      data: {
+        ...(data.frequency !== undefined && { frequency: data.frequency }),
+        ...(data.recipients !== undefined && { recipients: data.recipients }),
+        ...(data.isActive !== undefined && { is_active: data.isActive }),
+        ...(data.lastPeriodEnd !== undefined && { last_period_end: data.lastPeriodEnd }),
+      },
+      include: SUBSCRIPTION_INCLUDE,
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.prisma.reportSubscription.deleteMany({
+      where: this.where({ id }),
+    });
+    return result.count > 0;
+  }
+}
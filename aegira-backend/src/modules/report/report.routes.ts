@@ -0,0 +1,41 @@
+// Report Module Routes
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { authMiddleware } from '../../middleware/auth';
+import { tenantMiddleware } from '../../middleware/tenant';
+import { roleMiddleware } from '../../middleware/role';
+import * as controller from './report.controller';
+import {
+  generateReportQuerySchema,
+  createReportSubscriptionSchema,
+  updateReportSubscriptionSchema,
+} from './report.validator';
+
+const router = new Hono();
+
+router.use('*', authMiddleware);
+router.use('*', tenantMiddleware);
+
+const teamLeadUp = roleMiddleware(['TEAM_LEAD', 'SUPERVISOR', 'ADMIN']);
+const supervisorUp = roleMiddleware(['SUPERVISOR', 'ADMIN']);
+
+// Scheduled digest subscriptions (SUPERVISOR: supervised teams, ADMIN: all teams)
+// Registered before /:type so "subscriptions" isn't taken as a report type
+
+// GET /api/v1/reports/subscriptions - List digest subscriptions in scope (SUPERVISOR+)
+router.get('/subscriptions', supervisorUp, controller.listReportSubscriptions);
+
+// POST /api/v1/reports/subscriptions - Subscribe recipients to a team's weekly/monthly digest (SUPERVISOR+)
+router.post('/subscriptions', supervisorUp, zValidator('json', createReportSubscriptionSchema), controller.createReportSubscription);
+
+// PATCH /api/v1/reports/subscriptions/:id - Change frequency, recipients or pause (SUPERVISOR+)
+router.patch('/subscriptions/:id', supervisorUp, zValidator('json', updateReportSubscriptionSchema), controller.updateReportSubscription);
+
+// DELETE /api/v1/reports/subscriptions/:id - Remove a subscription (SUPERVISOR+)
+router.delete('/subscriptions/:id', supervisorUp, controller.deleteReportSubscription);
+
+// GET /api/v1/reports/:type - Generate a report as JSON preview, CSV or PDF (TEAM_LEAD+)
+// :type = weekly-summary | monthly | compliance | high-risk-incidents
+router.get('/:type', teamLeadUp, zValidator('query', generateReportQuerySchema), controller.generateReport);
+
+export { router as reportRoutes };
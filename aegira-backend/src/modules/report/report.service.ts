@@ -0,0 +1,595 @@
+// Report Service - Server-side report generation (CSV/PDF/JSON preview)
+import { DateTime } from 'luxon';
+import { prisma } from '../../config/database';
+import { AppError } from '../../shared/errors';
+import { getTodayInTimezone, parseDateInTimezone } from '../../shared/utils';
+import { MAX_REPORT_RANGE_DAYS, type ReportType } from './report.validator';
+
+export type ReportCell = string | number | null;
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  /** Relative column width in the PDF (default 1) */
+  weight?: number;
+  align?: 'left' | 'right';
+}
+
+export interface ReportResult {
+  type: ReportType;
+  title: string;
+  periodStart: string; // YYYY-MM-DD, company timezone
+  periodEnd: string;
+  scope: string; // "All teams" or team names
+  generatedAt: string;
+  summary: { label: string; value: string }[];
+  columns: ReportColumn[];
+  rows: Record<string, ReportCell>[];
+}
+
+export interface ReportOptions {
+  from?: string;
+  to?: string;
+  /** null = all teams (ADMIN), otherwise the teams the caller may see */
+  teamIds: string[] | null;
+}
+
+interface ReportRange {
+  start: string;
+  end: string;
+  /** @db.Date bounds (UTC midnight) for check_in_date / missed_date */
+  startDate: Date;
+  endDate: Date;
+  /** Timestamp bounds for created_at / resolved_at */
+  startAt: Date;
+  endAt: Date;
+}
+
+interface WorkerActivity {
+  personId: string;
+  name: string;
+  teamId: string | null;
+  teamName: string;
+  checkIns: number;
+  avgReadiness: number | null;
+  avgSleep: number | null;
+  green: number;
+  yellow: number;
+  red: number;
+  missed: number; // unresolved misses
+  late: number; // misses later resolved by a late check-in
+  lastMissed: Date | null;
+}
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  'weekly-summary': 'Weekly Summary',
+  monthly: 'Monthly Report',
+  compliance: 'Compliance Report',
+  'high-risk-incidents': 'High-Risk Incidents',
+};
+
+/** Default lookback when no range is given */
+const DEFAULT_RANGE_DAYS: Record<ReportType, number> = {
+  'weekly-summary': 7,
+  monthly: 30,
+  compliance: 30,
+  'high-risk-incidents': 90,
+};
+
+const HIGH_RISK_SEVERITIES = ['HIGH', 'CRITICAL'] as const;
+
+function percent(numerator: number, denominator: number): string {
+  if (denominator === 0) return 'N/A';
+  return `${Math.round((numerator / denominator) * 100)}%`;
+}
+
+function round1(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(value * 10) / 10;
+}
+
+function humanize(value: string): string {
+  return value
+    .toLowerCase()
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+export class ReportService {
+  constructor(
+    private readonly companyId: string,
+    private readonly timezone: string = 'Asia/Manila'
+  ) {}
+
+  async generate(type: ReportType, options: ReportOptions): Promise<ReportResult> {
+    const range = this.resolveRange(type, options.from, options.to);
+
+    const [scope, body] = await Promise.all([
+      this.describeScope(options.teamIds),
+      this.buildBody(type, range, options.teamIds),
+    ]);
+
+    return {
+      type,
+      title: REPORT_TITLES[type],
+      periodStart: range.start,
+      periodEnd: range.end,
+      scope,
+      generatedAt: new Date().toISOString(),
+      ...body,
+    };
+  }
+
+  private buildBody(
+    type: ReportType,
+    range: ReportRange,
+    teamIds: string[] | null
+  ): Promise<Pick<ReportResult, 'summary' | 'columns' | 'rows'>> {
+    switch (type) {
+      case 'weekly-summary':
+        return this.buildWeeklySummary(range, teamIds);
+      case 'monthly':
+        return this.buildMonthlyReport(range, teamIds);
+      case 'compliance':
+        return this.buildComplianceReport(range, teamIds);
+      case 'high-risk-incidents':
+        return this.buildHighRiskIncidents(range, teamIds);
+    }
+  }
+
+  // ─── Report builders ──────────────────────────────────────────────
+
+  /** Per-worker readiness and check-in activity */
+  private async buildWeeklySummary(range: ReportRange, teamIds: string[] | null) {
+    const workers = await this.getWorkerActivity(range, teamIds);
+    const totals = this.sumActivity(workers);
+
+    const readinessWorkers = workers.filter((w) => w.avgReadiness !== null);
+    const avgReadiness = readinessWorkers.length
+      ? readinessWorkers.reduce((sum, w) => sum + w.avgReadiness! * w.checkIns, 0) / totals.checkIns
+      : null;
+
+    return {
+      summary: [
+        { label: 'Workers', value: String(workers.length) },
+        { label: 'Check-ins', value: String(totals.checkIns) },
+        { label: 'Average readiness', value: avgReadiness === null ? 'N/A' : `${Math.round(avgReadiness)}%` },
+        { label: 'Not ready check-ins', value: String(totals.red) },
+        { label: 'Missed check-ins', value: String(totals.missed) },
+      ],
+      columns: [
+        { key: 'worker', label: 'Worker', weight: 2 },
+        { key: 'team', label: 'Team', weight: 1.5 },
+        { key: 'checkIns', label: 'Check-ins', align: 'right' as const },
+        { key: 'avgReadiness', label: 'Avg Readiness', align: 'right' as const },
+        { key: 'ready', label: 'Ready', align: 'right' as const },
+        { key: 'modifiedDuty', label: 'Modified Duty', align: 'right' as const },
+        { key: 'notReady', label: 'Not Ready', align: 'right' as const },
+        { key: 'avgSleep', label: 'Avg Sleep (h)', align: 'right' as const },
+        { key: 'missed', label: 'Missed', align: 'right' as const },
+        { key: 'late', label: 'Late', align: 'right' as const },
+      ],
+      rows: workers.map((w) => ({
+        worker: w.name,
+        team: w.teamName,
+        checkIns: w.checkIns,
+        avgReadiness: w.avgReadiness === null ? null : Math.round(w.avgReadiness),
+        ready: w.green,
+        modifiedDuty: w.yellow,
+        notReady: w.red,
+        avgSleep: round1(w.avgSleep),
+        missed: w.missed,
+        late: w.late,
+      })),
+    };
+  }
+
+  /** Per-team roll-up of check-ins, compliance, incidents and cases */
+  private async buildMonthlyReport(range: ReportRange, teamIds: string[] | null) {
+    const [teams, workers, incidents, casesOpened, casesResolved] = await Promise.all([
+      prisma.team.findMany({
+        where: {
+          company_id: this.companyId,
+          ...(teamIds ? { id: { in: teamIds } } : { is_active: true }),
+        },
+        select: { id: true, name: true, _count: { select: { members: { where: { is_active: true } } } } },
+        orderBy: { name: 'asc' },
+      }),
+      this.getWorkerActivity(range, teamIds),
+      prisma.incident.findMany({
+        where: {
+          company_id: this.companyId,
+          created_at: { gte: range.startAt, lte: range.endAt },
+          ...(teamIds && { reporter: { team_id: { in: teamIds } } }),
+        },
+        select: { severity: true, reporter: { select: { team_id: true } } },
+      }),
+      prisma.case.findMany({
+        where: {
+          company_id: this.companyId,
+          created_at: { gte: range.startAt, lte: range.endAt },
+          ...(teamIds && { incident: { reporter: { team_id: { in: teamIds } } } }),
+        },
+        select: { incident: { select: { reporter: { select: { team_id: true } } } } },
+      }),
+      prisma.case.findMany({
+        where: {
+          company_id: this.companyId,
+          resolved_at: { gte: range.startAt, lte: range.endAt },
+          ...(teamIds && { incident: { reporter: { team_id: { in: teamIds } } } }),
+        },
+        select: { incident: { select: { reporter: { select: { team_id: true } } } } },
+      }),
+    ]);
+
+    const countBy = <T>(items: T[], teamOf: (item: T) => string | null, predicate: (item: T) => boolean = () => true) => {
+      const counts = new Map<string, number>();
+      for (const item of items) {
+        const teamId = teamOf(item);
+        if (!teamId || !predicate(item)) continue;
+        counts.set(teamId, (counts.get(teamId) ?? 0) + 1);
+      }
+      return counts;
+    };
+
+    const incidentsByTeam = countBy(incidents, (i) => i.reporter.team_id);
+    const highRiskByTeam = countBy(incidents, (i) => i.reporter.team_id, (i) =>
+      (HIGH_RISK_SEVERITIES as readonly string[]).includes(i.severity)
+    );
+    const openedByTeam = countBy(casesOpened, (c) => c.incident.reporter.team_id);
+    const resolvedByTeam = countBy(casesResolved, (c) => c.incident.reporter.team_id);
+
+    const rows = teams.map((team) => {
+      const teamWorkers = workers.filter((w) => w.teamId === team.id);
+      const totals = this.sumActivity(teamWorkers);
+      const readinessSum = teamWorkers.reduce(
+        (sum, w) => sum + (w.avgReadiness ?? 0) * w.checkIns,
+        0
+      );
+
+      return {
+        team: team.name,
+        workers: team._count.members,
+        checkIns: totals.checkIns,
+        missed: totals.missed,
+        compliance: percent(totals.checkIns, totals.checkIns + totals.missed),
+        avgReadiness: totals.checkIns ? Math.round(readinessSum / totals.checkIns) : null,
+        notReady: totals.red,
+        incidents: incidentsByTeam.get(team.id) ?? 0,
+        highRisk: highRiskByTeam.get(team.id) ?? 0,
+        casesOpened: openedByTeam.get(team.id) ?? 0,
+        casesResolved: resolvedByTeam.get(team.id) ?? 0,
+      };
+    });
+
+    const totals = this.sumActivity(workers);
+
+    return {
+      summary: [
+        { label: 'Teams', value: String(teams.length) },
+        { label: 'Check-ins', value: String(totals.checkIns) },
+        { label: 'Compliance', value: percent(totals.checkIns, totals.checkIns + totals.missed) },
+        { label: 'Incidents reported', value: String(incidents.length) },
+        { label: 'Cases opened / resolved', value: `${casesOpened.length} / ${casesResolved.length}` },
+      ],
+      columns: [
+        { key: 'team', label: 'Team', weight: 2 },
+        { key: 'workers', label: 'Workers', align: 'right' as const },
+        { key: 'checkIns', label: 'Check-ins', align: 'right' as const },
+        { key: 'missed', label: 'Missed', align: 'right' as const },
+        { key: 'compliance', label: 'Compliance', align: 'right' as const },
+        { key: 'avgReadiness', label: 'Avg Readiness', align: 'right' as const },
+        { key: 'notReady', label: 'Not Ready', align: 'right' as const },
+        { key: 'incidents', label: 'Incidents', align: 'right' as const },
+        { key: 'highRisk', label: 'High/Critical', align: 'right' as const },
+        { key: 'casesOpened', label: 'Cases Opened', align: 'right' as const },
+        { key: 'casesResolved', label: 'Cases Resolved', align: 'right' as const },
+      ],
+      rows,
+    };
+  }
+
+  /** Per-worker compliance, least compliant first */
+  private async buildComplianceReport(range: ReportRange, teamIds: string[] | null) {
+    const workers = await this.getWorkerActivity(range, teamIds);
+    const totals = this.sumActivity(workers);
+
+    const rate = (w: WorkerActivity) => {
+      const expected = w.checkIns + w.missed;
+      return expected === 0 ? 1 : w.checkIns / expected;
+    };
+    const sorted = [...workers].sort((a, b) => rate(a) - rate(b) || b.missed - a.missed);
+
+    return {
+      summary: [
+        { label: 'Workers', value: String(workers.length) },
+        { label: 'Overall compliance', value: percent(totals.checkIns, totals.checkIns + totals.missed) },
+        { label: 'Missed check-ins', value: String(totals.missed) },
+        { label: 'Late check-ins', value: String(totals.late) },
+        { label: 'Workers with misses', value: String(workers.filter((w) => w.missed > 0).length) },
+      ],
+      columns: [
+        { key: 'worker', label: 'Worker', weight: 2 },
+        { key: 'team', label: 'Team', weight: 1.5 },
+        { key: 'checkIns', label: 'Check-ins', align: 'right' as const },
+        { key: 'late', label: 'Late', align: 'right' as const },
+        { key: 'missed', label: 'Missed', align: 'right' as const },
+        { key: 'compliance', label: 'Compliance', align: 'right' as const },
+        { key: 'lastMissed', label: 'Last Missed', align: 'right' as const },
+      ],
+      rows: sorted.map((w) => ({
+        worker: w.name,
+        team: w.teamName,
+        checkIns: w.checkIns,
+        late: w.late,
+        missed: w.missed,
+        compliance: percent(w.checkIns, w.checkIns + w.missed),
+        lastMissed: w.lastMissed ? DateTime.fromJSDate(w.lastMissed, { zone: 'UTC' }).toFormat('yyyy-MM-dd') : null,
+      })),
+    };
+  }
+
+  /** HIGH and CRITICAL incidents with their case follow-up */
+  private async buildHighRiskIncidents(range: ReportRange, teamIds: string[] | null) {
+    const incidents = await prisma.incident.findMany({
+      where: {
+        company_id: this.companyId,
+        severity: { in: [...HIGH_RISK_SEVERITIES] },
+        created_at: { gte: range.startAt, lte: range.endAt },
+        ...(teamIds && { reporter: { team_id: { in: teamIds } } }),
+      },
+      select: {
+        incident_number: true,
+        incident_type: true,
+        severity: true,
+        title: true,
+        status: true,
+        created_at: true,
+        reporter: {
+          select: { first_name: true, last_name: true, team: { select: { name: true } } },
+        },
+        incident_case: {
+          select: {
+            case_number: true,
+            status: true,
+            created_at: true,
+            resolved_at: true,
+            assignee: { select: { first_name: true, last_name: true } },
+          },
+        },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    const formatDate = (date: Date) => DateTime.fromJSDate(date).setZone(this.timezone).toFormat('yyyy-MM-dd');
+    const refYear = (date: Date) => DateTime.fromJSDate(date).setZone(this.timezone).year;
+
+    const critical = incidents.filter((i) => i.severity === 'CRITICAL').length;
+    const openCases = incidents.filter(
+      (i) => i.incident_case && (i.incident_case.status === 'OPEN' || i.incident_case.status === 'INVESTIGATING')
+    ).length;
+
+    return {
+      summary: [
+        { label: 'High-risk incidents', value: String(incidents.length) },
+        { label: 'Critical', value: String(critical) },
+        { label: 'High', value: String(incidents.length - critical) },
+        { label: 'Pending review', value: String(incidents.filter((i) => i.status === 'PENDING').length) },
+        { label: 'Cases still open', value: String(openCases) },
+      ],
+      columns: [
+        { key: 'incident', label: 'Incident #', weight: 1.2 },
+        { key: 'reported', label: 'Reported' },
+        { key: 'title', label: 'Title', weight: 2.5 },
+        { key: 'type', label: 'Type', weight: 1.5 },
+        { key: 'severity', label: 'Severity' },
+        { key: 'reporter', label: 'Reporter', weight: 1.5 },
+        { key: 'team', label: 'Team', weight: 1.2 },
+        { key: 'status', label: 'Status' },
+        { key: 'case', label: 'Case #', weight: 1.2 },
+        { key: 'caseStatus', label: 'Case Status' },
+        { key: 'assignee', label: 'Assigned To', weight: 1.5 },
+        { key: 'resolved', label: 'Resolved' },
+      ],
+      rows: incidents.map((i) => ({
+        incident: `INC-${refYear(i.created_at)}-${String(i.incident_number).padStart(4, '0')}`,
+        reported: formatDate(i.created_at),
+        title: i.title,
+        type: humanize(i.incident_type),
+        severity: humanize(i.severity),
+        reporter: `${i.reporter.first_name} ${i.reporter.last_name}`,
+        team: i.reporter.team?.name ?? 'Unassigned',
+        status: humanize(i.status),
+        case: i.incident_case
+          ? `CASE-${refYear(i.incident_case.created_at)}-${String(i.incident_case.case_number).padStart(4, '0')}`
+          : null,
+        caseStatus: i.incident_case ? humanize(i.incident_case.status) : null,
+        assignee: i.incident_case?.assignee
+          ? `${i.incident_case.assignee.first_name} ${i.incident_case.assignee.last_name}`
+          : null,
+        resolved: i.incident_case?.resolved_at ? formatDate(i.incident_case.resolved_at) : null,
+      })),
+    };
+  }
+
+  // ─── Shared data access ───────────────────────────────────────────
+
+  /**
+   * Check-in and missed check-in aggregates per person, joined with every
+   * active worker in scope so people with no activity still appear.
+   * Pattern 3: DB-level aggregation — groupBy rows, not raw check-ins.
+   */
+  private async getWorkerActivity(range: ReportRange, teamIds: string[] | null): Promise<WorkerActivity[]> {
+    const checkInWhere = {
+      company_id: this.companyId,
+      check_in_date: { gte: range.startDate, lte: range.endDate },
+      ...(teamIds && { person: { team_id: { in: teamIds } } }),
+    };
+    const missedWhere = {
+      company_id: this.companyId,
+      missed_date: { gte: range.startDate, lte: range.endDate },
+      ...(teamIds && { team_id: { in: teamIds } }),
+    };
+
+    const [checkInAggregates, levelCounts, unresolvedMisses, resolvedMisses, activeWorkers] = await Promise.all([
+      prisma.checkIn.groupBy({
+        by: ['person_id'],
+        where: checkInWhere,
+        _count: { _all: true },
+        _avg: { readiness_score: true, hours_slept: true },
+      }),
+      prisma.checkIn.groupBy({
+        by: ['person_id', 'readiness_level'],
+        where: checkInWhere,
+        _count: { _all: true },
+      }),
+      prisma.missedCheckIn.groupBy({
+        by: ['person_id'],
+        where: { ...missedWhere, resolved_at: null },
+        _count: { _all: true },
+        _max: { missed_date: true },
+      }),
+      prisma.missedCheckIn.groupBy({
+        by: ['person_id'],
+        where: { ...missedWhere, resolved_at: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.person.findMany({
+        where: {
+          company_id: this.companyId,
+          role: 'WORKER',
+          is_active: true,
+          ...(teamIds ? { team_id: { in: teamIds } } : { team_id: { not: null } }),
+        },
+        select: { id: true },
+      }),
+    ]);
+
+    const personIds = new Set<string>([
+      ...activeWorkers.map((p) => p.id),
+      ...checkInAggregates.map((r) => r.person_id),
+      ...unresolvedMisses.map((r) => r.person_id),
+      ...resolvedMisses.map((r) => r.person_id),
+    ]);
+    if (personIds.size === 0) return [];
+
+    const persons = await prisma.person.findMany({
+      where: { company_id: this.companyId, id: { in: [...personIds] } },
+      select: {
+        id: true,
+        first_name: true,
+        last_name: true,
+        team_id: true,
+        team: { select: { name: true } },
+      },
+    });
+
+    const checkInsByPerson = new Map(checkInAggregates.map((r) => [r.person_id, r]));
+    const unresolvedByPerson = new Map(unresolvedMisses.map((r) => [r.person_id, r]));
+    const resolvedByPerson = new Map(resolvedMisses.map((r) => [r.person_id, r._count._all]));
+    const levelsByPerson = new Map<string, Record<string, number>>();
+    for (const row of levelCounts) {
+      const levels = levelsByPerson.get(row.person_id) ?? {};
+      levels[row.readiness_level] = row._count._all;
+      levelsByPerson.set(row.person_id, levels);
+    }
+
+    return persons
+      .map((person) => {
+        const checkIns = checkInsByPerson.get(person.id);
+        const unresolved = unresolvedByPerson.get(person.id);
+        const levels = levelsByPerson.get(person.id) ?? {};
+        return {
+          personId: person.id,
+          name: `${person.first_name} ${person.last_name}`,
+          teamId: person.team_id,
+          teamName: person.team?.name ?? 'Unassigned',
+          checkIns: checkIns?._count._all ?? 0,
+          avgReadiness: checkIns?._avg.readiness_score ?? null,
+          avgSleep: checkIns?._avg.hours_slept ?? null,
+          green: levels.GREEN ?? 0,
+          yellow: levels.YELLOW ?? 0,
+          red: levels.RED ?? 0,
+          missed: unresolved?._count._all ?? 0,
+          late: resolvedByPerson.get(person.id) ?? 0,
+          lastMissed: unresolved?._max.missed_date ?? null,
+        };
+      })
+      .sort((a, b) => a.teamName.localeCompare(b.teamName) || a.name.localeCompare(b.name));
+  }
+
+  private sumActivity(workers: WorkerActivity[]) {
+    return workers.reduce(
+      (totals, w) => ({
+        checkIns: totals.checkIns + w.checkIns,
+        missed: totals.missed + w.missed,
+        late: totals.late + w.late,
+        red: totals.red + w.red,
+      }),
+      { checkIns: 0, missed: 0, late: 0, red: 0 }
+    );
+  }
+
+  private async describeScope(teamIds: string[] | null): Promise<string> {
+    if (teamIds === null) return 'All teams';
+    if (teamIds.length === 0) return 'No teams';
+
+    const teams = await prisma.team.findMany({
+      where: { company_id: this.companyId, id: { in: teamIds } },
+      select: { name: true },
+      orderBy: { name: 'asc' },
+    });
+    return teams.map((t) => t.name).join(', ');
+  }
+
+  /**
+   * Resolve the report period in the company timezone.
+   * Missing bounds default to a per-report lookback ending today.
+   */
+  private resolveRange(type: ReportType, from?: string, to?: string): ReportRange {
+    const end = to ?? getTodayInTimezone(this.timezone);
+    const start = from ?? DateTime.fromISO(end, { zone: this.timezone })
+      .minus({ days: DEFAULT_RANGE_DAYS[type] - 1 })
+      .toFormat('yyyy-MM-dd');
+
+    const startDt = DateTime.fromISO(start, { zone: this.timezone });
+    const endDt = DateTime.fromISO(end, { zone: this.timezone });
+    if (!startDt.isValid || !endDt.isValid) {
+      throw new AppError('VALIDATION_ERROR', 'Invalid report date range', 400);
+    }
+    if (startDt > endDt) {
+      throw new AppError('VALIDATION_ERROR', 'Start date must be on or before end date', 400);
+    }
+    if (endDt.diff(startDt, 'days').days + 1 > MAX_REPORT_RANGE_DAYS) {
+      throw new AppError(
+        'VALIDATION_ERROR',
+        `Report range cannot exceed ${MAX_REPORT_RANGE_DAYS} days`,
+        400
+      );
+    }
+
+    return {
+      start,
+      end,
+      startDate: parseDateInTimezone(start, this.timezone),
+      endDate: parseDateInTimezone(end, this.timezone),
+      startAt: startDt.startOf('day').toJSDate(),
+      endAt: endDt.endOf('day').toJSDate(),
+    };
+  }
+}
+
+/**
+ * Most recent fully elapsed digest period in the company timezone:
+ * WEEKLY = previous Monday–Sunday, MONTHLY = previous calendar month.
+ */
+export function getLastCompletedPeriod(
+  frequency: 'WEEKLY' | 'MONTHLY',
+  timezone: string,
+  now: DateTime = DateTime.now()
+): { start: string; end: string } {
+  const today = now.setZone(timezone).startOf('day');
+  const end = (frequency === 'WEEKLY' ? today.startOf('week') : today.startOf('month')).minus({ days: 1 });
+  const start = frequency === 'WEEKLY' ? end.minus({ days: 6 }) : end.startOf('month');
+  return { start: start.toFormat('yyyy-MM-dd'), end: end.toFormat('yyyy-MM-dd') };
+}
@@ -0,0 +1,59 @@
+// Report Module Validators
+import { z } from 'zod';
+
+export const REPORT_TYPES = ['weekly-summary', 'monthly', 'compliance', 'high-risk-incidents'] as const;
+
+export const reportTypeSchema = z.enum(REPORT_TYPES);
+
+export type ReportType = z.infer<typeof reportTypeSchema>;
+
+/** Longest range a single report may cover */
+export const MAX_REPORT_RANGE_DAYS = 366;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const generateReportQuerySchema = z
+  .object({
+    from: z.string().regex(DATE_REGEX, 'Invalid date format (YYYY-MM-DD)').optional(),
+    to: z.string().regex(DATE_REGEX, 'Invalid date format (YYYY-MM-DD)').optional(),
+    teamId: z.string().uuid().optional(),
+    format: z.enum(['json', 'csv', 'pdf']).default('json'),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'Start date must be on or before end date',
+    path: ['from'],
+  });
+
+export type GenerateReportQuery = z.infer<typeof generateReportQuerySchema>;
+
+// ─── Scheduled delivery ────────────────────────────────────────────
+
+export const REPORT_FREQUENCIES = ['WEEKLY', 'MONTHLY'] as const;
+
+/** Upper bound on recipients per subscription */
+export const MAX_REPORT_RECIPIENTS = 20;
+
+const recipientsSchema = z
+  .array(z.string().trim().toLowerCase().email('Invalid email address'))
+  .min(1, 'At least one recipient is required')
+  .max(MAX_REPORT_RECIPIENTS, `At most ${MAX_REPORT_RECIPIENTS} recipients`)
+  .transform((emails) => [...new Set(emails)]);
+
+export const createReportSubscriptionSchema = z.object({
+  teamId: z.string().uuid(),
+  frequency: z.enum(REPORT_FREQUENCIES),
+  recipients: recipientsSchema,
+});
+
+export const updateReportSubscriptionSchema = z
+  .object({
+    frequency: z.enum(REPORT_FREQUENCIES).optional(),
+    recipients: recipientsSchema.optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be provided',
+  });
+
+export type CreateReportSubscriptionInput = z.infer<typeof createReportSubscriptionSchema>;
+export type UpdateReportSubscriptionInput = z.infer<typeof updateReportSubscriptionSchema>;
@@ -0,0 +1,152 @@
+import type { Context } from 'hono';
+import { RosterRepository, type ShiftPatternWithAssignments } from './roster.repository';
+import { RosterService } from './roster.service';
+import type {
+  AssignRosterInput,
+  CreateShiftPatternInput,
+  GetSchedulePreviewQuery,
+  UpdateShiftPatternInput,
+} from './roster.validator';
+import { prisma } from '../../config/database';
+import type { CheckInWindow } from '../../shared/schedule.utils';
+
+function getService(companyId: string, timezone: string): RosterService {
+  return new RosterService(new RosterRepository(prisma, companyId), timezone);
+}
+
+interface ShiftPatternResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  cycle: CheckInWindow[][];
+  teams: { id: string; name: string; anchorDate: string | null }[];
+  workers: { id: string; name: string; anchorDate: string | null }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toDateString(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+function mapPatternToResponse(pattern: ShiftPatternWithAssignments): ShiftPatternResponse {
+  return {
+    id: pattern.id,
+    name: pattern.name,
+    description: pattern.description,
+    cycle: pattern.cycle as unknown as CheckInWindow[][],
+    teams: pattern.teams.map((t) => ({ id: t.id, name: t.name, anchorDate: toDateString(t.roster_anchor_date) })),
+    workers: pattern.persons.map((p) => ({
+      id: p.id,
+      name: `${p.first_name} ${p.last_name}`,
+      anchorDate: toDateString(p.roster_anchor_date),
+    })),
+    createdAt: pattern.created_at.toISOString(),
+    updatedAt: pattern.updated_at.toISOString(),
+  };
+}
+
+/**
+ * GET /api/v1/rosters/patterns
+ * List shift patterns with their team and worker assignments.
+ */
+export async function listPatterns(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+
+  const patterns = await new RosterRepository(prisma, companyId).findAll();
+
+  return c.json({ success: true, data: patterns.map(mapPatternToResponse) });
+}
+
+/**
+ * POST /api/v1/rosters/patterns
+ * Create a shift pattern.
+ */
+export async function createPattern(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const data = c.req.valid('json' as never) as CreateShiftPatternInput;
+
+  const pattern = await getService(companyId, timezone).createPattern(data, userId);
+
+  return c.json({ success: true, data: mapPatternToResponse(pattern) }, 201);
+}
+
+/**
+ * PATCH /api/v1/rosters/patterns/:id
+ * Update a shift pattern. Cycle changes apply to every assignment immediately.
+ */
+export async function updatePattern(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+  const data = c.req.valid('json' as never) as UpdateShiftPatternInput;
+
+  const pattern = await getService(companyId, timezone).updatePattern(id, data, userId);
+
+  return c.json({ success: true, data: mapPatternToResponse(pattern) });
+}
+
+/**
+ * DELETE /api/v1/rosters/patterns/:id
+ * Delete an unassigned shift pattern.
+ */
+export async function deletePattern(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const id = c.req.param('id');
+
+  await getService(companyId, timezone).deletePattern(id, userId);
+
+  return c.json({ success: true, data: { message: 'Shift pattern deleted' } });
+}
+
+/**
+ * PATCH /api/v1/rosters/teams/:teamId
+ * Put a team on a roster, or clear it (shiftPatternId: null) to use the weekly schedule.
+ */
+export async function assignTeamRoster(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const teamId = c.req.param('teamId');
+  const data = c.req.valid('json' as never) as AssignRosterInput;
+
+  await getService(companyId, timezone).assignToTeam(teamId, data, userId);
+
+  return c.json({ success: true, data: { message: data.shiftPatternId ? 'Roster assigned' : 'Roster cleared' } });
+}
+
+/**
+ * PATCH /api/v1/rosters/persons/:personId
+ * Put a worker on their own roster, or clear it to fall back to the team schedule.
+ */
+export async function assignPersonRoster(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const personId = c.req.param('personId');
+  const data = c.req.valid('json' as never) as AssignRosterInput;
+
+  await getService(companyId, timezone).assignToPerson(personId, data, userId);
+
+  return c.json({ success: true, data: { message: data.shiftPatternId ? 'Roster assigned' : 'Roster cleared' } });
+}
+
+/**
+ * GET /api/v1/rosters/persons/:personId/schedule
+ * Resolved day-by-day schedule for a worker over a date range.
+ */
+export async function getPersonSchedule(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const personId = c.req.param('personId');
+  const { from, to } = c.req.valid('query' as never) as GetSchedulePreviewQuery;
+
+  const days = await getService(companyId, timezone).getSchedulePreview(personId, from, to);
+
+  return c.json({ success: true, data: { personId, days } });
+}
@@ -0,0 +1,169 @@
+import type { PrismaClient, Prisma, ShiftPattern } from '@prisma/client';
+import { BaseRepository } from '../../shared/base.repository';
+import type { CheckInWindow, RosterSchedule } from '../../shared/schedule.utils';
+
+/**
+ * Roster assignment fields — spread into a person or team select and convert
+ * the row with toRoster() for PersonSchedule.roster / TeamSchedule.roster.
+ */
+export const rosterSelect = {
+  roster_anchor_date: true,
+  shift_pattern: { select: { cycle: true } },
+} as const;
+
+export interface RosterRow {
+  roster_anchor_date?: Date | null;
+  shift_pattern?: { cycle: Prisma.JsonValue } | null;
+}
+
+/** Null when no pattern is assigned (the weekly schedule applies) */
+export function toRoster(row: RosterRow | null | undefined): RosterSchedule | null {
+  if (!row?.shift_pattern || !row.roster_anchor_date) return null;
+  return {
+    anchor_date: row.roster_anchor_date,
+    // Shape enforced by createShiftPatternSchema on write
+    cycle: row.shift_pattern.cycle as unknown as CheckInWindow[][],
+  };
+}
+
+export type ShiftPatternWithAssignments = ShiftPattern & {
+  teams: { id: string; name: string; roster_anchor_date: Date | null }[];
+  persons: { id: string; first_name: string; last_name: string; roster_anchor_date: Date | null }[];
+};
+
+export class RosterRepository extends BaseRepository {
+  constructor(prisma: PrismaClient, companyId: string) {
+    super(prisma, companyId);
+  }
+
+  private readonly include = {
+    teams: {
+      select: { id: true, name: true, roster_anchor_date: true },
+      orderBy: { name: 'asc' as const },
+    },
+    persons: {
+      where: { is_active: true },
+      select: { id: true, first_name: true, last_name: true, roster_anchor_date: true },
+      orderBy: [{ last_name: 'asc' as const }, { first_name: 'asc' as const }],
+    },
+  };
+
+  async findAll(): Promise<ShiftPatternWithAssignments[]> {
+    return this.prisma.shiftPattern.findMany({
+      where: this.where({}),
+      include: this.include,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findById(id: string): Promise<ShiftPatternWithAssignments | null> {
+    return this.prisma.shiftPattern.findFirst({
+      where: this.where({ id }),
+      include: this.include,
+    });
+  }
+
+  async create(data: { name: string; description?: string; cycle: CheckInWindow[][] }): Promise<ShiftPatternWithAssignments> {
+    return this.prisma.shiftPattern.create({
+      data: {
+        company_id: this.companyId,
+        name: data.name,
+        description: data.description ?? null,
+        cycle: data.cycle as unknown as Prisma.InputJsonValue,
+      },
+      include: this.include,
+    });
+  }
+
+  async update(
+    id: string,
+    data: { name?: string; description?: string | null; cycle?: CheckInWindow[][] }
+  ): Promise<ShiftPatternWithAssignments> {
+    return this.prisma.shiftPattern.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description,
+        cycle: data.cycle as unknown as Prisma.InputJsonValue | undefined,
+      },
+      include: this.include,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.shiftPattern.delete({ where: { id } });
+  }
+
+  /** Teams and workers (active or not) still pointing at the pattern */
+  async countAssignments(id: string): Promise<number> {
+    const [teams, persons] = await Promise.all([
+      this.prisma.team.count({ where: this.where({ shift_pattern_id: id }) }),
+      this.prisma.person.count({ where: this.where({ shift_pattern_id: id }) }),
+    ]);
+    return teams + persons;
+  }
+
+  async findTeam(teamId: string) {
+    return this.prisma.team.findFirst({
+      where: this.where({ id: teamId }),
+      select: { id: true, name: true, shift_pattern_id: true, roster_anchor_date: true },
+    });
+  }
+
+  async findPerson(personId: string) {
+    return this.prisma.person.findFirst({
+      where: this.where({ id: personId }),
+      select: {
+        id: true,
+        role: true,
+        is_active: true,
+        first_name: true,
+        last_name: true,
+        shift_pattern_id: true,
+        roster_anchor_date: true,
+      },
+    });
+  }
+
+  async assignTeam(teamId: string, shiftPatternId: string | null, anchorDate: Date | null): Promise<void> {
+    await this.prisma.team.update({
+      where: { id: teamId },
+      data: { shift_pattern_id: shiftPatternId, roster_anchor_date: anchorDate },
+    });
+  }
+
+  async assignPerson(personId: string, shiftPatternId: string | null, anchorDate: Date | null): Promise<void> {
+    await this.prisma.person.update({
+      where: { id: personId },
+      data: { shift_pattern_id: shiftPatternId, roster_anchor_date: anchorDate },
+    });
+  }
+
+  /** Everything needed to resolve a worker's schedule over a date range */
+  async findPersonSchedule(personId: string, from: Date, to: Date) {
+    return this.prisma.person.findFirst({
+      where: this.where({ id: personId }),
+      select: {
+        id: true,
+        work_days: true,
+        check_in_start: true,
+        check_in_end: true,
+        ...rosterSelect,
+        leave_requests: {
+          where: { status: 'APPROVED', start_date: { lte: to }, end_date: { gte: from } },
+          select: { type: true, start_date: true, end_date: true },
+        },
+        team: {
+          select: {
+            id: true,
+            name: true,
+            work_days: true,
+            check_in_start: true,
+            check_in_end: true,
+            ...rosterSelect,
+          },
+        },
+      },
+    });
+  }
+}
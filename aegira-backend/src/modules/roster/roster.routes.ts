@@ -0,0 +1,45 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { authMiddleware } from '../../middleware/auth';
+import { tenantMiddleware } from '../../middleware/tenant';
+import { roleMiddleware } from '../../middleware/role';
+import * as controller from './roster.controller';
+import {
+  assignRosterSchema,
+  createShiftPatternSchema,
+  getSchedulePreviewQuerySchema,
+  updateShiftPatternSchema,
+} from './roster.validator';
+
+const router = new Hono();
+
+router.use('*', authMiddleware);
+router.use('*', tenantMiddleware);
+router.use('*', roleMiddleware(['ADMIN']));
+
+// GET /api/v1/rosters/patterns — list shift patterns
+router.get('/patterns', controller.listPatterns);
+
+// POST /api/v1/rosters/patterns — create shift pattern
+router.post('/patterns', zValidator('json', createShiftPatternSchema), controller.createPattern);
+
+// PATCH /api/v1/rosters/patterns/:id — update shift pattern
+router.patch('/patterns/:id', zValidator('json', updateShiftPatternSchema), controller.updatePattern);
+
+// DELETE /api/v1/rosters/patterns/:id — delete unassigned shift pattern
+router.delete('/patterns/:id', controller.deletePattern);
+
+// PATCH /api/v1/rosters/teams/:teamId — assign or clear a team roster
+router.patch('/teams/:teamId', zValidator('json', assignRosterSchema), controller.assignTeamRoster);
+
+// PATCH /api/v1/rosters/persons/:personId — assign or clear a worker roster
+router.patch('/persons/:personId', zValidator('json', assignRosterSchema), controller.assignPersonRoster);
+
+// GET /api/v1/rosters/persons/:personId/schedule — resolved schedule preview
+router.get(
+  '/persons/:personId/schedule',
+  zValidator('query', getSchedulePreviewQuerySchema),
+  controller.getPersonSchedule
+);
+
+export { router as rosterRoutes };
@@ -0,0 +1,235 @@
+import { Prisma } from '@prisma/client';
+import { DateTime } from 'luxon';
+import type { RosterRepository, ShiftPatternWithAssignments } from './roster.repository';
+import { toRoster } from './roster.repository';
+import type {
+  AssignRosterInput,
+  CreateShiftPatternInput,
+  UpdateShiftPatternInput,
+} from './roster.validator';
+import { AppError } from '../../shared/errors';
+import { logAudit } from '../../shared/audit';
+import { buildHolidayDateSet } from '../../shared/holiday.utils';
+import { resolveDaySchedule, type CheckInWindow } from '../../shared/schedule.utils';
+import { prisma } from '../../config/database';
+
+/** Roles with a check-in schedule */
+const ROSTERABLE_ROLES = ['WORKER', 'TEAM_LEAD'];
+
+export interface ScheduleDay {
+  date: string;
+  isWorkDay: boolean;
+  windows: CheckInWindow[];
+  source: 'roster' | 'weekly';
+  leaveType: string | null;
+  isHoliday: boolean;
+}
+
+export class RosterService {
+  constructor(
+    private readonly repository: RosterRepository,
+    private readonly timezone: string
+  ) {}
+
+  async createPattern(data: CreateShiftPatternInput, actorId: string): Promise<ShiftPatternWithAssignments> {
+    const companyId = this.repository.getCompanyId();
+
+    let pattern: ShiftPatternWithAssignments;
+    try {
+      pattern = await this.repository.create(data);
+    } catch (error) {
+      throw this.mapDuplicateName(error);
+    }
+
+    logAudit({
+      companyId,
+      personId: actorId,
+      action: 'CREATE_SHIFT_PATTERN',
+      entityType: 'shift_pattern',
+      entityId: pattern.id,
+      details: { name: pattern.name, cycleDays: data.cycle.length },
+    });
+
+    return pattern;
+  }
+
+  async updatePattern(
+    id: string,
+    data: UpdateShiftPatternInput,
+    actorId: string
+  ): Promise<ShiftPatternWithAssignments> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      throw new AppError('NOT_FOUND', 'Shift pattern not found', 404);
+    }
+
+    let pattern: ShiftPatternWithAssignments;
+    try {
+      pattern = await this.repository.update(id, data);
+    } catch (error) {
+      throw this.mapDuplicateName(error);
+    }
+
+    // Cycle edits apply to every assigned team and worker from the next resolution
+    logAudit({
+      companyId: this.repository.getCompanyId(),
+      personId: actorId,
+      action: 'UPDATE_SHIFT_PATTERN',
+      entityType: 'shift_pattern',
+      entityId: id,
+      details: {
+        changes: Object.keys(data),
+        assignedTeams: pattern.teams.length,
+        assignedWorkers: pattern.persons.length,
+      },
+    });
+
+    return pattern;
+  }
+
+  async deletePattern(id: string, actorId: string): Promise<void> {
+    const existing = await this.repository.findById(id);
+    if (!existing) {
+      throw new AppError('NOT_FOUND', 'Shift pattern not found', 404);
+    }
+
+    // Assignments are RESTRICT in the schema — surface a readable error instead
+    const assignments = await this.repository.countAssignments(id);
+    if (assignments > 0) {
+      throw new AppError(
+        'PATTERN_IN_USE',
+        `This pattern is assigned to ${assignments} team${assignments === 1 ? '' : 's'} or worker${assignments === 1 ? '' : 's'}. Unassign it first.`,
+        409
+      );
+    }
+
+    await this.repository.delete(id);
+
+    logAudit({
+      companyId: this.repository.getCompanyId(),
+      personId: actorId,
+      action: 'DELETE_SHIFT_PATTERN',
+      entityType: 'shift_pattern',
+      entityId: id,
+      details: { name: existing.name },
+    });
+  }
+
+  async assignToTeam(teamId: string, data: AssignRosterInput, actorId: string): Promise<void> {
+    const team = await this.repository.findTeam(teamId);
+    if (!team) {
+      throw new AppError('NOT_FOUND', 'Team not found', 404);
+    }
+
+    const { patternId, anchorDate } = await this.resolveAssignment(data);
+    await this.repository.assignTeam(teamId, patternId, anchorDate);
+
+    logAudit({
+      companyId: this.repository.getCompanyId(),
+      personId: actorId,
+      action: patternId ? 'ASSIGN_ROSTER' : 'CLEAR_ROSTER',
+      entityType: 'team',
+      entityId: teamId,
+      details: { shiftPatternId: patternId, anchorDate: data.anchorDate ?? null, previous: team.shift_pattern_id },
+    });
+  }
+
+  async assignToPerson(personId: string, data: AssignRosterInput, actorId: string): Promise<void> {
+    const person = await this.repository.findPerson(personId);
+    if (!person) {
+      throw new AppError('NOT_FOUND', 'Person not found', 404);
+    }
+
+    if (data.shiftPatternId && !ROSTERABLE_ROLES.includes(person.role)) {
+      throw new AppError('INVALID_ROLE', 'Only workers and team leads have a check-in schedule', 400);
+    }
+
+    const { patternId, anchorDate } = await this.resolveAssignment(data);
+    await this.repository.assignPerson(personId, patternId, anchorDate);
+
+    logAudit({
+      companyId: this.repository.getCompanyId(),
+      personId: actorId,
+      action: patternId ? 'ASSIGN_ROSTER' : 'CLEAR_ROSTER',
+      entityType: 'person',
+      entityId: personId,
+      details: { shiftPatternId: patternId, anchorDate: data.anchorDate ?? null, previous: person.shift_pattern_id },
+    });
+  }
+
+  /**
+   * Resolved schedule for a worker over a date range — rosters, weekly
+   * schedule, approved leave and company holidays, one entry per date.
+   */
+  async getSchedulePreview(personId: string, from: string, to: string): Promise<ScheduleDay[]> {
+    const fromDate = new Date(from + 'T00:00:00Z');
+    const toDate = new Date(to + 'T00:00:00Z');
+
+    const [person, holidays] = await Promise.all([
+      this.repository.findPersonSchedule(personId, fromDate, toDate),
+      buildHolidayDateSet(prisma, this.repository.getCompanyId(), fromDate, toDate, this.timezone),
+    ]);
+
+    if (!person) {
+      throw new AppError('NOT_FOUND', 'Person not found', 404);
+    }
+    if (!person.team) {
+      throw new AppError('NO_TEAM_ASSIGNED', 'This worker is not assigned to a team', 400);
+    }
+
+    const personSchedule = {
+      work_days: person.work_days,
+      check_in_start: person.check_in_start,
+      check_in_end: person.check_in_end,
+      exceptions: person.leave_requests,
+      roster: toRoster(person),
+    };
+    const teamSchedule = {
+      work_days: person.team.work_days,
+      check_in_start: person.team.check_in_start,
+      check_in_end: person.team.check_in_end,
+      roster: toRoster(person.team),
+    };
+
+    const days: ScheduleDay[] = [];
+    for (let date = DateTime.fromISO(from); date.toISODate()! <= to; date = date.plus({ days: 1 })) {
+      const dateStr = date.toISODate()!;
+      const day = resolveDaySchedule(personSchedule, teamSchedule, dateStr);
+      const isHoliday = holidays.has(dateStr);
+      days.push({
+        date: dateStr,
+        isWorkDay: day.isWorkDay && !isHoliday,
+        windows: day.windows,
+        source: day.source,
+        leaveType: day.exception?.type ?? null,
+        isHoliday,
+      });
+    }
+
+    return days;
+  }
+
+  /** Validate the pattern belongs to the company; clearing drops the anchor too */
+  private async resolveAssignment(
+    data: AssignRosterInput
+  ): Promise<{ patternId: string | null; anchorDate: Date | null }> {
+    if (data.shiftPatternId === null) {
+      return { patternId: null, anchorDate: null };
+    }
+
+    const pattern = await this.repository.findById(data.shiftPatternId);
+    if (!pattern) {
+      throw new AppError('NOT_FOUND', 'Shift pattern not found', 404);
+    }
+
+    // @db.Date — store the calendar date as UTC midnight
+    return { patternId: pattern.id, anchorDate: new Date(data.anchorDate + 'T00:00:00Z') };
+  }
+
+  private mapDuplicateName(error: unknown): unknown {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return new AppError('DUPLICATE_PATTERN', 'A shift pattern with this name already exists', 409);
+    }
+    return error;
+  }
+}
@@ -0,0 +1,131 @@
+// Roster Validation Schemas
+// Unlike the weekly team/worker window, roster windows may cross midnight
+// (e.g., 22:00→02:00 closes the next morning).
+import { z } from 'zod';
+import { TIME_REGEX, isOvernightWindow, timeToMinutes } from '../../shared/schedule.utils';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Longest supported cycle — covers fortnightly and 28-day rotations with room to spare */
+export const MAX_CYCLE_DAYS = 56;
+
+/** Check-in windows per day (split shifts) */
+export const MAX_WINDOWS_PER_DAY = 3;
+
+/** Schedule preview range */
+export const MAX_PREVIEW_RANGE_DAYS = 62;
+
+const windowSchema = z
+  .object({
+    start: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)'),
+    end: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)'),
+  })
+  .refine((w) => w.start !== w.end, {
+    message: 'Window start and end must differ',
+    path: ['end'],
+  });
+
+/**
+ * One cycle day. Windows must be in start order and must not overlap;
+ * only the last window of a day may cross midnight.
+ */
+const cycleDaySchema = z
+  .array(windowSchema)
+  .max(MAX_WINDOWS_PER_DAY)
+  .superRefine((windows, ctx) => {
+    for (let i = 1; i < windows.length; i++) {
+      const prev = windows[i - 1]!;
+      const current = windows[i]!;
+      if (isOvernightWindow(prev)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Only the last window of a day may cross midnight',
+          path: [i - 1, 'end'],
+        });
+        return;
+      }
+      if (timeToMinutes(current.start) <= timeToMinutes(prev.end)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Windows must be in order and must not overlap',
+          path: [i, 'start'],
+        });
+        return;
+      }
+    }
+  });
+
+const cycleSchema = z
+  .array(cycleDaySchema)
+  .min(1)
+  .max(MAX_CYCLE_DAYS)
+  .refine((days) => days.some((d) => d.length > 0), {
+    message: 'A pattern needs at least one working day',
+  })
+  .superRefine((days, ctx) => {
+    // An overnight window must close before the next day's first window opens
+    days.forEach((day, index) => {
+      const last = day[day.length - 1];
+      const next = days[(index + 1) % days.length]?.[0];
+      if (last && next && isOvernightWindow(last) && timeToMinutes(last.end) >= timeToMinutes(next.start)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'Overnight window overlaps the next day\'s first window',
+          path: [index, day.length - 1, 'end'],
+        });
+      }
+    });
+  });
+
+export const createShiftPatternSchema = z.object({
+  name: z.string().min(1).max(100).trim(),
+  description: z.string().max(500).trim().optional(),
+  cycle: cycleSchema,
+});
+
+export const updateShiftPatternSchema = z.object({
+  name: z.string().min(1).max(100).trim().optional(),
+  description: z.string().max(500).trim().nullable().optional(),
+  cycle: cycleSchema.optional(),
+});
+
+/** Assign a pattern (null clears the roster and restores the weekly schedule) */
+export const assignRosterSchema = z
+  .object({
+    shiftPatternId: z.string().uuid().nullable(),
+    anchorDate: z.string().regex(DATE_REGEX, 'Invalid date format (YYYY-MM-DD)').optional(),
+  })
+  .refine((data) => data.shiftPatternId === null || data.anchorDate !== undefined, {
+    message: 'Anchor date is required when assigning a pattern',
+    path: ['anchorDate'],
+  });
+
+export const getSchedulePreviewQuerySchema = z
+  .object({
+    from: z.string().regex(DATE_REGEX, 'Invalid date format (YYYY-MM-DD)'),
+    to: z.string().regex(DATE_REGEX, 'Invalid date format (YYYY-MM-DD)'),
+  })
+  .superRefine((data, ctx) => {
+    if (data.to < data.from) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'End date must be on or after start date',
+        path: ['to'],
+      });
+      return;
+    }
+
+    const days = (Date.parse(data.to) - Date.parse(data.from)) / 86_400_000 + 1;
+    if (days > MAX_PREVIEW_RANGE_DAYS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Range cannot be longer than ${MAX_PREVIEW_RANGE_DAYS} days`,
+        path: ['to'],
+      });
+    }
+  });
+
+export type CreateShiftPatternInput = z.infer<typeof createShiftPatternSchema>;
+export type UpdateShiftPatternInput = z.infer<typeof updateShiftPatternSchema>;
+export type AssignRosterInput = z.infer<typeof assignRosterSchema>;
+export type GetSchedulePreviewQuery = z.infer<typeof getSchedulePreviewQuerySchema>;
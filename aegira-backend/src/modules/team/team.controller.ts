@@ -11,9 +11,12 @@ import { logger } from '../../config/logger';
 import { logAudit } from '../../shared/audit';
 import { getTeamContext } from '../../shared/team-context';
 import {
+  getTodayInTimezone,
+  parseDateInTimezone,
   parsePagination,
 } from '../../shared/utils';
-import type { CreateTeamInput, UpdateTeamInput } from './team.validator';
+import { formatExportDate, formatExportDateTime, streamExport } from '../../shared/export';
+import type { CreateTeamInput, UpdateTeamInput, ExportCheckInHistoryQuery } from './team.validator';
 
 /** Non-blocking notification when team lead is assigned to a team. */
 function notifyTeamLeadAssignment(
@@ -278,6 +281,7 @@ export async function updateTeam(c: Context): Promise<Response> {
           ...(data.checkInStart !== undefined && { check_in_start: data.checkInStart }),
           ...(data.checkInEnd !== undefined && { check_in_end: data.checkInEnd }),
           ...(data.workDays !== undefined && { work_days: data.workDays }),
+          ...(data.reminderLeadMinutes !== undefined && { reminder_lead_minutes: data.reminderLeadMinutes }),
           is_active: false,
         },
       });
@@ -311,6 +315,7 @@ export async function updateTeam(c: Context): Promise<Response> {
   if (data.checkInStart !== undefined) auditDetails.checkInStart = data.checkInStart;
   if (data.checkInEnd !== undefined) auditDetails.checkInEnd = data.checkInEnd;
   if (data.workDays !== undefined) auditDetails.workDays = data.workDays;
+  if (data.reminderLeadMinutes !== undefined) auditDetails.reminderLeadMinutes = data.reminderLeadMinutes;
 
   logAudit({
     companyId,
@@ -437,6 +442,7 @@ export async function getCheckInHistory(c: Context): Promise<Response> {
     stressScore: ci.stress_score,
     physicalScore: ci.physical_score,
     painScore: ci.pain_score,
+    scoringModelVersion: ci.scoring_model_version,
     createdAt: ci.created_at,
     eventTime: ci.event?.event_time ?? ci.created_at,
     isLate: ci.event?.is_late ?? false,
@@ -452,6 +458,54 @@ export async function getCheckInHistory(c: Context): Promise<Response> {
   });
 }
 
+/**
+ * GET /api/v1/teams/check-in-history/export
+ * Streams the check-in history as CSV or XLSX. Same scoping and filters as
+ * the list endpoint (no row cap), plus an optional from/to date range.
+ */
+export async function exportCheckInHistory(c: Context): Promise<Response> {
+  const companyId = c.get('companyId') as string;
+  const userId = c.get('userId') as string;
+  const userRole = c.get('userRole') as string;
+  const timezone = c.get('companyTimezone') as string;
+  const query = c.req.valid('query' as never) as ExportCheckInHistoryQuery;
+
+  const { teamIds } = await getTeamContext(companyId, userId, userRole, timezone);
+
+  const checkInRepository = new CheckInRepository(prisma, companyId);
+  const rows = checkInRepository.streamCheckInsWithPerson({
+    teamIds,
+    personId: query.workerId,
+    search: query.search || undefined,
+    dateFrom: query.from ? parseDateInTimezone(query.from, timezone) : undefined,
+    dateTo: query.to ? parseDateInTimezone(query.to, timezone) : undefined,
+  });
+
+  return streamExport(c, {
+    format: query.format,
+    fileName: `check-ins_${getTodayInTimezone(timezone)}`,
+    title: 'Check-ins',
+    rows,
+    columns: [
+      { label: 'Date', value: (ci) => formatExportDate(ci.check_in_date) },
+      { label: 'Submitted At', value: (ci) => formatExportDateTime(ci.event?.event_time ?? ci.created_at, timezone) },
+      { label: 'Worker', value: (ci) => `${ci.person.first_name} ${ci.person.last_name}` },
+      { label: 'Email', value: (ci) => ci.person.email },
+      { label: 'Submission', value: (ci) => (ci.event?.is_late ? 'Late' : 'On Time') },
+      { label: 'Late By (min)', value: (ci) => ci.event?.late_by_minutes ?? null },
+      { label: 'Sleep Hours', value: (ci) => ci.hours_slept },
+      { label: 'Sleep Quality', value: (ci) => ci.sleep_quality },
+      { label: 'Stress Level', value: (ci) => ci.stress_level },
+      { label: 'Physical Condition', value: (ci) => ci.physical_condition },
+      { label: 'Pain Level', value: (ci) => ci.pain_level },
+      { label: 'Pain Location', value: (ci) => ci.pain_location },
+      { label: 'Readiness Score', value: (ci) => ci.readiness_score },
+      { label: 'Readiness Level', value: (ci) => ci.readiness_level },
+      { label: 'Notes', value: (ci) => ci.notes },
+    ],
+  });
+}
+
 export async function getTeamAnalytics(c: Context): Promise<Response> {
   const companyId = c.get('companyId') as string;
   const userId = c.get('userId') as string;
@@ -12,6 +12,7 @@ interface CreateTeamData {
   checkInStart?: string;
   checkInEnd?: string;
   workDays?: string;
+  reminderLeadMinutes?: number | null;
 }
 
 interface UpdateTeamData {
@@ -23,6 +24,7 @@ interface UpdateTeamData {
   checkInStart?: string;
   checkInEnd?: string;
   workDays?: string;
+  reminderLeadMinutes?: number | null;
 }
 
 export class TeamRepository extends BaseRepository {
@@ -41,6 +43,7 @@ export class TeamRepository extends BaseRepository {
         check_in_start: data.checkInStart || '06:00',
         check_in_end: data.checkInEnd || '10:00',
         work_days: data.workDays || '1,2,3,4,5',
+        ...(data.reminderLeadMinutes !== undefined && { reminder_lead_minutes: data.reminderLeadMinutes }),
       },
     });
   }
@@ -61,6 +64,7 @@ export class TeamRepository extends BaseRepository {
         check_in_start: true,
         check_in_end: true,
         work_days: true,
+        reminder_lead_minutes: true,
         description: true,
       },
     });
@@ -146,6 +150,9 @@ export class TeamRepository extends BaseRepository {
           check_in_start: true,
           check_in_end: true,
           work_days: true,
+          shift_pattern_id: true,
+          roster_anchor_date: true,
+          reminder_lead_minutes: true,
           is_active: true,
           created_at: true,
           updated_at: true,
@@ -189,6 +196,7 @@ export class TeamRepository extends BaseRepository {
         ...(data.checkInStart !== undefined && { check_in_start: data.checkInStart }),
         ...(data.checkInEnd !== undefined && { check_in_end: data.checkInEnd }),
         ...(data.workDays !== undefined && { work_days: data.workDays }),
+        ...(data.reminderLeadMinutes !== undefined && { reminder_lead_minutes: data.reminderLeadMinutes }),
       },
     });
   }
@@ -6,8 +6,11 @@ import { tenantMiddleware } from '../../middleware/tenant';
 import { roleMiddleware } from '../../middleware/role';
 import * as controller from './team.controller';
 import * as missedCheckInController from '../missed-check-in/missed-check-in.controller';
-import { createTeamSchema, updateTeamSchema } from './team.validator';
-import { getMissedCheckInsQuerySchema } from '../missed-check-in/missed-check-in.validator';
+import { createTeamSchema, updateTeamSchema, exportCheckInHistoryQuerySchema } from './team.validator';
+import {
+  getMissedCheckInsQuerySchema,
+  exportMissedCheckInsQuerySchema,
+} from '../missed-check-in/missed-check-in.validator';
 
 const router = new Hono();
 
@@ -30,12 +33,18 @@ router.post('/', adminOnly, zValidator('json', createTeamSchema), controller.cre
 // GET /api/v1/teams/missed-check-ins - Get missed check-ins (from DB)
 router.get('/missed-check-ins', teamLeadUpOrWhs, zValidator('query', getMissedCheckInsQuerySchema), missedCheckInController.getMissedCheckIns);
 
+// GET /api/v1/teams/missed-check-ins/export - Stream missed check-ins as CSV/XLSX (same filters + from/to)
+router.get('/missed-check-ins/export', teamLeadUpOrWhs, zValidator('query', exportMissedCheckInsQuerySchema), missedCheckInController.exportMissedCheckIns);
+
 // GET /api/v1/teams/analytics - Get team analytics
 router.get('/analytics', teamLeadUp, controller.getTeamAnalytics);
 
 // GET /api/v1/teams/check-in-history - Get check-in history for team workers (+ WHS for investigation)
 router.get('/check-in-history', teamLeadUpOrWhs, controller.getCheckInHistory);
 
+// GET /api/v1/teams/check-in-history/export - Stream check-in history as CSV/XLSX (same filters + from/to)
+router.get('/check-in-history/export', teamLeadUpOrWhs, zValidator('query', exportCheckInHistoryQuerySchema), controller.exportCheckInHistory);
+
 // GET /api/v1/teams/my-members - Get current user's team members
 router.get('/my-members', teamLeadUp, controller.getMyTeamMembers);
 
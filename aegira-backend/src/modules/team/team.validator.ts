@@ -1,8 +1,10 @@
 // Team Validation Schemas
-// Note: Cross-midnight check-in windows (e.g., 22:00→06:00) are intentionally NOT supported.
-// The validator enforces checkInEnd > checkInStart (same-day windows only).
+// Note: The weekly schedule only supports same-day windows — the validator enforces
+// checkInEnd > checkInStart. Overnight windows (e.g., 22:00→02:00) and split shifts
+// are configured with a shift roster instead (see modules/roster).
 import { z } from 'zod';
 import { TIME_REGEX, WORK_DAYS_REGEX, isEndTimeAfterStart } from '../../shared/schedule.utils';
+import { exportDateRangeShape, exportFormatSchema } from '../../shared/export';
 
 export const createTeamSchema = z
   .object({
@@ -14,6 +16,8 @@ export const createTeamSchema = z
     checkInStart: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)').optional(),
     checkInEnd: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)').optional(),
     workDays: z.string().regex(WORK_DAYS_REGEX, 'Invalid work days format').optional(),
+    // Minutes before check-in end to remind workers (null = reminders off)
+    reminderLeadMinutes: z.number().int().min(5).max(240).nullable().optional(),
   })
   .refine(
     (data) => {
@@ -39,6 +43,8 @@ export const updateTeamSchema = z
     checkInStart: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)').optional(),
     checkInEnd: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)').optional(),
     workDays: z.string().regex(WORK_DAYS_REGEX, 'Invalid work days format').optional(),
+    // Minutes before check-in end to remind workers (null = reminders off)
+    reminderLeadMinutes: z.number().int().min(5).max(240).nullable().optional(),
   })
   .refine(
     (data) => {
@@ -68,3 +74,13 @@ export const updateTeamSchema = z
 
 export type CreateTeamInput = z.infer<typeof createTeamSchema>;
 export type UpdateTeamInput = z.infer<typeof updateTeamSchema>;
+
+// Same filters as GET /teams/check-in-history, plus an optional date range
+export const exportCheckInHistoryQuerySchema = z.object({
+  workerId: z.string().optional(),
+  search: z.string().trim().optional(),
+  ...exportDateRangeShape,
+  format: exportFormatSchema,
+});
+
+export type ExportCheckInHistoryQuery = z.infer<typeof exportCheckInHistoryQuerySchema>;
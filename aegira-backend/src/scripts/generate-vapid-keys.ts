@@ -0,0 +1,7 @@
+// Prints a new VAPID key pair for Web Push: `npm run push:keys`
+import { generateVapidKeys } from '../shared/web-push';
+
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
@@ -0,0 +1,16 @@
+// Runs a mock OIDC provider for trying company SSO locally: `npm run sso:mock-idp`
+// Paste the printed values into Admin → Company Settings → Single Sign-On.
+import { startMockOidcProvider } from './mock-oidc-provider';
+import { getSsoRedirectUri } from '../modules/auth/sso.service';
+
+const provider = await startMockOidcProvider({
+  port: Number(process.env.MOCK_IDP_PORT ?? 4010),
+  clientId: process.env.MOCK_IDP_CLIENT_ID ?? 'aegira-local',
+  clientSecret: process.env.MOCK_IDP_CLIENT_SECRET ?? 'aegira-local-secret',
+});
+
+console.log('Mock OIDC provider running (any email signs in — development only)');
+console.log(`  Issuer URL:    ${provider.issuer}`);
+console.log(`  Client ID:     ${process.env.MOCK_IDP_CLIENT_ID ?? 'aegira-local'}`);
+console.log(`  Client secret: ${process.env.MOCK_IDP_CLIENT_SECRET ?? 'aegira-local-secret'}`);
+console.log(`  Redirect URI:  ${getSsoRedirectUri()}`);
@@ -0,0 +1,215 @@
+// Mock OpenID Connect provider for local SSO development and tests.
+// Implements just enough of a real provider for the AEGIRA relying party:
+// discovery, JWKS, an authorize page (any email signs in) and a token endpoint
+// that checks the client secret, redirect URI and PKCE verifier.
+// Never deploy this — it authenticates anyone as anyone.
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+
+export interface MockOidcProviderOptions {
+  /** 0 picks a free port */
+  port?: number;
+  clientId: string;
+  clientSecret: string;
+  /** Skip the sign-in page and approve `login_hint` straight away (tests) */
+  autoApprove?: boolean;
+  /** Claims merged into every ID token, e.g. { email_verified: false } */
+  extraClaims?: Record<string, unknown>;
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  email: string;
+  clientId: string;
+  redirectUri: string;
+  nonce: string | null;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+/** Stable subject per email, like a real directory's immutable user ID */
+function subjectFor(email: string): string {
+  return `mock|${createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24)}`;
+}
+
+export async function startMockOidcProvider(options: MockOidcProviderOptions): Promise<MockOidcProvider> {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+  const codes = new Map<string, PendingCode>();
+  let issuer = '';
+
+  const issueCode = (params: URLSearchParams, email: string): string => {
+    const redirectUri = params.get('redirect_uri') ?? '';
+    const code = randomBytes(16).toString('base64url');
+    codes.set(code, {
+      email: email.trim().toLowerCase(),
+      clientId: params.get('client_id') ?? '',
+      redirectUri,
+      nonce: params.get('nonce'),
+      codeChallenge: params.get('code_challenge') ?? '',
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+    const target = new URL(redirectUri);
+    target.searchParams.set('code', code);
+    const state = params.get('state');
+    if (state) target.searchParams.set('state', state);
+    return target.toString();
+  };
+
+  const handleAuthorize = (res: ServerResponse, params: URLSearchParams): void => {
+    if (params.get('client_id') !== options.clientId || params.get('response_type') !== 'code') {
+      sendJson(res, 400, { error: 'unauthorized_client' });
+      return;
+    }
+    const hint = params.get('login_hint') ?? '';
+    if (options.autoApprove && hint) {
+      res.writeHead(302, { Location: issueCode(params, hint) });
+      res.end();
+      return;
+    }
+
+    const hidden = [...params.entries()]
+      .filter(([name]) => name !== 'login_hint')
+      .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+      .join('');
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(`<!doctype html><title>Mock IdP</title>
+<body style="font-family:sans-serif;max-width:360px;margin:64px auto">
+<h2>Mock identity provider</h2>
+<p>Sign in as any email address. Development only.</p>
+<form method="post" action="/authorize">${hidden}
+<input name="email" type="email" value="${escapeHtml(hint)}" required style="width:100%;padding:8px">
+<p><button type="submit">Sign in</button> <button name="deny" value="1">Deny</button></p>
+</form></body>`);
+  };
+
+  const handleAuthorizeSubmit = (res: ServerResponse, form: URLSearchParams): void => {
+    const redirectUri = form.get('redirect_uri') ?? '';
+    if (form.get('deny')) {
+      const target = new URL(redirectUri);
+      target.searchParams.set('error', 'access_denied');
+      const state = form.get('state');
+      if (state) target.searchParams.set('state', state);
+      res.writeHead(302, { Location: target.toString() });
+      res.end();
+      return;
+    }
+    res.writeHead(302, { Location: issueCode(form, form.get('email') ?? '') });
+    res.end();
+  };
+
+  const handleToken = (req: IncomingMessage, res: ServerResponse, form: URLSearchParams): void => {
+    let clientId = form.get('client_id');
+    let clientSecret = form.get('client_secret');
+    const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+    if (basic) {
+      const [id, secret] = Buffer.from(basic[1]!, 'base64').toString('utf8').split(':');
+      clientId = decodeURIComponent(id ?? '');
+      clientSecret = decodeURIComponent(secret ?? '');
+    }
+    if (clientId !== options.clientId || clientSecret !== options.clientSecret) {
+      sendJson(res, 401, { error: 'invalid_client' });
+      return;
+    }
+
+    const code = form.get('code') ?? '';
+    const pending = codes.get(code);
+    codes.delete(code); // single use
+    const verifier = form.get('code_verifier') ?? '';
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+    if (
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.clientId !== clientId ||
+      pending.redirectUri !== form.get('redirect_uri') ||
+      pending.codeChallenge !== challenge
+    ) {
+      sendJson(res, 400, { error: 'invalid_grant' });
+      return;
+    }
+
+    const idToken = jwt.sign(
+      {
+        sub: subjectFor(pending.email),
+        email: pending.email,
+        email_verified: true,
+        ...(pending.nonce && { nonce: pending.nonce }),
+        ...options.extraClaims,
+      },
+      privateKey,
+      { algorithm: 'RS256', keyid: kid, issuer, audience: clientId, expiresIn: ID_TOKEN_TTL_SECONDS }
+    );
+    sendJson(res, 200, {
+      access_token: randomBytes(16).toString('base64url'),
+      token_type: 'Bearer',
+      expires_in: ID_TOKEN_TTL_SECONDS,
+      id_token: idToken,
+    });
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', issuer);
+    const route = `${req.method} ${url.pathname}`;
+
+    const handle = async () => {
+      switch (route) {
+        case 'GET /.well-known/openid-configuration':
+          return sendJson(res, 200, {
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`,
+            response_types_supported: ['code'],
+            subject_types_supported: ['public'],
+            id_token_signing_alg_values_supported: ['RS256'],
+            code_challenge_methods_supported: ['S256'],
+            token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+          });
+        case 'GET /jwks':
+          return sendJson(res, 200, { keys: [jwk] });
+        case 'GET /authorize':
+          return handleAuthorize(res, url.searchParams);
+        case 'POST /authorize':
+          return handleAuthorizeSubmit(res, await readForm(req));
+        case 'POST /token':
+          return handleToken(req, res, await readForm(req));
+        default:
+          return sendJson(res, 404, { error: 'not_found' });
+      }
+    };
+    handle().catch((error: unknown) => sendJson(res, 500, { error: String(error) }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
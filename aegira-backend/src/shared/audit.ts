@@ -6,7 +6,7 @@ import { logger } from '../config/logger';
 
 interface AuditLogInput {
   companyId: string;
-  personId: string;
+  personId: string | null; // null for system actions (scheduled jobs)
   action: string;
   entityType: string;
   entityId?: string;
@@ -0,0 +1,260 @@
+// Streaming Exports - CSV/XLSX downloads for list endpoints
+//
+// Rows are read from the database in keyset-paginated batches and encoded as
+// they arrive, so an export holds one batch in memory no matter how many
+// records match. The response is a pull-based stream: the next batch is only
+// fetched once the client has consumed the previous one.
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import { toCompanyTimezone } from './utils';
+import { zipEntries } from './zip';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const exportFormatSchema = z.enum(EXPORT_FORMATS).default('csv');
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Optional inclusive date range (YYYY-MM-DD, company timezone) for date-keyed exports */
+export const exportDateRangeShape = {
+  from: z.string().regex(DATE_REGEX, 'Invalid date format (YYYY-MM-DD)').optional(),
+  to: z.string().regex(DATE_REGEX, 'Invalid date format (YYYY-MM-DD)').optional(),
+};
+
+/** Rows fetched per database round trip */
+export const EXPORT_BATCH_SIZE = 500;
+
+export type ExportCell = string | number | null;
+
+export interface ExportColumn<T> {
+  label: string;
+  value: (row: T) => ExportCell;
+}
+
+export type ExportRows<T> = AsyncIterable<T> | Iterable<T>;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** Encoded output is flushed to the client in chunks of roughly this size */
+const CHUNK_SIZE = 64 * 1024;
+
+/** Excel's per-cell character limit */
+const XLSX_MAX_CELL_LENGTH = 32767;
+
+/** Leading characters spreadsheet apps treat as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escape a single CSV field (RFC 4180). Text that a spreadsheet would evaluate
+ * as a formula is prefixed with a quote so user-entered titles can't execute.
+ */
+export function escapeCsvCell(value: ExportCell | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/** Timestamp cell in the company timezone, e.g. "2026-03-09 07:45" */
+export function formatExportDateTime(date: Date, timezone: string): string {
+  return toCompanyTimezone(date, timezone).toFormat('yyyy-MM-dd HH:mm');
+}
+
+/** Calendar-date cell for @db.Date columns (stored as UTC midnight) */
+export function formatExportDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Walks a query in id-cursor batches until it returns a short page.
+ * The query must order by a stable key ending in `id` so the cursor is unambiguous.
+ */
+export async function* iterateInBatches<T extends { id: string }>(
+  fetchBatch: (cursor: string | undefined, take: number) => Promise<T[]>,
+  batchSize = EXPORT_BATCH_SIZE
+): AsyncGenerator<T> {
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await fetchBatch(cursor, batchSize);
+    yield* batch;
+    if (batch.length < batchSize) return;
+    cursor = batch[batch.length - 1]!.id;
+  }
+}
+
+/** Groups small strings into ~CHUNK_SIZE byte chunks */
+async function* encodeChunks(parts: AsyncIterable<string>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  let buffer = '';
+  for await (const part of parts) {
+    buffer += part;
+    if (buffer.length >= CHUNK_SIZE) {
+      yield encoder.encode(buffer);
+      buffer = '';
+    }
+  }
+  if (buffer) yield encoder.encode(buffer);
+}
+
+async function* csvLines<T>(columns: ExportColumn<T>[], rows: ExportRows<T>): AsyncGenerator<string> {
+  // BOM so Excel opens UTF-8 names correctly
+  yield `\uFEFF${columns.map((col) => escapeCsvCell(col.label)).join(',')}\r\n`;
+  for await (const row of rows) {
+    yield `${columns.map((col) => escapeCsvCell(col.value(row))).join(',')}\r\n`;
+  }
+}
+
+export function renderCsvStream<T>(columns: ExportColumn<T>[], rows: ExportRows<T>): AsyncGenerator<Uint8Array> {
+  return encodeChunks(csvLines(columns, rows));
+}
+
+// ─── XLSX (SpreadsheetML in a ZIP container) ───────────────────────
+
+// Control characters are not allowed in XML 1.0, even escaped
+const XML_INVALID_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(XML_INVALID_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xlsxCell(value: ExportCell, style?: number): string {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (value === null) return `<c${styleAttr}/>`;
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c${styleAttr}><v>${value}</v></c>`;
+  }
+  const text = escapeXml(String(value).slice(0, XLSX_MAX_CELL_LENGTH));
+  return `<c${styleAttr} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+async function* sheetXml<T>(columns: ExportColumn<T>[], rows: ExportRows<T>): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + '<sheetData>';
+  // Style 1 = bold header row (see STYLES_XML)
+  yield `<row>${columns.map((col) => xlsxCell(col.label, 1)).join('')}</row>`;
+  for await (const row of rows) {
+    yield `<row>${columns.map((col) => xlsxCell(col.value(row))).join('')}</row>`;
+  }
+  yield '</sheetData></worksheet>';
+}
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const ROOT_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>';
+
+const WORKBOOK_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '</Relationships>';
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+  + '</styleSheet>';
+
+/** Sheet names: max 31 chars, none of : \ / ? * [ ] */
+function sheetName(name: string): string {
+  return name.replace(/[:\\/?*[\]]/g, ' ').slice(0, 31).trim() || 'Sheet1';
+}
+
+function workbookXml(name: string): string {
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+    + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${escapeXml(sheetName(name))}" sheetId="1" r:id="rId1"/></sheets>`
+    + '</workbook>';
+}
+
+export function renderXlsxStream<T>(
+  columns: ExportColumn<T>[],
+  rows: ExportRows<T>,
+  title: string
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  return zipEntries([
+    { name: '[Content_Types].xml', data: [encoder.encode(CONTENT_TYPES_XML)] },
+    { name: '_rels/.rels', data: [encoder.encode(ROOT_RELS_XML)] },
+    { name: 'xl/workbook.xml', data: [encoder.encode(workbookXml(title))] },
+    { name: 'xl/_rels/workbook.xml.rels', data: [encoder.encode(WORKBOOK_RELS_XML)] },
+    { name: 'xl/styles.xml', data: [encoder.encode(STYLES_XML)] },
+    { name: 'xl/worksheets/sheet1.xml', data: encodeChunks(sheetXml(columns, rows)) },
+  ]);
+}
+
+/** Pull-based stream: the next chunk is produced only when the client reads */
+function toReadableStream(chunks: AsyncGenerator<Uint8Array>, label: string): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        // Headers are already sent — abort the download rather than end it cleanly,
+        // so the client sees a failed request instead of a silently truncated file
+        logger.error({ error, export: label }, 'Export stream failed');
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+export interface StreamExportOptions<T> {
+  format: ExportFormat;
+  /** File name without extension, e.g. "check-ins_2026-03-09" */
+  fileName: string;
+  /** XLSX sheet name */
+  title: string;
+  columns: ExportColumn<T>[];
+  rows: ExportRows<T>;
+}
+
+/**
+ * Respond with a streamed CSV or XLSX download.
+ */
+export function streamExport<T>(c: Context, options: StreamExportOptions<T>): Response {
+  const chunks = options.format === 'xlsx'
+    ? renderXlsxStream(options.columns, options.rows, options.title)
+    : renderCsvStream(options.columns, options.rows);
+
+  return c.body(toReadableStream(chunks, options.fileName), 200, {
+    'Content-Type': CONTENT_TYPES[options.format],
+    'Content-Disposition': `attachment; filename="${options.fileName}.${options.format}"`,
+    'Cache-Control': 'private, no-store',
+  });
+}
@@ -1,6 +1,7 @@
 // Holiday Utility Functions
 // Centralized holiday checking logic used by:
 //   - missed-check-in-detector (skip holidays)
+//   - check-in-reminder (skip holidays)
 //   - check-in.service (block check-in on holidays, status)
 //   - dashboard.service (streak, completion rate, schedule context)
 
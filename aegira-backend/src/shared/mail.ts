@@ -0,0 +1,361 @@
+// Outbound Mail
+// Selected via MAIL_TRANSPORT:
+//   - smtp: deliver through SMTP_HOST (STARTTLS on 587, implicit TLS when SMTP_SECURE=true);
+//     outbound mail is disabled while SMTP_HOST is unset (see isMailConfigured)
+//   - file: write each message as an .eml file under MAIL_FILE_DIR (dev and tests)
+//   - capture: keep messages in memory (tests; read them via getMailTransport())
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { env } from '../config/env';
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array | string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// ─── MIME encoding ──────────────────────────────────────────────────
+
+/** RFC 2047 encoded-word for headers that contain non-ASCII text */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/** Base64 wrapped at 76 characters per line (RFC 2045) */
+function base64Lines(content: Uint8Array | string): string {
+  const encoded = Buffer.from(content).toString('base64');
+  return encoded.replace(/.{1,76}/g, '$&\r\n').trimEnd();
+}
+
+/** Bare address from "Name <addr>" or "addr" */
+export function extractAddress(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1]! : value).trim();
+}
+
+function assertHeaderSafe(value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error('Mail header values must not contain line breaks');
+  }
+}
+
+/**
+ * Build an RFC 5322 message: multipart/mixed wrapping the body
+ * (text, or text + html alternative) and any attachments.
+ */
+export function buildMimeMessage(from: string, message: MailMessage): string {
+  [from, message.subject, ...message.to].forEach(assertHeaderSafe);
+
+  const mixedBoundary = `mixed_${randomUUID()}`;
+  const altBoundary = `alt_${randomUUID()}`;
+  const domain = extractAddress(from).split('@')[1] ?? 'localhost';
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+  ];
+
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+  ].join('\r\n');
+
+  const bodyPart = message.html
+    ? [
+        `Content-Type: multipart/alternative; boundary="${altBoundary}"`,
+        '',
+        `--${altBoundary}`,
+        textPart,
+        `--${altBoundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        base64Lines(message.html),
+        `--${altBoundary}--`,
+      ].join('\r\n')
+    : textPart;
+
+  const parts = [bodyPart];
+  for (const attachment of message.attachments ?? []) {
+    assertHeaderSafe(attachment.filename);
+    const filename = attachment.filename.replace(/"/g, '');
+    parts.push(
+      [
+        `Content-Type: ${attachment.contentType}; name="${filename}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${filename}"`,
+        '',
+        base64Lines(attachment.content),
+      ].join('\r\n')
+    );
+  }
+
+  return [
+    ...headers,
+    '',
+    ...parts.map((part) => `--${mixedBoundary}\r\n${part}`),
+    `--${mixedBoundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// ─── SMTP transport ─────────────────────────────────────────────────
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session over a socket. Replies are read line by line; a reply is
+ * complete when a line has a space (not '-') after the status code.
+ */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiter: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly options: SmtpOptions) {}
+
+  async connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    await this.attach(socket, secure ? 'secureConnect' : 'connect');
+  }
+
+  /** Upgrade the plain connection in place after a 220 reply to STARTTLS */
+  async upgrade(): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    const secured = tls.connect({ socket: plain, servername: this.options.host });
+    await this.attach(secured, 'secureConnect');
+  }
+
+  private attach(socket: net.Socket, readyEvent: 'connect' | 'secureConnect'): Promise<void> {
+    this.socket = socket;
+    socket.setTimeout(this.options.timeoutMs ?? 30_000);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('timeout', () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+
+    return new Promise((resolve, reject) => {
+      socket.once(readyEvent, () => resolve());
+      socket.once('error', reject);
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      this.lines.push(this.buffer.slice(0, index).replace(/\r$/, ''));
+      this.buffer = this.buffer.slice(index + 1);
+    }
+    this.notify();
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) this.failure = error;
+    this.notify();
+  }
+
+  private notify(): void {
+    const waiter = this.waiter;
+    if (!waiter) return;
+    this.waiter = null;
+    if (this.failure && !this.hasCompleteReply()) waiter.reject(this.failure);
+    else waiter.resolve();
+  }
+
+  private hasCompleteReply(): boolean {
+    return this.lines.some((line) => /^\d{3}(?: |$)/.test(line));
+  }
+
+  async read(): Promise<SmtpReply> {
+    while (!this.hasCompleteReply()) {
+      if (this.failure) throw this.failure;
+      await new Promise<void>((resolve, reject) => {
+        this.waiter = { resolve, reject };
+      });
+    }
+
+    const end = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    const replyLines = this.lines.splice(0, end + 1);
+    return {
+      code: Number(replyLines[end]!.slice(0, 3)),
+      lines: replyLines.map((line) => line.slice(4)),
+    };
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      // Never echo credentials back into logs
+      const sent = line?.startsWith('AUTH') ? 'AUTH' : line ?? 'greeting';
+      throw new Error(`SMTP ${sent} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+export class SmtpMailTransport implements MailTransport {
+  constructor(
+    private readonly options: SmtpOptions,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (message.to.length === 0) return;
+
+    const session = new SmtpSession(this.options);
+    const hostname = os.hostname() || 'localhost';
+
+    await session.connect();
+    try {
+      await session.command(null, [220]);
+      let ehlo = await session.command(`EHLO ${hostname}`, [250]);
+
+      if (!this.options.secure && ehlo.lines.some((l) => l.toUpperCase().startsWith('STARTTLS'))) {
+        await session.command('STARTTLS', [220]);
+        await session.upgrade();
+        ehlo = await session.command(`EHLO ${hostname}`, [250]);
+      }
+
+      if (this.options.user) {
+        const token = Buffer.from(`\0${this.options.user}\0${this.options.password ?? ''}`).toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${extractAddress(this.from)}>`, [250]);
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+      await session.command('DATA', [354]);
+
+      // Dot-stuffing: a line starting with '.' gets an extra '.' (RFC 5321 §4.5.2)
+      const body = buildMimeMessage(this.from, message).replace(/\r\n\./g, '\r\n..');
+      session.write(`${body}\r\n.\r\n`);
+      await session.command(null, [250]);
+
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+// ─── File transport ─────────────────────────────────────────────────
+
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private readonly dir: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (message.to.length === 0) return;
+
+    await mkdir(this.dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${randomUUID()}.eml`;
+    await writeFile(path.join(this.dir, fileName), buildMimeMessage(this.from, message), 'utf8');
+  }
+}
+
+// ─── Capture transport ──────────────────────────────────────────────
+
+/** Keeps sent messages in memory instead of delivering them */
+export class CaptureMailTransport implements MailTransport {
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    if (message.to.length === 0) return;
+    this.messages.push(message);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+let transport: MailTransport | null = null;
+
+/** Replace the configured transport (tests, or a custom provider); null restores the default */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+/**
+ * False when the smtp transport has no SMTP_HOST. Callers skip sending
+ * rather than fail, so a deployment without mail still runs.
+ */
+export function isMailConfigured(): boolean {
+  return transport !== null || env.MAIL_TRANSPORT !== 'smtp' || env.SMTP_HOST.length > 0;
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = env.MAIL_TRANSPORT === 'capture'
+      ? new CaptureMailTransport()
+      : env.MAIL_TRANSPORT === 'file'
+      ? new FileMailTransport(env.MAIL_FILE_DIR, env.MAIL_FROM)
+      : new SmtpMailTransport(
+          {
+            host: env.SMTP_HOST,
+            port: env.SMTP_PORT,
+            secure: env.SMTP_SECURE,
+            user: env.SMTP_USER || undefined,
+            password: env.SMTP_PASSWORD || undefined,
+          },
+          env.MAIL_FROM
+        );
+  }
+  return transport;
+}
@@ -0,0 +1,321 @@
+// OpenID Connect - relying-party side of the authorization-code flow
+//   - Discovery: provider metadata from <issuer>/.well-known/openid-configuration
+//   - PKCE (RFC 7636, S256) and a nonce bind the callback to the browser that started it
+//   - ID tokens are verified against the provider's JWKS (signature, iss, aud, exp, nonce)
+//   - Every provider URL must be https and resolve to a public address: issuers are
+//     tenant input, so anything else would let an admin probe the internal network.
+//     Connections re-check the addresses they actually use (publicAddressLookup),
+//     so a name can't pass the check and then rebind to an internal address.
+// Only what company SSO needs — no refresh tokens, userinfo or dynamic registration.
+import { createHash, createPublicKey, randomBytes, type JsonWebKey, type KeyObject } from 'crypto';
+import http from 'http';
+import https from 'https';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { publicAddressLookup, resolvesToPublicAddress } from './public-address';
+
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+export interface OidcClientConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+export interface OidcIdentity {
+  /** Stable subject identifier at the provider */
+  sub: string;
+  email: string | null;
+  /** Absent when the provider doesn't send email_verified */
+  emailVerified: boolean | null;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+/** Metadata and keys rarely change; a key-ID miss forces an early JWKS refresh */
+const CACHE_TTL_MS = 60 * 60 * 1000;
+/** Tolerated clock difference with the provider when checking exp/iat */
+const CLOCK_TOLERANCE_SECONDS = 60;
+const ALLOWED_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: JsonWebKey[]; expiresAt: number }>();
+
+function stripTrailingSlash(value: string): string {
+  return value.replace(/\/+$/, '');
+}
+
+/** Refuse anything but https to a public host (SSO_ALLOW_LOCAL_PROVIDER lifts this for the mock IdP) */
+async function assertProviderUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new OidcError('Provider URL is not a valid URL');
+  }
+  if (env.SSO_ALLOW_LOCAL_PROVIDER) return parsed;
+
+  if (parsed.protocol !== 'https:') {
+    throw new OidcError(`${parsed.origin} must use https`);
+  }
+  if (!(await resolvesToPublicAddress(parsed.hostname))) {
+    throw new OidcError(`${parsed.host} does not resolve to a public address`);
+  }
+  return parsed;
+}
+
+/** The standard OAuth error code from an error response (RFC 6749 §5.2), if there is one */
+function oauthErrorCode(body: string): string | null {
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown };
+    return typeof parsed.error === 'string' && /^[a-z_]{1,64}$/.test(parsed.error) ? parsed.error : null;
+  } catch {
+    return null;
+  }
+}
+
+interface ProviderRequest {
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * One request to the provider. Redirects are not followed — they could lead
+ * anywhere, including back inside the network — so they surface as errors.
+ */
+function sendProviderRequest(
+  target: URL,
+  { method = 'GET', headers = {}, body }: ProviderRequest
+): Promise<{ status: number; body: string }> {
+  const request = target.protocol === 'https:' ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method,
+        headers: { Accept: 'application/json', ...headers },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        ...(!env.SSO_ALLOW_LOCAL_PROVIDER && { lookup: publicAddressLookup }),
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') }));
+        res.on('error', reject);
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Provider responses never reach the caller verbatim — error messages end up
+ * in API responses, so bodies and network errors are only logged here.
+ */
+async function fetchJson(url: string, init: ProviderRequest = {}): Promise<Record<string, unknown>> {
+  const target = await assertProviderUrl(url);
+  let response: { status: number; body: string };
+  try {
+    response = await sendProviderRequest(target, init);
+  } catch (error) {
+    logger.warn({ error, url }, 'OIDC provider request failed');
+    throw new OidcError(`Could not reach ${target.host}`);
+  }
+  if (response.status < 200 || response.status >= 300) {
+    logger.warn({ url, status: response.status, body: response.body.slice(0, 500) }, 'OIDC provider returned an error');
+    const code = oauthErrorCode(response.body);
+    throw new OidcError(`${target.host} responded ${response.status}${code ? ` (${code})` : ''}`);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(response.body);
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== 'object') {
+    throw new OidcError(`${url} did not return a JSON object`);
+  }
+  return body as Record<string, unknown>;
+}
+
+/** Provider metadata, cached per issuer. The document must name the same issuer. */
+export async function discoverOidcProvider(issuer: string): Promise<OidcProviderMetadata> {
+  const key = stripTrailingSlash(issuer);
+  const cached = metadataCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.metadata;
+
+  const body = await fetchJson(`${key}/.well-known/openid-configuration`);
+  for (const field of ['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (typeof body[field] !== 'string') {
+      throw new OidcError(`Discovery document is missing ${field}`);
+    }
+  }
+  // Mix-up defence (OIDC Discovery §4.3)
+  if (stripTrailingSlash(body.issuer as string) !== key) {
+    logger.warn({ issuer, documentIssuer: body.issuer }, 'OIDC discovery document names another issuer');
+    throw new OidcError(`Discovery document is for a different issuer, expected ${issuer}`);
+  }
+
+  const metadata = body as unknown as OidcProviderMetadata;
+  metadataCache.set(key, { metadata, expiresAt: Date.now() + CACHE_TTL_MS });
+  return metadata;
+}
+
+/** Forget cached metadata and keys (e.g. after an admin changes the issuer) */
+export function clearOidcCache(): void {
+  metadataCache.clear();
+  jwksCache.clear();
+}
+
+/** Random URL-safe value for state and nonce */
+export function randomOidcToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/** PKCE verifier (kept server-side) and its S256 challenge (sent to the provider) */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+export function buildAuthorizationUrl(
+  metadata: OidcProviderMetadata,
+  params: {
+    clientId: string;
+    redirectUri: string;
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+    loginHint?: string;
+  }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('nonce', params.nonce);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (params.loginHint) url.searchParams.set('login_hint', params.loginHint);
+  return url.toString();
+}
+
+/**
+ * Redeem an authorization code for an ID token. Uses client_secret_basic
+ * unless the provider only advertises client_secret_post.
+ */
+export async function exchangeAuthorizationCode(
+  metadata: OidcProviderMetadata,
+  client: OidcClientConfig,
+  code: string,
+  codeVerifier: string
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: client.redirectUri,
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  const methods = metadata.token_endpoint_auth_methods_supported;
+  if (methods && !methods.includes('client_secret_basic') && methods.includes('client_secret_post')) {
+    body.set('client_id', client.clientId);
+    body.set('client_secret', client.clientSecret);
+  } else {
+    // RFC 6749 §2.3.1: form-encode each part before base64
+    const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body: body.toString() });
+  if (typeof tokens.id_token !== 'string') {
+    throw new OidcError('Token response did not include an id_token');
+  }
+  return tokens.id_token;
+}
+
+async function getJwks(jwksUri: string, forceRefresh: boolean): Promise<JsonWebKey[]> {
+  const cached = jwksCache.get(jwksUri);
+  if (!forceRefresh && cached && cached.expiresAt > Date.now()) return cached.keys;
+
+  const body = await fetchJson(jwksUri);
+  if (!Array.isArray(body.keys)) {
+    throw new OidcError('JWKS document has no keys');
+  }
+  const keys = body.keys as JsonWebKey[];
+  jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + CACHE_TTL_MS });
+  return keys;
+}
+
+async function findSigningKey(metadata: OidcProviderMetadata, kid: string | undefined): Promise<KeyObject> {
+  const pick = (keys: JsonWebKey[]) =>
+    keys.find((key) => (kid === undefined || key.kid === kid) && (key.use === undefined || key.use === 'sig'));
+
+  // Unknown key ID usually means the provider rotated keys — refetch once
+  const jwk = pick(await getJwks(metadata.jwks_uri, false)) ?? pick(await getJwks(metadata.jwks_uri, true));
+  if (!jwk) {
+    throw new OidcError(`No signing key matches kid ${kid ?? '(none)'}`);
+  }
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+/** Verify an ID token and return the identity claims */
+export async function verifyIdToken(
+  metadata: OidcProviderMetadata,
+  idToken: string,
+  expected: { clientId: string; nonce: string }
+): Promise<OidcIdentity> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError('ID token is not a valid JWT');
+  }
+
+  const key = await findSigningKey(metadata, decoded.header.kid);
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ALLOWED_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: expected.clientId,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    throw new OidcError(`ID token rejected: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (claims.nonce !== expected.nonce) {
+    throw new OidcError('ID token nonce does not match');
+  }
+  if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+    throw new OidcError('ID token has no subject');
+  }
+
+  return {
+    sub: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email.toLowerCase() : null,
+    emailVerified: typeof claims.email_verified === 'boolean' ? claims.email_verified : null,
+  };
+}
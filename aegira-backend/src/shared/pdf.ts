@@ -0,0 +1,187 @@
+// Minimal PDF Writer - tabular documents (reports) without a rendering dependency
+//
+// Produces a PDF 1.4 file using the built-in Helvetica fonts (no embedding),
+// A4 landscape, with a title block, optional summary lines and a table that
+// paginates with a repeated header row. Text is WinAnsi-encoded; characters
+// outside Latin-1 are replaced with '?'.
+
+export interface PdfColumn {
+  label: string;
+  /** Relative width weight (default 1) */
+  weight?: number;
+  align?: 'left' | 'right';
+}
+
+export interface PdfTableDocument {
+  title: string;
+  subtitle?: string;
+  summary?: { label: string; value: string }[];
+  columns: PdfColumn[];
+  rows: (string | number | null)[][];
+  footer?: string;
+}
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 14;
+const CELL_PADDING = 3;
+
+/** Average Helvetica glyph width as a fraction of font size — good enough for truncation */
+const AVG_CHAR_WIDTH = 0.52;
+
+function toLatin1(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escapePdfText(text: string): string {
+  return toLatin1(text).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+}
+
+function estimateWidth(text: string, size: number): number {
+  return text.length * size * AVG_CHAR_WIDTH;
+}
+
+function fitText(text: string, width: number, size: number): string {
+  const maxChars = Math.max(1, Math.floor(width / (size * AVG_CHAR_WIDTH)));
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, Math.max(1, maxChars - 3))}...`;
+}
+
+function textOp(text: string, x: number, y: number, font: 'F1' | 'F2', size: number): string {
+  return `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(text)}) Tj ET`;
+}
+
+function cellText(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Render a table document to PDF bytes.
+ */
+export function renderTablePdf(doc: PdfTableDocument): Uint8Array<ArrayBuffer> {
+  const tableWidth = PAGE_WIDTH - MARGIN * 2;
+  const totalWeight = doc.columns.reduce((sum, col) => sum + (col.weight ?? 1), 0) || 1;
+  const widths = doc.columns.map((col) => (tableWidth * (col.weight ?? 1)) / totalWeight);
+
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const drawHeaderRow = () => {
+    ops.push(`0.93 0.94 0.96 rg ${MARGIN} ${(y - ROW_HEIGHT + 4).toFixed(2)} ${tableWidth} ${ROW_HEIGHT} re f 0 g`);
+    let x = MARGIN;
+    doc.columns.forEach((col, i) => {
+      const label = fitText(col.label, widths[i]! - CELL_PADDING * 2, FONT_SIZE);
+      const tx = col.align === 'right'
+        ? x + widths[i]! - CELL_PADDING - estimateWidth(label, FONT_SIZE)
+        : x + CELL_PADDING;
+      ops.push(textOp(label, tx, y - 6, 'F2', FONT_SIZE));
+      x += widths[i]!;
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  const startPage = (first: boolean) => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+
+    if (first) {
+      ops.push(textOp(doc.title, MARGIN, y - 14, 'F2', 16));
+      y -= 22;
+      if (doc.subtitle) {
+        ops.push(textOp(doc.subtitle, MARGIN, y - 10, 'F1', 10));
+        y -= 16;
+      }
+      for (const line of doc.summary ?? []) {
+        ops.push(textOp(`${line.label}:`, MARGIN, y - 10, 'F2', 9));
+        ops.push(textOp(line.value, MARGIN + 150, y - 10, 'F1', 9));
+        y -= 13;
+      }
+      y -= 10;
+    }
+
+    drawHeaderRow();
+  };
+
+  startPage(true);
+
+  if (doc.rows.length === 0) {
+    ops.push(textOp('No data for the selected period.', MARGIN + CELL_PADDING, y - 8, 'F1', FONT_SIZE));
+  }
+
+  doc.rows.forEach((row, rowIndex) => {
+    if (y - ROW_HEIGHT < MARGIN + 16) {
+      startPage(false);
+    }
+
+    if (rowIndex % 2 === 1) {
+      ops.push(`0.98 0.98 0.99 rg ${MARGIN} ${(y - ROW_HEIGHT + 4).toFixed(2)} ${tableWidth} ${ROW_HEIGHT} re f 0 g`);
+    }
+
+    let x = MARGIN;
+    doc.columns.forEach((col, i) => {
+      const text = fitText(cellText(row[i] ?? null), widths[i]! - CELL_PADDING * 2, FONT_SIZE);
+      if (text) {
+        const tx = col.align === 'right'
+          ? x + widths[i]! - CELL_PADDING - estimateWidth(text, FONT_SIZE)
+          : x + CELL_PADDING;
+        ops.push(textOp(text, tx, y - 6, 'F1', FONT_SIZE));
+      }
+      x += widths[i]!;
+    });
+    y -= ROW_HEIGHT;
+  });
+
+  // Page numbers + optional footer
+  pages.forEach((pageOps, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`;
+    pageOps.push(textOp(label, PAGE_WIDTH - MARGIN - estimateWidth(label, 7), MARGIN - 14, 'F1', 7));
+    if (doc.footer) {
+      pageOps.push(textOp(doc.footer, MARGIN, MARGIN - 14, 'F1', 7));
+    }
+  });
+
+  return serialize(pages.map((pageOps) => pageOps.join('\n')));
+}
+
+/**
+ * Object layout: 1 catalog, 2 pages tree, 3 Helvetica, 4 Helvetica-Bold,
+ * then a (page, content stream) pair per page.
+ */
+function serialize(contentStreams: string[]): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [];
+  const pageIds = contentStreams.map((_, i) => 5 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  contentStreams.forEach((stream, i) => {
+    const pageId = pageIds[i]!;
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(output, 'latin1'));
+}
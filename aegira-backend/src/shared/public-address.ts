@@ -0,0 +1,82 @@
+// Outbound request guard - keeps server-side fetches to tenant-supplied URLs
+// (e.g. an SSO issuer) away from loopback, private and cloud-metadata addresses.
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+
+const nonPublic = new BlockList();
+// IPv4: "this network", private, carrier-grade NAT, loopback, link-local
+// (169.254.169.254 is the cloud metadata service), IETF/test ranges, multicast, reserved
+nonPublic.addSubnet('0.0.0.0', 8, 'ipv4');
+nonPublic.addSubnet('10.0.0.0', 8, 'ipv4');
+nonPublic.addSubnet('100.64.0.0', 10, 'ipv4');
+nonPublic.addSubnet('127.0.0.0', 8, 'ipv4');
+nonPublic.addSubnet('169.254.0.0', 16, 'ipv4');
+nonPublic.addSubnet('172.16.0.0', 12, 'ipv4');
+nonPublic.addSubnet('192.0.0.0', 24, 'ipv4');
+nonPublic.addSubnet('192.0.2.0', 24, 'ipv4');
+nonPublic.addSubnet('192.168.0.0', 16, 'ipv4');
+nonPublic.addSubnet('198.18.0.0', 15, 'ipv4');
+nonPublic.addSubnet('198.51.100.0', 24, 'ipv4');
+nonPublic.addSubnet('203.0.113.0', 24, 'ipv4');
+nonPublic.addSubnet('224.0.0.0', 3, 'ipv4');
+// IPv6: unspecified, loopback, NAT64 (reaches the IPv4 ranges above), documentation,
+// unique-local, link-local, multicast. BlockList already checks IPv4-mapped
+// addresses (::ffff:a.b.c.d) against the IPv4 rules.
+nonPublic.addAddress('::', 'ipv6');
+nonPublic.addAddress('::1', 'ipv6');
+nonPublic.addSubnet('64:ff9b::', 96, 'ipv6');
+nonPublic.addSubnet('2001:db8::', 32, 'ipv6');
+nonPublic.addSubnet('fc00::', 7, 'ipv6');
+nonPublic.addSubnet('fe80::', 10, 'ipv6');
+nonPublic.addSubnet('ff00::', 8, 'ipv6');
+
+/** True for a globally routable IP address; false for anything else, including non-IPs */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !nonPublic.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * True when every address the hostname resolves to is public. An IP literal
+ * is checked as-is; a name that does not resolve counts as not public.
+ */
+export async function resolvesToPublicAddress(hostname: string): Promise<boolean> {
+  // URL.hostname keeps the brackets around IPv6 literals
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(host)) return isPublicAddress(host);
+
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every((entry) => isPublicAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * `lookup` option for http(s).request and net.connect that fails unless every
+ * address is public. The socket connects to exactly the addresses checked
+ * here, so a name that re-resolves to an internal address after an earlier
+ * check (DNS rebinding) is still refused.
+ */
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+      const refusal: NodeJS.ErrnoException = new Error(`${hostname} does not resolve to a public address`);
+      refusal.code = 'ENOTPUBLIC';
+      callback(refusal, '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0]!.address, addresses[0]!.family);
+    }
+  });
+};
@@ -0,0 +1,114 @@
+// Rate Limit Stores
+// Fixed-window counters used by rateLimitMiddleware (per IP) and the login
+// lockout (per account). Selected via RATE_LIMIT_STORE:
+//   - memory:   process-local Map (default; counters reset on restart, per replica)
+//   - postgres: rate_limits table shared by all replicas
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+
+export interface RateLimitEntry {
+  count: number;
+  resetAt: number; // epoch ms
+}
+
+export interface RateLimitStore {
+  /** Count one hit for key, starting a new window if the current one has expired */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  /** Current window for key, or null if none is active */
+  get(key: string): Promise<RateLimitEntry | null>;
+  /** Clear the counter for key (e.g. after a successful login) */
+  reset(key: string): Promise<void>;
+}
+
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, RateLimitEntry>();
+
+  constructor() {
+    // Cleanup expired entries every 5 minutes
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.entries) {
+        if (now > entry.resetAt) this.entries.delete(key);
+      }
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    if (entry && now < entry.resetAt) {
+      entry.count++;
+      return { ...entry };
+    }
+
+    const fresh = { count: 1, resetAt: now + windowMs };
+    this.entries.set(key, fresh);
+    return { ...fresh };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry || Date.now() >= entry.resetAt) return null;
+    return { ...entry };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor() {
+    // Prune expired windows every 5 minutes (every replica does it — the delete is idempotent)
+    setInterval(() => {
+      prisma.rateLimit
+        .deleteMany({ where: { reset_at: { lt: new Date() } } })
+        .catch((error: unknown) => {
+          logger.error({ error }, 'Failed to prune expired rate limits');
+        });
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  /**
+   * Single atomic upsert — concurrent requests on different replicas can't
+   * both read a stale count. Window expiry uses the database clock.
+   */
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const rows = await prisma.$queryRaw<{ count: number; reset_at: Date }[]>`
+      INSERT INTO rate_limits (key, count, reset_at)
+      VALUES (${key}, 1, NOW() + (${windowMs} * INTERVAL '1 millisecond'))
+      ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN rate_limits.reset_at <= NOW() THEN 1 ELSE rate_limits.count + 1 END,
+        reset_at = CASE WHEN rate_limits.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rate_limits.reset_at END
+      RETURNING count, reset_at
+    `;
+    const row = rows[0]!;
+    return { count: row.count, resetAt: row.reset_at.getTime() };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const row = await prisma.rateLimit.findUnique({ where: { key } });
+    if (!row || row.reset_at.getTime() <= Date.now()) return null;
+    return { count: row.count, resetAt: row.reset_at.getTime() };
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimit.deleteMany({ where: { key } });
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/** Lazily created so the prune timer only starts for the configured store */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = env.RATE_LIMIT_STORE === 'postgres'
+      ? new PostgresRateLimitStore()
+      : new MemoryRateLimitStore();
+  }
+  return store;
+}
@@ -1,5 +1,6 @@
 // Schedule Resolution Utilities
-// Provides consistent logic for worker schedule override with team fallback
+// Provides consistent logic for worker schedule override with team fallback,
+// and per-date resolution from rotating shift rosters
 
 /** Time format validation (HH:MM) — enforces zero-padded hours for consistent string comparison */
 export const TIME_REGEX = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
@@ -16,6 +17,43 @@ export function isEndTimeAfterStart(start: string, end: string): boolean {
   return endMinutes > startMinutes;
 }
 
+/** HH:mm → minutes since midnight */
+export function timeToMinutes(time: string): number {
+  const parts = time.split(':').map(Number);
+  return (parts[0] ?? 0) * 60 + (parts[1] ?? 0);
+}
+
+/**
+ * Check-in window on a schedule date.
+ * When end is not after start the window crosses midnight and closes on the
+ * next calendar day (e.g., 22:00 → 02:00).
+ */
+export interface CheckInWindow {
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+/** Whether a window crosses midnight */
+export function isOvernightWindow(window: CheckInWindow): boolean {
+  return !isEndTimeAfterStart(window.start, window.end);
+}
+
+/** Window bounds in minutes from the start of its schedule date (overnight ends exceed 1440) */
+function windowBounds(window: CheckInWindow): { start: number; end: number } {
+  const start = timeToMinutes(window.start);
+  const end = timeToMinutes(window.end);
+  return { start, end: isOvernightWindow(window) ? end + 24 * 60 : end };
+}
+
+/**
+ * Rotating shift roster assigned to a team or worker.
+ * Cycle day 0 falls on the anchor date; the cycle repeats in both directions.
+ */
+export interface RosterSchedule {
+  anchor_date: Date; // @db.Date (UTC midnight)
+  cycle: CheckInWindow[][]; // One entry per cycle day, windows sorted by start; [] = off day
+}
+
 /**
  * Person schedule fields (can override team schedule)
  */
@@ -23,6 +61,20 @@ export interface PersonSchedule {
   work_days?: string | null;
   check_in_start?: string | null;
   check_in_end?: string | null;
+  /** Approved leave / schedule exceptions — only consulted when a date is passed */
+  exceptions?: ScheduleException[] | null;
+  /** Worker roster — only consulted when a date is passed */
+  roster?: RosterSchedule | null;
+}
+
+/**
+ * Approved leave or schedule exception for a worker.
+ * Dates are @db.Date values (UTC midnight), inclusive on both ends.
+ */
+export interface ScheduleException {
+  type: string;
+  start_date: Date;
+  end_date: Date;
 }
 
 /**
@@ -32,6 +84,8 @@ export interface TeamSchedule {
   work_days: string;
   check_in_start: string;
   check_in_end: string;
+  /** Team roster — only consulted when a date is passed */
+  roster?: RosterSchedule | null;
 }
 
 /**
@@ -41,6 +95,25 @@ export interface EffectiveSchedule {
   workDays: string[]; // Array of day numbers: "0" = Sunday, "1" = Monday, etc.
   checkInStart: string; // HH:mm format
   checkInEnd: string; // HH:mm format
+  exception?: ScheduleException | null; // Set when a date was passed: approved leave covering it, or null
+}
+
+/**
+ * Find the approved exception covering a date (YYYY-MM-DD, company timezone).
+ * Returns null when the worker is not on leave that day.
+ */
+export function findScheduleException(
+  dateStr: string,
+  exceptions: ScheduleException[] | null | undefined
+): ScheduleException | null {
+  if (!exceptions) return null;
+
+  return exceptions.find((e) => {
+    // @db.Date columns come back as UTC midnight — compare calendar days as strings
+    const start = e.start_date.toISOString().slice(0, 10);
+    const end = e.end_date.toISOString().slice(0, 10);
+    return start <= dateStr && dateStr <= end;
+  }) ?? null;
 }
 
 /**
@@ -49,6 +122,7 @@ export interface EffectiveSchedule {
  *
  * @param person - Worker's schedule fields (optional overrides)
  * @param team - Team's schedule fields (defaults)
+ * @param dateStr - Optional date (YYYY-MM-DD) to resolve the worker's exception for
  * @returns Effective schedule with workDays as array, times as strings
  *
  * @example
@@ -77,7 +151,8 @@ export interface EffectiveSchedule {
  */
 export function getEffectiveSchedule(
   person: PersonSchedule,
-  team: TeamSchedule
+  team: TeamSchedule,
+  dateStr?: string
 ): EffectiveSchedule {
   // Use worker override if set, otherwise fallback to team.
   // Each field falls back independently — partial overrides are supported
@@ -90,6 +165,9 @@ export function getEffectiveSchedule(
   // Default to Mon-Fri if somehow both are null (defensive)
   const workDays = workDaysStr?.split(',').filter(Boolean) || ['1', '2', '3', '4', '5'];
 
+  // Only resolved for a specific date — schedule-only callers keep the original shape
+  const exception = dateStr === undefined ? undefined : findScheduleException(dateStr, person.exceptions);
+
   // Runtime guard: if partial overrides created an inverted window (start >= end),
   // fall back to team's window to prevent broken check-in logic.
   // This can happen when a worker overrides only check_in_start or check_in_end.
@@ -98,6 +176,7 @@ export function getEffectiveSchedule(
       workDays,
       checkInStart: team.check_in_start,
       checkInEnd: team.check_in_end,
+      exception,
     };
   }
 
@@ -105,6 +184,7 @@ export function getEffectiveSchedule(
     workDays,
     checkInStart,
     checkInEnd,
+    exception,
   };
 }
 
@@ -115,6 +195,8 @@ export function getEffectiveSchedule(
  * @param dayOfWeek - Day of week as string: "0" = Sunday, "1" = Monday, ..., "6" = Saturday
  * @param person - Worker's schedule fields (optional overrides)
  * @param team - Team's schedule fields (defaults)
+ * @param dateStr - Optional date (YYYY-MM-DD); when passed, rosters are resolved for it
+ *                  and approved leave covering it makes it a non-work day
  * @returns true if the day is a work day, false otherwise
  *
  * @example
@@ -126,12 +208,22 @@ export function getEffectiveSchedule(
  * // Worker without override (uses team Mon-Fri)
  * isWorkDay("1", { work_days: null }, { work_days: "1,2,3,4,5" }) // true (Monday)
  * isWorkDay("6", { work_days: null }, { work_days: "1,2,3,4,5" }) // false (Saturday)
+ *
+ * @example
+ * // Worker on approved leave Mon 2026-02-23 → Wed 2026-02-25
+ * isWorkDay("1", { work_days: null, exceptions: [leave] }, { work_days: "1,2,3,4,5" }, "2026-02-23") // false
  */
 export function isWorkDay(
   dayOfWeek: string,
   person: PersonSchedule,
-  team: TeamSchedule
+  team: TeamSchedule,
+  dateStr?: string
 ): boolean {
+  // Rosters only resolve for a specific date — the weekday alone says nothing
+  if (dateStr !== undefined && selectRoster(person, team)) {
+    return resolveDaySchedule(person, team, dateStr).isWorkDay;
+  }
+
   // Use worker override if set, otherwise fallback to team
   const workDaysStr = person.work_days ?? team.work_days;
 
@@ -139,5 +231,171 @@ export function isWorkDay(
   // Default to Mon-Fri if somehow both are null (defensive)
   const workDays = workDaysStr?.split(',').filter(Boolean) || ['1', '2', '3', '4', '5'];
 
-  return workDays.includes(dayOfWeek);
+  if (!workDays.includes(dayOfWeek)) return false;
+
+  // Approved leave overrides the regular schedule for the days it covers
+  return dateStr === undefined || findScheduleException(dateStr, person.exceptions) === null;
+}
+
+/**
+ * Schedule for one calendar date after resolving rosters, weekly schedules and leave
+ */
+export interface DaySchedule {
+  date: string; // YYYY-MM-DD
+  isWorkDay: boolean; // Scheduled to work and not on approved leave
+  windows: CheckInWindow[]; // Scheduled windows, sorted by start (kept on leave days for display)
+  source: 'roster' | 'weekly';
+  exception: ScheduleException | null;
+}
+
+/**
+ * Which roster applies: a worker's own settings beat the team's, and at each
+ * level a roster beats the weekly schedule. A worker with a weekly work_days
+ * override therefore keeps it even when the team is on a roster; a time-only
+ * override does not opt out of the team roster.
+ */
+function selectRoster(person: PersonSchedule, team: TeamSchedule): RosterSchedule | null {
+  if (person.roster) return person.roster;
+  if (person.work_days) return null;
+  return team.roster ?? null;
+}
+
+/**
+ * Windows for a date from a roster cycle.
+ * The offset from the anchor wraps in both directions, so dates before the
+ * anchor resolve too.
+ */
+export function getRosterWindows(roster: RosterSchedule, dateStr: string): CheckInWindow[] {
+  const length = roster.cycle.length;
+  if (length === 0) return [];
+
+  const anchor = Date.parse(roster.anchor_date.toISOString().slice(0, 10) + 'T00:00:00Z');
+  const date = Date.parse(dateStr + 'T00:00:00Z');
+  const offset = Math.round((date - anchor) / (24 * 60 * 60 * 1000));
+  return roster.cycle[((offset % length) + length) % length] ?? [];
+}
+
+/**
+ * Resolve a worker's schedule for a calendar date (company timezone).
+ * Rosters are resolved from the cycle; weekly schedules use work_days and the
+ * single check-in window from getEffectiveSchedule(). Approved leave covering
+ * the date makes it a non-work day either way.
+ *
+ * @example
+ * // 4-on/4-off roster anchored on Sun 2026-02-01, day shift 06:00-10:00
+ * resolveDaySchedule({ roster }, team, "2026-02-04") // isWorkDay: true (cycle day 3)
+ * resolveDaySchedule({ roster }, team, "2026-02-05") // isWorkDay: false (cycle day 4)
+ */
+export function resolveDaySchedule(
+  person: PersonSchedule,
+  team: TeamSchedule,
+  dateStr: string
+): DaySchedule {
+  const exception = findScheduleException(dateStr, person.exceptions);
+  const roster = selectRoster(person, team);
+
+  let windows: CheckInWindow[];
+  if (roster) {
+    windows = getRosterWindows(roster, dateStr);
+  } else {
+    const schedule = getEffectiveSchedule(person, team);
+    const dayOfWeek = new Date(dateStr + 'T00:00:00Z').getUTCDay().toString();
+    windows = schedule.workDays.includes(dayOfWeek)
+      ? [{ start: schedule.checkInStart, end: schedule.checkInEnd }]
+      : [];
+  }
+
+  return {
+    date: dateStr,
+    isWorkDay: windows.length > 0 && exception === null,
+    windows,
+    source: roster ? 'roster' : 'weekly',
+    exception,
+  };
+}
+
+/**
+ * First window start to last window end — the span used for late detection.
+ * Null when the day has no windows.
+ */
+export function getScheduleSpan(day: DaySchedule): CheckInWindow | null {
+  const first = day.windows[0];
+  const last = day.windows[day.windows.length - 1];
+  if (!first || !last) return null;
+  return { start: first.start, end: last.end };
+}
+
+/**
+ * Where an instant falls relative to a day's windows.
+ * `minutesIntoDay` counts from midnight at the start of the schedule date,
+ * so the morning after is 1440 + minutes (overnight windows end there).
+ *
+ * - before: the first window has not opened yet
+ * - open: inside a window
+ * - between: a window has closed and a later one has not opened
+ * - closed: the last window has closed
+ */
+export type WindowPhase = 'before' | 'open' | 'between' | 'closed';
+
+export function getWindowPhase(
+  day: DaySchedule,
+  minutesIntoDay: number
+): { phase: WindowPhase; next: CheckInWindow | null } {
+  const bounds = day.windows.map(windowBounds);
+  const first = bounds[0];
+  if (!first) return { phase: 'closed', next: null };
+
+  if (minutesIntoDay < first.start) return { phase: 'before', next: day.windows[0] ?? null };
+  if (bounds.some((b) => minutesIntoDay >= b.start && minutesIntoDay <= b.end)) {
+    return { phase: 'open', next: null };
+  }
+
+  const nextIndex = bounds.findIndex((b) => b.start > minutesIntoDay);
+  if (nextIndex === -1) return { phase: 'closed', next: null };
+  return { phase: 'between', next: day.windows[nextIndex] ?? null };
+}
+
+/** Minutes from the start of the schedule date until its last window closes */
+export function getScheduleCloseMinutes(day: DaySchedule): number | null {
+  const last = day.windows[day.windows.length - 1];
+  return last ? windowBounds(last).end : null;
+}
+
+/**
+ * Late check-ins for an overnight window are accepted until midday the next
+ * day — the same half-day of slack a morning window gets before midnight.
+ */
+export const OVERNIGHT_LATE_CUTOFF = '12:00';
+
+/**
+ * Which schedule date an instant belongs to.
+ * After midnight the previous date still owns the time if its last window is
+ * overnight and either still open, or closed with today's first window not
+ * yet open (late period, up to OVERNIGHT_LATE_CUTOFF).
+ *
+ * @param currentTime - HH:mm on `today.date`
+ * @param yesterday - Resolved schedule for the previous calendar date
+ * @param today - Resolved schedule for the current calendar date
+ */
+export function resolveShiftDate(
+  currentTime: string,
+  yesterday: DaySchedule,
+  today: DaySchedule
+): string {
+  const last = yesterday.windows[yesterday.windows.length - 1];
+  if (!yesterday.isWorkDay || !last || !isOvernightWindow(last)) return today.date;
+
+  // Still inside last night's window
+  if (currentTime <= last.end) return yesterday.date;
+
+  const todayStarted = today.isWorkDay && today.windows.some((w) => w.start <= currentTime);
+  return !todayStarted && currentTime < OVERNIGHT_LATE_CUTOFF ? yesterday.date : today.date;
+}
+
+/** "6:00 AM - 10:00 AM, 6:00 PM - 10:00 PM" for record snapshots and messages */
+export function formatScheduleWindows(
+  windows: CheckInWindow[],
+  formatTime: (time: string) => string = (time) => time
+): string {
+  return windows.map((w) => `${formatTime(w.start)} - ${formatTime(w.end)}`).join(', ');
 }
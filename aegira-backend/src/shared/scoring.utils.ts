@@ -0,0 +1,127 @@
+// Readiness Scoring Model Utilities
+// Per-company, versioned scoring configuration used by:
+//   - check-in.service (score new check-ins with the active model)
+//   - amendment.service (rescore with the version the check-in was originally scored with)
+//   - admin.controller (view/publish scoring model versions)
+//
+// Versions are immutable — publishing a change creates a new row. Version 0 is the
+// built-in default model; companies without any published versions use it, and
+// check-ins created before scoring models existed are recorded as version 0.
+
+import type { PrismaClient, Prisma } from '@prisma/client';
+
+export interface SleepBand {
+  minHours: number; // Band applies when hours >= minHours (and below the next band up)
+  score: number; // 0-100
+}
+
+export interface ScoringModelConfig {
+  weights: {
+    // Used when the worker reports pain (painLevel > 0). Must sum to 1.
+    withPain: { sleep: number; stress: number; physical: number; pain: number };
+    // Used when no pain is reported. Must sum to 1.
+    withoutPain: { sleep: number; stress: number; physical: number };
+  };
+  thresholds: {
+    green: number; // overall >= green → GREEN
+    yellow: number; // overall >= yellow → YELLOW, otherwise RED
+  };
+  sleep: {
+    optimalMinHours: number;
+    optimalMaxHours: number;
+    optimalScore: number; // optimalMinHours <= hours <= optimalMaxHours
+    oversleepScore: number; // hours > optimalMaxHours
+    bands: SleepBand[]; // Below optimal, highest minHours first
+    minimumScore: number; // Below the lowest band
+  };
+}
+
+export interface ResolvedScoringModel {
+  version: number;
+  config: ScoringModelConfig;
+}
+
+export const DEFAULT_SCORING_MODEL_VERSION = 0;
+
+export const DEFAULT_SCORING_MODEL: ScoringModelConfig = {
+  weights: {
+    withPain: { sleep: 0.35, stress: 0.25, physical: 0.2, pain: 0.2 },
+    withoutPain: { sleep: 0.4, stress: 0.3, physical: 0.3 },
+  },
+  thresholds: { green: 70, yellow: 50 },
+  sleep: {
+    optimalMinHours: 7,
+    optimalMaxHours: 9,
+    optimalScore: 100,
+    oversleepScore: 90,
+    bands: [
+      { minHours: 6, score: 80 },
+      { minHours: 5, score: 60 },
+    ],
+    minimumScore: 40,
+  },
+};
+
+// In-memory cache for the active model per company (5-minute TTL).
+// Admin updates call invalidateScoringModelCache() so changes apply immediately
+// on this instance; other instances pick them up within the TTL.
+const SCORING_MODEL_CACHE_TTL_MS = 5 * 60 * 1000;
+const scoringModelCache = new Map<string, { data: ResolvedScoringModel; expiresAt: number }>();
+
+/**
+ * Get the company's active (latest) scoring model.
+ * Falls back to the built-in default (version 0) if none has been published.
+ */
+export async function getActiveScoringModel(
+  prisma: PrismaClient,
+  companyId: string,
+): Promise<ResolvedScoringModel> {
+  const cached = scoringModelCache.get(companyId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.data;
+  }
+
+  const latest = await prisma.scoringModel.findFirst({
+    where: { company_id: companyId },
+    orderBy: { version: 'desc' },
+    select: { version: true, config: true },
+  });
+
+  const result: ResolvedScoringModel = latest
+    ? { version: latest.version, config: latest.config as unknown as ScoringModelConfig }
+    : { version: DEFAULT_SCORING_MODEL_VERSION, config: DEFAULT_SCORING_MODEL };
+
+  scoringModelCache.set(companyId, { data: result, expiresAt: Date.now() + SCORING_MODEL_CACHE_TTL_MS });
+  return result;
+}
+
+/**
+ * Get a specific scoring model version for a company.
+ * Accepts a transaction client so it can be read inside an existing transaction.
+ * Unknown versions fall back to the default so historical rescoring never fails.
+ */
+export async function getScoringModelVersion(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  companyId: string,
+  version: number,
+): Promise<ResolvedScoringModel> {
+  if (version === DEFAULT_SCORING_MODEL_VERSION) {
+    return { version, config: DEFAULT_SCORING_MODEL };
+  }
+
+  const model = await prisma.scoringModel.findUnique({
+    where: { company_id_version: { company_id: companyId, version } },
+    select: { version: true, config: true },
+  });
+
+  if (!model) {
+    return { version: DEFAULT_SCORING_MODEL_VERSION, config: DEFAULT_SCORING_MODEL };
+  }
+
+  return { version: model.version, config: model.config as unknown as ScoringModelConfig };
+}
+
+/** Invalidate the cached active model for a company (call after publishing a version) */
+export function invalidateScoringModelCache(companyId: string): void {
+  scoringModelCache.delete(companyId);
+}
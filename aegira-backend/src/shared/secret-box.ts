@@ -0,0 +1,45 @@
+// Secret Box - encrypts small secrets stored in the database (e.g. TOTP seeds)
+//
+// AES-256-GCM with a random 96-bit IV per value. The key comes from
+// SECRET_ENCRYPTION_KEY, or is derived from JWT_SECRET when that is unset so
+// existing deployments keep working. Rotating the key makes stored values
+// unreadable — affected users must re-enrol.
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { env } from '../config/env';
+
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+let cachedKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (!cachedKey) {
+    const material = env.SECRET_ENCRYPTION_KEY || `aegira-secret-box:${env.JWT_SECRET}`;
+    cachedKey = createHash('sha256').update(material).digest();
+  }
+  return cachedKey;
+}
+
+/** Encrypt to `v1.<iv>.<tag>.<ciphertext>` (base64url parts) */
+export function sealSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+/** Decrypt a value from sealSecret — throws if it was tampered with or the key changed */
+export function openSecret(sealed: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split('.');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized sealed secret format');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -1,25 +1,148 @@
-// Cloudflare R2 Storage Service
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+// File Storage Service
+// Two buckets:
+//   - public (R2_BUCKET_NAME): avatars, served directly from R2_PUBLIC_URL
+//   - attachments (R2_ATTACHMENTS_BUCKET_NAME): incident/case evidence, private —
+//     only ever read back through the API after an authorization check
+// Selected via STORAGE_DRIVER:
+//   - r2:    Cloudflare R2 (default)
+//   - local: files under LOCAL_STORAGE_DIR/<bucket>/ (dev and tests)
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
 import { env } from '../config/env';
 import { AppError } from './errors';
 
 const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 
-const s3Client = new S3Client({
-  region: 'auto',
-  endpoint: `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
-  credentials: {
-    accessKeyId: env.R2_ACCESS_KEY_ID,
-    secretAccessKey: env.R2_SECRET_ACCESS_KEY,
-  },
-});
+const ALLOWED_ATTACHMENT_MIME_TYPES = [...ALLOWED_MIME_TYPES, 'image/heic', 'application/pdf'];
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+export interface StorageDriver {
+  put(key: string, buffer: ArrayBuffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Uint8Array<ArrayBuffer>>;
+  delete(key: string): Promise<void>;
+}
+
+export class R2StorageDriver implements StorageDriver {
+  private static client: S3Client | null = null;
+
+  constructor(private readonly bucket: string) {}
+
+  /** One S3 client shared by both buckets */
+  private get client(): S3Client {
+    if (!R2StorageDriver.client) {
+      R2StorageDriver.client = new S3Client({
+        region: 'auto',
+        endpoint: `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+        credentials: {
+          accessKeyId: env.R2_ACCESS_KEY_ID,
+          secretAccessKey: env.R2_SECRET_ACCESS_KEY,
+        },
+      });
+    }
+    return R2StorageDriver.client;
+  }
+
+  async put(key: string, buffer: ArrayBuffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: new Uint8Array(buffer),
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async get(key: string): Promise<Uint8Array<ArrayBuffer>> {
+    const result = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+    if (!result.Body) {
+      throw new AppError('NOT_FOUND', 'File not found', 404);
+    }
+    return new Uint8Array(await result.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(baseDir: string, bucket: string) {
+    this.root = path.resolve(baseDir, bucket);
+  }
+
+  /** Resolve a key inside the bucket directory — rejects keys that escape it */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new AppError('INVALID_FILE_KEY', 'Invalid file key', 400);
+    }
+    return filePath;
+  }
+
+  async put(key: string, buffer: ArrayBuffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, new Uint8Array(buffer));
+  }
+
+  async get(key: string): Promise<Uint8Array<ArrayBuffer>> {
+    try {
+      return new Uint8Array(await readFile(this.resolve(key)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new AppError('NOT_FOUND', 'File not found', 404);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+function createDriver(bucket: string): StorageDriver {
+  return env.STORAGE_DRIVER === 'local'
+    ? new LocalStorageDriver(env.LOCAL_STORAGE_DIR, bucket)
+    : new R2StorageDriver(bucket);
+}
+
+let publicStorage: StorageDriver | null = null;
+let attachmentStorage: StorageDriver | null = null;
+
+function getPublicStorage(): StorageDriver {
+  if (!publicStorage) publicStorage = createDriver(env.R2_BUCKET_NAME);
+  return publicStorage;
+}
+
+/** Private bucket for incident/case attachments */
+export function getAttachmentStorage(): StorageDriver {
+  if (!attachmentStorage) attachmentStorage = createDriver(env.R2_ATTACHMENTS_BUCKET_NAME);
+  return attachmentStorage;
+}
 
 function getExtension(mimeType: string): string {
   const map: Record<string, string> = {
     'image/jpeg': 'jpg',
     'image/png': 'png',
     'image/webp': 'webp',
+    'image/heic': 'heic',
+    'application/pdf': 'pdf',
   };
   return map[mimeType] || 'jpg';
 }
@@ -42,30 +165,39 @@ export function validateImageFile(file: File): void {
   }
 }
 
+export function validateAttachmentFile(file: File): void {
+  if (!ALLOWED_ATTACHMENT_MIME_TYPES.includes(file.type)) {
+    throw new AppError(
+      'INVALID_FILE_TYPE',
+      'Only JPEG, PNG, WebP, HEIC images and PDF documents are allowed',
+      400
+    );
+  }
+
+  if (file.size === 0) {
+    throw new AppError('EMPTY_FILE', 'File is empty', 400);
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new AppError(
+      'FILE_TOO_LARGE',
+      'File size must not exceed 10MB',
+      400
+    );
+  }
+}
+
 export async function uploadFile(
   key: string,
   buffer: ArrayBuffer,
   contentType: string
 ): Promise<string> {
-  await s3Client.send(
-    new PutObjectCommand({
-      Bucket: env.R2_BUCKET_NAME,
-      Key: key,
-      Body: new Uint8Array(buffer),
-      ContentType: contentType,
-    })
-  );
-
+  await getPublicStorage().put(key, buffer, contentType);
   return `${env.R2_PUBLIC_URL}/${key}`;
 }
 
 export async function deleteFile(key: string): Promise<void> {
-  await s3Client.send(
-    new DeleteObjectCommand({
-      Bucket: env.R2_BUCKET_NAME,
-      Key: key,
-    })
-  );
+  await getPublicStorage().delete(key);
 }
 
 export function buildAvatarKey(
@@ -78,6 +210,16 @@ export function buildAvatarKey(
   return `${companyId}/profiles/${personId}/${timestamp}.${ext}`;
 }
 
+/** Random object name — the original file name is kept on the Attachment row only */
+export function buildAttachmentKey(
+  companyId: string,
+  incidentId: string,
+  mimeType: string
+): string {
+  const ext = getExtension(mimeType);
+  return `${companyId}/incidents/${incidentId}/${randomUUID()}.${ext}`;
+}
+
 export function extractKeyFromUrl(url: string): string | null {
   if (!url.startsWith(env.R2_PUBLIC_URL)) return null;
   return url.slice(env.R2_PUBLIC_URL.length + 1); // +1 for the "/"
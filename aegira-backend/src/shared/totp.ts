@@ -0,0 +1,113 @@
+// TOTP (RFC 6238) - time-based one-time passwords for authenticator apps
+//
+// Uses the defaults every authenticator app supports: HMAC-SHA1, 6 digits,
+// 30-second steps. Secrets are exchanged as unpadded base32 (RFC 4648), which
+// is what otpauth:// URIs and manual-entry screens expect.
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_STEP_SECONDS = 30;
+/** Steps accepted either side of now — tolerates ~30s of clock drift */
+const TOTP_WINDOW = 1;
+
+export function base32Encode(data: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/** Decode base32, ignoring case, spaces and padding (as users type them) */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** New random secret — 160 bits, the HMAC-SHA1 block-friendly size RFC 4226 recommends */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** Time step containing the given instant */
+export function totpStep(at: Date = new Date()): number {
+  return Math.floor(at.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/** HOTP value (RFC 4226) for a counter, zero-padded */
+export function generateHotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+
+  const offset = digest[digest.length - 1]! & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+export function generateTotp(secret: string, at: Date = new Date()): string {
+  return generateHotp(secret, totpStep(at));
+}
+
+/**
+ * Check a code against the steps around `at`.
+ * Returns the matching step, or null. Steps at or before `lastUsedStep` are
+ * skipped so a code that was already accepted can't be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  at: Date = new Date(),
+  lastUsedStep: number | null = null
+): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const current = totpStep(at);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(generateHotp(secret, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/** Key URI understood by authenticator apps (Google Authenticator key URI format) */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
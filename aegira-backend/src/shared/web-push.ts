@@ -0,0 +1,197 @@
+// Web Push
+// Sends a push message to a browser push service (FCM, Mozilla, Apple...):
+//   - VAPID (RFC 8292): the request is signed with the server's P-256 key so the
+//     push service can tie subscriptions to this application
+//   - Message encryption (RFC 8291, aes128gcm): only the subscribed browser can
+//     read the payload
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  sign,
+} from 'crypto';
+
+export interface PushSubscriptionTarget {
+  endpoint: string;
+  /** Browser's P-256 public key (base64url, uncompressed point) */
+  p256dh: string;
+  /** Browser's 16-byte auth secret (base64url) */
+  auth: string;
+}
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public point, base64url — the browser's applicationServerKey */
+  publicKey: string;
+  /** P-256 private scalar, base64url */
+  privateKey: string;
+}
+
+export interface VapidConfig extends VapidKeys {
+  /** Contact for the push service operator: mailto: or https: URL */
+  subject: string;
+}
+
+export interface WebPushOptions {
+  /** Seconds the push service keeps the message for an offline device */
+  ttlSeconds?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+}
+
+export class WebPushError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'WebPushError';
+  }
+
+  /** The subscription no longer exists — delete it instead of retrying */
+  get isGone(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+}
+
+/**
+ * Push services of the browsers we support. Endpoints come from the client,
+ * so anything else is refused — the server would otherwise POST wherever a
+ * user pointed it, internal hosts included.
+ */
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'android.googleapis.com', 'web.push.apple.com'];
+const PUSH_SERVICE_HOST_SUFFIXES = ['.push.services.mozilla.com', '.notify.windows.com', '.push.apple.com'];
+
+/** True for an https endpoint on a known browser push service (default port) */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix));
+}
+
+/** Single record per message — payloads are far below the 4096-byte limit */
+const RECORD_SIZE = 4096;
+/** VAPID tokens may be valid for at most 24h; stay well inside it */
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+function base64url(value: Buffer): string {
+  return value.toString('base64url');
+}
+
+function fromBase64url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/** New VAPID key pair — generate once per deployment and keep it stable */
+export function generateVapidKeys(): VapidKeys {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const publicJwk = publicKey.export({ format: 'jwk' });
+
+  return {
+    publicKey: base64url(Buffer.concat([
+      Buffer.from([0x04]),
+      fromBase64url(publicJwk.x!),
+      fromBase64url(publicJwk.y!),
+    ])),
+    privateKey: jwk.d!,
+  };
+}
+
+/** ES256 JWT for the push service origin (RFC 8292 §2) */
+function createVapidToken(endpoint: string, vapid: VapidConfig): string {
+  const publicKey = fromBase64url(vapid.publicKey);
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = base64url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: vapid.subject,
+  })));
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `${header}.${claims}.${base64url(signature)}`;
+}
+
+/**
+ * Encrypt a payload for one subscription (RFC 8291 / RFC 8188 aes128gcm).
+ * Returns the request body: salt, record size and the ephemeral server key as
+ * header, followed by the single encrypted record.
+ */
+export function encryptPushPayload(payload: string, subscription: Pick<PushSubscriptionTarget, 'p256dh' | 'auth'>): Buffer {
+  const clientPublicKey = fromBase64url(subscription.p256dh);
+  const authSecret = fromBase64url(subscription.auth);
+
+  const serverKeys = createECDH('prime256v1');
+  const serverPublicKey = serverKeys.generateKeys();
+  const sharedSecret = serverKeys.computeSecret(clientPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 delimits the last (only) record
+  const record = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload, 'utf8'), Buffer.from([0x02])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, record]);
+}
+
+/**
+ * Send one push message. Throws WebPushError on a non-2xx response —
+ * `isGone` tells the caller to drop the subscription.
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionTarget,
+  payload: string,
+  vapid: VapidConfig,
+  options: WebPushOptions = {}
+): Promise<void> {
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      TTL: String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+      Urgency: options.urgency ?? 'normal',
+      Authorization: `vapid t=${createVapidToken(subscription.endpoint, vapid)}, k=${vapid.publicKey}`,
+    },
+    body: encryptPushPayload(payload, subscription),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    throw new WebPushError(
+      `Push service responded ${response.status}${detail ? `: ${detail}` : ''}`,
+      response.status
+    );
+  }
+}
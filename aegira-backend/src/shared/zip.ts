@@ -0,0 +1,142 @@
+// Streaming ZIP Writer - builds an archive without buffering entries in memory
+//
+// Entries are deflated as their data arrives and sizes/CRC are written in a
+// trailing data descriptor (general purpose flag bit 3), so nothing needs to be
+// known up front. No ZIP64: archives and entries must stay under 4 GiB, which is
+// far above anything the export endpoints produce.
+import { Readable, pipeline } from 'stream';
+import { createDeflateRaw } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Iterable<Uint8Array> | AsyncIterable<Uint8Array>;
+}
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAME = 0x0800;
+const METHOD_DEFLATE = 8;
+const VERSION = 20;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 (IEEE) — pass the previous result to continue over multiple chunks */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date/time fields (local components, 2-second resolution) */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralRecord {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Yields the bytes of a ZIP archive containing the given entries, in order.
+ * Entry data is consumed lazily, so a caller can stream rows from the database
+ * straight into the archive.
+ */
+export async function* zipEntries(
+  entries: Iterable<ZipEntry>,
+  modifiedAt = new Date()
+): AsyncGenerator<Uint8Array> {
+  const stamp = dosDateTime(modifiedAt);
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAME, 6);
+    header.writeUInt16LE(METHOD_DEFLATE, 8);
+    header.writeUInt16LE(stamp.time, 10);
+    header.writeUInt16LE(stamp.date, 12);
+    // crc + sizes (14..25) stay zero — they follow in the data descriptor
+    header.writeUInt16LE(name.length, 26);
+    yield header;
+    yield name;
+
+    const record: CentralRecord = { name, crc: 0, compressedSize: 0, size: 0, offset };
+    offset += header.length + name.length;
+
+    async function* measured(): AsyncGenerator<Uint8Array> {
+      for await (const chunk of entry.data) {
+        record.crc = crc32(chunk, record.crc);
+        record.size += chunk.length;
+        yield chunk;
+      }
+    }
+
+    // pipeline() destroys the deflate stream if the source throws, so the error surfaces here
+    const compressed = pipeline(Readable.from(measured()), createDeflateRaw(), () => {});
+    for await (const chunk of compressed) {
+      record.compressedSize += (chunk as Buffer).length;
+      yield chunk as Buffer;
+    }
+    offset += record.compressedSize;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeUInt32LE(record.compressedSize, 8);
+    descriptor.writeUInt32LE(record.size, 12);
+    yield descriptor;
+    offset += descriptor.length;
+
+    records.push(record);
+  }
+
+  const centralStart = offset;
+  for (const record of records) {
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(VERSION, 4);
+    central.writeUInt16LE(VERSION, 6);
+    central.writeUInt16LE(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAME, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt16LE(stamp.time, 12);
+    central.writeUInt16LE(stamp.date, 14);
+    central.writeUInt32LE(record.crc, 16);
+    central.writeUInt32LE(record.compressedSize, 20);
+    central.writeUInt32LE(record.size, 24);
+    central.writeUInt16LE(record.name.length, 28);
+    central.writeUInt32LE(record.offset, 42);
+    yield central;
+    yield record.name;
+    offset += central.length + record.name.length;
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(offset - centralStart, 12);
+  end.writeUInt32LE(centralStart, 16);
+  yield end;
+}
@@ -18,6 +18,8 @@ export interface CheckInInput {
   painLocation?: string;     // Dropdown selection
   physicalConditionNotes?: string; // Free-text physical condition notes
   notes?: string;
+  eventTime?: string;        // ISO 8601 device time — offline-queued submissions only
+  offlineReplay?: boolean;   // Replayed from the offline queue; eventTime is ignored without it
 }
 
 // Calculated readiness score
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeAlertRule,
+  getMetricsForEvent,
+  getWindowStart,
+  isAlertRuleCoolingDown,
+  matchesAlertRule,
+  type AlertHistoryEntry,
+  type AlertRuleCriteria,
+} from '../../../src/modules/alert-rule/alert-rule.evaluator';
+
+function checkIn(date: string, overrides: Partial<AlertHistoryEntry> = {}): AlertHistoryEntry {
+  return { date, level: 'GREEN', stressLevel: 3, painLevel: null, hoursSlept: 8, ...overrides };
+}
+
+describe('matchesAlertRule', () => {
+  const streak: AlertRuleCriteria = { metric: 'CONSECUTIVE_YELLOW_OR_RED', value: null, threshold: 3, window_days: 7 };
+
+  it('matches three YELLOW-or-RED check-ins in a row ending on the date', () => {
+    const history = [
+      checkIn('2026-02-19', { level: 'YELLOW' }),
+      checkIn('2026-02-20', { level: 'RED' }),
+      checkIn('2026-02-23', { level: 'YELLOW' }), // weekend off days don't break the streak
+    ];
+    expect(matchesAlertRule(streak, history, '2026-02-23')).toBe(true);
+  });
+
+  it('does not match when a GREEN check-in breaks the streak', () => {
+    const history = [
+      checkIn('2026-02-18', { level: 'YELLOW' }),
+      checkIn('2026-02-19', { level: 'GREEN' }),
+      checkIn('2026-02-20', { level: 'YELLOW' }),
+      checkIn('2026-02-23', { level: 'YELLOW' }),
+    ];
+    expect(matchesAlertRule(streak, history, '2026-02-23')).toBe(false);
+  });
+
+  it('only counts the streak inside the window', () => {
+    const history = [
+      checkIn('2026-02-10', { level: 'YELLOW' }),
+      checkIn('2026-02-20', { level: 'YELLOW' }),
+      checkIn('2026-02-23', { level: 'YELLOW' }),
+    ];
+    expect(matchesAlertRule(streak, history, '2026-02-23')).toBe(false);
+  });
+
+  it('counts stress at or above the value within the window', () => {
+    const rule: AlertRuleCriteria = { metric: 'HIGH_STRESS', value: 8, threshold: 2, window_days: 7 };
+    const history = [
+      checkIn('2026-02-18', { stressLevel: 8 }),
+      checkIn('2026-02-20', { stressLevel: 5 }),
+      checkIn('2026-02-23', { stressLevel: 9 }),
+    ];
+    expect(matchesAlertRule(rule, history, '2026-02-23')).toBe(true);
+    expect(matchesAlertRule(rule, history, '2026-02-20')).toBe(false);
+  });
+
+  it('only fires on the entry that is itself a hit', () => {
+    const rule: AlertRuleCriteria = { metric: 'HIGH_STRESS', value: 8, threshold: 2, window_days: 7 };
+    const history = [
+      checkIn('2026-02-18', { stressLevel: 9 }),
+      checkIn('2026-02-19', { stressLevel: 9 }),
+      checkIn('2026-02-20', { stressLevel: 2 }),
+    ];
+    expect(matchesAlertRule(rule, history, '2026-02-20')).toBe(false);
+  });
+
+  it('ignores history after the date and needs an entry on the date', () => {
+    const rule: AlertRuleCriteria = { metric: 'RED_CHECK_INS', value: null, threshold: 1, window_days: 1 };
+    const history = [checkIn('2026-02-24', { level: 'RED' })];
+    expect(matchesAlertRule(rule, history, '2026-02-23')).toBe(false);
+  });
+
+  it('treats pain as a hit only when reported at or above the value', () => {
+    const rule: AlertRuleCriteria = { metric: 'HIGH_PAIN', value: 6, threshold: 1, window_days: 1 };
+    expect(matchesAlertRule(rule, [checkIn('2026-02-23', { painLevel: null })], '2026-02-23')).toBe(false);
+    expect(matchesAlertRule(rule, [checkIn('2026-02-23', { painLevel: 6 })], '2026-02-23')).toBe(true);
+  });
+
+  it('treats sleep below the value as a hit', () => {
+    const rule: AlertRuleCriteria = { metric: 'LOW_SLEEP', value: 5, threshold: 1, window_days: 1 };
+    expect(matchesAlertRule(rule, [checkIn('2026-02-23', { hoursSlept: 5 })], '2026-02-23')).toBe(false);
+    expect(matchesAlertRule(rule, [checkIn('2026-02-23', { hoursSlept: 4.5 })], '2026-02-23')).toBe(true);
+  });
+
+  it('matches the second miss in 7 days', () => {
+    const rule: AlertRuleCriteria = { metric: 'MISSED_CHECK_INS', value: null, threshold: 2, window_days: 7 };
+    const misses = [{ date: '2026-02-17' }, { date: '2026-02-23' }];
+    expect(matchesAlertRule(rule, misses, '2026-02-23')).toBe(true);
+    expect(matchesAlertRule(rule, [{ date: '2026-02-16' }, { date: '2026-02-23' }], '2026-02-23')).toBe(false);
+  });
+});
+
+describe('isAlertRuleCoolingDown', () => {
+  const rule: AlertRuleCriteria = { metric: 'RED_CHECK_INS', value: null, threshold: 1, window_days: 7 };
+
+  it('stays quiet until a full window has passed since the last alert', () => {
+    expect(isAlertRuleCoolingDown(rule, null, '2026-02-23')).toBe(false);
+    expect(isAlertRuleCoolingDown(rule, '2026-02-17', '2026-02-23')).toBe(true);
+    expect(isAlertRuleCoolingDown(rule, '2026-02-16', '2026-02-23')).toBe(false);
+  });
+});
+
+describe('getWindowStart', () => {
+  it('includes the end date in the window', () => {
+    expect(getWindowStart('2026-03-01', 1)).toBe('2026-03-01');
+    expect(getWindowStart('2026-03-01', 7)).toBe('2026-02-23');
+  });
+});
+
+describe('getMetricsForEvent', () => {
+  it('evaluates miss metrics on miss detection only', () => {
+    expect(getMetricsForEvent('MISSED_CHECK_IN_DETECTED')).toEqual(['MISSED_CHECK_INS']);
+    expect(getMetricsForEvent('CHECK_IN_SUBMITTED')).not.toContain('MISSED_CHECK_INS');
+  });
+});
+
+describe('describeAlertRule', () => {
+  it('describes the condition in plain language', () => {
+    expect(describeAlertRule({ metric: 'CONSECUTIVE_YELLOW_OR_RED', value: null, threshold: 3, window_days: 7 }))
+      .toBe('3 YELLOW or RED check-ins in a row');
+    expect(describeAlertRule({ metric: 'HIGH_STRESS', value: 8, threshold: 2, window_days: 7 }))
+      .toBe('stress 8+ on 2 check-ins in 7 days');
+    expect(describeAlertRule({ metric: 'MISSED_CHECK_INS', value: null, threshold: 1, window_days: 1 }))
+      .toBe('1 missed check-in in 1 day');
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { Settings } from 'luxon';
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotifications: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/alert-rule/alert-rule.repository', () => ({
+  AlertRuleRepository: vi.fn(),
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import { AlertRuleService, runAlertRules } from '../../../src/modules/alert-rule/alert-rule.service';
+import { AlertRuleRepository } from '../../../src/modules/alert-rule/alert-rule.repository';
+import { createAlertRuleSchema, previewAlertRuleSchema } from '../../../src/modules/alert-rule/alert-rule.validator';
+import { sendNotifications } from '../../../src/modules/notification/notification.service';
+import { logAudit } from '../../../src/shared/audit';
+import { AppError } from '../../../src/shared/errors';
+
+const COMPANY_ID = 'company-1';
+const ADMIN_ID = 'admin-1';
+const WORKER_ID = 'worker-1';
+const LEAD_ID = 'lead-1';
+const SUPERVISOR_ID = 'supervisor-1';
+const prisma = {} as PrismaClient;
+
+const rule = {
+  id: 'rule-1',
+  company_id: COMPANY_ID,
+  name: 'Sustained fatigue',
+  metric: 'CONSECUTIVE_YELLOW_OR_RED' as const,
+  value: null,
+  threshold: 3,
+  window_days: 7,
+  target_role: 'TEAM_LEAD' as const,
+  is_active: true,
+  created_by: ADMIN_ID,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const worker = {
+  id: WORKER_ID,
+  first_name: 'Jane',
+  last_name: 'Doe',
+  team: { id: 'team-1', name: 'Alpha', leader_id: LEAD_ID, supervisor_id: SUPERVISOR_ID },
+};
+
+const yellowStreak = [
+  { date: '2026-02-19', level: 'YELLOW' as const },
+  { date: '2026-02-20', level: 'YELLOW' as const },
+  { date: '2026-02-23', level: 'RED' as const },
+];
+
+function createRepository() {
+  return {
+    getCompanyId: vi.fn().mockReturnValue(COMPANY_ID),
+    findById: vi.fn().mockResolvedValue(rule),
+    findActive: vi.fn().mockResolvedValue([rule]),
+    create: vi.fn().mockResolvedValue(rule),
+    update: vi.fn().mockResolvedValue(rule),
+    delete: vi.fn().mockResolvedValue(undefined),
+    findCheckInHistory: vi.fn().mockResolvedValue(new Map([[WORKER_ID, yellowStreak]])),
+    findMissHistory: vi.fn().mockResolvedValue(new Map()),
+    findSubjects: vi.fn().mockResolvedValue([worker]),
+    findActiveAdminIds: vi.fn().mockResolvedValue([ADMIN_ID]),
+    findLastTriggerDates: vi.fn().mockResolvedValue(new Map()),
+    createTriggers: vi.fn(async (triggers: { ruleId: string; personId: string }[]) =>
+      new Set(triggers.map((trigger) => `${trigger.ruleId}:${trigger.personId}`))),
+  };
+}
+
+describe('runAlertRules', () => {
+  let repository: ReturnType<typeof createRepository>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = createRepository();
+    vi.mocked(AlertRuleRepository).mockImplementation(() => repository as never);
+  });
+
+  it('records the match and alerts the team lead with a link to the worker', async () => {
+    const matches = await runAlertRules(prisma, COMPANY_ID, 'CHECK_IN_SUBMITTED', [WORKER_ID], '2026-02-23');
+
+    expect(matches).toBe(1);
+    expect(repository.findActive).toHaveBeenCalledWith(expect.not.arrayContaining(['MISSED_CHECK_INS']));
+    expect(repository.findCheckInHistory).toHaveBeenCalledWith([WORKER_ID], '2026-02-17', '2026-02-23');
+    expect(repository.createTriggers).toHaveBeenCalledWith([
+      { ruleId: 'rule-1', personId: WORKER_ID, date: '2026-02-23' },
+    ]);
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      {
+        personId: LEAD_ID,
+        type: 'TEAM_ALERT',
+        title: 'Alert: Sustained fatigue',
+        message: 'Jane Doe (Alpha): 3 YELLOW or RED check-ins in a row.',
+        link: `/team/workers/${WORKER_ID}`,
+      },
+    ]);
+  });
+
+  it('does nothing without active rules for the event', async () => {
+    repository.findActive.mockResolvedValue([]);
+
+    const matches = await runAlertRules(prisma, COMPANY_ID, 'MISSED_CHECK_IN_DETECTED', [WORKER_ID], '2026-02-23');
+
+    expect(matches).toBe(0);
+    expect(repository.findMissHistory).not.toHaveBeenCalled();
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('stays quiet while the rule is cooling down for the worker', async () => {
+    repository.findLastTriggerDates.mockResolvedValue(new Map([[`rule-1:${WORKER_ID}`, '2026-02-20']]));
+
+    const matches = await runAlertRules(prisma, COMPANY_ID, 'CHECK_IN_SUBMITTED', [WORKER_ID], '2026-02-23');
+
+    expect(matches).toBe(0);
+    expect(repository.createTriggers).not.toHaveBeenCalled();
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('does not alert again when an overlapping evaluation already recorded the match', async () => {
+    repository.createTriggers.mockResolvedValue(new Set());
+
+    const matches = await runAlertRules(prisma, COMPANY_ID, 'CHECK_IN_SUBMITTED', [WORKER_ID], '2026-02-23');
+
+    expect(matches).toBe(0);
+    expect(repository.findActiveAdminIds).not.toHaveBeenCalled();
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('sends a team lead\'s own alerts to their supervisor', async () => {
+    repository.findCheckInHistory.mockResolvedValue(new Map([[LEAD_ID, yellowStreak]]));
+    repository.findSubjects.mockResolvedValue([{ ...worker, id: LEAD_ID, first_name: 'Sam', last_name: 'Lee' }]);
+
+    await runAlertRules(prisma, COMPANY_ID, 'CHECK_IN_SUBMITTED', [LEAD_ID], '2026-02-23');
+
+    const notifications = vi.mocked(sendNotifications).mock.calls[0]![2];
+    expect(notifications.map((n) => n.personId)).toEqual([SUPERVISOR_ID]);
+  });
+
+  it('alerts every active admin with the admin profile link', async () => {
+    repository.findActive.mockResolvedValue([{ ...rule, target_role: 'ADMIN' }]);
+    repository.findActiveAdminIds.mockResolvedValue([ADMIN_ID, 'admin-2']);
+
+    await runAlertRules(prisma, COMPANY_ID, 'CHECK_IN_SUBMITTED', [WORKER_ID], '2026-02-23');
+
+    const notifications = vi.mocked(sendNotifications).mock.calls[0]![2];
+    expect(notifications.map((n) => n.personId)).toEqual([ADMIN_ID, 'admin-2']);
+    expect(notifications[0]!.link).toBe(`/person/${WORKER_ID}`);
+  });
+});
+
+describe('AlertRuleService', () => {
+  let repository: ReturnType<typeof createRepository>;
+  let service: AlertRuleService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = createRepository();
+    service = new AlertRuleService(repository as never, 'Asia/Manila');
+  });
+
+  afterEach(() => {
+    Settings.now = () => Date.now();
+  });
+
+  it('drops the value for metrics that do not use one', async () => {
+    await service.create(
+      { name: 'Two RED', metric: 'RED_CHECK_INS', value: 8, threshold: 2, windowDays: 7, targetRole: 'SUPERVISOR' },
+      ADMIN_ID
+    );
+
+    expect(repository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ metric: 'RED_CHECK_INS', value: null, isActive: true }),
+      ADMIN_ID
+    );
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'CREATE_ALERT_RULE' }));
+  });
+
+  it('maps a duplicate name to 409', async () => {
+    repository.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint', { code: 'P2002', clientVersion: '5.22.0' })
+    );
+
+    const error = await service
+      .create({ name: 'Dup', metric: 'RED_CHECK_INS', threshold: 1, windowDays: 1, targetRole: 'ADMIN' }, ADMIN_ID)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).statusCode).toBe(409);
+  });
+
+  it('validates the merged rule on update', async () => {
+    const error = await service.update('rule-1', { metric: 'HIGH_STRESS' }, ADMIN_ID).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).message).toBe('Stress level is required for this metric');
+    expect(repository.update).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when updating a missing rule', async () => {
+    repository.findById.mockResolvedValue(null);
+
+    await expect(service.update('missing', { isActive: false }, ADMIN_ID)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('previews matches over history with the live cooldown', async () => {
+    // 2026-02-23 10:00 Manila
+    Settings.now = () => new Date('2026-02-23T02:00:00.000Z').getTime();
+    repository.findCheckInHistory.mockResolvedValue(
+      new Map([
+        [
+          WORKER_ID,
+          [
+            { date: '2026-02-09', stressLevel: 9 },
+            { date: '2026-02-10', stressLevel: 9 }, // match
+            { date: '2026-02-11', stressLevel: 9 }, // cooling down
+            { date: '2026-02-20', stressLevel: 9 },
+            { date: '2026-02-23', stressLevel: 9 }, // match — a week after the last one
+          ],
+        ],
+      ])
+    );
+
+    const preview = await service.preview({
+      metric: 'HIGH_STRESS',
+      value: 8,
+      threshold: 2,
+      windowDays: 7,
+      days: 30,
+    });
+
+    expect(repository.findCheckInHistory).toHaveBeenCalledWith(null, '2026-01-19', '2026-02-23');
+    expect(preview).toEqual({
+      from: '2026-01-25',
+      to: '2026-02-23',
+      workersMatched: 1,
+      matches: [
+        { personId: WORKER_ID, workerName: 'Jane Doe', teamName: 'Alpha', date: '2026-02-23' },
+        { personId: WORKER_ID, workerName: 'Jane Doe', teamName: 'Alpha', date: '2026-02-10' },
+      ],
+    });
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+});
+
+describe('alert rule schemas', () => {
+  const base = { name: 'Rule', metric: 'HIGH_STRESS', value: 8, threshold: 2, windowDays: 7, targetRole: 'TEAM_LEAD' };
+
+  it('requires a value for metrics that compare each check-in', () => {
+    expect(createAlertRuleSchema.safeParse(base).success).toBe(true);
+    expect(createAlertRuleSchema.safeParse({ ...base, value: undefined }).success).toBe(false);
+    expect(createAlertRuleSchema.safeParse({ ...base, value: 11 }).success).toBe(false);
+  });
+
+  it('rejects a threshold larger than the window', () => {
+    expect(createAlertRuleSchema.safeParse({ ...base, threshold: 8 }).success).toBe(false);
+  });
+
+  it('only targets team leads, supervisors and admins', () => {
+    expect(createAlertRuleSchema.safeParse({ ...base, targetRole: 'WORKER' }).success).toBe(false);
+  });
+
+  it('defaults the preview range to 30 days', () => {
+    const parsed = previewAlertRuleSchema.parse({ metric: 'MISSED_CHECK_INS', threshold: 2, windowDays: 7 });
+    expect(parsed.days).toBe(30);
+  });
+});
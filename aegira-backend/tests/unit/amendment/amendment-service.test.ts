@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotification: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/event/event.service', () => ({
+  buildEventData: vi.fn((input: Record<string, unknown>) => input),
+  emitEvent: vi.fn(),
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import { AmendmentService } from '../../../src/modules/amendment/amendment.service';
+import { CheckInService } from '../../../src/modules/check-in/check-in.service';
+import type { CheckInRepository } from '../../../src/modules/check-in/check-in.repository';
+import { sendNotification } from '../../../src/modules/notification/notification.service';
+import { buildEventData } from '../../../src/modules/event/event.service';
+import { AppError } from '../../../src/shared/errors';
+import { DEFAULT_SCORING_MODEL } from '../../../src/shared/scoring.utils';
+
+const COMPANY_ID = 'company-1';
+const WORKER_ID = 'worker-1';
+const LEAD_ID = 'lead-1';
+
+const baseCheckIn = {
+  id: 'checkin-1',
+  company_id: COMPANY_ID,
+  person_id: WORKER_ID,
+  event_id: 'event-1',
+  check_in_date: new Date('2026-02-23T00:00:00.000Z'),
+  hours_slept: 4,
+  sleep_quality: 5,
+  stress_level: 5,
+  physical_condition: 5,
+  pain_level: null,
+  pain_location: null,
+  physical_condition_notes: null,
+  notes: null,
+  readiness_score: 47,
+  readiness_level: 'RED',
+  sleep_score: 45,
+  stress_score: 50,
+  physical_score: 50,
+  pain_score: null,
+  scoring_model_version: 0,
+  created_at: new Date('2026-02-23T00:00:00.000Z'),
+};
+
+const amendmentRelations = {
+  person: { id: WORKER_ID, first_name: 'Jane', last_name: 'Doe', team: { id: 'team-1', name: 'Alpha' } },
+  check_in: { id: 'checkin-1', check_in_date: baseCheckIn.check_in_date, readiness_score: 47, readiness_level: 'RED' },
+};
+
+function createTx() {
+  return {
+    checkIn: { findFirst: vi.fn(), update: vi.fn() },
+    scoringModel: { findUnique: vi.fn() },
+    amendment: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    event: { create: vi.fn() },
+  };
+}
+
+describe('AmendmentService', () => {
+  let tx: ReturnType<typeof createTx>;
+  let service: AmendmentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx = createTx();
+
+    const prisma = {
+      $transaction: vi.fn(async (fn: (t: typeof tx) => unknown) => fn(tx)),
+      team: { findFirst: vi.fn().mockResolvedValue({ leader_id: LEAD_ID }) },
+    } as unknown as PrismaClient;
+
+    const checkInService = new CheckInService({} as CheckInRepository, 'Asia/Manila');
+    service = new AmendmentService(prisma, checkInService, 'Asia/Manila');
+  });
+
+  describe('createAmendment', () => {
+    it('snapshots the current value as old_value', async () => {
+      tx.checkIn.findFirst.mockResolvedValue(baseCheckIn);
+      tx.amendment.findFirst.mockResolvedValue(null);
+      tx.amendment.create.mockImplementation(async ({ data }) => ({
+        id: 'amendment-1',
+        ...data,
+        ...amendmentRelations,
+      }));
+
+      const result = await service.createAmendment(
+        { checkInId: 'checkin-1', fieldName: 'hours_slept', newValue: 8, reason: 'Typo' },
+        COMPANY_ID,
+        WORKER_ID
+      );
+
+      expect(result.old_value).toBe('4');
+      expect(result.new_value).toBe('8');
+    });
+
+    it('rejects corrections to another person\'s check-in', async () => {
+      tx.checkIn.findFirst.mockResolvedValue({ ...baseCheckIn, person_id: 'someone-else' });
+
+      await expect(
+        service.createAmendment(
+          { checkInId: 'checkin-1', fieldName: 'hours_slept', newValue: 8, reason: 'Typo' },
+          COMPANY_ID,
+          WORKER_ID
+        )
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('rejects a second pending request for the same field', async () => {
+      tx.checkIn.findFirst.mockResolvedValue(baseCheckIn);
+      tx.amendment.findFirst.mockResolvedValue({ id: 'existing' });
+
+      await expect(
+        service.createAmendment(
+          { checkInId: 'checkin-1', fieldName: 'hours_slept', newValue: 8, reason: 'Typo' },
+          COMPANY_ID,
+          WORKER_ID
+        )
+      ).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('rejects adding pain when the check-in has no pain location', async () => {
+      tx.checkIn.findFirst.mockResolvedValue(baseCheckIn);
+
+      await expect(
+        service.createAmendment(
+          { checkInId: 'checkin-1', fieldName: 'pain_level', newValue: 4, reason: 'Forgot' },
+          COMPANY_ID,
+          WORKER_ID
+        )
+      ).rejects.toBeInstanceOf(AppError);
+    });
+  });
+
+  describe('approveAmendment', () => {
+    const pendingAmendment = {
+      id: 'amendment-1',
+      status: 'PENDING',
+      person_id: WORKER_ID,
+      check_in_id: 'checkin-1',
+      field_name: 'hours_slept',
+      old_value: '4',
+      new_value: '8',
+      person: { team: { leader_id: LEAD_ID, supervisor_id: null } },
+    };
+
+    it('applies the value, recomputes readiness and records CHECK_IN_UPDATED', async () => {
+      tx.amendment.findFirst.mockResolvedValue(pendingAmendment);
+      tx.checkIn.findFirst.mockResolvedValue(baseCheckIn);
+      tx.amendment.update.mockResolvedValue({
+        ...pendingAmendment,
+        status: 'APPROVED',
+        ...amendmentRelations,
+      });
+
+      await service.approveAmendment('amendment-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' });
+
+      // 8h sleep + quality 5 → sleep 75; stress 50; physical 50 → 75*0.4 + 50*0.3 + 50*0.3 = 60
+      expect(tx.checkIn.update).toHaveBeenCalledWith({
+        where: { id: 'checkin-1' },
+        data: expect.objectContaining({
+          hours_slept: 8,
+          readiness_score: 60,
+          readiness_level: 'YELLOW',
+          sleep_score: 75,
+        }),
+      });
+      expect(buildEventData).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'CHECK_IN_UPDATED', entityId: 'checkin-1' })
+      );
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.anything(),
+        COMPANY_ID,
+        expect.objectContaining({ personId: WORKER_ID, type: 'AMENDMENT_APPROVED' })
+      );
+    });
+
+    it('rescores with the model version the check-in was scored with', async () => {
+      tx.amendment.findFirst.mockResolvedValue(pendingAmendment);
+      tx.checkIn.findFirst.mockResolvedValue({ ...baseCheckIn, scoring_model_version: 2 });
+      tx.scoringModel.findUnique.mockResolvedValue({
+        version: 2,
+        config: { ...DEFAULT_SCORING_MODEL, thresholds: { green: 80, yellow: 65 } },
+      });
+      tx.amendment.update.mockResolvedValue({
+        ...pendingAmendment,
+        status: 'APPROVED',
+        ...amendmentRelations,
+      });
+
+      await service.approveAmendment('amendment-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' });
+
+      expect(tx.scoringModel.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { company_id_version: { company_id: COMPANY_ID, version: 2 } },
+        })
+      );
+      // Same score as the default model (60), but below v2's yellow threshold
+      expect(tx.checkIn.update).toHaveBeenCalledWith({
+        where: { id: 'checkin-1' },
+        data: expect.objectContaining({ readiness_score: 60, readiness_level: 'RED' }),
+      });
+    });
+
+    it('forbids team leads outside the worker\'s team', async () => {
+      tx.amendment.findFirst.mockResolvedValue(pendingAmendment);
+
+      await expect(
+        service.approveAmendment('amendment-1', COMPANY_ID, { id: 'other-lead', role: 'TEAM_LEAD' })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(tx.checkIn.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects already-reviewed amendments', async () => {
+      tx.amendment.findFirst.mockResolvedValue({ ...pendingAmendment, status: 'REJECTED' });
+
+      await expect(
+        service.approveAmendment('amendment-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' })
+      ).rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { rmSync } from 'fs';
+
+// Local driver writes into a throwaway directory (hoisted so the env mock can see it)
+const storageDir = vi.hoisted(() => {
+  const { mkdtempSync } = require('fs') as typeof import('fs');
+  const { tmpdir } = require('os') as typeof import('os');
+  const path = require('path') as typeof import('path');
+  return mkdtempSync(path.join(tmpdir(), 'aegira-attachments-'));
+});
+
+vi.mock('../../../src/config/env', () => ({
+  env: {
+    STORAGE_DRIVER: 'local',
+    LOCAL_STORAGE_DIR: storageDir,
+    R2_BUCKET_NAME: 'public',
+    R2_ATTACHMENTS_BUCKET_NAME: 'attachments',
+    R2_PUBLIC_URL: 'https://files.example.com',
+  },
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import { AttachmentService } from '../../../src/modules/attachment/attachment.service';
+import { LocalStorageDriver } from '../../../src/shared/storage';
+import { logAudit } from '../../../src/shared/audit';
+
+const COMPANY_ID = 'company-1';
+const INCIDENT_ID = 'incident-1';
+const REPORTER = { userId: 'reporter-1', role: 'WORKER' };
+const WHS = { userId: 'whs-1', role: 'WHS' };
+
+function createPrismaMock() {
+  return {
+    incident: { findFirst: vi.fn() },
+    case: { findFirst: vi.fn() },
+    attachment: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn(),
+      count: vi.fn().mockResolvedValue(0),
+      create: vi.fn(),
+      deleteMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+}
+
+function photo(name = 'hazard.jpg', type = 'image/jpeg', bytes = 16): File {
+  return new File([new Uint8Array(bytes).fill(7)], name, { type });
+}
+
+describe('AttachmentService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let service: AttachmentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma = createPrismaMock();
+    service = new AttachmentService(prisma as unknown as PrismaClient, COMPANY_ID);
+
+    prisma.incident.findFirst.mockResolvedValue({
+      id: INCIDENT_ID,
+      reporter_id: REPORTER.userId,
+      status: 'PENDING',
+    });
+    prisma.attachment.create.mockImplementation(({ data }) =>
+      Promise.resolve({
+        id: 'att-1',
+        ...data,
+        created_at: new Date(),
+        uploader: { id: data.uploaded_by, first_name: 'Rey', last_name: 'Porter' },
+      })
+    );
+  });
+
+  afterAll(() => {
+    rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('stores an upload from the reporter and audits it', async () => {
+    const attachment = await service.uploadToIncident(INCIDENT_ID, photo('../../etc/hazard.jpg'), REPORTER);
+
+    expect(attachment.file_name).toBe('hazard.jpg');
+    expect(attachment.storage_key).toMatch(new RegExp(`^${COMPANY_ID}/incidents/${INCIDENT_ID}/.+\\.jpg$`));
+
+    const stored = await new LocalStorageDriver(storageDir, 'attachments').get(attachment.storage_key);
+    expect(stored.byteLength).toBe(16);
+
+    expect(logAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'ATTACHMENT_UPLOADED',
+        entityType: 'incident',
+        entityId: INCIDENT_ID,
+      })
+    );
+  });
+
+  it('rejects users who are not the reporter, WHS or ADMIN', async () => {
+    await expect(
+      service.listForIncident(INCIDENT_ID, { userId: 'other-1', role: 'TEAM_LEAD' })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN', statusCode: 403 });
+  });
+
+  it('allows ADMIN to list any incident attachments', async () => {
+    await service.listForIncident(INCIDENT_ID, { userId: 'admin-1', role: 'ADMIN' });
+
+    expect(prisma.attachment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { incident_id: INCIDENT_ID, company_id: COMPANY_ID } })
+    );
+  });
+
+  it('rejects disallowed file types', async () => {
+    await expect(
+      service.uploadToIncident(INCIDENT_ID, photo('notes.txt', 'text/plain'), REPORTER)
+    ).rejects.toMatchObject({ code: 'INVALID_FILE_TYPE' });
+    expect(prisma.attachment.create).not.toHaveBeenCalled();
+  });
+
+  it('enforces the per-incident attachment limit', async () => {
+    prisma.attachment.count.mockResolvedValue(20);
+
+    await expect(service.uploadToIncident(INCIDENT_ID, photo(), REPORTER)).rejects.toMatchObject({
+      code: 'ATTACHMENT_LIMIT_REACHED',
+    });
+  });
+
+  it('stores case documents against both the case and its incident', async () => {
+    prisma.case.findFirst.mockResolvedValue({
+      id: 'case-1',
+      incident_id: INCIDENT_ID,
+      status: 'INVESTIGATING',
+      incident: { reporter_id: REPORTER.userId },
+    });
+
+    const attachment = await service.uploadToCase('case-1', photo('certificate.pdf', 'application/pdf'), WHS);
+
+    expect(attachment.case_id).toBe('case-1');
+    expect(attachment.incident_id).toBe(INCIDENT_ID);
+    expect(logAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ entityType: 'case', entityId: 'case-1' })
+    );
+  });
+
+  it('lets the reporter delete their own upload only while the incident is pending', async () => {
+    prisma.attachment.findFirst.mockResolvedValue({
+      id: 'att-1',
+      incident_id: INCIDENT_ID,
+      case_id: null,
+      uploaded_by: REPORTER.userId,
+      storage_key: `${COMPANY_ID}/incidents/${INCIDENT_ID}/missing.jpg`,
+    });
+    prisma.incident.findFirst.mockResolvedValueOnce({
+      id: INCIDENT_ID,
+      reporter_id: REPORTER.userId,
+      status: 'APPROVED',
+    });
+
+    await expect(service.delete(INCIDENT_ID, 'att-1', REPORTER)).rejects.toMatchObject({
+      code: 'INCIDENT_REVIEWED',
+    });
+
+    await service.delete(INCIDENT_ID, 'att-1', REPORTER);
+
+    expect(prisma.attachment.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'att-1', company_id: COMPANY_ID },
+    });
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'ATTACHMENT_DELETED' }));
+  });
+
+  it('does not let the reporter delete attachments uploaded by WHS', async () => {
+    prisma.attachment.findFirst.mockResolvedValue({
+      id: 'att-2',
+      incident_id: INCIDENT_ID,
+      case_id: null,
+      uploaded_by: WHS.userId,
+      storage_key: 'key',
+    });
+
+    await expect(service.delete(INCIDENT_ID, 'att-2', REPORTER)).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+    });
+    expect(prisma.attachment.deleteMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('LocalStorageDriver', () => {
+  it('rejects keys that escape the bucket directory', async () => {
+    const driver = new LocalStorageDriver(storageDir, 'attachments');
+    await expect(driver.get('../public/secret.jpg')).rejects.toMatchObject({ code: 'INVALID_FILE_KEY' });
+  });
+});
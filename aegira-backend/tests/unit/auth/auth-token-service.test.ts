@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import type { PrismaClient } from '@prisma/client';
+import { AuthTokenService, AUTH_TOKEN_TTL_MS } from '../../../src/modules/auth/auth-token.service';
+import { renderInvitationEmail, renderPasswordResetEmail } from '../../../src/modules/auth/auth.emails';
+
+vi.mock('../../../src/config/env', () => ({
+  env: { APP_URL: 'https://app.aegira.test/' },
+}));
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+const person = {
+  id: 'person-1',
+  company_id: 'company-1',
+  email: 'jane@example.com',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  is_active: true,
+  company: { name: 'Acme Mining', is_active: true },
+};
+
+function tokenRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'token-1',
+    type: 'PASSWORD_RESET',
+    expires_at: new Date(Date.now() + 10 * 60 * 1000),
+    used_at: null,
+    person,
+    ...overrides,
+  };
+}
+
+function createPrisma() {
+  const prisma = {
+    authToken: {
+      create: vi.fn().mockResolvedValue({}),
+      findUnique: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    person: {
+      update: vi.fn().mockResolvedValue({ ...person, company: { name: person.company.name } }),
+    },
+    $transaction: vi.fn(),
+  };
+  // Array form runs the queued operations; callback form gets the client itself
+  prisma.$transaction.mockImplementation(async (arg: unknown) =>
+    typeof arg === 'function' ? arg(prisma) : Promise.all(arg as Promise<unknown>[])
+  );
+  return prisma;
+}
+
+describe('AuthTokenService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: AuthTokenService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma = createPrisma();
+    service = new AuthTokenService(prisma as unknown as PrismaClient);
+  });
+
+  describe('issue', () => {
+    it('stores only the hash and supersedes outstanding tokens of the same type', async () => {
+      const before = Date.now();
+      const { token, expiresAt } = await service.issue('company-1', 'person-1', 'PASSWORD_RESET');
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(prisma.authToken.updateMany).toHaveBeenCalledWith({
+        where: { person_id: 'person-1', type: 'PASSWORD_RESET', used_at: null },
+        data: { used_at: expect.any(Date) },
+      });
+      const data = prisma.authToken.create.mock.calls[0]![0].data;
+      expect(data.token_hash).toBe(sha256(token));
+      expect(JSON.stringify(data)).not.toContain(token);
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + AUTH_TOKEN_TTL_MS.PASSWORD_RESET);
+    });
+
+    it('gives invitations a longer lifetime than resets', () => {
+      expect(AUTH_TOKEN_TTL_MS.INVITATION).toBeGreaterThan(AUTH_TOKEN_TTL_MS.PASSWORD_RESET);
+    });
+  });
+
+  describe('redeem', () => {
+    it('claims the token and sets the password', async () => {
+      prisma.authToken.findUnique.mockResolvedValue(tokenRow());
+
+      const result = await service.redeem('raw-token', 'PASSWORD_RESET', 'new-hash');
+
+      expect(prisma.authToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { token_hash: sha256('raw-token') } })
+      );
+      expect(prisma.authToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', used_at: null },
+        data: { used_at: expect.any(Date) },
+      });
+      expect(prisma.person.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'person-1' }, data: { password_hash: 'new-hash' } })
+      );
+      expect(result.email).toBe('jane@example.com');
+    });
+
+    it.each([
+      ['unknown', null],
+      ['already used', tokenRow({ used_at: new Date() })],
+      ['expired', tokenRow({ expires_at: new Date(Date.now() - 1000) })],
+      ['of another type', tokenRow({ type: 'INVITATION' })],
+      ['for a deactivated person', tokenRow({ person: { ...person, is_active: false } })],
+      ['for a deactivated company', tokenRow({ person: { ...person, company: { ...person.company, is_active: false } } })],
+    ])('rejects a token that is %s', async (_label, row) => {
+      prisma.authToken.findUnique.mockResolvedValue(row);
+
+      await expect(service.redeem('raw-token', 'PASSWORD_RESET', 'new-hash')).rejects.toMatchObject({
+        code: 'INVALID_TOKEN',
+        statusCode: 400,
+      });
+      expect(prisma.person.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects the loser of a concurrent redemption', async () => {
+      prisma.authToken.findUnique.mockResolvedValue(tokenRow());
+      prisma.authToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.redeem('raw-token', 'PASSWORD_RESET', 'new-hash')).rejects.toMatchObject({
+        code: 'INVALID_TOKEN',
+      });
+      expect(prisma.person.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inspect', () => {
+    it('returns the invitee without redeeming', async () => {
+      prisma.authToken.findUnique.mockResolvedValue(tokenRow({ type: 'INVITATION' }));
+
+      const result = await service.inspect('raw-token', 'INVITATION');
+
+      expect(result).toEqual({
+        id: 'person-1',
+        company_id: 'company-1',
+        email: 'jane@example.com',
+        first_name: 'Jane',
+        last_name: 'Doe',
+        company: { name: 'Acme Mining' },
+      });
+      expect(prisma.authToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('auth emails', () => {
+  it('links to the reset page with the raw token', () => {
+    const message = renderPasswordResetEmail(person, 'abc_123-XYZ');
+
+    expect(message.to).toEqual(['jane@example.com']);
+    expect(message.text).toContain('https://app.aegira.test/reset-password?token=abc_123-XYZ');
+    expect(message.html).toContain('href="https://app.aegira.test/reset-password?token=abc_123-XYZ"');
+  });
+
+  it('names the company in the invitation and escapes it in HTML', () => {
+    const message = renderInvitationEmail({ ...person, company: { name: 'Acme <Mining>' } }, 'tok');
+
+    expect(message.subject).toBe("You're invited to Acme <Mining> on AEGIRA");
+    expect(message.text).toContain('https://app.aegira.test/accept-invite?token=tok');
+    expect(message.html).toContain('Acme &lt;Mining&gt;');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../../src/config/env', () => ({
+  env: { RATE_LIMIT_STORE: 'memory' },
+}));
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import {
+  assertNotLockedOut,
+  recordFailedLogin,
+  clearFailedLogins,
+  assertMfaNotLockedOut,
+  recordFailedMfa,
+  clearFailedMfa,
+  MAX_FAILED_LOGINS,
+  LOCKOUT_WINDOW_MS,
+} from '../../../src/modules/auth/login-lockout';
+import { MemoryRateLimitStore } from '../../../src/shared/rate-limit-store';
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts hits within a window and starts a new window after expiry', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.increment('k', 1000)).count).toBe(1);
+    expect((await store.increment('k', 1000)).count).toBe(2);
+
+    vi.advanceTimersByTime(1001);
+
+    expect(await store.get('k')).toBeNull();
+    expect((await store.increment('k', 1000)).count).toBe(1);
+  });
+
+  it('reset clears the counter', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment('k', 1000);
+    await store.reset('k');
+    expect(await store.get('k')).toBeNull();
+  });
+});
+
+describe('login lockout', () => {
+  let email: string;
+
+  beforeEach(async () => {
+    // Unique email per test — the configured store is a process-wide singleton
+    email = `user-${Math.random().toString(36).slice(2)}@example.com`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows login attempts below the threshold', async () => {
+    for (let i = 0; i < MAX_FAILED_LOGINS - 1; i++) {
+      await recordFailedLogin(email);
+    }
+    await expect(assertNotLockedOut(email)).resolves.toBeUndefined();
+  });
+
+  it('locks the account after repeated failures and reports the locking attempt', async () => {
+    const results: boolean[] = [];
+    for (let i = 0; i < MAX_FAILED_LOGINS; i++) {
+      results.push(await recordFailedLogin(email));
+    }
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(results[MAX_FAILED_LOGINS - 1]).toBe(true);
+    await expect(assertNotLockedOut(email)).rejects.toMatchObject({
+      code: 'ACCOUNT_LOCKED',
+      statusCode: 429,
+    });
+  });
+
+  it('treats email case-insensitively', async () => {
+    for (let i = 0; i < MAX_FAILED_LOGINS; i++) {
+      await recordFailedLogin(email.toUpperCase());
+    }
+    await expect(assertNotLockedOut(email)).rejects.toMatchObject({ code: 'ACCOUNT_LOCKED' });
+  });
+
+  it('unlocks after the lockout window', async () => {
+    vi.useFakeTimers();
+    for (let i = 0; i < MAX_FAILED_LOGINS; i++) {
+      await recordFailedLogin(email);
+    }
+
+    vi.advanceTimersByTime(LOCKOUT_WINDOW_MS + 1);
+
+    await expect(assertNotLockedOut(email)).resolves.toBeUndefined();
+  });
+
+  it('clears failures after a successful login', async () => {
+    for (let i = 0; i < MAX_FAILED_LOGINS; i++) {
+      await recordFailedLogin(email);
+    }
+    await clearFailedLogins(email);
+    await expect(assertNotLockedOut(email)).resolves.toBeUndefined();
+  });
+});
+
+describe('MFA lockout', () => {
+  let personId: string;
+
+  beforeEach(() => {
+    personId = `person-${Math.random().toString(36).slice(2)}`;
+  });
+
+  it('locks after repeated wrong codes, independently of the password counter', async () => {
+    const results: boolean[] = [];
+    for (let i = 0; i < MAX_FAILED_LOGINS; i++) {
+      results.push(await recordFailedMfa(personId));
+    }
+
+    expect(results[MAX_FAILED_LOGINS - 1]).toBe(true);
+    await expect(assertMfaNotLockedOut(personId)).rejects.toMatchObject({
+      code: 'ACCOUNT_LOCKED',
+      statusCode: 429,
+    });
+    await expect(assertNotLockedOut(personId)).resolves.toBeUndefined();
+  });
+
+  it('clears after a correct code', async () => {
+    for (let i = 0; i < MAX_FAILED_LOGINS; i++) {
+      await recordFailedMfa(personId);
+    }
+    await clearFailedMfa(personId);
+    await expect(assertMfaNotLockedOut(personId)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import type { PrismaClient } from '@prisma/client';
+import { MfaService, RECOVERY_CODE_COUNT, isMfaRequiredForRole } from '../../../src/modules/auth/mfa.service';
+import { sealSecret, openSecret } from '../../../src/shared/secret-box';
+import { generateTotp, generateTotpSecret, totpStep } from '../../../src/shared/totp';
+
+vi.mock('../../../src/config/env', () => ({
+  env: { SECRET_ENCRYPTION_KEY: '', JWT_SECRET: 'abcdefghijklmnopqrstuvwxyz0123456789' },
+}));
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function createPrisma() {
+  const prisma = {
+    person: {
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    mfaRecoveryCode: {
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+      createMany: vi.fn().mockResolvedValue({ count: RECOVERY_CODE_COUNT }),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    $transaction: vi.fn((ops: Promise<unknown>[]) => Promise.all(ops)),
+  };
+  return prisma;
+}
+
+describe('secret box', () => {
+  it('round-trips and uses a fresh IV each time', () => {
+    const a = sealSecret('JBSWY3DPEHPK3PXP');
+    const b = sealSecret('JBSWY3DPEHPK3PXP');
+
+    expect(a).not.toBe(b);
+    expect(a).not.toContain('JBSWY3DPEHPK3PXP');
+    expect(openSecret(a)).toBe('JBSWY3DPEHPK3PXP');
+  });
+
+  it('refuses tampered values', () => {
+    const [version, iv, tag, ciphertext] = sealSecret('secret').split('.');
+    const flipped = Buffer.from(ciphertext!, 'base64url');
+    flipped[0] ^= 1;
+
+    expect(() => openSecret([version, iv, tag, flipped.toString('base64url')].join('.'))).toThrow();
+    expect(() => openSecret('not-sealed')).toThrow('Unrecognized');
+  });
+});
+
+describe('MfaService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: MfaService;
+  let secret: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Pin the clock so codes can't roll over to the next step mid-test
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-18T08:00:10Z'));
+    prisma = createPrisma();
+    service = new MfaService(prisma as unknown as PrismaClient);
+    secret = generateTotpSecret();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('beginEnrollment', () => {
+    it('stores the secret sealed and returns provisioning details', async () => {
+      prisma.person.findUniqueOrThrow.mockResolvedValue({
+        email: 'jane@example.com',
+        mfa_enabled_at: null,
+        company: { name: 'Acme' },
+      });
+
+      const result = await service.beginEnrollment('person-1');
+
+      const stored = prisma.person.update.mock.calls[0]![0].data.mfa_secret as string;
+      expect(stored).not.toContain(result.secret);
+      expect(openSecret(stored)).toBe(result.secret);
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+      expect(result.otpauthUri).toContain('issuer=AEGIRA+%28Acme%29');
+      expect(result.qrSvg).toMatch(/^<svg /);
+    });
+
+    it('refuses when MFA is already on', async () => {
+      prisma.person.findUniqueOrThrow.mockResolvedValue({
+        email: 'jane@example.com',
+        mfa_enabled_at: new Date(),
+        company: { name: 'Acme' },
+      });
+
+      await expect(service.beginEnrollment('person-1')).rejects.toMatchObject({ code: 'MFA_ALREADY_ENABLED' });
+      expect(prisma.person.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('enables MFA and stores only hashes of the recovery codes', async () => {
+      prisma.person.findUniqueOrThrow.mockResolvedValue({ mfa_secret: sealSecret(secret), mfa_enabled_at: null });
+
+      const codes = await service.confirmEnrollment('person-1', generateTotp(secret));
+
+      expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+      expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+      codes.forEach((code) => expect(code).toMatch(/^[A-Z2-9]{5}-[A-Z2-9]{5}$/));
+
+      expect(prisma.person.update).toHaveBeenCalledWith({
+        where: { id: 'person-1' },
+        data: { mfa_enabled_at: expect.any(Date), mfa_last_used_step: totpStep() },
+      });
+      const stored = prisma.mfaRecoveryCode.createMany.mock.calls[0]![0].data;
+      expect(stored[0].code_hash).toBe(sha256(codes[0]!.replace('-', '')));
+      expect(JSON.stringify(stored)).not.toContain(codes[0]);
+    });
+
+    it('rejects a wrong code and leaves MFA off', async () => {
+      prisma.person.findUniqueOrThrow.mockResolvedValue({ mfa_secret: sealSecret(secret), mfa_enabled_at: null });
+
+      await expect(service.confirmEnrollment('person-1', '000000')).rejects.toMatchObject({
+        code: 'INVALID_MFA_CODE',
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('requires setup to have been started', async () => {
+      prisma.person.findUniqueOrThrow.mockResolvedValue({ mfa_secret: null, mfa_enabled_at: null });
+
+      await expect(service.confirmEnrollment('person-1', '123456')).rejects.toMatchObject({
+        code: 'MFA_NOT_STARTED',
+      });
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      prisma.person.findUniqueOrThrow.mockResolvedValue({
+        mfa_secret: sealSecret(secret),
+        mfa_enabled_at: new Date(),
+        mfa_last_used_step: null,
+      });
+    });
+
+    it('accepts a TOTP code and consumes its step', async () => {
+      await expect(service.verify('person-1', generateTotp(secret))).resolves.toBe('TOTP');
+      expect(prisma.person.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'person-1',
+          OR: [{ mfa_last_used_step: null }, { mfa_last_used_step: { lt: totpStep() } }],
+        },
+        data: { mfa_last_used_step: totpStep() },
+      });
+    });
+
+    it('rejects a TOTP code whose step was already used', async () => {
+      prisma.person.findUniqueOrThrow.mockResolvedValue({
+        mfa_secret: sealSecret(secret),
+        mfa_enabled_at: new Date(),
+        mfa_last_used_step: totpStep() + 1,
+      });
+
+      await expect(service.verify('person-1', generateTotp(secret))).resolves.toBeNull();
+      expect(prisma.person.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects the loser of a concurrent TOTP submission', async () => {
+      prisma.person.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.verify('person-1', generateTotp(secret))).resolves.toBeNull();
+    });
+
+    it('accepts a recovery code once, ignoring case and dashes', async () => {
+      await expect(service.verify('person-1', 'abcde-fghjk')).resolves.toBe('RECOVERY_CODE');
+      expect(prisma.mfaRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { person_id: 'person-1', code_hash: sha256('ABCDEFGHJK'), used_at: null },
+        data: { used_at: expect.any(Date) },
+      });
+
+      prisma.mfaRecoveryCode.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.verify('person-1', 'ABCDEFGHJK')).resolves.toBeNull();
+    });
+
+    it('rejects everything while enrolment is still pending', async () => {
+      prisma.person.findUniqueOrThrow.mockResolvedValue({
+        mfa_secret: sealSecret(secret),
+        mfa_enabled_at: null,
+        mfa_last_used_step: null,
+      });
+
+      await expect(service.verify('person-1', generateTotp(secret))).resolves.toBeNull();
+    });
+  });
+
+  it('disable clears the secret and every recovery code', async () => {
+    await service.disable('person-1');
+
+    expect(prisma.person.update).toHaveBeenCalledWith({
+      where: { id: 'person-1' },
+      data: { mfa_secret: null, mfa_enabled_at: null, mfa_last_used_step: null },
+    });
+    expect(prisma.mfaRecoveryCode.deleteMany).toHaveBeenCalledWith({ where: { person_id: 'person-1' } });
+  });
+
+  it('applies the company role policy', () => {
+    expect(isMfaRequiredForRole(['ADMIN', 'WHS'], 'WHS')).toBe(true);
+    expect(isMfaRequiredForRole(['ADMIN', 'WHS'], 'WORKER')).toBe(false);
+    expect(isMfaRequiredForRole([], 'ADMIN')).toBe(false);
+  });
+});
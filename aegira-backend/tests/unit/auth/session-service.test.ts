@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+
+vi.mock('../../../src/config/env', () => ({
+  env: {
+    JWT_SECRET: 'test-secret-that-is-at-least-32-characters',
+    JWT_EXPIRES_IN: '15m',
+    REFRESH_TOKEN_EXPIRES_IN: '7d',
+  },
+}));
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import { SessionService } from '../../../src/modules/auth/session.service';
+import { logAudit } from '../../../src/shared/audit';
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+const activeSession = {
+  id: 'session-1',
+  company_id: 'company-1',
+  person_id: 'person-1',
+  refresh_token_hash: sha256('current-token'),
+  previous_token_hash: null,
+  user_agent: null,
+  ip_address: null,
+  expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  last_used_at: new Date(),
+  revoked_at: null,
+  revoked_reason: null,
+  created_at: new Date(),
+};
+
+function createPrisma() {
+  return {
+    session: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    person: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: 'person-1',
+        email: 'jane@example.com',
+        role: 'WORKER',
+        company_id: 'company-1',
+      }),
+    },
+  };
+}
+
+describe('SessionService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: SessionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma = createPrisma();
+    service = new SessionService(prisma as unknown as PrismaClient);
+  });
+
+  it('stores only the hash of the refresh token', async () => {
+    prisma.session.create.mockImplementation(async ({ data }) => ({ id: 'session-1', ...data }));
+
+    const { refreshToken } = await service.create('company-1', 'person-1');
+
+    const stored = prisma.session.create.mock.calls[0]![0].data;
+    expect(stored.refresh_token_hash).toBe(sha256(refreshToken));
+    expect(stored.refresh_token_hash).not.toBe(refreshToken);
+  });
+
+  it('rotates the token and remembers the previous hash', async () => {
+    prisma.session.findUnique.mockResolvedValueOnce(activeSession);
+
+    const result = await service.rotate('current-token');
+
+    expect(result.refreshToken).not.toBe('current-token');
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', refresh_token_hash: sha256('current-token'), revoked_at: null },
+      data: expect.objectContaining({
+        refresh_token_hash: sha256(result.refreshToken),
+        previous_token_hash: sha256('current-token'),
+      }),
+    });
+  });
+
+  it('rejects a revoked session', async () => {
+    prisma.session.findUnique.mockResolvedValueOnce({ ...activeSession, revoked_at: new Date() });
+
+    await expect(service.rotate('current-token')).rejects.toMatchObject({
+      code: 'INVALID_REFRESH_TOKEN',
+    });
+  });
+
+  it('revokes the session when a rotated-out token is replayed', async () => {
+    prisma.session.findUnique
+      .mockResolvedValueOnce(null) // not the current token
+      .mockResolvedValueOnce({
+        id: 'session-1',
+        company_id: 'company-1',
+        person_id: 'person-1',
+        revoked_at: null,
+        last_used_at: new Date(Date.now() - 5 * 60 * 1000),
+      });
+
+    await expect(service.rotate('old-token')).rejects.toMatchObject({
+      code: 'INVALID_REFRESH_TOKEN',
+    });
+    expect(prisma.session.updateMany).toHaveBeenCalledWith({
+      where: { id: 'session-1', revoked_at: null },
+      data: expect.objectContaining({ revoked_reason: 'TOKEN_REUSE' }),
+    });
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'SESSION_REVOKED' }));
+  });
+
+  it('treats a replay within the grace window as a concurrent refresh', async () => {
+    prisma.session.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({
+        id: 'session-1',
+        company_id: 'company-1',
+        person_id: 'person-1',
+        revoked_at: null,
+        last_used_at: new Date(),
+      });
+
+    await expect(service.rotate('old-token')).rejects.toMatchObject({
+      code: 'REFRESH_TOKEN_SUPERSEDED',
+    });
+    expect(prisma.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('keeps the current session when revoking all others', async () => {
+    prisma.session.findMany.mockResolvedValue([{ id: 'session-2' }, { id: 'session-3' }]);
+    prisma.session.updateMany.mockResolvedValue({ count: 2 });
+
+    const count = await service.revokeAllForPerson('company-1', 'person-1', 'PASSWORD_CHANGED', 'session-1');
+
+    expect(count).toBe(2);
+    expect(prisma.session.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ id: { not: 'session-1' } }),
+      })
+    );
+  });
+});
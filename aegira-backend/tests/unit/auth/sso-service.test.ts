@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { SsoService, isPasswordLoginAllowed, getSsoRedirectUri } from '../../../src/modules/auth/sso.service';
+import { sealSecret } from '../../../src/shared/secret-box';
+import { clearOidcCache } from '../../../src/shared/oidc';
+import { startMockOidcProvider, type MockOidcProvider } from '../../../src/scripts/mock-oidc-provider';
+
+vi.mock('../../../src/config/env', () => ({
+  env: {
+    SECRET_ENCRYPTION_KEY: '',
+    JWT_SECRET: 'abcdefghijklmnopqrstuvwxyz0123456789',
+    API_URL: 'https://api.aegira.test/',
+    // The mock provider listens on http://127.0.0.1
+    SSO_ALLOW_LOCAL_PROVIDER: true,
+  },
+}));
+
+const CLIENT_ID = 'aegira-test';
+const CLIENT_SECRET = 'test-secret';
+
+function ssoCompany(issuer: string) {
+  return {
+    is_active: true,
+    sso_enabled: true,
+    sso_issuer: issuer,
+    sso_client_id: CLIENT_ID,
+    sso_client_secret: sealSecret(CLIENT_SECRET),
+  };
+}
+
+function createPrisma(company: ReturnType<typeof ssoCompany>) {
+  return {
+    company: { findUnique: vi.fn().mockResolvedValue(company) },
+    person: {
+      findFirst: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+}
+
+describe('isPasswordLoginAllowed', () => {
+  it('keeps admins on password login as break-glass', () => {
+    expect(isPasswordLoginAllowed({ password_login_enabled: true }, 'WORKER')).toBe(true);
+    expect(isPasswordLoginAllowed({ password_login_enabled: false }, 'WORKER')).toBe(false);
+    expect(isPasswordLoginAllowed({ password_login_enabled: false }, 'ADMIN')).toBe(true);
+  });
+
+  it('builds the callback URL from API_URL', () => {
+    expect(getSsoRedirectUri()).toBe('https://api.aegira.test/api/v1/auth/sso/callback');
+  });
+});
+
+describe('SsoService', () => {
+  let provider: MockOidcProvider;
+  let company: ReturnType<typeof ssoCompany>;
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: SsoService;
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider({ clientId: CLIENT_ID, clientSecret: CLIENT_SECRET, autoApprove: true });
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearOidcCache();
+    company = ssoCompany(provider.issuer);
+    prisma = createPrisma(company);
+    service = new SsoService(prisma as unknown as PrismaClient);
+  });
+
+  /** begin() for the email, then follow the provider redirect to get the code */
+  async function signInAtProvider(email: string) {
+    prisma.person.findFirst.mockResolvedValueOnce({ company_id: 'company-1', company });
+    const { authorizationUrl, state } = await service.begin(email);
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const location = new URL(response.headers.get('location')!);
+    expect(location.searchParams.get('state')).toBe(state.state);
+    return { state, code: location.searchParams.get('code')! };
+  }
+
+  it('refuses to start when the company has no SSO', async () => {
+    prisma.person.findFirst.mockResolvedValueOnce({
+      company_id: 'company-1',
+      company: { ...company, sso_enabled: false },
+    });
+    await expect(service.begin('jane@example.com')).rejects.toMatchObject({ code: 'SSO_NOT_AVAILABLE' });
+
+    prisma.person.findFirst.mockResolvedValueOnce(null);
+    await expect(service.begin('nobody@example.com')).rejects.toMatchObject({ code: 'SSO_NOT_AVAILABLE' });
+  });
+
+  it('matches by email on first login and links the subject', async () => {
+    const { state, code } = await signInAtProvider('jane@example.com');
+    prisma.person.findFirst
+      .mockResolvedValueOnce(null) // no linked subject yet
+      .mockResolvedValueOnce({ id: 'person-1', sso_subject: null });
+
+    const result = await service.complete(state, code);
+
+    expect(result).toEqual({ personId: 'person-1', linked: true });
+    expect(prisma.person.findFirst).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { company_id: 'company-1', email: 'jane@example.com', is_active: true } })
+    );
+    expect(prisma.person.updateMany).toHaveBeenCalledWith({
+      where: { id: 'person-1', sso_subject: null },
+      data: { sso_subject: expect.stringMatching(/^mock\|/) },
+    });
+  });
+
+  it('matches by linked subject afterwards', async () => {
+    const { state, code } = await signInAtProvider('jane@example.com');
+    prisma.person.findFirst.mockResolvedValueOnce({ id: 'person-1' });
+
+    await expect(service.complete(state, code)).resolves.toEqual({ personId: 'person-1', linked: false });
+    expect(prisma.person.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('never creates accounts for unknown people', async () => {
+    const { state, code } = await signInAtProvider('stranger@example.com');
+    prisma.person.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+
+    await expect(service.complete(state, code)).rejects.toMatchObject({ code: 'SSO_NO_ACCOUNT', statusCode: 403 });
+  });
+
+  it('refuses an account already linked to another subject', async () => {
+    const { state, code } = await signInAtProvider('jane@example.com');
+    prisma.person.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'person-1', sso_subject: 'mock|someone-else' });
+
+    await expect(service.complete(state, code)).rejects.toMatchObject({ code: 'SSO_ACCOUNT_MISMATCH' });
+    expect(prisma.person.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('reports provider failures as SSO_PROVIDER_ERROR', async () => {
+    const { state } = await signInAtProvider('jane@example.com');
+
+    await expect(service.complete(state, 'not-a-code')).rejects.toMatchObject({
+      code: 'SSO_PROVIDER_ERROR',
+      statusCode: 502,
+    });
+  });
+
+  it('validates a provider issuer for the settings page', async () => {
+    await expect(service.checkProvider(provider.issuer)).resolves.toBeUndefined();
+    await expect(service.checkProvider('http://127.0.0.1:1')).rejects.toMatchObject({ code: 'SSO_DISCOVERY_FAILED' });
+  });
+});
+
+describe('SsoService with unverified provider emails', () => {
+  let provider: MockOidcProvider;
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider({
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      autoApprove: true,
+      extraClaims: { email_verified: false },
+    });
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  it('does not match on an unverified email', async () => {
+    clearOidcCache();
+    const company = ssoCompany(provider.issuer);
+    const prisma = createPrisma(company);
+    const service = new SsoService(prisma as unknown as PrismaClient);
+    prisma.person.findFirst.mockResolvedValueOnce({ company_id: 'company-1', company });
+    const { authorizationUrl, state } = await service.begin('jane@example.com');
+    const location = new URL((await fetch(authorizationUrl, { redirect: 'manual' })).headers.get('location')!);
+    prisma.person.findFirst.mockResolvedValueOnce(null);
+
+    await expect(service.complete(state, location.searchParams.get('code')!)).rejects.toMatchObject({
+      code: 'SSO_EMAIL_UNVERIFIED',
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotifications: vi.fn(),
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import { CaseService } from '../../../src/modules/case/case.service';
+import { CaseRepository } from '../../../src/modules/case/case.repository';
+import { sendNotifications } from '../../../src/modules/notification/notification.service';
+import { logAudit } from '../../../src/shared/audit';
+
+const COMPANY_ID = 'company-1';
+const CASE_ID = 'case-1';
+const ACTOR_ID = 'whs-lead';
+const OFFICER = { id: 'whs-2', first_name: 'Olive', last_name: 'Reyes' };
+
+function createPrismaMock() {
+  const prisma = {
+    person: { findFirst: vi.fn(), findMany: vi.fn().mockResolvedValue([]) },
+    case: {
+      findFirst: vi.fn(),
+      findMany: vi.fn().mockResolvedValue([]),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    caseAssignment: { create: vi.fn().mockResolvedValue({}) },
+    event: { create: vi.fn().mockResolvedValue({}) },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return prisma;
+}
+
+function caseRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: CASE_ID,
+    case_number: 7,
+    status: 'OPEN',
+    incident_id: 'incident-1',
+    assigned_to: null,
+    ...overrides,
+  };
+}
+
+describe('CaseService assignment', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let service: CaseService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma = createPrismaMock();
+    const client = prisma as unknown as PrismaClient;
+    service = new CaseService(client, new CaseRepository(client, COMPANY_ID), 'UTC');
+
+    prisma.person.findFirst.mockResolvedValue(OFFICER);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('assigns an unassigned case, records history and notifies the assignee', async () => {
+    prisma.case.findFirst
+      .mockResolvedValueOnce(caseRow())
+      .mockResolvedValueOnce({ ...caseRow({ assigned_to: OFFICER.id }), assignee: OFFICER });
+
+    await service.assignCase(CASE_ID, ACTOR_ID, { assigneeId: OFFICER.id });
+
+    expect(prisma.case.updateMany).toHaveBeenCalledWith({
+      where: { id: CASE_ID, company_id: COMPANY_ID, assigned_to: null },
+      data: { assigned_to: OFFICER.id },
+    });
+    expect(prisma.caseAssignment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        case_id: CASE_ID,
+        assignee_id: OFFICER.id,
+        previous_assignee_id: null,
+        assigned_by: ACTOR_ID,
+      }),
+    });
+    expect(prisma.event.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ event_type: 'CASE_ASSIGNED', entity_id: 'incident-1' }),
+    });
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      expect.objectContaining({ personId: OFFICER.id, type: 'CASE_ASSIGNED' }),
+    ]);
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'CASE_ASSIGNED' }));
+  });
+
+  it('refuses to assign a case that already has an owner', async () => {
+    prisma.case.findFirst.mockResolvedValueOnce(caseRow({ assigned_to: 'whs-3' }));
+
+    await expect(
+      service.assignCase(CASE_ID, ACTOR_ID, { assigneeId: OFFICER.id })
+    ).rejects.toMatchObject({ code: 'CASE_ALREADY_ASSIGNED', statusCode: 409 });
+    expect(prisma.case.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('reassigns with a reason and tells the previous owner', async () => {
+    prisma.case.findFirst
+      .mockResolvedValueOnce(caseRow({ status: 'INVESTIGATING', assigned_to: 'whs-3' }))
+      .mockResolvedValueOnce({ ...caseRow({ assigned_to: OFFICER.id }), assignee: OFFICER });
+
+    await service.reassignCase(CASE_ID, ACTOR_ID, { assigneeId: OFFICER.id, reason: 'On leave' });
+
+    expect(prisma.caseAssignment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ previous_assignee_id: 'whs-3', reason: 'On leave' }),
+    });
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      expect.objectContaining({ personId: OFFICER.id }),
+      expect.objectContaining({ personId: 'whs-3', title: 'Case #7 Reassigned' }),
+    ]);
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'CASE_REASSIGNED' }));
+  });
+
+  it('only assigns to active WHS officers', async () => {
+    prisma.person.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.assignCase(CASE_ID, ACTOR_ID, { assigneeId: 'worker-1' })
+    ).rejects.toMatchObject({ code: 'INVALID_ASSIGNEE' });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('does not assign resolved or closed cases', async () => {
+    prisma.case.findFirst.mockResolvedValueOnce(caseRow({ status: 'RESOLVED' }));
+
+    await expect(
+      service.assignCase(CASE_ID, ACTOR_ID, { assigneeId: OFFICER.id })
+    ).rejects.toMatchObject({ code: 'CASE_CLOSED' });
+  });
+
+  it('reports a conflict when the assignment changed concurrently', async () => {
+    prisma.case.findFirst.mockResolvedValueOnce(caseRow());
+    prisma.case.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.assignCase(CASE_ID, ACTOR_ID, { assigneeId: OFFICER.id })
+    ).rejects.toMatchObject({ code: 'CONFLICT', statusCode: 409 });
+  });
+
+  it('groups active cases per officer with case age, unassigned first', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-10T12:00:00Z'));
+
+    prisma.person.findMany.mockResolvedValue([
+      { id: 'whs-3', first_name: 'Ana', last_name: 'Cruz' },
+      OFFICER,
+    ]);
+    prisma.case.findMany.mockResolvedValue([
+      {
+        id: 'c1',
+        case_number: 1,
+        status: 'OPEN',
+        assigned_to: OFFICER.id,
+        created_at: new Date('2026-03-01T09:00:00Z'),
+        incident: { title: 'Slip', severity: 'LOW' },
+      },
+      {
+        id: 'c2',
+        case_number: 2,
+        status: 'INVESTIGATING',
+        assigned_to: OFFICER.id,
+        created_at: new Date('2026-03-09T09:00:00Z'),
+        incident: { title: 'Burn', severity: 'HIGH' },
+      },
+      {
+        id: 'c3',
+        case_number: 3,
+        status: 'OPEN',
+        assigned_to: null,
+        created_at: new Date('2026-03-10T09:00:00Z'),
+        incident: { title: 'Strain', severity: 'MEDIUM' },
+      },
+    ]);
+
+    const workload = await service.getWorkload();
+
+    expect(workload.map((entry) => entry.assigneeId)).toEqual([null, OFFICER.id, 'whs-3']);
+    expect(workload[1]).toMatchObject({ openCount: 1, investigatingCount: 1 });
+    expect(workload[1].cases.map((c) => c.age_days)).toEqual([9, 1]);
+    expect(workload[2].cases).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotifications: vi.fn(),
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import { CaseService } from '../../../src/modules/case/case.service';
+import { CaseRepository } from '../../../src/modules/case/case.repository';
+import { createCaseCommentSchema } from '../../../src/modules/case/case.validator';
+import { sendNotifications } from '../../../src/modules/notification/notification.service';
+import { logAudit } from '../../../src/shared/audit';
+
+const COMPANY_ID = 'company-1';
+const CASE_ID = 'case-1';
+const REPORTER = { userId: uuidFor('reporter-1'), role: 'WORKER' };
+const WHS = { userId: uuidFor('whs-1'), role: 'WHS' };
+const OTHER_WHS_ID = uuidFor('whs-2');
+
+function createPrismaMock() {
+  return {
+    case: { findFirst: vi.fn() },
+    person: { findMany: vi.fn().mockResolvedValue([]) },
+    caseComment: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+    },
+  };
+}
+
+function input(data: Record<string, unknown>) {
+  return createCaseCommentSchema.parse(data);
+}
+
+describe('CaseService comments', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let service: CaseService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma = createPrismaMock();
+    const client = prisma as unknown as PrismaClient;
+    service = new CaseService(client, new CaseRepository(client, COMPANY_ID));
+
+    prisma.case.findFirst.mockResolvedValue({
+      id: CASE_ID,
+      case_number: 12,
+      incident: { reporter_id: REPORTER.userId },
+    });
+    prisma.caseComment.create.mockImplementation(({ data }) =>
+      Promise.resolve({
+        id: 'comment-1',
+        ...data,
+        created_at: new Date(),
+        author: { id: data.author_id, first_name: 'Wanda', last_name: 'Hale', role: 'WHS' },
+      })
+    );
+  });
+
+  it('defaults to an internal comment and audits it', async () => {
+    const comment = await service.addComment(CASE_ID, WHS, input({ body: '  Called the clinic  ' }));
+
+    expect(comment.visibility).toBe('INTERNAL');
+    expect(comment.body).toBe('Called the clinic');
+    expect(logAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'CASE_COMMENT_ADDED', entityType: 'case', entityId: CASE_ID })
+    );
+  });
+
+  it('only shows reporter-visible comments to the reporter', async () => {
+    await service.listComments(CASE_ID, REPORTER);
+
+    expect(prisma.caseComment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { case_id: CASE_ID, visibility: 'REPORTER', company_id: COMPANY_ID },
+      })
+    );
+  });
+
+  it('rejects internal comments from the reporter', async () => {
+    await expect(
+      service.addComment(CASE_ID, REPORTER, input({ body: 'Any update?' }))
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(prisma.caseComment.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects users who are not the reporter or WHS', async () => {
+    await expect(
+      service.listComments(CASE_ID, { userId: 'lead-1', role: 'TEAM_LEAD' })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN', statusCode: 403 });
+  });
+
+  it('notifies mentioned WHS officers, skipping the author', async () => {
+    prisma.person.findMany.mockResolvedValue([{ id: OTHER_WHS_ID, role: 'WHS' }]);
+
+    await service.addComment(
+      CASE_ID,
+      WHS,
+      input({ body: 'Can you follow up?', mentionedPersonIds: [WHS.userId, OTHER_WHS_ID] })
+    );
+
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      expect.objectContaining({ personId: OTHER_WHS_ID, type: 'CASE_COMMENT_MENTION' }),
+    ]);
+  });
+
+  it('does not allow mentioning the reporter on an internal comment', async () => {
+    prisma.person.findMany.mockResolvedValue([{ id: REPORTER.userId, role: 'WORKER' }]);
+
+    await expect(
+      service.addComment(
+        CASE_ID,
+        WHS,
+        input({ body: 'Internal note', mentionedPersonIds: [REPORTER.userId] })
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_MENTION' });
+  });
+
+  it('keeps replies to internal comments internal', async () => {
+    prisma.caseComment.findFirst.mockResolvedValue({
+      id: uuidFor('parent'),
+      parent_id: null,
+      visibility: 'INTERNAL',
+    });
+
+    await expect(
+      service.addComment(
+        CASE_ID,
+        WHS,
+        input({ body: 'Reply', visibility: 'REPORTER', parentId: uuidFor('parent') })
+      )
+    ).rejects.toMatchObject({ code: 'INVALID_VISIBILITY' });
+  });
+
+  it('does not reveal internal comments to a reporter replying to one', async () => {
+    prisma.caseComment.findFirst.mockResolvedValue({
+      id: uuidFor('parent'),
+      parent_id: null,
+      visibility: 'INTERNAL',
+    });
+
+    await expect(
+      service.addComment(
+        CASE_ID,
+        REPORTER,
+        input({ body: 'Reply', visibility: 'REPORTER', parentId: uuidFor('parent') })
+      )
+    ).rejects.toMatchObject({ code: 'NOT_FOUND', statusCode: 404 });
+    expect(prisma.caseComment.create).not.toHaveBeenCalled();
+  });
+});
+
+/** Deterministic UUIDs so inputs pass the validator */
+function uuidFor(label: string): string {
+  const hex = Buffer.from(label).toString('hex').padEnd(32, '0').slice(0, 32);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -16,6 +16,11 @@ vi.mock('../../../src/shared/holiday.utils', () => ({
   checkHolidayForDate: vi.fn(),
 }));
 
+vi.mock('../../../src/shared/scoring.utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/shared/scoring.utils')>()),
+  getActiveScoringModel: vi.fn(),
+}));
+
 vi.mock('../../../src/modules/event/event.service', () => ({
   buildEventData: vi.fn(() => ({
     company_id: 'company-1',
@@ -35,12 +40,28 @@ vi.mock('../../../src/config/logger', () => ({
   logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
 }));
 
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotification: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/alert-rule/alert-rule.service', () => ({
+  evaluateAlertRules: vi.fn(),
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
 import { CheckInService } from '../../../src/modules/check-in/check-in.service';
 import { CheckInRepository } from '../../../src/modules/check-in/check-in.repository';
 import { prisma } from '../../../src/config/database';
 import { checkHolidayForDate } from '../../../src/shared/holiday.utils';
+import { getActiveScoringModel, DEFAULT_SCORING_MODEL } from '../../../src/shared/scoring.utils';
 import { buildEventData, emitEvent } from '../../../src/modules/event/event.service';
 import { AppError } from '../../../src/shared/errors';
+import { sendNotification } from '../../../src/modules/notification/notification.service';
+import { evaluateAlertRules } from '../../../src/modules/alert-rule/alert-rule.service';
+import { logAudit } from '../../../src/shared/audit';
 
 // Freeze time to a Monday morning in Manila
 // 2026-02-23 is a Monday. 08:00 Manila = 00:00 UTC
@@ -70,9 +91,14 @@ const mockPersonWithTeam = {
   work_days: null,
   check_in_start: null,
   check_in_end: null,
+  first_name: 'John',
+  last_name: 'Doe',
+  company: { red_follow_up_ack_minutes: 30 },
   team: {
     id: 'team-1',
     name: 'Alpha Team',
+    leader_id: 'lead-1',
+    supervisor_id: 'supervisor-1',
     check_in_start: '06:00',
     check_in_end: '10:00',
     work_days: '1,2,3,4,5',
@@ -80,9 +106,15 @@ const mockPersonWithTeam = {
   },
 };
 
+/** Approved leave as returned by CheckInRepository.findApprovedLeave (@db.Date values) */
+function approvedLeave(start: string, end: string) {
+  return [{ type: 'SICK', start_date: new Date(`${start}T00:00:00Z`), end_date: new Date(`${end}T00:00:00Z`) }];
+}
+
 describe('CheckInService.submit', () => {
   let service: CheckInService;
   let mockGetPersonWithTeam: ReturnType<typeof vi.fn>;
+  let mockFindApprovedLeave: ReturnType<typeof vi.fn>;
   let mockGetCompanyId: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
@@ -91,10 +123,12 @@ describe('CheckInService.submit', () => {
 
     // Create a mock repository
     mockGetPersonWithTeam = vi.fn().mockResolvedValue(mockPersonWithTeam);
+    mockFindApprovedLeave = vi.fn().mockResolvedValue([]);
     mockGetCompanyId = vi.fn().mockReturnValue(COMPANY_ID);
 
     const mockRepo = {
       getPersonWithTeam: mockGetPersonWithTeam,
+      findApprovedLeave: mockFindApprovedLeave,
       getCompanyId: mockGetCompanyId,
     } as unknown as CheckInRepository;
 
@@ -106,6 +140,12 @@ describe('CheckInService.submit', () => {
       holidayName: null,
     });
 
+    // Default mock: company uses the built-in scoring model
+    vi.mocked(getActiveScoringModel).mockResolvedValue({
+      version: 0,
+      config: DEFAULT_SCORING_MODEL,
+    });
+
     // Mock transaction to execute the callback
     vi.mocked(prisma.$transaction).mockImplementation(async (fn: unknown) => {
       const txMock = {
@@ -137,6 +177,9 @@ describe('CheckInService.submit', () => {
           update: vi.fn(),
           upsert: vi.fn(),
         },
+        readinessFollowUp: {
+          create: vi.fn(async ({ data }) => ({ id: 'follow-up-1', ...data })),
+        },
       };
       return (fn as (tx: typeof txMock) => Promise<unknown>)(txMock);
     });
@@ -155,6 +198,84 @@ describe('CheckInService.submit', () => {
     expect(result.readiness_level).toBe('GREEN');
   });
 
+  it('evaluates alert rules for the worker after the check-in is saved', async () => {
+    await service.submit(validInput, PERSON_ID, COMPANY_ID);
+
+    expect(evaluateAlertRules).toHaveBeenCalledWith(prisma, COMPANY_ID, 'CHECK_IN_SUBMITTED', [PERSON_ID], '2026-02-23');
+  });
+
+  it('scores with the company\'s active model and records its version', async () => {
+    vi.mocked(getActiveScoringModel).mockResolvedValue({
+      version: 3,
+      config: { ...DEFAULT_SCORING_MODEL, thresholds: { green: 90, yellow: 75 } },
+    });
+    const checkInCreate = vi.fn().mockResolvedValue({ id: 'checkin-1' });
+    vi.mocked(prisma.$transaction).mockImplementation(async (fn: unknown) => {
+      const txMock = {
+        event: { create: vi.fn().mockResolvedValue({ id: 'event-1', is_late: false, late_by_minutes: null }) },
+        checkIn: { create: checkInCreate },
+        missedCheckIn: { findFirst: vi.fn(), update: vi.fn(), upsert: vi.fn() },
+        readinessFollowUp: { create: vi.fn(async ({ data }) => ({ id: 'follow-up-1', ...data })) },
+      };
+      return (fn as (tx: typeof txMock) => Promise<unknown>)(txMock);
+    });
+
+    await service.submit(validInput, PERSON_ID, COMPANY_ID);
+
+    expect(getActiveScoringModel).toHaveBeenCalledWith(prisma, COMPANY_ID);
+    // Sleep 90, stress 70, physical 80 → 81: GREEN by default, YELLOW under v3 thresholds
+    expect(checkInCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          readiness_score: 81,
+          readiness_level: 'YELLOW',
+          scoring_model_version: 3,
+        }),
+      })
+    );
+  });
+
+  // ─── Readiness Follow-Up ──────────────────────────────────────────────────
+
+  it('opens a follow-up for a RED check-in and asks the team lead to acknowledge it', async () => {
+    const followUpCreate = vi.fn(async ({ data }) => ({ id: 'follow-up-1', ...data }));
+    vi.mocked(prisma.$transaction).mockImplementation(async (fn: unknown) => {
+      const txMock = {
+        event: { create: vi.fn().mockResolvedValue({ id: 'event-1', is_late: false, late_by_minutes: null }) },
+        checkIn: { create: vi.fn().mockResolvedValue({ id: 'checkin-1' }) },
+        missedCheckIn: { findFirst: vi.fn(), update: vi.fn(), upsert: vi.fn() },
+        readinessFollowUp: { create: followUpCreate },
+      };
+      return (fn as (tx: typeof txMock) => Promise<unknown>)(txMock);
+    });
+    const realNow = vi.spyOn(Date, 'now').mockReturnValue(new Date(FROZEN_UTC).getTime());
+
+    await service.submit(
+      { hoursSlept: 3, sleepQuality: 2, stressLevel: 9, physicalCondition: 2, painLevel: 8 },
+      PERSON_ID,
+      COMPANY_ID
+    );
+    realNow.mockRestore();
+
+    expect(followUpCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        check_in_id: 'checkin-1',
+        team_id: 'team-1',
+        readiness_level: 'RED',
+        acknowledge_by: new Date('2026-02-23T00:30:00.000Z'), // 30 min company setting
+      }),
+    });
+    expect(sendNotification).toHaveBeenCalledWith(
+      prisma,
+      COMPANY_ID,
+      expect.objectContaining({
+        personId: 'lead-1',
+        type: 'READINESS_FOLLOW_UP',
+        message: 'John Doe checked in RED. Acknowledge by 8:30 AM or it escalates to the supervisor.',
+      })
+    );
+  });
+
   it('calls checkHolidayForDate with correct params', async () => {
     await service.submit(validInput, PERSON_ID, COMPANY_ID);
     expect(checkHolidayForDate).toHaveBeenCalledWith(
@@ -184,6 +305,18 @@ describe('CheckInService.submit', () => {
 
   // ─── Holiday Blocking ─────────────────────────────────────────────────────
 
+  it('rejects check-in while on approved leave', async () => {
+    mockFindApprovedLeave.mockResolvedValue(approvedLeave('2026-02-22', '2026-02-24'));
+
+    const error = await service.submit(validInput, PERSON_ID, COMPANY_ID).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).code).toBe('ON_LEAVE');
+    expect((error as AppError).statusCode).toBe(400);
+    expect(mockFindApprovedLeave).toHaveBeenCalledWith(PERSON_ID, new Date('2026-02-23T00:00:00Z'));
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
   it('rejects check-in on a holiday', async () => {
     vi.mocked(checkHolidayForDate).mockResolvedValue({
       isHoliday: true,
@@ -502,6 +635,196 @@ describe('CheckInService.submit', () => {
     ).rejects.toThrow(AppError);
   });
 
+  // ─── Shift Rosters ────────────────────────────────────────────────────────
+
+  it('records a check-in after midnight against last night\'s overnight shift', async () => {
+    // Night shift 22:00-02:00, one night on / one off, anchored on Sunday
+    mockGetPersonWithTeam.mockResolvedValue({
+      ...mockPersonWithTeam,
+      roster_anchor_date: new Date('2026-02-22T00:00:00Z'),
+      shift_pattern: { cycle: [[{ start: '22:00', end: '02:00' }], []] },
+    });
+    const checkInCreate = vi.fn().mockResolvedValue({ id: 'checkin-1' });
+    vi.mocked(prisma.$transaction).mockImplementation(async (fn: unknown) => {
+      const txMock = {
+        event: { create: vi.fn().mockResolvedValue({ id: 'event-1', is_late: false, late_by_minutes: null }) },
+        checkIn: { create: checkInCreate },
+        missedCheckIn: { findFirst: vi.fn(), update: vi.fn(), upsert: vi.fn() },
+      };
+      return (fn as (tx: typeof txMock) => Promise<unknown>)(txMock);
+    });
+
+    // Monday 01:30 Manila = Sunday 17:30 UTC
+    freezeTime('2026-02-22T17:30:00.000Z');
+
+    await service.submit(validInput, PERSON_ID, COMPANY_ID);
+
+    expect(checkHolidayForDate).toHaveBeenCalledWith(prisma, COMPANY_ID, '2026-02-22');
+    expect(buildEventData).toHaveBeenCalledWith(
+      expect.objectContaining({ scheduleWindow: { start: '22:00', end: '02:00' } }),
+    );
+    expect(checkInCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ check_in_date: new Date('2026-02-22T00:00:00Z') }),
+      }),
+    );
+  });
+
+  it('rejects a check-in between split-shift windows', async () => {
+    mockGetPersonWithTeam.mockResolvedValue({
+      ...mockPersonWithTeam,
+      roster_anchor_date: new Date('2026-02-23T00:00:00Z'),
+      shift_pattern: { cycle: [[{ start: '06:00', end: '07:00' }, { start: '14:00', end: '15:00' }]] },
+    });
+
+    // Monday 08:00 Manila
+    const error = await service.submit(validInput, PERSON_ID, COMPANY_ID).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).code).toBe('OUTSIDE_CHECK_IN_WINDOW');
+    expect((error as AppError).message).toBe('Next check-in window opens at 14:00');
+  });
+
+  it('rejects a rest day on the roster', async () => {
+    mockGetPersonWithTeam.mockResolvedValue({
+      ...mockPersonWithTeam,
+      team: {
+        ...mockPersonWithTeam.team,
+        roster_anchor_date: new Date('2026-02-22T00:00:00Z'),
+        shift_pattern: { cycle: [[{ start: '06:00', end: '10:00' }], []] },
+      },
+    });
+
+    // Monday is cycle day 2 (off) even though the weekly schedule includes it
+    const error = await service.submit(validInput, PERSON_ID, COMPANY_ID).catch((e: unknown) => e);
+
+    expect((error as AppError).code).toBe('NOT_WORK_DAY');
+  });
+
+  // ─── Offline Submissions (client-reported event time) ─────────────────────
+
+  it('validates an offline submission against its device time', async () => {
+    // Synced Monday 11:00 Manila; captured on the device Monday 09:30 Manila
+    freezeTime('2026-02-23T03:00:00.000Z');
+
+    await service.submit({ ...validInput, offlineReplay: true, eventTime: '2026-02-23T09:30:00+08:00' }, PERSON_ID, COMPANY_ID);
+
+    expect(buildEventData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        capturedTimeHHmm: '09:30',
+        eventTime: new Date('2026-02-23T01:30:00.000Z'),
+      }),
+    );
+  });
+
+  it('ignores a device time on a live submission', async () => {
+    // Monday 14:00 Manila, after the 10:00 window closed; device claims 09:30
+    freezeTime('2026-02-23T06:00:00.000Z');
+
+    await service.submit({ ...validInput, eventTime: '2026-02-23T09:30:00+08:00' }, PERSON_ID, COMPANY_ID);
+
+    expect(buildEventData).toHaveBeenCalledWith(
+      expect.objectContaining({ capturedTimeHHmm: '14:00', eventTime: undefined }),
+    );
+    expect(logAudit).not.toHaveBeenCalled();
+  });
+
+  it('audits an offline submission received long after its device time', async () => {
+    // Synced Monday 11:00 Manila; captured Monday 09:30 Manila
+    freezeTime('2026-02-23T03:00:00.000Z');
+
+    await service.submit({ ...validInput, offlineReplay: true, eventTime: '2026-02-23T09:30:00+08:00' }, PERSON_ID, COMPANY_ID);
+
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'CHECK_IN_CLIENT_TIME_FLAGGED',
+      entityId: 'checkin-1',
+      details: expect.objectContaining({ offsetMinutes: 90 }),
+    }));
+  });
+
+  it('does not audit an offline submission synced shortly after capture', async () => {
+    // Synced Monday 09:40 Manila; captured Monday 09:30 Manila
+    freezeTime('2026-02-23T01:40:00.000Z');
+
+    await service.submit({ ...validInput, offlineReplay: true, eventTime: '2026-02-23T09:30:00+08:00' }, PERSON_ID, COMPANY_ID);
+
+    expect(logAudit).not.toHaveBeenCalled();
+  });
+
+  it('records an offline submission on the day it was captured', async () => {
+    // Synced Tuesday 01:00 Manila; captured Monday 21:00 Manila
+    freezeTime('2026-02-23T17:00:00.000Z');
+
+    await service.submit({ ...validInput, offlineReplay: true, eventTime: '2026-02-23T13:00:00Z' }, PERSON_ID, COMPANY_ID);
+
+    expect(checkHolidayForDate).toHaveBeenCalledWith(prisma, COMPANY_ID, '2026-02-23');
+  });
+
+  it('rejects an event time too far in the future', async () => {
+    const error = await service
+      .submit({ ...validInput, offlineReplay: true, eventTime: '2026-02-23T00:10:00Z' }, PERSON_ID, COMPANY_ID)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).code).toBe('INVALID_EVENT_TIME');
+  });
+
+  it('rejects an offline submission older than the tolerance', async () => {
+    const error = await service
+      .submit({ ...validInput, offlineReplay: true, eventTime: '2026-02-22T11:00:00Z' }, PERSON_ID, COMPANY_ID)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).code).toBe('EVENT_TIME_EXPIRED');
+  });
+
+  it('resolves a miss recorded before an on-time offline submission synced as late by arrival', async () => {
+    // Synced Monday 10:10 Manila, after the 10:00 window closed and the miss was recorded; device claims 09:50
+    freezeTime('2026-02-23T02:10:00.000Z');
+    const update = vi.fn().mockResolvedValue({});
+    const upsert = vi.fn();
+
+    vi.mocked(prisma.$transaction).mockImplementation(async (fn: unknown) => {
+      const txMock = {
+        event: { create: vi.fn().mockResolvedValue({ id: 'event-1', is_late: false, late_by_minutes: null }) },
+        checkIn: {
+          create: vi.fn().mockResolvedValue({
+            id: 'checkin-1',
+            person_id: PERSON_ID,
+            readiness_level: 'GREEN',
+            person: { id: PERSON_ID, first_name: 'John', last_name: 'Doe', email: 'john@example.com' },
+          }),
+        },
+        missedCheckIn: {
+          findFirst: vi.fn().mockResolvedValue({ id: 'missed-1', person_id: PERSON_ID, resolved_at: null }),
+          update,
+          upsert,
+        },
+      };
+      return (fn as (tx: typeof txMock) => Promise<unknown>)(txMock);
+    });
+
+    await service.submit({ ...validInput, offlineReplay: true, eventTime: '2026-02-23T09:50:00+08:00' }, PERSON_ID, COMPANY_ID);
+
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'missed-1' },
+      data: expect.objectContaining({ resolved_by_check_in_id: 'checkin-1' }),
+    }));
+    expect(upsert).not.toHaveBeenCalled();
+    expect(emitEvent).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({
+        eventType: 'MISSED_CHECK_IN_RESOLVED',
+        payload: expect.objectContaining({ lateByMinutes: 10 }),
+      }),
+    );
+    // Offset is under the flag threshold — the disputed miss alone is audited
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'CHECK_IN_CLIENT_TIME_FLAGGED',
+      details: expect.objectContaining({ offsetMinutes: 20, missedCheckInId: 'missed-1', lateByMinutes: 10 }),
+    }));
+  });
+
   // ─── Parallel Query Execution ─────────────────────────────────────────────
 
   it('runs holiday check and person fetch in parallel', async () => {
@@ -519,6 +842,7 @@ describe('CheckInService.getCheckInStatus', () => {
   let service: CheckInService;
   let mockGetPersonWithTeam: ReturnType<typeof vi.fn>;
   let mockExistsForDate: ReturnType<typeof vi.fn>;
+  let mockFindApprovedLeave: ReturnType<typeof vi.fn>;
   let mockGetCompanyId: ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
@@ -527,11 +851,13 @@ describe('CheckInService.getCheckInStatus', () => {
 
     mockGetPersonWithTeam = vi.fn().mockResolvedValue(mockPersonWithTeam);
     mockExistsForDate = vi.fn().mockResolvedValue(false);
+    mockFindApprovedLeave = vi.fn().mockResolvedValue([]);
     mockGetCompanyId = vi.fn().mockReturnValue(COMPANY_ID);
 
     const mockRepo = {
       getPersonWithTeam: mockGetPersonWithTeam,
       existsForDate: mockExistsForDate,
+      findApprovedLeave: mockFindApprovedLeave,
       getCompanyId: mockGetCompanyId,
     } as unknown as CheckInRepository;
 
@@ -586,6 +912,15 @@ describe('CheckInService.getCheckInStatus', () => {
     expect(status.message).toContain('opens at');
   });
 
+  it('returns canCheckIn=false with the leave type while on approved leave', async () => {
+    mockFindApprovedLeave.mockResolvedValue(approvedLeave('2026-02-23', '2026-02-23'));
+    const status = await service.getCheckInStatus(PERSON_ID);
+    expect(status.canCheckIn).toBe(false);
+    expect(status.isOnLeave).toBe(true);
+    expect(status.leaveType).toBe('SICK');
+    expect(status.message).toContain('approved leave');
+  });
+
   it('returns holiday message on holidays', async () => {
     vi.mocked(checkHolidayForDate).mockResolvedValue({
       isHoliday: true,
@@ -603,6 +938,8 @@ describe('CheckInService.getCheckInStatus', () => {
       checkInStart: '06:00',
       checkInEnd: '10:00',
       workDays: ['1', '2', '3', '4', '5'],
+      windows: [{ start: '06:00', end: '10:00' }],
+      source: 'weekly',
     });
     expect(status.team).toEqual({
       id: 'team-1',
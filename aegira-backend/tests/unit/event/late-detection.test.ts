@@ -99,6 +99,60 @@ describe('late detection via buildEventData', () => {
     expect(result.is_late).toBe(true);
     expect(result.late_by_minutes).toBe(60);
   });
+
+  it('judges lateness from a provided event time, not arrival time', () => {
+    // Synced at 11:00 Manila, captured on the device at 09:45 Manila
+    freezeTime('2026-02-21T03:00:00.000Z');
+    const result = buildEventData({
+      ...baseInput,
+      scheduleWindow: { start: '06:00', end: '10:00' },
+      eventTime: new Date('2026-02-21T01:45:00.000Z'),
+    });
+    expect(result.is_late).toBe(false);
+    expect(result.late_by_minutes).toBeNull();
+  });
+
+  it('flags a provided event time past the window as late', () => {
+    freezeTime('2026-02-21T03:00:00.000Z');
+    const result = buildEventData({
+      ...baseInput,
+      scheduleWindow: { start: '06:00', end: '10:00' },
+      eventTime: new Date('2026-02-21T02:20:00.000Z'), // 10:20 Manila
+    });
+    expect(result.is_late).toBe(true);
+    expect(result.late_by_minutes).toBe(20);
+  });
+
+  it('overnight window: before midnight is on time', () => {
+    // 23:30 Manila = 15:30 UTC
+    freezeTime('2026-02-21T15:30:00.000Z');
+    const result = buildEventData({
+      ...baseInput,
+      scheduleWindow: { start: '22:00', end: '02:00' },
+    });
+    expect(result.is_late).toBe(false);
+  });
+
+  it('overnight window: after midnight within the window is on time', () => {
+    // 01:45 Manila = 17:45 UTC previous day
+    freezeTime('2026-02-21T17:45:00.000Z');
+    const result = buildEventData({
+      ...baseInput,
+      scheduleWindow: { start: '22:00', end: '02:00' },
+    });
+    expect(result.is_late).toBe(false);
+  });
+
+  it('overnight window: late is measured from the end the next morning', () => {
+    // 03:30 Manila = 19:30 UTC previous day
+    freezeTime('2026-02-21T19:30:00.000Z');
+    const result = buildEventData({
+      ...baseInput,
+      scheduleWindow: { start: '22:00', end: '02:00' },
+    });
+    expect(result.is_late).toBe(true);
+    expect(result.late_by_minutes).toBe(90);
+  });
 });
 
 // ─── buildEventData fields ────────────────────────────────────────────────────
@@ -162,4 +216,43 @@ describe('buildEventData fields', () => {
     const eventTime = result.event_time as Date;
     expect(eventTime.getTime()).toBe(new Date('2026-02-21T02:00:00.000Z').getTime());
   });
+
+  it('event_time is the provided event time when given', () => {
+    freezeTime('2026-02-21T03:00:00.000Z');
+    const result = buildEventData({
+      companyId: 'c1',
+      eventType: 'CHECK_IN_SUBMITTED' as const,
+      entityType: 'check_in',
+      payload: {},
+      timezone: 'Asia/Manila',
+      eventTime: new Date('2026-02-21T01:45:00.000Z'),
+    });
+    expect((result.event_time as Date).toISOString()).toBe('2026-02-21T01:45:00.000Z');
+  });
+
+  it('records how far a provided event time is behind arrival', () => {
+    const eventTime = new Date(Date.now() - 90 * 60 * 1000);
+    const result = buildEventData({
+      companyId: 'c1',
+      eventType: 'CHECK_IN_SUBMITTED' as const,
+      entityType: 'check_in',
+      payload: {},
+      timezone: 'Asia/Manila',
+      eventTime,
+    });
+    const ingestedAt = result.ingested_at as Date;
+    expect(result.client_time_offset_seconds).toBe(Math.round((ingestedAt.getTime() - eventTime.getTime()) / 1000));
+    expect(result.client_time_offset_seconds).toBeGreaterThanOrEqual(90 * 60);
+  });
+
+  it('has no client time offset for live events', () => {
+    const result = buildEventData({
+      companyId: 'c1',
+      eventType: 'CHECK_IN_SUBMITTED' as const,
+      entityType: 'check_in',
+      payload: {},
+      timezone: 'Asia/Manila',
+    });
+    expect(result.client_time_offset_seconds).toBeNull();
+  });
 });
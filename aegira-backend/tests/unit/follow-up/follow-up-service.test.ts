@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotification: vi.fn(),
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import {
+  FollowUpService,
+  getFollowUpOwnerId,
+  openReadinessFollowUp,
+} from '../../../src/modules/follow-up/follow-up.service';
+import { resolveFollowUpSchema } from '../../../src/modules/follow-up/follow-up.validator';
+import { sendNotification } from '../../../src/modules/notification/notification.service';
+
+const COMPANY_ID = 'company-1';
+const WORKER_ID = 'worker-1';
+const LEAD_ID = 'lead-1';
+const SUPERVISOR_ID = 'supervisor-1';
+
+const team = { leader_id: LEAD_ID, supervisor_id: SUPERVISOR_ID };
+
+const followUpRelations = {
+  person: { id: WORKER_ID, first_name: 'Jane', last_name: 'Doe' },
+  team: { id: 'team-1', name: 'Alpha' },
+  check_in: { check_in_date: new Date('2026-02-23T00:00:00Z'), readiness_score: 38, created_at: new Date() },
+};
+
+function createTx() {
+  return {
+    readinessFollowUp: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+  };
+}
+
+describe('openReadinessFollowUp', () => {
+  const base = {
+    companyId: COMPANY_ID,
+    checkInId: 'checkin-1',
+    personId: WORKER_ID,
+    teamId: 'team-1',
+    ackMinutes: 15,
+  };
+
+  it('sets an acknowledgement deadline on RED only', async () => {
+    const tx = createTx();
+    vi.spyOn(Date, 'now').mockReturnValue(new Date('2026-02-23T00:00:00Z').getTime());
+
+    await openReadinessFollowUp(tx as never, { ...base, level: 'RED' });
+    await openReadinessFollowUp(tx as never, { ...base, level: 'YELLOW' });
+    vi.mocked(Date.now).mockRestore();
+
+    expect(tx.readinessFollowUp.create.mock.calls[0]![0].data).toMatchObject({
+      readiness_level: 'RED',
+      acknowledge_by: new Date('2026-02-23T00:15:00Z'),
+    });
+    expect(tx.readinessFollowUp.create.mock.calls[1]![0].data).toMatchObject({
+      readiness_level: 'YELLOW',
+      acknowledge_by: null,
+    });
+  });
+
+  it('opens nothing for GREEN', async () => {
+    const tx = createTx();
+    await expect(openReadinessFollowUp(tx as never, { ...base, level: 'GREEN' })).resolves.toBeNull();
+    expect(tx.readinessFollowUp.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('getFollowUpOwnerId', () => {
+  it('routes a team lead\'s own check-in to the supervisor', () => {
+    expect(getFollowUpOwnerId(team, WORKER_ID)).toBe(LEAD_ID);
+    expect(getFollowUpOwnerId(team, LEAD_ID)).toBe(SUPERVISOR_ID);
+    expect(getFollowUpOwnerId({ leader_id: LEAD_ID, supervisor_id: null }, LEAD_ID)).toBeNull();
+  });
+});
+
+describe('FollowUpService', () => {
+  let tx: ReturnType<typeof createTx>;
+  let service: FollowUpService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx = createTx();
+    tx.readinessFollowUp.update.mockImplementation(async ({ data }) => ({
+      id: 'follow-up-1',
+      person_id: WORKER_ID,
+      readiness_level: 'RED',
+      ...data,
+      ...followUpRelations,
+    }));
+
+    const prisma = {
+      $transaction: vi.fn(async (fn: (t: typeof tx) => unknown) => fn(tx)),
+    } as unknown as PrismaClient;
+
+    service = new FollowUpService(prisma);
+  });
+
+  function existing(status: string, personId = WORKER_ID) {
+    tx.readinessFollowUp.findFirst.mockResolvedValue({ id: 'follow-up-1', status, person_id: personId, team });
+  }
+
+  it('acknowledges an open follow-up for the team lead', async () => {
+    existing('OPEN');
+
+    await service.acknowledge('follow-up-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' });
+
+    expect(tx.readinessFollowUp.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'ACKNOWLEDGED', acknowledged_by: LEAD_ID }),
+    }));
+  });
+
+  it('resolves an open follow-up, acknowledging it too, and tells the worker', async () => {
+    existing('OPEN');
+
+    await service.resolve('follow-up-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' }, {
+      outcome: 'SENT_HOME',
+      notes: 'Arranged a ride home',
+    });
+
+    expect(tx.readinessFollowUp.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        status: 'RESOLVED',
+        outcome: 'SENT_HOME',
+        resolved_by: LEAD_ID,
+        acknowledged_by: LEAD_ID,
+      }),
+    }));
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.anything(),
+      COMPANY_ID,
+      expect.objectContaining({
+        personId: WORKER_ID,
+        type: 'READINESS_FOLLOW_UP',
+        message: 'Outcome for your Feb 23 check-in: Sent home. Notes: Arranged a ride home',
+      })
+    );
+  });
+
+  it('keeps the original acknowledgement when resolving an acknowledged follow-up', async () => {
+    existing('ACKNOWLEDGED');
+
+    await service.resolve('follow-up-1', COMPANY_ID, { id: SUPERVISOR_ID, role: 'SUPERVISOR' }, {
+      outcome: 'MODIFIED_DUTY',
+    });
+
+    const { data } = tx.readinessFollowUp.update.mock.calls[0]![0];
+    expect(data).not.toHaveProperty('acknowledged_by');
+    expect(data.notes).toBeNull();
+  });
+
+  it('rejects acting on a resolved follow-up', async () => {
+    existing('RESOLVED');
+
+    await expect(
+      service.acknowledge('follow-up-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' })
+    ).rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+    expect(tx.readinessFollowUp.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects a team lead from another team and a follow-up on your own check-in', async () => {
+    existing('OPEN');
+    await expect(
+      service.acknowledge('follow-up-1', COMPANY_ID, { id: 'other-lead', role: 'TEAM_LEAD' })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN', statusCode: 403 });
+
+    existing('OPEN', LEAD_ID);
+    await expect(
+      service.acknowledge('follow-up-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' })
+    ).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('returns NOT_FOUND for a follow-up in another company', async () => {
+    tx.readinessFollowUp.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.acknowledge('follow-up-1', COMPANY_ID, { id: 'admin-1', role: 'ADMIN' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND', statusCode: 404 });
+  });
+});
+
+describe('resolveFollowUpSchema', () => {
+  it('requires a known outcome', () => {
+    expect(resolveFollowUpSchema.safeParse({ outcome: 'CLEARED' }).success).toBe(true);
+    expect(resolveFollowUpSchema.safeParse({ outcome: 'FIRED' }).success).toBe(false);
+    expect(resolveFollowUpSchema.safeParse({}).success).toBe(false);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Settings } from 'luxon';
+
+// Mock all external dependencies before importing
+vi.mock('../../../src/config/database', () => ({
+  prisma: {
+    company: { findMany: vi.fn() },
+    person: { findMany: vi.fn() },
+    checkIn: { findMany: vi.fn() },
+    notification: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../../src/shared/holiday.utils', () => ({
+  checkHolidayForDate: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotifications: vi.fn(),
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import { sendCheckInReminders } from '../../../src/jobs/check-in-reminder';
+import { prisma } from '../../../src/config/database';
+import { checkHolidayForDate } from '../../../src/shared/holiday.utils';
+import { sendNotifications } from '../../../src/modules/notification/notification.service';
+
+const COMPANY_ID = 'company-1';
+const TIMEZONE = 'Asia/Manila';
+
+// Default: Monday 2026-02-23 at 09:40 Manila (01:40 UTC) — 20 min before the 10:00 close
+function freezeTime(isoUtc = '2026-02-23T01:40:00.000Z'): void {
+  Settings.now = () => new Date(isoUtc).getTime();
+}
+
+// Standard worker (assigned before today, Mon-Fri, team reminds 30 min ahead)
+const defaultWorker = {
+  id: 'worker-1',
+  team_assigned_at: new Date('2026-02-01T00:00:00.000Z'),
+  work_days: null,
+  check_in_start: null,
+  check_in_end: null,
+  team: {
+    work_days: '1,2,3,4,5',
+    check_in_start: '06:00',
+    check_in_end: '10:00',
+    reminder_lead_minutes: 30,
+  },
+};
+
+describe('sendCheckInReminders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    freezeTime();
+
+    vi.mocked(prisma.company.findMany).mockResolvedValue([
+      { id: COMPANY_ID, timezone: TIMEZONE } as never,
+    ]);
+    vi.mocked(checkHolidayForDate).mockResolvedValue({ isHoliday: false, holidayName: null });
+    vi.mocked(prisma.person.findMany).mockResolvedValue([defaultWorker] as never);
+    vi.mocked(prisma.checkIn.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.notification.findMany).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    Settings.now = () => Date.now();
+  });
+
+  it('reminds a worker inside the reminder window', async () => {
+    const counts = await sendCheckInReminders();
+
+    expect(counts[COMPANY_ID]).toBe(1);
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      expect.objectContaining({
+        personId: 'worker-1',
+        type: 'CHECK_IN_REMINDER',
+        message: expect.stringContaining('10:00 AM'),
+      }),
+    ]);
+  });
+
+  it('skips company when today is a holiday', async () => {
+    vi.mocked(checkHolidayForDate).mockResolvedValue({ isHoliday: true, holidayName: 'Founders Day' });
+
+    await sendCheckInReminders();
+
+    expect(prisma.person.findMany).not.toHaveBeenCalled();
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('does not remind before the team lead time', async () => {
+    // 09:20 Manila — 40 min before close, team lead time is 30
+    freezeTime('2026-02-23T01:20:00.000Z');
+
+    await sendCheckInReminders();
+
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('does not remind after the window has closed', async () => {
+    // 10:05 Manila
+    freezeTime('2026-02-23T02:05:00.000Z');
+
+    await sendCheckInReminders();
+
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('uses the worker schedule override for the window end', async () => {
+    vi.mocked(prisma.person.findMany).mockResolvedValue([
+      { ...defaultWorker, check_in_start: '07:00', check_in_end: '11:00' },
+    ] as never);
+
+    await sendCheckInReminders();
+
+    // 09:40 is 80 min before the worker's 11:00 close — outside a 30 min lead
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('excludes workers who already checked in or were already reminded today', async () => {
+    vi.mocked(prisma.person.findMany).mockResolvedValue([
+      defaultWorker,
+      { ...defaultWorker, id: 'worker-2' },
+      { ...defaultWorker, id: 'worker-3' },
+    ] as never);
+    vi.mocked(prisma.checkIn.findMany).mockResolvedValue([{ person_id: 'worker-1' } as never]);
+    vi.mocked(prisma.notification.findMany).mockResolvedValue([{ person_id: 'worker-2' } as never]);
+
+    const counts = await sendCheckInReminders();
+
+    expect(counts[COMPANY_ID]).toBe(1);
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      expect.objectContaining({ personId: 'worker-3' }),
+    ]);
+  });
+
+  it('excludes workers assigned today and workers off today', async () => {
+    vi.mocked(prisma.person.findMany).mockResolvedValue([
+      // Assigned today at 08:00 Manila
+      { ...defaultWorker, team_assigned_at: new Date('2026-02-23T00:00:00.000Z') },
+      // Tue/Thu only — today is Monday
+      { ...defaultWorker, id: 'worker-2', work_days: '2,4' },
+    ] as never);
+
+    await sendCheckInReminders();
+
+    expect(prisma.checkIn.findMany).not.toHaveBeenCalled();
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('continues with other companies when one fails', async () => {
+    vi.mocked(prisma.company.findMany).mockResolvedValue([
+      { id: 'company-a', timezone: TIMEZONE },
+      { id: 'company-b', timezone: TIMEZONE },
+    ] as never);
+    vi.mocked(prisma.person.findMany)
+      .mockRejectedValueOnce(new Error('DB error'))
+      .mockResolvedValueOnce([defaultWorker] as never);
+
+    const counts = await sendCheckInReminders();
+
+    expect(counts['company-a']).toEqual({ error: 'DB error' });
+    expect(counts['company-b']).toBe(1);
+  });
+});
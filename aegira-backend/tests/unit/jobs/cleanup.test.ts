@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {
+    company: { findMany: vi.fn() },
+    notification: { updateMany: vi.fn(), findMany: vi.fn(), deleteMany: vi.fn() },
+    event: { findMany: vi.fn(), updateMany: vi.fn() },
+    auditLog: { findMany: vi.fn(), deleteMany: vi.fn() },
+    session: { deleteMany: vi.fn() },
+    authToken: { deleteMany: vi.fn() },
+    jobRun: { deleteMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import { cleanupCompany, runCleanup } from '../../../src/jobs/cleanup';
+import { prisma } from '../../../src/config/database';
+import { logAudit } from '../../../src/shared/audit';
+
+const COMPANY_ID = 'company-1';
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const basePolicy = {
+  id: COMPANY_ID,
+  notification_archive_days: 30,
+  notification_purge_days: 90,
+  event_payload_retention_days: null,
+  audit_log_retention_days: null,
+};
+
+function ids(count: number, prefix = 'row'): { id: string }[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `${prefix}-${i}` }));
+}
+
+describe('cleanupCompany', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.notification.updateMany).mockResolvedValue({ count: 4 });
+    vi.mocked(prisma.notification.findMany).mockResolvedValue([] as never);
+    vi.mocked(prisma.event.findMany).mockResolvedValue([] as never);
+    vi.mocked(prisma.auditLog.findMany).mockResolvedValue([] as never);
+    vi.mocked(prisma.session.deleteMany).mockResolvedValue({ count: 2 });
+    vi.mocked(prisma.authToken.deleteMany).mockResolvedValue({ count: 1 });
+  });
+
+  it('archives read notifications older than the archive window', async () => {
+    await cleanupCompany(basePolicy, NOW);
+
+    expect(prisma.notification.updateMany).toHaveBeenCalledWith({
+      where: {
+        company_id: COMPANY_ID,
+        archived_at: null,
+        read_at: { lt: new Date(NOW.getTime() - 30 * DAY_MS) },
+      },
+      data: { archived_at: NOW },
+    });
+  });
+
+  it('purges archived notifications in batches until none remain', async () => {
+    vi.mocked(prisma.notification.findMany)
+      .mockResolvedValueOnce(ids(1000, 'a') as never)
+      .mockResolvedValueOnce(ids(250, 'b') as never);
+    vi.mocked(prisma.notification.deleteMany)
+      .mockResolvedValueOnce({ count: 1000 })
+      .mockResolvedValueOnce({ count: 250 });
+
+    const summary = await cleanupCompany(basePolicy, NOW);
+
+    expect(prisma.notification.findMany).toHaveBeenCalledTimes(2);
+    expect(prisma.notification.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          company_id: COMPANY_ID,
+          archived_at: { lt: new Date(NOW.getTime() - 90 * DAY_MS) },
+        },
+      })
+    );
+    expect(summary.notificationsPurged).toBe(1250);
+  });
+
+  it('leaves events and audit logs alone when no retention period is set', async () => {
+    const summary = await cleanupCompany(basePolicy, NOW);
+
+    expect(prisma.event.findMany).not.toHaveBeenCalled();
+    expect(prisma.auditLog.findMany).not.toHaveBeenCalled();
+    expect(summary.eventPayloadsTrimmed).toBe(0);
+    expect(summary.auditLogsPurged).toBe(0);
+  });
+
+  it('trims event payloads and purges audit logs past their retention periods', async () => {
+    vi.mocked(prisma.event.findMany).mockResolvedValueOnce(ids(3, 'evt') as never);
+    vi.mocked(prisma.event.updateMany).mockResolvedValueOnce({ count: 3 });
+    vi.mocked(prisma.auditLog.findMany).mockResolvedValueOnce(ids(5, 'log') as never);
+    vi.mocked(prisma.auditLog.deleteMany).mockResolvedValueOnce({ count: 5 });
+
+    const summary = await cleanupCompany(
+      { ...basePolicy, event_payload_retention_days: 365, audit_log_retention_days: 2555 },
+      NOW
+    );
+
+    expect(prisma.event.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          company_id: COMPANY_ID,
+          created_at: { lt: new Date(NOW.getTime() - 365 * DAY_MS) },
+          payload_trimmed_at: null,
+        },
+      })
+    );
+    expect(prisma.event.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['evt-0', 'evt-1', 'evt-2'] } },
+      data: { payload: {}, payload_trimmed_at: NOW },
+    });
+    expect(summary.eventPayloadsTrimmed).toBe(3);
+    expect(summary.auditLogsPurged).toBe(5);
+  });
+
+  it('writes a summary audit entry as a system action', async () => {
+    await cleanupCompany(basePolicy, NOW);
+
+    expect(logAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        companyId: COMPANY_ID,
+        personId: null,
+        action: 'DATA_RETENTION_CLEANUP',
+        details: expect.objectContaining({
+          notificationsArchived: 4,
+          sessionsPurged: 2,
+          authTokensPurged: 1,
+        }),
+      })
+    );
+  });
+});
+
+describe('runCleanup', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.notification.updateMany).mockResolvedValue({ count: 0 });
+    vi.mocked(prisma.notification.findMany).mockResolvedValue([] as never);
+    vi.mocked(prisma.session.deleteMany).mockResolvedValue({ count: 0 });
+    vi.mocked(prisma.authToken.deleteMany).mockResolvedValue({ count: 0 });
+    vi.mocked(prisma.jobRun.deleteMany).mockResolvedValue({ count: 0 });
+  });
+
+  it('continues with other companies when one fails', async () => {
+    vi.mocked(prisma.company.findMany).mockResolvedValue([
+      { ...basePolicy, id: 'company-a' },
+      { ...basePolicy, id: 'company-b' },
+    ] as never);
+    vi.mocked(prisma.notification.updateMany)
+      .mockRejectedValueOnce(new Error('DB error'))
+      .mockResolvedValueOnce({ count: 0 });
+
+    const counts = await runCleanup();
+
+    expect(logAudit).toHaveBeenCalledTimes(1);
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ companyId: 'company-b' }));
+    expect(counts['company-a']).toEqual({ error: 'DB error' });
+    expect(counts['company-b']).toEqual(expect.objectContaining({ notificationsArchived: 0 }));
+  });
+});
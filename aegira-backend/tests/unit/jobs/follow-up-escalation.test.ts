@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {
+    readinessFollowUp: { findMany: vi.fn(), updateMany: vi.fn() },
+    person: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotification: vi.fn(),
+  sendNotifications: vi.fn(),
+}));
+
+import { escalateFollowUps } from '../../../src/jobs/follow-up-escalation';
+import { prisma } from '../../../src/config/database';
+import { sendNotifications } from '../../../src/modules/notification/notification.service';
+
+const COMPANY_ID = 'company-1';
+
+function overdueFollowUp(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'follow-up-1',
+    company_id: COMPANY_ID,
+    person_id: 'worker-1',
+    acknowledge_by: new Date('2026-02-23T00:30:00Z'), // 8:30 AM Manila
+    person: { first_name: 'Jane', last_name: 'Doe' },
+    team: { name: 'Alpha', leader_id: 'lead-1', supervisor_id: 'supervisor-1' },
+    company: { timezone: 'Asia/Manila' },
+    ...overrides,
+  };
+}
+
+describe('escalateFollowUps', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.readinessFollowUp.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.person.findMany).mockResolvedValue([{ id: 'admin-1' }] as never);
+  });
+
+  it('escalates an overdue RED follow-up to the supervisor once', async () => {
+    vi.mocked(prisma.readinessFollowUp.findMany).mockResolvedValue([overdueFollowUp()] as never);
+
+    const counts = await escalateFollowUps();
+
+    expect(prisma.readinessFollowUp.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ status: 'OPEN', escalated_at: null, acknowledge_by: { lt: expect.any(Date) } }),
+    }));
+    expect(prisma.readinessFollowUp.updateMany).toHaveBeenCalledWith({
+      where: { id: 'follow-up-1', status: 'OPEN', escalated_at: null },
+      data: { escalated_at: expect.any(Date) },
+    });
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      expect.objectContaining({
+        personId: 'supervisor-1',
+        type: 'READINESS_ESCALATED',
+        message: 'Jane Doe (Alpha) checked in RED and it was not acknowledged by 8:30 AM. Please follow up.',
+      }),
+    ]);
+    expect(counts).toEqual({ [COMPANY_ID]: 1 });
+  });
+
+  it('skips a follow-up acknowledged since it was loaded', async () => {
+    vi.mocked(prisma.readinessFollowUp.findMany).mockResolvedValue([overdueFollowUp()] as never);
+    vi.mocked(prisma.readinessFollowUp.updateMany).mockResolvedValue({ count: 0 });
+
+    await expect(escalateFollowUps()).resolves.toEqual({});
+    expect(sendNotifications).not.toHaveBeenCalled();
+  });
+
+  it('goes to the admins when there is no supervisor', async () => {
+    vi.mocked(prisma.readinessFollowUp.findMany).mockResolvedValue([
+      overdueFollowUp({ team: { name: 'Alpha', leader_id: 'lead-1', supervisor_id: null } }),
+    ] as never);
+
+    await escalateFollowUps();
+
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      expect.objectContaining({ personId: 'admin-1' }),
+    ]);
+  });
+
+  it('goes to the admins when the supervisor already owned it (team lead\'s own check-in)', async () => {
+    vi.mocked(prisma.readinessFollowUp.findMany).mockResolvedValue([
+      overdueFollowUp({ person_id: 'lead-1' }),
+    ] as never);
+
+    await escalateFollowUps();
+
+    expect(sendNotifications).toHaveBeenCalledWith(prisma, COMPANY_ID, [
+      expect.objectContaining({ personId: 'admin-1' }),
+    ]);
+  });
+});
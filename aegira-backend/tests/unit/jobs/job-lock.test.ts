@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
+    jobLock: { deleteMany: vi.fn() },
+    jobRun: { create: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import { runWithJobLock, INSTANCE_ID } from '../../../src/jobs/job-lock';
+import { prisma } from '../../../src/config/database';
+
+const TIMING = { leaseMs: 10 * 60 * 1000, tickIntervalMs: 15 * 60 * 1000 };
+
+describe('runWithJobLock', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.jobRun.create).mockResolvedValue({ id: 'run-1' } as never);
+    vi.mocked(prisma.jobRun.update).mockResolvedValue({} as never);
+    vi.mocked(prisma.$executeRaw).mockResolvedValue(1);
+  });
+
+  it('skips the job when another instance holds the lease', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([] as never);
+    const job = vi.fn();
+
+    await runWithJobLock('missed-check-in-detector', TIMING, job);
+
+    expect(job).not.toHaveBeenCalled();
+    expect(prisma.jobRun.create).not.toHaveBeenCalled();
+    expect(prisma.$executeRaw).not.toHaveBeenCalled();
+  });
+
+  it('runs the job, records per-company counts and holds the lease for the rest of the tick', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([{ job_name: 'missed-check-in-detector' }] as never);
+    const job = vi.fn().mockResolvedValue({ 'company-1': 3, 'company-2': 0 });
+
+    await runWithJobLock('missed-check-in-detector', TIMING, job);
+
+    expect(job).toHaveBeenCalledTimes(1);
+    expect(prisma.jobRun.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { job_name: 'missed-check-in-detector', instance_id: INSTANCE_ID },
+      })
+    );
+    expect(prisma.jobRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({
+        status: 'SUCCEEDED',
+        company_counts: { 'company-1': 3, 'company-2': 0 },
+      }),
+    });
+    // Not deleted — a replica firing the same tick late must still find it held
+    expect(prisma.jobLock.deleteMany).not.toHaveBeenCalled();
+    const [sql, ...values] = vi.mocked(prisma.$executeRaw).mock.calls.at(-1)!;
+    expect((sql as unknown as string[]).join('?')).toContain('SET locked_until = acquired_at +');
+    expect(values).toEqual([7.5 * 60 * 1000, 'missed-check-in-detector', INSTANCE_ID]);
+  });
+
+  it('records a failed run, holds the lease and re-throws', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([{ job_name: 'transfer-processor' }] as never);
+    const job = vi.fn().mockRejectedValue(new Error('boom'));
+
+    await expect(runWithJobLock('transfer-processor', TIMING, job)).rejects.toThrow('boom');
+
+    expect(prisma.jobRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({ status: 'FAILED', error: 'boom' }),
+    });
+    expect(prisma.$executeRaw).toHaveBeenCalled();
+  });
+});
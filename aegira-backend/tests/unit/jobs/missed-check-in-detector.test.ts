@@ -8,6 +8,7 @@ vi.mock('../../../src/config/database', () => ({
     team: { findMany: vi.fn() },
     person: { findMany: vi.fn() },
     checkIn: { findMany: vi.fn() },
+    leaveRequest: { findMany: vi.fn() },
     event: { createMany: vi.fn().mockReturnValue({ catch: vi.fn() }) },
   },
 }));
@@ -47,6 +48,10 @@ vi.mock('../../../src/modules/event/event.service', () => ({
   })),
 }));
 
+vi.mock('../../../src/modules/alert-rule/alert-rule.service', () => ({
+  evaluateAlertRules: vi.fn(),
+}));
+
 vi.mock('../../../src/config/logger', () => ({
   logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
 }));
@@ -56,6 +61,7 @@ import { prisma } from '../../../src/config/database';
 import { isHoliday } from '../../../src/shared/holiday.utils';
 import { MissedCheckInRepository } from '../../../src/modules/missed-check-in/missed-check-in.repository';
 import { sendNotifications } from '../../../src/modules/notification/notification.service';
+import { evaluateAlertRules } from '../../../src/modules/alert-rule/alert-rule.service';
 
 const COMPANY_ID = 'company-1';
 const TIMEZONE = 'Asia/Manila';
@@ -114,6 +120,9 @@ describe('detectMissedCheckIns', () => {
     // Default: no check-ins for today
     vi.mocked(prisma.checkIn.findMany).mockResolvedValue([]);
 
+    // Default: nobody on leave yesterday
+    vi.mocked(prisma.leaveRequest.findMany).mockResolvedValue([]);
+
     // Default: no existing missed records
     vi.mocked(MissedCheckInRepository).mockImplementation(() => ({
       findExistingForDate: vi.fn().mockResolvedValue(new Set<string>()),
@@ -221,6 +230,39 @@ describe('detectMissedCheckIns', () => {
     expect(mockCreateMany).not.toHaveBeenCalled();
   });
 
+  // ─── Leave ────────────────────────────────────────────────────────────────
+
+  it('excludes workers on approved leave today', async () => {
+    const onLeaveWorker = {
+      ...defaultWorker,
+      leave_requests: [{
+        type: 'ANNUAL',
+        start_date: new Date('2026-02-20T00:00:00.000Z'),
+        end_date: new Date('2026-02-24T00:00:00.000Z'),
+      }],
+    };
+    vi.mocked(prisma.person.findMany).mockResolvedValue([onLeaveWorker] as never);
+
+    const mockCreateMany = vi.fn().mockResolvedValue(0);
+    vi.mocked(MissedCheckInRepository).mockImplementation(() => ({
+      findExistingForDate: vi.fn().mockResolvedValue(new Set<string>()),
+      createMany: mockCreateMany,
+    }) as never);
+
+    await detectMissedCheckIns();
+
+    expect(mockCreateMany).not.toHaveBeenCalled();
+    // Only approved leave covering today is loaded with the workers
+    expect(vi.mocked(prisma.person.findMany).mock.calls[0]![0]!.select!.leave_requests).toEqual({
+      where: {
+        status: 'APPROVED',
+        start_date: { lte: new Date('2026-02-23T00:00:00.000Z') },
+        end_date: { gte: new Date('2026-02-23T00:00:00.000Z') },
+      },
+      select: { type: true, start_date: true, end_date: true },
+    });
+  });
+
   // ─── Window Buffer ────────────────────────────────────────────────────────
 
   it('does not detect when within buffer period', async () => {
@@ -291,6 +333,85 @@ describe('detectMissedCheckIns', () => {
     expect(mockCreateMany).not.toHaveBeenCalled();
   });
 
+  // ─── Shift Rosters ────────────────────────────────────────────────────────
+
+  // Night shift 22:00-02:00 on Sunday, off on Monday (two-day cycle anchored Sunday)
+  const nightShiftWorker = {
+    ...defaultWorker,
+    roster_anchor_date: new Date('2026-02-22T00:00:00.000Z'),
+    shift_pattern: { cycle: [[{ start: '22:00', end: '02:00' }], []] },
+  };
+
+  it('detects a missed overnight shift against the date it started', async () => {
+    vi.mocked(prisma.person.findMany).mockResolvedValue([nightShiftWorker] as never);
+    const mockCreateMany = vi.fn().mockResolvedValue(1);
+    vi.mocked(MissedCheckInRepository).mockImplementation(() => ({
+      findExistingForDate: vi.fn().mockResolvedValue(new Set<string>()),
+      createMany: mockCreateMany,
+    }) as never);
+
+    await detectMissedCheckIns();
+
+    expect(isHoliday).toHaveBeenCalledWith(prisma, COMPANY_ID, '2026-02-22');
+    expect(mockCreateMany).toHaveBeenCalledTimes(1);
+    expect(mockCreateMany).toHaveBeenCalledWith([
+      expect.objectContaining({
+        personId: 'worker-1',
+        missedDate: new Date('2026-02-22T00:00:00.000Z'),
+        scheduleWindow: '10:00 PM - 2:00 AM',
+      }),
+    ]);
+  });
+
+  it('does not detect an overnight shift before it closes', async () => {
+    // Monday 01:30 Manila — Sunday's night shift is still open
+    freezeTime('2026-02-22T17:30:00.000Z');
+    vi.mocked(prisma.person.findMany).mockResolvedValue([nightShiftWorker] as never);
+    const mockCreateMany = vi.fn().mockResolvedValue(0);
+    vi.mocked(MissedCheckInRepository).mockImplementation(() => ({
+      findExistingForDate: vi.fn().mockResolvedValue(new Set<string>()),
+      createMany: mockCreateMany,
+    }) as never);
+
+    await detectMissedCheckIns();
+
+    expect(mockCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('excludes overnight workers on approved leave for the shift date', async () => {
+    vi.mocked(prisma.person.findMany).mockResolvedValue([nightShiftWorker] as never);
+    vi.mocked(prisma.leaveRequest.findMany).mockResolvedValue([{ person_id: 'worker-1' }] as never);
+    const mockCreateMany = vi.fn().mockResolvedValue(0);
+    vi.mocked(MissedCheckInRepository).mockImplementation(() => ({
+      findExistingForDate: vi.fn().mockResolvedValue(new Set<string>()),
+      createMany: mockCreateMany,
+    }) as never);
+
+    await detectMissedCheckIns();
+
+    expect(mockCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('skips rest days on a team roster', async () => {
+    vi.mocked(prisma.person.findMany).mockResolvedValue([{
+      ...defaultWorker,
+      team: {
+        ...defaultWorker.team,
+        roster_anchor_date: new Date('2026-02-22T00:00:00.000Z'),
+        shift_pattern: { cycle: [[{ start: '06:00', end: '10:00' }], []] },
+      },
+    }] as never);
+    const mockCreateMany = vi.fn().mockResolvedValue(0);
+    vi.mocked(MissedCheckInRepository).mockImplementation(() => ({
+      findExistingForDate: vi.fn().mockResolvedValue(new Set<string>()),
+      createMany: mockCreateMany,
+    }) as never);
+
+    await detectMissedCheckIns();
+
+    expect(mockCreateMany).not.toHaveBeenCalled();
+  });
+
   // ─── Notifications ────────────────────────────────────────────────────────
 
   it('sends notifications to workers and team leads for new misses', async () => {
@@ -315,6 +436,29 @@ describe('detectMissedCheckIns', () => {
     expect(leaderNotif?.type).toBe('MISSED_CHECK_IN');
   });
 
+  it('evaluates alert rules for newly missed workers', async () => {
+    await detectMissedCheckIns();
+
+    expect(evaluateAlertRules).toHaveBeenCalledWith(
+      prisma,
+      COMPANY_ID,
+      'MISSED_CHECK_IN_DETECTED',
+      ['worker-1'],
+      '2026-02-23'
+    );
+  });
+
+  it('does not evaluate alert rules when nothing new was recorded', async () => {
+    vi.mocked(MissedCheckInRepository).mockImplementation(() => ({
+      findExistingForDate: vi.fn().mockResolvedValue(new Set<string>()),
+      createMany: vi.fn().mockResolvedValue(0),
+    }) as never);
+
+    await detectMissedCheckIns();
+
+    expect(evaluateAlertRules).not.toHaveBeenCalled();
+  });
+
   // ─── Multi-Company Isolation ──────────────────────────────────────────────
 
   it('processes each company independently', async () => {
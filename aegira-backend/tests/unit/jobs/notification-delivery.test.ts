@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { sendMail, sendWebPush, isMailConfigured } = vi.hoisted(() => ({
+  sendMail: vi.fn(),
+  sendWebPush: vi.fn(),
+  isMailConfigured: vi.fn(),
+}));
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {
+    notificationDelivery: { findMany: vi.fn(), updateMany: vi.fn() },
+    pushSubscription: { findMany: vi.fn(), deleteMany: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../../src/config/env', () => ({
+  env: {
+    APP_URL: 'https://app.aegira.test',
+    VAPID_PUBLIC_KEY: 'vapid-public',
+    VAPID_PRIVATE_KEY: 'vapid-private',
+    VAPID_SUBJECT: 'mailto:ops@aegira.test',
+  },
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('../../../src/shared/mail', () => ({
+  getMailTransport: () => ({ send: sendMail }),
+  isMailConfigured,
+}));
+
+vi.mock('../../../src/shared/web-push', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/shared/web-push')>()),
+  sendWebPush,
+}));
+
+import { deliverNotifications, MAX_DELIVERY_ATTEMPTS } from '../../../src/jobs/notification-delivery';
+import { prisma } from '../../../src/config/database';
+import { WebPushError } from '../../../src/shared/web-push';
+
+const NOW = new Date('2026-03-09T00:00:00.000Z');
+
+function delivery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'delivery-1',
+    company_id: 'company-1',
+    channel: 'EMAIL',
+    attempts: 0,
+    notification: {
+      id: 'notification-1',
+      type: 'CASE_ASSIGNED',
+      title: 'Case assigned to you',
+      message: 'Case CASE-2026-0004 was assigned to you',
+    },
+    person_id: 'person-1',
+    person: { email: 'ana@example.com', first_name: 'Ana', is_active: true, notification_digest: false },
+    company: { is_active: true },
+    ...overrides,
+  };
+}
+
+describe('deliverNotifications', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    isMailConfigured.mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('emails due deliveries and marks them SENT', async () => {
+    vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([delivery()] as never);
+
+    const counts = await deliverNotifications();
+
+    expect(counts).toEqual({ 'company-1': { sent: 1, failed: 0, skipped: 0 } });
+    expect(prisma.notificationDelivery.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'PENDING', next_attempt_at: { lte: NOW } },
+    }));
+
+    const message = sendMail.mock.calls[0]![0];
+    expect(message.to).toEqual(['ana@example.com']);
+    expect(message.subject).toBe('Case assigned: Case assigned to you');
+    expect(message.text).toContain('Case CASE-2026-0004 was assigned to you');
+    expect(message.text).toContain('/whs/cases');
+
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['delivery-1'] } },
+      data: { status: 'SENT', recipient: 'ana@example.com', attempts: 1, sent_at: NOW, last_error: null },
+    });
+  });
+
+  it('schedules a retry with backoff when sending fails', async () => {
+    vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([delivery({ attempts: 1 })] as never);
+    sendMail.mockRejectedValueOnce(new Error('SMTP 421 try again later'));
+
+    const counts = await deliverNotifications();
+
+    expect(counts).toEqual({ 'company-1': { sent: 0, failed: 0, skipped: 0 } });
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['delivery-1'] } },
+      data: {
+        attempts: 2,
+        last_error: 'SMTP 421 try again later',
+        next_attempt_at: new Date(NOW.getTime() + 5 * 60_000),
+      },
+    });
+  });
+
+  it('skips email deliveries while outbound mail is not configured', async () => {
+    vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([delivery()] as never);
+    isMailConfigured.mockReturnValue(false);
+
+    const counts = await deliverNotifications();
+
+    expect(counts).toEqual({ 'company-1': { sent: 0, failed: 0, skipped: 1 } });
+    expect(sendMail).not.toHaveBeenCalled();
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['delivery-1'] } },
+      data: { status: 'SKIPPED', attempts: 1, last_error: 'Email not configured' },
+    });
+  });
+
+  it('marks the delivery FAILED after the last attempt', async () => {
+    vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue(
+      [delivery({ attempts: MAX_DELIVERY_ATTEMPTS - 1 })] as never
+    );
+    sendMail.mockRejectedValueOnce(new Error('mailbox unavailable'));
+
+    const counts = await deliverNotifications();
+
+    expect(counts).toEqual({ 'company-1': { sent: 0, failed: 1, skipped: 0 } });
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['delivery-1'] } },
+      data: { attempts: MAX_DELIVERY_ATTEMPTS, last_error: 'mailbox unavailable', status: 'FAILED' },
+    });
+  });
+
+  it('skips recipients deactivated since the notification was queued', async () => {
+    vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([
+      delivery({ person: { email: 'ana@example.com', first_name: 'Ana', is_active: false, notification_digest: false } }),
+    ] as never);
+
+    const counts = await deliverNotifications();
+
+    expect(counts).toEqual({ 'company-1': { sent: 0, failed: 0, skipped: 1 } });
+    expect(sendMail).not.toHaveBeenCalled();
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['delivery-1'] } },
+      data: { status: 'SKIPPED', last_error: 'Recipient inactive' },
+    });
+  });
+
+  it('sends due email for a digest recipient as one message', async () => {
+    const digestPerson = { email: 'ana@example.com', first_name: 'Ana', is_active: true, notification_digest: true };
+    vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([
+      delivery({ person: digestPerson }),
+      delivery({
+        id: 'delivery-2',
+        person: digestPerson,
+        notification: { type: 'MISSED_CHECK_IN', title: 'Missed check-in', message: 'You missed Monday' },
+      }),
+    ] as never);
+
+    const counts = await deliverNotifications();
+
+    expect(counts).toEqual({ 'company-1': { sent: 2, failed: 0, skipped: 0 } });
+    expect(sendMail).toHaveBeenCalledTimes(1);
+    const message = sendMail.mock.calls[0]![0];
+    expect(message.subject).toBe('Your AEGIRA daily digest: 2 notifications');
+    expect(message.text).toContain('- Case assigned: Case assigned to you');
+    expect(message.text).toContain('- Missed check-in: Missed check-in');
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['delivery-1', 'delivery-2'] } },
+      data: expect.objectContaining({ status: 'SENT' }),
+    });
+  });
+
+  it('reports counts per company', async () => {
+    vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([
+      delivery(),
+      delivery({ id: 'delivery-2', company_id: 'company-2' }),
+      delivery({ id: 'delivery-3', company_id: 'company-2' }),
+    ] as never);
+
+    const counts = await deliverNotifications();
+
+    expect(counts).toEqual({
+      'company-1': { sent: 1, failed: 0, skipped: 0 },
+      'company-2': { sent: 2, failed: 0, skipped: 0 },
+    });
+  });
+
+  describe('push', () => {
+    const subscription = (id: string, endpoint: string) => ({ id, endpoint, p256dh: 'key', auth: 'secret' });
+
+    it('pushes to every device and prunes subscriptions the push service reports gone', async () => {
+      vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([delivery({ channel: 'PUSH' })] as never);
+      vi.mocked(prisma.pushSubscription.findMany).mockResolvedValue([
+        subscription('sub-phone', 'https://fcm.googleapis.com/fcm/send/abc'),
+        subscription('sub-old', 'https://updates.push.services.mozilla.com/wpush/v2/def'),
+      ] as never);
+      sendWebPush
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new WebPushError('Push service responded 410', 410));
+
+      const counts = await deliverNotifications();
+
+      expect(counts).toEqual({ 'company-1': { sent: 1, failed: 0, skipped: 0 } });
+      expect(JSON.parse(sendWebPush.mock.calls[0]![1] as string)).toEqual({
+        title: 'Case assigned to you',
+        body: 'Case CASE-2026-0004 was assigned to you',
+        url: 'https://app.aegira.test/whs/cases',
+        tag: 'notification-1',
+      });
+      expect(prisma.pushSubscription.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['sub-old'] } } });
+      expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['delivery-1'] } },
+        data: expect.objectContaining({ status: 'SENT', recipient: 'fcm.googleapis.com' }),
+      });
+    });
+
+    it('prunes subscriptions that are not on a known push service without sending to them', async () => {
+      vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([delivery({ channel: 'PUSH' })] as never);
+      vi.mocked(prisma.pushSubscription.findMany).mockResolvedValue([
+        subscription('sub-phone', 'https://fcm.googleapis.com/fcm/send/abc'),
+        subscription('sub-internal', 'https://10.0.0.5/hook'),
+      ] as never);
+      sendWebPush.mockResolvedValueOnce(undefined);
+
+      await deliverNotifications();
+
+      expect(sendWebPush).toHaveBeenCalledTimes(1);
+      expect(prisma.pushSubscription.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['sub-internal'] } } });
+    });
+
+    it('skips the delivery when every subscription has expired', async () => {
+      vi.mocked(prisma.notificationDelivery.findMany).mockResolvedValue([delivery({ channel: 'PUSH' })] as never);
+      vi.mocked(prisma.pushSubscription.findMany).mockResolvedValue([
+        subscription('sub-old', 'https://fcm.googleapis.com/fcm/send/abc'),
+      ] as never);
+      sendWebPush.mockRejectedValueOnce(new WebPushError('Push service responded 404', 404));
+
+      const counts = await deliverNotifications();
+
+      expect(counts).toEqual({ 'company-1': { sent: 0, failed: 0, skipped: 1 } });
+      expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['delivery-1'] } },
+        data: { status: 'SKIPPED', attempts: 1, last_error: 'Push subscriptions expired' },
+      });
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Settings } from 'luxon';
+
+const { sendMail, generate, isMailConfigured } = vi.hoisted(() => ({
+  sendMail: vi.fn(),
+  generate: vi.fn(),
+  isMailConfigured: vi.fn(),
+}));
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {
+    company: { findMany: vi.fn() },
+    reportSubscription: { findMany: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('../../../src/shared/mail', () => ({
+  getMailTransport: () => ({ send: sendMail }),
+  isMailConfigured,
+}));
+
+vi.mock('../../../src/modules/report/report.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/modules/report/report.service')>()),
+  ReportService: vi.fn().mockImplementation(() => ({ generate })),
+}));
+
+import { sendReportDigests } from '../../../src/jobs/report-digest';
+import { getLastCompletedPeriod } from '../../../src/modules/report/report.service';
+import { prisma } from '../../../src/config/database';
+import { DateTime } from 'luxon';
+
+const COMPANY_ID = 'company-1';
+const TIMEZONE = 'Asia/Manila';
+
+// Monday 2026-03-09 08:00 Manila (00:00 UTC)
+function freezeTime(isoUtc = '2026-03-09T00:00:00.000Z'): void {
+  Settings.now = () => new Date(isoUtc).getTime();
+}
+
+function subscription(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub-1',
+    team_id: 'team-1',
+    frequency: 'WEEKLY',
+    recipients: ['ops@example.com'],
+    last_period_end: new Date('2026-03-01T00:00:00.000Z'),
+    team: { name: 'Alpha' },
+    ...overrides,
+  };
+}
+
+function fakeReport(type: string) {
+  return {
+    type,
+    title: type,
+    periodStart: '2026-03-02',
+    periodEnd: '2026-03-08',
+    scope: 'Alpha',
+    generatedAt: '2026-03-09T00:00:00.000Z',
+    summary: [{ label: 'Workers', value: '3' }],
+    columns: [{ key: 'worker', label: 'Worker' }],
+    rows: [],
+  };
+}
+
+describe('getLastCompletedPeriod', () => {
+  it('returns the previous Monday–Sunday week', () => {
+    const now = DateTime.fromISO('2026-03-11T10:00:00', { zone: TIMEZONE });
+    expect(getLastCompletedPeriod('WEEKLY', TIMEZONE, now)).toEqual({ start: '2026-03-02', end: '2026-03-08' });
+  });
+
+  it('returns the previous calendar month', () => {
+    const now = DateTime.fromISO('2026-03-01T07:30:00', { zone: TIMEZONE });
+    expect(getLastCompletedPeriod('MONTHLY', TIMEZONE, now)).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+  });
+
+  it('uses the company timezone to decide the current day', () => {
+    // Sunday 20:00 UTC is already Monday in Manila
+    const now = DateTime.fromISO('2026-03-08T20:00:00Z');
+    expect(getLastCompletedPeriod('WEEKLY', TIMEZONE, now).end).toBe('2026-03-08');
+    expect(getLastCompletedPeriod('WEEKLY', 'UTC', now).end).toBe('2026-03-01');
+  });
+});
+
+describe('sendReportDigests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    freezeTime();
+
+    vi.mocked(prisma.company.findMany).mockResolvedValue([
+      { id: COMPANY_ID, timezone: TIMEZONE } as never,
+    ]);
+    vi.mocked(prisma.reportSubscription.findMany).mockResolvedValue([subscription()] as never);
+    vi.mocked(prisma.reportSubscription.update).mockResolvedValue({} as never);
+    generate.mockImplementation((type: string) => Promise.resolve(fakeReport(type)));
+    sendMail.mockResolvedValue(undefined);
+    isMailConfigured.mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    Settings.now = () => Date.now();
+  });
+
+  it('emails the previous week digest with PDF attachments and records the period', async () => {
+    const result = await sendReportDigests();
+
+    expect(result).toEqual({ [COMPANY_ID]: 1 });
+    expect(generate).toHaveBeenCalledWith('weekly-summary', {
+      from: '2026-03-02',
+      to: '2026-03-08',
+      teamIds: ['team-1'],
+    });
+    expect(generate).toHaveBeenCalledWith('compliance', expect.objectContaining({ from: '2026-03-02' }));
+
+    const message = sendMail.mock.calls[0]![0];
+    expect(message.to).toEqual(['ops@example.com']);
+    expect(message.subject).toContain('Alpha');
+    expect(message.attachments).toHaveLength(2);
+    expect(message.attachments[0].contentType).toBe('application/pdf');
+
+    expect(prisma.reportSubscription.update).toHaveBeenCalledWith({
+      where: { id: 'sub-1' },
+      data: expect.objectContaining({
+        last_period_end: new Date('2026-03-08T00:00:00.000Z'),
+        last_error: null,
+      }),
+    });
+  });
+
+  it('skips subscriptions that already received the period', async () => {
+    vi.mocked(prisma.reportSubscription.findMany).mockResolvedValue([
+      subscription({ last_period_end: new Date('2026-03-08T00:00:00.000Z') }),
+    ] as never);
+
+    const result = await sendReportDigests();
+
+    expect(result).toEqual({ [COMPANY_ID]: 0 });
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('does not send before the local send hour', async () => {
+    freezeTime('2026-03-08T18:00:00.000Z'); // Monday 02:00 Manila
+
+    await sendReportDigests();
+
+    expect(prisma.reportSubscription.findMany).not.toHaveBeenCalled();
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('skips the run while outbound mail is not configured', async () => {
+    isMailConfigured.mockReturnValue(false);
+
+    const result = await sendReportDigests();
+
+    expect(result).toEqual({});
+    expect(prisma.company.findMany).not.toHaveBeenCalled();
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('records the error and keeps the period open when delivery fails', async () => {
+    sendMail.mockRejectedValue(new Error('SMTP RCPT TO failed: 550 mailbox unavailable'));
+
+    const result = await sendReportDigests();
+
+    expect(result).toEqual({ [COMPANY_ID]: 0 });
+    expect(prisma.reportSubscription.update).toHaveBeenCalledWith({
+      where: { id: 'sub-1' },
+      data: { last_error: 'SMTP RCPT TO failed: 550 mailbox unavailable' },
+    });
+  });
+});
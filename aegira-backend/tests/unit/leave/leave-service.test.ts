@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Settings } from 'luxon';
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/modules/notification/notification.service', () => ({
+  sendNotification: vi.fn(),
+}));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import type { PrismaClient } from '@prisma/client';
+import { LeaveService } from '../../../src/modules/leave/leave.service';
+import { createLeaveSchema } from '../../../src/modules/leave/leave.validator';
+import { sendNotification } from '../../../src/modules/notification/notification.service';
+
+const COMPANY_ID = 'company-1';
+const WORKER_ID = 'worker-1';
+const LEAD_ID = 'lead-1';
+const SUPERVISOR_ID = 'supervisor-1';
+
+const leaveRelations = {
+  person: { id: WORKER_ID, first_name: 'Jane', last_name: 'Doe', team: { id: 'team-1', name: 'Alpha' } },
+};
+
+function createTx() {
+  return {
+    leaveRequest: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+  };
+}
+
+// Monday 2026-02-23 09:00 Manila
+function freezeTime(isoUtc = '2026-02-23T01:00:00.000Z'): void {
+  Settings.now = () => new Date(isoUtc).getTime();
+}
+
+describe('LeaveService', () => {
+  let tx: ReturnType<typeof createTx>;
+  let teamFindFirst: ReturnType<typeof vi.fn>;
+  let service: LeaveService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    freezeTime();
+    tx = createTx();
+    teamFindFirst = vi.fn().mockResolvedValue({ leader_id: LEAD_ID, supervisor_id: SUPERVISOR_ID });
+
+    const prisma = {
+      $transaction: vi.fn(async (fn: (t: typeof tx) => unknown) => fn(tx)),
+      team: { findFirst: teamFindFirst },
+    } as unknown as PrismaClient;
+
+    service = new LeaveService(prisma, 'Asia/Manila');
+  });
+
+  afterEach(() => {
+    Settings.now = () => Date.now();
+  });
+
+  describe('createLeave', () => {
+    it('stores the range as calendar dates and notifies the team lead', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue(null);
+      tx.leaveRequest.create.mockImplementation(async ({ data }) => ({ id: 'leave-1', ...data, ...leaveRelations }));
+
+      await service.createLeave(
+        { type: 'SICK', startDate: '2026-02-23', endDate: '2026-02-24' },
+        COMPANY_ID,
+        WORKER_ID
+      );
+      await vi.waitFor(() => expect(sendNotification).toHaveBeenCalled());
+
+      expect(tx.leaveRequest.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          start_date: new Date('2026-02-23T00:00:00.000Z'),
+          end_date: new Date('2026-02-24T00:00:00.000Z'),
+          reason: null,
+        }),
+      }));
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.anything(),
+        COMPANY_ID,
+        expect.objectContaining({
+          personId: LEAD_ID,
+          type: 'LEAVE_SUBMITTED',
+          message: 'Jane Doe requested sick leave for Feb 23, 2026 – Feb 24, 2026.',
+        })
+      );
+    });
+
+    it('routes a team lead\'s own request to the supervisor', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue(null);
+      tx.leaveRequest.create.mockImplementation(async ({ data }) => ({
+        id: 'leave-1',
+        ...data,
+        person: { ...leaveRelations.person, id: LEAD_ID },
+      }));
+
+      await service.createLeave({ type: 'TRAINING', startDate: '2026-03-02', endDate: '2026-03-02' }, COMPANY_ID, LEAD_ID);
+      await vi.waitFor(() => expect(sendNotification).toHaveBeenCalled());
+
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.anything(),
+        COMPANY_ID,
+        expect.objectContaining({ personId: SUPERVISOR_ID, type: 'LEAVE_SUBMITTED' })
+      );
+    });
+
+    it('rejects leave starting before today in the company timezone', async () => {
+      await expect(
+        service.createLeave({ type: 'ANNUAL', startDate: '2026-02-22', endDate: '2026-02-24' }, COMPANY_ID, WORKER_ID)
+      ).rejects.toMatchObject({ code: 'LEAVE_IN_PAST', statusCode: 400 });
+      expect(tx.leaveRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a range overlapping pending or approved leave', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue({ id: 'existing' });
+
+      await expect(
+        service.createLeave({ type: 'ANNUAL', startDate: '2026-02-24', endDate: '2026-02-27' }, COMPANY_ID, WORKER_ID)
+      ).rejects.toMatchObject({ code: 'CONFLICT', statusCode: 409 });
+      expect(tx.leaveRequest.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          status: { in: ['PENDING', 'APPROVED'] },
+          start_date: { lte: new Date('2026-02-27T00:00:00.000Z') },
+          end_date: { gte: new Date('2026-02-24T00:00:00.000Z') },
+        }),
+      }));
+    });
+  });
+
+  describe('review', () => {
+    const pendingLeave = {
+      id: 'leave-1',
+      status: 'PENDING',
+      person_id: WORKER_ID,
+      person: { team: { leader_id: LEAD_ID, supervisor_id: SUPERVISOR_ID } },
+    };
+
+    const updated = (status: string) => ({
+      ...pendingLeave,
+      ...leaveRelations,
+      type: 'ANNUAL',
+      status,
+      start_date: new Date('2026-03-02T00:00:00.000Z'),
+      end_date: new Date('2026-03-06T00:00:00.000Z'),
+    });
+
+    it('approves in scope and notifies the worker', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue(pendingLeave);
+      tx.leaveRequest.update.mockResolvedValue(updated('APPROVED'));
+
+      await service.approveLeave('leave-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' });
+
+      expect(tx.leaveRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'APPROVED', reviewed_by: LEAD_ID }),
+      }));
+      expect(sendNotification).toHaveBeenCalledWith(
+        expect.anything(),
+        COMPANY_ID,
+        expect.objectContaining({ personId: WORKER_ID, type: 'LEAVE_APPROVED' })
+      );
+    });
+
+    it('forbids team leads outside the worker\'s team', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue(pendingLeave);
+
+      await expect(
+        service.approveLeave('leave-1', COMPANY_ID, { id: 'other-lead', role: 'TEAM_LEAD' })
+      ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      expect(tx.leaveRequest.update).not.toHaveBeenCalled();
+    });
+
+    it('does not re-review a decided request', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue({ ...pendingLeave, status: 'REJECTED' });
+
+      await expect(
+        service.approveLeave('leave-1', COMPANY_ID, { id: SUPERVISOR_ID, role: 'SUPERVISOR' })
+      ).rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+    });
+
+    it('rejects with a reason', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue(pendingLeave);
+      tx.leaveRequest.update.mockResolvedValue(updated('REJECTED'));
+
+      await service.rejectLeave('leave-1', COMPANY_ID, { id: LEAD_ID, role: 'TEAM_LEAD' }, { rejectionReason: 'Peak week' });
+
+      expect(tx.leaveRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'REJECTED', rejection_reason: 'Peak week' }),
+      }));
+    });
+  });
+
+  describe('cancelLeave', () => {
+    it('lets the worker withdraw approved leave that has not ended', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue({
+        id: 'leave-1',
+        person_id: WORKER_ID,
+        status: 'APPROVED',
+        start_date: new Date('2026-02-23T00:00:00.000Z'),
+        end_date: new Date('2026-02-23T00:00:00.000Z'),
+      });
+      tx.leaveRequest.update.mockResolvedValue({ id: 'leave-1', type: 'ANNUAL', status: 'CANCELLED', ...leaveRelations });
+
+      await service.cancelLeave('leave-1', COMPANY_ID, WORKER_ID);
+
+      expect(tx.leaveRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { status: 'CANCELLED' },
+      }));
+    });
+
+    it('keeps the days already taken when cancelling leave that is underway', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue({
+        id: 'leave-1',
+        person_id: WORKER_ID,
+        status: 'APPROVED',
+        start_date: new Date('2026-02-19T00:00:00.000Z'),
+        end_date: new Date('2026-02-27T00:00:00.000Z'),
+      });
+      tx.leaveRequest.update.mockResolvedValue({ id: 'leave-1', type: 'ANNUAL', status: 'APPROVED', ...leaveRelations });
+
+      await service.cancelLeave('leave-1', COMPANY_ID, WORKER_ID);
+
+      expect(tx.leaveRequest.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'leave-1' },
+        data: { end_date: new Date('2026-02-22T00:00:00.000Z') },
+      }));
+    });
+
+    it('refuses leave that already ended', async () => {
+      tx.leaveRequest.findFirst.mockResolvedValue({
+        id: 'leave-1',
+        person_id: WORKER_ID,
+        status: 'APPROVED',
+        start_date: new Date('2026-02-16T00:00:00.000Z'),
+        end_date: new Date('2026-02-20T00:00:00.000Z'),
+      });
+
+      await expect(service.cancelLeave('leave-1', COMPANY_ID, WORKER_ID)).rejects.toMatchObject({ code: 'LEAVE_ENDED' });
+    });
+  });
+});
+
+describe('createLeaveSchema', () => {
+  it('rejects an end date before the start date', () => {
+    const result = createLeaveSchema.safeParse({ type: 'ANNUAL', startDate: '2026-03-05', endDate: '2026-03-02' });
+    expect(result.success).toBe(false);
+  });
+
+  it('caps a single request at 90 days', () => {
+    expect(createLeaveSchema.safeParse({ type: 'ANNUAL', startDate: '2026-03-01', endDate: '2026-05-29' }).success).toBe(true);
+    expect(createLeaveSchema.safeParse({ type: 'ANNUAL', startDate: '2026-03-01', endDate: '2026-05-30' }).success).toBe(false);
+  });
+});
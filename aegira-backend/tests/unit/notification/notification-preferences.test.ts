@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getDeliveryTime,
+  resolveOutboundChannels,
+} from '../../../src/modules/notification/notification.preferences';
+import { NotificationRepository } from '../../../src/modules/notification/notification.repository';
+
+const TIMEZONE = 'Asia/Manila'; // UTC+8, no DST
+
+const NO_SETTINGS = { quiet_hours_start: null, quiet_hours_end: null, notification_digest: false };
+
+describe('resolveOutboundChannels', () => {
+  it('uses the type default when nothing is saved or requested', () => {
+    expect(resolveOutboundChannels('CASE_ASSIGNED', undefined, undefined)).toEqual(['EMAIL', 'PUSH']);
+    expect(resolveOutboundChannels('CHECK_IN_REMINDER', undefined, undefined)).toEqual(['PUSH']);
+    expect(resolveOutboundChannels('TEAM_ALERT', undefined, undefined)).toEqual([]);
+  });
+
+  it('uses the channels requested for the notification when nothing is saved', () => {
+    expect(resolveOutboundChannels('INCIDENT_SUBMITTED', undefined, ['EMAIL'])).toEqual(['EMAIL']);
+  });
+
+  it('lets a saved preference win over defaults and requests', () => {
+    const optedOut = { in_app: true, email: false, push: false };
+    const optedIn = { in_app: true, email: true, push: false };
+    const pushOnly = { in_app: true, email: false, push: true };
+
+    expect(resolveOutboundChannels('CASE_ASSIGNED', optedOut, undefined)).toEqual([]);
+    expect(resolveOutboundChannels('INCIDENT_SUBMITTED', optedOut, ['EMAIL'])).toEqual([]);
+    expect(resolveOutboundChannels('TEAM_ALERT', optedIn, undefined)).toEqual(['EMAIL']);
+    expect(resolveOutboundChannels('TEAM_ALERT', pushOnly, undefined)).toEqual(['PUSH']);
+  });
+});
+
+describe('getDeliveryTime', () => {
+  // 2026-03-09 10:00 Manila
+  const MORNING = new Date('2026-03-09T02:00:00.000Z');
+  // 2026-03-09 23:30 Manila
+  const LATE_NIGHT = new Date('2026-03-09T15:30:00.000Z');
+
+  it('is immediate without quiet hours or digest', () => {
+    expect(getDeliveryTime(MORNING, TIMEZONE, 'EMAIL', NO_SETTINGS)).toEqual(MORNING);
+  });
+
+  it('holds deliveries until quiet hours that cross midnight end', () => {
+    const settings = { ...NO_SETTINGS, quiet_hours_start: '22:00', quiet_hours_end: '06:00' };
+
+    expect(getDeliveryTime(LATE_NIGHT, TIMEZONE, 'EMAIL', settings))
+      .toEqual(new Date('2026-03-09T22:00:00.000Z')); // 06:00 Manila next day
+    expect(getDeliveryTime(MORNING, TIMEZONE, 'EMAIL', settings)).toEqual(MORNING);
+  });
+
+  it('holds deliveries until same-day quiet hours end', () => {
+    const settings = { ...NO_SETTINGS, quiet_hours_start: '09:00', quiet_hours_end: '12:00' };
+
+    expect(getDeliveryTime(MORNING, TIMEZONE, 'EMAIL', settings))
+      .toEqual(new Date('2026-03-09T04:00:00.000Z')); // 12:00 Manila
+  });
+
+  it('queues digest email for the next digest hour', () => {
+    const settings = { ...NO_SETTINGS, notification_digest: true };
+
+    // DIGEST_HOUR (07:00) Manila on 2026-03-10
+    expect(getDeliveryTime(MORNING, TIMEZONE, 'EMAIL', settings)).toEqual(new Date('2026-03-09T23:00:00.000Z'));
+  });
+
+  it('moves a digest that falls in quiet hours to their end', () => {
+    const settings = { quiet_hours_start: '22:00', quiet_hours_end: '08:00', notification_digest: true };
+
+    expect(getDeliveryTime(MORNING, TIMEZONE, 'EMAIL', settings)).toEqual(new Date('2026-03-10T00:00:00.000Z'));
+  });
+});
+
+describe('NotificationRepository.createMany', () => {
+  const NOW = new Date('2026-03-09T02:00:00.000Z');
+
+  function mockClient(options: {
+    preferences?: Array<{ person_id: string; type: string; in_app: boolean; email: boolean; push: boolean }>;
+    persons?: Array<Record<string, unknown>>;
+  } = {}) {
+    const tx = {
+      notification: { createMany: vi.fn((args: { data: unknown[] }) => Promise.resolve({ count: args.data.length })) },
+      notificationDelivery: { createMany: vi.fn() },
+    };
+    const client = {
+      company: { findUnique: vi.fn().mockResolvedValue({ timezone: TIMEZONE }) },
+      person: { findMany: vi.fn().mockResolvedValue(options.persons ?? []) },
+      notificationPreference: { findMany: vi.fn().mockResolvedValue(options.preferences ?? []) },
+      $transaction: vi.fn((fn: (t: typeof tx) => unknown) => fn(tx)),
+    };
+    return { client, tx, repo: new NotificationRepository(client as never, 'company-1') };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues deliveries for types with default outbound channels only', async () => {
+    const { tx, repo } = mockClient();
+
+    await repo.createMany([
+      { personId: 'p1', type: 'MISSED_CHECK_IN', title: 'Missed', message: 'You missed a check-in' },
+      { personId: 'p2', type: 'CHECK_IN_REMINDER', title: 'Reminder', message: 'Check in soon' },
+    ]);
+
+    const { data: notifications } = tx.notification.createMany.mock.calls[0]![0] as { data: Array<{ id: string }> };
+    expect(tx.notificationDelivery.createMany).toHaveBeenCalledWith({
+      data: [{
+        company_id: 'company-1',
+        notification_id: notifications[0]!.id,
+        person_id: 'p1',
+        channel: 'EMAIL',
+        next_attempt_at: NOW,
+      }],
+    });
+  });
+
+  it('stores in-app-disabled notifications as read and archived', async () => {
+    const { tx, repo } = mockClient({
+      preferences: [{ person_id: 'p1', type: 'CASE_ASSIGNED', in_app: false, email: true, push: false }],
+    });
+
+    await repo.createMany([{ personId: 'p1', type: 'CASE_ASSIGNED', title: 'Case', message: 'Assigned' }]);
+
+    const { data } = tx.notification.createMany.mock.calls[0]![0] as { data: Array<Record<string, unknown>> };
+    expect(data[0]).toEqual(expect.objectContaining({ read_at: NOW, archived_at: NOW }));
+    expect(tx.notificationDelivery.createMany).toHaveBeenCalled();
+  });
+
+  it('drops notifications the recipient turned off on every channel', async () => {
+    const { client, repo } = mockClient({
+      preferences: [{ person_id: 'p1', type: 'CASE_ASSIGNED', in_app: false, email: false, push: false }],
+    });
+
+    const count = await repo.createMany([{ personId: 'p1', type: 'CASE_ASSIGNED', title: 'Case', message: 'Assigned' }]);
+
+    expect(count).toBe(0);
+    expect(client.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('holds deliveries for the recipient\'s quiet hours', async () => {
+    const { tx, repo } = mockClient({
+      persons: [{
+        id: 'p1',
+        quiet_hours_start: '09:00',
+        quiet_hours_end: '12:00',
+        notification_digest: false,
+        push_subscriptions: [],
+      }],
+    });
+
+    await repo.createMany([{ personId: 'p1', type: 'CASE_ASSIGNED', title: 'Case', message: 'Assigned' }]);
+
+    const { data } = tx.notificationDelivery.createMany.mock.calls[0]![0] as { data: Array<Record<string, unknown>> };
+    expect(data[0]!.next_attempt_at).toEqual(new Date('2026-03-09T04:00:00.000Z'));
+  });
+
+  it('queues push only for recipients with a push subscription', async () => {
+    const { tx, repo } = mockClient({
+      persons: [
+        { id: 'p1', ...NO_SETTINGS, push_subscriptions: [{ id: 'subscription-1' }] },
+        { id: 'p2', ...NO_SETTINGS, push_subscriptions: [] },
+      ],
+    });
+
+    await repo.createMany([
+      { personId: 'p1', type: 'CHECK_IN_REMINDER', title: 'Reminder', message: 'Check in soon' },
+      { personId: 'p2', type: 'CHECK_IN_REMINDER', title: 'Reminder', message: 'Check in soon' },
+    ]);
+
+    const { data } = tx.notificationDelivery.createMany.mock.calls[0]![0] as { data: Array<Record<string, unknown>> };
+    expect(data).toEqual([expect.objectContaining({ person_id: 'p1', channel: 'PUSH' })]);
+  });
+});
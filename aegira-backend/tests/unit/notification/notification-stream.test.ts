@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../src/config/database', () => ({ prisma: {} }));
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import { NotificationStreamHub, type NotificationStreamEvent } from '../../../src/modules/notification/notification.stream';
+
+function notification(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'notification-1',
+    person_id: 'person-1',
+    company_id: 'company-1',
+    type: 'CASE_ASSIGNED',
+    title: 'Case assigned to you',
+    message: 'Case CASE-2026-0004 was assigned to you',
+    read_at: null,
+    archived_at: null,
+    created_at: new Date(Date.now() + 1000),
+    ...overrides,
+  };
+}
+
+describe('NotificationStreamHub', () => {
+  let client: {
+    notification: { findMany: ReturnType<typeof vi.fn>; groupBy: ReturnType<typeof vi.fn> };
+  };
+  let hub: NotificationStreamHub;
+
+  function unread(count: number, personId = 'person-1') {
+    client.notification.groupBy.mockResolvedValueOnce(count > 0 ? [{ person_id: personId, _count: { _all: count } }] : []);
+  }
+
+  beforeEach(() => {
+    client = {
+      notification: {
+        findMany: vi.fn().mockResolvedValue([]),
+        groupBy: vi.fn().mockResolvedValue([]),
+      },
+    };
+    hub = new NotificationStreamHub(client as never, 60_000);
+  });
+
+  it('sends the unread count on subscribe', async () => {
+    const events: NotificationStreamEvent[] = [];
+    unread(3);
+
+    const unsubscribe = hub.subscribe('person-1', (event) => events.push(event));
+    await hub.idle();
+    unsubscribe();
+
+    expect(events).toEqual([{ event: 'unread-count', data: { count: 3 } }]);
+  });
+
+  it('pushes new notifications once and the count only when it changes', async () => {
+    const events: NotificationStreamEvent[] = [];
+    const unsubscribe = hub.subscribe('person-1', (event) => events.push(event));
+    await hub.idle();
+
+    const created = notification();
+    client.notification.findMany.mockResolvedValue([created]);
+    client.notification.groupBy.mockResolvedValue([{ person_id: 'person-1', _count: { _all: 1 } }]);
+    hub.notify(['person-1']);
+    await hub.idle();
+    hub.notify(['person-1']);
+    await hub.idle();
+    unsubscribe();
+
+    expect(events).toEqual([
+      { event: 'unread-count', data: { count: 0 } },
+      { event: 'notification', data: created },
+      { event: 'unread-count', data: { count: 1 } },
+    ]);
+  });
+
+  it('ignores persons without a connection on this process', async () => {
+    hub.notify(['person-2']);
+    await hub.idle();
+
+    expect(client.notification.findMany).not.toHaveBeenCalled();
+  });
+
+  it('stops syncing a person after the last listener unsubscribes', async () => {
+    const listener = vi.fn();
+    const unsubscribe = hub.subscribe('person-1', listener);
+    await hub.idle();
+    unsubscribe();
+    unsubscribe(); // idempotent
+
+    client.notification.findMany.mockClear();
+    hub.notify(['person-1']);
+    await hub.idle();
+
+    expect(client.notification.findMany).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
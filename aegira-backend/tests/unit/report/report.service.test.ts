@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  checkIn: { groupBy: vi.fn() },
+  missedCheckIn: { groupBy: vi.fn() },
+  person: { findMany: vi.fn() },
+  team: { findMany: vi.fn() },
+  incident: { findMany: vi.fn() },
+  case: { findMany: vi.fn() },
+}));
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: prismaMock,
+}));
+
+import { ReportService } from '../../../src/modules/report/report.service';
+import { renderReportCsv, renderReportPdf } from '../../../src/modules/report/report.renderers';
+import { escapeCsvCell } from '../../../src/shared/export';
+
+const COMPANY_ID = 'company-1';
+const TEAM_ID = 'team-1';
+
+const PERSONS = [
+  { id: 'p1', first_name: 'Ana', last_name: 'Cruz', team_id: TEAM_ID, team: { name: 'Alpha' } },
+  { id: 'p2', first_name: 'Ben', last_name: 'Diaz', team_id: TEAM_ID, team: { name: 'Alpha' } },
+];
+
+function mockWorkerActivity() {
+  prismaMock.checkIn.groupBy.mockImplementation(({ by }: { by: string[] }) =>
+    Promise.resolve(
+      by.includes('readiness_level')
+        ? [
+            { person_id: 'p1', readiness_level: 'GREEN', _count: { _all: 3 } },
+            { person_id: 'p1', readiness_level: 'RED', _count: { _all: 1 } },
+          ]
+        : [{ person_id: 'p1', _count: { _all: 4 }, _avg: { readiness_score: 72.5, hours_slept: 6.75 } }]
+    )
+  );
+  prismaMock.missedCheckIn.groupBy.mockImplementation(({ where }: { where: { resolved_at: unknown } }) =>
+    Promise.resolve(
+      where.resolved_at === null
+        ? [{ person_id: 'p2', _count: { _all: 2 }, _max: { missed_date: new Date('2026-03-04T00:00:00Z') } }]
+        : [{ person_id: 'p1', _count: { _all: 1 } }]
+    )
+  );
+  prismaMock.person.findMany.mockImplementation(({ select }: { select: Record<string, unknown> }) =>
+    Promise.resolve(select.first_name ? PERSONS : PERSONS.map((p) => ({ id: p.id })))
+  );
+  prismaMock.team.findMany.mockResolvedValue([{ name: 'Alpha' }]);
+}
+
+describe('ReportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-10T04:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('defaults the weekly summary to the last 7 days in the company timezone', async () => {
+    mockWorkerActivity();
+    const service = new ReportService(COMPANY_ID, 'Asia/Manila');
+
+    const report = await service.generate('weekly-summary', { teamIds: [TEAM_ID] });
+
+    expect(report.periodStart).toBe('2026-03-04');
+    expect(report.periodEnd).toBe('2026-03-10');
+    expect(report.scope).toBe('Alpha');
+
+    const where = prismaMock.checkIn.groupBy.mock.calls[0]![0].where;
+    expect(where.check_in_date.gte).toEqual(new Date('2026-03-04T00:00:00Z'));
+    expect(where.check_in_date.lte).toEqual(new Date('2026-03-10T00:00:00Z'));
+    expect(where.person).toEqual({ team_id: { in: [TEAM_ID] } });
+  });
+
+  it('includes workers with no check-ins and counts late vs missed separately', async () => {
+    mockWorkerActivity();
+    const service = new ReportService(COMPANY_ID, 'UTC');
+
+    const report = await service.generate('weekly-summary', { teamIds: [TEAM_ID] });
+
+    expect(report.rows).toEqual([
+      {
+        worker: 'Ana Cruz',
+        team: 'Alpha',
+        checkIns: 4,
+        avgReadiness: 73,
+        ready: 3,
+        modifiedDuty: 0,
+        notReady: 1,
+        avgSleep: 6.8,
+        missed: 0,
+        late: 1,
+      },
+      {
+        worker: 'Ben Diaz',
+        team: 'Alpha',
+        checkIns: 0,
+        avgReadiness: null,
+        ready: 0,
+        modifiedDuty: 0,
+        notReady: 0,
+        avgSleep: null,
+        missed: 2,
+        late: 0,
+      },
+    ]);
+  });
+
+  it('sorts the compliance report least compliant first', async () => {
+    mockWorkerActivity();
+    const service = new ReportService(COMPANY_ID, 'UTC');
+
+    const report = await service.generate('compliance', { teamIds: [TEAM_ID] });
+
+    expect(report.rows.map((r) => [r.worker, r.compliance, r.lastMissed])).toEqual([
+      ['Ben Diaz', '0%', '2026-03-04'],
+      ['Ana Cruz', '100%', null],
+    ]);
+    expect(report.summary.find((s) => s.label === 'Overall compliance')?.value).toBe('67%');
+  });
+
+  it('does not filter by team for company-wide scope', async () => {
+    prismaMock.incident.findMany.mockResolvedValue([]);
+    const service = new ReportService(COMPANY_ID, 'UTC');
+
+    const report = await service.generate('high-risk-incidents', { teamIds: null });
+
+    const where = prismaMock.incident.findMany.mock.calls[0]![0].where;
+    expect(where.reporter).toBeUndefined();
+    expect(where.severity).toEqual({ in: ['HIGH', 'CRITICAL'] });
+    expect(report.scope).toBe('All teams');
+    expect(report.periodStart).toBe('2025-12-11');
+  });
+
+  it('formats high-risk incidents with reference numbers and case follow-up', async () => {
+    prismaMock.incident.findMany.mockResolvedValue([
+      {
+        incident_number: 12,
+        incident_type: 'PHYSICAL_INJURY',
+        severity: 'CRITICAL',
+        title: 'Fall from ladder',
+        status: 'APPROVED',
+        created_at: new Date('2026-03-02T03:00:00Z'),
+        reporter: { first_name: 'Ana', last_name: 'Cruz', team: { name: 'Alpha' } },
+        incident_case: {
+          case_number: 3,
+          status: 'INVESTIGATING',
+          created_at: new Date('2026-03-02T05:00:00Z'),
+          resolved_at: null,
+          assignee: { first_name: 'Olive', last_name: 'Reyes' },
+        },
+      },
+    ]);
+    prismaMock.team.findMany.mockResolvedValue([{ name: 'Alpha' }]);
+    const service = new ReportService(COMPANY_ID, 'UTC');
+
+    const report = await service.generate('high-risk-incidents', { teamIds: [TEAM_ID] });
+
+    expect(report.rows[0]).toMatchObject({
+      incident: 'INC-2026-0012',
+      reported: '2026-03-02',
+      type: 'Physical Injury',
+      severity: 'Critical',
+      case: 'CASE-2026-0003',
+      caseStatus: 'Investigating',
+      assignee: 'Olive Reyes',
+      resolved: null,
+    });
+    expect(report.summary.find((s) => s.label === 'Cases still open')?.value).toBe('1');
+  });
+
+  it('rejects ranges longer than a year', async () => {
+    const service = new ReportService(COMPANY_ID, 'UTC');
+
+    await expect(
+      service.generate('monthly', { from: '2024-01-01', to: '2026-01-01', teamIds: null })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR', statusCode: 400 });
+  });
+});
+
+describe('report renderers', () => {
+  const report = {
+    type: 'compliance' as const,
+    title: 'Compliance Report',
+    periodStart: '2026-03-01',
+    periodEnd: '2026-03-10',
+    scope: 'Alpha',
+    generatedAt: '2026-03-10T04:00:00.000Z',
+    summary: [{ label: 'Workers', value: '1' }],
+    columns: [
+      { key: 'worker', label: 'Worker' },
+      { key: 'missed', label: 'Missed', align: 'right' as const },
+    ],
+    rows: [{ worker: 'Cruz, "Ana"', missed: 2 }],
+  };
+
+  it('escapes CSV fields and neutralises formulas', () => {
+    expect(escapeCsvCell('plain')).toBe('plain');
+    expect(escapeCsvCell('a,b')).toBe('"a,b"');
+    expect(escapeCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsvCell(-3)).toBe('-3');
+    expect(escapeCsvCell(null)).toBe('');
+
+    expect(renderReportCsv(report)).toBe('\uFEFFWorker,Missed\r\n"Cruz, ""Ana""",2\r\n');
+  });
+
+  it('renders a PDF document', () => {
+    const pdf = Buffer.from(renderReportPdf(report)).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(Compliance Report) Tj');
+    expect(pdf).toContain('(Cruz, "Ana") Tj');
+  });
+});
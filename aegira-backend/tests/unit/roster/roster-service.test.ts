@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+vi.mock('../../../src/config/database', () => ({
+  prisma: {},
+}));
+
+vi.mock('../../../src/shared/audit', () => ({
+  logAudit: vi.fn(),
+}));
+
+vi.mock('../../../src/shared/holiday.utils', () => ({
+  buildHolidayDateSet: vi.fn().mockResolvedValue(new Set<string>()),
+}));
+
+import { RosterService } from '../../../src/modules/roster/roster.service';
+import type { RosterRepository } from '../../../src/modules/roster/roster.repository';
+import { assignRosterSchema, createShiftPatternSchema } from '../../../src/modules/roster/roster.validator';
+import { buildHolidayDateSet } from '../../../src/shared/holiday.utils';
+import { logAudit } from '../../../src/shared/audit';
+import { AppError } from '../../../src/shared/errors';
+
+const COMPANY_ID = 'company-1';
+const ADMIN_ID = 'admin-1';
+const PATTERN_ID = '3f0e7a52-8a0e-4d9b-9a51-2d4f3c1b6e11';
+
+const nightCycle = [[{ start: '22:00', end: '02:00' }], [{ start: '22:00', end: '02:00' }], [], []];
+
+const pattern = {
+  id: PATTERN_ID,
+  company_id: COMPANY_ID,
+  name: 'Nights 2-on 2-off',
+  description: null,
+  cycle: nightCycle,
+  created_at: new Date(),
+  updated_at: new Date(),
+  teams: [],
+  persons: [],
+};
+
+function createRepository() {
+  return {
+    getCompanyId: vi.fn().mockReturnValue(COMPANY_ID),
+    findById: vi.fn().mockResolvedValue(pattern),
+    create: vi.fn().mockResolvedValue(pattern),
+    update: vi.fn().mockResolvedValue(pattern),
+    delete: vi.fn().mockResolvedValue(undefined),
+    countAssignments: vi.fn().mockResolvedValue(0),
+    findTeam: vi.fn().mockResolvedValue({ id: 'team-1', name: 'Alpha', shift_pattern_id: null, roster_anchor_date: null }),
+    findPerson: vi.fn().mockResolvedValue({ id: 'worker-1', role: 'WORKER', shift_pattern_id: null }),
+    assignTeam: vi.fn().mockResolvedValue(undefined),
+    assignPerson: vi.fn().mockResolvedValue(undefined),
+    findPersonSchedule: vi.fn(),
+  };
+}
+
+describe('RosterService', () => {
+  let repository: ReturnType<typeof createRepository>;
+  let service: RosterService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = createRepository();
+    service = new RosterService(repository as unknown as RosterRepository, 'Asia/Manila');
+  });
+
+  it('maps a duplicate pattern name to a 409', async () => {
+    repository.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.22.0' })
+    );
+
+    const error = await service
+      .createPattern({ name: pattern.name, cycle: nightCycle }, ADMIN_ID)
+      .catch((e: unknown) => e);
+
+    expect((error as AppError).code).toBe('DUPLICATE_PATTERN');
+    expect((error as AppError).statusCode).toBe(409);
+  });
+
+  it('refuses to delete a pattern that is still assigned', async () => {
+    repository.countAssignments.mockResolvedValue(2);
+
+    const error = await service.deletePattern(PATTERN_ID, ADMIN_ID).catch((e: unknown) => e);
+
+    expect((error as AppError).code).toBe('PATTERN_IN_USE');
+    expect(repository.delete).not.toHaveBeenCalled();
+  });
+
+  it('stores the anchor as a calendar date and audits the assignment', async () => {
+    await service.assignToTeam('team-1', { shiftPatternId: PATTERN_ID, anchorDate: '2026-03-02' }, ADMIN_ID);
+
+    expect(repository.assignTeam).toHaveBeenCalledWith('team-1', PATTERN_ID, new Date('2026-03-02T00:00:00Z'));
+    expect(logAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'ASSIGN_ROSTER', entityId: 'team-1' }));
+  });
+
+  it('clears a roster along with its anchor', async () => {
+    await service.assignToPerson('worker-1', { shiftPatternId: null }, ADMIN_ID);
+
+    expect(repository.findById).not.toHaveBeenCalled();
+    expect(repository.assignPerson).toHaveBeenCalledWith('worker-1', null, null);
+  });
+
+  it('only puts roles with a check-in schedule on a roster', async () => {
+    repository.findPerson.mockResolvedValue({ id: 'sup-1', role: 'SUPERVISOR', shift_pattern_id: null });
+
+    const error = await service
+      .assignToPerson('sup-1', { shiftPatternId: PATTERN_ID, anchorDate: '2026-03-02' }, ADMIN_ID)
+      .catch((e: unknown) => e);
+
+    expect((error as AppError).code).toBe('INVALID_ROLE');
+  });
+
+  it('previews a rostered worker day by day with leave and holidays', async () => {
+    repository.findPersonSchedule.mockResolvedValue({
+      id: 'worker-1',
+      work_days: null,
+      check_in_start: null,
+      check_in_end: null,
+      roster_anchor_date: new Date('2026-03-02T00:00:00Z'),
+      shift_pattern: { cycle: nightCycle },
+      leave_requests: [
+        { type: 'SICK', start_date: new Date('2026-03-03T00:00:00Z'), end_date: new Date('2026-03-03T00:00:00Z') },
+      ],
+      team: { id: 'team-1', name: 'Alpha', work_days: '1,2,3,4,5', check_in_start: '06:00', check_in_end: '10:00', roster_anchor_date: null, shift_pattern: null },
+    });
+    vi.mocked(buildHolidayDateSet).mockResolvedValue(new Set(['2026-03-06']));
+
+    const days = await service.getSchedulePreview('worker-1', '2026-03-02', '2026-03-06');
+
+    expect(days.map((d) => [d.date, d.isWorkDay])).toEqual([
+      ['2026-03-02', true],
+      ['2026-03-03', false], // sick
+      ['2026-03-04', false], // off
+      ['2026-03-05', false], // off
+      ['2026-03-06', false], // night shift, but a holiday
+    ]);
+    expect(days[1]).toMatchObject({ leaveType: 'SICK', windows: nightCycle[1], source: 'roster' });
+    expect(days[4]).toMatchObject({ isHoliday: true, windows: nightCycle[0] });
+  });
+});
+
+describe('roster validation', () => {
+  it('accepts overnight and split-shift cycles', () => {
+    const result = createShiftPatternSchema.safeParse({
+      name: 'Rotating',
+      cycle: [
+        [{ start: '06:00', end: '08:00' }, { start: '14:00', end: '16:00' }],
+        [{ start: '22:00', end: '02:00' }],
+        [],
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects overlapping windows and windows after an overnight one', () => {
+    expect(createShiftPatternSchema.safeParse({
+      name: 'Overlap',
+      cycle: [[{ start: '06:00', end: '10:00' }, { start: '09:00', end: '12:00' }]],
+    }).success).toBe(false);
+
+    expect(createShiftPatternSchema.safeParse({
+      name: 'Late first',
+      cycle: [[{ start: '22:00', end: '02:00' }, { start: '23:00', end: '23:30' }]],
+    }).success).toBe(false);
+  });
+
+  it('rejects an overnight window running into the next day\'s first window', () => {
+    expect(createShiftPatternSchema.safeParse({
+      name: 'Clash',
+      cycle: [[{ start: '22:00', end: '07:00' }], [{ start: '06:00', end: '10:00' }]],
+    }).success).toBe(false);
+  });
+
+  it('rejects a cycle with no working days', () => {
+    expect(createShiftPatternSchema.safeParse({ name: 'Empty', cycle: [[], []] }).success).toBe(false);
+  });
+
+  it('requires an anchor date when assigning a pattern', () => {
+    expect(assignRosterSchema.safeParse({ shiftPatternId: PATTERN_ID }).success).toBe(false);
+    expect(assignRosterSchema.safeParse({ shiftPatternId: null }).success).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { Hono } from 'hono';
+
+vi.mock('../../../src/config/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn() },
+}));
+
+import {
+  iterateInBatches,
+  renderCsvStream,
+  renderXlsxStream,
+  streamExport,
+  type ExportColumn,
+} from '../../../src/shared/export';
+import { crc32, zipEntries } from '../../../src/shared/zip';
+
+interface Row {
+  id: string;
+  name: string;
+  score: number | null;
+}
+
+const COLUMNS: ExportColumn<Row>[] = [
+  { label: 'Name', value: (r) => r.name },
+  { label: 'Score', value: (r) => r.score },
+];
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const chunk of chunks) parts.push(Buffer.from(chunk));
+  return Buffer.concat(parts);
+}
+
+async function* rowsOf(rows: Row[]): AsyncGenerator<Row> {
+  yield* rows;
+}
+
+async function* rowsOfChunks(parts: string[]): AsyncGenerator<Uint8Array> {
+  for (const part of parts) yield Buffer.from(part);
+}
+
+/** Reads a ZIP via its central directory and returns each entry's inflated content */
+function unzip(archive: Buffer): Map<string, string> {
+  const entries = new Map<string, string>();
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(data.length).toBe(size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.set(name, data.toString('utf8'));
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('iterateInBatches', () => {
+  it('pages with the last id as cursor until a short batch', async () => {
+    const all = Array.from({ length: 5 }, (_, i) => ({ id: `id-${i}` }));
+    const fetchBatch = vi.fn((cursor: string | undefined, take: number) => {
+      const start = cursor ? all.findIndex((r) => r.id === cursor) + 1 : 0;
+      return Promise.resolve(all.slice(start, start + take));
+    });
+
+    const seen: string[] = [];
+    for await (const row of iterateInBatches(fetchBatch, 2)) seen.push(row.id);
+
+    expect(seen).toEqual(all.map((r) => r.id));
+    expect(fetchBatch.mock.calls).toEqual([
+      [undefined, 2],
+      ['id-1', 2],
+      ['id-3', 2],
+    ]);
+  });
+});
+
+describe('renderCsvStream', () => {
+  it('writes a BOM, header and escaped rows', async () => {
+    const csv = (await collect(renderCsvStream(COLUMNS, rowsOf([
+      { id: '1', name: 'Cruz, Ana', score: 82 },
+      { id: '2', name: '=cmd()', score: null },
+    ])))).toString('utf8');
+
+    expect(csv).toBe('\uFEFFName,Score\r\n"Cruz, Ana",82\r\n\'=cmd(),\r\n');
+  });
+});
+
+describe('zipEntries', () => {
+  it('produces an archive whose entries round-trip', async () => {
+    const big = 'x'.repeat(200_000);
+    const archive = await collect(zipEntries([
+      { name: 'a.txt', data: [Buffer.from('hello')] },
+      { name: 'dir/ñ.txt', data: rowsOfChunks([big, 'tail']) },
+    ]));
+
+    const entries = unzip(archive);
+    expect(entries.get('a.txt')).toBe('hello');
+    expect(entries.get('dir/ñ.txt')).toBe(`${big}tail`);
+  });
+
+  it('surfaces errors from entry data', async () => {
+    async function* failing(): AsyncGenerator<Uint8Array> {
+      yield Buffer.from('partial');
+      throw new Error('database went away');
+    }
+
+    await expect(collect(zipEntries([{ name: 'a.txt', data: failing() }]))).rejects.toThrow('database went away');
+  });
+});
+
+describe('renderXlsxStream', () => {
+  it('builds a workbook with a bold header row and typed cells', async () => {
+    const archive = await collect(renderXlsxStream(COLUMNS, rowsOf([
+      { id: '1', name: 'Ana <Lead> & "Co"', score: 82 },
+      { id: '2', name: 'Ben\u0007', score: null },
+    ]), 'Check-ins'));
+
+    const entries = unzip(archive);
+    expect([...entries.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Check-ins"');
+
+    const sheet = entries.get('xl/worksheets/sheet1.xml')!;
+    expect(sheet).toContain('<c s="1" t="inlineStr"><is><t xml:space="preserve">Name</t></is></c>');
+    expect(sheet).toContain('Ana &lt;Lead&gt; &amp; &quot;Co&quot;');
+    expect(sheet).toContain('<c><v>82</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">Ben</t></is></c><c/>');
+  });
+});
+
+describe('streamExport', () => {
+  function app(rows: AsyncIterable<Row>, format: 'csv' | 'xlsx' = 'csv') {
+    const hono = new Hono();
+    hono.get('/export', (c) =>
+      streamExport(c, { format, fileName: 'people_2026-03-09', title: 'People', columns: COLUMNS, rows })
+    );
+    return hono;
+  }
+
+  it('responds with a download', async () => {
+    const res = await app(rowsOf([{ id: '1', name: 'Ana', score: 1 }]), 'xlsx').request('/export');
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="people_2026-03-09.xlsx"');
+    expect(unzip(Buffer.from(await res.arrayBuffer())).get('xl/worksheets/sheet1.xml')).toContain('Ana');
+  });
+
+  it('aborts the body when reading rows fails mid-stream', async () => {
+    async function* failing(): AsyncGenerator<Row> {
+      yield { id: '1', name: 'Ana', score: 1 };
+      throw new Error('connection reset');
+    }
+
+    const res = await app(failing()).request('/export');
+
+    expect(res.status).toBe(200);
+    await expect(res.text()).rejects.toThrow('connection reset');
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+
+vi.mock('../../../src/config/env', () => ({
+  env: {},
+}));
+
+import {
+  buildMimeMessage,
+  extractAddress,
+  CaptureMailTransport,
+  FileMailTransport,
+  SmtpMailTransport,
+  getMailTransport,
+  isMailConfigured,
+  setMailTransport,
+} from '../../../src/shared/mail';
+import { env } from '../../../src/config/env';
+
+const FROM = 'AEGIRA <no-reply@aegira.test>';
+
+const MESSAGE = {
+  to: ['ops@example.com', 'Lead <lead@example.com>'],
+  subject: 'Weekly digest: Team Ñ',
+  text: 'Hello\n.leading dot line',
+  attachments: [{ filename: 'report.pdf', contentType: 'application/pdf', content: '%PDF-1.4' }],
+};
+
+/**
+ * Minimal SMTP server: records commands and the DATA payload.
+ * No STARTTLS, so the client stays on the plain connection.
+ */
+function startFakeSmtpServer(options: { authRequired?: boolean; rejectRcpt?: string } = {}) {
+  const commands: string[] = [];
+  let data = '';
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 fake.smtp ESMTP\r\n');
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write('250 queued\r\n');
+      }
+
+      let index: number;
+      while (!inData && (index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        commands.push(line);
+
+        if (line.startsWith('EHLO')) {
+          socket.write(`250-fake.smtp\r\n250-SIZE 1000000\r\n250 ${options.authRequired ? 'AUTH PLAIN' : 'OK'}\r\n`);
+        } else if (line.startsWith('AUTH PLAIN')) {
+          socket.write('235 authenticated\r\n');
+        } else if (line.startsWith('RCPT TO') && options.rejectRcpt && line.includes(options.rejectRcpt)) {
+          socket.write('550 mailbox unavailable\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ port: number; commands: string[]; getData: () => string; close: () => void }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as net.AddressInfo).port,
+        commands,
+        getData: () => data,
+        close: () => server.close(),
+      });
+    });
+  });
+}
+
+describe('buildMimeMessage', () => {
+  it('builds a multipart message with encoded subject and base64 parts', () => {
+    const raw = buildMimeMessage(FROM, MESSAGE);
+
+    expect(raw).toContain('From: AEGIRA <no-reply@aegira.test>');
+    expect(raw).toContain('To: ops@example.com, Lead <lead@example.com>');
+    expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from(MESSAGE.subject).toString('base64')}?=`);
+    expect(raw).toContain('Content-Disposition: attachment; filename="report.pdf"');
+    expect(raw).toContain(Buffer.from('%PDF-1.4').toString('base64'));
+    expect(raw).toMatch(/Message-ID: <[^>]+@aegira\.test>/);
+  });
+
+  it('rejects header injection', () => {
+    expect(() => buildMimeMessage(FROM, { ...MESSAGE, subject: 'Hi\r\nBcc: x@evil.test' })).toThrow();
+  });
+
+  it('extracts bare addresses', () => {
+    expect(extractAddress('Lead <lead@example.com>')).toBe('lead@example.com');
+    expect(extractAddress(' ops@example.com ')).toBe('ops@example.com');
+  });
+});
+
+describe('FileMailTransport', () => {
+  let dir: string;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes each message as an .eml file', async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'aegira-mail-'));
+    await new FileMailTransport(dir, FROM).send(MESSAGE);
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+    expect(await readFile(path.join(dir, files[0]!), 'utf8')).toContain('Content-Type: multipart/mixed');
+  });
+});
+
+describe('CaptureMailTransport', () => {
+  afterEach(() => {
+    setMailTransport(null);
+  });
+
+  it('keeps messages in memory until cleared', async () => {
+    const transport = new CaptureMailTransport();
+    await transport.send(MESSAGE);
+    await transport.send({ ...MESSAGE, to: [] });
+
+    expect(transport.messages).toEqual([MESSAGE]);
+    transport.clear();
+    expect(transport.messages).toHaveLength(0);
+  });
+
+  it('can be plugged in as the active transport', async () => {
+    const transport = new CaptureMailTransport();
+    setMailTransport(transport);
+
+    await getMailTransport().send(MESSAGE);
+
+    expect(transport.messages).toHaveLength(1);
+  });
+});
+
+describe('isMailConfigured', () => {
+  afterEach(() => {
+    setMailTransport(null);
+  });
+
+  it('is false for smtp without a host', () => {
+    Object.assign(env, { MAIL_TRANSPORT: 'smtp', SMTP_HOST: '' });
+    expect(isMailConfigured()).toBe(false);
+
+    Object.assign(env, { SMTP_HOST: 'smtp.example.com' });
+    expect(isMailConfigured()).toBe(true);
+  });
+
+  it('is true for the file transport or a plugged-in transport', () => {
+    Object.assign(env, { MAIL_TRANSPORT: 'file', SMTP_HOST: '' });
+    expect(isMailConfigured()).toBe(true);
+
+    Object.assign(env, { MAIL_TRANSPORT: 'smtp' });
+    setMailTransport(new CaptureMailTransport());
+    expect(isMailConfigured()).toBe(true);
+  });
+});
+
+describe('SmtpMailTransport', () => {
+  it('runs the SMTP conversation and delivers the message', async () => {
+    const server = await startFakeSmtpServer({ authRequired: true });
+    try {
+      const transport = new SmtpMailTransport(
+        { host: '127.0.0.1', port: server.port, secure: false, user: 'mailer', password: 'secret', timeoutMs: 5000 },
+        FROM
+      );
+      await transport.send(MESSAGE);
+
+      expect(server.commands[0]).toMatch(/^EHLO /);
+      expect(server.commands[1]).toBe(`AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`);
+      expect(server.commands.slice(2, 6)).toEqual([
+        'MAIL FROM:<no-reply@aegira.test>',
+        'RCPT TO:<ops@example.com>',
+        'RCPT TO:<lead@example.com>',
+        'DATA',
+      ]);
+      expect(server.getData()).toContain('Subject: =?UTF-8?B?');
+    } finally {
+      server.close();
+    }
+  });
+
+  it('fails when the server rejects a recipient', async () => {
+    const server = await startFakeSmtpServer({ rejectRcpt: 'lead@example.com' });
+    try {
+      const transport = new SmtpMailTransport(
+        { host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 5000 },
+        FROM
+      );
+
+      await expect(transport.send(MESSAGE)).rejects.toThrow('SMTP RCPT TO:<lead@example.com> failed: 550');
+    } finally {
+      server.close();
+    }
+  });
+});
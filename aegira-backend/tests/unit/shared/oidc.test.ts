@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+const mockEnv = vi.hoisted(() => ({ SSO_ALLOW_LOCAL_PROVIDER: true }));
+vi.mock('../../../src/config/env', () => ({ env: mockEnv }));
+
+import {
+  OidcError,
+  buildAuthorizationUrl,
+  clearOidcCache,
+  createPkcePair,
+  discoverOidcProvider,
+  exchangeAuthorizationCode,
+  verifyIdToken,
+  type OidcClientConfig,
+} from '../../../src/shared/oidc';
+import { startMockOidcProvider, type MockOidcProvider } from '../../../src/scripts/mock-oidc-provider';
+
+const CLIENT_ID = 'aegira-test';
+const CLIENT_SECRET = 'test-secret';
+const REDIRECT_URI = 'http://localhost:3000/api/v1/auth/sso/callback';
+
+/** Answers every request with the same status and JSON body */
+async function startCannedProvider(status: number, body: unknown) {
+  const server = http.createServer((_req, res) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('OIDC relying party against the mock provider', () => {
+  let provider: MockOidcProvider;
+  let client: OidcClientConfig;
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider({ clientId: CLIENT_ID, clientSecret: CLIENT_SECRET, autoApprove: true });
+    client = { issuer: provider.issuer, clientId: CLIENT_ID, clientSecret: CLIENT_SECRET, redirectUri: REDIRECT_URI };
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  afterEach(() => {
+    clearOidcCache();
+  });
+
+  /** Run the browser leg: authorize with a login hint and return the code from the redirect */
+  async function authorize(email: string, nonce = 'nonce-1') {
+    const metadata = await discoverOidcProvider(provider.issuer);
+    const pkce = createPkcePair();
+    const url = buildAuthorizationUrl(metadata, {
+      clientId: CLIENT_ID,
+      redirectUri: REDIRECT_URI,
+      state: 'state-1',
+      nonce,
+      codeChallenge: pkce.challenge,
+      loginHint: email,
+    });
+    const response = await fetch(url, { redirect: 'manual' });
+    const location = new URL(response.headers.get('location')!);
+    expect(location.searchParams.get('state')).toBe('state-1');
+    return { metadata, pkce, code: location.searchParams.get('code')! };
+  }
+
+  it('discovers the provider endpoints', async () => {
+    const metadata = await discoverOidcProvider(`${provider.issuer}/`);
+
+    expect(metadata.issuer).toBe(provider.issuer);
+    expect(metadata.token_endpoint).toBe(`${provider.issuer}/token`);
+  });
+
+  it('builds an authorization request with PKCE S256', async () => {
+    const metadata = await discoverOidcProvider(provider.issuer);
+    const url = new URL(
+      buildAuthorizationUrl(metadata, {
+        clientId: CLIENT_ID,
+        redirectUri: REDIRECT_URI,
+        state: 's',
+        nonce: 'n',
+        codeChallenge: 'challenge',
+      })
+    );
+
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('scope')).toBe('openid email profile');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.has('login_hint')).toBe(false);
+  });
+
+  it('completes the authorization-code flow and verifies the ID token', async () => {
+    const { metadata, pkce, code } = await authorize('Jane@Example.com');
+
+    const idToken = await exchangeAuthorizationCode(metadata, client, code, pkce.verifier);
+    const identity = await verifyIdToken(metadata, idToken, { clientId: CLIENT_ID, nonce: 'nonce-1' });
+
+    expect(identity.email).toBe('jane@example.com');
+    expect(identity.emailVerified).toBe(true);
+    expect(identity.sub).toMatch(/^mock\|/);
+  });
+
+  it('rejects a wrong PKCE verifier and a reused code', async () => {
+    const { metadata, code } = await authorize('jane@example.com');
+
+    await expect(exchangeAuthorizationCode(metadata, client, code, createPkcePair().verifier)).rejects.toThrow(
+      'invalid_grant'
+    );
+    // The failed attempt consumed the code
+    await expect(exchangeAuthorizationCode(metadata, client, code, 'anything')).rejects.toBeInstanceOf(OidcError);
+  });
+
+  it('rejects a wrong client secret', async () => {
+    const { metadata, pkce, code } = await authorize('jane@example.com');
+
+    await expect(
+      exchangeAuthorizationCode(metadata, { ...client, clientSecret: 'wrong' }, code, pkce.verifier)
+    ).rejects.toThrow('invalid_client');
+  });
+
+  it('rejects an ID token with another nonce or audience', async () => {
+    const first = await authorize('jane@example.com', 'expected-nonce');
+    const idToken = await exchangeAuthorizationCode(first.metadata, client, first.code, first.pkce.verifier);
+
+    await expect(verifyIdToken(first.metadata, idToken, { clientId: CLIENT_ID, nonce: 'other' })).rejects.toThrow(
+      'nonce'
+    );
+    await expect(
+      verifyIdToken(first.metadata, idToken, { clientId: 'other-client', nonce: 'expected-nonce' })
+    ).rejects.toThrow('audience');
+  });
+
+  it('rejects a discovery document for a different issuer', async () => {
+    const canned = await startCannedProvider(200, {
+      issuer: 'https://evil.example',
+      authorization_endpoint: 'https://evil.example/authorize',
+      token_endpoint: 'https://evil.example/token',
+      jwks_uri: 'https://evil.example/jwks',
+    });
+    try {
+      await expect(discoverOidcProvider(canned.url)).rejects.toThrow(`expected ${canned.url}`);
+    } finally {
+      await canned.close();
+    }
+  });
+
+  it('keeps provider response bodies out of error messages', async () => {
+    const canned = await startCannedProvider(500, { error: 'server_error', secret: 'internal detail' });
+    try {
+      const error = await discoverOidcProvider(canned.url).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(OidcError);
+      expect((error as Error).message).toBe(`${new URL(canned.url).host} responded 500 (server_error)`);
+    } finally {
+      await canned.close();
+    }
+  });
+});
+
+describe('OIDC provider URL guard', () => {
+  beforeAll(() => {
+    mockEnv.SSO_ALLOW_LOCAL_PROVIDER = false;
+  });
+
+  afterAll(() => {
+    mockEnv.SSO_ALLOW_LOCAL_PROVIDER = true;
+  });
+
+  afterEach(() => {
+    clearOidcCache();
+  });
+
+  it.each([
+    ['http://idp.example', 'must use https'],
+    ['https://127.0.0.1:4010', 'public address'],
+    ['https://169.254.169.254/latest', 'public address'],
+    ['https://10.1.2.3', 'public address'],
+    ['https://[::1]', 'public address'],
+    ['https://localhost', 'public address'],
+  ])('refuses %s', async (issuer, message) => {
+    await expect(discoverOidcProvider(issuer)).rejects.toThrow(message);
+  });
+
+  it('refuses discovered endpoints on private addresses', async () => {
+    const metadata = {
+      issuer: 'https://8.8.8.8',
+      authorization_endpoint: 'https://8.8.8.8/authorize',
+      token_endpoint: 'https://192.168.0.10/token',
+      jwks_uri: 'https://8.8.8.8/jwks',
+    };
+    const client = { issuer: 'https://8.8.8.8', clientId: 'c', clientSecret: 's', redirectUri: REDIRECT_URI };
+
+    await expect(exchangeAuthorizationCode(metadata, client, 'code', 'verifier')).rejects.toThrow('public address');
+  });
+});
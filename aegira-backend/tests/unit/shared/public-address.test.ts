@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { isPublicAddress, publicAddressLookup, resolvesToPublicAddress } from '../../../src/shared/public-address';
+
+describe('isPublicAddress', () => {
+  it.each(['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111'])('accepts %s', (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '127.0.0.1',
+    '10.0.0.5',
+    '172.20.1.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::ffff:127.0.0.1',
+    'fd00::1',
+    'fe80::1',
+    'not-an-ip',
+  ])('rejects %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe('resolvesToPublicAddress', () => {
+  it('checks IP literals, including bracketed IPv6', async () => {
+    expect(await resolvesToPublicAddress('8.8.8.8')).toBe(true);
+    expect(await resolvesToPublicAddress('[::1]')).toBe(false);
+  });
+
+  it('rejects names that resolve to loopback', async () => {
+    expect(await resolvesToPublicAddress('localhost')).toBe(false);
+  });
+});
+
+describe('publicAddressLookup', () => {
+  it('refuses to connect when the name resolves to a private address', async () => {
+    let connections = 0;
+    const server = http.createServer((_req, res) => res.end('ok'));
+    server.on('connection', () => connections++);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const error = await new Promise<NodeJS.ErrnoException>((resolve, reject) => {
+        http
+          .get({ host: 'localhost', port, lookup: publicAddressLookup }, () => reject(new Error('connected')))
+          .on('error', resolve);
+      });
+
+      expect(error.code).toBe('ENOTPUBLIC');
+      expect(connections).toBe(0);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
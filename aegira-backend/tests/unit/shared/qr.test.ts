@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQr, qrToSvg, reedSolomonEcc } from '../../../src/shared/qr';
+import type { QrMatrix } from '../../../src/shared/qr';
+
+/** Read the 15 format bits from the copy around the top-left finder */
+function readFormatBits(m: QrMatrix): number {
+  const bit = (x: number, y: number) => (m[y]![x] ? 1 : 0);
+  let bits = 0;
+  for (let i = 0; i <= 5; i++) bits |= bit(8, i) << i;
+  bits |= bit(8, 7) << 6;
+  bits |= bit(8, 8) << 7;
+  bits |= bit(7, 8) << 8;
+  for (let i = 9; i < 15; i++) bits |= bit(14 - i, 8) << i;
+  return bits ^ 0x5412;
+}
+
+/** Same bits from the copy split between the other two finders */
+function readSecondFormatBits(m: QrMatrix): number {
+  const size = m.length;
+  const bit = (x: number, y: number) => (m[y]![x] ? 1 : 0);
+  let bits = 0;
+  for (let i = 0; i < 8; i++) bits |= bit(size - 1 - i, 8) << i;
+  for (let i = 8; i < 15; i++) bits |= bit(8, size - 15 + i) << i;
+  return bits ^ 0x5412;
+}
+
+function hasFinderAt(m: QrMatrix, left: number, top: number): boolean {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+      if (m[top + dy]![left + dx] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+}
+
+describe('reedSolomonEcc', () => {
+  it('matches the published 1-M "HELLO WORLD" example', () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonEcc(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe('encodeQr', () => {
+  it.each([
+    [14, 21], // version 1-M byte capacity
+    [15, 25],
+    [106, 41], // version 6-M byte capacity
+    [107, 45], // version 7 — adds version information blocks
+    [213, 57], // version 10-M byte capacity
+  ])('picks the smallest version for %i bytes (%i modules)', (length, size) => {
+    const matrix = encodeQr('a'.repeat(length));
+    expect(matrix).toHaveLength(size);
+    expect(matrix.every((row) => row.length === size)).toBe(true);
+  });
+
+  it('rejects payloads above the supported capacity', () => {
+    expect(() => encodeQr('a'.repeat(214))).toThrow('too long');
+  });
+
+  it('draws the three finder patterns and timing lines', () => {
+    const m = encodeQr('otpauth://totp/AEGIRA:jane@example.com?secret=JBSWY3DPEHPK3PXP');
+    const size = m.length;
+
+    expect(hasFinderAt(m, 0, 0)).toBe(true);
+    expect(hasFinderAt(m, size - 7, 0)).toBe(true);
+    expect(hasFinderAt(m, 0, size - 7)).toBe(true);
+    for (let i = 8; i < size - 8; i++) {
+      expect(m[6]![i]).toBe(i % 2 === 0);
+      expect(m[i]![6]).toBe(i % 2 === 0);
+    }
+    expect(m[size - 8]![8]).toBe(true); // dark module
+  });
+
+  it('writes matching format information for level M in both copies', () => {
+    const m = encodeQr('otpauth://totp/AEGIRA:jane@example.com?secret=JBSWY3DPEHPK3PXP');
+    const format = readFormatBits(m);
+
+    expect(readSecondFormatBits(m)).toBe(format);
+    expect(format >>> 13).toBe(0b00); // level M
+  });
+
+  it('renders an SVG with a quiet zone', () => {
+    const svg = qrToSvg(encodeQr('hello'));
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" viewBox="0 0 29 29"/);
+    expect(svg).toContain('M4,4h1v1h-1z'); // top-left finder corner, offset by the quiet zone
+  });
+});
@@ -1,12 +1,24 @@
 import { describe, it, expect } from 'vitest';
 import {
+  findScheduleException,
   getEffectiveSchedule,
+  getRosterWindows,
+  getScheduleCloseMinutes,
+  getScheduleSpan,
+  getWindowPhase,
   isWorkDay,
   isEndTimeAfterStart,
+  resolveDaySchedule,
+  resolveShiftDate,
   TIME_REGEX,
   WORK_DAYS_REGEX,
 } from '../../../src/shared/schedule.utils';
-import type { PersonSchedule, TeamSchedule } from '../../../src/shared/schedule.utils';
+import type {
+  PersonSchedule,
+  RosterSchedule,
+  ScheduleException,
+  TeamSchedule,
+} from '../../../src/shared/schedule.utils';
 
 // Default team schedule for tests
 const defaultTeam: TeamSchedule = {
@@ -21,6 +33,13 @@ const nullPerson: PersonSchedule = {
   check_in_end: null,
 };
 
+// Approved sick leave Mon 2026-02-23 → Wed 2026-02-25
+const sickLeave: ScheduleException = {
+  type: 'SICK',
+  start_date: new Date('2026-02-23T00:00:00.000Z'),
+  end_date: new Date('2026-02-25T00:00:00.000Z'),
+};
+
 // ─── isEndTimeAfterStart ──────────────────────────────────────────────────────
 
 describe('isEndTimeAfterStart', () => {
@@ -218,6 +237,46 @@ describe('TIME_REGEX', () => {
   });
 });
 
+// ─── Schedule exceptions (leave) ──────────────────────────────────────────────
+
+describe('findScheduleException', () => {
+  it('matches dates inside the range, inclusive on both ends', () => {
+    expect(findScheduleException('2026-02-23', [sickLeave])).toBe(sickLeave);
+    expect(findScheduleException('2026-02-24', [sickLeave])).toBe(sickLeave);
+    expect(findScheduleException('2026-02-25', [sickLeave])).toBe(sickLeave);
+  });
+
+  it('returns null outside the range or without exceptions', () => {
+    expect(findScheduleException('2026-02-22', [sickLeave])).toBeNull();
+    expect(findScheduleException('2026-02-26', [sickLeave])).toBeNull();
+    expect(findScheduleException('2026-02-23', null)).toBeNull();
+    expect(findScheduleException('2026-02-23', undefined)).toBeNull();
+  });
+});
+
+describe('schedule with leave', () => {
+  const onLeave: PersonSchedule = { ...nullPerson, exceptions: [sickLeave] };
+
+  it('isWorkDay is false on a covered work day when the date is passed', () => {
+    expect(isWorkDay('1', onLeave, defaultTeam, '2026-02-23')).toBe(false);
+    expect(isWorkDay('4', onLeave, defaultTeam, '2026-02-26')).toBe(true);
+  });
+
+  it('isWorkDay ignores exceptions when no date is passed', () => {
+    expect(isWorkDay('1', onLeave, defaultTeam)).toBe(true);
+  });
+
+  it('getEffectiveSchedule resolves the exception for the date and keeps the window', () => {
+    const result = getEffectiveSchedule(onLeave, defaultTeam, '2026-02-24');
+    expect(result.exception).toBe(sickLeave);
+    expect(result.checkInStart).toBe('06:00');
+    expect(result.checkInEnd).toBe('10:00');
+
+    expect(getEffectiveSchedule(onLeave, defaultTeam, '2026-02-26').exception).toBeNull();
+    expect(getEffectiveSchedule(onLeave, defaultTeam).exception).toBeUndefined();
+  });
+});
+
 describe('WORK_DAYS_REGEX', () => {
   it('matches valid work day strings', () => {
     expect(WORK_DAYS_REGEX.test('1,2,3,4,5')).toBe(true);
@@ -232,3 +291,140 @@ describe('WORK_DAYS_REGEX', () => {
     expect(WORK_DAYS_REGEX.test('')).toBe(false);
   });
 });
+
+// ─── Shift rosters ────────────────────────────────────────────────────────────
+
+// Two days, two nights, two off — anchored on Sunday 2026-02-01
+const fourOnTwoOff: RosterSchedule = {
+  anchor_date: new Date('2026-02-01T00:00:00Z'),
+  cycle: [
+    [{ start: '06:00', end: '10:00' }],
+    [{ start: '06:00', end: '10:00' }],
+    [{ start: '22:00', end: '02:00' }],
+    [{ start: '22:00', end: '02:00' }],
+    [],
+    [],
+  ],
+};
+
+const splitShift = [{ start: '06:00', end: '08:00' }, { start: '14:00', end: '16:00' }];
+
+describe('getRosterWindows', () => {
+  it('resolves the cycle day from the anchor', () => {
+    expect(getRosterWindows(fourOnTwoOff, '2026-02-01')).toEqual([{ start: '06:00', end: '10:00' }]);
+    expect(getRosterWindows(fourOnTwoOff, '2026-02-03')).toEqual([{ start: '22:00', end: '02:00' }]);
+    expect(getRosterWindows(fourOnTwoOff, '2026-02-05')).toEqual([]);
+  });
+
+  it('repeats the cycle after its length', () => {
+    expect(getRosterWindows(fourOnTwoOff, '2026-02-07')).toEqual(getRosterWindows(fourOnTwoOff, '2026-02-01'));
+    expect(getRosterWindows(fourOnTwoOff, '2026-03-05')).toEqual(getRosterWindows(fourOnTwoOff, '2026-02-03'));
+  });
+
+  it('wraps dates before the anchor', () => {
+    // 2026-01-31 is cycle day 6 (off), 2026-01-28 is cycle day 3 (night)
+    expect(getRosterWindows(fourOnTwoOff, '2026-01-31')).toEqual([]);
+    expect(getRosterWindows(fourOnTwoOff, '2026-01-28')).toEqual([{ start: '22:00', end: '02:00' }]);
+  });
+});
+
+describe('resolveDaySchedule', () => {
+  it('uses the weekly schedule without a roster', () => {
+    const day = resolveDaySchedule(nullPerson, defaultTeam, '2026-02-23'); // Monday
+    expect(day).toEqual({
+      date: '2026-02-23',
+      isWorkDay: true,
+      windows: [{ start: '06:00', end: '10:00' }],
+      source: 'weekly',
+      exception: null,
+    });
+    expect(resolveDaySchedule(nullPerson, defaultTeam, '2026-02-22').isWorkDay).toBe(false); // Sunday
+  });
+
+  it('uses the team roster over the weekly schedule', () => {
+    const team = { ...defaultTeam, roster: fourOnTwoOff };
+    const sunday = resolveDaySchedule(nullPerson, team, '2026-02-01');
+    expect(sunday.isWorkDay).toBe(true);
+    expect(sunday.source).toBe('roster');
+    expect(resolveDaySchedule(nullPerson, team, '2026-02-05').isWorkDay).toBe(false); // Thursday, off
+  });
+
+  it('keeps a worker work_days override over the team roster', () => {
+    const team = { ...defaultTeam, roster: fourOnTwoOff };
+    const person = { ...nullPerson, work_days: '4' };
+    const day = resolveDaySchedule(person, team, '2026-02-05'); // Thursday
+    expect(day.source).toBe('weekly');
+    expect(day.isWorkDay).toBe(true);
+  });
+
+  it('uses a worker roster over everything else', () => {
+    const roster = { anchor_date: new Date('2026-02-01T00:00:00Z'), cycle: [splitShift] };
+    const person = { ...nullPerson, work_days: '1', roster };
+    const day = resolveDaySchedule(person, { ...defaultTeam, roster: fourOnTwoOff }, '2026-02-05');
+    expect(day.windows).toEqual(splitShift);
+    expect(day.source).toBe('roster');
+  });
+
+  it('takes leave days out of a roster but keeps the windows', () => {
+    const person = { ...nullPerson, exceptions: [sickLeave], roster: fourOnTwoOff };
+    const day = resolveDaySchedule(person, defaultTeam, '2026-02-25'); // cycle day 1
+    expect(day.isWorkDay).toBe(false);
+    expect(day.exception).toBe(sickLeave);
+    expect(day.windows.length).toBeGreaterThan(0);
+  });
+
+  it('isWorkDay follows the roster when a date is passed', () => {
+    const team = { ...defaultTeam, roster: fourOnTwoOff };
+    expect(isWorkDay('0', nullPerson, team, '2026-02-01')).toBe(true); // Sunday, cycle day 1
+    expect(isWorkDay('4', nullPerson, team, '2026-02-05')).toBe(false); // Thursday, cycle day 5
+  });
+});
+
+describe('window phases', () => {
+  const day = resolveDaySchedule({ ...nullPerson, roster: { anchor_date: new Date('2026-02-01T00:00:00Z'), cycle: [splitShift] } }, defaultTeam, '2026-02-02');
+  const night = resolveDaySchedule(nullPerson, { ...defaultTeam, roster: fourOnTwoOff }, '2026-02-03');
+
+  it('reports before, open, between and closed for a split shift', () => {
+    expect(getWindowPhase(day, 5 * 60).phase).toBe('before');
+    expect(getWindowPhase(day, 7 * 60).phase).toBe('open');
+    expect(getWindowPhase(day, 10 * 60)).toEqual({ phase: 'between', next: { start: '14:00', end: '16:00' } });
+    expect(getWindowPhase(day, 16 * 60).phase).toBe('open');
+    expect(getWindowPhase(day, 16 * 60 + 1).phase).toBe('closed');
+  });
+
+  it('keeps an overnight window open past midnight', () => {
+    expect(getWindowPhase(night, 23 * 60).phase).toBe('open');
+    expect(getWindowPhase(night, 24 * 60 + 90).phase).toBe('open');
+    expect(getWindowPhase(night, 24 * 60 + 150).phase).toBe('closed');
+  });
+
+  it('spans first start to last end and closes the next morning for overnight windows', () => {
+    expect(getScheduleSpan(day)).toEqual({ start: '06:00', end: '16:00' });
+    expect(getScheduleCloseMinutes(day)).toBe(16 * 60);
+    expect(getScheduleCloseMinutes(night)).toBe(26 * 60);
+  });
+});
+
+describe('resolveShiftDate', () => {
+  const team = { ...defaultTeam, roster: fourOnTwoOff };
+  const resolve = (date: string) => resolveDaySchedule(nullPerson, team, date);
+
+  it('keeps after-midnight time on the night shift date while the window is open', () => {
+    expect(resolveShiftDate('01:30', resolve('2026-02-03'), resolve('2026-02-04'))).toBe('2026-02-03');
+  });
+
+  it('keeps late submissions on the night shift until the next window opens', () => {
+    // 2026-02-05 is off, so the late period runs to the cutoff
+    expect(resolveShiftDate('08:00', resolve('2026-02-04'), resolve('2026-02-05'))).toBe('2026-02-04');
+    expect(resolveShiftDate('12:00', resolve('2026-02-04'), resolve('2026-02-05'))).toBe('2026-02-05');
+  });
+
+  it('hands over to today once today\'s window opens', () => {
+    const earlyShift = resolveDaySchedule(nullPerson, defaultTeam, '2026-02-04');
+    expect(resolveShiftDate('06:30', resolve('2026-02-03'), earlyShift)).toBe('2026-02-04');
+  });
+
+  it('uses today when yesterday had no overnight window', () => {
+    expect(resolveShiftDate('01:00', resolve('2026-02-01'), resolve('2026-02-02'))).toBe('2026-02-02');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+  verifyTotp,
+} from '../../../src/shared/totp';
+
+// RFC 6238 Appendix B: SHA1 secret is the ASCII string "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('base32', () => {
+  it('matches the RFC 4648 test vectors (unpadded)', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(base32Encode(Buffer.from('f'))).toBe('MY');
+  });
+
+  it('round-trips and tolerates lowercase, spaces and padding', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    const encoded = base32Encode(bytes);
+    expect(base32Decode(encoded)).toEqual(bytes);
+    expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('MZXW1')).toThrow('Invalid base32');
+  });
+});
+
+describe('TOTP', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches RFC 6238 at T=%i', (seconds, expected) => {
+    expect(generateTotp(RFC_SECRET, new Date(seconds * 1000))).toBe(expected);
+  });
+
+  it('generates 160-bit secrets', () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+
+  it('accepts the current and adjacent steps, and returns the matching step', () => {
+    const secret = generateTotpSecret();
+    const now = new Date('2026-10-18T08:00:15Z');
+    const step = totpStep(now);
+
+    expect(verifyTotp(secret, generateTotp(secret, now), now)).toBe(step);
+    expect(verifyTotp(secret, generateTotp(secret, new Date(now.getTime() - 30_000)), now)).toBe(step - 1);
+    expect(verifyTotp(secret, generateTotp(secret, new Date(now.getTime() + 30_000)), now)).toBe(step + 1);
+    expect(verifyTotp(secret, generateTotp(secret, new Date(now.getTime() - 90_000)), now)).toBeNull();
+  });
+
+  it('refuses steps at or before the last accepted one (replay)', () => {
+    const secret = generateTotpSecret();
+    const now = new Date('2026-10-18T08:00:15Z');
+    const code = generateTotp(secret, now);
+
+    expect(verifyTotp(secret, code, now, totpStep(now))).toBeNull();
+    expect(verifyTotp(secret, code, now, totpStep(now) - 1)).toBe(totpStep(now));
+  });
+
+  it('rejects malformed codes without throwing', () => {
+    const secret = generateTotpSecret();
+    expect(verifyTotp(secret, '12345')).toBeNull();
+    expect(verifyTotp(secret, 'abcdef')).toBeNull();
+  });
+
+  it('builds an otpauth URI with an encoded label', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'jane@example.com', 'AEGIRA (Acme)');
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/AEGIRA%20\(Acme\)%3Ajane%40example\.com\?/);
+    const params = new URL(uri).searchParams;
+    expect(params.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(params.get('issuer')).toBe('AEGIRA (Acme)');
+    expect(params.get('digits')).toBe('6');
+    expect(params.get('period')).toBe('30');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import {
+  encryptPushPayload,
+  generateVapidKeys,
+  isPushServiceEndpoint,
+  sendWebPush,
+  WebPushError,
+} from '../../../src/shared/web-push';
+
+/** A browser's side of a subscription: its key pair and auth secret */
+function createBrowser() {
+  const keys = createECDH('prime256v1');
+  const publicKey = keys.generateKeys();
+  const auth = randomBytes(16);
+  return {
+    keys,
+    subscription: {
+      endpoint: 'https://push.example.com/send/abc123',
+      p256dh: publicKey.toString('base64url'),
+      auth: auth.toString('base64url'),
+    },
+  };
+}
+
+/** Decrypt as the browser would (RFC 8291) */
+function decrypt(body: Buffer, browser: ReturnType<typeof createBrowser>): string {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyIdLength);
+  const record = body.subarray(21 + keyIdLength);
+
+  const clientPublicKey = Buffer.from(browser.subscription.p256dh, 'base64url');
+  const sharedSecret = browser.keys.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, Buffer.from(browser.subscription.auth, 'base64url'), keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+  expect(padded[padded.length - 1]).toBe(0x02);
+  return padded.subarray(0, padded.length - 1).toString('utf8');
+}
+
+describe('encryptPushPayload', () => {
+  it('produces an aes128gcm body the subscribed browser can decrypt', () => {
+    const browser = createBrowser();
+    const payload = JSON.stringify({ title: 'Check-in reminder', body: 'Window closes at 10:00 — Ñ' });
+
+    const body = encryptPushPayload(payload, browser.subscription);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(body.readUInt8(20)).toBe(65);
+    expect(decrypt(body, browser)).toBe(payload);
+  });
+});
+
+describe('sendWebPush', () => {
+  const vapid = { ...generateVapidKeys(), subject: 'mailto:ops@aegira.test' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the encrypted payload with a VAPID token for the push service origin', async () => {
+    const browser = createBrowser();
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await sendWebPush(browser.subscription, '{"title":"Hi"}', vapid, { urgency: 'high' });
+
+    const [url, init] = fetchMock.mock.calls[0]! as [string, RequestInit & { headers: Record<string, string> }];
+    expect(url).toBe(browser.subscription.endpoint);
+    expect(init.headers['Content-Encoding']).toBe('aes128gcm');
+    expect(init.headers.Urgency).toBe('high');
+    expect(decrypt(init.body as Buffer, browser)).toBe('{"title":"Hi"}');
+
+    const [, token, key] = /^vapid t=([^,]+), k=(.+)$/.exec(init.headers.Authorization)!;
+    expect(key).toBe(vapid.publicKey);
+    const [header, claims, signature] = token!.split('.') as [string, string, string];
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toEqual(expect.objectContaining({
+      aud: 'https://push.example.com',
+      sub: 'mailto:ops@aegira.test',
+    }));
+
+    const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+    const verifyKey = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(verify(
+      'sha256',
+      Buffer.from(`${header}.${claims}`),
+      { key: verifyKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    )).toBe(true);
+  });
+
+  it('reports subscriptions the push service no longer knows as gone', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('unsubscribed', { status: 410 })));
+
+    const error = await sendWebPush(createBrowser().subscription, '{}', vapid).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(WebPushError);
+    expect((error as WebPushError).isGone).toBe(true);
+    expect((error as WebPushError).message).toBe('Push service responded 410: unsubscribed');
+  });
+});
+
+describe('isPushServiceEndpoint', () => {
+  it.each([
+    'https://fcm.googleapis.com/fcm/send/abc',
+    'https://updates.push.services.mozilla.com/wpush/v2/abc',
+    'https://wns2-by3p.notify.windows.com/w/?token=abc',
+    'https://web.push.apple.com/QGuQ',
+  ])('accepts %s', (endpoint) => {
+    expect(isPushServiceEndpoint(endpoint)).toBe(true);
+  });
+
+  it.each([
+    'http://fcm.googleapis.com/fcm/send/abc',
+    'https://fcm.googleapis.com:8443/fcm/send/abc',
+    'https://169.254.169.254/latest/meta-data',
+    'https://localhost/hook',
+    'https://fcm.googleapis.com.attacker.example/x',
+    'https://notify.windows.com.attacker.example/x',
+    'not a url',
+  ])('refuses %s', (endpoint) => {
+    expect(isPushServiceEndpoint(endpoint)).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+// AEGIRA service worker — shows Web Push notifications and opens the app on click.
+// Payload (see renderNotificationPush on the backend): { title, body, url, tag }
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    message = { title: 'AEGIRA', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'AEGIRA', {
+      body: message.body,
+      tag: message.tag,
+      icon: '/assets/aegira.svg',
+      badge: '/assets/aegira.svg',
+      data: { url: message.url || '/notifications' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/notifications', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Reuse an open AEGIRA tab when there is one
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing
+          .focus()
+          .then((client) => client.navigate(url))
+          .catch(() => self.clients.openWindow(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
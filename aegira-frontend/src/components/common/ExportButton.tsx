@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/lib/hooks/use-toast';
+import {
+  downloadExport,
+  EXPORT_FORMAT_LABELS,
+  type ExportFormat,
+} from '@/lib/utils/export.utils';
+
+interface ExportButtonProps {
+  /** Server export endpoint, e.g. ENDPOINTS.INCIDENT.EXPORT */
+  endpoint: string;
+  /** Current list filters — the export matches what the table shows, without the page limit */
+  params?: Record<string, string | undefined>;
+  /** Download name without date stamp or extension, e.g. "incidents" */
+  fileName: string;
+  label?: string;
+}
+
+export function ExportButton({ endpoint, params = {}, fileName, label = 'Export' }: ExportButtonProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await downloadExport(endpoint, params, format, `${fileName}_${DateTime.now().toFormat('yyyy-MM-dd')}`);
+    } catch {
+      toast({
+        variant: 'destructive',
+        title: 'Export failed',
+        description: 'Could not export the data. Please try again.',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
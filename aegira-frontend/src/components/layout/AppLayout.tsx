@@ -1,8 +1,11 @@
 import { Outlet } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import { useOfflineCheckInSync } from '@/features/check-in/hooks/useOfflineCheckInSync';
 
 export function AppLayout() {
+  useOfflineCheckInSync();
+
   return (
     <div className="min-h-screen bg-dot-pattern">
       <Sidebar />
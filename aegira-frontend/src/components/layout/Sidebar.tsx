@@ -15,6 +15,10 @@ import {
   ShieldAlert,
   FolderOpen,
   MoreHorizontal,
+  FileEdit,
+  CalendarOff,
+  Repeat,
+  BellRing,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -80,11 +84,26 @@ const getNavItems = (role: string): NavItem[] => {
         icon: <History className="h-5 w-5" />,
         href: ROUTES.TEAM_CHECK_IN_HISTORY,
       },
+      {
+        label: 'Corrections',
+        icon: <FileEdit className="h-5 w-5" />,
+        href: ROUTES.TEAM_AMENDMENTS,
+      },
+      {
+        label: 'Leave',
+        icon: <CalendarOff className="h-5 w-5" />,
+        href: ROUTES.TEAM_LEAVE,
+      },
       {
         label: 'Analytics',
         icon: <TrendingUp className="h-5 w-5" />,
         href: ROUTES.TEAM_ANALYTICS,
       },
+      {
+        label: 'Reports',
+        icon: <FileText className="h-5 w-5" />,
+        href: ROUTES.TEAM_REPORTS,
+      },
     ];
   }
 
@@ -106,6 +125,16 @@ const getNavItems = (role: string): NavItem[] => {
         icon: <TrendingUp className="h-5 w-5" />,
         href: ROUTES.TEAM_ANALYTICS,
       },
+      {
+        label: 'Corrections',
+        icon: <FileEdit className="h-5 w-5" />,
+        href: ROUTES.TEAM_AMENDMENTS,
+      },
+      {
+        label: 'Leave',
+        icon: <CalendarOff className="h-5 w-5" />,
+        href: ROUTES.TEAM_LEAVE,
+      },
       {
         label: 'Reports',
         icon: <FileText className="h-5 w-5" />,
@@ -158,6 +187,16 @@ const getNavItems = (role: string): NavItem[] => {
         icon: <Calendar className="h-5 w-5" />,
         href: ROUTES.ADMIN_HOLIDAYS,
       },
+      {
+        label: 'Rosters',
+        icon: <Repeat className="h-5 w-5" />,
+        href: ROUTES.ADMIN_SHIFT_PATTERNS,
+      },
+      {
+        label: 'Alerts',
+        icon: <BellRing className="h-5 w-5" />,
+        href: ROUTES.ADMIN_ALERT_RULES,
+      },
       {
         label: 'Logs',
         icon: <Search className="h-5 w-5" />,
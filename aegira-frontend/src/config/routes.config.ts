@@ -3,6 +3,9 @@ export const ROUTES = {
   HOME: '/',
   LOGIN: '/login',
   SIGNUP: '/signup',
+  FORGOT_PASSWORD: '/forgot-password',
+  RESET_PASSWORD: '/reset-password',
+  ACCEPT_INVITE: '/accept-invite',
   UNAUTHORIZED: '/unauthorized',
 
   // Common routes (all authenticated users)
@@ -28,6 +31,8 @@ export const ROUTES = {
   TEAM_MEMBERS: '/team/members',
   TEAM_CHECK_IN_HISTORY: '/team/check-in-history',
   TEAM_REPORTS: '/team/reports',
+  TEAM_AMENDMENTS: '/team/corrections',
+  TEAM_LEAVE: '/team/leave',
   TEAM_WORKER_DETAIL: '/team/workers/:workerId',
 
   // Admin routes
@@ -38,6 +43,8 @@ export const ROUTES = {
   ADMIN_WORKERS_CREATE: '/admin/workers/create',
   ADMIN_WORKERS_EDIT: '/admin/workers/:workerId/edit',
   ADMIN_HOLIDAYS: '/admin/holidays',
+  ADMIN_SHIFT_PATTERNS: '/admin/shift-patterns',
+  ADMIN_ALERT_RULES: '/admin/alert-rules',
   ADMIN_SETTINGS: '/admin/settings',
   ADMIN_AUDIT_LOGS: '/admin/audit-logs',
 
@@ -0,0 +1,84 @@
+import { Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { usePreviewAlertRule } from '../hooks/useAlertRules';
+import { formatDate } from '@/lib/utils/date.utils';
+import type { PreviewAlertRuleData } from '@/types/alert-rule.types';
+
+const PREVIEW_DAYS = 30;
+
+/** Rows shown before "and N more" */
+const MAX_VISIBLE_MATCHES = 20;
+
+interface AlertRulePreviewPanelProps {
+  /** Null while the form is incomplete */
+  definition: PreviewAlertRuleData | null;
+}
+
+/**
+ * Dry run of the rule being edited against the last 30 days of check-ins or
+ * misses. Remount (key) when the definition changes so a stale result is never shown.
+ */
+export function AlertRulePreviewPanel({ definition }: AlertRulePreviewPanelProps) {
+  const preview = usePreviewAlertRule();
+  const result = preview.data;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium">Dry run</p>
+          <p className="text-sm text-muted-foreground">
+            See who this rule would have alerted about in the last {PREVIEW_DAYS} days. Nothing is sent.
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => definition && preview.mutate({ ...definition, days: PREVIEW_DAYS })}
+          disabled={!definition || preview.isPending}
+        >
+          <Eye className="h-4 w-4 mr-1.5" />
+          {preview.isPending ? 'Checking...' : 'Preview'}
+        </Button>
+      </div>
+
+      {preview.error && (
+        <p className="text-sm text-destructive">{preview.error.message}</p>
+      )}
+
+      {result && (
+        result.matches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No alerts between {formatDate(result.from)} and {formatDate(result.to)}.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm">
+              <span className="font-medium">{result.matches.length}</span> alert{result.matches.length === 1 ? '' : 's'} for{' '}
+              <span className="font-medium">{result.workersMatched}</span> worker{result.workersMatched === 1 ? '' : 's'} between{' '}
+              {formatDate(result.from)} and {formatDate(result.to)}
+            </p>
+            <ul className="divide-y rounded-md border">
+              {result.matches.slice(0, MAX_VISIBLE_MATCHES).map((match) => (
+                <li key={`${match.personId}:${match.date}`} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium">{match.workerName}</span>
+                    {match.teamName && <span className="text-muted-foreground"> · {match.teamName}</span>}
+                  </div>
+                  <Badge variant="outline">{formatDate(match.date)}</Badge>
+                </li>
+              ))}
+            </ul>
+            {result.matches.length > MAX_VISIBLE_MATCHES && (
+              <p className="text-xs text-muted-foreground">
+                and {result.matches.length - MAX_VISIBLE_MATCHES} more
+              </p>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { Mail, Pencil, Plus, Trash2, X, Check } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { PageLoader } from '@/components/common/PageLoader';
+import {
+  useReportSubscriptions,
+  useCreateReportSubscription,
+  useUpdateReportSubscription,
+  useDeleteReportSubscription,
+  type ReportSubscription,
+} from '../hooks/useReportSubscriptions';
+import { useTeams } from '@/features/team/hooks/useTeams';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatDateTime } from '@/lib/utils/date.utils';
+import type { ReportFrequency } from '@/types/report.types';
+
+const FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+};
+
+const MAX_RECIPIENTS = 20; // matches backend limit
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Split a comma/space/newline separated list; returns an error message for the first bad entry */
+function parseRecipients(value: string): { emails: string[]; error: string | null } {
+  const emails = [...new Set(value.split(/[\s,;]+/).map((e) => e.trim().toLowerCase()).filter(Boolean))];
+  if (emails.length === 0) return { emails, error: 'Enter at least one email address' };
+  if (emails.length > MAX_RECIPIENTS) return { emails, error: `At most ${MAX_RECIPIENTS} recipients` };
+  const invalid = emails.find((e) => !EMAIL_REGEX.test(e));
+  return { emails, error: invalid ? `Invalid email address: ${invalid}` : null };
+}
+
+export function ReportSubscriptionsCard() {
+  const { toast } = useToast();
+  const { data: subscriptions = [], isLoading, error } = useReportSubscriptions();
+  const { data: teamsData } = useTeams(1, 100);
+  const createSubscription = useCreateReportSubscription();
+  const updateSubscription = useUpdateReportSubscription();
+  const deleteSubscription = useDeleteReportSubscription();
+
+  const [teamId, setTeamId] = useState('');
+  const [frequency, setFrequency] = useState<ReportFrequency>('WEEKLY');
+  const [recipients, setRecipients] = useState('');
+  const [editing, setEditing] = useState<{ id: string; recipients: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ReportSubscription | null>(null);
+
+  const teams = (teamsData?.items ?? []).filter((t) => t.is_active);
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: err instanceof Error ? err.message : 'Something went wrong.',
+    });
+  };
+
+  const handleCreate = async () => {
+    const parsed = parseRecipients(recipients);
+    if (!teamId || parsed.error) {
+      toast({ variant: 'destructive', title: 'Cannot add digest', description: parsed.error ?? 'Select a team' });
+      return;
+    }
+    try {
+      await createSubscription.mutateAsync({ teamId, frequency, recipients: parsed.emails });
+      toast({ variant: 'success', title: 'Digest scheduled', description: 'The first digest goes out after the current period ends.' });
+      setTeamId('');
+      setRecipients('');
+    } catch (err) {
+      showError('Failed to add digest', err);
+    }
+  };
+
+  const handleSaveRecipients = async () => {
+    if (!editing) return;
+    const parsed = parseRecipients(editing.recipients);
+    if (parsed.error) {
+      toast({ variant: 'destructive', title: 'Cannot save recipients', description: parsed.error });
+      return;
+    }
+    try {
+      await updateSubscription.mutateAsync({ id: editing.id, data: { recipients: parsed.emails } });
+      setEditing(null);
+    } catch (err) {
+      showError('Failed to update recipients', err);
+    }
+  };
+
+  const handleToggle = async (subscription: ReportSubscription, isActive: boolean) => {
+    try {
+      await updateSubscription.mutateAsync({ id: subscription.id, data: { isActive } });
+    } catch (err) {
+      showError('Failed to update digest', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteSubscription.mutateAsync(pendingDelete.id);
+      toast({ variant: 'success', title: 'Digest removed' });
+      setPendingDelete(null);
+    } catch (err) {
+      showError('Failed to remove digest', err);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Scheduled Reports
+        </CardTitle>
+        <CardDescription>
+          Email a team&apos;s readiness and compliance digest with PDF reports. Weekly digests cover
+          Monday–Sunday and are sent Monday morning; monthly digests are sent on the 1st. Times follow
+          the company timezone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-[1fr_10rem_2fr_auto] md:items-end">
+          <div className="space-y-2">
+            <Label>Team</Label>
+            <Select value={teamId} onValueChange={setTeamId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select team" />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as ReportFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FREQUENCY_LABELS) as ReportFrequency[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {FREQUENCY_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="digest-recipients">Recipients</Label>
+            <Input
+              id="digest-recipients"
+              placeholder="safety@example.com, manager@example.com"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+            />
+          </div>
+          <Button type="button" onClick={handleCreate} disabled={createSubscription.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        <PageLoader isLoading={isLoading} error={error} skeleton="table">
+          {subscriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scheduled reports yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {subscriptions.map((subscription) => (
+                <li key={subscription.id} className="flex flex-col gap-3 p-4 md:flex-row md:items-start">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{subscription.teamName}</span>
+                      <Badge variant="secondary">{FREQUENCY_LABELS[subscription.frequency]}</Badge>
+                      {!subscription.isActive && <Badge variant="outline">Paused</Badge>}
+                    </div>
+
+                    {editing?.id === subscription.id ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          aria-label="Recipients"
+                          value={editing.recipients}
+                          onChange={(e) => setEditing({ ...editing, recipients: e.target.value })}
+                        />
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          aria-label="Save recipients"
+                          onClick={handleSaveRecipients}
+                          disabled={updateSubscription.isPending}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" aria-label="Cancel" onClick={() => setEditing(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground break-all">{subscription.recipients.join(', ')}</p>
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                      {subscription.lastSentAt
+                        ? `Last sent ${formatDateTime(subscription.lastSentAt)}`
+                        : 'Not sent yet'}
+                      {' · '}Added by {subscription.createdByName}
+                    </p>
+                    {subscription.lastError && (
+                      <p className="text-xs text-destructive">Last delivery failed: {subscription.lastError}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={subscription.isActive}
+                      onCheckedChange={(checked) => handleToggle(subscription, checked)}
+                      aria-label={subscription.isActive ? 'Pause digest' : 'Resume digest'}
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Edit recipients"
+                      onClick={() => setEditing({ id: subscription.id, recipients: subscription.recipients.join(', ') })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Remove digest"
+                      onClick={() => setPendingDelete(subscription)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </PageLoader>
+
+        <ConfirmDialog
+          open={!!pendingDelete}
+          onOpenChange={(open) => !open && setPendingDelete(null)}
+          title="Remove Scheduled Report"
+          description={`Stop sending the ${pendingDelete ? FREQUENCY_LABELS[pendingDelete.frequency].toLowerCase() : ''} digest for ${pendingDelete?.teamName ?? ''}?`}
+          confirmLabel="Remove"
+          variant="destructive"
+          onConfirm={handleDelete}
+          isLoading={deleteSubscription.isPending}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { DateTime } from 'luxon';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAssignRoster, type ShiftPattern } from '../hooks/useShiftPatterns';
+import { useTeams } from '@/features/team/hooks/useTeams';
+import { usePersons } from '@/features/person/hooks/usePersons';
+import { useToast } from '@/lib/hooks/use-toast';
+
+type AssignTarget = 'team' | 'person';
+
+interface RosterAssignDialogProps {
+  pattern: ShiftPattern | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RosterAssignDialog({ pattern, onOpenChange }: RosterAssignDialogProps) {
+  const { toast } = useToast();
+  const assignRoster = useAssignRoster();
+  const { data: teamsData } = useTeams(1, 100);
+  const { data: personsData } = usePersons(1, 100);
+
+  const [target, setTarget] = useState<AssignTarget>('team');
+  const [targetId, setTargetId] = useState('');
+  const [anchorDate, setAnchorDate] = useState(() => DateTime.now().toISODate()!);
+
+  const teams = (teamsData?.items ?? []).filter((t) => t.is_active);
+  // Only people who check in can follow a roster
+  const workers = (personsData?.items ?? []).filter((p) => p.role === 'WORKER' || p.role === 'TEAM_LEAD');
+
+  const reset = () => {
+    setTarget('team');
+    setTargetId('');
+    setAnchorDate(DateTime.now().toISODate()!);
+  };
+
+  const handleClose = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern || !targetId) return;
+    try {
+      await assignRoster.mutateAsync({
+        target,
+        id: targetId,
+        data: { shiftPatternId: pattern.id, anchorDate },
+      });
+      toast({
+        variant: 'success',
+        title: 'Roster assigned',
+        description: `Day 1 of ${pattern.name} falls on ${anchorDate}.`,
+      });
+      handleClose(false);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to assign roster',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!pattern} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Assign {pattern?.name}</DialogTitle>
+          <DialogDescription>
+            The roster replaces the weekly schedule. A worker&apos;s own roster takes priority over their
+            team&apos;s.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Assign to</Label>
+            <Select
+              value={target}
+              onValueChange={(value) => {
+                setTarget(value as AssignTarget);
+                setTargetId('');
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="team">Team</SelectItem>
+                <SelectItem value="person">Individual worker</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{target === 'team' ? 'Team' : 'Worker'}</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder={target === 'team' ? 'Select team' : 'Select worker'} />
+              </SelectTrigger>
+              <SelectContent>
+                {target === 'team'
+                  ? teams.map((team) => (
+                      <SelectItem key={team.id} value={team.id}>
+                        {team.name}
+                      </SelectItem>
+                    ))
+                  : workers.map((person) => (
+                      <SelectItem key={person.id} value={person.id}>
+                        {person.first_name} {person.last_name}
+                      </SelectItem>
+                    ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="anchorDate">Cycle start date</Label>
+            <Input
+              id="anchorDate"
+              type="date"
+              value={anchorDate}
+              onChange={(e) => setAnchorDate(e.target.value)}
+              required
+            />
+            <p className="text-sm text-muted-foreground">
+              The date day 1 of the cycle falls on. The cycle repeats from there in both directions.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleClose(false)}
+              disabled={assignRoster.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!targetId || !anchorDate || assignRoster.isPending}>
+              {assignRoster.isPending ? 'Assigning...' : 'Assign Roster'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { DateTime } from 'luxon';
+import { CalendarDays } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { usePersonSchedule } from '../hooks/useShiftPatterns';
+import { usePersons } from '@/features/person/hooks/usePersons';
+import { formatDate } from '@/lib/utils/date.utils';
+import { formatScheduleWindows } from '@/lib/utils/format.utils';
+
+const PREVIEW_DAYS = 14;
+
+/** Next two weeks of one worker's resolved schedule — roster or weekly, with leave and holidays */
+export function RosterSchedulePreviewCard() {
+  const { data: personsData } = usePersons(1, 100);
+  const [personId, setPersonId] = useState('');
+
+  const from = DateTime.now().toISODate()!;
+  const to = DateTime.now().plus({ days: PREVIEW_DAYS - 1 }).toISODate()!;
+  const { data, isLoading, error } = usePersonSchedule(personId, from, to);
+
+  const workers = (personsData?.items ?? []).filter((p) => p.role === 'WORKER' || p.role === 'TEAM_LEAD');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Schedule Preview
+        </CardTitle>
+        <CardDescription>Check which days and windows a worker is expected to check in over the next two weeks.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-w-sm space-y-2">
+          <Label>Worker</Label>
+          <Select value={personId} onValueChange={setPersonId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select worker" />
+            </SelectTrigger>
+            <SelectContent>
+              {workers.map((person) => (
+                <SelectItem key={person.id} value={person.id}>
+                  {person.first_name} {person.last_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {personId && isLoading && <p className="text-sm text-muted-foreground">Loading schedule...</p>}
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {data && (
+          <div className="divide-y rounded-lg border">
+            {data.days.map((day) => (
+              <div key={day.date} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                <span className="w-32 font-medium">{formatDate(day.date, 'EEE, MMM dd')}</span>
+                <span className="flex-1 text-muted-foreground">
+                  {day.windows.length > 0 ? formatScheduleWindows(day.windows) : 'Rest day'}
+                </span>
+                <div className="flex gap-2">
+                  {day.isHoliday && <Badge variant="outline">Holiday</Badge>}
+                  {day.leaveType && <Badge variant="outline">On leave</Badge>}
+                  <Badge variant={day.source === 'roster' ? 'success' : 'outline'}>
+                    {day.source === 'roster' ? 'Roster' : 'Weekly'}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,342 @@
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Gauge, History, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PageLoader } from '@/components/common/PageLoader';
+import { useScoringModel, usePublishScoringModel } from '../hooks/useScoringModel';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatDate } from '@/lib/utils/date.utils';
+import { formatScoringModelVersion } from '@/lib/utils/format.utils';
+import type { ScoringModelConfig, ScoringModelResponse } from '@/types/company.types';
+
+// Weights are edited as whole percentages and sent to the API as fractions
+const percent = z.number({ invalid_type_error: 'Required' }).int().min(0).max(100);
+const score = z.number({ invalid_type_error: 'Required' }).int().min(0).max(100);
+const hours = z.number({ invalid_type_error: 'Required' }).min(0).max(24);
+
+const scoringModelSchema = z
+  .object({
+    withPain: z
+      .object({ sleep: percent, stress: percent, physical: percent, pain: percent })
+      .refine((w) => w.sleep + w.stress + w.physical + w.pain === 100, {
+        message: 'Weights must add up to 100%',
+      }),
+    withoutPain: z
+      .object({ sleep: percent, stress: percent, physical: percent })
+      .refine((w) => w.sleep + w.stress + w.physical === 100, {
+        message: 'Weights must add up to 100%',
+      }),
+    green: score,
+    yellow: score,
+    optimalMinHours: hours,
+    optimalMaxHours: hours,
+    optimalScore: score,
+    oversleepScore: score,
+    bands: z.array(z.object({ minHours: hours, score })).max(10),
+    minimumScore: score,
+    notes: z.string().max(500),
+  })
+  .refine((d) => d.yellow < d.green, {
+    message: 'Must be lower than the green threshold',
+    path: ['yellow'],
+  })
+  .refine((d) => d.optimalMinHours <= d.optimalMaxHours, {
+    message: 'Must not be less than the optimal minimum',
+    path: ['optimalMaxHours'],
+  })
+  .refine((d) => d.bands.every((b) => b.minHours < d.optimalMinHours), {
+    message: 'Bands must start below the optimal range',
+    path: ['bands'],
+  });
+
+type ScoringModelForm = z.infer<typeof scoringModelSchema>;
+
+const toPercent = (fraction: number) => Math.round(fraction * 100);
+const toFraction = (pct: number) => pct / 100;
+
+function toFormValues(config: ScoringModelConfig): ScoringModelForm {
+  const { withPain, withoutPain } = config.weights;
+  return {
+    withPain: {
+      sleep: toPercent(withPain.sleep),
+      stress: toPercent(withPain.stress),
+      physical: toPercent(withPain.physical),
+      pain: toPercent(withPain.pain),
+    },
+    withoutPain: {
+      sleep: toPercent(withoutPain.sleep),
+      stress: toPercent(withoutPain.stress),
+      physical: toPercent(withoutPain.physical),
+    },
+    green: config.thresholds.green,
+    yellow: config.thresholds.yellow,
+    ...config.sleep,
+    bands: config.sleep.bands.map((b) => ({ ...b })),
+    notes: '',
+  };
+}
+
+function toConfig(data: ScoringModelForm): ScoringModelConfig {
+  return {
+    weights: {
+      withPain: {
+        sleep: toFraction(data.withPain.sleep),
+        stress: toFraction(data.withPain.stress),
+        physical: toFraction(data.withPain.physical),
+        pain: toFraction(data.withPain.pain),
+      },
+      withoutPain: {
+        sleep: toFraction(data.withoutPain.sleep),
+        stress: toFraction(data.withoutPain.stress),
+        physical: toFraction(data.withoutPain.physical),
+      },
+    },
+    thresholds: { green: data.green, yellow: data.yellow },
+    sleep: {
+      optimalMinHours: data.optimalMinHours,
+      optimalMaxHours: data.optimalMaxHours,
+      optimalScore: data.optimalScore,
+      oversleepScore: data.oversleepScore,
+      bands: data.bands,
+      minimumScore: data.minimumScore,
+    },
+  };
+}
+
+export function ScoringModelCard() {
+  const { data, isLoading, error } = useScoringModel();
+
+  return (
+    <PageLoader isLoading={isLoading} error={error} skeleton="form">
+      {data && <ScoringModelForm key={data.active.version} model={data} />}
+    </PageLoader>
+  );
+}
+
+interface ScoringModelFormProps {
+  model: ScoringModelResponse;
+}
+
+function ScoringModelForm({ model }: ScoringModelFormProps) {
+  const publishModel = usePublishScoringModel();
+  const { toast } = useToast();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<ScoringModelForm>({
+    resolver: zodResolver(scoringModelSchema),
+    defaultValues: toFormValues(model.active.config),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'bands' });
+
+  const onSubmit = async (data: ScoringModelForm) => {
+    try {
+      const result = await publishModel.mutateAsync({
+        ...toConfig(data),
+        notes: data.notes.trim() || undefined,
+      });
+      toast({
+        variant: 'success',
+        title: 'Scoring model published',
+        description: `Version ${result.version} applies to new check-ins. Existing check-ins keep their original scores.`,
+      });
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to publish scoring model',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  const numberField = (name: Parameters<typeof register>[0]) =>
+    register(name, { valueAsNumber: true });
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Readiness Scoring Model
+            </CardTitle>
+            <Badge variant="secondary">{formatScoringModelVersion(model.active.version)}</Badge>
+          </div>
+          <CardDescription>
+            Weights, readiness thresholds and sleep bands used to score check-ins. Publishing
+            creates a new version — past check-ins keep the version they were scored with.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Weights */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label>Weights when pain is reported (%)</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {(['sleep', 'stress', 'physical', 'pain'] as const).map((factor) => (
+                  <div key={factor} className="space-y-1">
+                    <p className="text-xs capitalize text-muted-foreground">{factor}</p>
+                    <Input type="number" {...numberField(`withPain.${factor}`)} />
+                  </div>
+                ))}
+              </div>
+              {errors.withPain?.root && (
+                <p className="text-sm text-destructive">{errors.withPain.root.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Weights without pain (%)</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {(['sleep', 'stress', 'physical'] as const).map((factor) => (
+                  <div key={factor} className="space-y-1">
+                    <p className="text-xs capitalize text-muted-foreground">{factor}</p>
+                    <Input type="number" {...numberField(`withoutPain.${factor}`)} />
+                  </div>
+                ))}
+              </div>
+              {errors.withoutPain?.root && (
+                <p className="text-sm text-destructive">{errors.withoutPain.root.message}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Thresholds */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="green">Green at or above</Label>
+              <Input id="green" type="number" {...numberField('green')} />
+              {errors.green && <p className="text-sm text-destructive">{errors.green.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="yellow">Yellow at or above</Label>
+              <Input id="yellow" type="number" {...numberField('yellow')} />
+              {errors.yellow && <p className="text-sm text-destructive">{errors.yellow.message}</p>}
+              <p className="text-xs text-muted-foreground">Scores below this are Red</p>
+            </div>
+          </div>
+
+          {/* Sleep bands */}
+          <div className="space-y-3">
+            <Label>Sleep hours</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Optimal from (h)</p>
+                <Input type="number" step="0.5" {...numberField('optimalMinHours')} />
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Optimal to (h)</p>
+                <Input type="number" step="0.5" {...numberField('optimalMaxHours')} />
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Optimal score</p>
+                <Input type="number" {...numberField('optimalScore')} />
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Above optimal score</p>
+                <Input type="number" {...numberField('oversleepScore')} />
+              </div>
+            </div>
+            {errors.optimalMaxHours && (
+              <p className="text-sm text-destructive">{errors.optimalMaxHours.message}</p>
+            )}
+
+            <p className="text-xs text-muted-foreground">Below optimal</p>
+            {fields.map((field, index) => (
+              <div key={field.id} className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <p className="text-xs text-muted-foreground">From (h)</p>
+                  <Input type="number" step="0.5" {...numberField(`bands.${index}.minHours`)} />
+                </div>
+                <div className="flex-1 space-y-1">
+                  <p className="text-xs text-muted-foreground">Score</p>
+                  <Input type="number" {...numberField(`bands.${index}.score`)} />
+                </div>
+                <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {errors.bands?.root && (
+              <p className="text-sm text-destructive">{errors.bands.root.message}</p>
+            )}
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1">
+                <p className="text-xs text-muted-foreground">Less than lowest band, score</p>
+                <Input type="number" {...numberField('minimumScore')} />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={fields.length >= 10}
+                onClick={() => append({ minHours: 0, score: 0 })}
+              >
+                <Plus className="h-4 w-4 mr-1.5" />
+                Add Band
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">Change notes</Label>
+            <Input
+              id="notes"
+              placeholder="e.g. Stricter thresholds for mining site"
+              {...register('notes')}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => reset(toFormValues(model.defaultConfig), { keepDefaultValues: true })}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Load Defaults
+            </Button>
+            <Button type="submit" disabled={!isDirty || publishModel.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              {publishModel.isPending ? 'Publishing...' : 'Publish New Version'}
+            </Button>
+          </div>
+
+          {/* Version history */}
+          {model.versions.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <p className="flex items-center gap-2 text-sm font-medium">
+                <History className="h-4 w-4" />
+                Version History
+              </p>
+              <ul className="divide-y text-sm">
+                {model.versions.map((v) => (
+                  <li key={v.version} className="flex items-center justify-between gap-4 py-2">
+                    <div className="min-w-0">
+                      <p className="font-medium">{formatScoringModelVersion(v.version)}</p>
+                      {v.notes && <p className="truncate text-muted-foreground">{v.notes}</p>}
+                    </div>
+                    <p className="shrink-0 text-xs text-muted-foreground">
+                      {v.createdBy?.name}
+                      {v.createdAt && ` · ${formatDate(v.createdAt)}`}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </form>
+  );
+}
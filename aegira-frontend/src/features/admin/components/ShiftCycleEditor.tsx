@@ -0,0 +1,138 @@
+import { Moon, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ScheduleWindow, ShiftCycle } from '@/types/roster.types';
+
+const MAX_CYCLE_DAYS = 56; // matches backend limit
+const MAX_WINDOWS_PER_DAY = 3; // matches backend limit
+const DEFAULT_WINDOW: ScheduleWindow = { start: '06:00', end: '10:00' };
+
+interface ShiftCycleEditorProps {
+  value: ShiftCycle;
+  onChange: (cycle: ShiftCycle) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Edits a rotating cycle: one row per cycle day, each with up to three check-in windows.
+ * A day with no windows is a rest day; a window whose end is before its start closes the next morning.
+ */
+export function ShiftCycleEditor({ value, onChange, disabled }: ShiftCycleEditorProps) {
+  const updateDay = (dayIndex: number, windows: ScheduleWindow[]) => {
+    onChange(value.map((day, i) => (i === dayIndex ? windows : day)));
+  };
+
+  const updateWindow = (dayIndex: number, windowIndex: number, patch: Partial<ScheduleWindow>) => {
+    const day = value[dayIndex] ?? [];
+    updateDay(dayIndex, day.map((w, i) => (i === windowIndex ? { ...w, ...patch } : w)));
+  };
+
+  const addWindow = (dayIndex: number) => {
+    const day = value[dayIndex] ?? [];
+    updateDay(dayIndex, [...day, day.length === 0 ? DEFAULT_WINDOW : { start: '', end: '' }]);
+  };
+
+  const removeWindow = (dayIndex: number, windowIndex: number) => {
+    const day = value[dayIndex] ?? [];
+    updateDay(dayIndex, day.filter((_, i) => i !== windowIndex));
+  };
+
+  const addDay = () => {
+    // Repeat the last day so building "4 nights" is four clicks, not four edits
+    const last = value[value.length - 1] ?? [DEFAULT_WINDOW];
+    onChange([...value, last.map((w) => ({ ...w }))]);
+  };
+
+  const removeDay = (dayIndex: number) => {
+    onChange(value.filter((_, i) => i !== dayIndex));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((day, dayIndex) => (
+        <div key={dayIndex} className="flex flex-col gap-2 rounded-lg border p-3 md:flex-row md:items-center">
+          <span className="w-16 shrink-0 text-sm font-medium">Day {dayIndex + 1}</span>
+
+          <div className="flex flex-1 flex-wrap items-center gap-2">
+            {day.length === 0 && <span className="text-sm text-muted-foreground">Rest day</span>}
+            {day.map((window, windowIndex) => (
+              <div key={windowIndex} className="flex items-center gap-1">
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={window.start}
+                  onChange={(e) => updateWindow(dayIndex, windowIndex, { start: e.target.value })}
+                  disabled={disabled}
+                  required
+                  aria-label={`Day ${dayIndex + 1} window ${windowIndex + 1} start`}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={window.end}
+                  onChange={(e) => updateWindow(dayIndex, windowIndex, { end: e.target.value })}
+                  disabled={disabled}
+                  required
+                  aria-label={`Day ${dayIndex + 1} window ${windowIndex + 1} end`}
+                />
+                {window.start && window.end && window.end < window.start && (
+                  <Moon className="h-4 w-4 text-muted-foreground" aria-label="Closes the next morning" />
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeWindow(dayIndex, windowIndex)}
+                  disabled={disabled}
+                  aria-label="Remove window"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => addWindow(dayIndex)}
+              disabled={disabled || day.length >= MAX_WINDOWS_PER_DAY}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Window
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => removeDay(dayIndex)}
+              disabled={disabled || value.length <= 1}
+              aria-label={`Remove day ${dayIndex + 1}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {value.length}-day cycle. Empty days are rest days; an end time before the start closes the next morning.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addDay}
+          disabled={disabled || value.length >= MAX_CYCLE_DAYS}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add Day
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type {
+  AlertRule,
+  AlertRulePreview,
+  CreateAlertRuleData,
+  PreviewAlertRuleData,
+  UpdateAlertRuleData,
+} from '@/types/alert-rule.types';
+
+export type { AlertRule, CreateAlertRuleData, UpdateAlertRuleData };
+
+/**
+ * Company alert rules
+ * GET /api/v1/alert-rules
+ */
+export function useAlertRules() {
+  return useQuery({
+    queryKey: ['alert-rules'],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<AlertRule[]>(ENDPOINTS.ALERT_RULE.LIST),
+  });
+}
+
+export function useCreateAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateAlertRuleData) => apiClient.post<AlertRule>(ENDPOINTS.ALERT_RULE.LIST, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    },
+  });
+}
+
+export function useUpdateAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateAlertRuleData }) =>
+      apiClient.patch<AlertRule>(ENDPOINTS.ALERT_RULE.BY_ID(id), data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    },
+  });
+}
+
+export function useDeleteAlertRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.delete(ENDPOINTS.ALERT_RULE.BY_ID(id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules'] });
+    },
+  });
+}
+
+/**
+ * Dry run of a rule definition against recent history — sends nothing
+ * POST /api/v1/alert-rules/preview
+ */
+export function usePreviewAlertRule() {
+  return useMutation({
+    mutationFn: (data: PreviewAlertRuleData) =>
+      apiClient.post<AlertRulePreview>(ENDPOINTS.ALERT_RULE.PREVIEW, data),
+  });
+}
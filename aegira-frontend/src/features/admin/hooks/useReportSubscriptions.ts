@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type {
+  ReportSubscription,
+  CreateReportSubscriptionData,
+  UpdateReportSubscriptionData,
+} from '@/types/report.types';
+
+export type { ReportSubscription, CreateReportSubscriptionData, UpdateReportSubscriptionData };
+
+/**
+ * Scheduled report digests (weekly/monthly per team)
+ * GET /api/v1/reports/subscriptions
+ */
+export function useReportSubscriptions() {
+  return useQuery({
+    queryKey: ['report-subscriptions'],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<ReportSubscription[]>(ENDPOINTS.REPORT.SUBSCRIPTIONS),
+  });
+}
+
+export function useCreateReportSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateReportSubscriptionData) =>
+      apiClient.post<ReportSubscription>(ENDPOINTS.REPORT.SUBSCRIPTIONS, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-subscriptions'] });
+    },
+  });
+}
+
+export function useUpdateReportSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateReportSubscriptionData }) =>
+      apiClient.patch<ReportSubscription>(ENDPOINTS.REPORT.SUBSCRIPTION(id), data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-subscriptions'] });
+    },
+  });
+}
+
+export function useDeleteReportSubscription() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.delete(ENDPOINTS.REPORT.SUBSCRIPTION(id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['report-subscriptions'] });
+    },
+  });
+}
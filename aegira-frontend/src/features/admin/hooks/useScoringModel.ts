@@ -0,0 +1,35 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type {
+  ScoringModelResponse,
+  ScoringModelVersion,
+  UpdateScoringModelData,
+} from '@/types/company.types';
+
+/**
+ * Fetch the active readiness scoring model and its version history
+ */
+export function useScoringModel() {
+  return useQuery({
+    queryKey: ['admin', 'scoring-model'],
+    staleTime: STALE_TIMES.STATIC,
+    queryFn: () => apiClient.get<ScoringModelResponse>(ENDPOINTS.ADMIN.SCORING_MODEL),
+  });
+}
+
+/**
+ * Publish a new scoring model version
+ */
+export function usePublishScoringModel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UpdateScoringModelData) =>
+      apiClient.post<ScoringModelVersion>(ENDPOINTS.ADMIN.SCORING_MODEL, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'scoring-model'] });
+    },
+  });
+}
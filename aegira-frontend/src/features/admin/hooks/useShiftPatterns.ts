@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type {
+  ShiftPattern,
+  CreateShiftPatternData,
+  UpdateShiftPatternData,
+  AssignRosterData,
+  PersonSchedulePreview,
+} from '@/types/roster.types';
+
+export type { ShiftPattern, CreateShiftPatternData, UpdateShiftPatternData, AssignRosterData };
+
+/**
+ * Rotating shift patterns with their team/worker assignments
+ * GET /api/v1/rosters/patterns
+ */
+export function useShiftPatterns() {
+  return useQuery({
+    queryKey: ['shift-patterns'],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<ShiftPattern[]>(ENDPOINTS.ROSTER.PATTERNS),
+  });
+}
+
+export function useCreateShiftPattern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateShiftPatternData) =>
+      apiClient.post<ShiftPattern>(ENDPOINTS.ROSTER.PATTERNS, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-patterns'] });
+    },
+  });
+}
+
+export function useUpdateShiftPattern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateShiftPatternData }) =>
+      apiClient.patch<ShiftPattern>(ENDPOINTS.ROSTER.PATTERN(id), data),
+    onSuccess: () => {
+      // Cycle edits change the schedule of every assigned team and worker
+      queryClient.invalidateQueries({ queryKey: ['shift-patterns'] });
+      queryClient.invalidateQueries({ queryKey: ['roster-schedule'] });
+      queryClient.invalidateQueries({ queryKey: ['check-ins', 'status'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+    },
+  });
+}
+
+export function useDeleteShiftPattern() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.delete(ENDPOINTS.ROSTER.PATTERN(id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-patterns'] });
+    },
+  });
+}
+
+/**
+ * Assign (or clear) a team's or worker's roster
+ * PATCH /api/v1/rosters/teams/:teamId | /api/v1/rosters/persons/:personId
+ */
+export function useAssignRoster() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ target, id, data }: { target: 'team' | 'person'; id: string; data: AssignRosterData }) =>
+      apiClient.patch<{ message: string }>(
+        target === 'team' ? ENDPOINTS.ROSTER.TEAM(id) : ENDPOINTS.ROSTER.PERSON(id),
+        data
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shift-patterns'] });
+      queryClient.invalidateQueries({ queryKey: ['roster-schedule'] });
+      queryClient.invalidateQueries({ queryKey: ['check-ins', 'status'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+    },
+  });
+}
+
+/**
+ * Resolved day-by-day schedule for one worker (roster or weekly, with leave and holidays)
+ * GET /api/v1/rosters/persons/:personId/schedule?from&to
+ */
+export function usePersonSchedule(personId: string, from: string, to: string) {
+  return useQuery({
+    queryKey: ['roster-schedule', personId, from, to],
+    staleTime: STALE_TIMES.STANDARD,
+    placeholderData: keepPreviousData,
+    enabled: !!personId,
+    queryFn: () => {
+      const params = new URLSearchParams({ from, to });
+      return apiClient.get<PersonSchedulePreview>(
+        `${ENDPOINTS.ROSTER.PERSON_SCHEDULE(personId)}?${params.toString()}`
+      );
+    },
+  });
+}
@@ -0,0 +1,407 @@
+import { useState } from 'react';
+import { ColumnDef } from '@tanstack/react-table';
+import { BellRing, Plus, Trash2, Edit2 } from 'lucide-react';
+import { PageHeader } from '@/components/common/PageHeader';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DataTable, SortableHeader } from '@/components/ui/data-table';
+import { PageLoader } from '@/components/common/PageLoader';
+import { AlertRulePreviewPanel } from '../components/AlertRulePreviewPanel';
+import {
+  useAlertRules,
+  useCreateAlertRule,
+  useUpdateAlertRule,
+  useDeleteAlertRule,
+  type AlertRule,
+} from '../hooks/useAlertRules';
+import { useToast } from '@/lib/hooks/use-toast';
+import type { AlertRuleMetric, AlertTargetRole, PreviewAlertRuleData } from '@/types/alert-rule.types';
+
+interface MetricOption {
+  label: string;
+  /** What the threshold counts */
+  thresholdLabel: string;
+  /** Per-check-in cutoff, for metrics that take one */
+  value?: { label: string; min: number; max: number };
+}
+
+const METRICS: Record<AlertRuleMetric, MetricOption> = {
+  CONSECUTIVE_YELLOW_OR_RED: { label: 'YELLOW or RED check-ins in a row', thresholdLabel: 'Check-ins in a row' },
+  RED_CHECK_INS: { label: 'RED check-ins', thresholdLabel: 'RED check-ins' },
+  HIGH_STRESS: {
+    label: 'High stress',
+    thresholdLabel: 'Check-ins',
+    value: { label: 'Stress level at or above', min: 1, max: 10 },
+  },
+  HIGH_PAIN: {
+    label: 'High pain',
+    thresholdLabel: 'Check-ins',
+    value: { label: 'Pain level at or above', min: 1, max: 10 },
+  },
+  LOW_SLEEP: {
+    label: 'Low sleep',
+    thresholdLabel: 'Check-ins',
+    value: { label: 'Hours slept below', min: 1, max: 24 },
+  },
+  MISSED_CHECK_INS: { label: 'Missed check-ins', thresholdLabel: 'Misses' },
+};
+
+const TARGET_ROLES: Record<AlertTargetRole, string> = {
+  TEAM_LEAD: 'Team lead',
+  SUPERVISOR: 'Supervisor',
+  ADMIN: 'Admins',
+};
+
+interface RuleFormData {
+  name: string;
+  metric: AlertRuleMetric;
+  value: string;
+  threshold: string;
+  windowDays: string;
+  targetRole: AlertTargetRole;
+}
+
+const EMPTY_FORM: RuleFormData = {
+  name: '',
+  metric: 'CONSECUTIVE_YELLOW_OR_RED',
+  value: '',
+  threshold: '3',
+  windowDays: '7',
+  targetRole: 'TEAM_LEAD',
+};
+
+/** The rule part of the form, or null while a required number is missing */
+function toDefinition(form: RuleFormData): PreviewAlertRuleData | null {
+  const threshold = Number(form.threshold);
+  const windowDays = Number(form.windowDays);
+  const takesValue = METRICS[form.metric].value !== undefined;
+  if (!form.threshold || !form.windowDays || (takesValue && !form.value)) return null;
+
+  return {
+    metric: form.metric,
+    value: takesValue ? Number(form.value) : null,
+    threshold,
+    windowDays,
+  };
+}
+
+const getRuleColumns = (
+  onToggle: (rule: AlertRule) => void,
+  onEdit: (rule: AlertRule) => void,
+  onDelete: (rule: AlertRule) => void,
+  isBusy: boolean
+): ColumnDef<AlertRule>[] => [
+  {
+    accessorKey: 'name',
+    header: ({ column }) => <SortableHeader column={column}>Rule</SortableHeader>,
+    cell: ({ row }) => (
+      <div>
+        <p className="font-medium">{row.original.name}</p>
+        <p className="text-sm text-muted-foreground">{row.original.description}</p>
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'targetRole',
+    header: 'Alerts',
+    cell: ({ row }) => <span className="text-sm">{TARGET_ROLES[row.original.targetRole]}</span>,
+  },
+  {
+    accessorKey: 'isActive',
+    header: 'Active',
+    cell: ({ row }) => (
+      <Switch
+        checked={row.original.isActive}
+        onCheckedChange={() => onToggle(row.original)}
+        disabled={isBusy}
+        aria-label={row.original.isActive ? `Pause ${row.original.name}` : `Activate ${row.original.name}`}
+      />
+    ),
+  },
+  {
+    id: 'actions',
+    header: 'Actions',
+    cell: ({ row }) => (
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => onEdit(row.original)}>
+          <Edit2 className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onDelete(row.original)} disabled={isBusy}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    ),
+  },
+];
+
+export function AdminAlertRulesPage() {
+  const { toast } = useToast();
+  const { data: rules = [], isLoading, error } = useAlertRules();
+  const createMutation = useCreateAlertRule();
+  const updateMutation = useUpdateAlertRule();
+  const deleteMutation = useDeleteAlertRule();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<AlertRule | null>(null);
+
+  const metric = METRICS[formData.metric];
+  const definition = toDefinition(formData);
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: err instanceof Error ? err.message : 'Something went wrong.',
+    });
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingRule(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!definition) return;
+    const data = { name: formData.name, targetRole: formData.targetRole, ...definition };
+    try {
+      if (editingRule) {
+        await updateMutation.mutateAsync({ id: editingRule.id, data });
+        toast({ variant: 'success', title: 'Alert rule updated', description: `${formData.name} has been updated.` });
+      } else {
+        await createMutation.mutateAsync(data);
+        toast({ variant: 'success', title: 'Alert rule created', description: `${formData.name} applies from the next check-in.` });
+      }
+      closeForm();
+    } catch (err) {
+      showError(editingRule ? 'Failed to update alert rule' : 'Failed to create alert rule', err);
+    }
+  };
+
+  const handleEdit = (rule: AlertRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      metric: rule.metric,
+      value: rule.value?.toString() ?? '',
+      threshold: rule.threshold.toString(),
+      windowDays: rule.windowDays.toString(),
+      targetRole: rule.targetRole,
+    });
+    setShowForm(true);
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    try {
+      await updateMutation.mutateAsync({ id: rule.id, data: { isActive: !rule.isActive } });
+      toast({ variant: 'success', title: rule.isActive ? 'Alert rule paused' : 'Alert rule activated' });
+    } catch (err) {
+      showError('Failed to update alert rule', err);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteMutation.mutateAsync(deleteTarget.id);
+      toast({ variant: 'success', title: 'Alert rule deleted', description: `${deleteTarget.name} has been removed.` });
+    } catch (err) {
+      showError('Failed to delete alert rule', err);
+    }
+    setDeleteTarget(null);
+  };
+
+  const columns = getRuleColumns(
+    handleToggle,
+    handleEdit,
+    setDeleteTarget,
+    updateMutation.isPending || deleteMutation.isPending
+  );
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <PageLoader isLoading={isLoading} error={error} skeleton="table">
+    <div className="space-y-6">
+      <PageHeader
+        title="Alert Rules"
+        description="Notify team leads, supervisors or admins when a worker's check-ins or misses form a pattern"
+        action={
+          <Button onClick={() => { closeForm(); setShowForm(true); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        }
+      />
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingRule ? 'Edit Alert Rule' : 'Add Alert Rule'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleName">Rule Name</Label>
+                <Input
+                  id="ruleName"
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Sustained fatigue"
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Metric</Label>
+                  <Select
+                    value={formData.metric}
+                    onValueChange={(value) => setFormData({ ...formData, metric: value as AlertRuleMetric, value: '' })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(METRICS) as AlertRuleMetric[]).map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {METRICS[key].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {metric.value && (
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleValue">{metric.value.label}</Label>
+                    <Input
+                      id="ruleValue"
+                      type="number"
+                      min={metric.value.min}
+                      max={metric.value.max}
+                      value={formData.value}
+                      onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="ruleThreshold">{metric.thresholdLabel}</Label>
+                  <Input
+                    id="ruleThreshold"
+                    type="number"
+                    min={1}
+                    max={Number(formData.windowDays) || 90}
+                    value={formData.threshold}
+                    onChange={(e) => setFormData({ ...formData, threshold: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleWindow">Within (days)</Label>
+                  <Input
+                    id="ruleWindow"
+                    type="number"
+                    min={1}
+                    max={90}
+                    value={formData.windowDays}
+                    onChange={(e) => setFormData({ ...formData, windowDays: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Alert</Label>
+                  <Select
+                    value={formData.targetRole}
+                    onValueChange={(value) => setFormData({ ...formData, targetRole: value as AlertTargetRole })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TARGET_ROLES) as AlertTargetRole[]).map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {TARGET_ROLES[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Checked each time a check-in is submitted or a miss is detected. A rule alerts about the
+                same worker at most once per window.
+              </p>
+
+              <AlertRulePreviewPanel key={JSON.stringify(definition)} definition={definition} />
+
+              <div className="flex justify-end gap-4 pt-4">
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving || !definition}>
+                  {editingRule
+                    ? (updateMutation.isPending ? 'Updating...' : 'Update Rule')
+                    : (createMutation.isPending ? 'Creating...' : 'Create Rule')}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Alert Rules ({rules.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={rules}
+            isLoading={isLoading}
+            searchable
+            searchPlaceholder="Search rules..."
+            searchColumn="name"
+            emptyMessage="No alert rules yet. Add one to be told about patterns as they happen."
+          />
+        </CardContent>
+      </Card>
+    </div>
+
+    <ConfirmDialog
+      open={!!deleteTarget}
+      onOpenChange={(open) => { if (!open) setDeleteTarget(null); }}
+      title="Delete Alert Rule"
+      description="Are you sure you want to delete this rule? Alerts already sent are kept."
+      confirmLabel="Delete"
+      variant="destructive"
+      isLoading={deleteMutation.isPending}
+      onConfirm={handleDelete}
+    />
+    </PageLoader>
+  );
+}
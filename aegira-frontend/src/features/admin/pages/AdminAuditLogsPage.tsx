@@ -4,10 +4,11 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { ColumnDef, PaginationState } from '@tanstack/react-table';
-import { FileText, Download, Lock, Loader2 } from 'lucide-react';
+import { FileText, Lock, Loader2 } from 'lucide-react';
 import { PageHeader } from '@/components/common/PageHeader';
 import { RoleBadge } from '@/components/common/RoleBadge';
 import { TableSearch } from '@/components/common/TableSearch';
+import { ExportButton } from '@/components/common/ExportButton';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -166,7 +167,6 @@ function AuditLogsContent() {
     pageIndex: 0,
     pageSize: 20,
   });
-  const { toast } = useToast();
   const [dateFilter, setDateFilter] = useState('');
   const [searchInput, setSearchInput] = useState('');
   const [search, setSearch] = useState('');
@@ -193,31 +193,6 @@ function AuditLogsContent() {
     setPagination((prev) => ({ ...prev, pageIndex: 0 }));
   };
 
-  const handleExport = async () => {
-    try {
-      const allItems: AuditLog[] = [];
-      const maxPages = 10;
-      for (let page = 1; page <= maxPages; page++) {
-        const response = await apiClient.get<PaginatedResponse<AuditLog>>(
-          `${ENDPOINTS.ADMIN.AUDIT_LOGS}?page=${page}&limit=100`
-        );
-        allItems.push(...response.items);
-        if (!response.items.length || page >= (response.pagination?.totalPages ?? 1)) break;
-      }
-      const blob = new Blob([JSON.stringify(allItems, null, 2)], { type: 'application/json' });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.setAttribute('download', `audit-logs-${new Date().toISOString().split('T')[0]}.json`);
-      document.body.appendChild(link);
-      link.click();
-      link.remove();
-      URL.revokeObjectURL(url);
-    } catch {
-      toast({ variant: 'destructive', title: 'Export failed', description: 'Could not export audit logs. Please try again.' });
-    }
-  };
-
   const logs = data?.items || [];
   const pageCount = data?.pagination?.totalPages || 0;
 
@@ -228,10 +203,12 @@ function AuditLogsContent() {
           title="Audit Logs"
           description="Track user actions and system events across the platform."
           action={
-            <Button variant="outline" onClick={handleExport}>
-              <Download className="mr-2 h-4 w-4" />
-              Export Logs
-            </Button>
+            <ExportButton
+              endpoint={ENDPOINTS.ADMIN.AUDIT_LOGS_EXPORT}
+              params={{ date: dateFilter || undefined, search: search || undefined }}
+              fileName="audit-logs"
+              label="Export Logs"
+            />
           }
         />
 
@@ -1,12 +1,13 @@
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Save, Building2, MapPin } from 'lucide-react';
+import { Save, Building2, MapPin, Archive, KeyRound, LogIn, ShieldAlert } from 'lucide-react';
 import { PageHeader } from '@/components/common/PageHeader';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -17,6 +18,8 @@ import {
 import { PageLoader } from '@/components/common/PageLoader';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
 import { useCompanySettings, useUpdateCompanySettings } from '../hooks/useCompanySettings';
+import { ScoringModelCard } from '../components/ScoringModelCard';
+import { ReportSubscriptionsCard } from '../components/ReportSubscriptionsCard';
 import { useToast } from '@/lib/hooks/use-toast';
 import {
   TIMEZONES,
@@ -25,7 +28,23 @@ import {
   BUSINESS_TYPES,
   COUNTRIES,
 } from '@/config/company.config';
-import type { CompanySettings } from '@/types/company.types';
+import { ROLE_LABELS } from '@/lib/utils/format.utils';
+import type { CompanySettings, UpdateCompanySettingsData } from '@/types/company.types';
+import type { UserRole } from '@/types/auth.types';
+
+const MFA_POLICY_ROLES: UserRole[] = ['ADMIN', 'WHS', 'SUPERVISOR', 'TEAM_LEAD', 'WORKER'];
+
+/** Optional retention period entered as text — blank means "keep forever" */
+function optionalDays(min: number) {
+  return z
+    .string()
+    .trim()
+    .refine((v) => v === '' || (/^\d+$/.test(v) && Number(v) >= min && Number(v) <= 3650), {
+      message: `Enter ${min}-3650 days, or leave blank to keep forever`,
+    });
+}
+
+const toDays = (value: string): number | null => (value === '' ? null : Number(value));
 
 const companySettingsSchema = z.object({
   companyName: z.string().min(1, 'Company name is required').max(100),
@@ -39,6 +58,19 @@ const companySettingsSchema = z.object({
   addressPostalCode: z.string().max(20),
   addressState: z.string().max(100),
   addressCountry: z.string(),
+  notificationArchiveDays: z.number({ invalid_type_error: 'Required' }).int().min(1).max(365),
+  notificationPurgeDays: z.number({ invalid_type_error: 'Required' }).int().min(1).max(3650),
+  // Blank = keep forever
+  eventPayloadRetentionDays: optionalDays(30),
+  auditLogRetentionDays: optionalDays(365),
+  mfaRequiredRoles: z.array(z.enum(['ADMIN', 'WHS', 'SUPERVISOR', 'TEAM_LEAD', 'WORKER'])),
+  redFollowUpAckMinutes: z.number({ invalid_type_error: 'Required' }).int().min(5).max(1440),
+  passwordLoginEnabled: z.boolean(),
+  ssoEnabled: z.boolean(),
+  ssoIssuer: z.string().trim().url('Enter the issuer URL').or(z.literal('')),
+  ssoClientId: z.string().trim().max(255),
+  // Blank = keep the saved secret
+  ssoClientSecret: z.string().max(1000),
 });
 
 type CompanySettingsForm = z.infer<typeof companySettingsSchema>;
@@ -85,6 +117,17 @@ function CompanySettingsForm({ settings }: CompanySettingsFormProps) {
       addressPostalCode: settings.addressPostalCode,
       addressState: settings.addressState,
       addressCountry: settings.addressCountry,
+      notificationArchiveDays: settings.notificationArchiveDays,
+      notificationPurgeDays: settings.notificationPurgeDays,
+      eventPayloadRetentionDays: settings.eventPayloadRetentionDays?.toString() ?? '',
+      auditLogRetentionDays: settings.auditLogRetentionDays?.toString() ?? '',
+      mfaRequiredRoles: settings.mfaRequiredRoles,
+      redFollowUpAckMinutes: settings.redFollowUpAckMinutes,
+      passwordLoginEnabled: settings.passwordLoginEnabled,
+      ssoEnabled: settings.ssoEnabled,
+      ssoIssuer: settings.ssoIssuer ?? '',
+      ssoClientId: settings.ssoClientId ?? '',
+      ssoClientSecret: '',
     },
   });
 
@@ -93,10 +136,18 @@ function CompanySettingsForm({ settings }: CompanySettingsFormProps) {
   const selectedRegType = watch('businessRegistrationType');
   const selectedBizType = watch('businessType');
   const selectedCountry = watch('addressCountry');
+  const mfaRequiredRoles = watch('mfaRequiredRoles');
+  const ssoEnabled = watch('ssoEnabled');
+  const passwordLoginEnabled = watch('passwordLoginEnabled');
+
+  const toggleMfaRole = (role: UserRole, required: boolean) => {
+    const next = required ? [...mfaRequiredRoles, role] : mfaRequiredRoles.filter((r) => r !== role);
+    setValue('mfaRequiredRoles', next, { shouldDirty: true });
+  };
 
   const onSubmit = async (data: CompanySettingsForm) => {
     // Only send fields that actually changed
-    const updates: Record<string, string> = {};
+    const updates: UpdateCompanySettingsData = {};
     const fields = [
       'companyName', 'timezone', 'industry',
       'businessRegistrationType', 'businessRegistrationNumber', 'businessType',
@@ -109,6 +160,49 @@ function CompanySettingsForm({ settings }: CompanySettingsFormProps) {
       }
     }
 
+    const retentionFields = ['notificationArchiveDays', 'notificationPurgeDays'] as const;
+    for (const field of retentionFields) {
+      if (data[field] !== settings[field]) {
+        updates[field] = data[field];
+      }
+    }
+
+    if (data.redFollowUpAckMinutes !== settings.redFollowUpAckMinutes) {
+      updates.redFollowUpAckMinutes = data.redFollowUpAckMinutes;
+    }
+
+    const eventDays = toDays(data.eventPayloadRetentionDays);
+    if (eventDays !== settings.eventPayloadRetentionDays) {
+      updates.eventPayloadRetentionDays = eventDays;
+    }
+    const auditDays = toDays(data.auditLogRetentionDays);
+    if (auditDays !== settings.auditLogRetentionDays) {
+      updates.auditLogRetentionDays = auditDays;
+    }
+
+    const mfaChanged =
+      data.mfaRequiredRoles.length !== settings.mfaRequiredRoles.length ||
+      data.mfaRequiredRoles.some((role) => !settings.mfaRequiredRoles.includes(role));
+    if (mfaChanged) {
+      updates.mfaRequiredRoles = data.mfaRequiredRoles;
+    }
+
+    if (data.passwordLoginEnabled !== settings.passwordLoginEnabled) {
+      updates.passwordLoginEnabled = data.passwordLoginEnabled;
+    }
+    if (data.ssoEnabled !== settings.ssoEnabled) {
+      updates.ssoEnabled = data.ssoEnabled;
+    }
+    if (data.ssoIssuer !== (settings.ssoIssuer ?? '')) {
+      updates.ssoIssuer = data.ssoIssuer || null;
+    }
+    if (data.ssoClientId !== (settings.ssoClientId ?? '')) {
+      updates.ssoClientId = data.ssoClientId || null;
+    }
+    if (data.ssoClientSecret) {
+      updates.ssoClientSecret = data.ssoClientSecret;
+    }
+
     if (Object.keys(updates).length === 0) {
       toast({ variant: 'warning', title: 'No changes', description: 'No modifications were detected.' });
       return;
@@ -312,6 +406,200 @@ function CompanySettingsForm({ settings }: CompanySettingsFormProps) {
           </Card>
         </div>
 
+        {/* Readiness Follow-Up Card */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Readiness Follow-Up
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              RED and YELLOW check-ins open a follow-up for the team lead. A RED check-in that is not
+              acknowledged in time is escalated to the team supervisor (or admins if there is none).
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="redFollowUpAckMinutes">Acknowledge RED check-ins within (minutes)</Label>
+                <Input
+                  id="redFollowUpAckMinutes"
+                  type="number"
+                  {...register('redFollowUpAckMinutes', { valueAsNumber: true })}
+                />
+                {errors.redFollowUpAckMinutes && (
+                  <p className="text-sm text-destructive">{errors.redFollowUpAckMinutes.message}</p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Data Retention Card */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Archive className="h-5 w-5" />
+              Data Retention
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Applied by the weekly cleanup job every Sunday.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="notificationArchiveDays">Archive read notifications after (days)</Label>
+                <Input
+                  id="notificationArchiveDays"
+                  type="number"
+                  {...register('notificationArchiveDays', { valueAsNumber: true })}
+                />
+                {errors.notificationArchiveDays && (
+                  <p className="text-sm text-destructive">{errors.notificationArchiveDays.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notificationPurgeDays">Delete archived notifications after (days)</Label>
+                <Input
+                  id="notificationPurgeDays"
+                  type="number"
+                  {...register('notificationPurgeDays', { valueAsNumber: true })}
+                />
+                {errors.notificationPurgeDays && (
+                  <p className="text-sm text-destructive">{errors.notificationPurgeDays.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="eventPayloadRetentionDays">Trim event details after (days)</Label>
+                <Input
+                  id="eventPayloadRetentionDays"
+                  inputMode="numeric"
+                  placeholder="Keep forever"
+                  {...register('eventPayloadRetentionDays')}
+                />
+                {errors.eventPayloadRetentionDays && (
+                  <p className="text-sm text-destructive">{errors.eventPayloadRetentionDays.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auditLogRetentionDays">Delete audit logs after (days)</Label>
+                <Input
+                  id="auditLogRetentionDays"
+                  inputMode="numeric"
+                  placeholder="Keep forever"
+                  {...register('auditLogRetentionDays')}
+                />
+                {errors.auditLogRetentionDays && (
+                  <p className="text-sm text-destructive">{errors.auditLogRetentionDays.message}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Check your legal record-keeping period before enabling
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Two-Factor Policy Card */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Two-Factor Authentication
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              People in these roles must use an authenticator app to sign in, single sign-on included.
+              Anyone not yet enrolled is asked to set it up at their next login.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {MFA_POLICY_ROLES.map((role) => (
+                <div key={role} className="flex items-center space-x-3">
+                  <Switch
+                    id={`mfa-${role}`}
+                    checked={mfaRequiredRoles.includes(role)}
+                    onCheckedChange={(checked) => toggleMfaRole(role, checked)}
+                  />
+                  <Label htmlFor={`mfa-${role}`}>{ROLE_LABELS[role]}</Label>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Single Sign-On Card */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <LogIn className="h-5 w-5" />
+              Single Sign-On
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Let people sign in with your company identity provider (OpenID Connect). They are matched
+              to existing accounts by email — nobody is created automatically.
+            </p>
+            <div className="flex items-center space-x-3">
+              <Switch
+                id="ssoEnabled"
+                checked={ssoEnabled}
+                onCheckedChange={(checked) => setValue('ssoEnabled', checked, { shouldDirty: true })}
+              />
+              <Label htmlFor="ssoEnabled">Enable single sign-on</Label>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="ssoIssuer">Issuer URL</Label>
+                <Input
+                  id="ssoIssuer"
+                  placeholder="e.g. https://login.microsoftonline.com/<tenant-id>/v2.0"
+                  {...register('ssoIssuer')}
+                />
+                {errors.ssoIssuer && (
+                  <p className="text-sm text-destructive">{errors.ssoIssuer.message}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ssoClientId">Client ID</Label>
+                <Input id="ssoClientId" autoComplete="off" {...register('ssoClientId')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ssoClientSecret">Client Secret</Label>
+                <Input
+                  id="ssoClientSecret"
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder={settings.ssoClientSecretSet ? 'Saved — leave blank to keep' : ''}
+                  {...register('ssoClientSecret')}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="ssoRedirectUri">Redirect URI</Label>
+                <Input id="ssoRedirectUri" value={settings.ssoRedirectUri} readOnly className="bg-muted" />
+                <p className="text-xs text-muted-foreground">
+                  Register this as the redirect (callback) URI in your identity provider
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Switch
+                id="passwordLoginEnabled"
+                checked={passwordLoginEnabled}
+                disabled={!ssoEnabled && passwordLoginEnabled}
+                onCheckedChange={(checked) => setValue('passwordLoginEnabled', checked, { shouldDirty: true })}
+              />
+              <Label htmlFor="passwordLoginEnabled">Allow password login</Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              When off, everyone except admins must use single sign-on. Admins keep password login so a
+              provider outage can't lock your company out.
+            </p>
+          </CardContent>
+        </Card>
+
         <div className="flex justify-end pt-4">
           <Button type="submit" disabled={!isDirty || isSubmitting || updateSettings.isPending}>
             <Save className="h-4 w-4 mr-2" />
@@ -319,6 +607,10 @@ function CompanySettingsForm({ settings }: CompanySettingsFormProps) {
           </Button>
         </div>
       </form>
+
+      <ScoringModelCard />
+
+      <ReportSubscriptionsCard />
     </div>
   );
 }
@@ -0,0 +1,353 @@
+import { useState } from 'react';
+import { ColumnDef } from '@tanstack/react-table';
+import { Repeat, Plus, Trash2, Edit2, UserPlus, X } from 'lucide-react';
+import { PageHeader } from '@/components/common/PageHeader';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DataTable, SortableHeader } from '@/components/ui/data-table';
+import { PageLoader } from '@/components/common/PageLoader';
+import { ShiftCycleEditor } from '../components/ShiftCycleEditor';
+import { RosterAssignDialog } from '../components/RosterAssignDialog';
+import { RosterSchedulePreviewCard } from '../components/RosterSchedulePreviewCard';
+import {
+  useShiftPatterns,
+  useCreateShiftPattern,
+  useUpdateShiftPattern,
+  useDeleteShiftPattern,
+  useAssignRoster,
+  type ShiftPattern,
+} from '../hooks/useShiftPatterns';
+import { useToast } from '@/lib/hooks/use-toast';
+import type { ShiftCycle } from '@/types/roster.types';
+
+interface PatternFormData {
+  name: string;
+  description: string;
+  cycle: ShiftCycle;
+}
+
+// Four days on, four nights on, four off — the most common rotation, and a useful starting point
+const DEFAULT_CYCLE: ShiftCycle = [
+  ...Array.from({ length: 4 }, () => [{ start: '05:30', end: '07:00' }]),
+  ...Array.from({ length: 4 }, () => [{ start: '17:30', end: '19:00' }]),
+  ...Array.from({ length: 4 }, () => []),
+];
+
+const EMPTY_FORM: PatternFormData = { name: '', description: '', cycle: DEFAULT_CYCLE };
+
+type ClearTarget = { target: 'team' | 'person'; id: string; name: string };
+
+const getPatternColumns = (
+  onAssign: (pattern: ShiftPattern) => void,
+  onEdit: (pattern: ShiftPattern) => void,
+  onDelete: (pattern: ShiftPattern) => void,
+  onClear: (target: ClearTarget) => void,
+  isDeleting: boolean
+): ColumnDef<ShiftPattern>[] => [
+  {
+    accessorKey: 'name',
+    header: ({ column }) => <SortableHeader column={column}>Pattern</SortableHeader>,
+    cell: ({ row }) => (
+      <div>
+        <p className="font-medium">{row.original.name}</p>
+        {row.original.description && (
+          <p className="text-sm text-muted-foreground">{row.original.description}</p>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'cycle',
+    header: 'Cycle',
+    cell: ({ row }) => {
+      const { cycle } = row.original;
+      const working = cycle.filter((day) => day.length > 0).length;
+      return (
+        <span className="text-sm">
+          {cycle.length} days · {working} working
+        </span>
+      );
+    },
+  },
+  {
+    id: 'assigned',
+    header: 'Assigned To',
+    cell: ({ row }) => {
+      const { teams, workers } = row.original;
+      if (teams.length === 0 && workers.length === 0) {
+        return <span className="text-sm text-muted-foreground">Not assigned</span>;
+      }
+      return (
+        <div className="flex flex-wrap gap-1">
+          {teams.map((team) => (
+            <Badge key={team.id} variant="secondary" className="gap-1">
+              {team.name}
+              <button
+                type="button"
+                onClick={() => onClear({ target: 'team', id: team.id, name: team.name })}
+                aria-label={`Remove roster from ${team.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          {workers.map((worker) => (
+            <Badge key={worker.id} variant="outline" className="gap-1">
+              {worker.name}
+              <button
+                type="button"
+                onClick={() => onClear({ target: 'person', id: worker.id, name: worker.name })}
+                aria-label={`Remove roster from ${worker.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      );
+    },
+  },
+  {
+    id: 'actions',
+    header: 'Actions',
+    cell: ({ row }) => (
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => onAssign(row.original)}>
+          <UserPlus className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onEdit(row.original)}>
+          <Edit2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onDelete(row.original)}
+          disabled={isDeleting}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    ),
+  },
+];
+
+export function AdminShiftPatternsPage() {
+  const { toast } = useToast();
+  const { data: patterns = [], isLoading, error } = useShiftPatterns();
+  const createMutation = useCreateShiftPattern();
+  const updateMutation = useUpdateShiftPattern();
+  const deleteMutation = useDeleteShiftPattern();
+  const assignMutation = useAssignRoster();
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingPattern, setEditingPattern] = useState<ShiftPattern | null>(null);
+  const [formData, setFormData] = useState<PatternFormData>(EMPTY_FORM);
+  const [assignTarget, setAssignTarget] = useState<ShiftPattern | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<ShiftPattern | null>(null);
+  const [clearTarget, setClearTarget] = useState<ClearTarget | null>(null);
+
+  const showError = (title: string, err: unknown) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: err instanceof Error ? err.message : 'Something went wrong.',
+    });
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingPattern(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const description = formData.description.trim();
+    try {
+      if (editingPattern) {
+        await updateMutation.mutateAsync({
+          id: editingPattern.id,
+          data: { name: formData.name, description: description || null, cycle: formData.cycle },
+        });
+        toast({ variant: 'success', title: 'Pattern updated', description: `${formData.name} has been updated.` });
+      } else {
+        await createMutation.mutateAsync({
+          name: formData.name,
+          description: description || undefined,
+          cycle: formData.cycle,
+        });
+        toast({ variant: 'success', title: 'Pattern created', description: `${formData.name} has been added.` });
+      }
+      closeForm();
+    } catch (err) {
+      showError(editingPattern ? 'Failed to update pattern' : 'Failed to create pattern', err);
+    }
+  };
+
+  const handleEdit = (pattern: ShiftPattern) => {
+    setEditingPattern(pattern);
+    setFormData({ name: pattern.name, description: pattern.description ?? '', cycle: pattern.cycle });
+    setShowForm(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteMutation.mutateAsync(deleteTarget.id);
+      toast({ variant: 'success', title: 'Pattern deleted', description: 'The shift pattern has been removed.' });
+    } catch (err) {
+      showError('Failed to delete pattern', err);
+    }
+    setDeleteTarget(null);
+  };
+
+  const handleClear = async () => {
+    if (!clearTarget) return;
+    try {
+      await assignMutation.mutateAsync({
+        target: clearTarget.target,
+        id: clearTarget.id,
+        data: { shiftPatternId: null },
+      });
+      toast({ variant: 'success', title: 'Roster removed', description: `${clearTarget.name} is back on the weekly schedule.` });
+    } catch (err) {
+      showError('Failed to remove roster', err);
+    }
+    setClearTarget(null);
+  };
+
+  const columns = getPatternColumns(
+    setAssignTarget,
+    handleEdit,
+    setDeleteTarget,
+    setClearTarget,
+    deleteMutation.isPending
+  );
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <PageLoader isLoading={isLoading} error={error} skeleton="table">
+    <div className="space-y-6">
+      <PageHeader
+        title="Shift Rosters"
+        description="Rotating shift patterns for teams and workers whose schedule does not repeat weekly"
+        action={
+          <Button onClick={() => { closeForm(); setShowForm(true); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Pattern
+          </Button>
+        }
+      />
+
+      {showForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingPattern ? 'Edit Shift Pattern' : 'Add Shift Pattern'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Pattern Name</Label>
+                <Input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., 4 on 4 off (days/nights)"
+                  maxLength={100}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  maxLength={500}
+                  rows={2}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Cycle</Label>
+                <ShiftCycleEditor
+                  value={formData.cycle}
+                  onChange={(cycle) => setFormData({ ...formData, cycle })}
+                  disabled={isSaving}
+                />
+              </div>
+              {editingPattern && (editingPattern.teams.length > 0 || editingPattern.workers.length > 0) && (
+                <p className="text-sm text-muted-foreground">
+                  Changes apply immediately to every team and worker on this pattern.
+                </p>
+              )}
+              <div className="flex justify-end gap-4 pt-4">
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {editingPattern
+                    ? (updateMutation.isPending ? 'Updating...' : 'Update Pattern')
+                    : (createMutation.isPending ? 'Creating...' : 'Create Pattern')}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Shift Patterns ({patterns.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            columns={columns}
+            data={patterns}
+            isLoading={isLoading}
+            searchable
+            searchPlaceholder="Search patterns..."
+            searchColumn="name"
+            emptyMessage="No shift patterns yet. Teams and workers follow their weekly schedule."
+          />
+        </CardContent>
+      </Card>
+
+      <RosterSchedulePreviewCard />
+    </div>
+
+    <RosterAssignDialog
+      pattern={assignTarget}
+      onOpenChange={(open) => { if (!open) setAssignTarget(null); }}
+    />
+
+    <ConfirmDialog
+      open={!!deleteTarget}
+      onOpenChange={(open) => { if (!open) setDeleteTarget(null); }}
+      title="Delete Shift Pattern"
+      description="Are you sure you want to delete this pattern? Patterns still assigned to a team or worker cannot be deleted."
+      confirmLabel="Delete"
+      variant="destructive"
+      isLoading={deleteMutation.isPending}
+      onConfirm={handleDelete}
+    />
+
+    <ConfirmDialog
+      open={!!clearTarget}
+      onOpenChange={(open) => { if (!open) setClearTarget(null); }}
+      title="Remove Roster"
+      description={`${clearTarget?.name ?? ''} will go back to the weekly schedule.`}
+      confirmLabel="Remove"
+      isLoading={assignMutation.isPending}
+      onConfirm={handleClear}
+    />
+    </PageLoader>
+  );
+}
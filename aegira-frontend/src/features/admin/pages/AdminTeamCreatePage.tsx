@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -33,6 +34,12 @@ const createTeamSchema = z
     checkInStart: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)'),
     checkInEnd: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)'),
     workDays: z.array(z.string()).min(1, 'Select at least one work day'),
+    remindersEnabled: z.boolean(),
+    reminderLeadMinutes: z
+      .number({ invalid_type_error: 'Enter a number of minutes' })
+      .int()
+      .min(5, 'Minimum is 5 minutes')
+      .max(240, 'Maximum is 240 minutes'),
   })
   .refine(
     (data) => {
@@ -72,10 +79,13 @@ export function AdminTeamCreatePage() {
       checkInStart: '06:00',
       checkInEnd: '10:00',
       workDays: ['1', '2', '3', '4', '5'],
+      remindersEnabled: true,
+      reminderLeadMinutes: 30,
     },
   });
 
   const selectedWorkDays = watch('workDays') || [];
+  const remindersEnabled = watch('remindersEnabled');
   const selectedLeaderId = watch('leaderId');
   const selectedSupervisorId = watch('supervisorId');
 
@@ -100,6 +110,7 @@ export function AdminTeamCreatePage() {
         checkInStart: data.checkInStart,
         checkInEnd: data.checkInEnd,
         workDays: data.workDays.join(','),
+        reminderLeadMinutes: data.remindersEnabled ? data.reminderLeadMinutes : null,
       });
       toast({
         variant: 'success',
@@ -312,6 +323,34 @@ export function AdminTeamCreatePage() {
                 Workers in this team are expected to check in on selected days
               </p>
             </div>
+            <div className="space-y-3">
+              <div className="flex items-center space-x-4">
+                <Switch
+                  id="remindersEnabled"
+                  checked={remindersEnabled}
+                  onCheckedChange={(checked) => setValue('remindersEnabled', checked)}
+                />
+                <Label htmlFor="remindersEnabled">Check-in Reminders</Label>
+              </div>
+              {remindersEnabled && (
+                <div className="space-y-2 max-w-xs">
+                  <Label htmlFor="reminderLeadMinutes">Minutes Before Window Closes</Label>
+                  <Input
+                    id="reminderLeadMinutes"
+                    type="number"
+                    min={5}
+                    max={240}
+                    {...register('reminderLeadMinutes', { valueAsNumber: true })}
+                  />
+                  {errors.reminderLeadMinutes && (
+                    <p className="text-sm text-destructive">{errors.reminderLeadMinutes.message}</p>
+                  )}
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Workers who haven't checked in yet are notified before the check-in window closes
+              </p>
+            </div>
           </CardContent>
         </Card>
 
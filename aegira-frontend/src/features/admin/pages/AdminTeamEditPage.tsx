@@ -38,6 +38,12 @@ const updateTeamSchema = z
     checkInStart: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)'),
     checkInEnd: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)'),
     workDays: z.array(z.string()).min(1, 'Select at least one work day'),
+    remindersEnabled: z.boolean(),
+    reminderLeadMinutes: z
+      .number({ invalid_type_error: 'Enter a number of minutes' })
+      .int()
+      .min(5, 'Minimum is 5 minutes')
+      .max(240, 'Maximum is 240 minutes'),
   })
   .refine(
     (data) => {
@@ -111,11 +117,14 @@ function TeamEditForm({ team, teamLeads, supervisors, loadingTeamLeads, loadingS
       checkInStart: team.check_in_start || '06:00',
       checkInEnd: team.check_in_end || '10:00',
       workDays: team.work_days ? team.work_days.split(',') : ['1', '2', '3', '4', '5'],
+      remindersEnabled: team.reminder_lead_minutes !== null,
+      reminderLeadMinutes: team.reminder_lead_minutes ?? 30,
     },
   });
 
   const isActive = watch('isActive');
   const selectedWorkDays = watch('workDays') || [];
+  const remindersEnabled = watch('remindersEnabled');
   const selectedLeaderId = watch('leaderId') || '';
   const selectedSupervisorId = watch('supervisorId') || '';
 
@@ -139,6 +148,8 @@ function TeamEditForm({ team, teamLeads, supervisors, loadingTeamLeads, loadingS
     if ((data.supervisorId || null) !== (team.supervisor_id || null)) updates.supervisorId = data.supervisorId || null;
     if (data.isActive !== team.is_active) updates.isActive = data.isActive;
     if (workDaysStr !== (team.work_days || '1,2,3,4,5')) updates.workDays = workDaysStr;
+    const reminderLeadMinutes = data.remindersEnabled ? data.reminderLeadMinutes : null;
+    if (reminderLeadMinutes !== team.reminder_lead_minutes) updates.reminderLeadMinutes = reminderLeadMinutes;
 
     // Always send both time fields together to ensure backend validation runs
     const startChanged = data.checkInStart !== (team.check_in_start || '06:00');
@@ -361,6 +372,34 @@ function TeamEditForm({ team, teamLeads, supervisors, loadingTeamLeads, loadingS
                 Workers in this team are expected to check in on selected days
               </p>
             </div>
+            <div className="space-y-3">
+              <div className="flex items-center space-x-4">
+                <Switch
+                  id="remindersEnabled"
+                  checked={remindersEnabled}
+                  onCheckedChange={(checked) => setValue('remindersEnabled', checked)}
+                />
+                <Label htmlFor="remindersEnabled">Check-in Reminders</Label>
+              </div>
+              {remindersEnabled && (
+                <div className="space-y-2 max-w-xs">
+                  <Label htmlFor="reminderLeadMinutes">Minutes Before Window Closes</Label>
+                  <Input
+                    id="reminderLeadMinutes"
+                    type="number"
+                    min={5}
+                    max={240}
+                    {...register('reminderLeadMinutes', { valueAsNumber: true })}
+                  />
+                  {errors.reminderLeadMinutes && (
+                    <p className="text-sm text-destructive">{errors.reminderLeadMinutes.message}</p>
+                  )}
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Workers who haven't checked in yet are notified before the check-in window closes
+              </p>
+            </div>
           </CardContent>
         </Card>
 
@@ -10,6 +10,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -26,7 +27,9 @@ import { WORK_DAYS_OPTIONS } from '@/types/team.types';
 const createWorkerSchema = z
   .object({
     email: z.string().email('Please enter a valid email address'),
-    password: z.string().min(8, 'Password must be at least 8 characters'),
+    // Either set an initial password, or email an invitation so the worker chooses their own
+    sendInvitation: z.boolean(),
+    password: z.string(),
     firstName: z.string().min(1, 'First name is required').max(100),
     lastName: z.string().min(1, 'Last name is required').max(100),
     role: z.enum(['WORKER', 'TEAM_LEAD', 'SUPERVISOR', 'WHS', 'ADMIN']),
@@ -36,6 +39,10 @@ const createWorkerSchema = z
     checkInStart: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)').optional().or(z.literal('')),
     checkInEnd: z.string().regex(TIME_REGEX, 'Invalid time format (HH:MM)').optional().or(z.literal('')),
   })
+  .refine(
+    (data) => data.sendInvitation || data.password.length >= 8,
+    { message: 'Password must be at least 8 characters', path: ['password'] }
+  )
   .refine(
     (data) => data.role !== 'WORKER' || (data.teamId && data.teamId.length > 0),
     { message: 'Team is required for workers', path: ['teamId'] }
@@ -83,6 +90,7 @@ export function AdminWorkerCreatePage() {
     resolver: zodResolver(createWorkerSchema),
     defaultValues: {
       email: '',
+      sendInvitation: true,
       password: '',
       firstName: '',
       lastName: '',
@@ -94,6 +102,7 @@ export function AdminWorkerCreatePage() {
     },
   });
 
+  const sendInvitation = watch('sendInvitation');
   const selectedRole = watch('role');
   const selectedTeamId = watch('teamId');
   const workDaysValue = watch('workDays') || '';
@@ -111,6 +120,7 @@ export function AdminWorkerCreatePage() {
     // Strip empty string schedule fields — backend expects omitted, not empty
     const payload = {
       ...data,
+      password: data.sendInvitation ? undefined : data.password,
       workDays: data.workDays || undefined,
       checkInStart: data.checkInStart || undefined,
       checkInEnd: data.checkInEnd || undefined,
@@ -118,12 +128,23 @@ export function AdminWorkerCreatePage() {
     };
 
     try {
-      await createPerson.mutateAsync(payload);
-      toast({
-        variant: 'success',
-        title: 'Worker created',
-        description: `${data.firstName} ${data.lastName} has been added successfully.`,
-      });
+      const created = await createPerson.mutateAsync(payload);
+      if (data.sendInvitation && !created.invitationSent) {
+        // Account exists but the email failed — it can be re-sent from the worker's edit page
+        toast({
+          variant: 'destructive',
+          title: 'Worker created, invitation not sent',
+          description: `We couldn't email ${data.email}. Resend the invitation from the worker's page.`,
+        });
+      } else {
+        toast({
+          variant: 'success',
+          title: 'Worker created',
+          description: data.sendInvitation
+            ? `An invitation has been emailed to ${data.email}.`
+            : `${data.firstName} ${data.lastName} has been added successfully.`,
+        });
+      }
       navigate(ROUTES.ADMIN_WORKERS);
     } catch (error) {
       toast({
@@ -198,18 +219,36 @@ export function AdminWorkerCreatePage() {
                 )}
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="password">Password</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="Minimum 8 characters"
-                  {...register('password')}
-                />
-                {errors.password && (
-                  <p className="text-sm text-destructive">{errors.password.message}</p>
-                )}
-              </div>
+              {sendInvitation ? (
+                <div className="space-y-2">
+                  <Label className="text-muted-foreground">Password</Label>
+                  <p className="text-sm text-muted-foreground pt-2">
+                    The worker will choose their own password from the invitation email. The link expires in 7 days.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Minimum 8 characters"
+                    {...register('password')}
+                  />
+                  {errors.password && (
+                    <p className="text-sm text-destructive">{errors.password.message}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center space-x-4">
+              <Switch
+                id="sendInvitation"
+                checked={sendInvitation}
+                onCheckedChange={(checked) => setValue('sendInvitation', checked, { shouldValidate: true })}
+              />
+              <Label htmlFor="sendInvitation">Invite by email instead of setting a password</Label>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
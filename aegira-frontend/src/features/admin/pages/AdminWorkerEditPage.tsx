@@ -3,7 +3,7 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { ArrowLeft, UserCog, Calendar, Clock, Phone } from 'lucide-react';
+import { ArrowLeft, UserCog, Calendar, Clock, Phone, Mail, KeyRound } from 'lucide-react';
 import { formatDate } from '@/lib/utils/date.utils';
 import { formatWorkDays } from '@/lib/utils/string.utils';
 import { isEndTimeAfterStart, TIME_REGEX, WORK_DAYS_REGEX } from '@/lib/utils/format.utils';
@@ -23,7 +23,7 @@ import {
 } from '@/components/ui/select';
 import { PageLoader } from '@/components/common/PageLoader';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
-import { usePerson, useUpdatePerson, useCancelTransfer } from '@/features/person/hooks/usePersons';
+import { usePerson, useUpdatePerson, useCancelTransfer, useResendInvitation, useResetUserMfa } from '@/features/person/hooks/usePersons';
 import { useTeams } from '@/features/team/hooks/useTeams';
 import { useToast } from '@/lib/hooks/use-toast';
 import { ROUTES } from '@/config/routes.config';
@@ -111,8 +111,11 @@ function WorkerEditForm({ person, teams }: WorkerEditFormProps) {
   const navigate = useNavigate();
   const updatePerson = useUpdatePerson();
   const cancelTransfer = useCancelTransfer();
+  const resendInvitation = useResendInvitation();
+  const resetMfa = useResetUserMfa();
   const { toast } = useToast();
   const [showTransferConfirm, setShowTransferConfirm] = useState(false);
+  const [showResetMfaConfirm, setShowResetMfaConfirm] = useState(false);
   const [pendingFormData, setPendingFormData] = useState<UpdateWorkerFormData | null>(null);
 
   const {
@@ -166,6 +169,37 @@ function WorkerEditForm({ person, teams }: WorkerEditFormProps) {
     }
   };
 
+  const handleResendInvitation = async () => {
+    try {
+      const result = await resendInvitation.mutateAsync(person.id);
+      toast({ variant: 'success', title: 'Invitation sent', description: result.message });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to resend invitation',
+        description: error instanceof Error ? error.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  const handleResetMfa = async () => {
+    try {
+      await resetMfa.mutateAsync(person.id);
+      setShowResetMfaConfirm(false);
+      toast({
+        variant: 'success',
+        title: 'Two-factor reset',
+        description: `${person.first_name} has been signed out and can set up a new authenticator app.`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to reset two-factor',
+        description: error instanceof Error ? error.message : 'Something went wrong.',
+      });
+    }
+  };
+
   const buildUpdates = (data: UpdateWorkerFormData): Record<string, unknown> => {
     const currentStart = data.checkInStart || null;
     const currentEnd = data.checkInEnd || null;
@@ -285,6 +319,47 @@ function WorkerEditForm({ person, teams }: WorkerEditFormProps) {
               </div>
             )}
 
+            {/* Invitation not yet accepted */}
+            {person.invitationPending && person.is_active && (
+              <div
+                className={cn(
+                  'flex items-center gap-2 p-3 rounded-lg',
+                  SEMANTIC_SURFACE.WARNING_SOFT
+                )}
+              >
+                <Mail className="h-4 w-4 text-amber-600 shrink-0" />
+                <span className="text-sm flex-1">
+                  Invitation pending — this worker has not set a password yet
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={resendInvitation.isPending}
+                  onClick={handleResendInvitation}
+                >
+                  {resendInvitation.isPending ? 'Sending...' : 'Resend Invitation'}
+                </Button>
+              </div>
+            )}
+
+            {/* Two-factor enrolled — admin can reset it for a lost device */}
+            {person.mfaEnabled && (
+              <div className="flex items-center gap-2 p-3 rounded-lg bg-muted">
+                <KeyRound className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className="text-sm flex-1">Two-factor authentication is enabled</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={resetMfa.isPending}
+                  onClick={() => setShowResetMfaConfirm(true)}
+                >
+                  Reset Two-Factor
+                </Button>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label>Email Address</Label>
               <Input value={person.email} disabled className="bg-muted" />
@@ -561,6 +636,18 @@ function WorkerEditForm({ person, teams }: WorkerEditFormProps) {
           }
         }}
       />
+
+      {/* Two-Factor Reset Confirmation Dialog */}
+      <ConfirmDialog
+        open={showResetMfaConfirm}
+        onOpenChange={setShowResetMfaConfirm}
+        title="Reset Two-Factor Authentication"
+        description={`This removes ${person.first_name} ${person.last_name}'s authenticator app and recovery codes and signs them out on every device. Only do this after confirming their identity.`}
+        confirmLabel="Reset Two-Factor"
+        variant="destructive"
+        isLoading={resetMfa.isPending}
+        onConfirm={handleResetMfa}
+      />
     </div>
   );
 }
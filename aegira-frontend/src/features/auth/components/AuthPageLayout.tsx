@@ -0,0 +1,79 @@
+import type { ReactNode } from 'react';
+
+interface AuthPageLayoutProps {
+  title: string;
+  description?: ReactNode;
+  /** Rendered below the form card (e.g. "Back to sign in") */
+  footer?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * Branded two-column layout shared by the guest auth pages
+ * (login, forgot/reset password, accept invitation).
+ */
+export function AuthPageLayout({ title, description, footer, children }: AuthPageLayoutProps) {
+  return (
+    <div className="min-h-screen flex">
+      {/* Left Side - Branding */}
+      <div className="hidden lg:flex lg:w-1/2 relative overflow-hidden bg-gray-50">
+        {/* Industrial Pattern Background */}
+        <div
+          className="absolute inset-0 opacity-[0.07]"
+          style={{
+            backgroundImage: `url('/assets/industrial-pattern.svg')`,
+            backgroundSize: '300px 300px',
+            backgroundRepeat: 'repeat',
+          }}
+        />
+        {/* Gradient Overlay */}
+        <div className="absolute inset-0 bg-gradient-to-br from-white/40 via-transparent to-blue-50/40" />
+
+        {/* Content */}
+        <div className="relative z-10 flex flex-col items-center justify-center w-full px-16 pb-24">
+          {/* Logo */}
+          <img src="/assets/aegira.svg" alt="Aegira" className="w-60 h-auto mb-6 saturate-[0.6] brightness-105 contrast-[0.9]" />
+
+          {/* Tagline */}
+          <div className="space-y-3 text-center max-w-sm">
+            <h1 className="text-3xl font-bold leading-tight">
+              <span className="text-gray-900">Workforce Safety</span>
+              <br />
+              <span className="text-primary">Made Simple</span>
+            </h1>
+            <p className="text-base text-gray-600 leading-relaxed">
+              Monitor fatigue levels, ensure compliance, and keep your team safe with real-time check-ins and analytics.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Right Side - Form */}
+      <div className="flex-1 flex items-start pt-20 lg:items-center lg:pt-0 justify-center p-8 relative">
+        {/* Dot Pattern Background */}
+        <div
+          className="absolute inset-0"
+          style={{
+            backgroundImage: `radial-gradient(circle, #c0c5cc 1.2px, transparent 1.2px)`,
+            backgroundSize: '24px 24px',
+          }}
+        />
+        <div className="absolute inset-0 bg-white/60" />
+
+        <div className="relative z-10 w-full max-w-md">
+          {/* Header */}
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+            {description && <p className="mt-1 text-gray-500">{description}</p>}
+          </div>
+
+          {/* Form Card */}
+          <div className="bg-white rounded-2xl border border-gray-200 p-8 shadow-sm">{children}</div>
+
+          {/* Footer Links */}
+          {footer && <div className="mt-8 text-center space-y-4">{footer}</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+// Mirrors the backend totpCodeSchema / mfaCodeSchema (auth.validator.ts)
+const totpCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+const mfaCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(6, 'Enter a 6-digit code or a recovery code')
+    .max(20, 'Enter a 6-digit code or a recovery code'),
+});
+
+type MfaCodeFormData = z.infer<typeof mfaCodeSchema>;
+
+interface MfaCodeFormProps {
+  submitLabel: string;
+  pendingLabel: string;
+  isPending: boolean;
+  /** Accept a one-time recovery code as well as a TOTP code */
+  allowRecoveryCode?: boolean;
+  onSubmit: (code: string) => Promise<void>;
+}
+
+/**
+ * Authenticator code entry, used by the MFA login step, enrolment and settings dialogs
+ */
+export function MfaCodeForm({
+  submitLabel,
+  pendingLabel,
+  isPending,
+  allowRecoveryCode = false,
+  onSubmit,
+}: MfaCodeFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<MfaCodeFormData>({
+    resolver: zodResolver(allowRecoveryCode ? mfaCodeSchema : totpCodeSchema),
+    defaultValues: { code: '' },
+  });
+
+  return (
+    <form onSubmit={handleSubmit((data) => onSubmit(data.code))} className="space-y-5">
+      <div className="space-y-2">
+        <Label className="text-gray-700">Authentication code</Label>
+        <Input
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={allowRecoveryCode ? 'text' : 'numeric'}
+          {...register('code')}
+          placeholder={allowRecoveryCode ? '123456 or recovery code' : '123456'}
+          className="h-11 px-4 border-gray-200 rounded-lg tracking-widest"
+        />
+        {errors.code && <p className="text-sm text-red-500">{errors.code.message}</p>}
+        {allowRecoveryCode && (
+          <p className="text-xs text-muted-foreground">
+            Lost your device? Enter one of your recovery codes instead.
+          </p>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full h-11 text-base font-medium rounded-lg"
+        disabled={isSubmitting || isPending}
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {pendingLabel}
+          </>
+        ) : (
+          submitLabel
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,31 @@
+import type { MfaEnrollment } from '@/types/auth.types';
+
+interface MfaEnrollmentDetailsProps {
+  enrollment: MfaEnrollment;
+}
+
+/**
+ * QR code plus manual-entry secret for adding AEGIRA to an authenticator app
+ */
+export function MfaEnrollmentDetails({ enrollment }: MfaEnrollmentDetailsProps) {
+  // The backend renders the QR as a standalone SVG — an <img> keeps it out of the DOM
+  const qrSrc = `data:image/svg+xml;utf8,${encodeURIComponent(enrollment.qrSvg)}`;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator,
+        1Password, ...), then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        <img src={qrSrc} alt="Authenticator QR code" className="h-48 w-48 rounded-lg border bg-white p-2" />
+      </div>
+      <div className="space-y-1 text-center">
+        <p className="text-xs text-muted-foreground">Can't scan? Enter this key manually:</p>
+        <code className="block break-all rounded-md bg-muted px-3 py-2 font-mono text-sm tracking-wider">
+          {enrollment.secret.replace(/(.{4})/g, '$1 ').trim()}
+        </code>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/lib/hooks/use-toast';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+/**
+ * One-time display of freshly issued recovery codes — the server only keeps hashes
+ */
+export function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast({ variant: 'success', title: 'Recovery codes copied' });
+    } catch {
+      toast({ variant: 'destructive', title: 'Could not copy', description: 'Please copy the codes manually.' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+        your authenticator device. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-muted/50 p-4">
+        {codes.map((code) => (
+          <code key={code} className="font-mono text-sm tracking-wider text-center">
+            {code}
+          </code>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleCopy}>
+        <Copy className="mr-2 h-4 w-4" />
+        Copy codes
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+// Mirrors the backend newPasswordSchema (auth.validator.ts)
+const setPasswordSchema = z
+  .object({
+    password: z
+      .string()
+      .min(12, 'Password must be at least 12 characters')
+      .max(128, 'Password must be at most 128 characters')
+      .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+      .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+      .regex(/[0-9]/, 'Password must contain at least one number'),
+    confirmPassword: z.string().min(1, 'Please confirm your password'),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type SetPasswordFormData = z.infer<typeof setPasswordSchema>;
+
+interface SetPasswordFormProps {
+  submitLabel: string;
+  pendingLabel: string;
+  isPending: boolean;
+  onSubmit: (password: string) => Promise<void>;
+}
+
+/**
+ * New password + confirmation, used by the reset-password and accept-invitation pages
+ */
+export function SetPasswordForm({ submitLabel, pendingLabel, isPending, onSubmit }: SetPasswordFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<SetPasswordFormData>({
+    resolver: zodResolver(setPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  return (
+    <form onSubmit={handleSubmit((data) => onSubmit(data.password))} className="space-y-5">
+      <div className="space-y-2">
+        <Label className="text-gray-700">New password</Label>
+        <Input
+          type="password"
+          autoComplete="new-password"
+          {...register('password')}
+          placeholder="At least 12 characters"
+          className="h-11 px-4 border-gray-200 rounded-lg"
+        />
+        {errors.password ? (
+          <p className="text-sm text-red-500">{errors.password.message}</p>
+        ) : (
+          <p className="text-xs text-gray-500">Use upper and lower case letters and at least one number.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-gray-700">Confirm password</Label>
+        <Input
+          type="password"
+          autoComplete="new-password"
+          {...register('confirmPassword')}
+          placeholder="Re-enter password"
+          className="h-11 px-4 border-gray-200 rounded-lg"
+        />
+        {errors.confirmPassword && (
+          <p className="text-sm text-red-500">{errors.confirmPassword.message}</p>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full h-11 text-base font-medium rounded-lg"
+        disabled={isSubmitting || isPending}
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {pendingLabel}
+          </>
+        ) : (
+          submitLabel
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { DateTime } from 'luxon';
+import { KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/lib/hooks/use-toast';
+import {
+  useMfaStatus,
+  useStartMfaSetup,
+  useActivateMfa,
+  useRegenerateRecoveryCodes,
+  useDisableMfa,
+  type MfaEnrollment,
+} from '../hooks/useMfa';
+import { MfaCodeForm } from './MfaCodeForm';
+import { MfaEnrollmentDetails } from './MfaEnrollmentDetails';
+import { RecoveryCodesList } from './RecoveryCodesList';
+
+const disableSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z
+    .string()
+    .trim()
+    .min(6, 'Enter a 6-digit code or a recovery code')
+    .max(20, 'Enter a 6-digit code or a recovery code'),
+});
+
+type DisableFormData = z.infer<typeof disableSchema>;
+
+/** Which dialog is open — recovery codes are shown after enabling or regenerating */
+type DialogState =
+  | { kind: 'enroll'; enrollment: MfaEnrollment }
+  | { kind: 'regenerate' }
+  | { kind: 'disable' }
+  | { kind: 'recovery-codes'; codes: string[] };
+
+/**
+ * Two-factor authentication settings: enable with an authenticator app,
+ * regenerate recovery codes, or turn it off (unless company policy requires it).
+ */
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const { data: status, isLoading } = useMfaStatus();
+  const startSetup = useStartMfaSetup();
+  const activate = useActivateMfa();
+  const regenerate = useRegenerateRecoveryCodes();
+  const disable = useDisableMfa();
+  const [dialog, setDialog] = useState<DialogState | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<DisableFormData>({
+    resolver: zodResolver(disableSchema),
+    defaultValues: { password: '', code: '' },
+  });
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: error instanceof Error ? error.message : 'Please try again.',
+    });
+  };
+
+  const handleEnable = async () => {
+    try {
+      const enrollment = await startSetup.mutateAsync();
+      setDialog({ kind: 'enroll', enrollment });
+    } catch (error) {
+      showError('Could not start setup', error);
+    }
+  };
+
+  const handleActivate = async (code: string) => {
+    try {
+      const result = await activate.mutateAsync({ code });
+      setDialog({ kind: 'recovery-codes', codes: result.recoveryCodes });
+      toast({ variant: 'success', title: 'Two-factor authentication enabled' });
+    } catch (error) {
+      showError('Verification failed', error);
+    }
+  };
+
+  const handleRegenerate = async (code: string) => {
+    try {
+      const result = await regenerate.mutateAsync({ code });
+      setDialog({ kind: 'recovery-codes', codes: result.recoveryCodes });
+    } catch (error) {
+      showError('Verification failed', error);
+    }
+  };
+
+  const onDisableSubmit = async (data: DisableFormData) => {
+    try {
+      await disable.mutateAsync(data);
+      setDialog(null);
+      reset();
+      toast({ variant: 'success', title: 'Two-factor authentication disabled' });
+    } catch (error) {
+      showError('Could not disable two-factor authentication', error);
+    }
+  };
+
+  const closeDialog = (open: boolean) => {
+    if (open) return;
+    setDialog(null);
+    reset();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <KeyRound className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>Require a code from your authenticator app when you sign in</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !status ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              {status.enabled ? (
+                <Badge variant="success">
+                  <ShieldCheck className="mr-1 h-3 w-3" />
+                  Enabled
+                </Badge>
+              ) : (
+                <Badge variant="secondary">
+                  <ShieldOff className="mr-1 h-3 w-3" />
+                  Not enabled
+                </Badge>
+              )}
+              {status.required && <Badge variant="outline">Required by your company</Badge>}
+              {status.enabled && status.enabledAt && (
+                <span className="text-sm text-muted-foreground">
+                  since {DateTime.fromISO(status.enabledAt).toLocaleString(DateTime.DATE_MED)}
+                </span>
+              )}
+            </div>
+
+            {status.enabled && (
+              <p className="text-sm text-muted-foreground">
+                {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining.
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {status.enabled ? (
+                <>
+                  <Button variant="outline" onClick={() => setDialog({ kind: 'regenerate' })}>
+                    New Recovery Codes
+                  </Button>
+                  {!status.required && (
+                    <Button variant="destructive" onClick={() => setDialog({ kind: 'disable' })}>
+                      Disable
+                    </Button>
+                  )}
+                </>
+              ) : (
+                <Button onClick={handleEnable} disabled={startSetup.isPending}>
+                  {startSetup.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Enable Two-Factor
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={closeDialog}>
+        <DialogContent className="sm:max-w-md">
+          {dialog?.kind === 'enroll' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set up authenticator app</DialogTitle>
+              </DialogHeader>
+              <MfaEnrollmentDetails enrollment={dialog.enrollment} />
+              <MfaCodeForm
+                submitLabel="Verify and enable"
+                pendingLabel="Verifying..."
+                isPending={activate.isPending}
+                onSubmit={handleActivate}
+              />
+            </>
+          )}
+
+          {dialog?.kind === 'regenerate' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>New recovery codes</DialogTitle>
+                <DialogDescription>
+                  Your current recovery codes will stop working. Enter a code from your authenticator
+                  app to continue.
+                </DialogDescription>
+              </DialogHeader>
+              <MfaCodeForm
+                allowRecoveryCode
+                submitLabel="Generate codes"
+                pendingLabel="Generating..."
+                isPending={regenerate.isPending}
+                onSubmit={handleRegenerate}
+              />
+            </>
+          )}
+
+          {dialog?.kind === 'disable' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Disable two-factor authentication</DialogTitle>
+                <DialogDescription>
+                  Confirm with your password and a current code. Your recovery codes will be deleted.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit(onDisableSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="mfaDisablePassword">Password</Label>
+                  <Input
+                    id="mfaDisablePassword"
+                    type="password"
+                    autoComplete="current-password"
+                    {...register('password')}
+                  />
+                  {errors.password && <p className="text-sm text-destructive">{errors.password.message}</p>}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mfaDisableCode">Authentication code</Label>
+                  <Input
+                    id="mfaDisableCode"
+                    autoComplete="one-time-code"
+                    placeholder="123456 or recovery code"
+                    {...register('code')}
+                  />
+                  {errors.code && <p className="text-sm text-destructive">{errors.code.message}</p>}
+                </div>
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  className="w-full"
+                  disabled={isSubmitting || disable.isPending}
+                >
+                  {disable.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Disable Two-Factor
+                </Button>
+              </form>
+            </>
+          )}
+
+          {dialog?.kind === 'recovery-codes' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Save your recovery codes</DialogTitle>
+              </DialogHeader>
+              <RecoveryCodesList codes={dialog.codes} />
+              <Button className="w-full" onClick={() => setDialog(null)}>
+                Done
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
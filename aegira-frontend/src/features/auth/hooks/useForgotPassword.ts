@@ -0,0 +1,10 @@
+import { useMutation } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+
+export function useForgotPassword() {
+  return useMutation({
+    mutationFn: (email: string) =>
+      apiClient.post<{ message: string }>(ENDPOINTS.AUTH.FORGOT_PASSWORD, { email }),
+  });
+}
@@ -0,0 +1,39 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+
+export interface InvitationDetails {
+  email: string;
+  firstName: string;
+  lastName: string;
+  companyName: string;
+}
+
+export interface AcceptInvitationData {
+  token: string;
+  password: string;
+}
+
+/**
+ * Look up who an invitation link is for (does not redeem it)
+ */
+export function useInvitation(token: string) {
+  return useQuery({
+    queryKey: ['auth', 'invitation', token],
+    queryFn: () => {
+      const params = new URLSearchParams({ token });
+      return apiClient.get<InvitationDetails>(`${ENDPOINTS.AUTH.INVITATION}?${params.toString()}`);
+    },
+    enabled: !!token,
+    // An invalid link stays invalid — don't retry or refetch
+    retry: false,
+    staleTime: Infinity,
+  });
+}
+
+export function useAcceptInvitation() {
+  return useMutation({
+    mutationFn: (data: AcceptInvitationData) =>
+      apiClient.post<{ message: string; email: string }>(ENDPOINTS.AUTH.ACCEPT_INVITATION, data),
+  });
+}
@@ -2,9 +2,9 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api/client';
 import { useAuthStore } from '@/stores/auth.store';
 import { ENDPOINTS } from '@/lib/api/endpoints';
-import type { LoginCredentials, AuthResponse } from '@/types/auth.types';
+import type { LoginCredentials, LoginResponse, AuthResponse } from '@/types/auth.types';
 
-export type { LoginCredentials, AuthResponse } from '@/types/auth.types';
+export type { LoginCredentials, LoginResponse, AuthResponse } from '@/types/auth.types';
 
 export function useLogin() {
   const setAuth = useAuthStore((state) => state.setAuth);
@@ -12,11 +12,18 @@ export function useLogin() {
 
   return useMutation({
     mutationFn: (data: LoginCredentials) =>
-      apiClient.post<AuthResponse>(ENDPOINTS.AUTH.LOGIN, data),
+      apiClient.post<LoginResponse>(ENDPOINTS.AUTH.LOGIN, data),
     onSuccess: (response) => {
+      // MFA challenge — no session yet, the second step finishes the login
+      if (!('user' in response)) return;
       setAuth(response.user);
       // Pre-seed session cache so RouteGuard doesn't show spinner after login
       queryClient.setQueryData(['auth', 'session'], response);
     },
   });
 }
+
+/** Type guard for the second-factor step of the login response */
+export function isMfaChallenge(response: LoginResponse): response is Exclude<LoginResponse, AuthResponse> {
+  return 'mfaRequired' in response && response.mfaRequired;
+}
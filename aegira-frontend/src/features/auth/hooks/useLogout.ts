@@ -3,6 +3,7 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api/client';
 import { useAuthStore } from '@/stores/auth.store';
 import { ENDPOINTS } from '@/lib/api/endpoints';
+import { unsubscribeFromPush } from '@/lib/push';
 import { ROUTES } from '@/config/routes.config';
 
 export function useLogout() {
@@ -11,7 +12,11 @@ export function useLogout() {
   const clearAuth = useAuthStore((state) => state.clearAuth);
 
   return useMutation({
-    mutationFn: () => apiClient.post(ENDPOINTS.AUTH.LOGOUT, {}),
+    mutationFn: async () => {
+      // Stop this device's pushes while the session can still authenticate the request
+      await unsubscribeFromPush().catch(() => undefined);
+      return apiClient.post(ENDPOINTS.AUTH.LOGOUT, {});
+    },
 
     onSuccess: () => {
       // Clear auth state first
@@ -0,0 +1,112 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { useAuthStore } from '@/stores/auth.store';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type { AuthResponse, MfaEnrollment, MfaStatus } from '@/types/auth.types';
+
+export type { MfaEnrollment, MfaStatus } from '@/types/auth.types';
+
+interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+// ============================================
+// LOGIN STEP (challenge token, no session yet)
+// ============================================
+
+/** Finish a session once the second factor has been accepted */
+function useCompleteMfaLogin() {
+  const setAuth = useAuthStore((state) => state.setAuth);
+  const queryClient = useQueryClient();
+
+  return (response: AuthResponse) => {
+    setAuth(response.user);
+    // Pre-seed session cache so RouteGuard doesn't show spinner after login
+    queryClient.setQueryData(['auth', 'session'], { user: response.user });
+  };
+}
+
+/** Trade the challenge token plus a TOTP or recovery code for a session */
+export function useVerifyMfaLogin() {
+  const completeLogin = useCompleteMfaLogin();
+
+  return useMutation({
+    mutationFn: (data: { mfaToken: string; code: string }) =>
+      apiClient.post<AuthResponse>(ENDPOINTS.AUTH.LOGIN_MFA, data),
+    onSuccess: completeLogin,
+  });
+}
+
+/** Policy-forced enrolment during login: get a secret for the challenge token */
+export function useStartMfaLoginSetup() {
+  return useMutation({
+    mutationFn: (data: { mfaToken: string }) =>
+      apiClient.post<MfaEnrollment>(ENDPOINTS.AUTH.LOGIN_MFA_SETUP, data),
+  });
+}
+
+/** Confirm the login-time enrolment — starts the session and returns recovery codes */
+export function useActivateMfaLogin() {
+  const completeLogin = useCompleteMfaLogin();
+
+  return useMutation({
+    mutationFn: (data: { mfaToken: string; code: string }) =>
+      apiClient.post<AuthResponse & RecoveryCodesResponse>(ENDPOINTS.AUTH.LOGIN_MFA_ACTIVATE, data),
+    onSuccess: completeLogin,
+  });
+}
+
+// ============================================
+// SELF-SERVICE (signed in)
+// ============================================
+
+export function useMfaStatus() {
+  return useQuery({
+    queryKey: ['auth', 'mfa'],
+    queryFn: () => apiClient.get<MfaStatus>(ENDPOINTS.AUTH.MFA),
+    staleTime: STALE_TIMES.STANDARD,
+  });
+}
+
+export function useStartMfaSetup() {
+  return useMutation({
+    mutationFn: () => apiClient.post<MfaEnrollment>(ENDPOINTS.AUTH.MFA_SETUP, {}),
+  });
+}
+
+export function useActivateMfa() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { code: string }) =>
+      apiClient.post<RecoveryCodesResponse>(ENDPOINTS.AUTH.MFA_ACTIVATE, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'mfa'] });
+    },
+  });
+}
+
+export function useRegenerateRecoveryCodes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { code: string }) =>
+      apiClient.post<RecoveryCodesResponse>(ENDPOINTS.AUTH.MFA_RECOVERY_CODES, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'mfa'] });
+    },
+  });
+}
+
+export function useDisableMfa() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: { password: string; code: string }) =>
+      apiClient.post<{ message: string }>(ENDPOINTS.AUTH.MFA_DISABLE, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['auth', 'mfa'] });
+    },
+  });
+}
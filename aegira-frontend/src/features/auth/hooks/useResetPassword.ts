@@ -0,0 +1,15 @@
+import { useMutation } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+
+export interface ResetPasswordData {
+  token: string;
+  newPassword: string;
+}
+
+export function useResetPassword() {
+  return useMutation({
+    mutationFn: (data: ResetPasswordData) =>
+      apiClient.post<{ message: string }>(ENDPOINTS.AUTH.RESET_PASSWORD, data),
+  });
+}
@@ -0,0 +1,84 @@
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useInvitation, useAcceptInvitation } from '../hooks/useInvitation';
+import { useToast } from '@/lib/hooks/use-toast';
+import { ROUTES } from '@/config/routes.config';
+import { AuthPageLayout } from '../components/AuthPageLayout';
+import { SetPasswordForm } from '../components/SetPasswordForm';
+
+export function AcceptInvitePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const { data: invitation, isLoading, error } = useInvitation(token);
+  const acceptInvitation = useAcceptInvitation();
+  const { toast } = useToast();
+
+  const onSubmit = async (password: string) => {
+    try {
+      await acceptInvitation.mutateAsync({ token, password });
+      toast({
+        variant: 'success',
+        title: 'Account activated',
+        description: 'Sign in with your email and new password.',
+      });
+      navigate(ROUTES.LOGIN);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to activate account',
+        description: err instanceof Error ? err.message : 'Something went wrong. Please try again.',
+      });
+    }
+  };
+
+  const footer = (
+    <p className="text-gray-600">
+      Already activated?{' '}
+      <Link to={ROUTES.LOGIN} className="text-primary font-medium hover:underline">
+        Sign in
+      </Link>
+    </p>
+  );
+
+  if (isLoading) {
+    return (
+      <AuthPageLayout title="Accept invitation" footer={footer}>
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      </AuthPageLayout>
+    );
+  }
+
+  if (!token || error || !invitation) {
+    return (
+      <AuthPageLayout title="Accept invitation" footer={footer}>
+        <p className="text-center text-gray-700">
+          {error instanceof Error ? error.message : 'This invitation link is incomplete.'} Ask your administrator
+          to send a new invitation.
+        </p>
+      </AuthPageLayout>
+    );
+  }
+
+  return (
+    <AuthPageLayout
+      title={`Welcome, ${invitation.firstName}!`}
+      description={
+        <>
+          Choose a password to join <span className="font-medium text-gray-700">{invitation.companyName}</span> as{' '}
+          {invitation.email}
+        </>
+      }
+      footer={footer}
+    >
+      <SetPasswordForm
+        submitLabel="Activate account"
+        pendingLabel="Activating..."
+        isPending={acceptInvitation.isPending}
+        onSubmit={onSubmit}
+      />
+    </AuthPageLayout>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2, MailCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useForgotPassword } from '../hooks/useForgotPassword';
+import { useToast } from '@/lib/hooks/use-toast';
+import { ROUTES } from '@/config/routes.config';
+import { AuthPageLayout } from '../components/AuthPageLayout';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export function ForgotPasswordPage() {
+  const forgotPassword = useForgotPassword();
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await forgotPassword.mutateAsync(data.email);
+      setSentTo(data.email);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not send reset link',
+        description: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+      });
+    }
+  };
+
+  return (
+    <AuthPageLayout
+      title="Forgot your password?"
+      description="Enter your email and we'll send you a link to choose a new one"
+      footer={
+        <p className="text-gray-600">
+          Remembered it?{' '}
+          <Link to={ROUTES.LOGIN} className="text-primary font-medium hover:underline">
+            Back to sign in
+          </Link>
+        </p>
+      }
+    >
+      {sentTo ? (
+        // Same outcome whether or not the account exists — the backend never says
+        <div className="space-y-4 text-center">
+          <MailCheck className="mx-auto h-10 w-10 text-primary" />
+          <p className="text-gray-700">
+            If an account exists for <span className="font-medium">{sentTo}</span>, a reset link is on its way.
+          </p>
+          <p className="text-sm text-gray-500">The link expires in 1 hour. Check your spam folder if it doesn't arrive.</p>
+          <Button variant="outline" className="w-full h-11 rounded-lg" onClick={() => setSentTo(null)}>
+            Use a different email
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          <div className="space-y-2">
+            <Label className="text-gray-700">Email</Label>
+            <Input
+              type="email"
+              {...register('email')}
+              placeholder="name@company.com"
+              className="h-11 px-4 border-gray-200 rounded-lg"
+            />
+            {errors.email && (
+              <p className="text-sm text-red-500">{errors.email.message}</p>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full h-11 text-base font-medium rounded-lg"
+            disabled={isSubmitting || forgotPassword.isPending}
+          >
+            {forgotPassword.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              'Send reset link'
+            )}
+          </Button>
+        </form>
+      )}
+    </AuthPageLayout>
+  );
+}
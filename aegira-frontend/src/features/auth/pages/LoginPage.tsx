@@ -1,14 +1,24 @@
-import { useNavigate, Link } from 'react-router-dom';
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, Link, useLocation, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { useLogin } from '../hooks/useLogin';
+import { useLogin, isMfaChallenge } from '../hooks/useLogin';
+import { useVerifyMfaLogin, useStartMfaLoginSetup, useActivateMfaLogin } from '../hooks/useMfa';
 import { useToast } from '@/lib/hooks/use-toast';
 import { ROUTES } from '@/config/routes.config';
-import { Loader2 } from 'lucide-react';
+import { API_CONFIG } from '@/config/api.config';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { ApiError } from '@/lib/api/client';
+import { Loader2, Building2 } from 'lucide-react';
+import { AuthPageLayout } from '../components/AuthPageLayout';
+import { MfaCodeForm } from '../components/MfaCodeForm';
+import { MfaEnrollmentDetails } from '../components/MfaEnrollmentDetails';
+import { RecoveryCodesList } from '../components/RecoveryCodesList';
+import type { MfaEnrollment } from '@/types/auth.types';
 
 const loginSchema = z.object({
   email: z.string().email('Please enter a valid email'),
@@ -17,14 +27,88 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+// Backend redirects failed SSO logins to /login?sso_error=<code>
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  SSO_NOT_AVAILABLE: 'Single sign-on is not set up for this account.',
+  SSO_NO_ACCOUNT: 'No AEGIRA account matches your company sign-in. Ask your administrator to add you.',
+  SSO_ACCOUNT_MISMATCH: 'This AEGIRA account is linked to a different company sign-in.',
+  SSO_EMAIL_UNVERIFIED: 'Your company sign-in did not share a verified email address.',
+  SSO_CANCELLED: 'Sign-in was cancelled.',
+  SSO_STATE_EXPIRED: 'Your sign-in attempt expired. Please try again.',
+  SSO_PROVIDER_ERROR: 'Your company sign-in is not responding correctly. Please contact your administrator.',
+};
+
+/** Full-page navigation — the backend redirects on to the company's identity provider */
+function redirectToSso(email: string) {
+  const params = new URLSearchParams({ email });
+  window.location.assign(`${API_CONFIG.baseURL}${ENDPOINTS.AUTH.SSO_START}?${params.toString()}`);
+}
+
+/** Second-factor step after the password was accepted */
+type MfaStep =
+  | { kind: 'verify'; mfaToken: string }
+  | { kind: 'enroll'; mfaToken: string; enrollment: MfaEnrollment }
+  | { kind: 'recovery-codes'; codes: string[] };
+
 export function LoginPage() {
   const navigate = useNavigate();
+  const location = useLocation();
   const loginMutation = useLogin();
+  const verifyMfaMutation = useVerifyMfaLogin();
+  const startMfaSetupMutation = useStartMfaLoginSetup();
+  const activateMfaMutation = useActivateMfaLogin();
   const { toast } = useToast();
+  const [mfaStep, setMfaStep] = useState<MfaStep | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const ssoError = searchParams.get('sso_error');
+
+  useEffect(() => {
+    if (!ssoError) return;
+    toast({
+      variant: 'destructive',
+      title: 'Single sign-on failed',
+      description: SSO_ERROR_MESSAGES[ssoError] ?? 'Please try again or contact your administrator.',
+    });
+    setSearchParams({}, { replace: true });
+  }, [ssoError, setSearchParams, toast]);
+
+  const startMfaSetup = startMfaSetupMutation.mutateAsync;
+
+  /** Show the code prompt, or enrol first when policy requires MFA and none is set up yet */
+  const beginMfaStep = useCallback(
+    async (mfaToken: string, enrollmentRequired: boolean) => {
+      if (!enrollmentRequired) {
+        setMfaStep({ kind: 'verify', mfaToken });
+        return;
+      }
+      const enrollment = await startMfaSetup({ mfaToken });
+      setMfaStep({ kind: 'enroll', mfaToken, enrollment });
+    },
+    [startMfaSetup]
+  );
+
+  // SSO login for a role that requires MFA — the backend hands over the
+  // challenge as /login#mfa_token=...(&mfa_enroll=1)
+  useEffect(() => {
+    const fragment = new URLSearchParams(location.hash.slice(1));
+    const mfaToken = fragment.get('mfa_token');
+    if (!mfaToken) return;
+
+    navigate({ hash: '' }, { replace: true });
+    beginMfaStep(mfaToken, fragment.get('mfa_enroll') === '1').catch((error: unknown) => {
+      toast({
+        variant: 'destructive',
+        title: 'Two-factor setup failed',
+        description: error instanceof Error ? error.message : 'Please sign in again.',
+      });
+    });
+  }, [location.hash, navigate, beginMfaStep, toast]);
 
   const {
     register,
     handleSubmit,
+    trigger,
+    getValues,
     formState: { errors, isSubmitting },
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -34,16 +118,31 @@ export function LoginPage() {
     },
   });
 
+  const finishLogin = () => {
+    toast({
+      variant: 'success',
+      title: 'Welcome back!',
+      description: 'You have successfully signed in.',
+    });
+    navigate(ROUTES.DASHBOARD);
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     try {
-      await loginMutation.mutateAsync(data);
-      toast({
-        variant: 'success',
-        title: 'Welcome back!',
-        description: 'You have successfully signed in.',
-      });
-      navigate(ROUTES.DASHBOARD);
+      const response = await loginMutation.mutateAsync(data);
+      if (!isMfaChallenge(response)) {
+        finishLogin();
+        return;
+      }
+
+      await beginMfaStep(response.mfaToken, response.mfaEnrollmentRequired);
     } catch (error) {
+      // SSO-only company — continue at their identity provider
+      if (error instanceof ApiError && error.code === 'PASSWORD_LOGIN_DISABLED') {
+        toast({ title: 'Redirecting to your company sign-in...' });
+        redirectToSso(data.email);
+        return;
+      }
       toast({
         variant: 'destructive',
         title: 'Invalid credentials',
@@ -52,123 +151,170 @@ export function LoginPage() {
     }
   };
 
-  return (
-    <div className="min-h-screen flex">
-      {/* Left Side - Branding */}
-      <div className="hidden lg:flex lg:w-1/2 relative overflow-hidden bg-gray-50">
-        {/* Industrial Pattern Background */}
-        <div
-          className="absolute inset-0 opacity-[0.07]"
-          style={{
-            backgroundImage: `url('/assets/industrial-pattern.svg')`,
-            backgroundSize: '300px 300px',
-            backgroundRepeat: 'repeat',
-          }}
+  const onSsoClick = async () => {
+    if (await trigger('email')) {
+      redirectToSso(getValues('email'));
+    }
+  };
+
+  const onVerifyMfa = async (mfaToken: string, code: string) => {
+    try {
+      await verifyMfaMutation.mutateAsync({ mfaToken, code });
+      finishLogin();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Verification failed',
+        description: error instanceof Error ? error.message : 'Please check the code and try again.',
+      });
+    }
+  };
+
+  const onActivateMfa = async (mfaToken: string, code: string) => {
+    try {
+      const result = await activateMfaMutation.mutateAsync({ mfaToken, code });
+      setMfaStep({ kind: 'recovery-codes', codes: result.recoveryCodes });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Verification failed',
+        description: error instanceof Error ? error.message : 'Please check the code and try again.',
+      });
+    }
+  };
+
+  const backToSignIn = (
+    <button
+      type="button"
+      onClick={() => setMfaStep(null)}
+      className="text-primary font-medium hover:underline"
+    >
+      Back to sign in
+    </button>
+  );
+
+  if (mfaStep?.kind === 'verify') {
+    return (
+      <AuthPageLayout
+        title="Two-factor authentication"
+        description="Enter the code from your authenticator app"
+        footer={backToSignIn}
+      >
+        <MfaCodeForm
+          allowRecoveryCode
+          submitLabel="Verify"
+          pendingLabel="Verifying..."
+          isPending={verifyMfaMutation.isPending}
+          onSubmit={(code) => onVerifyMfa(mfaStep.mfaToken, code)}
         />
-        {/* Gradient Overlay */}
-        <div className="absolute inset-0 bg-gradient-to-br from-white/40 via-transparent to-blue-50/40" />
-
-        {/* Content */}
-        <div className="relative z-10 flex flex-col items-center justify-center w-full px-16 pb-24">
-          {/* Logo */}
-          <img src="/assets/aegira.svg" alt="Aegira" className="w-60 h-auto mb-6 saturate-[0.6] brightness-105 contrast-[0.9]" />
-
-          {/* Tagline */}
-          <div className="space-y-3 text-center max-w-sm">
-            <h1 className="text-3xl font-bold leading-tight">
-              <span className="text-gray-900">Workforce Safety</span>
-              <br />
-              <span className="text-primary">Made Simple</span>
-            </h1>
-            <p className="text-base text-gray-600 leading-relaxed">
-              Monitor fatigue levels, ensure compliance, and keep your team safe with real-time check-ins and analytics.
-            </p>
-          </div>
+      </AuthPageLayout>
+    );
+  }
+
+  if (mfaStep?.kind === 'enroll') {
+    return (
+      <AuthPageLayout
+        title="Set up two-factor authentication"
+        description="Your company requires a second factor for your role"
+        footer={backToSignIn}
+      >
+        <div className="space-y-6">
+          <MfaEnrollmentDetails enrollment={mfaStep.enrollment} />
+          <MfaCodeForm
+            submitLabel="Verify and sign in"
+            pendingLabel="Verifying..."
+            isPending={activateMfaMutation.isPending}
+            onSubmit={(code) => onActivateMfa(mfaStep.mfaToken, code)}
+          />
         </div>
-      </div>
-
-      {/* Right Side - Login Form */}
-      <div className="flex-1 flex items-start pt-20 lg:items-center lg:pt-0 justify-center p-8 relative">
-        {/* Dot Pattern Background */}
-        <div
-          className="absolute inset-0"
-          style={{
-            backgroundImage: `radial-gradient(circle, #c0c5cc 1.2px, transparent 1.2px)`,
-            backgroundSize: '24px 24px',
-          }}
-        />
-        <div className="absolute inset-0 bg-white/60" />
-
-        <div className="relative z-10 w-full max-w-md">
-          {/* Header */}
-          <div className="mb-8">
-            <h2 className="text-2xl font-bold text-gray-900">Welcome back!</h2>
-            <p className="mt-1 text-gray-500">Sign in to access your dashboard</p>
-          </div>
-
-          {/* Form Card */}
-          <div className="bg-white rounded-2xl border border-gray-200 p-8 shadow-sm">
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
-              <div className="space-y-2">
-                <Label className="text-gray-700">Email</Label>
-                <Input
-                  type="email"
-                  {...register('email')}
-                  placeholder="name@company.com"
-                  className="h-11 px-4 border-gray-200 rounded-lg"
-                />
-                {errors.email && (
-                  <p className="text-sm text-red-500">{errors.email.message}</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label className="text-gray-700">Password</Label>
-                <Input
-                  type="password"
-                  {...register('password')}
-                  placeholder="Enter your password"
-                  className="h-11 px-4 border-gray-200 rounded-lg"
-                />
-                {errors.password && (
-                  <p className="text-sm text-red-500">{errors.password.message}</p>
-                )}
-              </div>
-
-              <div className="flex justify-end">
-                <Link to="#" className="text-sm text-primary hover:underline">
-                  Forgot password?
-                </Link>
-              </div>
-
-              <Button
-                type="submit"
-                className="w-full h-11 text-base font-medium rounded-lg"
-                disabled={isSubmitting || loginMutation.isPending}
-              >
-                {loginMutation.isPending ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Signing in...
-                  </>
-                ) : (
-                  'Log in'
-                )}
-              </Button>
-            </form>
-          </div>
-
-          {/* Footer Links */}
-          <div className="mt-8 text-center space-y-4">
-            <p className="text-gray-600">
-              Don't have an account?{' '}
-              <Link to={ROUTES.SIGNUP} className="text-primary font-medium hover:underline">
-                Sign up here
-              </Link>
-            </p>
-          </div>
+      </AuthPageLayout>
+    );
+  }
+
+  if (mfaStep?.kind === 'recovery-codes') {
+    return (
+      <AuthPageLayout title="Save your recovery codes" description="Two-factor authentication is now on">
+        <div className="space-y-5">
+          <RecoveryCodesList codes={mfaStep.codes} />
+          <Button className="w-full h-11 text-base font-medium rounded-lg" onClick={finishLogin}>
+            I've saved them — continue
+          </Button>
+        </div>
+      </AuthPageLayout>
+    );
+  }
+
+  return (
+    <AuthPageLayout
+      title="Welcome back!"
+      description="Sign in to access your dashboard"
+      footer={
+        <p className="text-gray-600">
+          Don't have an account?{' '}
+          <Link to={ROUTES.SIGNUP} className="text-primary font-medium hover:underline">
+            Sign up here
+          </Link>
+        </p>
+      }
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+        <div className="space-y-2">
+          <Label className="text-gray-700">Email</Label>
+          <Input
+            type="email"
+            {...register('email')}
+            placeholder="name@company.com"
+            className="h-11 px-4 border-gray-200 rounded-lg"
+          />
+          {errors.email && (
+            <p className="text-sm text-red-500">{errors.email.message}</p>
+          )}
         </div>
-      </div>
-    </div>
+
+        <div className="space-y-2">
+          <Label className="text-gray-700">Password</Label>
+          <Input
+            type="password"
+            {...register('password')}
+            placeholder="Enter your password"
+            className="h-11 px-4 border-gray-200 rounded-lg"
+          />
+          {errors.password && (
+            <p className="text-sm text-red-500">{errors.password.message}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Link to={ROUTES.FORGOT_PASSWORD} className="text-sm text-primary hover:underline">
+            Forgot password?
+          </Link>
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full h-11 text-base font-medium rounded-lg"
+          disabled={isSubmitting || loginMutation.isPending || startMfaSetupMutation.isPending}
+        >
+          {loginMutation.isPending || startMfaSetupMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Signing in...
+            </>
+          ) : (
+            'Log in'
+          )}
+        </Button>
+
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full h-11 text-base font-medium rounded-lg"
+          onClick={onSsoClick}
+        >
+          <Building2 className="mr-2 h-4 w-4" />
+          Sign in with company SSO
+        </Button>
+      </form>
+    </AuthPageLayout>
   );
 }
@@ -0,0 +1,63 @@
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { useResetPassword } from '../hooks/useResetPassword';
+import { useToast } from '@/lib/hooks/use-toast';
+import { ROUTES } from '@/config/routes.config';
+import { AuthPageLayout } from '../components/AuthPageLayout';
+import { SetPasswordForm } from '../components/SetPasswordForm';
+
+export function ResetPasswordPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const resetPassword = useResetPassword();
+  const { toast } = useToast();
+
+  const onSubmit = async (newPassword: string) => {
+    try {
+      await resetPassword.mutateAsync({ token, newPassword });
+      toast({
+        variant: 'success',
+        title: 'Password reset',
+        description: 'Sign in with your new password.',
+      });
+      navigate(ROUTES.LOGIN);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to reset password',
+        description: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+      });
+    }
+  };
+
+  return (
+    <AuthPageLayout
+      title="Choose a new password"
+      description="Signing in again will be required on all your devices"
+      footer={
+        <p className="text-gray-600">
+          <Link to={ROUTES.LOGIN} className="text-primary font-medium hover:underline">
+            Back to sign in
+          </Link>
+        </p>
+      }
+    >
+      {token ? (
+        <SetPasswordForm
+          submitLabel="Reset password"
+          pendingLabel="Resetting..."
+          isPending={resetPassword.isPending}
+          onSubmit={onSubmit}
+        />
+      ) : (
+        <div className="space-y-4 text-center">
+          <p className="text-gray-700">This reset link is incomplete. Request a new one to continue.</p>
+          <Button asChild className="w-full h-11 rounded-lg">
+            <Link to={ROUTES.FORGOT_PASSWORD}>Request a new link</Link>
+          </Button>
+        </div>
+      )}
+    </AuthPageLayout>
+  );
+}
@@ -19,6 +19,8 @@ import { useChangePassword } from '../hooks/useChangePassword';
 import { useUpdateProfile } from '../hooks/useUpdateProfile';
 import { useUploadAvatar } from '../hooks/useUploadAvatar';
 import { useAuthStore } from '@/stores/auth.store';
+import { TwoFactorCard } from '../components/TwoFactorCard';
+import { NotificationPreferencesCard } from '@/features/notifications/components/NotificationPreferencesCard';
 import { ROLE_LABELS } from '@/lib/utils/format.utils';
 
 // --- Password change schema ---
@@ -530,6 +532,9 @@ export function SettingsPage() {
         </div>
       </Card>
 
+      {/* Notification Preferences */}
+      <NotificationPreferencesCard />
+
       {/* Security Section */}
       <Card>
         <CardHeader>
@@ -587,6 +592,9 @@ export function SettingsPage() {
           </form>
         </CardContent>
       </Card>
+
+      {/* Two-Factor Authentication */}
+      <TwoFactorCard />
     </div>
   );
 }
@@ -0,0 +1,218 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useRequestAmendment } from '../hooks/useRequestAmendment';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatDate } from '@/lib/utils/date.utils';
+import { formatAmendmentField } from '@/lib/utils/format.utils';
+import type { CheckIn } from '@/types/check-in.types';
+import type { AmendableField } from '@/types/amendment.types';
+
+// Same bounds as the check-in form / backend submitCheckInSchema
+const FIELD_RULES: Record<AmendableField, { min: number; max: number; step: number }> = {
+  hours_slept: { min: 0, max: 15, step: 0.5 },
+  sleep_quality: { min: 1, max: 10, step: 1 },
+  stress_level: { min: 1, max: 10, step: 1 },
+  physical_condition: { min: 1, max: 10, step: 1 },
+  pain_level: { min: 0, max: 10, step: 1 },
+};
+
+const FIELD_OPTIONS = Object.keys(FIELD_RULES) as AmendableField[];
+
+function getCurrentValue(checkIn: CheckIn, field: AmendableField): number {
+  switch (field) {
+    case 'hours_slept': return checkIn.sleepHours;
+    case 'sleep_quality': return checkIn.sleepQuality;
+    case 'stress_level': return checkIn.stressLevel;
+    case 'physical_condition': return checkIn.energyLevel;
+    case 'pain_level': return checkIn.painLevel;
+  }
+}
+
+const amendmentSchema = z
+  .object({
+    fieldName: z.enum(
+      ['hours_slept', 'sleep_quality', 'stress_level', 'physical_condition', 'pain_level'],
+      { required_error: 'Please select a field' }
+    ),
+    newValue: z.coerce.number({ invalid_type_error: 'Enter a number' }),
+    reason: z.string().min(1, 'Reason is required').max(500),
+  })
+  .superRefine((data, ctx) => {
+    const rule = FIELD_RULES[data.fieldName];
+    if (data.newValue < rule.min || data.newValue > rule.max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Must be between ${rule.min} and ${rule.max}`,
+        path: ['newValue'],
+      });
+    }
+  });
+
+type AmendmentFormData = z.infer<typeof amendmentSchema>;
+
+interface AmendmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  checkIn: CheckIn;
+}
+
+export function AmendmentDialog({ open, onOpenChange, checkIn }: AmendmentDialogProps) {
+  const requestAmendment = useRequestAmendment();
+  const { toast } = useToast();
+  const pendingFields = new Set(checkIn.pendingAmendments?.map((a) => a.fieldName) ?? []);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<AmendmentFormData>({
+    resolver: zodResolver(amendmentSchema),
+    defaultValues: {
+      fieldName: undefined,
+      reason: '',
+    },
+  });
+
+  const selectedField = watch('fieldName');
+  const rule = selectedField ? FIELD_RULES[selectedField] : null;
+
+  const onSubmit = async (data: AmendmentFormData) => {
+    try {
+      await requestAmendment.mutateAsync({
+        checkInId: checkIn.id,
+        fieldName: data.fieldName,
+        newValue: data.newValue,
+        reason: data.reason,
+      });
+      toast({
+        variant: 'success',
+        title: 'Correction requested',
+        description: 'Your team lead will review the change.',
+      });
+      reset();
+      onOpenChange(false);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to request correction',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  const handleClose = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Correction</DialogTitle>
+          <DialogDescription>
+            Check-in on {formatDate(checkIn.checkInDate)}. Your team lead will review the
+            change; your readiness score is recalculated once it is approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Field</Label>
+            <Select
+              value={selectedField || ''}
+              onValueChange={(value) => setValue('fieldName', value as AmendableField)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a field to correct" />
+              </SelectTrigger>
+              <SelectContent>
+                {FIELD_OPTIONS.map((field) => (
+                  <SelectItem key={field} value={field} disabled={pendingFields.has(field)}>
+                    {formatAmendmentField(field)}
+                    {pendingFields.has(field) && ' (pending)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.fieldName && (
+              <p className="text-sm text-destructive">{errors.fieldName.message}</p>
+            )}
+          </div>
+
+          {selectedField && rule && (
+            <div className="space-y-2">
+              <Label htmlFor="newValue">
+                New Value{' '}
+                <span className="text-muted-foreground font-normal">
+                  (currently {getCurrentValue(checkIn, selectedField)})
+                </span>
+              </Label>
+              <Input
+                id="newValue"
+                type="number"
+                min={rule.min}
+                max={rule.max}
+                step={rule.step}
+                {...register('newValue')}
+              />
+              {errors.newValue && (
+                <p className="text-sm text-destructive">{errors.newValue.message}</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason</Label>
+            <Textarea
+              id="reason"
+              placeholder="Explain what was entered incorrectly..."
+              rows={3}
+              {...register('reason')}
+            />
+            {errors.reason && (
+              <p className="text-sm text-destructive">{errors.reason.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleClose(false)}
+              disabled={requestAmendment.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={requestAmendment.isPending}>
+              {requestAmendment.isPending ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -27,6 +27,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { useSubmitCheckIn } from '../hooks/useSubmitCheckIn';
 import { useToast } from '@/lib/hooks/use-toast';
+import { isNetworkError } from '@/lib/api/client';
+import { useAuthStore } from '@/stores/auth.store';
+import { useOfflineCheckInStore } from '@/stores/offline-check-in.store';
 import { ROUTES } from '@/config/routes.config';
 import { cn } from '@/lib/utils/cn';
 import {
@@ -100,6 +103,8 @@ export function CheckInFormComplete() {
   const navigate = useNavigate();
   const submitMutation = useSubmitCheckIn();
   const { toast } = useToast();
+  const personId = useAuthStore((state) => state.user?.id);
+  const enqueueOffline = useOfflineCheckInStore((state) => state.enqueue);
   const [currentStep, setCurrentStep] = useState(0);
 
   const {
@@ -131,8 +136,26 @@ export function CheckInFormComplete() {
     return true;
   };
 
+  // No connectivity: keep the submission on the device with the time it was
+  // made; useOfflineCheckInSync sends it when the connection returns
+  const queueOffline = (data: CheckInFormData, eventTime: string) => {
+    if (!personId) return;
+    enqueueOffline({ personId, submission: data, eventTime });
+    toast({
+      title: 'Saved offline',
+      description: "You're offline. Your check-in will be sent automatically when you're back online.",
+      variant: 'warning',
+    });
+    navigate(ROUTES.DASHBOARD);
+  };
+
   const onSubmit = async (data: CheckInFormData) => {
     if (currentStep !== STEPS.length - 1) return;
+    const eventTime = new Date().toISOString();
+    if (!navigator.onLine) {
+      queueOffline(data, eventTime);
+      return;
+    }
     try {
       const result = await submitMutation.mutateAsync(data);
       const score = result.readinessResult?.score;
@@ -143,6 +166,10 @@ export function CheckInFormComplete() {
       });
       navigate(ROUTES.DASHBOARD);
     } catch (error) {
+      if (isNetworkError(error)) {
+        queueOffline(data, eventTime);
+        return;
+      }
       toast({
         title: 'Submission Failed',
         description: error instanceof Error ? error.message : 'Submission failed',
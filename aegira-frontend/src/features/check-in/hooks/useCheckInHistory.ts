@@ -41,6 +41,11 @@ function transformCheckIn(data: BackendCheckIn): CheckIn {
     },
     isLate: data.event?.is_late ?? false,
     lateByMinutes: data.event?.late_by_minutes ?? undefined,
+    pendingAmendments: data.amendments?.map((a) => ({
+      id: a.id,
+      fieldName: a.field_name,
+      newValue: a.new_value,
+    })),
     submittedAt: data.event?.event_time ?? data.created_at,
     createdAt: data.created_at,
     updatedAt: data.created_at,
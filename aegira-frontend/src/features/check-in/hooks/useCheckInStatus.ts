@@ -2,11 +2,15 @@ import { useQuery } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api/client';
 import { ENDPOINTS } from '@/lib/api/endpoints';
 import { STALE_TIMES } from '@/config/query.config';
+import type { LeaveType } from '@/types/leave.types';
+import type { ScheduleWindow } from '@/types/roster.types';
 
 export interface CheckInStatus {
   isWorkDay: boolean;
   isHoliday: boolean;
   holidayName: string | null;
+  isOnLeave: boolean;
+  leaveType: LeaveType | null;
   isWithinWindow: boolean;
   canCheckIn: boolean;
   hasCheckedInToday: boolean;
@@ -14,6 +18,8 @@ export interface CheckInStatus {
     checkInStart: string;
     checkInEnd: string;
     workDays: string[];
+    windows: ScheduleWindow[]; // Current shift date — several on split shifts, or one crossing midnight
+    source: 'roster' | 'weekly';
   } | null;
   team: {
     id: string;
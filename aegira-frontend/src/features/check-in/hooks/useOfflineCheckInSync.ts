@@ -0,0 +1,86 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ApiError, isNetworkError } from '@/lib/api/client';
+import { useAuthStore } from '@/stores/auth.store';
+import { useOfflineCheckInStore } from '@/stores/offline-check-in.store';
+import { useToast } from '@/lib/hooks/use-toast';
+import { invalidateCheckInQueries, postCheckIn } from './useSubmitCheckIn';
+
+/** Retry cadence while a queued check-in is waiting, in case no `online` event fires */
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+/** 4xx other than auth/timeout — resending the same submission can't succeed */
+function isRejected(error: unknown): error is ApiError {
+  return (
+    error instanceof ApiError &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    error.statusCode !== 401 &&
+    error.statusCode !== 408
+  );
+}
+
+/**
+ * Sends check-ins queued offline (see CheckInFormComplete) once the device is
+ * back online, with their original device time. Mount once, in AppLayout.
+ */
+export function useOfflineCheckInSync() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const personId = useAuthStore((state) => state.user?.id);
+  const hasQueued = useOfflineCheckInStore((state) => state.queue.some((item) => item.personId === personId));
+
+  useEffect(() => {
+    if (!personId || !hasQueued) return;
+
+    let isSyncing = false;
+
+    const sync = async () => {
+      if (isSyncing || !navigator.onLine) return;
+      isSyncing = true;
+
+      const { queue, remove } = useOfflineCheckInStore.getState();
+      try {
+        for (const item of queue.filter((queued) => queued.personId === personId)) {
+          try {
+            const checkIn = await postCheckIn(item.submission, item.eventTime);
+            remove(item.id);
+            invalidateCheckInQueries(queryClient);
+            const score = checkIn.readinessResult?.score;
+            toast({
+              variant: 'success',
+              title: 'Offline check-in synced',
+              description: score != null ? `Your readiness score: ${score}%` : 'Your check-in has been recorded.',
+            });
+          } catch (error) {
+            if (!isRejected(error)) {
+              if (!isNetworkError(error) && import.meta.env.DEV) {
+                console.error('[OfflineCheckInSync] Sync failed, will retry:', error);
+              }
+              return; // Still offline or server unavailable — try again later
+            }
+
+            remove(item.id);
+            invalidateCheckInQueries(queryClient);
+            toast(
+              error.code === 'DUPLICATE_CHECK_IN'
+                ? { title: 'Check-in already recorded', description: 'Your offline check-in was already received.' }
+                : { variant: 'destructive', title: 'Offline check-in not accepted', description: error.message }
+            );
+          }
+        }
+      } finally {
+        isSyncing = false;
+      }
+    };
+
+    void sync();
+    window.addEventListener('online', sync);
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', sync);
+      clearInterval(interval);
+    };
+  }, [personId, hasQueued, queryClient, toast]);
+}
@@ -0,0 +1,21 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import type { Amendment, CreateAmendmentData } from '@/types/amendment.types';
+
+/**
+ * Request a correction to a submitted check-in.
+ * The check-in is unchanged until a team lead approves the request.
+ */
+export function useRequestAmendment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateAmendmentData) =>
+      apiClient.post<Amendment>(ENDPOINTS.AMENDMENT.CREATE, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['check-ins', 'history'] });
+      queryClient.invalidateQueries({ queryKey: ['my-amendments'] });
+    },
+  });
+}
@@ -1,4 +1,4 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import { apiClient } from '@/lib/api/client';
 import { ENDPOINTS } from '@/lib/api/endpoints';
 import { transformCheckIn } from './useTodayCheckIn';
@@ -7,7 +7,7 @@ import type { CheckInSubmission, CheckIn, BackendCheckIn } from '@/types/check-i
 export type { CheckInSubmission, CheckIn } from '@/types/check-in.types';
 
 // Transform frontend form data to backend API format
-function transformToBackendFormat(data: CheckInSubmission) {
+function transformToBackendFormat(data: CheckInSubmission, eventTime?: string) {
   // energyLevel (1=low, 10=high) maps directly to physicalCondition (1=poor, 10=excellent)
   return {
     hoursSlept: data.sleepHours,
@@ -18,9 +18,27 @@ function transformToBackendFormat(data: CheckInSubmission) {
     painLocation: data.painLevel > 0 ? data.painLocation : undefined,
     physicalConditionNotes: data.physicalConditionNotes || undefined,
     notes: data.notes || undefined,
+    // The server only honours a device time on replays from the offline queue
+    ...(eventTime && { eventTime, offlineReplay: true }),
   };
 }
 
+/**
+ * POST a check-in. `eventTime` is the device time of a submission queued
+ * offline; omit it for live submissions so the server clock is used.
+ */
+export async function postCheckIn(data: CheckInSubmission, eventTime?: string): Promise<CheckIn> {
+  const raw = await apiClient.post<BackendCheckIn>(ENDPOINTS.CHECK_IN.SUBMIT, transformToBackendFormat(data, eventTime));
+  return transformCheckIn(raw) as CheckIn;
+}
+
+export function invalidateCheckInQueries(queryClient: QueryClient): void {
+  queryClient.invalidateQueries({ queryKey: ['check-ins'] });
+  queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+  queryClient.invalidateQueries({ queryKey: ['team', 'check-in-history'] });
+  queryClient.invalidateQueries({ queryKey: ['worker-check-ins'] });
+}
+
 /**
  * Submit daily check-in mutation
  * POST /api/v1/check-ins
@@ -32,17 +50,13 @@ export function useSubmitCheckIn() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (data: CheckInSubmission): Promise<CheckIn> => {
-      const raw = await apiClient.post<BackendCheckIn>(ENDPOINTS.CHECK_IN.SUBMIT, transformToBackendFormat(data));
-      return transformCheckIn(raw) as CheckIn;
-    },
+    mutationFn: (data: CheckInSubmission): Promise<CheckIn> => postCheckIn(data),
+    // Fail fast instead of pausing while offline — the form queues the submission
+    networkMode: 'always',
 
     onSuccess: () => {
       // Invalidate related queries after successful submission
-      queryClient.invalidateQueries({ queryKey: ['check-ins'] });
-      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
-      queryClient.invalidateQueries({ queryKey: ['team', 'check-in-history'] });
-      queryClient.invalidateQueries({ queryKey: ['worker-check-ins'] });
+      invalidateCheckInQueries(queryClient);
     },
   });
 }
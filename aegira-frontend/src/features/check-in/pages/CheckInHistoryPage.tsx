@@ -1,11 +1,14 @@
 import { useState } from 'react';
 import { ColumnDef, PaginationState } from '@tanstack/react-table';
-import { ClipboardList } from 'lucide-react';
+import { ClipboardList, FileEdit } from 'lucide-react';
 import { PageHeader } from '@/components/common/PageHeader';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { DataTable, SortableHeader } from '@/components/ui/data-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { PageLoader } from '@/components/common/PageLoader';
 import { ReadinessCategoryBadge, SubmissionStatusBadge } from '@/components/common/badge-utils';
+import { AmendmentDialog } from '../components/AmendmentDialog';
 import { useCheckInHistory } from '../hooks/useCheckInHistory';
 import { formatDate, formatTime } from '@/lib/utils/date.utils';
 import type { CheckIn } from '@/types/check-in.types';
@@ -29,9 +32,14 @@ const columns: ColumnDef<CheckIn>[] = [
     id: 'submissionStatus',
     header: 'Status',
     cell: ({ row }) => (
-      <SubmissionStatusBadge
-        isLate={row.original.isLate}
-      />
+      <div className="flex items-center gap-1.5">
+        <SubmissionStatusBadge
+          isLate={row.original.isLate}
+        />
+        {(row.original.pendingAmendments?.length ?? 0) > 0 && (
+          <Badge variant="violet">Correction Pending</Badge>
+        )}
+      </div>
     ),
   },
   {
@@ -64,8 +72,29 @@ const columns: ColumnDef<CheckIn>[] = [
     header: 'Pain',
     cell: ({ row }) => `${row.original.painLevel}/10`,
   },
+  {
+    id: 'actions',
+    header: '',
+    cell: function ActionsCell({ row }) {
+      return <RequestCorrectionButton checkIn={row.original} />;
+    },
+  },
 ];
 
+function RequestCorrectionButton({ checkIn }: { checkIn: CheckIn }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className="h-8 gap-1.5" onClick={() => setOpen(true)}>
+        <FileEdit className="h-3.5 w-3.5" />
+        Correct
+      </Button>
+      <AmendmentDialog open={open} onOpenChange={setOpen} checkIn={checkIn} />
+    </>
+  );
+}
+
 export function CheckInHistoryPage() {
   const [pagination, setPagination] = useState<PaginationState>({
     pageIndex: 0,
@@ -8,13 +8,15 @@ import { PageHeader } from '@/components/common/PageHeader';
 import { CheckInFormComplete } from '../components/CheckInFormComplete';
 import { ReadinessIndicator } from '../components/ReadinessIndicator';
 import { useTodayCheckIn } from '../hooks/useTodayCheckIn';
-import { useCheckInStatus } from '../hooks/useCheckInStatus';
+import { useCheckInStatus, type CheckInStatus } from '../hooks/useCheckInStatus';
+import { useAuthStore } from '@/stores/auth.store';
+import { useOfflineCheckInStore } from '@/stores/offline-check-in.store';
 import { ROUTES } from '@/config/routes.config';
 import { SEMANTIC_STATUS, SEMANTIC_SURFACE } from '@/lib/constants';
-import { formatDateTime } from '@/lib/utils/date.utils';
+import { formatDateTime, isTodayInTimezone } from '@/lib/utils/date.utils';
 import { cn } from '@/lib/utils/cn';
-import { formatTime12h, formatScheduleWindow } from '@/lib/utils/format.utils';
-import { History, Moon, Battery, Brain, Heart, Clock, Calendar, AlertCircle, Users } from 'lucide-react';
+import { formatTime12h, formatScheduleWindow, formatScheduleWindows } from '@/lib/utils/format.utils';
+import { History, Moon, Battery, Brain, Heart, Clock, Calendar, AlertCircle, Users, CloudOff } from 'lucide-react';
 
 // Helper function to convert work day number to name
 function getWorkDayName(day: string): string {
@@ -30,10 +32,24 @@ function getWorkDayName(day: string): string {
   return days[day] || day;
 }
 
+// Split and overnight shifts list every window; a plain weekly schedule shows start - end
+function formatWindowLabel(schedule: NonNullable<CheckInStatus['schedule']>): string {
+  if (schedule.source === 'roster' && schedule.windows.length === 0) return 'Rest day';
+  return schedule.windows.length > 1 || schedule.source === 'roster'
+    ? formatScheduleWindows(schedule.windows)
+    : formatScheduleWindow(schedule.checkInStart, schedule.checkInEnd);
+}
+
 export function CheckInPage() {
   const navigate = useNavigate();
   const { data: todayCheckIn, isLoading: isLoadingCheckIn, error: todayError } = useTodayCheckIn();
   const { data: status, isLoading: isLoadingStatus, error: statusError } = useCheckInStatus();
+  const personId = useAuthStore((state) => state.user?.id);
+  const timezone = useAuthStore((state) => state.user?.companyTimezone) ?? 'Asia/Manila';
+  // Only today's (company date, like the check-in itself) — an older unsent check-in must not block today's form
+  const queuedCheckIn = useOfflineCheckInStore((state) =>
+    state.queue.find((item) => item.personId === personId && isTodayInTimezone(item.eventTime, timezone))
+  );
 
   const isLoading = isLoadingCheckIn || isLoadingStatus;
   const error = (!isLoadingCheckIn && todayError) || (!isLoadingStatus && statusError) || null;
@@ -164,6 +180,37 @@ export function CheckInPage() {
     );
   };
 
+  // Submitted offline - waiting to sync
+  const renderQueuedCheckIn = () => {
+    if (!queuedCheckIn) return null;
+
+    return (
+      <div className="max-w-2xl mx-auto space-y-6">
+        <PageHeader title="Daily Check-In" description="Your check-in is saved on this device" />
+
+        <Card>
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 h-16 w-16 rounded-full bg-muted flex items-center justify-center">
+              <CloudOff className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <Badge variant="warning" className="mx-auto mb-2">
+              Waiting to sync
+            </Badge>
+            <CardTitle>Saved Offline</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-center">
+            <p className="text-muted-foreground">
+              It will be sent automatically when you're back online and recorded with the time you submitted it.
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Submitted at {formatDateTime(queuedCheckIn.eventTime)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
   // Cannot check in - show message
   const renderCannotCheckIn = () => {
     if (!status || status.canCheckIn || status.hasCheckedInToday) return null;
@@ -203,15 +250,22 @@ export function CheckInPage() {
                     <div className="flex items-center gap-2">
                       <Clock className="h-4 w-4 text-muted-foreground" />
                       <span className="text-sm">
-                        Check-in Window: {formatScheduleWindow(status.schedule.checkInStart, status.schedule.checkInEnd)}
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Calendar className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm">
-                        Work Days: {status.schedule.workDays.map(getWorkDayName).join(', ')}
+                        Check-in Window: {formatWindowLabel(status.schedule)}
                       </span>
                     </div>
+                    {status.schedule.source === 'roster' ? (
+                      <div className="flex items-center gap-2">
+                        <Calendar className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm">Work Days: Rotating shift roster</span>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Calendar className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm">
+                          Work Days: {status.schedule.workDays.map(getWorkDayName).join(', ')}
+                        </span>
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -223,15 +277,23 @@ export function CheckInPage() {
               </p>
             )}
 
-            {!status.isHoliday && !status.isWorkDay && (
+            {!status.isHoliday && status.isOnLeave && (
+              <p className="text-sm text-muted-foreground text-center">
+                You are on approved leave today. No check-in required.
+              </p>
+            )}
+
+            {!status.isHoliday && !status.isOnLeave && !status.isWorkDay && (
               <p className="text-sm text-muted-foreground text-center">
                 Today is not a scheduled work day. Enjoy your day off!
               </p>
             )}
 
-            {!status.isHoliday && status.isWorkDay && status.schedule?.checkInStart && (
+            {!status.isHoliday && !status.isOnLeave && status.isWorkDay && status.schedule?.checkInStart && (
               <p className="text-sm text-muted-foreground text-center">
-                The check-in window will open at {formatTime12h(status.schedule.checkInStart)}
+                {status.schedule.windows.length > 1
+                  ? status.message
+                  : `The check-in window will open at ${formatTime12h(status.schedule.checkInStart)}`}
               </p>
             )}
           </CardContent>
@@ -269,7 +331,7 @@ export function CheckInPage() {
           {status.schedule && (
             <div className="flex items-center gap-2 text-muted-foreground">
               <Clock className="h-4 w-4" />
-              <span>Window: {formatScheduleWindow(status.schedule.checkInStart, status.schedule.checkInEnd)}</span>
+              <span>Window: {formatWindowLabel(status.schedule)}</span>
             </div>
           )}
         </div>
@@ -281,6 +343,7 @@ export function CheckInPage() {
   return (
     <PageLoader isLoading={isLoading} error={error} skeleton="check-in">
       {todayCheckIn ? renderCompletedCheckIn() :
+       queuedCheckIn ? renderQueuedCheckIn() :
        (status && !status.canCheckIn && !status.hasCheckedInToday) ? renderCannotCheckIn() :
        renderCheckInForm()}
     </PageLoader>
@@ -0,0 +1,160 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useResolveFollowUp } from '../../hooks/useFollowUps';
+import { useToast } from '@/lib/hooks/use-toast';
+import type { FollowUp, FollowUpOutcome } from '@/types/follow-up.types';
+
+const FOLLOW_UP_OUTCOME_LABELS: Record<FollowUpOutcome, string> = {
+  CLEARED: 'Cleared for normal duties',
+  MODIFIED_DUTY: 'Modified duties',
+  STOOD_DOWN: 'Stood down for the shift',
+  SENT_HOME: 'Sent home',
+};
+
+const OUTCOMES = Object.keys(FOLLOW_UP_OUTCOME_LABELS) as FollowUpOutcome[];
+
+const resolveSchema = z.object({
+  outcome: z.enum(['CLEARED', 'MODIFIED_DUTY', 'STOOD_DOWN', 'SENT_HOME'], {
+    required_error: 'Please select an outcome',
+  }),
+  notes: z.string().max(500).optional(),
+});
+
+type ResolveFormData = z.infer<typeof resolveSchema>;
+
+interface FollowUpResolveDialogProps {
+  followUp: FollowUp | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FollowUpResolveDialog({ followUp, onOpenChange }: FollowUpResolveDialogProps) {
+  const resolveFollowUp = useResolveFollowUp();
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<ResolveFormData>({
+    resolver: zodResolver(resolveSchema),
+    defaultValues: { notes: '' },
+  });
+
+  const selectedOutcome = watch('outcome');
+
+  const onSubmit = async (data: ResolveFormData) => {
+    if (!followUp) return;
+    try {
+      await resolveFollowUp.mutateAsync({
+        followUpId: followUp.id,
+        data: { outcome: data.outcome, notes: data.notes || undefined },
+      });
+      toast({
+        variant: 'success',
+        title: 'Follow-up resolved',
+        description: `${followUp.workerName} has been notified.`,
+      });
+      reset();
+      onOpenChange(false);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to resolve',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  const handleClose = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={followUp !== null} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve Follow-Up</DialogTitle>
+          <DialogDescription>
+            {followUp
+              ? `Record what was done about ${followUp.workerName}'s ${followUp.readinessLevel} check-in (${followUp.readinessScore}%).`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Outcome</Label>
+            <Select
+              value={selectedOutcome || ''}
+              onValueChange={(value) => setValue('outcome', value as FollowUpOutcome, { shouldValidate: true })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select an outcome" />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTCOMES.map((outcome) => (
+                  <SelectItem key={outcome} value={outcome}>
+                    {FOLLOW_UP_OUTCOME_LABELS[outcome]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.outcome && (
+              <p className="text-sm text-destructive">{errors.outcome.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="followUpNotes">Notes (optional)</Label>
+            <Textarea
+              id="followUpNotes"
+              placeholder="e.g. Moved to light duties in the store room"
+              rows={3}
+              {...register('notes')}
+            />
+            {errors.notes && (
+              <p className="text-sm text-destructive">{errors.notes.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleClose(false)}
+              disabled={resolveFollowUp.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={resolveFollowUp.isPending}>
+              {resolveFollowUp.isPending ? 'Saving...' : 'Resolve'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
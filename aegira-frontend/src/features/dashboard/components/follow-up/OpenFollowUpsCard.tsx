@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { ShieldAlert, AlertTriangle } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ReadinessBadge } from '@/components/common/badge-utils';
+import { FollowUpResolveDialog } from './FollowUpResolveDialog';
+import { useOpenFollowUps, useAcknowledgeFollowUp } from '../../hooks/useFollowUps';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatDate, formatTime } from '@/lib/utils/date.utils';
+import type { FollowUp } from '@/types/follow-up.types';
+
+interface OpenFollowUpsCardProps {
+  /** Show the team name on each row — for reviewers covering several teams */
+  showTeam?: boolean;
+}
+
+/** RED/YELLOW check-ins still waiting on the reviewer — acknowledge, then record an outcome */
+export function OpenFollowUpsCard({ showTeam = false }: OpenFollowUpsCardProps) {
+  const { data } = useOpenFollowUps();
+  const acknowledgeFollowUp = useAcknowledgeFollowUp();
+  const { toast } = useToast();
+  const [resolveTarget, setResolveTarget] = useState<FollowUp | null>(null);
+
+  const followUps = data?.items ?? [];
+
+  const handleAcknowledge = async (followUp: FollowUp) => {
+    try {
+      await acknowledgeFollowUp.mutateAsync(followUp.id);
+      toast({ variant: 'success', title: 'Follow-up acknowledged' });
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to acknowledge',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <ShieldAlert className="h-4 w-4" />
+            Readiness Follow-Ups
+          </CardTitle>
+          {followUps.length > 0 && <Badge variant="secondary">{followUps.length} open</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {followUps.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No RED or YELLOW check-ins waiting on you.</p>
+        ) : (
+          <ul className="divide-y">
+            {followUps.map((followUp) => (
+              <li key={followUp.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <ReadinessBadge level={followUp.readinessLevel} />
+                    <span className="text-sm font-medium">{followUp.workerName}</span>
+                    {followUp.escalatedAt ? (
+                      <Badge variant="destructive" className="gap-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        Escalated
+                      </Badge>
+                    ) : followUp.isOverdue ? (
+                      <Badge variant="destructive">Overdue</Badge>
+                    ) : null}
+                    {followUp.status === 'ACKNOWLEDGED' && <Badge variant="outline">Acknowledged</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {showTeam && `${followUp.teamName} · `}
+                    {followUp.readinessScore}% · {formatDate(followUp.checkInDate)} at {formatTime(followUp.checkInTime)}
+                    {followUp.status === 'OPEN' && followUp.acknowledgeBy && !followUp.isOverdue &&
+                      ` · acknowledge by ${formatTime(followUp.acknowledgeBy)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {followUp.status === 'OPEN' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8"
+                      onClick={() => handleAcknowledge(followUp)}
+                      disabled={acknowledgeFollowUp.isPending}
+                    >
+                      Acknowledge
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" className="h-8" onClick={() => setResolveTarget(followUp)}>
+                    Record Outcome
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <FollowUpResolveDialog
+        followUp={resolveTarget}
+        onOpenChange={(open) => !open && setResolveTarget(null)}
+      />
+    </Card>
+  );
+}
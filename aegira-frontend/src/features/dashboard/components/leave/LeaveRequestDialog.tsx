@@ -0,0 +1,210 @@
+import { DateTime } from 'luxon';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useRequestLeave } from '../../hooks/useMyLeave';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatLeaveType } from '@/lib/utils/format.utils';
+import type { LeaveType } from '@/types/leave.types';
+
+// Same limit as the backend createLeaveSchema
+const MAX_LEAVE_DAYS = 90;
+
+const LEAVE_TYPES: LeaveType[] = ['ANNUAL', 'SICK', 'TRAINING', 'OTHER'];
+
+const leaveSchema = z
+  .object({
+    type: z.enum(['ANNUAL', 'SICK', 'TRAINING', 'OTHER'], {
+      required_error: 'Please select a leave type',
+    }),
+    startDate: z.string().min(1, 'Start date is required'),
+    endDate: z.string().min(1, 'End date is required'),
+    reason: z.string().max(500).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.startDate || !data.endDate) return;
+    const days = DateTime.fromISO(data.endDate).diff(DateTime.fromISO(data.startDate), 'days').days + 1;
+    if (days < 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'End date must be on or after the start date',
+        path: ['endDate'],
+      });
+    } else if (days > MAX_LEAVE_DAYS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Leave cannot be longer than ${MAX_LEAVE_DAYS} days`,
+        path: ['endDate'],
+      });
+    }
+  });
+
+type LeaveFormData = z.infer<typeof leaveSchema>;
+
+interface LeaveRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LeaveRequestDialog({ open, onOpenChange }: LeaveRequestDialogProps) {
+  const requestLeave = useRequestLeave();
+  const { toast } = useToast();
+  const today = DateTime.now().toISODate();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<LeaveFormData>({
+    resolver: zodResolver(leaveSchema),
+    defaultValues: {
+      type: undefined,
+      startDate: '',
+      endDate: '',
+      reason: '',
+    },
+  });
+
+  const selectedType = watch('type');
+  const startDate = watch('startDate');
+
+  const onSubmit = async (data: LeaveFormData) => {
+    try {
+      await requestLeave.mutateAsync({
+        type: data.type,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        reason: data.reason || undefined,
+      });
+      toast({
+        variant: 'success',
+        title: 'Leave requested',
+        description: 'Your team lead will review the request.',
+      });
+      reset();
+      onOpenChange(false);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to request leave',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  const handleClose = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Leave</DialogTitle>
+          <DialogDescription>
+            Check-ins are not required on approved leave days. Until your team lead approves
+            the request, check in as usual.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={selectedType || ''}
+              onValueChange={(value) => setValue('type', value as LeaveType)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a leave type" />
+              </SelectTrigger>
+              <SelectContent>
+                {LEAVE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {formatLeaveType(type)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.type && (
+              <p className="text-sm text-destructive">{errors.type.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leave-start">From</Label>
+              <Input id="leave-start" type="date" min={today ?? undefined} {...register('startDate')} />
+              {errors.startDate && (
+                <p className="text-sm text-destructive">{errors.startDate.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-end">To</Label>
+              <Input
+                id="leave-end"
+                type="date"
+                min={startDate || today || undefined}
+                {...register('endDate')}
+              />
+              {errors.endDate && (
+                <p className="text-sm text-destructive">{errors.endDate.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="leave-reason">
+              Reason <span className="text-muted-foreground font-normal">(optional)</span>
+            </Label>
+            <Textarea
+              id="leave-reason"
+              placeholder="Anything your team lead should know..."
+              rows={3}
+              {...register('reason')}
+            />
+            {errors.reason && (
+              <p className="text-sm text-destructive">{errors.reason.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleClose(false)}
+              disabled={requestLeave.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={requestLeave.isPending}>
+              {requestLeave.isPending ? 'Submitting...' : 'Submit Request'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { CalendarOff, Plus } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { LeaveRequestDialog } from './LeaveRequestDialog';
+import { useMyLeave, useCancelLeave } from '../../hooks/useMyLeave';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatLeaveRange, formatLeaveType } from '@/lib/utils/format.utils';
+import type { Leave, LeaveStatus, LeaveSummary } from '@/types/leave.types';
+
+const STATUS_BADGE: Record<LeaveStatus, { label: string; variant: 'warning' | 'success' | 'destructive' | 'secondary' }> = {
+  PENDING: { label: 'Pending', variant: 'warning' },
+  APPROVED: { label: 'Approved', variant: 'success' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
+  CANCELLED: { label: 'Cancelled', variant: 'secondary' },
+};
+
+interface MyLeaveCardProps {
+  upcomingLeave: LeaveSummary | null;
+}
+
+/** Worker's leave: next approved leave, recent requests, and a request button */
+export function MyLeaveCard({ upcomingLeave }: MyLeaveCardProps) {
+  const { data } = useMyLeave();
+  const cancelLeave = useCancelLeave();
+  const { toast } = useToast();
+  const [requestOpen, setRequestOpen] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<Leave | null>(null);
+
+  const requests = data?.items ?? [];
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+    try {
+      await cancelLeave.mutateAsync(cancelTarget.id);
+      toast({ variant: 'success', title: 'Leave cancelled' });
+      setCancelTarget(null);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to cancel leave',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <CalendarOff className="h-4 w-4" />
+            Leave
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setRequestOpen(true)}>
+            <Plus className="h-4 w-4 mr-1.5" />
+            Request Leave
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {upcomingLeave && (
+          <div className="rounded-lg border border-teal-200 bg-teal-50/50 p-3 text-sm dark:border-teal-800 dark:bg-teal-950/20">
+            <p className="font-medium">Upcoming: {formatLeaveType(upcomingLeave.type)}</p>
+            <p className="text-muted-foreground">
+              {formatLeaveRange(upcomingLeave.startDate, upcomingLeave.endDate)} — no check-in required
+            </p>
+          </div>
+        )}
+
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No leave requests yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {requests.map((leave) => {
+              const badge = STATUS_BADGE[leave.status];
+              const canCancel = leave.status === 'PENDING' || leave.status === 'APPROVED';
+              return (
+                <li key={leave.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{formatLeaveType(leave.type)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatLeaveRange(leave.startDate, leave.endDate)}
+                    </p>
+                    {leave.status === 'REJECTED' && leave.rejectionReason && (
+                      <p className="text-xs text-muted-foreground truncate" title={leave.rejectionReason}>
+                        {leave.rejectionReason}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                    {canCancel && (
+                      <Button variant="ghost" size="sm" className="h-8" onClick={() => setCancelTarget(leave)}>
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <LeaveRequestDialog open={requestOpen} onOpenChange={setRequestOpen} />
+
+      <ConfirmDialog
+        open={cancelTarget !== null}
+        onOpenChange={(open) => !open && setCancelTarget(null)}
+        title="Cancel Leave"
+        description={
+          cancelTarget
+            ? `Withdraw your ${formatLeaveType(cancelTarget.type).toLowerCase()} for ${formatLeaveRange(cancelTarget.startDate, cancelTarget.endDate)}? Check-ins will be required again from today; days already taken stay on record as leave.`
+            : ''
+        }
+        confirmLabel="Cancel Leave"
+        cancelLabel="Keep"
+        variant="destructive"
+        onConfirm={handleCancel}
+        isLoading={cancelLeave.isPending}
+      />
+    </Card>
+  );
+}
@@ -42,11 +42,12 @@ export function useTeamLeadDashboardStats() {
  * Supervisor dashboard stats
  * GET /api/v1/dashboard/supervisor
  */
-export function useSupervisorDashboardStats() {
+export function useSupervisorDashboardStats(enabled = true) {
   return useQuery({
     queryKey: ['dashboard', 'supervisor'],
     staleTime: STALE_TIMES.STANDARD,
     queryFn: () => apiClient.get<SupervisorDashboardStats>(ENDPOINTS.DASHBOARD.SUPERVISOR),
+    enabled,
   });
 }
 
@@ -0,0 +1,45 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type { FollowUp, OpenFollowUpsResponse, ResolveFollowUpData } from '@/types/follow-up.types';
+
+/**
+ * Unresolved follow-ups for the reviewer's teams — RED first, oldest first
+ */
+export function useOpenFollowUps() {
+  return useQuery({
+    queryKey: ['follow-ups', 'open'],
+    staleTime: STALE_TIMES.REALTIME,
+    // Keep acknowledgement deadlines and overdue flags current
+    refetchInterval: 60_000,
+    queryFn: () => apiClient.get<OpenFollowUpsResponse>(ENDPOINTS.FOLLOW_UP.OPEN),
+  });
+}
+
+/**
+ * Acknowledge — stops a RED follow-up from escalating to the supervisor
+ */
+export function useAcknowledgeFollowUp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (followUpId: string) =>
+      apiClient.patch<FollowUp>(ENDPOINTS.FOLLOW_UP.ACKNOWLEDGE(followUpId), {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['follow-ups'] });
+    },
+  });
+}
+
+export function useResolveFollowUp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ followUpId, data }: { followUpId: string; data: ResolveFollowUpData }) =>
+      apiClient.patch<FollowUp>(ENDPOINTS.FOLLOW_UP.RESOLVE(followUpId), data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['follow-ups'] });
+    },
+  });
+}
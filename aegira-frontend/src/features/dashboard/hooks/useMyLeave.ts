@@ -0,0 +1,49 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type { CreateLeaveData, Leave, LeaveListResponse } from '@/types/leave.types';
+
+/**
+ * Own leave requests — most recent first
+ */
+export function useMyLeave(limit = 5) {
+  return useQuery({
+    queryKey: ['my-leave', limit],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => {
+      const params = new URLSearchParams({ page: '1', limit: String(limit) });
+      return apiClient.get<LeaveListResponse>(`${ENDPOINTS.LEAVE.MY}?${params.toString()}`);
+    },
+  });
+}
+
+/**
+ * Request leave. Check-ins stay required until a team lead approves it.
+ */
+export function useRequestLeave() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateLeaveData) => apiClient.post<Leave>(ENDPOINTS.LEAVE.CREATE, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-leave'] });
+    },
+  });
+}
+
+/**
+ * Withdraw pending or approved leave — approved days become work days again
+ */
+export function useCancelLeave() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (leaveId: string) => apiClient.patch<Leave>(ENDPOINTS.LEAVE.CANCEL(leaveId), {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-leave'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['check-ins', 'status'] });
+    },
+  });
+}
@@ -4,6 +4,7 @@ import { PageLoader } from '@/components/common/PageLoader';
 import { PageHeader } from '@/components/common/PageHeader';
 import { EmptyState } from '@/components/common/EmptyState';
 import { StatCard } from '../components/StatCard';
+import { OpenFollowUpsCard } from '../components/follow-up/OpenFollowUpsCard';
 import { useSupervisorDashboardStats } from '../hooks/useDashboardStats';
 export function SupervisorDashboard() {
   const { data: stats, isLoading, error } = useSupervisorDashboardStats();
@@ -44,6 +45,9 @@ export function SupervisorDashboard() {
         />
       </div>
 
+      {/* Escalated RED check-ins and team leads' own check-ins land here */}
+      <OpenFollowUpsCard showTeam />
+
       <Card>
         <CardHeader>
           <CardTitle>Team Overview</CardTitle>
@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
 import { ColumnDef } from '@tanstack/react-table';
-import { Users, CheckCircle, TrendingUp, Clock, UserPlus, XCircle, BarChart3, ArrowRightLeft } from 'lucide-react';
+import { Users, CheckCircle, TrendingUp, Clock, UserPlus, XCircle, BarChart3, ArrowRightLeft, CalendarOff } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { PageLoader } from '@/components/common/PageLoader';
@@ -8,6 +8,7 @@ import { ReadinessCategoryBadge } from '@/components/common/badge-utils';
 import { PageHeader } from '@/components/common/PageHeader';
 import { DataTable, SortableHeader } from '@/components/ui/data-table';
 import { StatCard } from '../components/StatCard';
+import { OpenFollowUpsCard } from '../components/follow-up/OpenFollowUpsCard';
 import { useTeamLeadDashboardStats } from '../hooks/useDashboardStats';
 import type { TeamMemberStatus } from '@/types/check-in.types';
 import { formatTime } from '@/lib/utils/date.utils';
@@ -115,14 +116,15 @@ export function TeamLeadDashboard() {
 
   // Compute status counts for summary bar (expected check-ins only)
   const statusCounts = useMemo(() => {
-    if (!stats?.memberStatuses) return { missed: 0, pending: 0, submitted: 0 };
-    let missed = 0, pending = 0, submitted = 0;
+    if (!stats?.memberStatuses) return { missed: 0, pending: 0, submitted: 0, onLeave: 0 };
+    let missed = 0, pending = 0, submitted = 0, onLeave = 0;
     for (const m of stats.memberStatuses) {
       if (m.status === 'missed') missed++;
       else if (m.status === 'pending') pending++;
       else if (m.status === 'submitted') submitted++;
+      if (m.leaveType) onLeave++;
     }
-    return { missed, pending, submitted };
+    return { missed, pending, submitted, onLeave };
   }, [stats?.memberStatuses]);
 
   return (
@@ -188,6 +190,9 @@ export function TeamLeadDashboard() {
         </Card>
       )}
 
+      {/* RED/YELLOW check-ins awaiting acknowledgement or an outcome */}
+      <OpenFollowUpsCard />
+
       {/* Team Member Status — sorted by priority, summary badges in header */}
       <Card>
         <CardHeader>
@@ -215,6 +220,12 @@ export function TeamLeadDashboard() {
                   {statusCounts.submitted} Submitted
                 </Badge>
               )}
+              {statusCounts.onLeave > 0 && (
+                <Badge variant="secondary" className="gap-1">
+                  <CalendarOff className="h-3 w-3" />
+                  {statusCounts.onLeave} On Leave
+                </Badge>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -1,15 +1,16 @@
 import { Link } from 'react-router-dom';
-import { ClipboardCheck, ArrowRight, ArrowRightLeft, Sparkles, Coffee, Clock, Calendar, AlertTriangle } from 'lucide-react';
+import { ClipboardCheck, ArrowRight, ArrowRightLeft, Sparkles, Coffee, Clock, Calendar, CalendarOff, AlertTriangle } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { PageLoader } from '@/components/common/PageLoader';
 import { PageHeader } from '@/components/common/PageHeader';
 import { ReadinessIndicator } from '@/features/check-in/components/ReadinessIndicator';
+import { MyLeaveCard } from '../components/leave/MyLeaveCard';
 import { useDashboardStats } from '../hooks/useDashboardStats';
 import { useAuth } from '@/lib/hooks/use-auth';
 import { ROUTES } from '@/config/routes.config';
-import { formatTime12h } from '@/lib/utils/format.utils';
+import { formatLeaveRange, formatLeaveType, formatTime12h } from '@/lib/utils/format.utils';
 import { formatDate } from '@/lib/utils/date.utils';
 import { cn } from '@/lib/utils/cn';
 import type { WorkerSchedule, DashboardCheckIn, PendingTransferInfo } from '@/types/check-in.types';
@@ -35,7 +36,7 @@ function canCheckInNow(schedule: WorkerSchedule): boolean {
 
 /**
  * Determine what to show when worker hasn't checked in today.
- * Priority: holiday > day off > assigned today (window closed) > before window > window closed > window open
+ * Priority: holiday > on leave > day off > assigned today (window closed) > before window > window closed > window open
  */
 function getNotCheckedInState(schedule: WorkerSchedule): NotCheckedInState {
   if (schedule.isHoliday) {
@@ -50,6 +51,18 @@ function getNotCheckedInState(schedule: WorkerSchedule): NotCheckedInState {
     };
   }
 
+  if (schedule.leave) {
+    return {
+      icon: <CalendarOff className="h-10 w-10 text-teal-500" />,
+      iconBg: 'bg-teal-100 dark:bg-teal-900/30',
+      borderColor: 'border-teal-200 bg-teal-50/50 dark:border-teal-800 dark:bg-teal-950/20',
+      title: `On ${formatLeaveType(schedule.leave.type).toLowerCase()}`,
+      message: `Approved leave ${formatLeaveRange(schedule.leave.startDate, schedule.leave.endDate)}. No check-in required.`,
+      showButton: false,
+      buttonLabel: '',
+    };
+  }
+
   if (!schedule.isWorkDay) {
     return {
       icon: <Coffee className="h-10 w-10 text-indigo-500" />,
@@ -128,6 +141,14 @@ function NewWorkerScheduleMessage({ schedule }: { schedule: WorkerSchedule }) {
     );
   }
 
+  if (schedule.leave) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You're on approved leave today. No check-in required.
+      </p>
+    );
+  }
+
   if (!schedule.isWorkDay) {
     return (
       <p className="text-sm text-muted-foreground">
@@ -299,6 +320,8 @@ export function WorkerDashboard() {
               </div>
             </CardContent>
           </Card>
+
+          <MyLeaveCard upcomingLeave={stats?.upcomingLeave ?? null} />
         </div>
       ) : (
         <div className="space-y-6">
@@ -326,6 +349,8 @@ export function WorkerDashboard() {
             <NotCheckedInCard schedule={stats.schedule} />
           )}
 
+          <MyLeaveCard upcomingLeave={stats?.upcomingLeave ?? null} />
+
           {/* View History link */}
           <div className="text-center">
             <Button asChild variant="ghost" size="sm">
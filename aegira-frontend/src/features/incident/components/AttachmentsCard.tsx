@@ -0,0 +1,178 @@
+import { useRef, useState } from 'react';
+import { Download, FileText, Image, Paperclip, Trash2, Upload } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import {
+  useIncidentAttachments,
+  useUploadAttachment,
+  useDeleteAttachment,
+  downloadAttachment,
+  type Attachment,
+} from '../hooks/useAttachments';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatDateTime } from '@/lib/utils/date.utils';
+import { formatFileSize } from '@/lib/utils/format.utils';
+
+/** Must match the backend allow-list in shared/storage.ts */
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,image/webp,image/heic,application/pdf';
+
+interface AttachmentsCardProps {
+  incidentId: string;
+  /** When set, new uploads are attached to the case (WHS/ADMIN documents) */
+  caseId?: string;
+  canUpload: boolean;
+  canDelete: (attachment: Attachment) => boolean;
+}
+
+export function AttachmentsCard({ incidentId, caseId, canUpload, canDelete }: AttachmentsCardProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingDelete, setPendingDelete] = useState<Attachment | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const { data: attachments = [] } = useIncidentAttachments(incidentId);
+  const uploadAttachment = useUploadAttachment();
+  const deleteAttachment = useDeleteAttachment();
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files) return;
+    for (const file of Array.from(files)) {
+      try {
+        await uploadAttachment.mutateAsync({ incidentId, caseId, file });
+      } catch (err) {
+        toast({
+          variant: 'destructive',
+          title: `Failed to upload ${file.name}`,
+          description: err instanceof Error ? err.message : 'Something went wrong.',
+        });
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    setDownloadingId(attachment.id);
+    try {
+      await downloadAttachment(attachment);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to download',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteAttachment.mutateAsync({ incidentId, attachmentId: pendingDelete.id });
+      toast({ variant: 'success', title: 'Attachment deleted' });
+      setPendingDelete(null);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to delete',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  if (!canUpload && attachments.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-2">
+            <Paperclip className="h-3.5 w-3.5" />
+            Attachments
+          </h3>
+          {canUpload && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={(e) => handleFilesSelected(e.target.files)}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadAttachment.isPending}
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                {uploadAttachment.isPending ? 'Uploading...' : caseId ? 'Add Document' : 'Add File'}
+              </Button>
+            </>
+          )}
+        </div>
+
+        {attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No attachments yet. Photos (JPEG, PNG, WebP, HEIC) and PDFs up to 10MB.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border/50">
+            {attachments.map((attachment) => (
+              <li key={attachment.id} className="flex items-center gap-3 py-2.5">
+                {attachment.contentType.startsWith('image/') ? (
+                  <Image className="h-4 w-4 text-muted-foreground shrink-0" />
+                ) : (
+                  <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{attachment.fileName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(attachment.sizeBytes)} · {attachment.uploaderName} ·{' '}
+                    {formatDateTime(attachment.createdAt)}
+                  </p>
+                </div>
+                {attachment.caseId && (
+                  <Badge variant="secondary" className="shrink-0">Case document</Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Download ${attachment.fileName}`}
+                  onClick={() => handleDownload(attachment)}
+                  disabled={downloadingId === attachment.id}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                {canDelete(attachment) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Delete ${attachment.fileName}`}
+                    onClick={() => setPendingDelete(attachment)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <ConfirmDialog
+          open={!!pendingDelete}
+          onOpenChange={(open) => !open && setPendingDelete(null)}
+          title="Delete Attachment"
+          description={`Delete "${pendingDelete?.fileName ?? ''}"? This cannot be undone.`}
+          confirmLabel="Delete"
+          variant="destructive"
+          onConfirm={handleDelete}
+          isLoading={deleteAttachment.isPending}
+        />
+      </CardContent>
+    </Card>
+  );
+}
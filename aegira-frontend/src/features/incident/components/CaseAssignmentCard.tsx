@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { UserCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCaseAssignments, useAssignCase, useReassignCase } from '../hooks/useCaseAssignment';
+import { useWhsOfficers } from '@/features/person/hooks/usePersons';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatDateTime } from '@/lib/utils/date.utils';
+import type { Case } from '@/types/incident.types';
+
+interface CaseAssignmentCardProps {
+  caseData: Case;
+}
+
+/** Assign / reassign a case to a WHS officer and show the handover history (WHS only) */
+export function CaseAssignmentCard({ caseData }: CaseAssignmentCardProps) {
+  const { toast } = useToast();
+  const [assigneeId, setAssigneeId] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data: officers = [] } = useWhsOfficers();
+  const { data: history = [] } = useCaseAssignments(caseData.id);
+  const assignCase = useAssignCase();
+  const reassignCase = useReassignCase();
+
+  const isReassign = !!caseData.assignedTo;
+  const isActive = caseData.status === 'OPEN' || caseData.status === 'INVESTIGATING';
+  const candidates = officers.filter((officer) => officer.id !== caseData.assignedTo);
+  const isPending = assignCase.isPending || reassignCase.isPending;
+  const canSubmit = !!assigneeId && (!isReassign || !!reason.trim()) && !isPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    try {
+      if (isReassign) {
+        await reassignCase.mutateAsync({
+          caseId: caseData.id,
+          data: { assigneeId, reason: reason.trim() },
+        });
+      } else {
+        await assignCase.mutateAsync({ caseId: caseData.id, data: { assigneeId } });
+      }
+      const officer = officers.find((o) => o.id === assigneeId);
+      toast({
+        variant: 'success',
+        title: isReassign ? 'Case reassigned' : 'Case assigned',
+        description: officer ? `Now owned by ${officer.first_name} ${officer.last_name}.` : undefined,
+      });
+      setAssigneeId('');
+      setReason('');
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: isReassign ? 'Failed to reassign case' : 'Failed to assign case',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="border-b pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <UserCheck className="h-5 w-5 text-muted-foreground" />
+          Assignment
+        </CardTitle>
+        <CardDescription>
+          {caseData.assigneeName
+            ? `Currently owned by ${caseData.assigneeName}.`
+            : 'This case has no owner yet.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {isActive ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">
+                {isReassign ? 'Reassign to' : 'Assign to'}
+              </Label>
+              <Select value={assigneeId} onValueChange={setAssigneeId}>
+                <SelectTrigger className="w-full sm:max-w-sm">
+                  <SelectValue placeholder="Select a WHS officer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((officer) => (
+                    <SelectItem key={officer.id} value={officer.id}>
+                      {officer.first_name} {officer.last_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isReassign && (
+              <div className="space-y-2">
+                <Label htmlFor="reassignReason" className="text-sm font-medium">
+                  Handover reason <span className="text-destructive">*</span>
+                </Label>
+                <Textarea
+                  id="reassignReason"
+                  placeholder="Why is this case changing hands?"
+                  rows={3}
+                  maxLength={500}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={!canSubmit}>
+                {isPending ? 'Saving...' : isReassign ? 'Reassign Case' : 'Assign Case'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This case is {caseData.status.toLowerCase()} and can no longer be reassigned.
+          </p>
+        )}
+
+        {history.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-2">
+              History
+            </h4>
+            <ul className="divide-y divide-border/50">
+              {history.map((entry) => (
+                <li key={entry.id} className="py-2.5">
+                  <p className="text-sm">
+                    <span className="font-medium">{entry.assigneeName}</span>
+                    <span className="text-muted-foreground">
+                      {' '}
+                      {entry.previousAssigneeId ? 'took over' : 'assigned'} · by {entry.assignedByName} ·{' '}
+                      {formatDateTime(entry.createdAt)}
+                    </span>
+                  </p>
+                  {entry.reason && (
+                    <p className="text-xs text-muted-foreground mt-0.5 whitespace-pre-wrap">
+                      {entry.reason}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
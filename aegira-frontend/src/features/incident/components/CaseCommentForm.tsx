@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { AtSign, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAddCaseComment } from '../hooks/useCaseComments';
+import { useToast } from '@/lib/hooks/use-toast';
+import type { CaseComment } from '@/types/incident.types';
+
+const MAX_COMMENT_LENGTH = 5000;
+const MAX_MENTIONS = 10;
+
+export interface MentionOption {
+  id: string;
+  name: string;
+  /** Only mentionable on comments visible to the reporter */
+  reporterOnly?: boolean;
+}
+
+interface CaseCommentFormProps {
+  caseId: string;
+  /** WHS can post internal notes; the reporter only reporter-visible comments */
+  canPostInternal: boolean;
+  mentionOptions?: MentionOption[];
+  replyTo?: CaseComment | null;
+  onCancelReply?: () => void;
+}
+
+export function CaseCommentForm({
+  caseId,
+  canPostInternal,
+  mentionOptions = [],
+  replyTo,
+  onCancelReply,
+}: CaseCommentFormProps) {
+  const { toast } = useToast();
+  const addComment = useAddCaseComment();
+  const [body, setBody] = useState('');
+  const [visibleToReporter, setVisibleToReporter] = useState(!canPostInternal);
+  const [mentionedIds, setMentionedIds] = useState<string[]>([]);
+
+  // Replies to internal comments must stay internal (enforced by the backend)
+  const forcedInternal = replyTo?.visibility === 'INTERNAL';
+  const isReporterVisible = !forcedInternal && visibleToReporter;
+  const availableMentions = mentionOptions.filter(
+    (option) => isReporterVisible || !option.reporterOnly
+  );
+  const effectiveMentions = mentionedIds.filter((id) =>
+    availableMentions.some((option) => option.id === id)
+  );
+
+  const toggleMention = (id: string, checked: boolean) => {
+    setMentionedIds((current) =>
+      checked ? [...current, id] : current.filter((existing) => existing !== id)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    try {
+      await addComment.mutateAsync({
+        caseId,
+        data: {
+          body: body.trim(),
+          visibility: isReporterVisible ? 'REPORTER' : 'INTERNAL',
+          ...(replyTo && { parentId: replyTo.id }),
+          ...(effectiveMentions.length > 0 && { mentionedPersonIds: effectiveMentions }),
+        },
+      });
+      setBody('');
+      setMentionedIds([]);
+      onCancelReply?.();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to post comment',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {replyTo && (
+        <div className="flex items-center justify-between rounded-md bg-muted px-3 py-1.5 text-xs">
+          <span className="truncate">
+            Replying to <span className="font-medium">{replyTo.authorName}</span>
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            aria-label="Cancel reply"
+            onClick={onCancelReply}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+
+      <Textarea
+        placeholder={replyTo ? 'Write a reply...' : 'Add a comment...'}
+        rows={3}
+        maxLength={MAX_COMMENT_LENGTH}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+      />
+
+      {effectiveMentions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {effectiveMentions.map((id) => (
+            <Badge key={id} variant="info">
+              @{availableMentions.find((option) => option.id === id)?.name}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-4">
+          {canPostInternal && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="visibleToReporter"
+                checked={isReporterVisible}
+                disabled={forcedInternal}
+                onCheckedChange={setVisibleToReporter}
+              />
+              <Label htmlFor="visibleToReporter" className="text-sm font-normal">
+                Visible to reporter
+              </Label>
+            </div>
+          )}
+
+          {availableMentions.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" size="sm">
+                  <AtSign className="h-4 w-4 mr-1" />
+                  Mention
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+                <DropdownMenuLabel>Notify</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {availableMentions.map((option) => (
+                  <DropdownMenuCheckboxItem
+                    key={option.id}
+                    checked={effectiveMentions.includes(option.id)}
+                    disabled={
+                      !effectiveMentions.includes(option.id) &&
+                      effectiveMentions.length >= MAX_MENTIONS
+                    }
+                    onCheckedChange={(checked) => toggleMention(option.id, checked)}
+                  >
+                    {option.name}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+
+        <Button type="submit" size="sm" disabled={addComment.isPending || !body.trim()}>
+          <Send className="h-4 w-4 mr-1" />
+          {addComment.isPending ? 'Posting...' : replyTo ? 'Post Reply' : 'Post Comment'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,96 @@
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { PageLoader } from '@/components/common/PageLoader';
+import { CaseStatusBadge } from './CaseStatusBadge';
+import { SeverityBadge } from './SeverityBadge';
+import { useCaseWorkload, type CaseWorkloadEntry } from '../hooks/useCaseAssignment';
+import { formatCaseNumber } from '@/lib/utils/format.utils';
+import { cn } from '@/lib/utils/cn';
+import { ROUTES } from '@/config/routes.config';
+import { buildRoute } from '@/lib/utils/route.utils';
+
+/** Cases older than this are highlighted — they likely need a nudge or a handover */
+const STALE_CASE_DAYS = 14;
+
+function formatAge(days: number): string {
+  if (days === 0) return 'Today';
+  return `${days}d`;
+}
+
+function WorkloadCard({ entry }: { entry: CaseWorkloadEntry }) {
+  const navigate = useNavigate();
+  const isUnassigned = entry.assigneeId === null;
+
+  return (
+    <Card className={cn(isUnassigned && 'border-amber-500/40')}>
+      <CardContent className="pt-6">
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold truncate">
+              {entry.assigneeName ?? 'Unassigned'}
+            </h3>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              {entry.cases.length} active case{entry.cases.length === 1 ? '' : 's'}
+            </p>
+          </div>
+          <div className="flex gap-1.5 shrink-0">
+            <Badge variant="amber">{entry.openCount} open</Badge>
+            <Badge variant="info">{entry.investigatingCount} investigating</Badge>
+          </div>
+        </div>
+
+        {entry.cases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active cases.</p>
+        ) : (
+          <ul className="divide-y divide-border/50">
+            {entry.cases.map((c) => (
+              <li key={c.id}>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-3 py-2 text-left hover:bg-accent/50 rounded-sm"
+                  onClick={() => navigate(buildRoute(ROUTES.WHS_CASE_DETAIL, { id: c.id }))}
+                >
+                  <span className="text-xs text-muted-foreground tabular-nums shrink-0">
+                    {formatCaseNumber(c.caseNumber, c.createdAt)}
+                  </span>
+                  <span className="text-sm truncate flex-1">{c.title}</span>
+                  <SeverityBadge severity={c.severity} />
+                  <CaseStatusBadge status={c.status} />
+                  <span
+                    className={cn(
+                      'text-xs tabular-nums w-12 text-right shrink-0',
+                      c.ageDays >= STALE_CASE_DAYS ? 'font-semibold text-destructive' : 'text-muted-foreground'
+                    )}
+                    title={`Opened ${c.ageDays} day${c.ageDays === 1 ? '' : 's'} ago`}
+                  >
+                    {formatAge(c.ageDays)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Open and investigating cases per WHS officer, oldest first within each officer */
+export function CaseWorkloadView() {
+  const { data: workload = [], isLoading, error } = useCaseWorkload();
+
+  return (
+    <PageLoader isLoading={isLoading} error={error} skeleton="table">
+      {workload.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No active WHS officers or cases.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {workload.map((entry) => (
+            <WorkloadCard key={entry.assigneeId ?? 'unassigned'} entry={entry} />
+          ))}
+        </div>
+      )}
+    </PageLoader>
+  );
+}
@@ -5,9 +5,14 @@ import {
   FolderOpen,
   RefreshCw,
   CheckCheck,
+  MessageSquare,
+  Reply,
+  UserCheck,
 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { formatDateTime } from '@/lib/utils/date.utils';
-import type { IncidentEvent } from '@/types/incident.types';
+import type { CaseComment, IncidentEvent } from '@/types/incident.types';
 
 const EVENT_CONFIG: Record<
   string,
@@ -43,24 +48,132 @@ const EVENT_CONFIG: Record<
     icon: <CheckCheck className="h-4 w-4" />,
     color: 'text-green-600 bg-green-50 border-green-200',
   },
+  CASE_ASSIGNED: {
+    label: 'Case assigned',
+    icon: <UserCheck className="h-4 w-4" />,
+    color: 'text-purple-600 bg-purple-50 border-purple-200',
+  },
 };
 
+const COMMENT_COLOR = 'text-sky-600 bg-sky-50 border-sky-200';
+
+type TimelineItem =
+  | { kind: 'event'; id: string; createdAt: string; event: IncidentEvent }
+  | { kind: 'comment'; id: string; createdAt: string; comment: CaseComment; replies: CaseComment[] };
+
+/** Events and top-level comments in chronological order; replies stay under their parent */
+function buildTimelineItems(events: IncidentEvent[], comments: CaseComment[]): TimelineItem[] {
+  const repliesByParent = new Map<string, CaseComment[]>();
+  for (const comment of comments) {
+    if (!comment.parentId) continue;
+    const replies = repliesByParent.get(comment.parentId) ?? [];
+    replies.push(comment);
+    repliesByParent.set(comment.parentId, replies);
+  }
+
+  const items: TimelineItem[] = [
+    ...events.map((event) => ({
+      kind: 'event' as const,
+      id: event.id,
+      createdAt: event.createdAt,
+      event,
+    })),
+    ...comments
+      .filter((comment) => !comment.parentId)
+      .map((comment) => ({
+        kind: 'comment' as const,
+        id: comment.id,
+        createdAt: comment.createdAt,
+        comment,
+        replies: repliesByParent.get(comment.id) ?? [],
+      })),
+  ];
+
+  return items.sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+}
+
+function CommentBody({ comment }: { comment: CaseComment }) {
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{comment.authorName}</span>
+        <span>{formatDateTime(comment.createdAt)}</span>
+        {comment.visibility === 'INTERNAL' ? (
+          <Badge variant="slate">Internal</Badge>
+        ) : (
+          <Badge variant="info">Visible to reporter</Badge>
+        )}
+      </div>
+      <p className="text-sm mt-1 whitespace-pre-wrap leading-relaxed">{comment.body}</p>
+    </>
+  );
+}
+
 interface IncidentTimelineProps {
   events: IncidentEvent[];
+  /** Case comments to interleave with the events (case activity feed) */
+  comments?: CaseComment[];
+  /** Shows a reply action on top-level comments when set */
+  onReply?: (comment: CaseComment) => void;
 }
 
-export function IncidentTimeline({ events }: IncidentTimelineProps) {
+export function IncidentTimeline({ events, comments = [], onReply }: IncidentTimelineProps) {
+  const items = buildTimelineItems(events, comments);
+
   return (
     <div className="relative space-y-0">
-      {events.map((event, index) => {
+      {items.map((item, index) => {
+        const isLast = index === items.length - 1;
+
+        if (item.kind === 'comment') {
+          return (
+            <div key={item.id} className="relative flex gap-4 pb-6">
+              {!isLast && (
+                <div className="absolute left-[17px] top-9 bottom-0 w-px bg-border" />
+              )}
+
+              <div
+                className={`relative z-10 flex h-9 w-9 shrink-0 items-center justify-center rounded-full border ${COMMENT_COLOR}`}
+              >
+                <MessageSquare className="h-4 w-4" />
+              </div>
+
+              <div className="flex-1 min-w-0 pt-1">
+                <CommentBody comment={item.comment} />
+                {item.replies.length > 0 && (
+                  <div className="mt-3 space-y-3 border-l-2 border-border pl-4">
+                    {item.replies.map((reply) => (
+                      <div key={reply.id}>
+                        <CommentBody comment={reply} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {onReply && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="mt-1 h-7 px-2 text-xs"
+                    onClick={() => onReply(item.comment)}
+                  >
+                    <Reply className="h-3.5 w-3.5 mr-1" />
+                    Reply
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        }
+
+        const { event } = item;
         const config = EVENT_CONFIG[event.eventType] ?? {
           label: event.eventType,
           icon: <RefreshCw className="h-4 w-4" />,
           color: 'text-gray-600 bg-gray-50 border-gray-200',
         };
 
-        const isLast = index === events.length - 1;
-
         return (
           <div key={event.id} className="relative flex gap-4 pb-6">
             {/* Vertical line */}
@@ -89,6 +202,12 @@ export function IncidentTimeline({ events }: IncidentTimelineProps) {
                     Reason: {String(event.payload.rejectionReason)}
                   </p>
                 )}
+              {event.eventType === 'CASE_ASSIGNED' && !!event.payload?.assigneeName && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {event.payload.previousAssigneeId ? 'Reassigned' : 'Assigned'} to{' '}
+                  {String(event.payload.assigneeName)}
+                </p>
+              )}
               {event.eventType === 'CASE_UPDATED' && !!event.payload?.status && (
                 <p className="text-xs text-muted-foreground mt-1">
                   Status changed to {String(event.payload.status)}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import { downloadBlob } from '@/lib/utils/export.utils';
+import type { Attachment } from '@/types/incident.types';
+
+export type { Attachment } from '@/types/incident.types';
+
+/** All attachments on an incident, including those uploaded against its case */
+export function useIncidentAttachments(incidentId: string) {
+  return useQuery({
+    queryKey: ['incident-attachments', incidentId],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<Attachment[]>(ENDPOINTS.INCIDENT.ATTACHMENTS(incidentId)),
+    enabled: !!incidentId,
+  });
+}
+
+/**
+ * Upload to an incident, or to its case when caseId is given.
+ * Case uploads are WHS/ADMIN only (enforced by the backend).
+ */
+export function useUploadAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ incidentId, caseId, file }: { incidentId: string; caseId?: string; file: File }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return apiClient.upload<Attachment>(
+        caseId ? ENDPOINTS.CASE.ATTACHMENTS(caseId) : ENDPOINTS.INCIDENT.ATTACHMENTS(incidentId),
+        formData
+      );
+    },
+    onSuccess: (_, { incidentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['incident-attachments', incidentId] });
+    },
+  });
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ incidentId, attachmentId }: { incidentId: string; attachmentId: string }) =>
+      apiClient.delete(ENDPOINTS.INCIDENT.ATTACHMENT(incidentId, attachmentId)),
+    onSuccess: (_, { incidentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['incident-attachments', incidentId] });
+    },
+  });
+}
+
+/** Attachments are private — fetch through the API (auth cookies) and hand the blob to the browser */
+export async function downloadAttachment(attachment: Attachment): Promise<void> {
+  const blob = await apiClient.getBlob(
+    ENDPOINTS.INCIDENT.ATTACHMENT_DOWNLOAD(attachment.incidentId, attachment.id)
+  );
+  downloadBlob(blob, attachment.fileName);
+}
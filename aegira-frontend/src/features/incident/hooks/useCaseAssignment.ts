@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type {
+  Case,
+  CaseAssignment,
+  CaseWorkloadEntry,
+  AssignCaseData,
+  ReassignCaseData,
+} from '@/types/incident.types';
+
+export type { CaseAssignment, CaseWorkloadEntry } from '@/types/incident.types';
+
+/** Assignment history, newest first (WHS only) */
+export function useCaseAssignments(caseId: string) {
+  return useQuery({
+    queryKey: ['case-assignments', caseId],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<CaseAssignment[]>(ENDPOINTS.CASE.ASSIGNMENTS(caseId)),
+    enabled: !!caseId,
+  });
+}
+
+/** Open and investigating cases per WHS officer (WHS only) */
+export function useCaseWorkload(enabled = true) {
+  return useQuery({
+    queryKey: ['cases', 'workload'],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<CaseWorkloadEntry[]>(ENDPOINTS.CASE.WORKLOAD),
+    enabled,
+  });
+}
+
+function invalidateAfterAssignment(queryClient: QueryClient, updatedCase: Case, caseId: string) {
+  queryClient.invalidateQueries({ queryKey: ['cases'] });
+  queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+  queryClient.invalidateQueries({ queryKey: ['case-assignments', caseId] });
+  queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+  queryClient.invalidateQueries({ queryKey: ['incident-timeline', updatedCase.incidentId] });
+}
+
+export function useAssignCase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ caseId, data }: { caseId: string; data: AssignCaseData }) =>
+      apiClient.post<Case>(ENDPOINTS.CASE.ASSIGN(caseId), data),
+    onSuccess: (updatedCase, { caseId }) => invalidateAfterAssignment(queryClient, updatedCase, caseId),
+  });
+}
+
+export function useReassignCase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ caseId, data }: { caseId: string; data: ReassignCaseData }) =>
+      apiClient.post<Case>(ENDPOINTS.CASE.REASSIGN(caseId), data),
+    onSuccess: (updatedCase, { caseId }) => invalidateAfterAssignment(queryClient, updatedCase, caseId),
+  });
+}
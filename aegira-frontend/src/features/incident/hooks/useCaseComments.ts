@@ -0,0 +1,29 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type { CaseComment, CreateCaseCommentData } from '@/types/incident.types';
+
+export type { CaseComment, CreateCaseCommentData } from '@/types/incident.types';
+
+/** Comment thread for a case — the reporter only receives comments visible to them */
+export function useCaseComments(caseId: string) {
+  return useQuery({
+    queryKey: ['case-comments', caseId],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<CaseComment[]>(ENDPOINTS.CASE.COMMENTS(caseId)),
+    enabled: !!caseId,
+  });
+}
+
+export function useAddCaseComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ caseId, data }: { caseId: string; data: CreateCaseCommentData }) =>
+      apiClient.post<CaseComment>(ENDPOINTS.CASE.COMMENTS(caseId), data),
+    onSuccess: (_, { caseId }) => {
+      queryClient.invalidateQueries({ queryKey: ['case-comments', caseId] });
+    },
+  });
+}
@@ -15,7 +15,9 @@ import { DataTable } from '@/components/ui/data-table';
 import { PageHeader } from '@/components/common/PageHeader';
 import { PageLoader } from '@/components/common/PageLoader';
 import { TableSearch } from '@/components/common/TableSearch';
+import { ExportButton } from '@/components/common/ExportButton';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
   SelectContent,
@@ -25,11 +27,13 @@ import {
 } from '@/components/ui/select';
 import { CaseStatusBadge } from '../components/CaseStatusBadge';
 import { SeverityBadge } from '../components/SeverityBadge';
+import { CaseWorkloadView } from '../components/CaseWorkloadView';
 import { useCases } from '../hooks/useCases';
 import { formatDate } from '@/lib/utils/date.utils';
 import { formatCaseNumber } from '@/lib/utils/format.utils';
 import { cn } from '@/lib/utils/cn';
 import { ROUTES } from '@/config/routes.config';
+import { ENDPOINTS } from '@/lib/api/endpoints';
 import { buildRoute } from '@/lib/utils/route.utils';
 import type { CaseListItem, CaseStatus, IncidentSeverity } from '@/types/incident.types';
 
@@ -195,8 +199,11 @@ const columns: ColumnDef<CaseListItem>[] = [
 
 // --- Main page component ---
 
+type CasesView = 'cases' | 'workload';
+
 export function AdminCasesPage() {
   const navigate = useNavigate();
+  const [view, setView] = useState<CasesView>('cases');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('ALL');
   const [severityFilter, setSeverityFilter] = useState<string>('ALL');
   const [searchInput, setSearchInput] = useState('');
@@ -206,13 +213,18 @@ export function AdminCasesPage() {
     pageSize: 20,
   });
 
-  const { data, isLoading, isFetching, error } = useCases({
-    page: pagination.pageIndex + 1,
-    limit: pagination.pageSize,
+  // Shared by the table query and the export
+  const filters = {
     status: statusFilter === 'ALL' ? undefined : statusFilter,
     severity:
       severityFilter === 'ALL' ? undefined : (severityFilter as IncidentSeverity),
     search: search || undefined,
+  };
+
+  const { data, isLoading, isFetching, error } = useCases({
+    page: pagination.pageIndex + 1,
+    limit: pagination.pageSize,
+    ...filters,
   });
 
   const statusCounts = data?.statusCounts ?? {
@@ -260,113 +272,131 @@ export function AdminCasesPage() {
         <PageHeader
           title="Case Management"
           description="Manage and track cases created from approved incidents"
+          action={
+            view === 'cases' && (
+              <ExportButton endpoint={ENDPOINTS.CASE.EXPORT} params={filters} fileName="cases" />
+            )
+          }
         />
 
-        {/* Status filter cards */}
-        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
-          {STATUS_FILTERS.map((filter) => {
-            const count =
-              filter.value === 'ALL'
-                ? totalCount
-                : statusCounts[filter.value as CaseStatus];
-            const isActive = statusFilter === filter.value;
-            const Icon = filter.icon;
+        <Tabs value={view} onValueChange={(value) => setView(value as CasesView)}>
+          <TabsList>
+            <TabsTrigger value="cases">Cases</TabsTrigger>
+            <TabsTrigger value="workload">Workload</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {view === 'workload' ? (
+          <CaseWorkloadView />
+        ) : (
+          <>
+            {/* Status filter cards */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+              {STATUS_FILTERS.map((filter) => {
+                const count =
+                  filter.value === 'ALL'
+                    ? totalCount
+                    : statusCounts[filter.value as CaseStatus];
+                const isActive = statusFilter === filter.value;
+                const Icon = filter.icon;
 
-            return (
-              <button
-                key={filter.value}
-                onClick={() => handleStatusChange(filter.value)}
-                className={cn(
-                  'relative flex items-center gap-3 rounded-lg border bg-card p-3 text-left transition-all',
-                  isActive
-                    ? `ring-2 shadow-sm ${filter.activeStyle}`
-                    : 'hover:bg-accent/50'
-                )}
+                return (
+                  <button
+                    key={filter.value}
+                    onClick={() => handleStatusChange(filter.value)}
+                    className={cn(
+                      'relative flex items-center gap-3 rounded-lg border bg-card p-3 text-left transition-all',
+                      isActive
+                        ? `ring-2 shadow-sm ${filter.activeStyle}`
+                        : 'hover:bg-accent/50'
+                    )}
+                  >
+                    <div
+                      className={cn(
+                        'flex shrink-0 items-center justify-center rounded-lg p-2',
+                        filter.iconBg
+                      )}
+                    >
+                      <Icon className={cn('h-4 w-4', filter.iconColor)} />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-2xl font-bold tabular-nums leading-none">
+                        {count}
+                      </p>
+                      <p className="mt-1 truncate text-xs text-muted-foreground">
+                        {filter.label}
+                      </p>
+                    </div>
+                    {filter.value === 'OPEN' && count > 0 && (
+                      <span className="absolute right-2 top-2 flex h-2 w-2">
+                        <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-amber-400 opacity-75" />
+                        <span className="relative inline-flex h-2 w-2 rounded-full bg-amber-500" />
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-col sm:flex-row gap-3">
+              <TableSearch
+                placeholder="Search by incident title or reporter..."
+                value={searchInput}
+                onChange={setSearchInput}
+                onSearch={handleSearch}
+              />
+              <Select
+                value={severityFilter}
+                onValueChange={(value) => {
+                  setSeverityFilter(value);
+                  setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+                }}
               >
-                <div
-                  className={cn(
-                    'flex shrink-0 items-center justify-center rounded-lg p-2',
-                    filter.iconBg
-                  )}
+                <SelectTrigger className="sm:w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEVERITY_FILTER_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {hasActiveFilters && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={clearFilters}
+                  className="h-9 gap-1.5 text-muted-foreground"
                 >
-                  <Icon className={cn('h-4 w-4', filter.iconColor)} />
-                </div>
-                <div className="min-w-0">
-                  <p className="text-2xl font-bold tabular-nums leading-none">
-                    {count}
-                  </p>
-                  <p className="mt-1 truncate text-xs text-muted-foreground">
-                    {filter.label}
-                  </p>
-                </div>
-                {filter.value === 'OPEN' && count > 0 && (
-                  <span className="absolute right-2 top-2 flex h-2 w-2">
-                    <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-amber-400 opacity-75" />
-                    <span className="relative inline-flex h-2 w-2 rounded-full bg-amber-500" />
-                  </span>
-                )}
-              </button>
-            );
-          })}
-        </div>
+                  <X className="h-3.5 w-3.5" />
+                  Clear filters
+                </Button>
+              )}
+            </div>
 
-        {/* Filters */}
-        <div className="flex flex-col sm:flex-row gap-3">
-          <TableSearch
-            placeholder="Search by incident title or reporter..."
-            value={searchInput}
-            onChange={setSearchInput}
-            onSearch={handleSearch}
-          />
-          <Select
-            value={severityFilter}
-            onValueChange={(value) => {
-              setSeverityFilter(value);
-              setPagination((prev) => ({ ...prev, pageIndex: 0 }));
-            }}
-          >
-            <SelectTrigger className="sm:w-[180px]">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {SEVERITY_FILTER_OPTIONS.map((opt) => (
-                <SelectItem key={opt.value} value={opt.value}>
-                  {opt.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-          {hasActiveFilters && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={clearFilters}
-              className="h-9 gap-1.5 text-muted-foreground"
+            {/* Data table with loading opacity for refetches */}
+            <div
+              className={cn(
+                'transition-opacity duration-150',
+                isFetching && !isLoading && 'opacity-60'
+              )}
             >
-              <X className="h-3.5 w-3.5" />
-              Clear filters
-            </Button>
-          )}
-        </div>
-
-        {/* Data table with loading opacity for refetches */}
-        <div
-          className={cn(
-            'transition-opacity duration-150',
-            isFetching && !isLoading && 'opacity-60'
-          )}
-        >
-          <DataTable
-            columns={columns}
-            data={data?.items ?? []}
-            pageCount={data?.pagination?.totalPages}
-            pagination={pagination}
-            onPaginationChange={setPagination}
-            totalCount={data?.pagination?.total}
-            emptyMessage={EMPTY_MESSAGES[statusFilter]}
-            onRowClick={handleRowClick}
-          />
-        </div>
+              <DataTable
+                columns={columns}
+                data={data?.items ?? []}
+                pageCount={data?.pagination?.totalPages}
+                pagination={pagination}
+                onPaginationChange={setPagination}
+                totalCount={data?.pagination?.total}
+                emptyMessage={EMPTY_MESSAGES[statusFilter]}
+                onRowClick={handleRowClick}
+              />
+            </div>
+          </>
+        )}
       </div>
     </PageLoader>
   );
@@ -16,6 +16,7 @@ import { PageHeader } from '@/components/common/PageHeader';
 import { PageLoader } from '@/components/common/PageLoader';
 import { TableSearch } from '@/components/common/TableSearch';
 import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { ExportButton } from '@/components/common/ExportButton';
 import { Button } from '@/components/ui/button';
 import {
   Select,
@@ -38,6 +39,7 @@ import { useApproveIncident } from '../hooks/useApproveIncident';
 import { useToast } from '@/lib/hooks/use-toast';
 import { useAuth } from '@/lib/hooks/use-auth';
 import { ROUTES } from '@/config/routes.config';
+import { ENDPOINTS } from '@/lib/api/endpoints';
 import { buildRoute } from '@/lib/utils/route.utils';
 import { formatDate } from '@/lib/utils/date.utils';
 import { formatIncidentNumber, formatIncidentType } from '@/lib/utils/format.utils';
@@ -284,14 +286,19 @@ export function AdminIncidentsPage() {
     pageSize: 20,
   });
 
-  const { data, isLoading, isFetching, error } = useIncidents({
-    page: pagination.pageIndex + 1,
-    limit: pagination.pageSize,
+  // Shared by the table query and the export
+  const filters = {
     status: statusFilter === 'ALL' ? undefined : statusFilter,
     severity:
       severityFilter === 'ALL' ? undefined : (severityFilter as IncidentSeverity),
     type: typeFilter === 'ALL' ? undefined : (typeFilter as IncidentType),
     search: search || undefined,
+  };
+
+  const { data, isLoading, isFetching, error } = useIncidents({
+    page: pagination.pageIndex + 1,
+    limit: pagination.pageSize,
+    ...filters,
   });
 
   const statusCounts = data?.statusCounts ?? {
@@ -337,6 +344,9 @@ export function AdminIncidentsPage() {
         <PageHeader
           title="Incident Management"
           description="Review and manage workplace incident reports"
+          action={
+            <ExportButton endpoint={ENDPOINTS.INCIDENT.EXPORT} params={filters} fileName="incidents" />
+          }
         />
 
         {/* Status filter cards */}
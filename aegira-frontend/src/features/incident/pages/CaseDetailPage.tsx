@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -18,9 +19,14 @@ import {
 import { CaseStatusBadge } from '../components/CaseStatusBadge';
 import { SeverityBadge } from '../components/SeverityBadge';
 import { IncidentTimeline } from '../components/IncidentTimeline';
+import { AttachmentsCard } from '../components/AttachmentsCard';
+import { CaseCommentForm, type MentionOption } from '../components/CaseCommentForm';
+import { CaseAssignmentCard } from '../components/CaseAssignmentCard';
 import { useCase } from '../hooks/useCase';
 import { useUpdateCase } from '../hooks/useUpdateCase';
 import { useIncidentTimeline } from '../hooks/useIncidentTimeline';
+import { useCaseComments } from '../hooks/useCaseComments';
+import { useWhsOfficers } from '@/features/person/hooks/usePersons';
 import { useToast } from '@/lib/hooks/use-toast';
 import { useAuth } from '@/lib/hooks/use-auth';
 import { formatDate, formatDateTime } from '@/lib/utils/date.utils';
@@ -32,7 +38,7 @@ import {
 } from '@/lib/utils/format.utils';
 import { ROUTES } from '@/config/routes.config';
 import { buildRoute } from '@/lib/utils/route.utils';
-import type { CaseStatus } from '@/types/incident.types';
+import type { CaseComment, CaseStatus } from '@/types/incident.types';
 
 const VALID_TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
   OPEN: ['INVESTIGATING', 'RESOLVED', 'CLOSED'],
@@ -76,10 +82,24 @@ export function CaseDetailPage() {
   const { toast } = useToast();
   const { user } = useAuth();
   const isWhs = user?.role === 'WHS';
+  const isAttachmentStaff = isWhs || user?.role === 'ADMIN';
 
   const { data: caseData, isLoading, error } = useCase(id || '');
   const { data: timeline } = useIncidentTimeline(caseData?.incidentId || '');
+  const { data: comments } = useCaseComments(id || '');
+  const { data: whsOfficers } = useWhsOfficers(isWhs);
   const updateCase = useUpdateCase();
+  const [replyTo, setReplyTo] = useState<CaseComment | null>(null);
+
+  // WHS colleagues can be mentioned on any comment; the reporter only on visible ones
+  const mentionOptions: MentionOption[] = [
+    ...(whsOfficers ?? [])
+      .filter((officer) => officer.id !== user?.id)
+      .map((officer) => ({ id: officer.id, name: `${officer.first_name} ${officer.last_name}` })),
+    ...(caseData
+      ? [{ id: caseData.incident.reporterId, name: caseData.incident.reporterName, reporterOnly: true }]
+      : []),
+  ];
 
   const {
     register,
@@ -341,17 +361,41 @@ export function CaseDetailPage() {
             </Card>
           )}
 
-          {/* Timeline */}
-          {timeline && timeline.length > 0 && (
-            <Card>
-              <CardContent className="pt-6">
-                <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-4">
-                  Timeline
-                </h3>
-                <IncidentTimeline events={timeline} />
-              </CardContent>
-            </Card>
-          )}
+          {/* Assignment — WHS only */}
+          {isWhs && <CaseAssignmentCard caseData={caseData} />}
+
+          {/* Attachments — incident evidence plus case documents; uploads go to the case */}
+          <AttachmentsCard
+            incidentId={caseData.incidentId}
+            caseId={caseData.id}
+            canUpload={isAttachmentStaff && caseData.status !== 'CLOSED'}
+            canDelete={() => isAttachmentStaff}
+          />
+
+          {/* Activity — case comments interleaved with the incident timeline */}
+          <Card>
+            <CardContent className="pt-6">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-4">
+                Activity
+              </h3>
+              {isWhs && (
+                <div className="mb-6">
+                  <CaseCommentForm
+                    caseId={caseData.id}
+                    canPostInternal
+                    mentionOptions={mentionOptions}
+                    replyTo={replyTo}
+                    onCancelReply={() => setReplyTo(null)}
+                  />
+                </div>
+              )}
+              <IncidentTimeline
+                events={timeline ?? []}
+                comments={comments}
+                onReply={isWhs ? setReplyTo : undefined}
+              />
+            </CardContent>
+          </Card>
         </div>
       )}
     </PageLoader>
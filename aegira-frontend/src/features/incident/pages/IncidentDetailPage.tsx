@@ -16,8 +16,11 @@ import { SeverityBadge } from '../components/SeverityBadge';
 import { CaseStatusBadge } from '../components/CaseStatusBadge';
 import { IncidentTimeline } from '../components/IncidentTimeline';
 import { RejectionDialog } from '../components/RejectionDialog';
+import { AttachmentsCard } from '../components/AttachmentsCard';
+import { CaseCommentForm } from '../components/CaseCommentForm';
 import { useIncident } from '../hooks/useIncident';
 import { useIncidentTimeline } from '../hooks/useIncidentTimeline';
+import { useCaseComments } from '../hooks/useCaseComments';
 import { useApproveIncident } from '../hooks/useApproveIncident';
 import { useToast } from '@/lib/hooks/use-toast';
 import { useAuth } from '@/lib/hooks/use-auth';
@@ -61,6 +64,14 @@ export function IncidentDetailPage() {
 
   const isWhs = user?.role === 'WHS';
   const isPending = incident?.status === 'PENDING';
+  // Attachment rules mirror the backend: WHS/ADMIN manage all evidence;
+  // the reporter adds files until rejection and removes own files while pending
+  const isAttachmentStaff = isWhs || user?.role === 'ADMIN';
+  const isReporter = !!user && incident?.reporterId === user.id;
+  // The reporter follows the case through reporter-visible comments here;
+  // WHS uses the full activity feed on the case page
+  const showCaseComments = isReporter && !isWhs && !!incident?.caseId;
+  const { data: comments } = useCaseComments(showCaseComments ? incident?.caseId ?? '' : '');
 
   const handleApprove = async () => {
     if (!id) return;
@@ -282,16 +293,39 @@ export function IncidentDetailPage() {
             </Card>
           )}
 
+          {/* Attachments */}
+          <AttachmentsCard
+            incidentId={incident.id}
+            canUpload={isAttachmentStaff || (isReporter && incident.status !== 'REJECTED')}
+            canDelete={(attachment) =>
+              isAttachmentStaff || (isPending && attachment.uploadedBy === user?.id)
+            }
+          />
+
           {/* Timeline */}
-          {timeline && timeline.length > 0 && (
+          {showCaseComments ? (
             <Card>
               <CardContent className="pt-6">
                 <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-4">
-                  Timeline
+                  Activity
                 </h3>
-                <IncidentTimeline events={timeline} />
+                <div className="mb-6">
+                  <CaseCommentForm caseId={incident.caseId!} canPostInternal={false} />
+                </div>
+                <IncidentTimeline events={timeline ?? []} comments={comments} />
               </CardContent>
             </Card>
+          ) : (
+            timeline && timeline.length > 0 && (
+              <Card>
+                <CardContent className="pt-6">
+                  <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-4">
+                    Timeline
+                  </h3>
+                  <IncidentTimeline events={timeline} />
+                </CardContent>
+              </Card>
+            )
           )}
 
           {/* Dialogs */}
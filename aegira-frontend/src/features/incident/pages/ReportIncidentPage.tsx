@@ -1,8 +1,9 @@
+import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { ArrowLeft, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, AlertTriangle, Paperclip, X } from 'lucide-react';
 import { PageHeader } from '@/components/common/PageHeader';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -17,6 +18,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useCreateIncident } from '../hooks/useCreateIncident';
+import { useUploadAttachment } from '../hooks/useAttachments';
+import { ATTACHMENT_ACCEPT } from '../components/AttachmentsCard';
+import { formatFileSize } from '@/lib/utils/format.utils';
 import { useToast } from '@/lib/hooks/use-toast';
 import { ROUTES } from '@/config/routes.config';
 
@@ -51,10 +55,15 @@ const createIncidentSchema = z.object({
 
 type CreateIncidentFormData = z.infer<typeof createIncidentSchema>;
 
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB — matches backend limit
+
 export function ReportIncidentPage() {
   const navigate = useNavigate();
   const createIncident = useCreateIncident();
+  const uploadAttachment = useUploadAttachment();
   const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
 
   const {
     register,
@@ -76,14 +85,52 @@ export function ReportIncidentPage() {
   const selectedType = watch('incidentType');
   const selectedSeverity = watch('severity');
 
+  const handleFilesSelected = (selected: FileList | null) => {
+    if (!selected) return;
+    const accepted: File[] = [];
+    for (const file of Array.from(selected)) {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        toast({
+          variant: 'destructive',
+          title: `${file.name} is too large`,
+          description: 'Attachments must not exceed 10MB.',
+        });
+        continue;
+      }
+      accepted.push(file);
+    }
+    setFiles((current) => [...current, ...accepted]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
   const onSubmit = async (data: CreateIncidentFormData) => {
     try {
-      await createIncident.mutateAsync(data);
-      toast({
-        variant: 'success',
-        title: 'Incident report submitted',
-        description: 'Your incident report has been submitted and is pending review.',
-      });
+      const incident = await createIncident.mutateAsync(data);
+
+      // Report is already filed — a failed upload shouldn't block it; the
+      // reporter can retry from the incident detail page
+      let failedUploads = 0;
+      for (const file of files) {
+        try {
+          await uploadAttachment.mutateAsync({ incidentId: incident.id, file });
+        } catch {
+          failedUploads++;
+        }
+      }
+
+      if (failedUploads > 0) {
+        toast({
+          variant: 'warning',
+          title: 'Incident report submitted',
+          description: `${failedUploads} attachment${failedUploads > 1 ? 's' : ''} failed to upload. You can add them from the incident details.`,
+        });
+      } else {
+        toast({
+          variant: 'success',
+          title: 'Incident report submitted',
+          description: 'Your incident report has been submitted and is pending review.',
+        });
+      }
       navigate(ROUTES.MY_INCIDENTS);
     } catch (error) {
       toast({
@@ -219,6 +266,49 @@ export function ReportIncidentPage() {
                 Include what happened, when it occurred, and any relevant details.
               </p>
             </div>
+
+            <div className="space-y-2">
+              <Label>Photos & Documents (Optional)</Label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={(e) => handleFilesSelected(e.target.files)}
+              />
+              {files.length > 0 && (
+                <ul className="space-y-1">
+                  {files.map((file, index) => (
+                    <li
+                      key={`${file.name}-${index}`}
+                      className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+                    >
+                      <span className="truncate">
+                        {file.name}{' '}
+                        <span className="text-muted-foreground">({formatFileSize(file.size)})</span>
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove ${file.name}`}
+                        onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Paperclip className="h-4 w-4 mr-2" />
+                Attach Files
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                Photos of the hazard or injury (JPEG, PNG, WebP, HEIC) or PDFs, up to 10MB each.
+              </p>
+            </div>
           </CardContent>
         </Card>
 
@@ -230,8 +320,8 @@ export function ReportIncidentPage() {
           >
             Cancel
           </Button>
-          <Button type="submit" disabled={isSubmitting || createIncident.isPending}>
-            {createIncident.isPending ? 'Submitting...' : 'Submit Incident Report'}
+          <Button type="submit" disabled={isSubmitting || createIncident.isPending || uploadAttachment.isPending}>
+            {createIncident.isPending || uploadAttachment.isPending ? 'Submitting...' : 'Submit Incident Report'}
           </Button>
         </div>
       </form>
@@ -14,6 +14,7 @@ import {
   useMarkAsRead,
   useMarkAllAsRead,
 } from '../hooks/useNotifications';
+import { useNotificationStream } from '../hooks/useNotificationStream';
 import { useToast } from '@/lib/hooks/use-toast';
 import { Separator } from '@/components/ui/separator';
 import { ROUTES } from '@/config/routes.config';
@@ -22,6 +23,7 @@ export function NotificationBell() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [open, setOpen] = useState(false);
+  useNotificationStream();
   const { data: preview } = useNotificationPreview();
   const { data: unreadData } = useUnreadCount();
   const markAsRead = useMarkAsRead();
@@ -30,10 +32,14 @@ export function NotificationBell() {
   const notifications = preview?.items || [];
   const unreadCount = unreadData?.count ?? 0;
 
-  const handleNotificationClick = (notificationId: string, readAt: string | null) => {
+  const handleNotificationClick = (notificationId: string, readAt: string | null, link: string | null) => {
     if (!readAt) {
       markAsRead.mutate(notificationId);
     }
+    if (link) {
+      setOpen(false);
+      navigate(link);
+    }
   };
 
   const handleViewAll = () => {
@@ -111,7 +117,7 @@ export function NotificationBell() {
                   notification={notification}
                   compact
                   onClick={() =>
-                    handleNotificationClick(notification.id, notification.read_at)
+                    handleNotificationClick(notification.id, notification.read_at, notification.link)
                   }
                 />
               ))}
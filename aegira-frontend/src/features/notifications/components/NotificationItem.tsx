@@ -8,6 +8,11 @@ import {
   XCircle,
   Info,
   Archive,
+  FileEdit,
+  CalendarOff,
+  ShieldAlert,
+  MessageSquare,
+  UserCheck,
 } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 import { getRelativeTime } from '@/lib/utils/date.utils';
@@ -79,6 +84,76 @@ const typeConfig: Record<
     iconColor: 'text-red-600 dark:text-red-400',
     accentColor: 'border-l-red-500',
   },
+  AMENDMENT_SUBMITTED: {
+    icon: FileEdit,
+    label: 'Correction',
+    bgColor: 'bg-violet-50 dark:bg-violet-950/40',
+    iconColor: 'text-violet-600 dark:text-violet-400',
+    accentColor: 'border-l-violet-500',
+  },
+  AMENDMENT_APPROVED: {
+    icon: CheckCircle2,
+    label: 'Approved',
+    bgColor: 'bg-green-50 dark:bg-green-950/40',
+    iconColor: 'text-green-600 dark:text-green-400',
+    accentColor: 'border-l-green-500',
+  },
+  AMENDMENT_REJECTED: {
+    icon: XCircle,
+    label: 'Rejected',
+    bgColor: 'bg-red-50 dark:bg-red-950/40',
+    iconColor: 'text-red-600 dark:text-red-400',
+    accentColor: 'border-l-red-500',
+  },
+  LEAVE_SUBMITTED: {
+    icon: CalendarOff,
+    label: 'Leave',
+    bgColor: 'bg-teal-50 dark:bg-teal-950/40',
+    iconColor: 'text-teal-600 dark:text-teal-400',
+    accentColor: 'border-l-teal-500',
+  },
+  LEAVE_APPROVED: {
+    icon: CheckCircle2,
+    label: 'Approved',
+    bgColor: 'bg-green-50 dark:bg-green-950/40',
+    iconColor: 'text-green-600 dark:text-green-400',
+    accentColor: 'border-l-green-500',
+  },
+  LEAVE_REJECTED: {
+    icon: XCircle,
+    label: 'Rejected',
+    bgColor: 'bg-red-50 dark:bg-red-950/40',
+    iconColor: 'text-red-600 dark:text-red-400',
+    accentColor: 'border-l-red-500',
+  },
+  READINESS_FOLLOW_UP: {
+    icon: ShieldAlert,
+    label: 'Follow-Up',
+    bgColor: 'bg-orange-50 dark:bg-orange-950/40',
+    iconColor: 'text-orange-600 dark:text-orange-400',
+    accentColor: 'border-l-orange-500',
+  },
+  READINESS_ESCALATED: {
+    icon: AlertTriangle,
+    label: 'Escalated',
+    bgColor: 'bg-red-50 dark:bg-red-950/40',
+    iconColor: 'text-red-600 dark:text-red-400',
+    accentColor: 'border-l-red-500',
+  },
+  CASE_COMMENT_MENTION: {
+    icon: MessageSquare,
+    label: 'Mention',
+    bgColor: 'bg-sky-50 dark:bg-sky-950/40',
+    iconColor: 'text-sky-600 dark:text-sky-400',
+    accentColor: 'border-l-sky-500',
+  },
+  CASE_ASSIGNED: {
+    icon: UserCheck,
+    label: 'Case',
+    bgColor: 'bg-purple-50 dark:bg-purple-950/40',
+    iconColor: 'text-purple-600 dark:text-purple-400',
+    accentColor: 'border-l-purple-500',
+  },
 };
 
 export function NotificationItem({ notification, onClick, onArchive, compact }: NotificationItemProps) {
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { Bell, CheckCircle, Smartphone } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { PageLoader } from '@/components/common/PageLoader';
+import { useToast } from '@/lib/hooks/use-toast';
+import { cn } from '@/lib/utils/cn';
+import { isPushSupported } from '@/lib/push';
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+  usePushPublicKey,
+  usePushSubscriptionStatus,
+  useEnablePush,
+  useDisablePush,
+  type NotificationPreferences,
+} from '../hooks/useNotifications';
+import type { NotificationType, NotificationTypePreference } from '@/types/common.types';
+
+const TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  CHECK_IN_REMINDER: { label: 'Check-in reminders', description: 'Before your check-in window closes' },
+  MISSED_CHECK_IN: { label: 'Missed check-ins', description: 'When you or your team miss a check-in' },
+  TEAM_ALERT: { label: 'Team updates', description: 'Team assignments and transfers' },
+  SYSTEM: { label: 'System', description: 'Account and company announcements' },
+  INCIDENT_SUBMITTED: { label: 'Incident submitted', description: 'New incident reports to review' },
+  INCIDENT_APPROVED: { label: 'Incident approved', description: 'Your incident report was approved' },
+  INCIDENT_REJECTED: { label: 'Incident rejected', description: 'Your incident report was not approved' },
+  AMENDMENT_SUBMITTED: { label: 'Correction requested', description: 'Check-in corrections to review' },
+  AMENDMENT_APPROVED: { label: 'Correction approved', description: 'Your check-in correction was applied' },
+  AMENDMENT_REJECTED: { label: 'Correction rejected', description: 'Your check-in correction was not approved' },
+  LEAVE_SUBMITTED: { label: 'Leave requested', description: 'Leave requests to review' },
+  LEAVE_APPROVED: { label: 'Leave approved', description: 'Your leave was approved' },
+  LEAVE_REJECTED: { label: 'Leave rejected', description: 'Your leave was not approved' },
+  READINESS_FOLLOW_UP: { label: 'Readiness follow-up', description: 'RED check-ins to acknowledge, and follow-up outcomes' },
+  READINESS_ESCALATED: { label: 'Follow-up escalated', description: 'RED check-ins not acknowledged in time' },
+  CASE_COMMENT_MENTION: { label: 'Case mentions', description: 'Someone mentioned you on a case' },
+  CASE_ASSIGNED: { label: 'Case assigned', description: 'A case was assigned to you' },
+};
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '06:00' };
+
+type Channel = 'inApp' | 'email' | 'push';
+
+export function NotificationPreferencesCard() {
+  const { data, isLoading, error } = useNotificationPreferences();
+  const { data: pushPublicKey } = usePushPublicKey();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>Choose what reaches you and how. Times follow the company timezone.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <PageLoader isLoading={isLoading} error={error} skeleton="form">
+          {/* Keyed so the form resets to the saved values after each save */}
+          {data && (
+            <PreferencesForm key={JSON.stringify(data)} initial={data} pushPublicKey={pushPublicKey ?? null} />
+          )}
+        </PageLoader>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PushDeviceToggle({ publicKey }: { publicKey: string }) {
+  const { toast } = useToast();
+  const { data: isSubscribed = false } = usePushSubscriptionStatus();
+  const enablePush = useEnablePush();
+  const disablePush = useDisablePush();
+
+  const handleChange = async (checked: boolean) => {
+    try {
+      if (checked) {
+        await enablePush.mutateAsync(publicKey);
+        toast({ variant: 'success', title: 'Push enabled', description: 'This device will receive push notifications.' });
+      } else {
+        await disablePush.mutateAsync();
+        toast({ variant: 'success', title: 'Push disabled', description: 'This device will no longer receive push notifications.' });
+      }
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: checked ? 'Could not enable push' : 'Could not disable push',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 rounded-md border px-4 py-3">
+      <div className="flex items-start gap-3">
+        <Smartphone className="mt-0.5 h-4 w-4 text-muted-foreground" />
+        <div>
+          <Label htmlFor="push-device">Push notifications on this device</Label>
+          <p className="text-xs text-muted-foreground">
+            Get alerts even when AEGIRA is closed. On iPhone, add AEGIRA to your Home Screen first.
+          </p>
+        </div>
+      </div>
+      <Switch
+        id="push-device"
+        checked={isSubscribed}
+        onCheckedChange={handleChange}
+        disabled={enablePush.isPending || disablePush.isPending}
+      />
+    </div>
+  );
+}
+
+function PreferencesForm({
+  initial,
+  pushPublicKey,
+}: {
+  initial: NotificationPreferences;
+  pushPublicKey: string | null;
+}) {
+  const { toast } = useToast();
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  const [types, setTypes] = useState<NotificationTypePreference[]>(initial.types);
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(initial.quietHoursStart !== null);
+  const [quietHoursStart, setQuietHoursStart] = useState(initial.quietHoursStart ?? DEFAULT_QUIET_HOURS.start);
+  const [quietHoursEnd, setQuietHoursEnd] = useState(initial.quietHoursEnd ?? DEFAULT_QUIET_HOURS.end);
+  const [dailyDigest, setDailyDigest] = useState(initial.dailyDigest);
+
+  // Push column only when the server has push enabled; the device toggle also needs browser support
+  const showPush = pushPublicKey !== null;
+  const columns = showPush ? 'grid-cols-[1fr_4rem_4rem_4rem]' : 'grid-cols-[1fr_4rem_4rem]';
+
+  const setChannel = (type: NotificationType, channel: Channel, value: boolean) => {
+    setTypes((current) => current.map((row) => (row.type === type ? { ...row, [channel]: value } : row)));
+  };
+
+  const handleSave = async () => {
+    if (quietHoursEnabled && quietHoursStart === quietHoursEnd) {
+      toast({ variant: 'destructive', title: 'Invalid quiet hours', description: 'Start and end times must differ.' });
+      return;
+    }
+
+    try {
+      await updatePreferences.mutateAsync({
+        // Only types that differ from what's saved — untouched types keep following the defaults
+        types: types.filter((row) => {
+          const saved = initial.types.find((t) => t.type === row.type);
+          return !saved || saved.inApp !== row.inApp || saved.email !== row.email || saved.push !== row.push;
+        }),
+        quietHoursStart: quietHoursEnabled ? quietHoursStart : null,
+        quietHoursEnd: quietHoursEnabled ? quietHoursEnd : null,
+        dailyDigest,
+      });
+      toast({ variant: 'success', title: 'Preferences saved', description: 'Your notification preferences have been updated.' });
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save preferences',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {pushPublicKey && isPushSupported() && <PushDeviceToggle publicKey={pushPublicKey} />}
+
+      <div className="rounded-md border">
+        <div
+          className={cn(
+            'grid items-center gap-4 border-b bg-muted/30 px-4 py-2 text-xs font-medium uppercase tracking-wider text-muted-foreground',
+            columns
+          )}
+        >
+          <span>Notification</span>
+          <span className="text-center">In-app</span>
+          <span className="text-center">Email</span>
+          {showPush && <span className="text-center">Push</span>}
+        </div>
+        <ul className="divide-y">
+          {types.map((row) => (
+            <li key={row.type} className={cn('grid items-center gap-4 px-4 py-3', columns)}>
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{TYPE_LABELS[row.type].label}</p>
+                <p className="text-xs text-muted-foreground">{TYPE_LABELS[row.type].description}</p>
+              </div>
+              <div className="flex justify-center">
+                <Switch
+                  checked={row.inApp}
+                  onCheckedChange={(checked) => setChannel(row.type, 'inApp', checked)}
+                  aria-label={`${TYPE_LABELS[row.type].label} in-app`}
+                />
+              </div>
+              <div className="flex justify-center">
+                <Switch
+                  checked={row.email}
+                  onCheckedChange={(checked) => setChannel(row.type, 'email', checked)}
+                  aria-label={`${TYPE_LABELS[row.type].label} email`}
+                />
+              </div>
+              {showPush && (
+                <div className="flex justify-center">
+                  <Switch
+                    checked={row.push}
+                    onCheckedChange={(checked) => setChannel(row.type, 'push', checked)}
+                    aria-label={`${TYPE_LABELS[row.type].label} push`}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="quiet-hours">Quiet hours</Label>
+            <p className="text-xs text-muted-foreground">
+              Hold emails and push notifications until quiet hours end. In-app notifications still arrive.
+            </p>
+          </div>
+          <Switch id="quiet-hours" checked={quietHoursEnabled} onCheckedChange={setQuietHoursEnabled} />
+        </div>
+        {quietHoursEnabled && (
+          <div className="grid max-w-md grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-start">From</Label>
+              <Input
+                id="quiet-hours-start"
+                type="time"
+                value={quietHoursStart}
+                onChange={(e) => setQuietHoursStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-hours-end">Until</Label>
+              <Input
+                id="quiet-hours-end"
+                type="time"
+                value={quietHoursEnd}
+                onChange={(e) => setQuietHoursEnd(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="daily-digest">Daily email digest</Label>
+          <p className="text-xs text-muted-foreground">
+            Bundle notification emails into one message each morning at 7:00.
+          </p>
+        </div>
+        <Switch id="daily-digest" checked={dailyDigest} onCheckedChange={setDailyDigest} />
+      </div>
+
+      <Button type="button" onClick={handleSave} disabled={updatePreferences.isPending}>
+        <CheckCircle className="mr-2 h-4 w-4" />
+        Save Preferences
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { API_CONFIG } from '@/config/api.config';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { useNotificationStreamStore } from '@/stores/notification-stream.store';
+import type { Notification, NotificationUnreadCount, PaginatedResponse } from '@/types/common.types';
+
+const PREVIEW_LIMIT = 5;
+/** Reconnect backoff after the stream errors: 5s, 10s, 20s ... capped at 2 minutes */
+const RECONNECT_BASE_MS = 5000;
+const RECONNECT_MAX_MS = 2 * 60 * 1000;
+
+/**
+ * Live notifications over Server-Sent Events. Writes new notifications and
+ * unread counts straight into the React Query cache. While the stream is down,
+ * useUnreadCount / useNotificationPreview fall back to polling — which also
+ * refreshes an expired access token before the next reconnect.
+ *
+ * Mount once, in the always-visible NotificationBell.
+ */
+export function useNotificationStream() {
+  const queryClient = useQueryClient();
+  const setConnected = useNotificationStreamStore((state) => state.setConnected);
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+
+    const connect = () => {
+      source = new EventSource(`${API_CONFIG.baseURL}${ENDPOINTS.NOTIFICATIONS.STREAM}`, {
+        withCredentials: true,
+      });
+
+      source.addEventListener('ready', () => {
+        failures = 0;
+        setConnected(true);
+      });
+
+      source.addEventListener('notification', (event) => {
+        const notification = JSON.parse((event as MessageEvent<string>).data) as Notification;
+
+        queryClient.setQueryData<PaginatedResponse<Notification>>(['notifications', 'preview'], (current) => {
+          if (!current || current.items.some((item) => item.id === notification.id)) return current;
+          return {
+            ...current,
+            items: [notification, ...current.items].slice(0, PREVIEW_LIMIT),
+            pagination: { ...current.pagination, total: current.pagination.total + 1 },
+          };
+        });
+        // Full list pages are paginated server-side — refetch rather than patch them
+        queryClient.invalidateQueries({
+          queryKey: ['notifications'],
+          predicate: (query) => query.queryKey[1] !== 'preview' && query.queryKey[1] !== 'unread-count',
+        });
+      });
+
+      source.addEventListener('unread-count', (event) => {
+        const data = JSON.parse((event as MessageEvent<string>).data) as NotificationUnreadCount;
+        queryClient.setQueryData<NotificationUnreadCount>(['notifications', 'unread-count'], data);
+      });
+
+      source.onerror = () => {
+        setConnected(false);
+        // The server closes streams periodically and EventSource reconnects on its
+        // own ('ready' flips us back). CLOSED means it gave up (e.g. 401) — back off.
+        if (source?.readyState !== EventSource.CLOSED) return;
+        source.close();
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** failures, RECONNECT_MAX_MS);
+        failures += 1;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [queryClient, setConnected]);
+}
@@ -2,9 +2,22 @@ import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tansta
 import { apiClient } from '@/lib/api/client';
 import { ENDPOINTS } from '@/lib/api/endpoints';
 import { STALE_TIMES } from '@/config/query.config';
-import type { Notification, PaginatedResponse, NotificationUnreadCount } from '@/types/common.types';
+import { useNotificationStreamStore } from '@/stores/notification-stream.store';
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from '@/lib/push';
+import type {
+  Notification,
+  PaginatedResponse,
+  NotificationUnreadCount,
+  NotificationPreferences,
+  UpdateNotificationPreferencesData,
+} from '@/types/common.types';
 
-export type { Notification, NotificationUnreadCount } from '@/types/common.types';
+export type {
+  Notification,
+  NotificationUnreadCount,
+  NotificationPreferences,
+  UpdateNotificationPreferencesData,
+} from '@/types/common.types';
 
 export type NotificationFilter = 'all' | 'unread' | 'read' | 'archived';
 
@@ -39,6 +52,8 @@ export function useNotifications({ page = 1, limit = 20, filter = 'all' }: UseNo
  * Latest notifications preview - for the bell dropdown (small, limit=5)
  */
 export function useNotificationPreview() {
+  const isStreaming = useNotificationStreamStore((state) => state.isConnected);
+
   return useQuery({
     queryKey: ['notifications', 'preview'],
     staleTime: STALE_TIMES.REALTIME,
@@ -48,7 +63,7 @@ export function useNotificationPreview() {
         `${ENDPOINTS.NOTIFICATIONS.LIST}?${params.toString()}`
       );
     },
-    refetchInterval: 30000, // Poll every 30 seconds
+    refetchInterval: isStreaming ? false : 30000, // Poll every 30 seconds unless streaming
   });
 }
 
@@ -56,12 +71,14 @@ export function useNotificationPreview() {
  * Unread count - lightweight query for the bell badge
  */
 export function useUnreadCount() {
+  const isStreaming = useNotificationStreamStore((state) => state.isConnected);
+
   return useQuery({
     queryKey: ['notifications', 'unread-count'],
     staleTime: STALE_TIMES.REALTIME,
     queryFn: () =>
       apiClient.get<NotificationUnreadCount>(ENDPOINTS.NOTIFICATIONS.UNREAD_COUNT),
-    refetchInterval: 30000, // Poll every 30 seconds
+    refetchInterval: isStreaming ? false : 30000, // Poll every 30 seconds unless streaming
   });
 }
 
@@ -110,3 +127,77 @@ export function useArchiveAllRead() {
     },
   });
 }
+
+/**
+ * Own notification preferences — channels per type, quiet hours, daily digest
+ */
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: ['notification-preferences'],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<NotificationPreferences>(ENDPOINTS.NOTIFICATIONS.PREFERENCES),
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UpdateNotificationPreferencesData) =>
+      apiClient.patch<NotificationPreferences>(ENDPOINTS.NOTIFICATIONS.PREFERENCES, data),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['notification-preferences'], data);
+    },
+  });
+}
+
+/**
+ * VAPID public key for subscribing this browser — null when push is disabled on the server
+ */
+export function usePushPublicKey() {
+  return useQuery({
+    queryKey: ['push-public-key'],
+    staleTime: STALE_TIMES.STATIC,
+    enabled: isPushSupported(),
+    queryFn: async () => {
+      const { publicKey } = await apiClient.get<{ publicKey: string | null }>(
+        ENDPOINTS.NOTIFICATIONS.PUSH_PUBLIC_KEY
+      );
+      return publicKey;
+    },
+  });
+}
+
+/**
+ * Whether this browser currently has a push subscription
+ */
+export function usePushSubscriptionStatus() {
+  return useQuery({
+    queryKey: ['push-subscription'],
+    staleTime: STALE_TIMES.STATIC,
+    enabled: isPushSupported(),
+    queryFn: async () => (await getPushSubscription()) !== null,
+  });
+}
+
+export function useEnablePush() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (publicKey: string) => subscribeToPush(publicKey),
+    onSuccess: () => {
+      queryClient.setQueryData(['push-subscription'], true);
+    },
+  });
+}
+
+export function useDisablePush() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => unsubscribeFromPush(),
+    onSuccess: () => {
+      queryClient.setQueryData(['push-subscription'], false);
+    },
+  });
+}
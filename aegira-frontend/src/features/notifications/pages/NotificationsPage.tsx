@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { DateTime } from 'luxon';
 import {
   Bell,
@@ -69,6 +70,7 @@ export function NotificationsPage() {
   const [tab, setTab] = useState<NotificationTab>('all');
   const [page, setPage] = useState(1);
   const limit = 20;
+  const navigate = useNavigate();
   const { toast } = useToast();
 
   // Accumulate items across pages for load-more behavior
@@ -141,7 +143,8 @@ export function NotificationsPage() {
   }, [cacheKey]);
 
   const handleNotificationClick = useCallback(
-    async (notificationId: string, isRead: boolean) => {
+    async (notificationId: string, isRead: boolean, link: string | null) => {
+      if (link) navigate(link);
       if (!isRead) {
         optimisticMarkRead(notificationId);
         try {
@@ -155,7 +158,7 @@ export function NotificationsPage() {
         }
       }
     },
-    [markAsRead, toast, optimisticMarkRead]
+    [markAsRead, toast, optimisticMarkRead, navigate]
   );
 
   const handleArchive = useCallback(
@@ -347,7 +350,7 @@ export function NotificationsPage() {
                         key={notification.id}
                         notification={notification}
                         onClick={() =>
-                          handleNotificationClick(notification.id, !!notification.read_at)
+                          handleNotificationClick(notification.id, !!notification.read_at, notification.link)
                         }
                         onArchive={!isArchivedTab ? handleArchive : undefined}
                       />
@@ -77,6 +77,27 @@ export function useSupervisors() {
   });
 }
 
+/**
+ * Fetch WHS officers only (for case comment mentions)
+ */
+export function useWhsOfficers(enabled = true) {
+  return useQuery({
+    queryKey: ['persons', 'whs-officers'],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        role: 'WHS',
+        limit: '100',
+      });
+      const response = await apiClient.get<PaginatedResponse<Person>>(
+        `${ENDPOINTS.PERSON.LIST}?${params.toString()}`
+      );
+      return response.items;
+    },
+    enabled,
+  });
+}
+
 /**
  * Fetch single person by ID
  */
@@ -109,7 +130,7 @@ export function useCreatePerson() {
 
   return useMutation({
     mutationFn: (data: CreatePersonData) =>
-      apiClient.post<Person>(ENDPOINTS.PERSON.CREATE, data),
+      apiClient.post<Person & { invitationSent?: boolean }>(ENDPOINTS.PERSON.CREATE, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['persons'] });
       queryClient.invalidateQueries({ queryKey: ['teams'] });
@@ -137,6 +158,37 @@ export function useUpdatePerson() {
   });
 }
 
+/**
+ * Re-send the account invitation email (supersedes the previous link)
+ */
+export function useResendInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (personId: string) =>
+      apiClient.post<{ message: string }>(ENDPOINTS.PERSON.RESEND_INVITATION(personId), {}),
+    onSuccess: (_, personId) => {
+      queryClient.invalidateQueries({ queryKey: ['person', personId] });
+    },
+  });
+}
+
+/**
+ * Remove a person's two-factor enrolment and sign them out everywhere (admin only).
+ * They enrol again at next login if company policy requires it.
+ */
+export function useResetUserMfa() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (personId: string) =>
+      apiClient.post<{ revokedCount: number }>(ENDPOINTS.ADMIN.RESET_USER_MFA(personId), {}),
+    onSuccess: (_, personId) => {
+      queryClient.invalidateQueries({ queryKey: ['person', personId] });
+    },
+  });
+}
+
 /**
  * Cancel a pending team transfer
  */
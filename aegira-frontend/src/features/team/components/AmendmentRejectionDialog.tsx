@@ -0,0 +1,114 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useRejectAmendment } from '../hooks/useAmendments';
+import { useToast } from '@/lib/hooks/use-toast';
+
+const rejectAmendmentSchema = z.object({
+  rejectionReason: z.string().min(1, 'Reason is required').max(500),
+});
+
+type RejectAmendmentFormData = z.infer<typeof rejectAmendmentSchema>;
+
+interface AmendmentRejectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  amendmentId: string;
+}
+
+export function AmendmentRejectionDialog({
+  open,
+  onOpenChange,
+  amendmentId,
+}: AmendmentRejectionDialogProps) {
+  const rejectAmendment = useRejectAmendment();
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<RejectAmendmentFormData>({
+    resolver: zodResolver(rejectAmendmentSchema),
+    defaultValues: { rejectionReason: '' },
+  });
+
+  const onSubmit = async (data: RejectAmendmentFormData) => {
+    try {
+      await rejectAmendment.mutateAsync({ amendmentId, data });
+      toast({
+        variant: 'success',
+        title: 'Correction rejected',
+        description: 'The worker has been notified.',
+      });
+      reset();
+      onOpenChange(false);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to reject',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  const handleClose = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reject Correction</DialogTitle>
+          <DialogDescription>
+            The check-in will stay as originally submitted. The worker will be notified
+            with your reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Reason</Label>
+            <Textarea
+              id="rejectionReason"
+              placeholder="Explain why this correction is not accepted..."
+              rows={4}
+              {...register('rejectionReason')}
+            />
+            {errors.rejectionReason && (
+              <p className="text-sm text-destructive">{errors.rejectionReason.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleClose(false)}
+              disabled={rejectAmendment.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={rejectAmendment.isPending}>
+              {rejectAmendment.isPending ? 'Rejecting...' : 'Reject Correction'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
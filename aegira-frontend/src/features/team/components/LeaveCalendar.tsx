@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import { DateTime } from 'luxon';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useLeaveCalendar } from '../hooks/useLeave';
+import { formatLeaveRange, formatLeaveType } from '@/lib/utils/format.utils';
+import { cn } from '@/lib/utils/cn';
+import type { Leave, LeaveType } from '@/types/leave.types';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Cap entries per day cell — the rest collapse into "+N more"
+const MAX_ENTRIES_PER_DAY = 3;
+
+const TYPE_STYLES: Record<LeaveType, string> = {
+  ANNUAL: 'bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300',
+  SICK: 'bg-rose-100 text-rose-800 dark:bg-rose-900/30 dark:text-rose-300',
+  TRAINING: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  OTHER: 'bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-300',
+};
+
+/** Leave entries overlapping a YYYY-MM-DD day (ISO dates compare lexically) */
+function leaveOn(items: Leave[], day: string): Leave[] {
+  return items.filter((leave) => leave.startDate <= day && leave.endDate >= day);
+}
+
+/**
+ * Month grid of team leave. Approved leave is solid, pending leave is dashed
+ * so reviewers can see overlaps before approving.
+ */
+export function LeaveCalendar() {
+  const [month, setMonth] = useState(() => DateTime.now().startOf('month'));
+  const from = month.toISODate()!;
+  const to = month.endOf('month').toISODate()!;
+  const today = DateTime.now().toISODate();
+
+  const { data, isFetching } = useLeaveCalendar(from, to);
+
+  // Sunday-first weeks padded with nulls, matching work day numbering (0 = Sunday)
+  const cells = useMemo(() => {
+    const leading = month.weekday % 7;
+    const days: (string | null)[] = Array.from({ length: leading }, () => null);
+    for (let d = 0; d < month.daysInMonth!; d++) {
+      days.push(month.plus({ days: d }).toISODate());
+    }
+    while (days.length % 7 !== 0) days.push(null);
+    return days;
+  }, [month]);
+
+  const items = data?.items ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <CalendarDays className="h-4 w-4" />
+            Team Calendar
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setMonth((m) => m.minus({ months: 1 }))}
+              aria-label="Previous month"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="w-32 text-center text-sm font-medium">{month.toFormat('MMMM yyyy')}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setMonth((m) => m.plus({ months: 1 }))}
+              aria-label="Next month"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className={cn('transition-opacity duration-150', isFetching && 'opacity-60')}>
+          <div className="grid grid-cols-7 gap-px overflow-hidden rounded-lg border bg-border text-xs">
+            {WEEKDAY_LABELS.map((label) => (
+              <div key={label} className="bg-muted/50 px-2 py-1.5 text-center font-medium text-muted-foreground">
+                {label}
+              </div>
+            ))}
+            {cells.map((day, index) => {
+              if (!day) return <div key={`pad-${index}`} className="min-h-[5.5rem] bg-muted/20" />;
+
+              const dayLeave = leaveOn(items, day);
+              const hidden = dayLeave.length - MAX_ENTRIES_PER_DAY;
+
+              return (
+                <div key={day} className="min-h-[5.5rem] space-y-1 bg-card p-1.5">
+                  <p
+                    className={cn(
+                      'text-right tabular-nums text-muted-foreground',
+                      day === today && 'font-semibold text-primary'
+                    )}
+                  >
+                    {DateTime.fromISO(day).day}
+                  </p>
+                  {dayLeave.slice(0, MAX_ENTRIES_PER_DAY).map((leave) => (
+                    <div
+                      key={leave.id}
+                      className={cn(
+                        'truncate rounded px-1.5 py-0.5',
+                        TYPE_STYLES[leave.type],
+                        leave.status === 'PENDING' && 'border border-dashed border-current bg-transparent'
+                      )}
+                      title={`${leave.workerName} — ${formatLeaveType(leave.type)} (${leave.status === 'PENDING' ? 'pending' : 'approved'}), ${formatLeaveRange(leave.startDate, leave.endDate)}`}
+                    >
+                      {leave.workerName}
+                    </div>
+                  ))}
+                  {hidden > 0 && (
+                    <p className="px-1.5 text-muted-foreground">+{hidden} more</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+            {(Object.keys(TYPE_STYLES) as LeaveType[]).map((type) => (
+              <span key={type} className="inline-flex items-center gap-1.5">
+                <span className={cn('h-3 w-3 rounded', TYPE_STYLES[type])} />
+                {formatLeaveType(type)}
+              </span>
+            ))}
+            <span className="inline-flex items-center gap-1.5">
+              <span className="h-3 w-3 rounded border border-dashed border-muted-foreground" />
+              Pending approval
+            </span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useRejectLeave } from '../hooks/useLeave';
+import { useToast } from '@/lib/hooks/use-toast';
+
+const rejectLeaveSchema = z.object({
+  rejectionReason: z.string().min(1, 'Reason is required').max(500),
+});
+
+type RejectLeaveFormData = z.infer<typeof rejectLeaveSchema>;
+
+interface LeaveRejectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leaveId: string;
+}
+
+export function LeaveRejectionDialog({
+  open,
+  onOpenChange,
+  leaveId,
+}: LeaveRejectionDialogProps) {
+  const rejectLeave = useRejectLeave();
+  const { toast } = useToast();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<RejectLeaveFormData>({
+    resolver: zodResolver(rejectLeaveSchema),
+    defaultValues: { rejectionReason: '' },
+  });
+
+  const onSubmit = async (data: RejectLeaveFormData) => {
+    try {
+      await rejectLeave.mutateAsync({ leaveId, data });
+      toast({
+        variant: 'success',
+        title: 'Leave rejected',
+        description: 'The worker has been notified.',
+      });
+      reset();
+      onOpenChange(false);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to reject',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  const handleClose = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reject Leave</DialogTitle>
+          <DialogDescription>
+            Check-ins stay required on these days. The worker will be notified with your
+            reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Reason</Label>
+            <Textarea
+              id="rejectionReason"
+              placeholder="Explain why this leave cannot be approved..."
+              rows={4}
+              {...register('rejectionReason')}
+            />
+            {errors.rejectionReason && (
+              <p className="text-sm text-destructive">{errors.rejectionReason.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleClose(false)}
+              disabled={rejectLeave.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={rejectLeave.isPending}>
+              {rejectLeave.isPending ? 'Rejecting...' : 'Reject Leave'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
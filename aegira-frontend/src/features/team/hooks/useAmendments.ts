@@ -0,0 +1,67 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type {
+  Amendment,
+  AmendmentListResponse,
+  AmendmentStatus,
+  RejectAmendmentData,
+} from '@/types/amendment.types';
+
+export type { Amendment, AmendmentListResponse, AmendmentStatus } from '@/types/amendment.types';
+
+/**
+ * Check-in correction review queue (team-scoped on the backend)
+ */
+export function useAmendments(page = 1, limit = 20, status?: AmendmentStatus) {
+  return useQuery({
+    queryKey: ['amendments', page, limit, status],
+    staleTime: STALE_TIMES.STANDARD,
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(limit),
+      });
+      if (status) params.set('status', status);
+      return apiClient.get<AmendmentListResponse>(
+        `${ENDPOINTS.AMENDMENT.LIST}?${params.toString()}`
+      );
+    },
+  });
+}
+
+/**
+ * Approve a correction — backend applies it and recomputes readiness
+ */
+export function useApproveAmendment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (amendmentId: string) =>
+      apiClient.patch<Amendment>(ENDPOINTS.AMENDMENT.APPROVE(amendmentId), {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['amendments'] });
+      queryClient.invalidateQueries({ queryKey: ['team', 'check-in-history'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+    },
+  });
+}
+
+export function useRejectAmendment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      amendmentId,
+      data,
+    }: {
+      amendmentId: string;
+      data: RejectAmendmentData;
+    }) => apiClient.patch<Amendment>(ENDPOINTS.AMENDMENT.REJECT(amendmentId), data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['amendments'] });
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import type {
+  Leave,
+  LeaveCalendarResponse,
+  LeaveListResponse,
+  LeaveStatus,
+  RejectLeaveData,
+} from '@/types/leave.types';
+
+export type { Leave, LeaveListResponse, LeaveStatus } from '@/types/leave.types';
+
+/**
+ * Leave review queue (team-scoped on the backend)
+ */
+export function useLeaveRequests(page = 1, limit = 20, status?: LeaveStatus) {
+  return useQuery({
+    queryKey: ['leave', page, limit, status],
+    staleTime: STALE_TIMES.STANDARD,
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(limit),
+      });
+      if (status) params.set('status', status);
+      return apiClient.get<LeaveListResponse>(
+        `${ENDPOINTS.LEAVE.LIST}?${params.toString()}`
+      );
+    },
+  });
+}
+
+/**
+ * Pending + approved leave overlapping a date range — for the team calendar
+ */
+export function useLeaveCalendar(from: string, to: string) {
+  return useQuery({
+    queryKey: ['leave', 'calendar', from, to],
+    staleTime: STALE_TIMES.STANDARD,
+    placeholderData: keepPreviousData,
+    queryFn: () => {
+      const params = new URLSearchParams({ from, to });
+      return apiClient.get<LeaveCalendarResponse>(
+        `${ENDPOINTS.LEAVE.CALENDAR}?${params.toString()}`
+      );
+    },
+  });
+}
+
+/**
+ * Approve leave — the worker's check-ins are no longer required on those days
+ */
+export function useApproveLeave() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (leaveId: string) =>
+      apiClient.patch<Leave>(ENDPOINTS.LEAVE.APPROVE(leaveId), {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+    },
+  });
+}
+
+export function useRejectLeave() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      leaveId,
+      data,
+    }: {
+      leaveId: string;
+      data: RejectLeaveData;
+    }) => apiClient.patch<Leave>(ENDPOINTS.LEAVE.REJECT(leaveId), data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave'] });
+    },
+  });
+}
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { STALE_TIMES } from '@/config/query.config';
+import { downloadBlob } from '@/lib/utils/export.utils';
+import type { ReportFormat, ReportParams, ReportResult, ReportType } from '@/types/report.types';
+
+export type { ReportFormat, ReportParams, ReportResult, ReportType } from '@/types/report.types';
+
+function buildReportUrl(type: ReportType, params: ReportParams, format: 'json' | ReportFormat): string {
+  const search = new URLSearchParams({ format });
+  if (params.from) search.set('from', params.from);
+  if (params.to) search.set('to', params.to);
+  if (params.teamId) search.set('teamId', params.teamId);
+  return `${ENDPOINTS.REPORT.GENERATE(type)}?${search.toString()}`;
+}
+
+/**
+ * Report preview (JSON). Only runs once a type is selected.
+ * GET /api/v1/reports/:type
+ */
+export function useReport(type: ReportType | null, params: ReportParams) {
+  return useQuery({
+    queryKey: ['report', type, params],
+    staleTime: STALE_TIMES.STANDARD,
+    queryFn: () => apiClient.get<ReportResult>(buildReportUrl(type!, params, 'json')),
+    enabled: !!type,
+  });
+}
+
+/** Reports are generated server-side — fetch the file through the API and hand the blob to the browser */
+export async function downloadReport(
+  type: ReportType,
+  params: ReportParams,
+  format: ReportFormat
+): Promise<void> {
+  const blob = await apiClient.getBlob(buildReportUrl(type, params, format));
+  const period = params.from && params.to ? `${params.from}_${params.to}` : new Date().toISOString().slice(0, 10);
+  downloadBlob(blob, `${type}_${period}.${format}`);
+}
@@ -33,6 +33,7 @@ interface TeamCheckInRecord {
   stressScore: number;         // Int 0-100
   physicalScore: number;       // Int 0-100
   painScore: number | null;    // Int? 0-100 (null if no pain reported)
+  scoringModelVersion: number; // Int (0 = built-in default model)
   createdAt: string;
   eventTime: string;
   isLate: boolean;
@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import type { ColumnDef, PaginationState } from '@tanstack/react-table';
+import type { LucideIcon } from 'lucide-react';
+import { ArrowRight, CheckCircle2, Clock, LayoutList, XCircle } from 'lucide-react';
+import { DataTable } from '@/components/ui/data-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PageHeader } from '@/components/common/PageHeader';
+import { PageLoader } from '@/components/common/PageLoader';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { ReadinessBadge } from '@/components/common/badge-utils';
+import { AmendmentRejectionDialog } from '../components/AmendmentRejectionDialog';
+import { useAmendments, useApproveAmendment } from '../hooks/useAmendments';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatDate } from '@/lib/utils/date.utils';
+import { formatAmendmentField } from '@/lib/utils/format.utils';
+import { cn } from '@/lib/utils/cn';
+import type { Amendment, AmendmentStatus } from '@/types/amendment.types';
+
+// --- Status filter cards config ---
+
+type StatusFilter = 'ALL' | AmendmentStatus;
+
+interface StatusFilterOption {
+  value: StatusFilter;
+  label: string;
+  icon: LucideIcon;
+  iconColor: string;
+  iconBg: string;
+  activeStyle: string;
+}
+
+const STATUS_FILTERS: StatusFilterOption[] = [
+  {
+    value: 'PENDING',
+    label: 'Pending Review',
+    icon: Clock,
+    iconColor: 'text-amber-500',
+    iconBg: 'bg-amber-500/10',
+    activeStyle: 'ring-amber-500/20 border-amber-500/40',
+  },
+  {
+    value: 'APPROVED',
+    label: 'Approved',
+    icon: CheckCircle2,
+    iconColor: 'text-emerald-500',
+    iconBg: 'bg-emerald-500/10',
+    activeStyle: 'ring-emerald-500/20 border-emerald-500/40',
+  },
+  {
+    value: 'REJECTED',
+    label: 'Rejected',
+    icon: XCircle,
+    iconColor: 'text-red-500',
+    iconBg: 'bg-red-500/10',
+    activeStyle: 'ring-red-500/20 border-red-500/40',
+  },
+  {
+    value: 'ALL',
+    label: 'All Requests',
+    icon: LayoutList,
+    iconColor: 'text-primary',
+    iconBg: 'bg-primary/10',
+    activeStyle: 'ring-primary/20 border-primary/40',
+  },
+];
+
+const EMPTY_MESSAGES: Record<StatusFilter, string> = {
+  ALL: 'No correction requests yet.',
+  PENDING: 'No corrections waiting for review.',
+  APPROVED: 'No approved corrections found.',
+  REJECTED: 'No rejected corrections found.',
+};
+
+const STATUS_BADGE: Record<AmendmentStatus, { label: string; variant: 'warning' | 'success' | 'destructive' }> = {
+  PENDING: { label: 'Pending', variant: 'warning' },
+  APPROVED: { label: 'Approved', variant: 'success' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
+};
+
+// --- Table columns ---
+
+const columns: ColumnDef<Amendment>[] = [
+  {
+    accessorKey: 'workerName',
+    header: 'Worker',
+    cell: ({ row }) => (
+      <div>
+        <p className="font-medium">{row.original.workerName}</p>
+        <p className="text-xs text-muted-foreground">{row.original.teamName}</p>
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'checkInDate',
+    header: 'Check-In Date',
+    cell: ({ row }) => formatDate(row.original.checkInDate),
+  },
+  {
+    accessorKey: 'fieldName',
+    header: 'Field',
+    cell: ({ row }) => formatAmendmentField(row.original.fieldName),
+  },
+  {
+    id: 'change',
+    header: 'Change',
+    cell: ({ row }) => (
+      <span className="inline-flex items-center gap-1.5 tabular-nums">
+        <span className="text-muted-foreground">{row.original.oldValue}</span>
+        <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+        <span className="font-medium">{row.original.newValue}</span>
+      </span>
+    ),
+  },
+  {
+    accessorKey: 'reason',
+    header: 'Reason',
+    cell: ({ row }) => (
+      <span className="max-w-[220px] truncate block text-sm" title={row.original.reason}>
+        {row.original.reason}
+      </span>
+    ),
+  },
+  {
+    accessorKey: 'readinessLevel',
+    header: 'Readiness',
+    cell: ({ row }) => (
+      <div className="flex items-center gap-1.5">
+        <ReadinessBadge level={row.original.readinessLevel as 'GREEN' | 'YELLOW' | 'RED'} />
+        <span className="text-xs text-muted-foreground tabular-nums">
+          {row.original.readinessScore}
+        </span>
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'status',
+    header: 'Status',
+    cell: ({ row }) => {
+      const config = STATUS_BADGE[row.original.status];
+      return <Badge variant={config.variant}>{config.label}</Badge>;
+    },
+  },
+  {
+    accessorKey: 'createdAt',
+    header: 'Requested',
+    cell: ({ row }) => formatDate(row.original.createdAt),
+  },
+  {
+    id: 'actions',
+    header: '',
+    cell: function ActionsCell({ row }) {
+      if (row.original.status !== 'PENDING') return null;
+      return <RowActions amendment={row.original} />;
+    },
+  },
+];
+
+// --- Row actions (approve / reject) ---
+
+function RowActions({ amendment }: { amendment: Amendment }) {
+  const approveAmendment = useApproveAmendment();
+  const { toast } = useToast();
+  const [approveOpen, setApproveOpen] = useState(false);
+  const [rejectOpen, setRejectOpen] = useState(false);
+
+  const handleApprove = async () => {
+    try {
+      const result = await approveAmendment.mutateAsync(amendment.id);
+      toast({
+        variant: 'success',
+        title: 'Correction approved',
+        description: `Readiness recalculated: ${result.readinessScore}.`,
+      });
+      setApproveOpen(false);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to approve',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-end gap-1">
+        <Button variant="ghost" size="sm" className="h-8" onClick={() => setApproveOpen(true)}>
+          <CheckCircle2 className="h-4 w-4 mr-1.5 text-emerald-600" />
+          Approve
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8" onClick={() => setRejectOpen(true)}>
+          <XCircle className="h-4 w-4 mr-1.5 text-red-600" />
+          Reject
+        </Button>
+      </div>
+
+      <ConfirmDialog
+        open={approveOpen}
+        onOpenChange={setApproveOpen}
+        title="Approve Correction"
+        description={`Change ${formatAmendmentField(amendment.fieldName)} from ${amendment.oldValue} to ${amendment.newValue} for ${amendment.workerName}? The readiness score will be recalculated.`}
+        confirmLabel="Approve"
+        onConfirm={handleApprove}
+        isLoading={approveAmendment.isPending}
+      />
+
+      <AmendmentRejectionDialog
+        open={rejectOpen}
+        onOpenChange={setRejectOpen}
+        amendmentId={amendment.id}
+      />
+    </>
+  );
+}
+
+// --- Main page component ---
+
+export function TeamAmendmentsPage() {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('PENDING');
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: 20,
+  });
+
+  const { data, isLoading, isFetching, error } = useAmendments(
+    pagination.pageIndex + 1,
+    pagination.pageSize,
+    statusFilter === 'ALL' ? undefined : statusFilter
+  );
+
+  const statusCounts = data?.statusCounts ?? { PENDING: 0, APPROVED: 0, REJECTED: 0 };
+  const totalCount = statusCounts.PENDING + statusCounts.APPROVED + statusCounts.REJECTED;
+
+  const handleStatusChange = (value: StatusFilter) => {
+    setStatusFilter(value);
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  return (
+    <PageLoader isLoading={isLoading} error={error} skeleton="table">
+      <div className="space-y-6">
+        <PageHeader
+          title="Check-In Corrections"
+          description="Review correction requests from your team's check-ins"
+        />
+
+        {/* Status filter cards */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {STATUS_FILTERS.map((filter) => {
+            const count =
+              filter.value === 'ALL' ? totalCount : statusCounts[filter.value];
+            const isActive = statusFilter === filter.value;
+            const Icon = filter.icon;
+
+            return (
+              <button
+                key={filter.value}
+                onClick={() => handleStatusChange(filter.value)}
+                className={cn(
+                  'relative flex items-center gap-3 rounded-lg border bg-card p-3 text-left transition-all',
+                  isActive
+                    ? `ring-2 shadow-sm ${filter.activeStyle}`
+                    : 'hover:bg-accent/50'
+                )}
+              >
+                <div
+                  className={cn(
+                    'flex shrink-0 items-center justify-center rounded-lg p-2',
+                    filter.iconBg
+                  )}
+                >
+                  <Icon className={cn('h-4 w-4', filter.iconColor)} />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-2xl font-bold tabular-nums leading-none">{count}</p>
+                  <p className="mt-1 truncate text-xs text-muted-foreground">{filter.label}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div
+          className={cn(
+            'transition-opacity duration-150',
+            isFetching && !isLoading && 'opacity-60'
+          )}
+        >
+          <DataTable
+            columns={columns}
+            data={data?.items ?? []}
+            pageCount={data?.pagination?.totalPages}
+            pagination={pagination}
+            onPaginationChange={setPagination}
+            totalCount={data?.pagination?.total}
+            emptyMessage={EMPTY_MESSAGES[statusFilter]}
+          />
+        </div>
+      </div>
+    </PageLoader>
+  );
+}
@@ -13,6 +13,7 @@ import { ENDPOINTS } from '@/lib/api/endpoints';
 import { STALE_TIMES } from '@/config/query.config';
 import { formatDate } from '@/lib/utils/date.utils';
 import { ReadinessBadge } from '@/components/common/badge-utils';
+import { formatScoringModelVersion } from '@/lib/utils/format.utils';
 
 interface CheckInHistoryItem {
   id: string;
@@ -32,6 +33,7 @@ interface CheckInHistoryItem {
   stressScore: number;
   physicalScore: number;
   painScore: number | null;
+  scoringModelVersion: number;
   createdAt: string;
 }
 
@@ -91,7 +93,12 @@ const columns: ColumnDef<CheckInHistoryItem>[] = [
     accessorKey: 'readinessScore',
     header: ({ column }) => <SortableHeader column={column}>Score</SortableHeader>,
     cell: ({ row }) => (
-      <span className="font-bold">{row.original.readinessScore}</span>
+      <div>
+        <span className="font-bold">{row.original.readinessScore}</span>
+        <p className="text-xs text-muted-foreground">
+          {formatScoringModelVersion(row.original.scoringModelVersion)}
+        </p>
+      </div>
     ),
   },
   {
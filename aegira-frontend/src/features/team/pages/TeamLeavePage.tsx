@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import type { ColumnDef, PaginationState } from '@tanstack/react-table';
+import type { LucideIcon } from 'lucide-react';
+import { CheckCircle2, Clock, LayoutList, XCircle } from 'lucide-react';
+import { DataTable } from '@/components/ui/data-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { PageHeader } from '@/components/common/PageHeader';
+import { PageLoader } from '@/components/common/PageLoader';
+import { ConfirmDialog } from '@/components/common/ConfirmDialog';
+import { LeaveCalendar } from '../components/LeaveCalendar';
+import { LeaveRejectionDialog } from '../components/LeaveRejectionDialog';
+import { useLeaveRequests, useApproveLeave } from '../hooks/useLeave';
+import { useToast } from '@/lib/hooks/use-toast';
+import { formatDate } from '@/lib/utils/date.utils';
+import { formatLeaveRange, formatLeaveType } from '@/lib/utils/format.utils';
+import { cn } from '@/lib/utils/cn';
+import type { Leave, LeaveStatus } from '@/types/leave.types';
+
+// --- Status filter cards config ---
+
+type StatusFilter = 'ALL' | Exclude<LeaveStatus, 'CANCELLED'>;
+
+interface StatusFilterOption {
+  value: StatusFilter;
+  label: string;
+  icon: LucideIcon;
+  iconColor: string;
+  iconBg: string;
+  activeStyle: string;
+}
+
+const STATUS_FILTERS: StatusFilterOption[] = [
+  {
+    value: 'PENDING',
+    label: 'Pending Review',
+    icon: Clock,
+    iconColor: 'text-amber-500',
+    iconBg: 'bg-amber-500/10',
+    activeStyle: 'ring-amber-500/20 border-amber-500/40',
+  },
+  {
+    value: 'APPROVED',
+    label: 'Approved',
+    icon: CheckCircle2,
+    iconColor: 'text-emerald-500',
+    iconBg: 'bg-emerald-500/10',
+    activeStyle: 'ring-emerald-500/20 border-emerald-500/40',
+  },
+  {
+    value: 'REJECTED',
+    label: 'Rejected',
+    icon: XCircle,
+    iconColor: 'text-red-500',
+    iconBg: 'bg-red-500/10',
+    activeStyle: 'ring-red-500/20 border-red-500/40',
+  },
+  {
+    value: 'ALL',
+    label: 'All Requests',
+    icon: LayoutList,
+    iconColor: 'text-primary',
+    iconBg: 'bg-primary/10',
+    activeStyle: 'ring-primary/20 border-primary/40',
+  },
+];
+
+const EMPTY_MESSAGES: Record<StatusFilter, string> = {
+  ALL: 'No leave requests yet.',
+  PENDING: 'No leave waiting for review.',
+  APPROVED: 'No approved leave found.',
+  REJECTED: 'No rejected leave found.',
+};
+
+const STATUS_BADGE: Record<LeaveStatus, { label: string; variant: 'warning' | 'success' | 'destructive' | 'secondary' }> = {
+  PENDING: { label: 'Pending', variant: 'warning' },
+  APPROVED: { label: 'Approved', variant: 'success' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
+  CANCELLED: { label: 'Cancelled', variant: 'secondary' },
+};
+
+// --- Table columns ---
+
+const columns: ColumnDef<Leave>[] = [
+  {
+    accessorKey: 'workerName',
+    header: 'Worker',
+    cell: ({ row }) => (
+      <div>
+        <p className="font-medium">{row.original.workerName}</p>
+        <p className="text-xs text-muted-foreground">{row.original.teamName}</p>
+      </div>
+    ),
+  },
+  {
+    accessorKey: 'type',
+    header: 'Type',
+    cell: ({ row }) => formatLeaveType(row.original.type),
+  },
+  {
+    id: 'dates',
+    header: 'Dates',
+    cell: ({ row }) => formatLeaveRange(row.original.startDate, row.original.endDate),
+  },
+  {
+    accessorKey: 'reason',
+    header: 'Reason',
+    cell: ({ row }) =>
+      row.original.reason ? (
+        <span className="max-w-[220px] truncate block text-sm" title={row.original.reason}>
+          {row.original.reason}
+        </span>
+      ) : (
+        <span className="text-muted-foreground">—</span>
+      ),
+  },
+  {
+    accessorKey: 'status',
+    header: 'Status',
+    cell: ({ row }) => {
+      const config = STATUS_BADGE[row.original.status];
+      return <Badge variant={config.variant}>{config.label}</Badge>;
+    },
+  },
+  {
+    accessorKey: 'createdAt',
+    header: 'Requested',
+    cell: ({ row }) => formatDate(row.original.createdAt),
+  },
+  {
+    id: 'actions',
+    header: '',
+    cell: function ActionsCell({ row }) {
+      if (row.original.status !== 'PENDING') return null;
+      return <RowActions leave={row.original} />;
+    },
+  },
+];
+
+// --- Row actions (approve / reject) ---
+
+function RowActions({ leave }: { leave: Leave }) {
+  const approveLeave = useApproveLeave();
+  const { toast } = useToast();
+  const [approveOpen, setApproveOpen] = useState(false);
+  const [rejectOpen, setRejectOpen] = useState(false);
+
+  const handleApprove = async () => {
+    try {
+      await approveLeave.mutateAsync(leave.id);
+      toast({
+        variant: 'success',
+        title: 'Leave approved',
+        description: `${leave.workerName} is not required to check in on these days.`,
+      });
+      setApproveOpen(false);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to approve',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-end gap-1">
+        <Button variant="ghost" size="sm" className="h-8" onClick={() => setApproveOpen(true)}>
+          <CheckCircle2 className="h-4 w-4 mr-1.5 text-emerald-600" />
+          Approve
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8" onClick={() => setRejectOpen(true)}>
+          <XCircle className="h-4 w-4 mr-1.5 text-red-600" />
+          Reject
+        </Button>
+      </div>
+
+      <ConfirmDialog
+        open={approveOpen}
+        onOpenChange={setApproveOpen}
+        title="Approve Leave"
+        description={`Approve ${formatLeaveType(leave.type).toLowerCase()} for ${leave.workerName}, ${formatLeaveRange(leave.startDate, leave.endDate)}? Check-ins will not be required and no missed check-ins will be recorded on these days.`}
+        confirmLabel="Approve"
+        onConfirm={handleApprove}
+        isLoading={approveLeave.isPending}
+      />
+
+      <LeaveRejectionDialog
+        open={rejectOpen}
+        onOpenChange={setRejectOpen}
+        leaveId={leave.id}
+      />
+    </>
+  );
+}
+
+// --- Main page component ---
+
+export function TeamLeavePage() {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('PENDING');
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: 20,
+  });
+
+  const { data, isLoading, isFetching, error } = useLeaveRequests(
+    pagination.pageIndex + 1,
+    pagination.pageSize,
+    statusFilter === 'ALL' ? undefined : statusFilter
+  );
+
+  const statusCounts = data?.statusCounts ?? { PENDING: 0, APPROVED: 0, REJECTED: 0, CANCELLED: 0 };
+  const totalCount =
+    statusCounts.PENDING + statusCounts.APPROVED + statusCounts.REJECTED + statusCounts.CANCELLED;
+
+  const handleStatusChange = (value: StatusFilter) => {
+    setStatusFilter(value);
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  return (
+    <PageLoader isLoading={isLoading} error={error} skeleton="table">
+      <div className="space-y-6">
+        <PageHeader
+          title="Leave"
+          description="Review leave requests and see who is away"
+        />
+
+        <LeaveCalendar />
+
+        {/* Status filter cards */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {STATUS_FILTERS.map((filter) => {
+            const count =
+              filter.value === 'ALL' ? totalCount : statusCounts[filter.value];
+            const isActive = statusFilter === filter.value;
+            const Icon = filter.icon;
+
+            return (
+              <button
+                key={filter.value}
+                onClick={() => handleStatusChange(filter.value)}
+                className={cn(
+                  'relative flex items-center gap-3 rounded-lg border bg-card p-3 text-left transition-all',
+                  isActive
+                    ? `ring-2 shadow-sm ${filter.activeStyle}`
+                    : 'hover:bg-accent/50'
+                )}
+              >
+                <div
+                  className={cn(
+                    'flex shrink-0 items-center justify-center rounded-lg p-2',
+                    filter.iconBg
+                  )}
+                >
+                  <Icon className={cn('h-4 w-4', filter.iconColor)} />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-2xl font-bold tabular-nums leading-none">{count}</p>
+                  <p className="mt-1 truncate text-xs text-muted-foreground">{filter.label}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div
+          className={cn(
+            'transition-opacity duration-150',
+            isFetching && !isLoading && 'opacity-60'
+          )}
+        >
+          <DataTable
+            columns={columns}
+            data={data?.items ?? []}
+            pageCount={data?.pagination?.totalPages}
+            pagination={pagination}
+            onPaginationChange={setPagination}
+            totalCount={data?.pagination?.total}
+            emptyMessage={EMPTY_MESSAGES[statusFilter]}
+          />
+        </div>
+      </div>
+    </PageLoader>
+  );
+}
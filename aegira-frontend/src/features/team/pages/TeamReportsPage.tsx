@@ -1,33 +1,101 @@
-import { FileText, Download } from 'lucide-react';
+import { useState } from 'react';
+import { FileText, FileSpreadsheet, Loader2, Eye } from 'lucide-react';
 import { PageHeader } from '@/components/common/PageHeader';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useReport, downloadReport, type ReportFormat, type ReportParams, type ReportType } from '../hooks/useReports';
+import { useSupervisorDashboardStats } from '@/features/dashboard/hooks/useDashboardStats';
+import { useAuth } from '@/lib/hooks/use-auth';
+import { useToast } from '@/lib/hooks/use-toast';
+import { cn } from '@/lib/utils/cn';
+
+const ALL_TEAMS = 'all';
+
+const REPORT_TYPES: { type: ReportType; title: string; description: string; defaultPeriod: string }[] = [
+  {
+    type: 'weekly-summary',
+    title: 'Weekly Summary',
+    description: 'Summary of team check-ins and readiness for the past week',
+    defaultPeriod: 'Last 7 days',
+  },
+  {
+    type: 'monthly',
+    title: 'Monthly Report',
+    description: 'Per-team check-ins, compliance, incidents and cases',
+    defaultPeriod: 'Last 30 days',
+  },
+  {
+    type: 'compliance',
+    title: 'Compliance Report',
+    description: 'Check-in compliance rates and missed check-ins',
+    defaultPeriod: 'Last 30 days',
+  },
+  {
+    type: 'high-risk-incidents',
+    title: 'High-Risk Incidents',
+    description: 'Report of all high-risk incidents and follow-up actions',
+    defaultPeriod: 'Last 90 days',
+  },
+];
 
 export function TeamReportsPage() {
-  const reportTypes = [
-    {
-      title: 'Weekly Summary',
-      description: 'Summary of team check-ins and readiness for the past week',
-      icon: <FileText className="h-8 w-8" />,
-    },
-    {
-      title: 'Monthly Report',
-      description: 'Comprehensive monthly report with trends and analytics',
-      icon: <FileText className="h-8 w-8" />,
-    },
-    {
-      title: 'Compliance Report',
-      description: 'Check-in compliance rates and missed check-ins',
-      icon: <FileText className="h-8 w-8" />,
-    },
-    {
-      title: 'High-Risk Incidents',
-      description: 'Report of all high-risk incidents and follow-up actions',
-      icon: <FileText className="h-8 w-8" />,
-    },
-  ];
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isSupervisor = user?.role === 'SUPERVISOR';
+
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [teamId, setTeamId] = useState(ALL_TEAMS);
+  const [previewType, setPreviewType] = useState<ReportType | null>(null);
+  const [downloading, setDownloading] = useState<`${ReportType}:${ReportFormat}` | null>(null);
+
+  // Supervisors choose between their assigned teams; team leads are scoped to their own team
+  const { data: supervisorStats } = useSupervisorDashboardStats(isSupervisor);
+  const teams = supervisorStats?.teams ?? [];
+
+  const rangeError = from && to && from > to ? 'Start date must be on or before end date' : null;
+
+  // Empty dates fall back to each report's default period on the server
+  const params: ReportParams = {
+    from: from || undefined,
+    to: to || undefined,
+    teamId: teamId === ALL_TEAMS ? undefined : teamId,
+  };
+
+  const { data: report, isFetching, error } = useReport(rangeError ? null : previewType, params);
+
+  const handleDownload = async (type: ReportType, format: ReportFormat) => {
+    setDownloading(`${type}:${format}`);
+    try {
+      await downloadReport(type, params, format);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to download report',
+        description: err instanceof Error ? err.message : 'Something went wrong.',
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -36,51 +104,168 @@ export function TeamReportsPage() {
         description="Generate and download team reports"
       />
 
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="report-from">Start Date</Label>
+              <Input id="report-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="report-to">End Date</Label>
+              <Input id="report-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            {isSupervisor && (
+              <div className="flex-1 space-y-2">
+                <Label>Team</Label>
+                <Select value={teamId} onValueChange={setTeamId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All my teams" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TEAMS}>All my teams</SelectItem>
+                    {teams.map((team) => (
+                      <SelectItem key={team.teamId} value={team.teamId}>
+                        {team.teamName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          {rangeError ? (
+            <p className="mt-2 text-sm text-destructive">{rangeError}</p>
+          ) : (
+            <p className="mt-2 text-sm text-muted-foreground">
+              Leave the dates empty to use each report&apos;s default period.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {reportTypes.map((report) => (
-          <Card key={report.title}>
+        {REPORT_TYPES.map((reportType) => (
+          <Card
+            key={reportType.type}
+            className={cn(previewType === reportType.type && 'border-primary')}
+          >
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
-                {report.icon}
-                {report.title}
+                <FileText className="h-8 w-8" />
+                {reportType.title}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-muted-foreground mb-4">{report.description}</p>
+              <p className="text-muted-foreground">{reportType.description}</p>
+              <p className="text-xs text-muted-foreground mb-4">Default period: {reportType.defaultPeriod}</p>
               <div className="flex gap-2">
-                <Button variant="outline" className="flex-1">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  disabled={!!rangeError}
+                  onClick={() => setPreviewType(reportType.type)}
+                >
+                  <Eye className="h-4 w-4 mr-2" />
                   Generate
                 </Button>
-                <Button variant="outline" size="icon">
-                  <Download className="h-4 w-4" />
-                </Button>
+                {(['csv', 'pdf'] as const).map((format) => (
+                  <Button
+                    key={format}
+                    variant="outline"
+                    disabled={!!rangeError || downloading !== null}
+                    onClick={() => handleDownload(reportType.type, format)}
+                    aria-label={`Download ${reportType.title} as ${format.toUpperCase()}`}
+                  >
+                    {downloading === `${reportType.type}:${format}` ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : format === 'csv' ? (
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    ) : (
+                      <FileText className="h-4 w-4 mr-2" />
+                    )}
+                    {format.toUpperCase()}
+                  </Button>
+                ))}
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle>Custom Report</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground mb-4">
-            Generate a custom report with specific date range and filters.
-          </p>
-          <div className="flex gap-4 items-end">
-            <div className="flex-1 space-y-2">
-              <Label>Start Date</Label>
-              <Input type="date" />
-            </div>
-            <div className="flex-1 space-y-2">
-              <Label>End Date</Label>
-              <Input type="date" />
-            </div>
-            <Button>Generate Report</Button>
-          </div>
-        </CardContent>
-      </Card>
+      {previewType && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{report?.title ?? 'Report preview'}</CardTitle>
+            {report && (
+              <p className="text-sm text-muted-foreground">
+                {report.periodStart} to {report.periodEnd} · {report.scope}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isFetching ? (
+              <div className="flex justify-center py-12">
+                <LoadingSpinner />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">
+                {error instanceof Error ? error.message : 'Failed to generate report'}
+              </p>
+            ) : report ? (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+                  {report.summary.map((item) => (
+                    <div key={item.label} className="rounded-lg border p-3">
+                      <p className="text-xs text-muted-foreground">{item.label}</p>
+                      <p className="text-lg font-semibold">{item.value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="overflow-x-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {report.columns.map((column) => (
+                          <TableHead
+                            key={column.key}
+                            className={cn('whitespace-nowrap', column.align === 'right' && 'text-right')}
+                          >
+                            {column.label}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.rows.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={report.columns.length} className="text-center text-muted-foreground">
+                            No data for the selected period.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        report.rows.map((row, index) => (
+                          <TableRow key={index}>
+                            {report.columns.map((column) => (
+                              <TableCell
+                                key={column.key}
+                                className={cn(column.align === 'right' && 'text-right tabular-nums')}
+                              >
+                                {row[column.key] ?? '—'}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ) : null}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
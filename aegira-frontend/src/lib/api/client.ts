@@ -18,16 +18,67 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * True when a request never got a response — offline, DNS/TLS failure, dropped
+ * connection (fetch rejects with TypeError) or our own timeout.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof ApiError) return error.code === 'TIMEOUT';
+  return error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+}
+
 // Auth endpoints that should not trigger hard redirect on 401
 const AUTH_ENDPOINTS = [
   ENDPOINTS.AUTH.LOGIN,
   ENDPOINTS.AUTH.SIGNUP,
   ENDPOINTS.AUTH.ME,
   ENDPOINTS.AUTH.LOGOUT,
+  ENDPOINTS.AUTH.REFRESH,
 ];
 
+// Endpoints where a 401 means bad credentials, not an expired access token
+const NO_REFRESH_ENDPOINTS = [
+  ENDPOINTS.AUTH.LOGIN,
+  ENDPOINTS.AUTH.SIGNUP,
+  ENDPOINTS.AUTH.REFRESH,
+];
+
+// Single in-flight refresh shared by all requests that hit 401 at the same time
+let refreshPromise: Promise<boolean> | null = null;
+
+/**
+ * Exchange the refresh cookie for a new access token.
+ * Resolves true if the original request should be retried.
+ */
+function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = fetch(`${API_CONFIG.baseURL}${ENDPOINTS.AUTH.REFRESH}`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    })
+      .then(async (response) => {
+        if (response.ok) return true;
+        // Another tab rotated first — its fresh cookies are already in the jar
+        const body: { error?: { code?: string } } | null = await response.json().catch(() => null);
+        return body?.error?.code === 'REFRESH_TOKEN_SUPERSEDED';
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
 class APIClient {
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    isRetry = false,
+    responseType: 'json' | 'blob' = 'json',
+  ): Promise<T> {
     // Create AbortController for timeout
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), API_CONFIG.timeout);
@@ -44,8 +95,14 @@ class APIClient {
           : { 'Content-Type': 'application/json', ...options.headers },
       });
 
-      // Handle 401 - but NOT for auth endpoints (login/signup/me)
+      // Handle 401 - try a token refresh once, then retry the original request
       if (response.status === 401) {
+        const canRefresh = !isRetry && !NO_REFRESH_ENDPOINTS.some((e) => endpoint.includes(e));
+        if (canRefresh && (await refreshSession())) {
+          return this.request<T>(endpoint, options, true, responseType);
+        }
+
+        // Refresh failed - redirect, but NOT for auth endpoints (login/signup/me)
         const isAuthEndpoint = AUTH_ENDPOINTS.some((e) => endpoint.includes(e));
 
         if (!isAuthEndpoint) {
@@ -70,6 +127,10 @@ class APIClient {
         );
       }
 
+      if (responseType === 'blob') {
+        return (await response.blob()) as T;
+      }
+
       const data = await response.json();
       return data.data;
     } catch (error) {
@@ -87,6 +148,11 @@ class APIClient {
     return this.request<T>(endpoint, { method: 'GET' });
   }
 
+  /** Raw file download (e.g. attachments) — same auth/refresh handling as JSON requests */
+  async getBlob(endpoint: string): Promise<Blob> {
+    return this.request<Blob>(endpoint, { method: 'GET' }, false, 'blob');
+  }
+
   async post<T>(endpoint: string, body: unknown): Promise<T> {
     return this.request<T>(endpoint, {
       method: 'POST',
@@ -8,9 +8,23 @@ export const ENDPOINTS = {
     LOGIN: '/auth/login',
     SIGNUP: '/auth/signup',
     LOGOUT: '/auth/logout',
+    REFRESH: '/auth/refresh',
     ME: '/auth/me',
     CHANGE_PASSWORD: '/auth/change-password',
     VERIFY_PASSWORD: '/auth/verify-password',
+    FORGOT_PASSWORD: '/auth/forgot-password',
+    RESET_PASSWORD: '/auth/reset-password',
+    INVITATION: '/auth/invitation', // GET ?token
+    ACCEPT_INVITATION: '/auth/accept-invitation',
+    LOGIN_MFA: '/auth/login/mfa', // POST { mfaToken, code }
+    LOGIN_MFA_SETUP: '/auth/login/mfa/setup', // POST { mfaToken } (policy-forced enrolment)
+    LOGIN_MFA_ACTIVATE: '/auth/login/mfa/activate', // POST { mfaToken, code }
+    MFA: '/auth/mfa', // GET status
+    MFA_SETUP: '/auth/mfa/setup',
+    MFA_ACTIVATE: '/auth/mfa/activate',
+    MFA_RECOVERY_CODES: '/auth/mfa/recovery-codes', // POST { code } (regenerate)
+    MFA_DISABLE: '/auth/mfa/disable', // POST { password, code }
+    SSO_START: '/auth/sso/start', // GET ?email= (full-page navigation, redirects to the company's provider)
   },
 
   // Check-in Module
@@ -55,6 +69,7 @@ export const ENDPOINTS = {
     CANCEL_TRANSFER: (id: string) => `/persons/${id}/pending-transfer`,
     CHECK_INS: (id: string) => `/persons/${id}/check-ins`,
     STATS: (id: string) => `/persons/${id}/stats`,
+    RESEND_INVITATION: (id: string) => `/persons/${id}/invitation`, // POST
   },
 
   // Notification Module
@@ -65,14 +80,21 @@ export const ENDPOINTS = {
     MARK_ALL_READ: '/notifications/mark-all-read',
     ARCHIVE: (id: string) => `/notifications/${id}/archive`,
     ARCHIVE_ALL_READ: '/notifications/archive-all-read',
+    PREFERENCES: '/notifications/preferences', // GET / PATCH (own preferences)
+    STREAM: '/notifications/stream', // Server-Sent Events
+    PUSH_PUBLIC_KEY: '/notifications/push/public-key',
+    PUSH_SUBSCRIPTIONS: '/notifications/push/subscriptions', // POST subscription / DELETE ?endpoint=
   },
 
   // Admin Module
   ADMIN: {
     COMPANY_SETTINGS: '/admin/company/settings',
+    SCORING_MODEL: '/admin/company/scoring-model', // GET (active + history) / POST (publish new version)
     HOLIDAYS: '/admin/holidays',
     HOLIDAY_BY_ID: (id: string) => `/admin/holidays/${id}`,
     AUDIT_LOGS: '/admin/audit-logs',
+    AUDIT_LOGS_EXPORT: '/admin/audit-logs/export', // GET ?format=csv|xlsx + list filters
+    RESET_USER_MFA: (id: string) => `/admin/users/${id}/mfa/reset`, // POST
   },
 
   // Incident Module
@@ -80,24 +102,87 @@ export const ENDPOINTS = {
     CREATE: '/incidents',
     LIST: '/incidents',
     MY: '/incidents/my',
+    EXPORT: '/incidents/export', // GET ?format=csv|xlsx + list filters
     BY_ID: (id: string) => `/incidents/${id}`,
     TIMELINE: (id: string) => `/incidents/${id}/timeline`,
     APPROVE: (id: string) => `/incidents/${id}/approve`,
     REJECT: (id: string) => `/incidents/${id}/reject`,
+    ATTACHMENTS: (id: string) => `/incidents/${id}/attachments`,
+    ATTACHMENT: (id: string, attachmentId: string) => `/incidents/${id}/attachments/${attachmentId}`,
+    ATTACHMENT_DOWNLOAD: (id: string, attachmentId: string) =>
+      `/incidents/${id}/attachments/${attachmentId}/download`,
   },
 
   // Case Module
   CASE: {
     LIST: '/cases',
+    WORKLOAD: '/cases/workload',
+    EXPORT: '/cases/export', // GET ?format=csv|xlsx + list filters
     BY_ID: (id: string) => `/cases/${id}`,
     UPDATE: (id: string) => `/cases/${id}`,
+    ASSIGN: (id: string) => `/cases/${id}/assign`,
+    REASSIGN: (id: string) => `/cases/${id}/reassign`,
+    ASSIGNMENTS: (id: string) => `/cases/${id}/assignments`,
+    ATTACHMENTS: (id: string) => `/cases/${id}/attachments`,
+    COMMENTS: (id: string) => `/cases/${id}/comments`,
+  },
+
+  // Amendment Module (check-in corrections)
+  AMENDMENT: {
+    CREATE: '/amendments',
+    LIST: '/amendments',
+    MY: '/amendments/my',
+    APPROVE: (id: string) => `/amendments/${id}/approve`,
+    REJECT: (id: string) => `/amendments/${id}/reject`,
+  },
+
+  // Leave Module (schedule exceptions)
+  LEAVE: {
+    CREATE: '/leave',
+    LIST: '/leave',
+    MY: '/leave/my',
+    CALENDAR: '/leave/calendar', // GET ?from&to (YYYY-MM-DD)
+    CANCEL: (id: string) => `/leave/${id}/cancel`,
+    APPROVE: (id: string) => `/leave/${id}/approve`,
+    REJECT: (id: string) => `/leave/${id}/reject`,
+  },
+
+  // Readiness follow-ups (RED/YELLOW check-ins)
+  FOLLOW_UP: {
+    OPEN: '/follow-ups/open',
+    ACKNOWLEDGE: (id: string) => `/follow-ups/${id}/acknowledge`,
+    RESOLVE: (id: string) => `/follow-ups/${id}/resolve`,
   },
 
   // Team Management (extended)
   TEAM_MANAGEMENT: {
     MISSED_CHECK_INS: '/teams/missed-check-ins',
+    MISSED_CHECK_INS_EXPORT: '/teams/missed-check-ins/export', // GET ?format&workerId&resolved&from&to
     ANALYTICS: '/teams/analytics',
     MY_MEMBERS: '/teams/my-members',
     CHECK_IN_HISTORY: '/teams/check-in-history',
+    CHECK_IN_HISTORY_EXPORT: '/teams/check-in-history/export', // GET ?format&workerId&search&from&to
+  },
+
+  // Report Module
+  REPORT: {
+    GENERATE: (type: string) => `/reports/${type}`, // GET ?from&to&teamId&format=json|csv|pdf
+    SUBSCRIPTIONS: '/reports/subscriptions', // GET / POST
+    SUBSCRIPTION: (id: string) => `/reports/subscriptions/${id}`, // PATCH / DELETE
+  },
+
+  // Roster Module (rotating shift patterns)
+  ROSTER: {
+    PATTERNS: '/rosters/patterns', // GET / POST
+    PATTERN: (id: string) => `/rosters/patterns/${id}`, // PATCH / DELETE
+    TEAM: (teamId: string) => `/rosters/teams/${teamId}`, // PATCH
+    PERSON: (personId: string) => `/rosters/persons/${personId}`, // PATCH
+    PERSON_SCHEDULE: (personId: string) => `/rosters/persons/${personId}/schedule`, // GET ?from&to (YYYY-MM-DD)
+  },
+
+  ALERT_RULE: {
+    LIST: '/alert-rules', // GET / POST
+    BY_ID: (id: string) => `/alert-rules/${id}`, // PATCH / DELETE
+    PREVIEW: '/alert-rules/preview', // POST — dry run against recent history
   },
 } as const;
@@ -0,0 +1,77 @@
+import { apiClient } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+
+/** Web Push needs a service worker, the Push API and the Notification API */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/** Registers /sw.js (public/sw.js), which shows push notifications */
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      if (import.meta.env.DEV) {
+        console.error('Service worker registration failed:', error);
+      }
+    });
+  });
+}
+
+/** Base64url VAPID key → bytes for PushManager.subscribe */
+function decodeApplicationServerKey(key: string): ArrayBuffer {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new ArrayBuffer(raw.length);
+  const view = new Uint8Array(bytes);
+  for (let i = 0; i < raw.length; i++) view[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+/** This browser's current push subscription, if any */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+/**
+ * Ask for notification permission, subscribe this browser and register the
+ * subscription with the backend. Throws when permission is denied.
+ */
+export async function subscribeToPush(publicKey: string): Promise<PushSubscription> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeApplicationServerKey(publicKey),
+    }));
+
+  await apiClient.post(ENDPOINTS.NOTIFICATIONS.PUSH_SUBSCRIPTIONS, subscription.toJSON());
+  return subscription;
+}
+
+/**
+ * Remove this browser's subscription from the backend and the push service.
+ * Called on logout so a shared device stops receiving the previous user's pushes.
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const params = new URLSearchParams({ endpoint: subscription.endpoint });
+  await apiClient.delete(`${ENDPOINTS.NOTIFICATIONS.PUSH_SUBSCRIPTIONS}?${params.toString()}`);
+  await subscription.unsubscribe();
+}
@@ -24,6 +24,15 @@ export function formatTime(date: string | Date, format = 'h:mm a'): string {
   return dt.toFormat(format);
 }
 
+/**
+ * Whether a timestamp falls on today's date in the given timezone
+ * (the company's — the device's own timezone may differ)
+ */
+export function isTodayInTimezone(date: string | Date, timezone: string): boolean {
+  const dt = typeof date === 'string' ? DateTime.fromISO(date) : DateTime.fromJSDate(date);
+  return dt.setZone(timezone).toISODate() === DateTime.now().setZone(timezone).toISODate();
+}
+
 /**
  * Get relative time (e.g., "2 hours ago")
  */
@@ -1,35 +1,21 @@
 /**
- * Generic CSV export utilities — reusable across any export feature.
- * Pattern: client-side blob generation + anchor-tag download
- * (same approach as AdminAuditLogsPage JSON export)
+ * Export utilities — files are generated server-side and streamed, so large
+ * exports aren't capped by how many pages the browser is willing to fetch.
+ * Pattern: fetch the file as a Blob via apiClient + anchor-tag download.
  */
+import { apiClient } from '@/lib/api/client';
 
-/**
- * Escape a single CSV field per RFC 4180:
- * - Wrap in double-quotes if it contains comma, quote, or newline
- * - Double any existing double-quotes
- */
-export function escapeCSVField(value: string | number | null | undefined): string {
-  if (value === null || value === undefined) return '';
-  const str = String(value);
-  if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
-    return `"${str.replace(/"/g, '""')}"`;
-  }
-  return str;
-}
+export type ExportFormat = 'csv' | 'xlsx';
 
-/**
- * Convert an array of field values into a single CSV row string.
- */
-export function arrayToCSVRow(fields: (string | number | null | undefined)[]): string {
-  return fields.map(escapeCSVField).join(',');
-}
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+};
 
 /**
- * Trigger a file download in the browser via blob + anchor tag.
+ * Trigger a browser download for an existing Blob (e.g. a file fetched from the API).
  */
-export function downloadFile(content: string, filename: string, mimeType = 'text/csv'): void {
-  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = window.URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -39,3 +25,21 @@ export function downloadFile(content: string, filename: string, mimeType = 'text
   link.remove();
   URL.revokeObjectURL(url);
 }
+
+/**
+ * Download a server export endpoint (`.../export?format=csv|xlsx&<list filters>`).
+ * Empty filter values are left out so they don't narrow the export.
+ */
+export async function downloadExport(
+  endpoint: string,
+  params: Record<string, string | undefined>,
+  format: ExportFormat,
+  fileName: string
+): Promise<void> {
+  const searchParams = new URLSearchParams({ format });
+  for (const [key, value] of Object.entries(params)) {
+    if (value) searchParams.set(key, value);
+  }
+  const blob = await apiClient.getBlob(`${endpoint}?${searchParams.toString()}`);
+  downloadBlob(blob, `${fileName}.${format}`);
+}
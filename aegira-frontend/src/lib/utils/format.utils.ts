@@ -1,4 +1,5 @@
 import type { UserRole } from '@/types/auth.types';
+import { formatDate } from './date.utils';
 
 /**
  * Format number with locale
@@ -34,6 +35,15 @@ export function formatScheduleWindow(start: string, end: string): string {
   return `${formatTime12h(start || '06:00')} - ${formatTime12h(end || '10:00')}`;
 }
 
+/**
+ * Format a day's roster windows as "6:00 AM - 8:00 AM, 10:00 PM - 2:00 AM (next day)"
+ */
+export function formatScheduleWindows(windows: { start: string; end: string }[]): string {
+  return windows
+    .map((w) => `${formatScheduleWindow(w.start, w.end)}${w.end < w.start ? ' (next day)' : ''}`)
+    .join(', ');
+}
+
 /**
  * Shared role display labels — single source of truth
  * Must include all values from UserRole type in auth.types.ts
@@ -142,3 +152,57 @@ export function formatRejectionReason(reason: string): string {
   };
   return labels[reason] ?? reason;
 }
+
+/**
+ * Human-readable label for an amendable check-in field.
+ * physical_condition is shown as "Energy Level" to match the check-in form.
+ */
+export function formatAmendmentField(field: string): string {
+  const labels: Record<string, string> = {
+    hours_slept: 'Hours Slept',
+    sleep_quality: 'Sleep Quality',
+    stress_level: 'Stress Level',
+    physical_condition: 'Energy Level',
+    pain_level: 'Pain Level',
+  };
+  return labels[field] ?? field;
+}
+
+/**
+ * Human-readable label for a leave type.
+ */
+export function formatLeaveType(type: string): string {
+  const labels: Record<string, string> = {
+    ANNUAL: 'Annual Leave',
+    SICK: 'Sick Leave',
+    TRAINING: 'Training',
+    OTHER: 'Other Leave',
+  };
+  return labels[type] ?? type;
+}
+
+/**
+ * Inclusive leave date range (e.g., "Mar 03, 2026" or "Mar 03, 2026 – Mar 07, 2026")
+ */
+export function formatLeaveRange(startDate: string, endDate: string): string {
+  return startDate === endDate
+    ? formatDate(startDate)
+    : `${formatDate(startDate)} – ${formatDate(endDate)}`;
+}
+
+/**
+ * Label for the readiness scoring model a check-in was scored with.
+ * Version 0 is the built-in default model.
+ */
+export function formatScoringModelVersion(version: number): string {
+  return version === 0 ? 'Default model' : `Model v${version}`;
+}
+
+/**
+ * Format a byte count for display (e.g., 2048 → "2.0 KB", 3145728 → "3.0 MB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
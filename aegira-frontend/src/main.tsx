@@ -4,9 +4,12 @@ import { BrowserRouter } from 'react-router-dom';
 import { QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { queryClient } from './config/query.config';
+import { registerServiceWorker } from './lib/push';
 import App from './App';
 import './styles/globals.css';
 
+registerServiceWorker();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
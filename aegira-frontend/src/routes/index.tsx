@@ -13,6 +13,15 @@ const LoginPage = lazy(() =>
 const SignupPage = lazy(() =>
   import('@/features/auth/pages/SignupPage').then((m) => ({ default: m.SignupPage }))
 );
+const ForgotPasswordPage = lazy(() =>
+  import('@/features/auth/pages/ForgotPasswordPage').then((m) => ({ default: m.ForgotPasswordPage }))
+);
+const ResetPasswordPage = lazy(() =>
+  import('@/features/auth/pages/ResetPasswordPage').then((m) => ({ default: m.ResetPasswordPage }))
+);
+const AcceptInvitePage = lazy(() =>
+  import('@/features/auth/pages/AcceptInvitePage').then((m) => ({ default: m.AcceptInvitePage }))
+);
 const UnauthorizedPage = lazy(() =>
   import('@/features/auth/pages/UnauthorizedPage').then((m) => ({ default: m.UnauthorizedPage }))
 );
@@ -61,6 +70,16 @@ const MissedCheckInsPage = lazy(() =>
     default: m.MissedCheckInsPage,
   }))
 );
+const TeamAmendmentsPage = lazy(() =>
+  import('@/features/team/pages/TeamAmendmentsPage').then((m) => ({
+    default: m.TeamAmendmentsPage,
+  }))
+);
+const TeamLeavePage = lazy(() =>
+  import('@/features/team/pages/TeamLeavePage').then((m) => ({
+    default: m.TeamLeavePage,
+  }))
+);
 const TeamAnalyticsPage = lazy(() =>
   import('@/features/team/pages/TeamAnalyticsPage').then((m) => ({
     default: m.TeamAnalyticsPage,
@@ -103,6 +122,16 @@ const AdminHolidaysPage = lazy(() =>
     default: m.AdminHolidaysPage,
   }))
 );
+const AdminShiftPatternsPage = lazy(() =>
+  import('@/features/admin/pages/AdminShiftPatternsPage').then((m) => ({
+    default: m.AdminShiftPatternsPage,
+  }))
+);
+const AdminAlertRulesPage = lazy(() =>
+  import('@/features/admin/pages/AdminAlertRulesPage').then((m) => ({
+    default: m.AdminAlertRulesPage,
+  }))
+);
 const AdminAuditLogsPage = lazy(() =>
   import('@/features/admin/pages/AdminAuditLogsPage').then((m) => ({
     default: m.AdminAuditLogsPage,
@@ -193,6 +222,9 @@ export function AppRoutes() {
         {/* Guest-only routes — redirect to dashboard if already authenticated */}
         <Route path={ROUTES.LOGIN} element={<GuestGuard><LoginPage /></GuestGuard>} />
         <Route path={ROUTES.SIGNUP} element={<GuestGuard><SignupPage /></GuestGuard>} />
+        <Route path={ROUTES.FORGOT_PASSWORD} element={<GuestGuard><ForgotPasswordPage /></GuestGuard>} />
+        <Route path={ROUTES.RESET_PASSWORD} element={<GuestGuard><ResetPasswordPage /></GuestGuard>} />
+        <Route path={ROUTES.ACCEPT_INVITE} element={<GuestGuard><AcceptInvitePage /></GuestGuard>} />
         <Route path={ROUTES.UNAUTHORIZED} element={<UnauthorizedPage />} />
 
         {/* Protected routes - All authenticated users */}
@@ -232,6 +264,9 @@ export function AppRoutes() {
             <Route path={ROUTES.TEAM_ANALYTICS} element={<TeamAnalyticsPage />} />
             <Route path={ROUTES.TEAM_MEMBERS} element={<TeamMembersPage />} />
             <Route path={ROUTES.TEAM_CHECK_IN_HISTORY} element={<TeamCheckInHistoryPage />} />
+            <Route path={ROUTES.TEAM_AMENDMENTS} element={<TeamAmendmentsPage />} />
+            <Route path={ROUTES.TEAM_LEAVE} element={<TeamLeavePage />} />
+            <Route path={ROUTES.TEAM_REPORTS} element={<TeamReportsPage />} />
           </Route>
 
           {/* Worker Profile - viewable by team management + WHS */}
@@ -247,7 +282,6 @@ export function AppRoutes() {
             <Route path={ROUTES.TEAM} element={<TeamsPage />} />
             <Route path={ROUTES.TEAM_DETAIL} element={<TeamDetailPage />} />
             <Route path={ROUTES.TEAM_DASHBOARD} element={<TeamLeadDashboard />} />
-            <Route path={ROUTES.TEAM_REPORTS} element={<TeamReportsPage />} />
           </Route>
 
           {/* ============================================ */}
@@ -289,6 +323,10 @@ export function AppRoutes() {
             {/* Holiday Management */}
             <Route path={ROUTES.ADMIN_HOLIDAYS} element={<AdminHolidaysPage />} />
 
+            {/* Shift Rosters */}
+            <Route path={ROUTES.ADMIN_SHIFT_PATTERNS} element={<AdminShiftPatternsPage />} />
+            <Route path={ROUTES.ADMIN_ALERT_RULES} element={<AdminAlertRulesPage />} />
+
             {/* System Administration */}
             <Route path={ROUTES.ADMIN_AUDIT_LOGS} element={<AdminAuditLogsPage />} />
             <Route path={ROUTES.ADMIN_SETTINGS} element={<AdminCompanySettingsPage />} />
@@ -0,0 +1,12 @@
+import { create } from 'zustand';
+
+interface NotificationStreamState {
+  /** True while the live notification stream is open — polling is paused */
+  isConnected: boolean;
+  setConnected: (isConnected: boolean) => void;
+}
+
+export const useNotificationStreamStore = create<NotificationStreamState>()((set) => ({
+  isConnected: false,
+  setConnected: (isConnected) => set({ isConnected }),
+}));
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CheckInSubmission } from '@/types/check-in.types';
+
+export interface QueuedCheckIn {
+  id: string;
+  personId: string;
+  submission: CheckInSubmission;
+  /** Device time the worker submitted (ISO 8601) — sent as the check-in's event time */
+  eventTime: string;
+}
+
+interface OfflineCheckInState {
+  queue: QueuedCheckIn[];
+  enqueue: (item: Omit<QueuedCheckIn, 'id'>) => void;
+  remove: (id: string) => void;
+}
+
+/**
+ * Check-ins submitted without connectivity. Persisted to localStorage so they
+ * survive a reload or closed tab; useOfflineCheckInSync sends them when the
+ * device is back online.
+ */
+export const useOfflineCheckInStore = create<OfflineCheckInState>()(
+  persist(
+    (set) => ({
+      queue: [],
+      enqueue: (item) =>
+        set((state) => ({
+          // One per person — a newer submission replaces an unsent one
+          queue: [
+            ...state.queue.filter((queued) => queued.personId !== item.personId),
+            { ...item, id: crypto.randomUUID() },
+          ],
+        })),
+      remove: (id) => set((state) => ({ queue: state.queue.filter((queued) => queued.id !== id) })),
+    }),
+    { name: 'aegira-offline-check-ins' }
+  )
+);
@@ -292,6 +292,8 @@ export const handlers = [
           checkInStart: '06:00',
           checkInEnd: '10:00',
           workDays: ['1', '2', '3', '4', '5'],
+          windows: [{ start: '06:00', end: '10:00' }],
+          source: 'weekly',
         },
         team: {
           id: 'team-1',
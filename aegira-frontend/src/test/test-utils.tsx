@@ -3,6 +3,7 @@ import { render, RenderOptions } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter } from 'react-router-dom';
 import { useAuthStore } from '@/stores/auth.store';
+import { ToastProvider } from '@/lib/hooks/use-toast';
 import { mockUser } from './mocks/handlers';
 
 // Create a fresh QueryClient for each test
@@ -30,7 +31,9 @@ function AllProviders({ children }: WrapperProps) {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <BrowserRouter>{children}</BrowserRouter>
+      <ToastProvider>
+        <BrowserRouter>{children}</BrowserRouter>
+      </ToastProvider>
     </QueryClientProvider>
   );
 }
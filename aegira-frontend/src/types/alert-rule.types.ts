@@ -0,0 +1,61 @@
+/**
+ * Alert Rule Types - Company-defined TEAM_ALERTs over check-in and missed-check-in history
+ * Backend: src/modules/alert-rule
+ */
+
+export type AlertRuleMetric =
+  | 'CONSECUTIVE_YELLOW_OR_RED'
+  | 'RED_CHECK_INS'
+  | 'HIGH_STRESS'
+  | 'HIGH_PAIN'
+  | 'LOW_SLEEP'
+  | 'MISSED_CHECK_INS';
+
+export type AlertTargetRole = 'TEAM_LEAD' | 'SUPERVISOR' | 'ADMIN';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertRuleMetric;
+  value: number | null;       // stress/pain level or hours slept — metric dependent
+  threshold: number;          // occurrences in the window (streak length for CONSECUTIVE_YELLOW_OR_RED)
+  windowDays: number;
+  targetRole: AlertTargetRole;
+  isActive: boolean;
+  description: string;        // e.g. "stress 8+ on 2 check-ins in 7 days"
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertRuleDefinition {
+  metric: AlertRuleMetric;
+  value?: number | null;
+  threshold: number;
+  windowDays: number;
+}
+
+export interface CreateAlertRuleData extends AlertRuleDefinition {
+  name: string;
+  targetRole: AlertTargetRole;
+  isActive?: boolean;
+}
+
+export type UpdateAlertRuleData = Partial<CreateAlertRuleData>;
+
+export interface PreviewAlertRuleData extends AlertRuleDefinition {
+  days?: number;
+}
+
+export interface AlertRulePreviewMatch {
+  personId: string;
+  workerName: string;
+  teamName: string | null;
+  date: string; // YYYY-MM-DD — the check-in / miss that would have triggered it
+}
+
+export interface AlertRulePreview {
+  from: string;
+  to: string;
+  matches: AlertRulePreviewMatch[];
+  workersMatched: number;
+}
@@ -0,0 +1,63 @@
+/**
+ * Amendment Types - Check-in correction requests
+ * Backend: src/modules/amendment
+ */
+
+export type AmendmentStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// Backend field names (snake_case — matches CheckIn columns)
+export type AmendableField =
+  | 'hours_slept'
+  | 'sleep_quality'
+  | 'stress_level'
+  | 'physical_condition'
+  | 'pain_level';
+
+export interface Amendment {
+  id: string;
+  checkInId: string;
+  checkInDate: string;       // YYYY-MM-DD
+  personId: string;
+  workerName: string;
+  teamName: string;
+  fieldName: AmendableField;
+  oldValue: string;
+  newValue: string;
+  reason: string;
+  status: AmendmentStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+  readinessScore: number;    // Current check-in score (post-approval if approved)
+  readinessLevel: string;
+  createdAt: string;
+}
+
+export interface AmendmentListResponse {
+  items: Amendment[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  statusCounts: Record<AmendmentStatus, number>;
+}
+
+export interface CreateAmendmentData {
+  checkInId: string;
+  fieldName: AmendableField;
+  newValue: number;
+  reason: string;
+}
+
+export interface RejectAmendmentData {
+  rejectionReason: string;
+}
+
+// Pending correction shown on a check-in history row
+export interface PendingAmendment {
+  id: string;
+  fieldName: AmendableField;
+  newValue: string;
+}
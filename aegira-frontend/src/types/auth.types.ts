@@ -34,3 +34,30 @@ export interface User {
 export interface AuthResponse {
   user: User;
 }
+
+/** Password accepted, but a second factor is needed before a session starts */
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  /** Company policy requires MFA and none is enrolled — set it up as part of this login */
+  mfaEnrollmentRequired: boolean;
+  /** Short-lived token traded for a session at /auth/login/mfa(/activate) */
+  mfaToken: string;
+}
+
+export type LoginResponse = AuthResponse | MfaChallengeResponse;
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  /** Company policy requires MFA for this user's role — it can't be turned off */
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  /** Base32 secret for manual entry */
+  secret: string;
+  otpauthUri: string;
+  /** otpauthUri as a standalone SVG QR code */
+  qrSvg: string;
+}
@@ -3,6 +3,9 @@
  * Backend: prisma/schema.prisma -> CheckIn model
  */
 
+import type { AmendableField, PendingAmendment } from './amendment.types';
+import type { LeaveSummary, LeaveType } from './leave.types';
+
 // Form submission data
 export interface CheckInSubmission {
   sleepHours: number;        // 0-24, decimal
@@ -66,6 +69,12 @@ export interface BackendCheckIn {
     late_by_minutes: number | null;
     event_time: string;
   };
+  // Open correction requests (history endpoint only)
+  amendments?: {
+    id: string;
+    field_name: AmendableField;
+    new_value: string;
+  }[];
 }
 
 // Full check-in record from backend
@@ -92,6 +101,9 @@ export interface CheckIn {
   isLate?: boolean;
   lateByMinutes?: number;
 
+  // Open correction requests awaiting team lead review
+  pendingAmendments?: PendingAmendment[];
+
   // Metadata
   submittedAt: string;       // ISO datetime string (event_time)
   createdAt: string;
@@ -122,6 +134,7 @@ export interface WorkerSchedule {
   isWorkDay: boolean;        // Whether today is a scheduled work day (false on holidays)
   isHoliday: boolean;        // Whether today is a company holiday
   holidayName: string | null; // Name of the holiday if applicable
+  leave: LeaveSummary | null; // Approved leave covering today
   isAssignedToday: boolean;  // Worker was just assigned today (not required to check-in)
   windowOpen: boolean;       // Check-in window is currently open
   windowClosed: boolean;     // Check-in window has already closed
@@ -157,6 +170,7 @@ export interface WorkerDashboardStats {
   memberSince: string | null; // ISO date when worker was assigned to team
   schedule: WorkerSchedule;   // Today's schedule context
   pendingTransfer: PendingTransferInfo | null;
+  upcomingLeave: LeaveSummary | null; // Next approved leave starting after today
 }
 
 // Team lead dashboard stats (team leads monitor their assigned team)
@@ -220,6 +234,7 @@ export interface TeamMemberStatus {
   readinessScore?: number;
   transferringOut?: boolean; // Worker has a pending transfer to another team
   transferringToTeam?: string | null; // Name of the team being transferred to
+  leaveType?: LeaveType | null; // Approved leave covering today
 }
 
 // Admin dashboard stats (management-focused, not check-in focused)
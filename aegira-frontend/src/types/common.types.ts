@@ -23,7 +23,17 @@ export type NotificationType =
   | 'SYSTEM'              // System notifications
   | 'INCIDENT_SUBMITTED'  // Incident report submitted
   | 'INCIDENT_APPROVED'   // Incident approved, case created
-  | 'INCIDENT_REJECTED';  // Incident not approved
+  | 'INCIDENT_REJECTED'   // Incident not approved
+  | 'AMENDMENT_SUBMITTED' // Check-in correction requested (for team leads)
+  | 'AMENDMENT_APPROVED'  // Check-in correction applied
+  | 'AMENDMENT_REJECTED'  // Check-in correction not approved
+  | 'LEAVE_SUBMITTED'     // Leave requested (for team leads)
+  | 'LEAVE_APPROVED'      // Leave approved, check-ins not required
+  | 'LEAVE_REJECTED'      // Leave not approved
+  | 'READINESS_FOLLOW_UP' // RED check-in to acknowledge, or follow-up outcome for the worker
+  | 'READINESS_ESCALATED' // RED check-in not acknowledged in time (for supervisors)
+  | 'CASE_COMMENT_MENTION' // Mentioned in a case comment
+  | 'CASE_ASSIGNED';      // Case assigned or reassigned
 
 export interface Notification {
   id: string;
@@ -32,6 +42,7 @@ export interface Notification {
   type: NotificationType;
   title: string;
   message: string;
+  link: string | null;         // app path to open on click (e.g. a worker's profile)
   read_at: string | null;      // null if unread
   archived_at: string | null;  // null if active
   created_at: string;
@@ -41,3 +52,25 @@ export interface NotificationUnreadCount {
   count: number;
 }
 
+/** Channel choice for one notification type (GET /notifications/preferences) */
+export interface NotificationTypePreference {
+  type: NotificationType;
+  inApp: boolean;
+  email: boolean;
+  push: boolean;
+}
+
+export interface NotificationPreferences {
+  types: NotificationTypePreference[];
+  quietHoursStart: string | null; // HH:mm, company timezone
+  quietHoursEnd: string | null;
+  dailyDigest: boolean;
+}
+
+export interface UpdateNotificationPreferencesData {
+  types?: NotificationTypePreference[];
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  dailyDigest?: boolean;
+}
+
@@ -1,3 +1,5 @@
+import type { UserRole } from './auth.types';
+
 export interface CompanySettings {
   id: string;
   companyName: string;
@@ -12,6 +14,18 @@ export interface CompanySettings {
   addressPostalCode: string;
   addressState: string;
   addressCountry: string;
+  notificationArchiveDays: number;
+  notificationPurgeDays: number;
+  eventPayloadRetentionDays: number | null; // null = keep forever
+  auditLogRetentionDays: number | null; // null = keep forever
+  mfaRequiredRoles: UserRole[]; // roles that must sign in with two-factor authentication
+  redFollowUpAckMinutes: number; // RED check-ins escalate to the supervisor if not acknowledged in time
+  passwordLoginEnabled: boolean; // false = SSO only (admins keep password login)
+  ssoEnabled: boolean;
+  ssoIssuer: string | null;
+  ssoClientId: string | null;
+  ssoClientSecretSet: boolean; // the secret itself is write-only
+  ssoRedirectUri: string; // register this at the identity provider
 }
 
 export interface UpdateCompanySettingsData {
@@ -26,4 +40,58 @@ export interface UpdateCompanySettingsData {
   addressPostalCode?: string;
   addressState?: string;
   addressCountry?: string;
+  notificationArchiveDays?: number;
+  notificationPurgeDays?: number;
+  eventPayloadRetentionDays?: number | null;
+  auditLogRetentionDays?: number | null;
+  mfaRequiredRoles?: UserRole[];
+  redFollowUpAckMinutes?: number;
+  passwordLoginEnabled?: boolean;
+  ssoEnabled?: boolean;
+  ssoIssuer?: string | null;
+  ssoClientId?: string | null;
+  ssoClientSecret?: string;
+}
+
+export interface SleepBand {
+  minHours: number;
+  score: number;
+}
+
+/** Readiness scoring configuration. Weights are fractions (0-1). */
+export interface ScoringModelConfig {
+  weights: {
+    withPain: { sleep: number; stress: number; physical: number; pain: number };
+    withoutPain: { sleep: number; stress: number; physical: number };
+  };
+  thresholds: {
+    green: number;
+    yellow: number;
+  };
+  sleep: {
+    optimalMinHours: number;
+    optimalMaxHours: number;
+    optimalScore: number;
+    oversleepScore: number;
+    bands: SleepBand[];
+    minimumScore: number;
+  };
+}
+
+export interface ScoringModelVersion {
+  version: number; // 0 = built-in default
+  config: ScoringModelConfig;
+  notes: string | null;
+  createdAt: string | null;
+  createdBy: { id: string; name: string } | null;
+}
+
+export interface ScoringModelResponse {
+  active: ScoringModelVersion;
+  defaultConfig: ScoringModelConfig;
+  versions: ScoringModelVersion[];
+}
+
+export interface UpdateScoringModelData extends ScoringModelConfig {
+  notes?: string;
 }
@@ -0,0 +1,37 @@
+/**
+ * Readiness Follow-Up Types - What the team lead did about a RED/YELLOW check-in
+ * Backend: src/modules/follow-up
+ */
+
+export type FollowUpStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+export type FollowUpOutcome = 'CLEARED' | 'MODIFIED_DUTY' | 'STOOD_DOWN' | 'SENT_HOME';
+
+export interface FollowUp {
+  id: string;
+  checkInId: string;
+  personId: string;
+  workerName: string;
+  teamName: string;
+  checkInDate: string;          // YYYY-MM-DD
+  checkInTime: string;          // ISO
+  readinessScore: number;
+  readinessLevel: 'RED' | 'YELLOW';
+  status: FollowUpStatus;
+  acknowledgeBy: string | null; // RED only — escalates to the supervisor after this
+  isOverdue: boolean;
+  acknowledgedAt: string | null;
+  escalatedAt: string | null;
+  outcome: FollowUpOutcome | null;
+  notes: string | null;
+  resolvedAt: string | null;
+}
+
+export interface OpenFollowUpsResponse {
+  items: FollowUp[];
+}
+
+export interface ResolveFollowUpData {
+  outcome: FollowUpOutcome;
+  notes?: string;
+}
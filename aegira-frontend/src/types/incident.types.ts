@@ -122,6 +122,78 @@ export interface UpdateCaseData {
   notes?: string;
 }
 
+export interface CaseAssignment {
+  id: string;
+  assigneeId: string;
+  assigneeName: string;
+  previousAssigneeId: string | null; // null on the first assignment
+  assignedById: string;
+  assignedByName: string;
+  reason: string | null; // Required on reassignment
+  createdAt: string;
+}
+
+export interface AssignCaseData {
+  assigneeId: string;
+}
+
+export interface ReassignCaseData {
+  assigneeId: string;
+  reason: string;
+}
+
+/** Active (OPEN/INVESTIGATING) cases owned by one WHS officer */
+export interface CaseWorkloadEntry {
+  assigneeId: string | null; // null = unassigned cases
+  assigneeName: string | null;
+  openCount: number;
+  investigatingCount: number;
+  cases: {
+    id: string;
+    caseNumber: number;
+    status: CaseStatus;
+    title: string;
+    severity: IncidentSeverity;
+    ageDays: number;
+    createdAt: string;
+  }[];
+}
+
+/** Evidence file on an incident or its case — download via ENDPOINTS.INCIDENT.ATTACHMENT_DOWNLOAD */
+export interface Attachment {
+  id: string;
+  incidentId: string;
+  caseId: string | null; // Set when uploaded against the case
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedBy: string;
+  uploaderName: string;
+  createdAt: string;
+}
+
+export type CaseCommentVisibility = 'INTERNAL' | 'REPORTER';
+
+export interface CaseComment {
+  id: string;
+  caseId: string;
+  parentId: string | null; // Set on replies (one level deep)
+  authorId: string;
+  authorName: string;
+  authorRole: string;
+  body: string;
+  visibility: CaseCommentVisibility; // INTERNAL = WHS only
+  mentionedIds: string[];
+  createdAt: string;
+}
+
+export interface CreateCaseCommentData {
+  body: string;
+  visibility?: CaseCommentVisibility;
+  parentId?: string;
+  mentionedPersonIds?: string[];
+}
+
 export interface IncidentEvent {
   id: string;
   eventType: string;
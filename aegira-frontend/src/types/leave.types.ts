@@ -0,0 +1,60 @@
+/**
+ * Leave Types - Approved absences that take days out of a worker's schedule
+ * Backend: src/modules/leave
+ */
+
+export type LeaveType = 'ANNUAL' | 'SICK' | 'TRAINING' | 'OTHER';
+
+export type LeaveStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export interface Leave {
+  id: string;
+  personId: string;
+  workerName: string;
+  teamName: string;
+  type: LeaveType;
+  startDate: string;         // YYYY-MM-DD
+  endDate: string;           // YYYY-MM-DD (inclusive)
+  reason: string | null;
+  status: LeaveStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+export interface LeaveListResponse {
+  items: Leave[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+  statusCounts: Record<LeaveStatus, number>;
+}
+
+// Pending + approved leave overlapping a date range
+export interface LeaveCalendarResponse {
+  from: string;
+  to: string;
+  items: Leave[];
+}
+
+// Compact leave summary embedded in the worker dashboard
+export interface LeaveSummary {
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+}
+
+export interface CreateLeaveData {
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  reason?: string;
+}
+
+export interface RejectLeaveData {
+  rejectionReason: string;
+}
@@ -40,6 +40,10 @@ export interface Person {
     check_in_end: string;
     work_days: string;
   } | null;
+  // Detail view only — invited but has not chosen a password yet
+  invitationPending?: boolean;
+  // Detail view only — has an authenticator app enrolled
+  mfaEnabled?: boolean;
 }
 
 export interface PersonStats {
@@ -53,7 +57,9 @@ export interface PersonStats {
 
 export interface CreatePersonData {
   email: string;
-  password: string;
+  // Either an initial password, or sendInvitation to email a set-password link
+  password?: string;
+  sendInvitation?: boolean;
   firstName: string;
   lastName: string;
   gender?: 'MALE' | 'FEMALE';
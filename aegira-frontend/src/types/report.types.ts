@@ -0,0 +1,64 @@
+/**
+ * Report Types - Server-generated team reports
+ * Backend: src/modules/report
+ */
+
+export type ReportType = 'weekly-summary' | 'monthly' | 'compliance' | 'high-risk-incidents';
+
+export type ReportFormat = 'csv' | 'pdf';
+
+export type ReportCell = string | number | null;
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  weight?: number;
+  align?: 'left' | 'right';
+}
+
+export interface ReportResult {
+  type: ReportType;
+  title: string;
+  periodStart: string;       // YYYY-MM-DD
+  periodEnd: string;         // YYYY-MM-DD
+  scope: string;             // "All teams" or team names
+  generatedAt: string;
+  summary: { label: string; value: string }[];
+  columns: ReportColumn[];
+  rows: Record<string, ReportCell>[];
+}
+
+export interface ReportParams {
+  from?: string;
+  to?: string;
+  teamId?: string;
+}
+
+// Scheduled delivery
+
+export type ReportFrequency = 'WEEKLY' | 'MONTHLY';
+
+export interface ReportSubscription {
+  id: string;
+  teamId: string;
+  teamName: string;
+  frequency: ReportFrequency;
+  recipients: string[];
+  isActive: boolean;
+  lastSentAt: string | null;
+  lastError: string | null;
+  createdByName: string;
+  createdAt: string;
+}
+
+export interface CreateReportSubscriptionData {
+  teamId: string;
+  frequency: ReportFrequency;
+  recipients: string[];
+}
+
+export interface UpdateReportSubscriptionData {
+  frequency?: ReportFrequency;
+  recipients?: string[];
+  isActive?: boolean;
+}
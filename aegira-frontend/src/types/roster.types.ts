@@ -0,0 +1,62 @@
+/**
+ * Roster Types - Rotating shift patterns (overnight and split-shift schedules)
+ * Backend: src/modules/roster
+ */
+
+/** Check-in window; end before start means it closes the next morning */
+export interface ScheduleWindow {
+  start: string; // HH:mm
+  end: string;   // HH:mm
+}
+
+/** One list of windows per cycle day; an empty day is a rest day */
+export type ShiftCycle = ScheduleWindow[][];
+
+export interface RosterAssignment {
+  id: string;
+  name: string;
+  anchorDate: string | null; // YYYY-MM-DD — the date cycle day 1 falls on
+}
+
+export interface ShiftPattern {
+  id: string;
+  name: string;
+  description: string | null;
+  cycle: ShiftCycle;
+  teams: RosterAssignment[];
+  workers: RosterAssignment[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateShiftPatternData {
+  name: string;
+  description?: string;
+  cycle: ShiftCycle;
+}
+
+export interface UpdateShiftPatternData {
+  name?: string;
+  description?: string | null;
+  cycle?: ShiftCycle;
+}
+
+/** shiftPatternId null restores the weekly schedule */
+export interface AssignRosterData {
+  shiftPatternId: string | null;
+  anchorDate?: string;
+}
+
+export interface ScheduleDay {
+  date: string; // YYYY-MM-DD
+  isWorkDay: boolean;
+  windows: ScheduleWindow[];
+  source: 'roster' | 'weekly';
+  leaveType: string | null;
+  isHoliday: boolean;
+}
+
+export interface PersonSchedulePreview {
+  personId: string;
+  days: ScheduleDay[];
+}
@@ -22,6 +22,7 @@ export interface Team {
   check_in_start: string;  // e.g. "06:00"
   check_in_end: string;    // e.g. "10:00"
   work_days: string;       // CSV: "1,2,3,4,5" (Mon-Fri)
+  reminder_lead_minutes: number | null; // Minutes before check_in_end to remind workers (null = off)
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -48,6 +49,7 @@ export interface CreateTeamData {
   checkInStart?: string;
   checkInEnd?: string;
   workDays?: string;
+  reminderLeadMinutes?: number | null;
 }
 
 export interface UpdateTeamData {
@@ -59,6 +61,7 @@ export interface UpdateTeamData {
   checkInStart?: string;
   checkInEnd?: string;
   workDays?: string;
+  reminderLeadMinutes?: number | null;
 }
 
 export interface TeamWithMembers extends Team {